@@ -7,7 +7,12 @@ require('dotenv').config();
 const app = express();
 
 // Middleware
-app.use(express.json());
+// Keep the raw body around; webhook signatures are computed over the exact bytes sent
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(cors());
 
 // Routes
@@ -25,6 +30,13 @@ const testRoutes = require('./routes/testRoutes');
 const eventRoutes = require('./routes/eventRoutes');
 const attendanceRoutes = require('./routes/attendanceRoutes');
 const studentRoutes = require('./routes/studentRoutes');
+const parentRoutes = require('./routes/parentRoutes');
+const adminRoutes = require('./routes/adminRoutes');
+const paymentRoutes = require('./routes/paymentRoutes');
+const refundRoutes = require('./routes/refundRoutes');
+const couponRoutes = require('./routes/couponRoutes');
+const bundleRoutes = require('./routes/bundleRoutes');
+const questionBankRoutes = require('./routes/questionBankRoutes');
 
 app.use('/api/auth', authRoutes);
 app.use('/api/unpaidCourses', unpaidCourseRoutes);
@@ -41,6 +53,13 @@ app.use('/api/calendar', eventRoutes);
 app.use('/api/attendance', attendanceRoutes);
 // Fix: Change from '/api/student' to '/api/students' to match frontend
 app.use('/api/students', studentRoutes);
+app.use('/api/parents', parentRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/refunds', refundRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/bundles', bundleRoutes);
+app.use('/api/question-bank', questionBankRoutes);
 
 // Static file serving
 
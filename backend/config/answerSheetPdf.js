@@ -0,0 +1,178 @@
+// config/answerSheetPdf.js
+
+const { PDFDocument, StandardFonts, degrees, rgb } = require('pdf-lib');
+
+const GREEN = rgb(0.1, 0.6, 0.2);
+const RED = rgb(0.85, 0.1, 0.1);
+const GREY = rgb(0.35, 0.35, 0.35);
+const A4 = [595.28, 841.89];
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// The built-in PDF fonts only cover WinAnsi characters
+const toWinAnsi = (text) => String(text).replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const wrapText = (text, font, size, maxWidth) => {
+  const lines = [];
+  let line = '';
+  for (const word of toWinAnsi(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Annotations are placed on the page as the viewer shows it: top-left origin, rotation applied.
+// Returns helpers that draw in those display coordinates (in points) onto the PDF page.
+const displaySpace = (page) => {
+  const { width, height } = page.getSize();
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = angle === 90 || angle === 270;
+  const displayWidth = sideways ? height : width;
+  const displayHeight = sideways ? width : height;
+
+  const toPdf = (dx, dy) => {
+    const fx = dx / displayWidth;
+    const fy = dy / displayHeight;
+    switch (angle) {
+      case 90: return { x: fy * width, y: fx * height };
+      case 180: return { x: (1 - fx) * width, y: fy * height };
+      case 270: return { x: (1 - fy) * width, y: (1 - fx) * height };
+      default: return { x: fx * width, y: (1 - fy) * height };
+    }
+  };
+
+  return {
+    width: displayWidth,
+    height: displayHeight,
+    line: (from, to, color, thickness) =>
+      page.drawLine({ start: toPdf(...from), end: toPdf(...to), thickness, color }),
+    // (dx, dy) is the left end of the baseline
+    text: (value, dx, dy, options) =>
+      page.drawText(value, { ...toPdf(dx, dy), rotate: degrees(angle), ...options }),
+    // (dx, dy) is the top-left corner
+    box: (dx, dy, boxWidth, boxHeight, options) =>
+      page.drawRectangle({
+        ...toPdf(dx, dy + boxHeight),
+        width: boxWidth,
+        height: boxHeight,
+        rotate: degrees(angle),
+        ...options
+      })
+  };
+};
+
+const drawAnnotation = (space, annotation, font) => {
+  const x = annotation.x * space.width;
+  const y = annotation.y * space.height;
+  const size = Math.max(14, space.width * 0.035);
+  const thickness = Math.max(2, size / 8);
+
+  if (annotation.kind === 'tick') {
+    space.line([x - size / 2, y], [x - size / 6, y + size / 2], GREEN, thickness);
+    space.line([x - size / 6, y + size / 2], [x + size / 2, y - size / 2], GREEN, thickness);
+  } else if (annotation.kind === 'cross') {
+    space.line([x - size / 2, y - size / 2], [x + size / 2, y + size / 2], RED, thickness);
+    space.line([x - size / 2, y + size / 2], [x + size / 2, y - size / 2], RED, thickness);
+  } else if (annotation.text) {
+    const fontSize = Math.max(9, space.width * 0.018);
+    const lineHeight = fontSize * 1.25;
+    const maxWidth = Math.max(space.width - x - 10, space.width * 0.3);
+    const lines = wrapText(annotation.text, font, fontSize, maxWidth);
+    const boxWidth = Math.max(...lines.map(line => font.widthOfTextAtSize(line, fontSize))) + 8;
+
+    space.box(x - 4, y - 4, boxWidth, lines.length * lineHeight + 6, {
+      color: rgb(1, 1, 1),
+      opacity: 0.8,
+      borderColor: RED,
+      borderWidth: 0.75
+    });
+    lines.forEach((line, index) => {
+      space.text(line, x, y + fontSize + index * lineHeight - 2, { size: fontSize, font, color: RED });
+    });
+  }
+};
+
+// A summary page with the per-question marks
+const addSummaryPage = (document, { testTitle, studentName, fullMarks, marksScored, questionMarks }, fonts) => {
+  const page = document.addPage(A4);
+  const [width, height] = A4;
+  let y = height - 60;
+
+  page.drawText(toWinAnsi(testTitle), { x: 50, y, size: 18, font: fonts.bold });
+  y -= 24;
+  page.drawText(toWinAnsi(studentName), { x: 50, y, size: 12, font: fonts.regular, color: GREY });
+  y -= 40;
+
+  page.drawText('Question', { x: 50, y, size: 11, font: fonts.bold });
+  page.drawText('Marks', { x: width - 130, y, size: 11, font: fonts.bold });
+  y -= 8;
+  page.drawLine({ start: { x: 50, y }, end: { x: width - 50, y }, thickness: 0.75, color: GREY });
+  y -= 18;
+
+  for (const question of questionMarks) {
+    if (y < 80) break;
+    page.drawText(toWinAnsi(question.label), { x: 50, y, size: 11, font: fonts.regular });
+    page.drawText(String(round2(question.marks)), { x: width - 130, y, size: 11, font: fonts.regular });
+    y -= 18;
+  }
+
+  page.drawLine({ start: { x: 50, y: y + 8 }, end: { x: width - 50, y: y + 8 }, thickness: 0.75, color: GREY });
+  y -= 12;
+  page.drawText('Total', { x: 50, y, size: 12, font: fonts.bold });
+  page.drawText(`${round2(marksScored)} / ${fullMarks}`, { x: width - 130, y, size: 12, font: fonts.bold, color: RED });
+};
+
+// The submitted answer sheet with the teacher's ticks, crosses and comments drawn on, the total
+// stamped on the first page and a summary page of per-question marks at the end
+const buildAnnotatedPdf = async (sheet, { testTitle, studentName, fullMarks, marksScored }) => {
+  const document = await PDFDocument.load(sheet.fileData);
+  const fonts = {
+    regular: await document.embedFont(StandardFonts.Helvetica),
+    bold: await document.embedFont(StandardFonts.HelveticaBold)
+  };
+  const pages = document.getPages();
+
+  for (const annotation of sheet.annotations) {
+    const page = pages[annotation.page];
+    if (page) {
+      drawAnnotation(displaySpace(page), annotation, fonts.regular);
+    }
+  }
+
+  if (marksScored !== null && marksScored !== undefined && pages.length) {
+    const space = displaySpace(pages[0]);
+    const label = `Marks: ${round2(marksScored)} / ${fullMarks}`;
+    const size = Math.max(12, space.width * 0.028);
+    const labelWidth = fonts.bold.widthOfTextAtSize(label, size);
+    const x = space.width - labelWidth - 24;
+
+    space.box(x - 8, 16, labelWidth + 16, size + 12, {
+      color: rgb(1, 1, 1),
+      opacity: 0.85,
+      borderColor: RED,
+      borderWidth: 1.5
+    });
+    space.text(label, x, 16 + size + 3, { size, font: fonts.bold, color: RED });
+  }
+
+  if (sheet.questionMarks.length) {
+    addSummaryPage(document, {
+      testTitle,
+      studentName,
+      fullMarks,
+      marksScored,
+      questionMarks: sheet.questionMarks
+    }, fonts);
+  }
+
+  return Buffer.from(await document.save());
+};
+
+module.exports = { buildAnnotatedPdf };
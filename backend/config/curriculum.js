@@ -0,0 +1,122 @@
+// config/curriculum.js
+
+const mongoose = require('mongoose');
+const PaidNotes = require('../models/PaidNotes');
+const UnpaidNotes = require('../models/UnpaidNotes');
+const DPP = require('../models/DPP');
+
+// What can be attached to a lecture; notes resources point at one PDF inside the notes
+const RESOURCE_TYPES = ['PaidNotes', 'UnpaidNotes', 'DPP'];
+const NOTES_MODELS = { PaidNotes, UnpaidNotes };
+
+const isObjectId = (value) => mongoose.Types.ObjectId.isValid(String(value));
+
+// Replaces a course's chapters from [{ _id?, title, videoIds }] and reorders videoLinks to match:
+// chapter by chapter in the order given, then any videos left out of every chapter.
+// Returns an error message, or null once the course has been updated (not saved).
+const applyCurriculum = (course, chapters) => {
+  if (!Array.isArray(chapters)) {
+    return 'chapters must be an array';
+  }
+
+  const videosById = new Map(course.videoLinks.map(video => [video._id.toString(), video]));
+  const placed = new Set();
+  const nextChapters = [];
+  const nextVideos = [];
+
+  for (const chapter of chapters) {
+    const title = typeof chapter?.title === 'string' ? chapter.title.trim() : '';
+    if (!title) {
+      return 'Every chapter needs a title';
+    }
+    if (chapter._id && !isObjectId(chapter._id)) {
+      return `Invalid chapter id: ${chapter._id}`;
+    }
+
+    const chapterId = chapter._id ? new mongoose.Types.ObjectId(String(chapter._id)) : new mongoose.Types.ObjectId();
+    nextChapters.push({ _id: chapterId, title });
+
+    for (const videoId of chapter.videoIds || []) {
+      const video = videosById.get(String(videoId));
+      if (!video) {
+        return `Video ${videoId} is not part of this course`;
+      }
+      if (placed.has(String(videoId))) {
+        return `Video "${video.videoTitle}" is in more than one chapter`;
+      }
+      placed.add(String(videoId));
+      video.chapterId = chapterId;
+      nextVideos.push(video);
+    }
+  }
+
+  for (const video of course.videoLinks) {
+    if (!placed.has(video._id.toString())) {
+      video.chapterId = null;
+      nextVideos.push(video);
+    }
+  }
+
+  course.chapters = nextChapters;
+  course.videoLinks = nextVideos;
+  return null;
+};
+
+// Looks up the item behind a resource request and returns what to store on the lecture
+const buildResource = async ({ itemType, itemId, pdfId }) => {
+  if (!RESOURCE_TYPES.includes(itemType)) {
+    return { message: `itemType must be one of ${RESOURCE_TYPES.join(', ')}` };
+  }
+  if (!isObjectId(itemId)) {
+    return { message: 'A valid itemId is required' };
+  }
+
+  if (itemType === 'DPP') {
+    const dpp = await DPP.findById(itemId).select('title');
+    if (!dpp) {
+      return { message: 'DPP not found' };
+    }
+    return { resource: { itemType, itemId: dpp._id, pdfId: null, title: dpp.title } };
+  }
+
+  if (!isObjectId(pdfId)) {
+    return { message: 'A valid pdfId is required for notes' };
+  }
+
+  const notes = await NOTES_MODELS[itemType].findById(itemId).select('notesTitle pdfs._id pdfs.pdfTitle');
+  const pdf = notes?.pdfs.id(pdfId);
+  if (!pdf) {
+    return { message: 'Notes PDF not found' };
+  }
+  return { resource: { itemType, itemId: notes._id, pdfId: pdf._id, title: pdf.pdfTitle } };
+};
+
+// Streams the PDF a lecture resource points at. Returns false when it no longer exists.
+const sendResourcePdf = async (resource, res) => {
+  let file;
+
+  if (resource.itemType === 'DPP') {
+    const dpp = await DPP.findById(resource.itemId).select('questionPDF');
+    file = dpp?.questionPDF?.pdfData ? dpp.questionPDF : null;
+  } else {
+    const notes = await NOTES_MODELS[resource.itemType].findById(resource.itemId).select('pdfs');
+    file = notes?.pdfs.id(resource.pdfId) || null;
+  }
+
+  if (!file) return false;
+
+  res.set({
+    'Content-Type': file.pdfMimeType,
+    'Content-Length': file.fileSize,
+    'Content-Disposition': `inline; filename="${file.originalName}"`
+  });
+  res.send(file.pdfData);
+  return true;
+};
+
+module.exports = {
+  RESOURCE_TYPES,
+  applyCurriculum,
+  buildResource,
+  sendResourcePdf
+};
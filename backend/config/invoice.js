@@ -0,0 +1,143 @@
+// config/invoice.js
+
+const PDFDocument = require('pdfkit');
+const Payment = require('../models/Payment');
+const Counter = require('../models/Counter');
+
+// Seller details printed on every invoice
+const SELLER = {
+  name: process.env.INVOICE_SELLER_NAME || 'SUJHAV',
+  address: process.env.INVOICE_SELLER_ADDRESS || '',
+  gstin: process.env.INVOICE_GSTIN || ''
+};
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'SUJ';
+// Prices are GST-inclusive; the tax is split out of the amount paid
+const GST_RATE = Number(process.env.INVOICE_GST_RATE || 18);
+// SAC for commercial training and coaching services
+const SAC_CODE = '999293';
+
+const ITEM_LABELS = {
+  PaidCourse: 'Course enrollment',
+  UnpaidCourse: 'Course enrollment',
+  PaidNotes: 'Study notes',
+  PaidMaterials: 'Study material',
+  Bundle: 'Course bundle'
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// The built-in PDF fonts have no rupee sign
+const formatAmount = (value) => `INR ${round2(value).toFixed(2)}`;
+
+const formatDate = (date) =>
+  new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Indian financial year (April to March), e.g. "2026-27"
+const getFinancialYear = (date) => {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${year}-${String(year + 1).slice(-2)}`;
+};
+
+// Give a captured payment the next invoice number for its financial year, e.g. SUJ/2026-27/00042.
+// Numbers are never reassigned; returns the payment with its invoice number set.
+// The payment is read again before a number is taken, so one already numbered elsewhere (at
+// capture or by an invoice download) doesn't use one up. Two calls racing between that read
+// and the update can still skip a number, so the sequence may have gaps.
+const assignInvoiceNumber = async (payment) => {
+  if (payment.invoiceNumber) return payment;
+
+  const unnumbered = await Payment.findOne({ _id: payment._id, invoiceNumber: null }).select('_id');
+  if (!unnumbered) return Payment.findById(payment._id);
+
+  const financialYear = getFinancialYear(payment.capturedAt || new Date());
+  const seq = await Counter.next(`invoice:${financialYear}`);
+  const invoiceNumber = `${INVOICE_PREFIX}/${financialYear}/${String(seq).padStart(5, '0')}`;
+
+  const updated = await Payment.findOneAndUpdate(
+    { _id: payment._id, invoiceNumber: null },
+    { invoiceNumber, invoicedAt: payment.capturedAt || new Date() },
+    { new: true }
+  );
+  return updated || Payment.findById(payment._id);
+};
+
+// Split a GST-inclusive amount into taxable value and tax
+const splitTax = (amount) => {
+  const taxableValue = round2((amount * 100) / (100 + GST_RATE));
+  return { taxableValue, tax: round2(amount - taxableValue) };
+};
+
+const drawRow = (doc, label, value, { bold = false } = {}) => {
+  const y = doc.y;
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+    .text(label, 50, y, { width: 330 })
+    .text(value, 380, y, { width: 165, align: 'right' });
+  doc.moveDown(0.4);
+};
+
+// Build the invoice PDF for a captured (or later refunded) payment.
+// Returns the finished PDFKit document; pipe it to the response.
+const buildInvoicePdf = (payment, student) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const { taxableValue, tax } = splitTax(payment.amount);
+  const discount = payment.coupon?.discount || 0;
+
+  doc.font('Helvetica-Bold').fontSize(20).text('TAX INVOICE', { align: 'right' });
+  doc.moveUp();
+  doc.fontSize(16).text(SELLER.name);
+  doc.font('Helvetica').fontSize(10);
+  if (SELLER.address) doc.text(SELLER.address, { width: 280 });
+  if (SELLER.gstin) doc.text(`GSTIN: ${SELLER.gstin}`);
+  doc.moveDown(1.5);
+
+  const detailsTop = doc.y;
+  doc.font('Helvetica-Bold').text('Billed to', 50, detailsTop);
+  doc.font('Helvetica')
+    .text(student?.name || 'Student')
+    .text(student?.email || '');
+  if (student?.phone) doc.text(student.phone);
+
+  doc.font('Helvetica-Bold').text('Invoice no.', 330, detailsTop, { continued: true })
+    .font('Helvetica').text(`  ${payment.invoiceNumber}`);
+  doc.font('Helvetica-Bold').text('Date', 330, doc.y, { continued: true })
+    .font('Helvetica').text(`  ${formatDate(payment.invoicedAt || payment.capturedAt)}`);
+  doc.font('Helvetica-Bold').text('Payment ID', 330, doc.y, { continued: true })
+    .font('Helvetica').text(`  ${payment.razorpayPaymentId || '-'}`);
+  doc.font('Helvetica-Bold').text('Order ID', 330, doc.y, { continued: true })
+    .font('Helvetica').text(`  ${payment.razorpayOrderId}`);
+  doc.moveDown(2);
+
+  doc.x = 50;
+  doc.font('Helvetica-Bold').fontSize(11);
+  drawRow(doc, 'Description', 'Amount', { bold: true });
+  doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(0.5);
+
+  doc.fontSize(10);
+  drawRow(doc, `${payment.itemTitle} (${ITEM_LABELS[payment.itemType] || payment.itemType}, SAC ${SAC_CODE})`,
+    formatAmount(payment.originalAmount ?? payment.amount));
+  if (discount > 0) {
+    drawRow(doc, `Coupon ${payment.coupon.code}`, `- ${formatAmount(discount)}`);
+  }
+  doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(0.5);
+
+  drawRow(doc, 'Taxable value', formatAmount(taxableValue));
+  drawRow(doc, `CGST @ ${GST_RATE / 2}%`, formatAmount(tax / 2));
+  drawRow(doc, `SGST @ ${GST_RATE / 2}%`, formatAmount(tax - round2(tax / 2)));
+  drawRow(doc, 'Total paid (inclusive of GST)', formatAmount(payment.amount), { bold: true });
+
+  if (payment.status === 'refunded') {
+    doc.moveDown();
+    drawRow(doc, `Refunded on ${formatDate(payment.refundedAt)}`, `- ${formatAmount(payment.refundedAmount)}`);
+  }
+
+  doc.moveDown(3);
+  doc.font('Helvetica').fontSize(9).fillColor('#666666')
+    .text('This is a computer-generated invoice and does not need a signature.', 50, doc.y, { align: 'center' });
+
+  doc.end();
+  return doc;
+};
+
+module.exports = { assignInvoiceNumber, buildInvoicePdf, getFinancialYear };
@@ -0,0 +1,38 @@
+// config/mail.js
+
+const fs = require('fs');
+const path = require('path');
+
+// Transports take { to, subject, text } and return a promise.
+// MAIL_TRANSPORT picks a built-in one; call setTransport() to plug in a real provider.
+const transports = {
+  console: async ({ to, subject, text }) => {
+    console.log(`[mail] To: ${to}\n[mail] Subject: ${subject}\n${text}`);
+  },
+  file: async ({ to, subject, text }) => {
+    const outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', 'mail-outbox');
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${to.replace(/[^a-zA-Z0-9@.]/g, '_')}.txt`;
+    await fs.promises.writeFile(
+      path.join(outboxDir, fileName),
+      `To: ${to}\nSubject: ${subject}\n\n${text}\n`
+    );
+    console.log(`[mail] Wrote ${fileName} to ${outboxDir}`);
+  }
+};
+
+let customTransport = null;
+
+const setTransport = (transport) => {
+  customTransport = transport;
+};
+
+const sendMail = async (message) => {
+  const transport = customTransport || transports[process.env.MAIL_TRANSPORT] || transports.console;
+  await transport({
+    from: process.env.MAIL_FROM || 'no-reply@sujhav.app',
+    ...message
+  });
+};
+
+module.exports = { sendMail, setTransport };
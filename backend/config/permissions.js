@@ -0,0 +1,40 @@
+// config/permissions.js
+
+// What each role is allowed to do. Routes ask for a permission (requirePermission('course:write'))
+// rather than a role, so granting a capability to another role is a one-line change here.
+const ROLE_PERMISSIONS = {
+  admin: [
+    'course:write',
+    'course:read-all',
+    'notes:write',
+    'dpp:write',
+    'question:write',
+    'material:write',
+    'batch:manage',
+    'user:manage',
+    'payment:manage',
+    'coupon:manage',
+    'bundle:write',
+    'analytics:read',
+    'attendance:read-all'
+  ],
+  teacher: [
+    'course:read-all',
+    'test:manage',
+    'question:write',
+    'attendance:mark',
+    'attendance:read-all',
+    'event:write'
+  ],
+  user: [
+    'test:take'
+  ],
+  parent: [
+    'children:read'
+  ]
+};
+
+const hasPermission = (role, permission) =>
+  (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+module.exports = { ROLE_PERMISSIONS, hasPermission };
@@ -0,0 +1,71 @@
+// config/razorpay.js
+
+const crypto = require('crypto');
+const Razorpay = require('razorpay');
+
+// RAZORPAY_API_URL points the client at another server, e.g. scripts/fakeRazorpay.js
+// (npm run fake-razorpay) during local development and testing.
+const API_URL = process.env.RAZORPAY_API_URL || 'https://api.razorpay.com';
+
+let client = null;
+
+// Created on first use so the server still boots without payment keys configured
+const getClient = () => {
+  if (!isConfigured()) {
+    throw new Error('Payment gateway not configured');
+  }
+  if (!client) {
+    client = new Razorpay({
+      key_id: process.env.RAZORPAY_KEY_ID,
+      key_secret: process.env.RAZORPAY_KEY_SECRET
+    });
+    // The SDK has no host option; its axios instance is the only way to redirect it
+    client.api.rq.defaults.baseURL = API_URL;
+  }
+  return client;
+};
+
+const isConfigured = () => Boolean(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET);
+
+const hmac = (secret, body) =>
+  crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+const safeEqual = (expected, received) => {
+  if (typeof received !== 'string' || received.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+};
+
+// Checkout signs "<order_id>|<payment_id>" with the key secret
+const verifyPaymentSignature = (orderId, paymentId, signature) =>
+  safeEqual(hmac(process.env.RAZORPAY_KEY_SECRET, `${orderId}|${paymentId}`), signature);
+
+// Webhooks sign the raw request body with the webhook secret set in the dashboard
+const verifyWebhookSignature = (rawBody, signature) => {
+  if (!process.env.RAZORPAY_WEBHOOK_SECRET || !rawBody) return false;
+  return safeEqual(hmac(process.env.RAZORPAY_WEBHOOK_SECRET, rawBody), signature);
+};
+
+// Razorpay amounts are in paise; the rest of the app works in rupees
+const toPaise = (amount) => Math.round(amount * 100);
+
+const createOrder = ({ amount, receipt, notes }) =>
+  getClient().orders.create({ amount: toPaise(amount), currency: 'INR', receipt, notes });
+
+const fetchPayment = (paymentId) => getClient().payments.fetch(paymentId);
+
+// Refund a captured payment, in full or for `amount` rupees
+const createRefund = (paymentId, { amount, notes } = {}) =>
+  getClient().payments.refund(paymentId, {
+    ...(amount !== undefined && { amount: toPaise(amount) }),
+    notes
+  });
+
+module.exports = {
+  isConfigured,
+  createOrder,
+  fetchPayment,
+  createRefund,
+  verifyPaymentSignature,
+  verifyWebhookSignature,
+  toPaise
+};
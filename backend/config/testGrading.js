@@ -0,0 +1,193 @@
+// config/testGrading.js
+
+// Default marks for each question type under the common exam patterns. Teachers can still
+// change any question's marks; these only fill in what a question leaves out.
+const MARKING_SCHEMES = {
+  'jee-main': {
+    single: { marks: 4, negativeMarks: 1, partialMarking: false },
+    multiple: { marks: 4, negativeMarks: 2, partialMarking: true },
+    integer: { marks: 4, negativeMarks: 1, partialMarking: false },
+    numerical: { marks: 4, negativeMarks: 1, partialMarking: false }
+  },
+  'jee-advanced': {
+    single: { marks: 3, negativeMarks: 1, partialMarking: false },
+    multiple: { marks: 4, negativeMarks: 2, partialMarking: true },
+    integer: { marks: 4, negativeMarks: 0, partialMarking: false },
+    numerical: { marks: 3, negativeMarks: 0, partialMarking: false }
+  },
+  neet: {
+    single: { marks: 4, negativeMarks: 1, partialMarking: false },
+    multiple: { marks: 4, negativeMarks: 1, partialMarking: false },
+    integer: { marks: 4, negativeMarks: 1, partialMarking: false },
+    numerical: { marks: 4, negativeMarks: 1, partialMarking: false }
+  },
+  custom: {
+    single: { marks: 1, negativeMarks: 0, partialMarking: false },
+    multiple: { marks: 1, negativeMarks: 0, partialMarking: false },
+    integer: { marks: 1, negativeMarks: 0, partialMarking: false },
+    numerical: { marks: 1, negativeMarks: 0, partialMarking: false }
+  }
+};
+
+const QUESTION_TYPES = ['single', 'multiple', 'integer', 'numerical'];
+
+const toNumber = (value) => (value === '' || value === null || value === undefined ? NaN : Number(value));
+
+// Checks the answer part of one question (type, text, options or numerical answer, solution)
+// and fills in marks from the scheme's defaults. Returns { question } or { message }.
+const normalizeQuestion = (raw, defaults = MARKING_SCHEMES.custom) => {
+  const questionType = raw?.questionType;
+
+  if (!QUESTION_TYPES.includes(questionType)) {
+    return { message: `type must be one of ${QUESTION_TYPES.join(', ')}` };
+  }
+  if (!raw.questionText?.trim()) {
+    return { message: 'question text is required' };
+  }
+
+  const scheme = defaults[questionType];
+  const marks = raw.marks === undefined ? scheme.marks : toNumber(raw.marks);
+  const negativeMarks = raw.negativeMarks === undefined ? scheme.negativeMarks : Math.abs(toNumber(raw.negativeMarks));
+  if (!(marks > 0) || !(negativeMarks >= 0)) {
+    return { message: 'marks must be positive and negative marks zero or more' };
+  }
+
+  const question = {
+    questionType,
+    questionText: raw.questionText.trim(),
+    options: [],
+    correctOptions: [],
+    correctAnswer: null,
+    tolerance: 0,
+    marks,
+    negativeMarks,
+    partialMarking: false,
+    solution: raw.solution?.trim() || ''
+  };
+  if (raw._id) question._id = raw._id;
+
+  if (questionType === 'single' || questionType === 'multiple') {
+    const options = (raw.options || []).map(option => String(option).trim());
+    if (options.length < 2 || options.some(option => !option)) {
+      return { message: 'add at least two options and fill every option' };
+    }
+
+    const correctOptions = [...new Set((raw.correctOptions || []).map(Number))].sort((a, b) => a - b);
+    if (!correctOptions.length || correctOptions.some(option => !Number.isInteger(option) || option < 0 || option >= options.length)) {
+      return { message: 'mark the correct option' };
+    }
+    if (questionType === 'single' && correctOptions.length !== 1) {
+      return { message: 'a single-correct question has exactly one correct option' };
+    }
+
+    question.options = options;
+    question.correctOptions = correctOptions;
+    question.partialMarking = questionType === 'multiple' &&
+      (raw.partialMarking === undefined ? scheme.partialMarking : raw.partialMarking === true);
+  } else {
+    const correctAnswer = toNumber(raw.correctAnswer);
+    if (!Number.isFinite(correctAnswer) || (questionType === 'integer' && !Number.isInteger(correctAnswer))) {
+      return { message: `enter a valid ${questionType === 'integer' ? 'integer' : 'numerical'} answer` };
+    }
+
+    question.correctAnswer = correctAnswer;
+    if (questionType === 'numerical') {
+      const tolerance = raw.tolerance === undefined ? 0 : toNumber(raw.tolerance);
+      if (!(tolerance >= 0)) {
+        return { message: 'tolerance must be zero or more' };
+      }
+      question.tolerance = tolerance;
+    }
+  }
+
+  return { question };
+};
+
+// Checks questions sent by a teacher and fills in the scheme's marks.
+// Returns { questions } or { message } describing the first problem.
+const normalizeQuestions = (rawQuestions, markingScheme = 'custom') => {
+  if (!Array.isArray(rawQuestions)) {
+    return { message: 'questions must be an array' };
+  }
+
+  const defaults = MARKING_SCHEMES[markingScheme] || MARKING_SCHEMES.custom;
+  const questions = [];
+
+  for (const [index, raw] of rawQuestions.entries()) {
+    const { question, message } = normalizeQuestion(raw, defaults);
+    if (!question) {
+      return { message: `Question ${index + 1}: ${message}` };
+    }
+    questions.push(question);
+  }
+
+  return { questions };
+};
+
+const isAnswered = (question, answer) => {
+  if (!answer) return false;
+  if (question.questionType === 'single' || question.questionType === 'multiple') {
+    return (answer.selectedOptions || []).length > 0;
+  }
+  return answer.value !== null && answer.value !== undefined;
+};
+
+// Marks one answer. Status is 'correct', 'partial', 'incorrect' or 'unattempted'.
+const gradeQuestion = (question, answer) => {
+  if (!isAnswered(question, answer)) {
+    return { marksAwarded: 0, status: 'unattempted' };
+  }
+
+  const wrong = { marksAwarded: -question.negativeMarks, status: 'incorrect' };
+
+  if (question.questionType === 'single') {
+    return answer.selectedOptions.length === 1 && answer.selectedOptions[0] === question.correctOptions[0]
+      ? { marksAwarded: question.marks, status: 'correct' }
+      : wrong;
+  }
+
+  if (question.questionType === 'multiple') {
+    const selected = [...new Set(answer.selectedOptions)];
+    const correct = new Set(question.correctOptions);
+
+    if (selected.some(option => !correct.has(option))) return wrong;
+    if (selected.length === correct.size) return { marksAwarded: question.marks, status: 'correct' };
+    return question.partialMarking
+      ? { marksAwarded: Math.min(selected.length, question.marks), status: 'partial' }
+      : wrong;
+  }
+
+  const value = Number(answer.value);
+  if (question.questionType === 'integer') {
+    return value === question.correctAnswer ? { marksAwarded: question.marks, status: 'correct' } : wrong;
+  }
+
+  return Math.abs(value - question.correctAnswer) <= question.tolerance
+    ? { marksAwarded: question.marks, status: 'correct' }
+    : wrong;
+};
+
+// Grades every question of a test against an attempt's answers
+const gradeAttempt = (questions, answers) => {
+  const answersById = new Map(answers.map(answer => [answer.questionId.toString(), answer]));
+
+  const results = questions.map(question => ({
+    questionId: question._id,
+    ...gradeQuestion(question, answersById.get(question._id.toString()))
+  }));
+
+  const score = results.reduce((total, result) => total + result.marksAwarded, 0);
+  return { score, results };
+};
+
+const getTotalMarks = (questions) => questions.reduce((total, question) => total + question.marks, 0);
+
+module.exports = {
+  MARKING_SCHEMES,
+  QUESTION_TYPES,
+  normalizeQuestion,
+  normalizeQuestions,
+  gradeQuestion,
+  gradeAttempt,
+  getTotalMarks
+};
@@ -0,0 +1,176 @@
+// config/testSections.js
+
+const MAX_SECTIONS = 20;
+const MAX_QUESTIONS = 200;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Checks an offline test's marking scheme: named sections, each listing its questions and
+// their maximum marks. The question marks must add up to the test's full marks so section
+// scores add up to the total. Returns { sections } or { message }.
+const normalizeSections = (raw, fullMarks) => {
+  let rawSections = raw;
+  if (typeof raw === 'string') {
+    try {
+      rawSections = raw.trim() ? JSON.parse(raw) : [];
+    } catch {
+      return { message: 'Invalid marking scheme' };
+    }
+  }
+  if (!Array.isArray(rawSections)) {
+    return { message: 'Invalid marking scheme' };
+  }
+  if (rawSections.length > MAX_SECTIONS) {
+    return { message: `A test can have at most ${MAX_SECTIONS} sections` };
+  }
+
+  const sections = [];
+  const labels = new Set();
+
+  for (const rawSection of rawSections) {
+    const name = String(rawSection?.name ?? '').trim();
+    if (!name) {
+      return { message: 'Every section needs a name' };
+    }
+    if (sections.some(section => section.name === name)) {
+      return { message: `Section ${name} is listed twice` };
+    }
+
+    const rawQuestions = Array.isArray(rawSection.questions) ? rawSection.questions : [];
+    if (!rawQuestions.length) {
+      return { message: `Section ${name} has no questions` };
+    }
+
+    const questions = [];
+    for (const rawQuestion of rawQuestions) {
+      const label = String(rawQuestion?.label ?? '').trim();
+      const maxMarks = Number(rawQuestion?.maxMarks);
+      if (!label) {
+        return { message: `Every question in section ${name} needs a label` };
+      }
+      if (labels.has(label)) {
+        return { message: `Question ${label} is listed twice` };
+      }
+      if (!Number.isFinite(maxMarks) || maxMarks <= 0) {
+        return { message: `Question ${label} needs marks greater than 0` };
+      }
+      labels.add(label);
+      questions.push({ label, maxMarks });
+    }
+
+    sections.push({ name, questions });
+  }
+
+  if (labels.size > MAX_QUESTIONS) {
+    return { message: `A test can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const total = round2(sections.reduce(
+    (sum, section) => sum + section.questions.reduce((subtotal, question) => subtotal + question.maxMarks, 0),
+    0
+  ));
+  if (sections.length && total !== Number(fullMarks)) {
+    return { message: `Question marks add up to ${total}, but the test is out of ${fullMarks}` };
+  }
+
+  return { sections };
+};
+
+// Checks a student's per-question marks against the test's scheme. Questions left out score 0.
+// Returns { questionMarks, total } or { message }.
+const normalizeQuestionMarks = (sections, rawMarks) => {
+  if (!Array.isArray(rawMarks)) {
+    return { message: 'Invalid question marks' };
+  }
+
+  const given = new Map();
+  for (const raw of rawMarks) {
+    const label = String(raw?.label ?? '').trim();
+    const marks = Number(raw?.marks);
+    if (given.has(label)) {
+      return { message: `Question ${label} is listed twice` };
+    }
+    if (!Number.isFinite(marks) || marks < 0) {
+      return { message: `Marks for question ${label} must be a non-negative number` };
+    }
+    given.set(label, marks);
+  }
+
+  const questionMarks = [];
+  for (const section of sections) {
+    for (const question of section.questions) {
+      const marks = given.get(question.label) ?? 0;
+      if (marks > question.maxMarks) {
+        return { message: `Question ${question.label} is out of ${question.maxMarks}` };
+      }
+      given.delete(question.label);
+      questionMarks.push({ label: question.label, marks });
+    }
+  }
+
+  if (given.size) {
+    return { message: `Question ${[...given.keys()][0]} is not in this test's marking scheme` };
+  }
+
+  const total = round2(questionMarks.reduce((sum, question) => sum + question.marks, 0));
+  return { questionMarks, total };
+};
+
+// A student's score in each section of the test, or [] if the test has no scheme or the
+// student's marks were entered as a total only
+const getSectionBreakdown = (sections, questionMarks) => {
+  if (!sections?.length || !questionMarks?.length) return [];
+
+  const marksByLabel = new Map(questionMarks.map(question => [question.label, question.marks]));
+
+  return sections.map(section => {
+    let marksScored = 0;
+    let maxMarks = 0;
+    const questions = section.questions.map(question => {
+      const marks = marksByLabel.get(question.label) ?? 0;
+      marksScored += marks;
+      maxMarks += question.maxMarks;
+      return { label: question.label, marks, maxMarks: question.maxMarks };
+    });
+
+    return {
+      name: section.name,
+      marksScored: round2(marksScored),
+      maxMarks: round2(maxMarks),
+      percentage: maxMarks > 0 ? parseFloat(((marksScored / maxMarks) * 100).toFixed(2)) : 0,
+      questions
+    };
+  });
+};
+
+// Adds one test's breakdown into running totals keyed by section name, so "Physics" in
+// several tests is reported as one section
+const addSectionTotals = (totals, breakdown) => {
+  breakdown.forEach(section => {
+    if (!totals[section.name]) {
+      totals[section.name] = { name: section.name, tests: 0, marksScored: 0, maxMarks: 0, percentage: 0 };
+    }
+    totals[section.name].tests++;
+    totals[section.name].marksScored = round2(totals[section.name].marksScored + section.marksScored);
+    totals[section.name].maxMarks = round2(totals[section.name].maxMarks + section.maxMarks);
+  });
+  return totals;
+};
+
+// Running totals as a list with percentages, weakest section first
+const summarizeSectionTotals = (totals) => Object.values(totals)
+  .map(section => ({
+    ...section,
+    percentage: section.maxMarks > 0
+      ? parseFloat(((section.marksScored / section.maxMarks) * 100).toFixed(2))
+      : 0
+  }))
+  .sort((a, b) => a.percentage - b.percentage);
+
+module.exports = {
+  normalizeSections,
+  normalizeQuestionMarks,
+  getSectionBreakdown,
+  addSectionTotals,
+  summarizeSectionTotals
+};
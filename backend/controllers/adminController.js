@@ -0,0 +1,189 @@
+const bcryptjs = require('bcryptjs');
+const User = require('../models/User');
+const { revokeAllSessions, sendPasswordResetEmail } = require('./authController');
+
+const ROLES = ['user', 'teacher', 'admin', 'parent'];
+const USER_FIELDS = '-password';
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Admins can't lock themselves out by demoting or deactivating their own account
+const isSelf = (req, userId) => req.user.id === userId;
+
+// Search and paginate users
+// Query params: ?search=&role=&status=active|inactive&page=1&limit=20 (all optional)
+const getUsers = async (req, res) => {
+  try {
+    const { search, role, status, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (search?.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: pattern }, { email: pattern }, { phone: pattern }];
+    }
+    if (role && ROLES.includes(role)) query.role = role;
+    // Accounts created before deactivation existed have no isActive field
+    if (status === 'active') query.isActive = { $ne: false };
+    if (status === 'inactive') query.isActive = false;
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .select(USER_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      User.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: users,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting users:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch users', error: error.message });
+  }
+};
+
+// Get a single user
+const getUserById = async (req, res) => {
+  try {
+    const user = await User.findById(req.params.id)
+      .select(USER_FIELDS)
+      .populate('children', 'name email');
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    res.json({ success: true, data: user });
+  } catch (error) {
+    res.status(500).json({ success: false, message: 'Failed to fetch user', error: error.message });
+  }
+};
+
+// Change a user's role
+const updateUserRole = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ success: false, message: `Role must be one of: ${ROLES.join(', ')}` });
+    }
+
+    if (isSelf(req, id)) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    if (user.role !== role) {
+      user.role = role;
+      // Only parent accounts keep linked students
+      if (role !== 'parent') {
+        user.children = [];
+      }
+      await user.save();
+
+      // Sign the user out everywhere so the app reloads with the new role's screens
+      await revokeAllSessions(user._id);
+    }
+
+    const updatedUser = await User.findById(id).select(USER_FIELDS);
+    res.json({ success: true, message: `Role changed to ${role}`, data: updatedUser });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ success: false, message: 'Failed to update role', error: error.message });
+  }
+};
+
+// Deactivate or reactivate an account
+const updateUserStatus = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { isActive } = req.body;
+
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'isActive must be true or false' });
+    }
+
+    if (isSelf(req, id)) {
+      return res.status(400).json({ success: false, message: 'You cannot deactivate your own account' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { isActive, deactivatedAt: isActive ? null : new Date() },
+      { new: true }
+    ).select(USER_FIELDS);
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    if (!isActive) {
+      await revokeAllSessions(user._id);
+    }
+
+    res.json({
+      success: true,
+      message: isActive ? 'Account reactivated' : 'Account deactivated',
+      data: user
+    });
+  } catch (error) {
+    console.error('Error updating user status:', error);
+    res.status(500).json({ success: false, message: 'Failed to update account status', error: error.message });
+  }
+};
+
+// Reset a user's password: sets the given temporary password, or emails a reset link when none is sent
+const resetUserPassword = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { password } = req.body;
+
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    if (!password) {
+      await sendPasswordResetEmail(user);
+      return res.json({ success: true, message: `Password reset link sent to ${user.email}` });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ success: false, message: 'Password must be at least 6 characters long' });
+    }
+
+    user.password = await bcryptjs.hash(password, 10);
+    await user.save();
+    await revokeAllSessions(user._id);
+
+    res.json({ success: true, message: 'Password updated. The user has been signed out of all devices.' });
+  } catch (error) {
+    console.error('Error resetting user password:', error);
+    res.status(500).json({ success: false, message: 'Failed to reset password', error: error.message });
+  }
+};
+
+module.exports = {
+  getUsers,
+  getUserById,
+  updateUserRole,
+  updateUserStatus,
+  resetUserPassword
+};
@@ -0,0 +1,412 @@
+// controllers/analyticsController.js
+const Payment = require('../models/Payment');
+const Enrollment = require('../models/Enrollment');
+const PurchasedNotes = require('../models/PurchasedNotes');
+const PaidCourse = require('../models/PaidCourse');
+const UnpaidCourse = require('../models/UnpaidCourse');
+const PaidNotes = require('../models/PaidNotes');
+const PaidMaterials = require('../models/PaidMaterials');
+const Bundle = require('../models/Bundle');
+
+// Paid purchases (courses, notes, materials, bundles) go through Payment, so sales figures
+// come from there. Refunded payments count towards gross revenue and refunds.
+const SOLD_STATUSES = ['captured', 'refunded'];
+
+// Days and months are bucketed in this timezone
+const TIMEZONE = process.env.ANALYTICS_TIMEZONE || 'Asia/Kolkata';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+const ITEM_SOURCES = {
+  PaidCourse: { Model: PaidCourse, titleField: 'courseTitle' },
+  UnpaidCourse: { Model: UnpaidCourse, titleField: 'courseTitle' },
+  PaidNotes: { Model: PaidNotes, titleField: 'notesTitle' },
+  PaidMaterials: { Model: PaidMaterials, titleField: 'materialTitle' },
+  Bundle: { Model: Bundle, titleField: 'bundleTitle' }
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// How far TIMEZONE's wall clock is ahead of UTC at the given instant
+const getZoneOffsetMs = (date) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: TIMEZONE,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getMilliseconds());
+};
+
+// The YYYY-MM-DD day it is in TIMEZONE at the given instant
+const getZonedDay = (date) => {
+  const wallClock = new Date(date.getTime() + getZoneOffsetMs(date));
+  return wallClock.toISOString().slice(0, 10);
+};
+
+// A query date as a YYYY-MM-DD day: a bare day as written, a timestamp as its TIMEZONE day.
+// Returns null when it isn't a date.
+const toZonedDay = (value) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? date.toISOString().slice(0, 10) : getZonedDay(date);
+};
+
+const addDays = (day, days) => new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+
+// The instant a YYYY-MM-DD day begins in TIMEZONE. The offset is read again at the first
+// guess, so a day that starts next to a DST change still lands on its midnight.
+const startOfZonedDay = (day) => {
+  const midnightUtc = Date.parse(day);
+  const guess = midnightUtc - getZoneOffsetMs(new Date(midnightUtc));
+  return new Date(midnightUtc - getZoneOffsetMs(new Date(guess)));
+};
+
+// Read ?from=YYYY-MM-DD&to=YYYY-MM-DD (both inclusive). Defaults to the last 30 days.
+// Days are TIMEZONE days: "from" starts at its midnight there and "to" ends just before the next.
+// Returns { from, to } or { message } when a date is invalid.
+const parseDateRange = ({ from, to }) => {
+  const endDay = to ? toZonedDay(to) : getZonedDay(new Date());
+  if (!endDay) return { message: 'Invalid "to" date' };
+
+  const startDay = from ? toZonedDay(from) : addDays(endDay, -(DEFAULT_RANGE_DAYS - 1));
+  if (!startDay) return { message: 'Invalid "from" date' };
+
+  if (startDay > endDay) return { message: '"from" must be on or before "to"' };
+  return {
+    from: startOfZonedDay(startDay),
+    to: to ? new Date(startOfZonedDay(addDays(endDay, 1)).getTime() - 1) : new Date()
+  };
+};
+
+const inRange = (field, range) => (range ? { [field]: { $gte: range.from, $lte: range.to } } : {});
+
+// Purchases that have no Payment: enrollments and notes bought before payments moved to
+// Payment, and materials recorded by an admin. A record whose order or payment id has a
+// Payment is already counted there (including items granted by a bundle).
+const withoutPayment = (localField, foreignField) => [
+  { $lookup: { from: Payment.collection.name, localField, foreignField, as: 'payments' } },
+  { $match: { payments: { $size: 0 } } }
+];
+
+const legacyEnrollmentSales = (range) => [
+  {
+    $match: {
+      paymentStatus: { $in: ['completed', 'refunded'] },
+      'paymentDetails.amount': { $gt: 0 },
+      'paymentDetails.razorpayOrderId': { $type: 'string' },
+      ...inRange('paymentDetails.paidAt', range)
+    }
+  },
+  ...withoutPayment('paymentDetails.razorpayOrderId', 'razorpayOrderId'),
+  {
+    $project: {
+      _id: 0,
+      studentId: 1,
+      itemType: '$courseType',
+      itemId: '$courseId',
+      itemTitle: { $literal: '' },
+      amount: '$paymentDetails.amount',
+      refundedAmount: { $cond: [{ $eq: ['$paymentStatus', 'refunded'] }, { $ifNull: ['$refund.amount', 0] }, 0] },
+      discount: { $literal: 0 },
+      soldAt: '$paymentDetails.paidAt'
+    }
+  }
+];
+
+const legacyNotesSales = (range) => [
+  {
+    $match: {
+      paymentStatus: { $in: ['completed', 'refunded'] },
+      'paymentDetails.amount': { $gt: 0 },
+      'paymentDetails.razorpayOrderId': { $type: 'string' },
+      ...inRange('paymentDetails.paidAt', range)
+    }
+  },
+  ...withoutPayment('paymentDetails.razorpayOrderId', 'razorpayOrderId'),
+  {
+    $project: {
+      _id: 0,
+      studentId: 1,
+      itemType: { $literal: 'PaidNotes' },
+      itemId: '$notesId',
+      itemTitle: { $literal: '' },
+      amount: '$paymentDetails.amount',
+      refundedAmount: { $cond: [{ $eq: ['$paymentStatus', 'refunded'] }, { $ifNull: ['$refund.amount', 0] }, 0] },
+      discount: { $literal: 0 },
+      soldAt: '$paymentDetails.paidAt'
+    }
+  }
+];
+
+const recordedMaterialSales = (range) => [
+  { $match: { 'purchasedStudents.amount': { $gt: 0 } } },
+  { $unwind: '$purchasedStudents' },
+  { $match: { 'purchasedStudents.amount': { $gt: 0 }, ...inRange('purchasedStudents.purchasedAt', range) } },
+  ...withoutPayment('purchasedStudents.paymentId', 'razorpayPaymentId'),
+  {
+    $project: {
+      _id: 0,
+      studentId: '$purchasedStudents.studentId',
+      itemType: { $literal: 'PaidMaterials' },
+      itemId: '$_id',
+      itemTitle: '$materialTitle',
+      amount: '$purchasedStudents.amount',
+      refundedAmount: { $literal: 0 },
+      discount: { $literal: 0 },
+      soldAt: '$purchasedStudents.purchasedAt'
+    }
+  }
+];
+
+// Stages that turn Payment.aggregate into one row per sale, from Payment and the records
+// that predate or bypass it: { studentId, itemType, itemId, itemTitle, amount,
+// refundedAmount, discount, soldAt }. Without a range every sale is included.
+const soldRecords = (range) => [
+  { $match: { status: { $in: SOLD_STATUSES }, ...inRange('capturedAt', range) } },
+  {
+    $project: {
+      _id: 0,
+      studentId: 1,
+      itemType: 1,
+      itemId: 1,
+      itemTitle: 1,
+      amount: 1,
+      refundedAmount: 1,
+      discount: { $ifNull: ['$coupon.discount', 0] },
+      soldAt: '$capturedAt'
+    }
+  },
+  { $unionWith: { coll: Enrollment.collection.name, pipeline: legacyEnrollmentSales(range) } },
+  { $unionWith: { coll: PurchasedNotes.collection.name, pipeline: legacyNotesSales(range) } },
+  { $unionWith: { coll: PaidMaterials.collection.name, pipeline: recordedMaterialSales(range) } }
+];
+
+// Revenue, refunds and order counts per item in the range
+const salesByItem = (range) =>
+  Payment.aggregate([
+    ...soldRecords(range),
+    {
+      $group: {
+        _id: { itemType: '$itemType', itemId: '$itemId' },
+        title: { $last: '$itemTitle' },
+        revenue: { $sum: '$amount' },
+        refunds: { $sum: '$refundedAmount' },
+        orders: { $sum: 1 }
+      }
+    }
+  ]);
+
+// Load the catalogue documents behind a list of { itemType, itemId } keys, keyed "type:id"
+const loadItems = async (keys, fields) => {
+  const idsByType = keys.reduce((groups, { itemType, itemId }) => {
+    (groups[itemType] = groups[itemType] || []).push(itemId);
+    return groups;
+  }, {});
+
+  const items = new Map();
+  await Promise.all(Object.entries(idsByType).map(async ([itemType, ids]) => {
+    const source = ITEM_SOURCES[itemType];
+    if (!source) return;
+    const docs = await source.Model.find({ _id: { $in: ids } }).select(`${source.titleField} ${fields}`).lean();
+    docs.forEach(doc => items.set(`${itemType}:${doc._id}`, { ...doc, title: doc[source.titleField] }));
+  }));
+  return items;
+};
+
+// Totals and a revenue timeline (admin)
+// Query params: ?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=day|month
+const getRevenueAnalytics = async (req, res) => {
+  try {
+    const range = parseDateRange(req.query);
+    if (range.message) {
+      return res.status(400).json({ success: false, message: range.message });
+    }
+    const groupBy = req.query.groupBy === 'month' ? 'month' : 'day';
+
+    const [totals, timeline] = await Promise.all([
+      Payment.aggregate([
+        ...soldRecords(range),
+        {
+          $group: {
+            _id: null,
+            grossRevenue: { $sum: '$amount' },
+            refunds: { $sum: '$refundedAmount' },
+            discounts: { $sum: '$discount' },
+            orders: { $sum: 1 },
+            buyers: { $addToSet: '$studentId' }
+          }
+        }
+      ]),
+      Payment.aggregate([
+        ...soldRecords(range),
+        {
+          $group: {
+            _id: {
+              $dateToString: {
+                format: groupBy === 'month' ? '%Y-%m' : '%Y-%m-%d',
+                date: '$soldAt',
+                timezone: TIMEZONE
+              }
+            },
+            revenue: { $sum: '$amount' },
+            refunds: { $sum: '$refundedAmount' },
+            orders: { $sum: 1 }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ])
+    ]);
+
+    const total = totals[0] || { grossRevenue: 0, refunds: 0, discounts: 0, orders: 0, buyers: [] };
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        groupBy,
+        summary: {
+          grossRevenue: round2(total.grossRevenue),
+          refunds: round2(total.refunds),
+          netRevenue: round2(total.grossRevenue - total.refunds),
+          discounts: round2(total.discounts),
+          orders: total.orders,
+          buyers: total.buyers.length,
+          averageOrderValue: total.orders ? round2(total.grossRevenue / total.orders) : 0
+        },
+        timeline: timeline.map(point => ({
+          period: point._id,
+          revenue: round2(point.revenue - point.refunds),
+          refunds: round2(point.refunds),
+          orders: point.orders
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error getting revenue analytics:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch revenue analytics', error: error.message });
+  }
+};
+
+// Net revenue by category and item type, and the best-selling items (admin)
+// Query params: ?from=YYYY-MM-DD&to=YYYY-MM-DD&limit=10
+const getSalesAnalytics = async (req, res) => {
+  try {
+    const range = parseDateRange(req.query);
+    if (range.message) {
+      return res.status(400).json({ success: false, message: range.message });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 10, 1), 50);
+
+    const sales = await salesByItem(range);
+    const items = await loadItems(sales.map(sale => sale._id), 'category');
+
+    const byCategory = {};
+    const byItemType = {};
+    const rows = sales.map(sale => {
+      const { itemType, itemId } = sale._id;
+      const item = items.get(`${itemType}:${itemId}`);
+      const category = item?.category || 'other';
+      const revenue = sale.revenue - sale.refunds;
+
+      byCategory[category] = byCategory[category] || { category, revenue: 0, orders: 0 };
+      byCategory[category].revenue += revenue;
+      byCategory[category].orders += sale.orders;
+
+      byItemType[itemType] = byItemType[itemType] || { itemType, revenue: 0, orders: 0 };
+      byItemType[itemType].revenue += revenue;
+      byItemType[itemType].orders += sale.orders;
+
+      return { itemType, itemId, title: item?.title || sale.title, category, revenue: round2(revenue), orders: sale.orders };
+    });
+
+    const sortByRevenue = (a, b) => b.revenue - a.revenue;
+    const roundRevenue = (group) => ({ ...group, revenue: round2(group.revenue) });
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        byCategory: Object.values(byCategory).map(roundRevenue).sort(sortByRevenue),
+        byItemType: Object.values(byItemType).map(roundRevenue).sort(sortByRevenue),
+        topItems: rows.sort(sortByRevenue).slice(0, limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting sales analytics:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch sales analytics', error: error.message });
+  }
+};
+
+// Views against purchases for notes and materials, the items that count views (admin).
+// viewCount is a lifetime total, so purchases are counted over all time too.
+// Query params: ?limit=20
+const getConversionAnalytics = async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+
+    const [notes, materials, purchases] = await Promise.all([
+      PaidNotes.find({ viewCount: { $gt: 0 } }).select('notesTitle category viewCount').lean(),
+      PaidMaterials.find({ viewCount: { $gt: 0 } }).select('materialTitle category viewCount').lean(),
+      Payment.aggregate([
+        ...soldRecords(),
+        { $match: { itemType: { $in: ['PaidNotes', 'PaidMaterials'] } } },
+        { $group: { _id: { itemType: '$itemType', itemId: '$itemId' }, purchases: { $sum: 1 } } }
+      ])
+    ]);
+
+    const purchaseCounts = new Map(
+      purchases.map(row => [`${row._id.itemType}:${row._id.itemId}`, row.purchases])
+    );
+
+    const toRow = (itemType, title) => (item) => {
+      const count = purchaseCounts.get(`${itemType}:${item._id}`) || 0;
+      return {
+        itemType,
+        itemId: item._id,
+        title: item[title],
+        category: item.category,
+        views: item.viewCount,
+        purchases: count,
+        conversionRate: round2((count / item.viewCount) * 100)
+      };
+    };
+
+    const rows = [
+      ...notes.map(toRow('PaidNotes', 'notesTitle')),
+      ...materials.map(toRow('PaidMaterials', 'materialTitle'))
+    ];
+
+    const totalViews = rows.reduce((sum, row) => sum + row.views, 0);
+    const totalPurchases = rows.reduce((sum, row) => sum + row.purchases, 0);
+
+    res.json({
+      success: true,
+      data: {
+        totalViews,
+        totalPurchases,
+        conversionRate: totalViews ? round2((totalPurchases / totalViews) * 100) : 0,
+        items: rows.sort((a, b) => b.views - a.views).slice(0, limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting conversion analytics:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch conversion analytics', error: error.message });
+  }
+};
+
+module.exports = {
+  getRevenueAnalytics,
+  getSalesAnalytics,
+  getConversionAnalytics
+};
@@ -0,0 +1,458 @@
+// controllers/answerSheetController.js
+const multer = require('multer');
+const { PDFDocument } = require('pdf-lib');
+const Test = require('../models/Test');
+const User = require('../models/User');
+const AnswerSheet = require('../models/AnswerSheet');
+const { buildAnnotatedPdf } = require('../config/answerSheetPdf');
+const { normalizeQuestionMarks } = require('../config/testSections');
+
+const MAX_PAGES = 20;
+// Same limit as AnswerSheet.fileSize; the pages together can't be larger than the stored sheet
+const MAX_SHEET_SIZE = 15 * 1024 * 1024;
+const MAX_SHEET_SIZE_LABEL = '15MB';
+// Room for the multipart boundaries and part headers around the files
+const FORM_OVERHEAD = 64 * 1024;
+const A4_WIDTH = 595.28;
+const MAX_ANNOTATIONS = 500;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const pageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_SHEET_SIZE,
+    files: MAX_PAGES
+  },
+  fileFilter: (req, file, cb) => {
+    if (/^image\/(jpeg|jpg|png)$/.test(file.mimetype) || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Upload JPEG/PNG photos or a PDF'));
+    }
+  }
+}).array('pages', MAX_PAGES);
+
+const uploadErrorMessage = (err) => {
+  if (err.code === 'LIMIT_UNEXPECTED_FILE' || err.code === 'LIMIT_FILE_COUNT') {
+    return `An answer sheet can have at most ${MAX_PAGES} pages`;
+  }
+  if (err.code === 'LIMIT_FILE_SIZE') {
+    return `Answer sheet cannot exceed ${MAX_SHEET_SIZE_LABEL}`;
+  }
+  return err.message || 'File upload error';
+};
+
+// Pages are held in memory, so the request is refused by its declared size before any of
+// it is read. Multer errors (wrong type, too large, too many) become 400s.
+const uploadPages = (req, res, next) => {
+  const contentLength = Number(req.headers['content-length']);
+  if (!req.headers['content-length'] || !Number.isFinite(contentLength)) {
+    return res.status(411).json({ success: false, message: 'Upload size is required' });
+  }
+  if (contentLength > MAX_SHEET_SIZE + FORM_OVERHEAD) {
+    return res.status(413).json({ success: false, message: `Answer sheet cannot exceed ${MAX_SHEET_SIZE_LABEL}` });
+  }
+
+  pageUpload(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({ success: false, message: uploadErrorMessage(err) });
+    }
+
+    const totalSize = (req.files || []).reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_SHEET_SIZE) {
+      return res.status(400).json({ success: false, message: `Answer sheet cannot exceed ${MAX_SHEET_SIZE_LABEL}` });
+    }
+    next();
+  });
+};
+
+// One PDF as uploaded, or photos merged into a PDF with a page per photo.
+// Returns { pdf, pageCount, source } or { message }.
+const buildAnswerPdf = async (files) => {
+  const pdfs = files.filter(file => file.mimetype === 'application/pdf');
+  if (pdfs.length && (pdfs.length > 1 || files.length > 1)) {
+    return { message: 'Upload either one PDF or photos of each page, not both' };
+  }
+
+  if (pdfs.length) {
+    try {
+      const document = await PDFDocument.load(pdfs[0].buffer);
+      return { pdf: pdfs[0].buffer, pageCount: document.getPageCount(), source: 'pdf' };
+    } catch (error) {
+      return { message: 'The PDF could not be read' };
+    }
+  }
+
+  const document = await PDFDocument.create();
+  for (const file of files) {
+    let image;
+    try {
+      image = file.mimetype === 'image/png'
+        ? await document.embedPng(file.buffer)
+        : await document.embedJpg(file.buffer);
+    } catch (error) {
+      return { message: `${file.originalname} could not be read as an image` };
+    }
+
+    // Pages are A4 width with the photo's aspect ratio
+    const height = A4_WIDTH * (image.height / image.width);
+    const page = document.addPage([A4_WIDTH, height]);
+    page.drawImage(image, { x: 0, y: 0, width: A4_WIDTH, height });
+  }
+
+  return { pdf: Buffer.from(await document.save()), pageCount: files.length, source: 'images' };
+};
+
+const sendPdf = (res, fileName, data) => {
+  res.set({
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Content-Length': data.length
+  });
+  res.send(data);
+};
+
+const sendAnswerSheet = (res, sheet) => sendPdf(res, sheet.fileName, sheet.fileData);
+
+const sendAnnotatedSheet = async (res, sheet, test, marksScored) => {
+  const student = await User.findById(sheet.student).select('name');
+  const pdf = await buildAnnotatedPdf(sheet, {
+    testTitle: test.testTitle,
+    studentName: student?.name || '',
+    fullMarks: test.fullMarks,
+    marksScored
+  });
+  sendPdf(res, sheet.fileName.replace(/\.pdf$/, '_Checked.pdf'), pdf);
+};
+
+// Annotations and per-question marks from the grading screen.
+// Returns { annotations, questionMarks } or { message }.
+const parseGrading = (body, pageCount) => {
+  const rawAnnotations = Array.isArray(body.annotations) ? body.annotations : [];
+  const rawMarks = Array.isArray(body.questionMarks) ? body.questionMarks : [];
+
+  if (rawAnnotations.length > MAX_ANNOTATIONS) {
+    return { message: `A sheet can have at most ${MAX_ANNOTATIONS} annotations` };
+  }
+
+  const annotations = [];
+  for (const raw of rawAnnotations) {
+    const page = Number(raw?.page);
+    const x = Number(raw?.x);
+    const y = Number(raw?.y);
+    if (!Number.isInteger(page) || page < 0 || page >= pageCount) {
+      return { message: 'An annotation is on a page that does not exist' };
+    }
+    if (!['tick', 'cross', 'comment'].includes(raw.kind) || !(x >= 0 && x <= 1) || !(y >= 0 && y <= 1)) {
+      return { message: 'Invalid annotation' };
+    }
+    const text = raw.kind === 'comment' ? String(raw.text || '').trim() : '';
+    // Empty comments are dropped rather than rejected
+    if (raw.kind === 'comment' && !text) continue;
+    annotations.push({ page, kind: raw.kind, x, y, text });
+  }
+
+  const questionMarks = [];
+  for (const raw of rawMarks) {
+    const label = String(raw?.label ?? '').trim();
+    const marks = Number(raw?.marks);
+    if (!label) {
+      return { message: 'Every question needs a label' };
+    }
+    if (!Number.isFinite(marks) || marks < 0) {
+      return { message: `Marks for question ${label} must be a non-negative number` };
+    }
+    if (questionMarks.some(question => question.label === label)) {
+      return { message: `Question ${label} is listed twice` };
+    }
+    questionMarks.push({ label, marks });
+  }
+
+  return { annotations, questionMarks };
+};
+
+// The test (if the teacher created it) and the student's sheet, or the error to send
+const findSheetForTeacher = async (testId, studentId, teacherId) => {
+  const test = await Test.findById(testId).select('testTitle fullMarks createdBy assignedStudents sections');
+  if (!test || test.createdBy.toString() !== teacherId) {
+    return { status: 404, message: 'Test not found or unauthorized' };
+  }
+
+  const sheet = await AnswerSheet.findOne({ test: test._id, student: studentId });
+  if (!sheet) {
+    return { status: 404, message: 'This student has not submitted an answer sheet' };
+  }
+
+  const assignment = test.assignedStudents.find(s => s.student.toString() === studentId);
+  return { test, sheet, assignment };
+};
+
+// ====== STUDENT ======
+
+// Submit (or replace) the answer sheet for an offline test: photos of each page or one PDF
+// in the `pages` field. Late submissions are accepted and flagged; nothing can change once
+// the test has been evaluated.
+const submitAnswerSheet = async (req, res) => {
+  try {
+    const studentId = req.user.id;
+
+    const test = await Test.findOne({ _id: req.params.id, isActive: true })
+      .select('testTitle testType dueDate assignedStudents');
+    if (!test) {
+      return res.status(404).json({ success: false, message: 'Test not found' });
+    }
+
+    const assignment = test.assignedStudents.find(s => s.student.toString() === studentId);
+    if (!assignment) {
+      return res.status(403).json({ success: false, message: 'You are not assigned to this test' });
+    }
+    if (test.testType === 'online') {
+      return res.status(400).json({ success: false, message: 'Online tests are submitted from the test screen' });
+    }
+    if (assignment.marksScored !== null) {
+      return res.status(400).json({ success: false, message: 'This test has already been evaluated' });
+    }
+    if (!req.files?.length) {
+      return res.status(400).json({ success: false, message: 'Add at least one page' });
+    }
+
+    const { pdf, pageCount, source, message } = await buildAnswerPdf(req.files);
+    if (!pdf) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    const submittedAt = new Date();
+    const sheet = await AnswerSheet.findOneAndUpdate(
+      { test: test._id, student: studentId },
+      {
+        fileName: `${test.testTitle.replace(/[^a-zA-Z0-9]/g, '_')}_Answer_Sheet.pdf`,
+        fileData: pdf,
+        mimeType: 'application/pdf',
+        fileSize: pdf.length,
+        pageCount,
+        source,
+        submittedAt,
+        // Marks placed on an earlier upload don't line up with the new pages
+        annotations: [],
+        questionMarks: [],
+        gradedAt: null,
+        gradedBy: null
+      },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    ).select('-fileData');
+
+    // Updated in place so a passed due date doesn't trip the Test validators on save
+    await Test.updateOne(
+      { _id: test._id, 'assignedStudents.student': studentId },
+      { $set: { 'assignedStudents.$.submittedAt': submittedAt } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Answer sheet submitted successfully',
+      data: {
+        submittedAt,
+        pageCount: sheet.pageCount,
+        fileSize: sheet.fileSize,
+        isLate: !!(test.dueDate && submittedAt > test.dueDate)
+      }
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error submitting answer sheet:', error);
+    res.status(500).json({ success: false, message: 'Failed to submit answer sheet', error: error.message });
+  }
+};
+
+const downloadOwnAnswerSheet = async (req, res) => {
+  try {
+    const sheet = await AnswerSheet.findOne({ test: req.params.id, student: req.user.id });
+    if (!sheet) {
+      return res.status(404).json({ success: false, message: 'You have not submitted an answer sheet for this test' });
+    }
+
+    sendAnswerSheet(res, sheet);
+  } catch (error) {
+    console.error('Error downloading answer sheet:', error);
+    res.status(500).json({ success: false, message: 'Failed to download answer sheet', error: error.message });
+  }
+};
+
+// The checked copy, once the teacher has graded the sheet and the marks are out
+const downloadOwnAnnotatedAnswerSheet = async (req, res) => {
+  try {
+    const test = await Test.findById(req.params.id).select('testTitle fullMarks assignedStudents');
+    const assignment = test?.assignedStudents.find(s => s.student.toString() === req.user.id);
+    if (!assignment) {
+      return res.status(404).json({ success: false, message: 'Test not found' });
+    }
+
+    const sheet = await AnswerSheet.findOne({ test: test._id, student: req.user.id });
+    if (!sheet?.gradedAt || assignment.marksScored === null) {
+      return res.status(404).json({ success: false, message: 'Your answer sheet has not been checked yet' });
+    }
+
+    await sendAnnotatedSheet(res, sheet, test, assignment.marksScored);
+  } catch (error) {
+    console.error('Error downloading checked answer sheet:', error);
+    res.status(500).json({ success: false, message: 'Failed to download checked answer sheet', error: error.message });
+  }
+};
+
+// ====== TEACHER ======
+
+const downloadStudentAnswerSheet = async (req, res) => {
+  try {
+    const { sheet, status, message } = await findSheetForTeacher(req.params.id, req.params.studentId, req.user.id);
+    if (!sheet) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    sendAnswerSheet(res, sheet);
+  } catch (error) {
+    console.error('Error downloading student answer sheet:', error);
+    res.status(500).json({ success: false, message: 'Failed to download answer sheet', error: error.message });
+  }
+};
+
+// Preview of the checked copy as the student will get it
+const downloadStudentAnnotatedAnswerSheet = async (req, res) => {
+  try {
+    const { test, sheet, assignment, status, message } =
+      await findSheetForTeacher(req.params.id, req.params.studentId, req.user.id);
+    if (!sheet) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    await sendAnnotatedSheet(res, sheet, test, assignment?.marksScored ?? null);
+  } catch (error) {
+    console.error('Error downloading checked answer sheet:', error);
+    res.status(500).json({ success: false, message: 'Failed to download checked answer sheet', error: error.message });
+  }
+};
+
+// The sheet's annotations and per-question marks, for the grading screen
+const getAnswerSheetGrading = async (req, res) => {
+  try {
+    const { test, sheet, assignment, status, message } =
+      await findSheetForTeacher(req.params.id, req.params.studentId, req.user.id);
+    if (!sheet) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        testTitle: test.testTitle,
+        fullMarks: test.fullMarks,
+        marksScored: assignment?.marksScored ?? null,
+        pageCount: sheet.pageCount,
+        source: sheet.source,
+        submittedAt: sheet.submittedAt,
+        annotations: sheet.annotations,
+        questionMarks: sheet.questionMarks,
+        gradedAt: sheet.gradedAt,
+        sections: test.sections
+      }
+    });
+  } catch (error) {
+    console.error('Error getting answer sheet grading:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch answer sheet', error: error.message });
+  }
+};
+
+// Body: { annotations: [{ page, kind, x, y, text }], questionMarks: [{ label, marks }] }
+// With per-question marks, their sum becomes the student's marks for the test. Without any,
+// the annotations are saved as a draft and the marks are left alone. If the test has a marking
+// scheme, the labels must be its questions.
+const saveAnswerSheetGrading = async (req, res) => {
+  try {
+    const { test, sheet, assignment, status, message } =
+      await findSheetForTeacher(req.params.id, req.params.studentId, req.user.id);
+    if (!sheet) {
+      return res.status(status).json({ success: false, message });
+    }
+    if (!assignment) {
+      return res.status(404).json({ success: false, message: 'Student not found in this test' });
+    }
+
+    const grading = parseGrading(req.body, sheet.pageCount);
+    if (grading.message) {
+      return res.status(400).json({ success: false, message: grading.message });
+    }
+
+    if (test.sections.length && grading.questionMarks.length) {
+      const scheme = normalizeQuestionMarks(test.sections, grading.questionMarks);
+      if (scheme.message) {
+        return res.status(400).json({ success: false, message: scheme.message });
+      }
+      grading.questionMarks = scheme.questionMarks;
+    }
+
+    const total = round2(grading.questionMarks.reduce((sum, question) => sum + question.marks, 0));
+    if (total > test.fullMarks) {
+      return res.status(400).json({
+        success: false,
+        message: `Question marks add up to ${total}, more than the test's ${test.fullMarks}`
+      });
+    }
+
+    const graded = grading.questionMarks.length > 0;
+    sheet.annotations = grading.annotations;
+    sheet.questionMarks = grading.questionMarks;
+    sheet.gradedAt = graded ? new Date() : null;
+    sheet.gradedBy = graded ? req.user.id : null;
+    await sheet.save();
+
+    if (graded) {
+      // Updated in place so a passed due date doesn't trip the Test validators on save
+      await Test.updateOne(
+        { _id: test._id, 'assignedStudents.student': req.params.studentId },
+        {
+          $set: {
+            'assignedStudents.$.marksScored': total,
+            'assignedStudents.$.evaluatedAt': sheet.gradedAt,
+            'assignedStudents.$.questionMarks': test.sections.length ? grading.questionMarks : []
+          }
+        }
+      );
+    }
+
+    res.json({
+      success: true,
+      message: graded ? 'Answer sheet graded successfully' : 'Annotations saved',
+      data: {
+        testTitle: test.testTitle,
+        fullMarks: test.fullMarks,
+        marksScored: graded ? total : assignment.marksScored,
+        pageCount: sheet.pageCount,
+        source: sheet.source,
+        submittedAt: sheet.submittedAt,
+        annotations: sheet.annotations,
+        questionMarks: sheet.questionMarks,
+        gradedAt: sheet.gradedAt,
+        sections: test.sections
+      }
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error saving answer sheet grading:', error);
+    res.status(500).json({ success: false, message: 'Failed to save grading', error: error.message });
+  }
+};
+
+module.exports = {
+  uploadPages,
+  submitAnswerSheet,
+  downloadOwnAnswerSheet,
+  downloadOwnAnnotatedAnswerSheet,
+  downloadStudentAnswerSheet,
+  downloadStudentAnnotatedAnswerSheet,
+  getAnswerSheetGrading,
+  saveAnswerSheetGrading
+};
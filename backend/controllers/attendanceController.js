@@ -343,7 +343,8 @@ const getStudentsForAttendance = async (req, res) => {
 
 const getStudentAttendanceRecords = async (req, res) => {
   try {
-    const studentId = req.user.id;
+    // Set by verifyStudentAccess: the student themself or a parent's linked child
+    const studentId = req.studentId || req.user.id;
 
     const batches = await Batch.find({
       'studentAssignments.student': studentId
@@ -1,6 +1,128 @@
 const User = require('../models/User');
+const RefreshToken = require('../models/RefreshToken');
+const PasswordResetToken = require('../models/PasswordResetToken');
+const { sendMail } = require('../config/mail');
 const bcryptjs = require('bcryptjs');
 const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
+const multer = require('multer');
+const path = require('path');
+const fs = require('fs');
+
+// Access tokens are short-lived; the app renews them with a rotating refresh token
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.JWT_REFRESH_TTL_DAYS, 10) || 30;
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.RESET_TOKEN_TTL_MINUTES, 10) || 60;
+// Deep link prefix the app registers (see frontend app.json "scheme")
+const APP_LINK_BASE = process.env.APP_LINK_BASE || 'sujhav://';
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const toAuthUser = (user) => ({
+  id: user._id,
+  name: user.name,
+  email: user.email,
+  phone: user.phone,
+  role: user.role
+});
+
+// Sign an access token and store a new refresh token session for this device
+const issueTokens = async (user, req) => {
+  const token = jwt.sign(
+    { 
+      id: user._id, 
+      email: user.email, 
+      role: user.role 
+    },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+  );
+  const { exp, iat } = jwt.decode(token);
+
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  await RefreshToken.create({
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    userAgent: req.get('User-Agent') || '',
+    createdByIp: req.ip || ''
+  });
+
+  return { token, refreshToken, expiresIn: exp - iat };
+};
+
+const revokeAllSessions = (userId) =>
+  RefreshToken.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+
+// Invalidate earlier reset links and email a fresh single-use one
+const sendPasswordResetEmail = async (user) => {
+  // Only the most recent link should work
+  await PasswordResetToken.updateMany({ user: user._id, usedAt: null }, { usedAt: new Date() });
+
+  const resetToken = crypto.randomBytes(32).toString('hex');
+  await PasswordResetToken.create({
+    user: user._id,
+    tokenHash: hashToken(resetToken),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your SUJHAV password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your password. Open this link on your phone to choose a new one:',
+      `${APP_LINK_BASE}reset-password/${resetToken}`,
+      '',
+      `Or enter this reset code in the app: ${resetToken}`,
+      '',
+      `The link expires in ${RESET_TOKEN_TTL_MINUTES} minutes. If you didn't ask for this, you can ignore this email.`
+    ].join('\n')
+  });
+};
+
+// Shared with the admin user management controller
+exports.revokeAllSessions = revokeAllSessions;
+exports.sendPasswordResetEmail = sendPasswordResetEmail;
+
+// Configure multer for avatar uploads
+const avatarStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = 'uploads/avatars';
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(file.originalname);
+    cb(null, `avatar-${req.user.id}-${uniqueSuffix}${ext}`);
+  }
+});
+
+exports.avatarUpload = multer({
+  storage: avatarStorage,
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed!'), false);
+    }
+  },
+  limits: {
+    fileSize: 2 * 1024 * 1024 // 2MB limit
+  }
+});
+
+const removeAvatarFile = (avatarPath) => {
+  if (!avatarPath) return;
+  const filePath = path.join(__dirname, '..', avatarPath);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+};
 
 exports.registerUser = async (req, res) => {
   try {
@@ -40,31 +162,160 @@ exports.loginUser = async (req, res) => {
       return res.status(400).json({ message: 'Invalid credentials' });
     }
 
-    const token = jwt.sign(
-      { 
-        id: user._id, 
-        email: user.email, 
-        role: user.role 
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: '1d' }
-    );
+    if (!user.isActive) {
+      return res.status(403).json({ message: 'This account has been deactivated. Please contact the institute.' });
+    }
+
+    const { token, refreshToken, expiresIn } = await issueTokens(user, req);
 
     res.status(200).json({ 
       message: 'Login successful', 
       token,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      }
+      refreshToken,
+      expiresIn,
+      user: toAuthUser(user)
     });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 };
 
+// Exchange a refresh token for a new access token, rotating the refresh token
+exports.refreshToken = async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    const session = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (!session) {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    // A rotated token being presented again means it leaked; end every session for the user
+    if (session.revokedAt) {
+      await revokeAllSessions(session.user);
+      return res.status(401).json({ message: 'Refresh token has been revoked' });
+    }
+
+    if (session.expiresAt <= new Date()) {
+      return res.status(401).json({ message: 'Refresh token expired' });
+    }
+
+    const user = await User.findById(session.user);
+    if (!user) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+
+    if (!user.isActive) {
+      await revokeAllSessions(user._id);
+      return res.status(401).json({ message: 'This account has been deactivated' });
+    }
+
+    const tokens = await issueTokens(user, req);
+
+    session.revokedAt = new Date();
+    session.replacedBy = hashToken(tokens.refreshToken);
+    await session.save();
+
+    res.status(200).json({
+      message: 'Token refreshed',
+      ...tokens,
+      user: toAuthUser(user)
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
+// Revoke the caller's refresh token, or every session when allDevices is set
+exports.logoutUser = async (req, res) => {
+  try {
+    const { refreshToken, allDevices } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    const session = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (session) {
+      if (allDevices) {
+        await revokeAllSessions(session.user);
+      } else if (!session.revokedAt) {
+        session.revokedAt = new Date();
+        await session.save();
+      }
+    }
+
+    res.status(200).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
+// Email a single-use reset link. Always answers the same way so the route can't be used to probe for accounts.
+exports.forgotPassword = async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({ message: 'Email is required' });
+    }
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+
+    if (user && user.isActive) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.status(200).json({ message: 'If an account exists for this email, password reset instructions have been sent' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
+exports.resetPassword = async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ message: 'Reset token and new password are required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    }
+
+    const resetToken = await PasswordResetToken.findOne({ tokenHash: hashToken(token) });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    const user = await User.findById(resetToken.user);
+    if (!user) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    user.password = await bcryptjs.hash(password, 10);
+    await user.save();
+
+    resetToken.usedAt = new Date();
+    await resetToken.save();
+
+    // Sign out every device that knew the old password
+    await revokeAllSessions(user._id);
+
+    res.status(200).json({ message: 'Password reset successfully. Please sign in with your new password.' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
 exports.getCurrentUser = async (req, res) => {
   try {
     const user = await User.findById(req.user.id).select('-password');
@@ -79,6 +330,83 @@ exports.getCurrentUser = async (req, res) => {
   }
 };
 
+// Update the signed-in user's own profile (multipart, optional "avatar" image)
+exports.updateProfile = async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id);
+
+    if (!user) {
+      if (req.file) removeAvatarFile(`/uploads/avatars/${req.file.filename}`);
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { name, phone, class: userClass, examCategory, removeAvatar } = req.body;
+
+    if (name !== undefined) user.name = name.trim();
+    if (phone !== undefined) user.phone = phone.replace(/[\s-]/g, '');
+    if (userClass !== undefined) user.class = userClass.trim();
+    if (examCategory !== undefined) user.examCategory = examCategory || null;
+
+    if (req.file) {
+      removeAvatarFile(user.avatar);
+      user.avatar = `/uploads/avatars/${req.file.filename}`;
+    } else if (removeAvatar === 'true' || removeAvatar === true) {
+      removeAvatarFile(user.avatar);
+      user.avatar = '';
+    }
+
+    await user.save();
+
+    const updatedUser = user.toObject();
+    delete updatedUser.password;
+
+    res.status(200).json({ message: 'Profile updated successfully', user: updatedUser });
+  } catch (error) {
+    if (req.file) removeAvatarFile(`/uploads/avatars/${req.file.filename}`);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err) => err.message);
+      return res.status(400).json({ message: messages.join(', ') });
+    }
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
+// Change password; every other device is signed out and this one gets fresh tokens
+exports.changePassword = async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ message: 'Current and new password are required' });
+    }
+
+    if (newPassword.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    }
+
+    const user = await User.findById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const isPasswordValid = await bcryptjs.compare(currentPassword, user.password);
+    if (!isPasswordValid) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+
+    user.password = await bcryptjs.hash(newPassword, 10);
+    await user.save();
+
+    await revokeAllSessions(user._id);
+    const tokens = await issueTokens(user, req);
+
+    res.status(200).json({ message: 'Password changed successfully', ...tokens });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+};
+
 // Add this new function to verify token and return user info
 exports.verifyToken = async (req, res) => {
   try {
@@ -90,12 +418,7 @@ exports.verifyToken = async (req, res) => {
 
     res.status(200).json({ 
       valid: true,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      }
+      user: toAuthUser(user)
     });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -0,0 +1,270 @@
+// controllers/bundleController.js
+const Bundle = require('../models/Bundle');
+const BundlePurchase = require('../models/BundlePurchase');
+const Enrollment = require('../models/Enrollment');
+const PurchasedNotes = require('../models/PurchasedNotes');
+const PaidMaterials = require('../models/PaidMaterials');
+const { createPaymentOrder, resolveCoupon, toCheckoutOrder } = require('./paymentController');
+
+const EDITABLE_FIELDS = [
+  'bundleTitle',
+  'description',
+  'category',
+  'class',
+  'courses',
+  'notes',
+  'materials',
+  'price',
+  'isActive'
+];
+
+const pickEditableFields = (body) =>
+  EDITABLE_FIELDS.reduce((fields, key) => {
+    if (body[key] !== undefined) fields[key] = body[key];
+    return fields;
+  }, {});
+
+const populateItems = (query) =>
+  query
+    .populate('courses', 'courseTitle price category isActive')
+    .populate('notes', 'notesTitle price category isActive')
+    .populate('materials', 'materialTitle price category isActive');
+
+// Add what the items would cost bought one by one, so the app can show the saving
+const formatBundle = (bundle) => {
+  const data = bundle.toObject();
+  data.itemsValue = [...data.courses, ...data.notes, ...data.materials]
+    .reduce((total, item) => total + (item?.price || 0), 0);
+  return data;
+};
+
+// Items in the bundle the student doesn't own yet
+const getMissingItems = async (studentId, bundle) => {
+  const [enrolledCourseIds, purchasedNotesIds, purchasedMaterials] = await Promise.all([
+    Enrollment.find({
+      studentId,
+      courseId: { $in: bundle.courses },
+      enrollmentStatus: 'enrolled',
+      isActive: true
+    }).distinct('courseId'),
+    PurchasedNotes.find({
+      studentId,
+      notesId: { $in: bundle.notes },
+      purchaseStatus: 'completed',
+      isActive: true
+    }).distinct('notesId'),
+    PaidMaterials.find({
+      _id: { $in: bundle.materials },
+      'purchasedStudents.studentId': studentId
+    }).distinct('_id')
+  ]);
+
+  const owned = new Set([...enrolledCourseIds, ...purchasedNotesIds, ...purchasedMaterials].map(id => id.toString()));
+  const isMissing = (id) => !owned.has(id.toString());
+
+  return {
+    courses: bundle.courses.filter(isMissing),
+    notes: bundle.notes.filter(isMissing),
+    materials: bundle.materials.filter(isMissing)
+  };
+};
+
+// List active bundles
+// Query params: ?category=jee|neet|boards
+const getBundles = async (req, res) => {
+  try {
+    const query = { isActive: true };
+    if (req.query.category) query.category = req.query.category.toLowerCase();
+
+    const bundles = await populateItems(Bundle.find(query).sort({ createdAt: -1 }));
+
+    res.json({ success: true, data: bundles.map(formatBundle) });
+  } catch (error) {
+    console.error('Error getting bundles:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch bundles', error: error.message });
+  }
+};
+
+const getBundleById = async (req, res) => {
+  try {
+    const bundle = await populateItems(Bundle.findById(req.params.id));
+    if (!bundle) {
+      return res.status(404).json({ success: false, message: 'Bundle not found' });
+    }
+
+    res.json({ success: true, data: formatBundle(bundle) });
+  } catch (error) {
+    console.error('Error getting bundle:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch bundle', error: error.message });
+  }
+};
+
+// Start checkout for a bundle. Items the student already owns are left out of the purchase,
+// but the bundle price stays the same.
+// Body: { couponCode? }
+const purchaseBundle = async (req, res) => {
+  try {
+    const studentId = req.user.id;
+    const { couponCode } = req.body;
+
+    const bundle = await Bundle.findById(req.params.id);
+    if (!bundle || !bundle.isActive) {
+      return res.status(404).json({ success: false, message: 'Bundle not found or unavailable' });
+    }
+
+    const missing = await getMissingItems(studentId, bundle);
+    if (!missing.courses.length && !missing.notes.length && !missing.materials.length) {
+      return res.status(400).json({ success: false, message: 'You already have everything in this bundle' });
+    }
+
+    const { coupon, message } = await resolveCoupon({ couponCode, studentId, itemType: 'Bundle', item: bundle });
+    if (message) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    // Earlier checkouts that were never paid are replaced by this one
+    await BundlePurchase.deleteMany({ studentId, bundleId: bundle._id, status: 'pending' });
+
+    const bundlePurchase = await BundlePurchase.create({
+      studentId,
+      bundleId: bundle._id,
+      bundleTitle: bundle.bundleTitle,
+      ...missing
+    });
+
+    const payment = await createPaymentOrder({
+      studentId,
+      itemType: 'Bundle',
+      item: bundle,
+      reference: bundlePurchase._id,
+      coupon
+    });
+
+    bundlePurchase.paymentId = payment._id;
+    await bundlePurchase.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Order created. Please complete payment',
+      data: { bundlePurchase, razorpayOrder: toCheckoutOrder(payment) }
+    });
+  } catch (error) {
+    console.error('Error purchasing bundle:', error);
+    res.status(500).json({ success: false, message: 'Failed to create bundle order', error: error.message });
+  }
+};
+
+// Bundles the logged-in student has bought
+const getMyBundles = async (req, res) => {
+  try {
+    const purchases = await BundlePurchase.find({ studentId: req.user.id, status: 'completed' })
+      .sort({ completedAt: -1 })
+      .populate('bundleId', 'bundleTitle category price');
+
+    res.json({ success: true, data: purchases });
+  } catch (error) {
+    console.error('Error getting my bundles:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch your bundles', error: error.message });
+  }
+};
+
+// List all bundles, including inactive ones (admin)
+// Query params: ?category=&isActive=true|false&page=1&limit=20
+const getAllBundles = async (req, res) => {
+  try {
+    const { category, isActive, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (category) query.category = category.toLowerCase();
+    if (isActive !== undefined) query.isActive = isActive === 'true';
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [bundles, total] = await Promise.all([
+      populateItems(
+        Bundle.find(query)
+          .sort({ createdAt: -1 })
+          .skip((pageNumber - 1) * pageSize)
+          .limit(pageSize)
+      ),
+      Bundle.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: bundles.map(formatBundle),
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting all bundles:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch bundles', error: error.message });
+  }
+};
+
+// Create a bundle (admin)
+// Body: { bundleTitle, description, category, class, courses, notes, materials, price, isActive }
+const createBundle = async (req, res) => {
+  try {
+    const bundle = await Bundle.create({ ...pickEditableFields(req.body), createdBy: req.user.id });
+    res.status(201).json({ success: true, message: 'Bundle created successfully', data: bundle });
+  } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error creating bundle:', error);
+    res.status(500).json({ success: false, message: 'Failed to create bundle', error: error.message });
+  }
+};
+
+// Update a bundle (admin). Purchases already made keep the items they were sold with.
+const updateBundle = async (req, res) => {
+  try {
+    const bundle = await Bundle.findById(req.params.id);
+    if (!bundle) {
+      return res.status(404).json({ success: false, message: 'Bundle not found' });
+    }
+
+    bundle.set(pickEditableFields(req.body));
+    await bundle.save();
+
+    res.json({ success: true, message: 'Bundle updated successfully', data: bundle });
+  } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error updating bundle:', error);
+    res.status(500).json({ success: false, message: 'Failed to update bundle', error: error.message });
+  }
+};
+
+// Delete a bundle (admin). Students who bought it keep their enrollments and purchases.
+const deleteBundle = async (req, res) => {
+  try {
+    const bundle = await Bundle.findByIdAndDelete(req.params.id);
+    if (!bundle) {
+      return res.status(404).json({ success: false, message: 'Bundle not found' });
+    }
+
+    res.json({ success: true, message: 'Bundle deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting bundle:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete bundle', error: error.message });
+  }
+};
+
+module.exports = {
+  getBundles,
+  getBundleById,
+  purchaseBundle,
+  getMyBundles,
+  getAllBundles,
+  createBundle,
+  updateBundle,
+  deleteBundle
+};
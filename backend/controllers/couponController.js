@@ -0,0 +1,270 @@
+// controllers/couponController.js
+const Coupon = require('../models/Coupon');
+const Payment = require('../models/Payment');
+const PaidCourse = require('../models/PaidCourse');
+const UnpaidCourse = require('../models/UnpaidCourse');
+const PaidNotes = require('../models/PaidNotes');
+const PaidMaterials = require('../models/PaidMaterials');
+const Bundle = require('../models/Bundle');
+
+const ITEM_MODELS = {
+  PaidCourse,
+  UnpaidCourse,
+  PaidNotes,
+  PaidMaterials,
+  Bundle
+};
+
+const EDITABLE_FIELDS = [
+  'code',
+  'description',
+  'discountType',
+  'discountValue',
+  'maxDiscount',
+  'minAmount',
+  'scope',
+  'validFrom',
+  'expiresAt',
+  'usageLimit',
+  'perStudentLimit',
+  'isActive'
+];
+
+// Orders left unpaid this long give back their coupon use; checkout times out after 15 minutes
+const RESERVATION_MINUTES = 30;
+
+// Give back the uses held by abandoned orders. Returns how many were given back.
+const releaseAbandonedReservations = async (couponId) => {
+  const abandoned = await Payment.find({
+    'coupon.couponId': couponId,
+    'coupon.reserved': true,
+    status: 'created',
+    createdAt: { $lt: new Date(Date.now() - RESERVATION_MINUTES * 60 * 1000) }
+  }).select('_id');
+
+  let released = 0;
+  for (const payment of abandoned) {
+    const result = await Payment.updateOne(
+      { _id: payment._id, status: 'created', 'coupon.reserved': true },
+      { 'coupon.reserved': false }
+    );
+    if (result.modifiedCount) {
+      await Coupon.releaseUse(couponId);
+      released += 1;
+    }
+  }
+  return released;
+};
+
+const pickEditableFields = (body) =>
+  EDITABLE_FIELDS.reduce((fields, key) => {
+    if (body[key] !== undefined) fields[key] = body[key];
+    return fields;
+  }, {});
+
+// Work out what a coupon takes off an item for a student. Used by the validate endpoint
+// and again at order creation, so the price charged never comes from the client.
+// Returns { valid, message } or { valid, coupon, discount, originalAmount, finalAmount }.
+const evaluateCoupon = async ({ code, studentId, itemType, item }) => {
+  const coupon = await Coupon.findOne({ code: String(code).trim().toUpperCase() });
+  if (!coupon) {
+    return { valid: false, message: 'Invalid coupon code' };
+  }
+
+  const released = await releaseAbandonedReservations(coupon._id);
+  coupon.usedCount = Math.max(coupon.usedCount - released, 0);
+
+  const unavailableReason = coupon.getUnavailableReason();
+  if (unavailableReason) {
+    return { valid: false, message: unavailableReason };
+  }
+
+  if (!coupon.appliesTo(itemType, item)) {
+    return { valid: false, message: 'This coupon does not apply to this item' };
+  }
+
+  if (item.price < coupon.minAmount) {
+    return { valid: false, message: `This coupon needs a minimum purchase of ₹${coupon.minAmount}` };
+  }
+
+  const timesUsed = await Payment.countDocuments({
+    studentId,
+    'coupon.couponId': coupon._id,
+    status: 'captured'
+  });
+  if (coupon.perStudentLimit && timesUsed >= coupon.perStudentLimit) {
+    return { valid: false, message: 'You have already used this coupon' };
+  }
+
+  const discount = coupon.calculateDiscount(item.price);
+  if (discount <= 0) {
+    return { valid: false, message: 'This coupon gives no discount on this item' };
+  }
+
+  return {
+    valid: true,
+    coupon,
+    discount,
+    originalAmount: item.price,
+    finalAmount: Math.round((item.price - discount) * 100) / 100
+  };
+};
+
+// Preview a coupon on an item before checkout
+// Body: { code, itemType, itemId }
+const validateCoupon = async (req, res) => {
+  try {
+    const { code, itemType, itemId } = req.body;
+    const ItemModel = ITEM_MODELS[itemType];
+
+    if (!code || !ItemModel || !itemId) {
+      return res.status(400).json({ success: false, message: 'Coupon code, itemType and itemId are required' });
+    }
+
+    const item = await ItemModel.findById(itemId);
+    if (!item || !item.isActive) {
+      return res.status(404).json({ success: false, message: 'Item not found or unavailable' });
+    }
+
+    const result = await evaluateCoupon({ code, studentId: req.user.id, itemType, item });
+    if (!result.valid) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+
+    res.json({
+      success: true,
+      message: 'Coupon applied',
+      data: {
+        code: result.coupon.code,
+        description: result.coupon.description,
+        discount: result.discount,
+        originalAmount: result.originalAmount,
+        finalAmount: result.finalAmount
+      }
+    });
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+    res.status(500).json({ success: false, message: 'Failed to validate coupon', error: error.message });
+  }
+};
+
+// List coupons (admin)
+// Query params: ?status=active|inactive|expired&search=&page=1&limit=20
+const getCoupons = async (req, res) => {
+  try {
+    const { status, search, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (status === 'active') {
+      query.isActive = true;
+      query.$or = [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }];
+    } else if (status === 'inactive') {
+      query.isActive = false;
+    } else if (status === 'expired') {
+      query.expiresAt = { $lte: new Date() };
+    }
+    if (search) {
+      query.code = { $regex: search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    }
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [coupons, total] = await Promise.all([
+      Coupon.find(query)
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      Coupon.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: coupons,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting coupons:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch coupons', error: error.message });
+  }
+};
+
+// Create a coupon (admin)
+const createCoupon = async (req, res) => {
+  try {
+    const coupon = await Coupon.create({ ...pickEditableFields(req.body), createdBy: req.user.id });
+    res.status(201).json({ success: true, message: 'Coupon created successfully', data: coupon });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ success: false, message: 'A coupon with this code already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error creating coupon:', error);
+    res.status(500).json({ success: false, message: 'Failed to create coupon', error: error.message });
+  }
+};
+
+// Update a coupon (admin). Payments already made keep the discount they were given.
+const updateCoupon = async (req, res) => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return res.status(404).json({ success: false, message: 'Coupon not found' });
+    }
+
+    coupon.set(pickEditableFields(req.body));
+    await coupon.save();
+
+    res.json({ success: true, message: 'Coupon updated successfully', data: coupon });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ success: false, message: 'A coupon with this code already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error updating coupon:', error);
+    res.status(500).json({ success: false, message: 'Failed to update coupon', error: error.message });
+  }
+};
+
+// Switch a coupon on or off (admin)
+// Body: { isActive }
+const updateCouponStatus = async (req, res) => {
+  try {
+    const { isActive } = req.body;
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'isActive must be true or false' });
+    }
+
+    const coupon = await Coupon.findByIdAndUpdate(req.params.id, { isActive }, { new: true });
+    if (!coupon) {
+      return res.status(404).json({ success: false, message: 'Coupon not found' });
+    }
+
+    res.json({
+      success: true,
+      message: isActive ? 'Coupon activated' : 'Coupon deactivated',
+      data: coupon
+    });
+  } catch (error) {
+    console.error('Error updating coupon status:', error);
+    res.status(500).json({ success: false, message: 'Failed to update coupon status', error: error.message });
+  }
+};
+
+module.exports = {
+  validateCoupon,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  updateCouponStatus,
+  evaluateCoupon
+};
@@ -1,131 +1,16 @@
-// controllers/enrollmentController.js - Fixed payment verification with proper mock signature handling
+// controllers/enrollmentController.js
 const Enrollment = require('../models/Enrollment');
 const UnpaidCourse = require('../models/UnpaidCourse');
 const PaidCourse = require('../models/PaidCourse');
-const User = require('../models/User');
-const Razorpay = require('razorpay');
-const crypto = require('crypto');
-
-// Initialize Razorpay with debug logging
-console.log('Initializing Razorpay with keys:', {
-  key_id: process.env.RAZORPAY_KEY_ID ? `${process.env.RAZORPAY_KEY_ID.substring(0, 8)}...` : 'NOT_SET',
-  key_secret: process.env.RAZORPAY_KEY_SECRET ? `${process.env.RAZORPAY_KEY_SECRET.substring(0, 8)}...` : 'NOT_SET'
-});
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID,
-  key_secret: process.env.RAZORPAY_KEY_SECRET,
-});
-
-// Helper function to generate short receipt (max 40 chars)
-const generateShortReceipt = () => {
-  const timestamp = Date.now().toString(36);
-  const randomSuffix = Math.random().toString(36).substring(2, 8);
-  return `course_${timestamp}_${randomSuffix}`;
-};
-
-// FIXED: Enhanced mock payment detection with better patterns
-const isMockPayment = (paymentId, signature) => {
-  // Only allow mock payments in development environment
-  if (process.env.NODE_ENV !== 'development') {
-    return false;
-  }
-  
-  // Check for mock payment patterns - more flexible patterns
-  const mockPaymentPatterns = [
-    /^pay_mock_/,
-    /^pay_test_/,
-    /^pay_[a-zA-Z0-9]{9}$/,  // Standard 9-character pattern
-    /^pay_[a-zA-Z0-9]{10}$/, // 10-character pattern  
-    /^pay_[a-zA-Z0-9]{8,15}$/ // Broader pattern for generated mock IDs
-  ];
-  
-  const mockSignaturePatterns = [
-    /^mock_signature_/,
-    /^test_signature_/,
-    /^dev_signature_/
-  ];
-  
-  const hasValidMockPaymentId = mockPaymentPatterns.some(pattern => pattern.test(paymentId));
-  const hasValidMockSignature = mockSignaturePatterns.some(pattern => pattern.test(signature));
-  
-  console.log('Mock payment detection:', {
-    paymentId,
-    signature: signature.substring(0, 20) + '...',
-    hasValidMockPaymentId,
-    hasValidMockSignature,
-    nodeEnv: process.env.NODE_ENV
-  });
-  
-  // FIXED: Must have BOTH valid mock payment ID AND valid mock signature
-  return hasValidMockPaymentId && hasValidMockSignature;
-};
-
-// FIXED: Generate consistent mock signature for development
-const generateMockSignature = (orderId, paymentId) => {
-  if (process.env.NODE_ENV !== 'development') {
-    return null;
-  }
-  
-  // Generate a consistent signature for mock payments
-  const mockSecret = 'mock_secret_for_development';
-  const body = `${orderId}|${paymentId}`;
-  
-  return crypto
-    .createHmac('sha256', mockSecret)
-    .update(body)
-    .digest('hex');
-};
-
-// FIXED: Validate mock signature consistency
-const validateMockSignature = (orderId, paymentId, signature) => {
-  if (process.env.NODE_ENV !== 'development') {
-    return false;
-  }
-  
-  console.log('Validating mock signature:', {
-    orderId,
-    paymentId,
-    signature: signature.substring(0, 20) + '...',
-    nodeEnv: process.env.NODE_ENV
-  });
-  
-  // For mock payments, we'll accept any signature that follows our pattern
-  const mockSignaturePatterns = [
-    /^mock_signature_/,
-    /^test_signature_/,
-    /^dev_signature_/
-  ];
-  
-  const isValidPattern = mockSignaturePatterns.some(pattern => pattern.test(signature));
-  
-  console.log('Mock signature validation result:', isValidPattern);
-  
-  return isValidPattern;
-};
-
-// Test Razorpay connection on startup
-const testRazorpayConnection = async () => {
-  try {
-    await razorpay.orders.fetch('test_order_id');
-  } catch (error) {
-    if (error.statusCode === 401) {
-      console.error('❌ RAZORPAY AUTHENTICATION FAILED - Check your API keys');
-      console.error('Make sure RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET are set correctly');
-    } else if (error.statusCode === 400 && error.error.code === 'BAD_REQUEST_ERROR') {
-      console.log('✅ Razorpay authentication successful (expected 400 for invalid order ID)');
-    } else {
-      console.error('❌ Razorpay connection error:', error);
-    }
-  }
-};
-
-testRazorpayConnection();
+const Payment = require('../models/Payment');
+const razorpay = require('../config/razorpay');
+const { createPaymentOrder, resolveCoupon, verifyCheckout, toCheckoutOrder } = require('./paymentController');
 
 // Enroll in a course (handles both free and paid)
+// Body: { courseId, courseType, mode, schedule, couponCode?, paymentPlan?: 'full' | 'installments' }
 const enrollInCourse = async (req, res) => {
   try {
-    const { courseId, courseType, mode, schedule } = req.body;
+    const { courseId, courseType, mode, schedule, couponCode, paymentPlan = 'full' } = req.body;
     
     if (!req.user || !req.user.id) {
       return res.status(401).json({
@@ -160,10 +45,13 @@ const enrollInCourse = async (req, res) => {
     });
 
     if (existingEnrollment) {
-      return res.status(400).json({
-        success: false,
-        message: 'You are already enrolled in this course'
-      });
+      let message = 'You are already enrolled in this course';
+      if (existingEnrollment.isSuspended) {
+        message = 'Your access is paused until the overdue installment is paid. You can pay it from My Content';
+      } else if (existingEnrollment.expiresAt && existingEnrollment.expiresAt <= new Date()) {
+        message = 'Your access to this course has expired. You can renew it from My Content';
+      }
+      return res.status(400).json({ success: false, message });
     }
 
     const CourseModel = courseType === 'UnpaidCourse' ? UnpaidCourse : PaidCourse;
@@ -183,6 +71,13 @@ const enrollInCourse = async (req, res) => {
       });
     }
 
+    if (course.validity?.kind === 'fixed' && course.validity.endDate && course.validity.endDate <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Enrollment for this course has closed'
+      });
+    }
+
     console.log('Course found:', { 
       id: course._id, 
       title: course.courseTitle, 
@@ -190,11 +85,13 @@ const enrollInCourse = async (req, res) => {
       price: course.price 
     });
 
-    // Cancel/delete any existing pending or failed enrollments for this course
+    // Cancel/delete any existing pending or failed enrollments for this course.
+    // Refunded ones stay: they are the record of the refund.
     await Enrollment.deleteMany({
       studentId,
       courseId,
       enrollmentStatus: { $in: ['pending', 'failed', 'cancelled'] },
+      paymentStatus: { $ne: 'refunded' }
     });
 
     // Create new enrollment
@@ -231,7 +128,7 @@ const enrollInCourse = async (req, res) => {
     if (courseType === 'PaidCourse' || (courseType === 'UnpaidCourse' && course.price > 0)) {
       console.log('Processing paid course enrollment, creating Razorpay order...');
       
-      if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+      if (!razorpay.isConfigured()) {
         console.error('❌ Razorpay credentials not configured');
         return res.status(500).json({
           success: false,
@@ -239,34 +136,51 @@ const enrollInCourse = async (req, res) => {
         });
       }
 
+      let installment = null;
+      if (paymentPlan === 'installments') {
+        if (courseType !== 'PaidCourse' || !course.installmentPlan?.enabled) {
+          return res.status(400).json({
+            success: false,
+            message: 'This course cannot be paid in installments'
+          });
+        }
+        if (couponCode) {
+          return res.status(400).json({
+            success: false,
+            message: 'Coupons cannot be used with installment plans'
+          });
+        }
+
+        enrollment.paymentPlan = 'installments';
+        enrollment.installments = course.getInstallmentSchedule();
+        enrollment.installmentGraceDays = course.installmentPlan.gracePeriodDays;
+        installment = { number: 1, count: enrollment.installments.length, amount: enrollment.installments[0].amount };
+      }
+
+      const { coupon, message } = await resolveCoupon({ couponCode, studentId, itemType: courseType, item: course });
+      if (message) {
+        return res.status(400).json({
+          success: false,
+          message
+        });
+      }
+
       try {
-        const orderData = {
-          amount: course.price * 100,
-          currency: 'INR',
-          receipt: generateShortReceipt(),
-          notes: {
-            courseId: courseId,
-            studentId: studentId,
-            courseType: courseType
-          }
-        };
-
-        console.log('Creating Razorpay order with data:', orderData);
-
-        const razorpayOrder = await razorpay.orders.create(orderData);
-        
-        console.log('✅ Razorpay order created successfully:', {
-          id: razorpayOrder.id,
-          amount: razorpayOrder.amount,
-          currency: razorpayOrder.currency,
-          status: razorpayOrder.status,
-          receipt: razorpayOrder.receipt
+        await enrollment.save();
+
+        const payment = await createPaymentOrder({
+          studentId,
+          itemType: courseType,
+          item: course,
+          reference: enrollment._id,
+          coupon,
+          installment
         });
 
         enrollment.paymentStatus = 'pending';
-        enrollment.paymentDetails.razorpayOrderId = razorpayOrder.id;
-        enrollment.paymentDetails.amount = course.price;
-        enrollment.paymentDetails.currency = 'INR';
+        enrollment.paymentDetails.razorpayOrderId = payment.razorpayOrderId;
+        enrollment.paymentDetails.amount = payment.amount;
+        enrollment.paymentDetails.currency = payment.currency;
 
         await enrollment.save();
 
@@ -274,12 +188,7 @@ const enrollInCourse = async (req, res) => {
           success: true,
           message: 'Enrollment created. Please complete payment to access the course',
           enrollment: enrollment,
-          razorpayOrder: {
-            id: razorpayOrder.id,
-            amount: razorpayOrder.amount,
-            currency: razorpayOrder.currency,
-            receipt: razorpayOrder.receipt
-          }
+          razorpayOrder: toCheckoutOrder(payment)
         });
 
       } catch (razorpayError) {
@@ -287,19 +196,6 @@ const enrollInCourse = async (req, res) => {
         
         // Clean up the enrollment if Razorpay order creation fails
         await Enrollment.deleteOne({ _id: enrollment._id });
-        
-        if (razorpayError.statusCode === 401) {
-          console.error('❌ RAZORPAY AUTHENTICATION FAILED');
-          console.error('- Check if RAZORPAY_KEY_ID is correct');
-          console.error('- Check if RAZORPAY_KEY_SECRET is correct');
-          console.error('- Make sure you are using the correct Test/Live mode keys');
-          console.error('- Verify keys are properly loaded in environment variables');
-        } else if (razorpayError.statusCode === 400) {
-          console.error('❌ RAZORPAY BAD REQUEST:', razorpayError.error);
-          if (razorpayError.error && razorpayError.error.description) {
-            console.error('Error description:', razorpayError.error.description);
-          }
-        }
 
         return res.status(500).json({
           success: false,
@@ -324,7 +220,7 @@ const enrollInCourse = async (req, res) => {
   }
 };
 
-// FIXED: Completely rewritten payment verification with proper mock support
+// Verify the checkout result for a pending enrollment; the payments module completes the enrollment
 const verifyPaymentAndEnroll = async (req, res) => {
   try {
     const { enrollmentId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
@@ -347,18 +243,12 @@ const verifyPaymentAndEnroll = async (req, res) => {
       });
     }
 
-    // Find enrollment
-    const enrollment = await Enrollment.findOne({
-      _id: enrollmentId,
-      studentId,
-      paymentStatus: { $in: ['pending', 'failed'] },
-      enrollmentStatus: 'pending'
-    });
+    const enrollment = await Enrollment.findOne({ _id: enrollmentId, studentId });
 
     if (!enrollment) {
       return res.status(404).json({
         success: false,
-        message: 'Enrollment not found or payment already processed'
+        message: 'Enrollment not found'
       });
     }
 
@@ -370,132 +260,40 @@ const verifyPaymentAndEnroll = async (req, res) => {
       });
     }
 
-    // FIXED: Enhanced signature verification with proper mock handling
-    let signatureValid = false;
-    const body = `${razorpay_order_id}|${razorpay_payment_id}`;
-    
-    // FIXED: Check if this is a mock payment FIRST
-    const isThisMockPayment = isMockPayment(razorpay_payment_id, razorpay_signature);
-    
-    if (isThisMockPayment) {
-      console.log('✅ Mock payment detected - using mock signature validation');
-      signatureValid = validateMockSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
-      
-      if (signatureValid) {
-        console.log('✅ Mock signature validation passed');
-      } else {
-        console.error('❌ Mock signature validation failed');
-        console.error('Payment ID:', razorpay_payment_id);
-        console.error('Signature:', razorpay_signature);
-      }
-    } else {
-      // Production signature verification
-      console.log('🔐 Production payment detected - using Razorpay signature validation');
-      
-      if (!process.env.RAZORPAY_KEY_SECRET) {
-        console.error('❌ RAZORPAY_KEY_SECRET not configured');
-        return res.status(500).json({
-          success: false,
-          message: 'Payment gateway not configured properly'
-        });
-      }
-      
-      const expectedSignature = crypto
-        .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
-        .update(body)
-        .digest('hex');
+    const payment = await Payment.findOne({ razorpayOrderId: razorpay_order_id, studentId });
 
-      signatureValid = expectedSignature === razorpay_signature;
-      
-      if (signatureValid) {
-        console.log('✅ Production signature validation passed');
-      } else {
-        console.error('❌ Production signature validation failed');
-        console.error('Expected:', expectedSignature);
-        console.error('Received:', razorpay_signature);
-      }
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
     }
 
-    // If signature validation fails, return error
-    if (!signatureValid) {
+    const { verified } = await verifyCheckout(payment, req.body);
+
+    if (!verified) {
       console.error('❌ Payment signature verification failed');
       
-      // Update enrollment status but don't mark as completely failed
-      enrollment.paymentStatus = 'failed';
-      enrollment.paymentDetails.failureReason = 'Signature verification failed';
-      enrollment.paymentDetails.lastFailureAt = new Date();
-      await enrollment.save();
+      if (enrollment.paymentStatus === 'pending') {
+        enrollment.paymentStatus = 'failed';
+        await enrollment.save();
+      }
       
       return res.status(400).json({
         success: false,
-        message: 'Payment verification failed. Please try again.',
-        debug: process.env.NODE_ENV === 'development' ? {
-          isMockPayment: isThisMockPayment,
-          paymentId: razorpay_payment_id,
-          signaturePattern: razorpay_signature.substring(0, 15) + '...'
-        } : undefined
+        message: 'Payment verification failed. Please try again.'
       });
     }
 
-    // Complete payment and enrollment
-    try {
-      await enrollment.completePayment({
-        razorpayPaymentId: razorpay_payment_id,
-        razorpaySignature: razorpay_signature,
-        paymentMethod: 'razorpay'
-      });
-
-      console.log('✅ Payment completed successfully');
-
-      // Add student to course's enrolled students array
-      const CourseModel = enrollment.courseType === 'UnpaidCourse' ? UnpaidCourse : PaidCourse;
-      const course = await CourseModel.findById(enrollment.courseId);
+    const completedEnrollment = await Enrollment.findById(enrollment._id);
 
-      if (course) {
-        // Check if student is already in the enrolled list to avoid duplicates
-        const isAlreadyEnrolled = course.studentsEnrolled.some(
-          student => student.studentId.toString() === studentId.toString()
-        );
+    console.log('✅ Enrollment completed successfully');
 
-        if (!isAlreadyEnrolled) {
-          course.studentsEnrolled.push({
-            studentId,
-            mode: enrollment.mode,
-            schedule: enrollment.schedule,
-            enrolledAt: new Date()
-          });
-          await course.save();
-          console.log('✅ Student added to course enrolled list');
-        }
-      }
-
-      console.log('✅ Enrollment completed successfully');
-
-      return res.status(200).json({
-        success: true,
-        message: 'Payment verified and enrollment completed successfully',
-        enrollment: enrollment,
-        debug: process.env.NODE_ENV === 'development' ? {
-          paymentType: isThisMockPayment ? 'mock' : 'production',
-          signatureValidation: 'passed'
-        } : undefined
-      });
-
-    } catch (paymentCompletionError) {
-      console.error('❌ Error completing payment:', paymentCompletionError);
-      
-      // Mark enrollment as failed
-      enrollment.paymentStatus = 'failed';
-      enrollment.paymentDetails.failureReason = 'Payment completion failed';
-      enrollment.paymentDetails.lastFailureAt = new Date();
-      await enrollment.save();
-      
-      return res.status(500).json({
-        success: false,
-        message: 'Payment verification successful but enrollment completion failed',
-        error: process.env.NODE_ENV === 'development' ? paymentCompletionError.message : 'Please contact support'
-      });
-    }
+    return res.status(200).json({
+      success: true,
+      message: 'Payment verified and enrollment completed successfully',
+      enrollment: completedEnrollment
+    });
 
   } catch (error) {
     console.error('❌ Payment verification error:', error);
@@ -533,6 +331,8 @@ const checkCourseAccess = async (req, res) => {
     return res.status(200).json({
       success: true,
       hasAccess,
+      suspended: !!enrollment?.isSuspended, // an installment is overdue
+      expired: !!enrollment?.expiresAt && enrollment.expiresAt <= new Date(), // can be renewed
       enrollment: enrollment // Return the enrollment regardless of access status
     });
 
@@ -558,11 +358,12 @@ const getStudentEnrollments = async (req, res) => {
     const studentId = req.user.id;
     const { status = 'enrolled' } = req.query;
 
+    // Video links are only served by GET /api/paidCourses/:id/content
     const enrollments = await Enrollment.find({
       studentId,
       enrollmentStatus: status,
       isActive: true
-    }).populate('courseId').populate('studentId', 'name email');
+    }).populate('courseId', '-videoLinks.videoLink').populate('studentId', 'name email');
 
     return res.status(200).json({
       success: true,
@@ -597,7 +398,7 @@ const getEnrollmentDetails = async (req, res) => {
       _id: enrollmentId,
       studentId,
       isActive: true
-    }).populate('courseId').populate('studentId', 'name email');
+    }).populate('courseId', '-videoLinks.videoLink').populate('studentId', 'name email');
 
     if (!enrollment) {
       return res.status(404).json({
@@ -621,10 +422,13 @@ const getEnrollmentDetails = async (req, res) => {
   }
 };
 
+// Record where the student is in a video, as reported by the player
+// Body: { videoId, position, duration } in seconds (watchTime is accepted in place of position)
 const updateVideoProgress = async (req, res) => {
   try {
     const { enrollmentId } = req.params;
-    const { videoId, watchTime } = req.body;
+    const { videoId, watchTime, duration } = req.body;
+    const position = req.body.position ?? watchTime;
     
     if (!req.user || !req.user.id) {
       return res.status(401).json({
@@ -635,10 +439,10 @@ const updateVideoProgress = async (req, res) => {
     
     const studentId = req.user.id;
 
-    if (!videoId || typeof watchTime !== 'number') {
+    if (!videoId || !Number.isFinite(position) || position < 0) {
       return res.status(400).json({
         success: false,
-        message: 'Video ID and watch time are required'
+        message: 'Video ID and position are required'
       });
     }
 
@@ -656,7 +460,20 @@ const updateVideoProgress = async (req, res) => {
       });
     }
 
-    await enrollment.updateProgress(videoId, watchTime);
+    const CourseModel = enrollment.courseType === 'UnpaidCourse' ? UnpaidCourse : PaidCourse;
+    const course = await CourseModel.findById(enrollment.courseId).select('videoLinks._id');
+    if (!course || !course.videoLinks.id(videoId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found in this course'
+      });
+    }
+
+    await enrollment.updateProgress(
+      videoId,
+      { position, duration: Number.isFinite(duration) && duration > 0 ? duration : 0 },
+      course.videoLinks.map(video => video._id)
+    );
 
     return res.status(200).json({
       success: true,
@@ -719,9 +536,164 @@ const cancelEnrollment = async (req, res) => {
   }
 };
 
+// Start checkout for the next unpaid installment of an installment-plan enrollment.
+// The app verifies it through /api/payments/verify like any other payment.
+const payNextInstallment = async (req, res) => {
+  try {
+    const enrollment = await Enrollment.findOne({
+      _id: req.params.enrollmentId,
+      studentId: req.user.id,
+      isActive: true
+    });
+
+    if (!enrollment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Enrollment not found'
+      });
+    }
+
+    if (enrollment.paymentPlan !== 'installments' || enrollment.enrollmentStatus !== 'enrolled') {
+      return res.status(400).json({
+        success: false,
+        message: 'This enrollment has no installments to pay'
+      });
+    }
+
+    const next = enrollment.getNextInstallment();
+    if (!next) {
+      return res.status(400).json({
+        success: false,
+        message: 'All installments have been paid'
+      });
+    }
+
+    if (!razorpay.isConfigured()) {
+      return res.status(500).json({
+        success: false,
+        message: 'Payment gateway not configured'
+      });
+    }
+
+    const course = await PaidCourse.findById(enrollment.courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const payment = await createPaymentOrder({
+      studentId: req.user.id,
+      itemType: 'PaidCourse',
+      item: course,
+      reference: enrollment._id,
+      installment: { number: next.number, count: enrollment.installments.length, amount: next.amount }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Order created for installment ${next.number}. Please complete payment`,
+      installment: next,
+      razorpayOrder: toCheckoutOrder(payment)
+    });
+
+  } catch (error) {
+    console.error('Pay installment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create installment payment',
+      error: error.message
+    });
+  }
+};
+
+// Start checkout to extend a paid course enrollment by another validity period.
+// Works before or after expiry; the app verifies it through /api/payments/verify.
+const renewEnrollment = async (req, res) => {
+  try {
+    const enrollment = await Enrollment.findOne({
+      _id: req.params.enrollmentId,
+      studentId: req.user.id,
+      courseType: 'PaidCourse',
+      paymentStatus: 'completed',
+      isActive: true
+    });
+
+    if (!enrollment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Enrollment not found'
+      });
+    }
+
+    if (enrollment.getNextInstallment()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Pay the remaining installments before renewing'
+      });
+    }
+
+    const course = await PaidCourse.findById(enrollment.courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const { kind, endDate } = course.validity || {};
+    if (kind === 'lifetime' || !enrollment.expiresAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'This enrollment does not expire'
+      });
+    }
+    if (kind === 'fixed' && (!endDate || endDate <= enrollment.expiresAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This course cannot be renewed past its end date'
+      });
+    }
+
+    if (!razorpay.isConfigured()) {
+      return res.status(500).json({
+        success: false,
+        message: 'Payment gateway not configured'
+      });
+    }
+
+    const payment = await createPaymentOrder({
+      studentId: req.user.id,
+      itemType: 'PaidCourse',
+      item: course,
+      reference: enrollment._id,
+      renewal: true
+    });
+
+    const now = new Date();
+    return res.status(201).json({
+      success: true,
+      message: 'Order created for renewal. Please complete payment',
+      expiresAt: course.getExpiryDate(enrollment.expiresAt > now ? enrollment.expiresAt : now),
+      razorpayOrder: toCheckoutOrder(payment)
+    });
+
+  } catch (error) {
+    console.error('Renew enrollment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create renewal payment',
+      error: error.message
+    });
+  }
+};
+
 module.exports = {
   enrollInCourse,
   verifyPaymentAndEnroll,
+  payNextInstallment,
+  renewEnrollment,
   getStudentEnrollments,
   getEnrollmentDetails,
   updateVideoProgress,
@@ -223,7 +223,8 @@ const getTeacherEvents = async (req, res) => {
 // Get student's events from all assigned batches
 const getStudentEvents = async (req, res) => {
   try {
-    const studentId = req.user.id;
+    // Set by verifyStudentAccess: the student themself or a parent's linked child
+    const studentId = req.studentId || req.user.id;
     const { month, year } = req.query;
 
     // Find all batches where student is assigned
@@ -3,6 +3,9 @@ const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
 const PaidCourse = require('../models/PaidCourse'); // Import your model
+const Enrollment = require('../models/Enrollment');
+const { hasPermission } = require('../config/permissions');
+const { applyCurriculum, buildResource, sendResourcePdf } = require('../config/curriculum');
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -31,6 +34,78 @@ const fileFilter = (req, file, cb) => {
   }
 };
 
+// Read an installmentPlan field (JSON string from multipart forms, or an object).
+// Returns { plan } (undefined when absent) or { message } when it is invalid.
+const parseInstallmentPlan = (raw) => {
+  if (raw === undefined || raw === '') return { plan: undefined };
+
+  let plan;
+  try {
+    plan = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch (parseError) {
+    return { message: 'Invalid JSON format in installmentPlan' };
+  }
+
+  const enabled = plan?.enabled === true || plan?.enabled === 'true';
+  if (!enabled) return { plan: { enabled: false } };
+
+  const installments = parseInt(plan.installments);
+  const intervalDays = parseInt(plan.intervalDays) || 30;
+  const gracePeriodDays = plan.gracePeriodDays === undefined ? 7 : parseInt(plan.gracePeriodDays);
+
+  if (!(installments >= 2 && installments <= 24)) {
+    return { message: 'An installment plan needs between 2 and 24 installments' };
+  }
+  if (!(intervalDays >= 7 && intervalDays <= 365)) {
+    return { message: 'Installments must be between 7 and 365 days apart' };
+  }
+  if (!(gracePeriodDays >= 0 && gracePeriodDays <= 60)) {
+    return { message: 'Grace period must be between 0 and 60 days' };
+  }
+
+  return { plan: { enabled: true, installments, intervalDays, gracePeriodDays } };
+};
+
+// Read a validity field (JSON string or object) the same way as installmentPlan.
+// Returns { validity } (undefined when absent) or { message } when it is invalid.
+const parseValidity = (raw) => {
+  if (raw === undefined || raw === '') return { validity: undefined };
+
+  let validity;
+  try {
+    validity = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch (parseError) {
+    return { message: 'Invalid JSON format in validity' };
+  }
+
+  const kind = validity?.kind || 'months';
+  if (!['months', 'fixed', 'lifetime'].includes(kind)) {
+    return { message: 'Validity must be months, fixed or lifetime' };
+  }
+
+  const hasRenewalPrice = validity.renewalPrice !== undefined && validity.renewalPrice !== null && validity.renewalPrice !== '';
+  const renewalPrice = hasRenewalPrice ? parseFloat(validity.renewalPrice) : null;
+  if (hasRenewalPrice && !(renewalPrice >= 1)) {
+    return { message: 'Renewal price must be at least 1' };
+  }
+
+  if (kind === 'lifetime') return { validity: { kind, renewalPrice: null } };
+
+  if (kind === 'fixed') {
+    const endDate = new Date(validity.endDate);
+    if (!validity.endDate || Number.isNaN(endDate.getTime())) {
+      return { message: 'A fixed validity needs an end date' };
+    }
+    return { validity: { kind, endDate, renewalPrice } };
+  }
+
+  const months = parseInt(validity.months);
+  if (!(months >= 1 && months <= 120)) {
+    return { message: 'Validity must be between 1 and 120 months' };
+  }
+  return { validity: { kind, months, renewalPrice } };
+};
+
 const upload = multer({
   storage: storage,
   fileFilter: fileFilter,
@@ -54,6 +129,8 @@ const createCourse = async (req, res) => {
       class: courseClass,
       courseDetails,
       videoLinks,
+      installmentPlan,
+      validity,
       isActive
     } = req.body;
 
@@ -99,6 +176,22 @@ const createCourse = async (req, res) => {
       });
     }
 
+    const { plan: parsedInstallmentPlan, message: installmentPlanError } = parseInstallmentPlan(installmentPlan);
+    if (installmentPlanError) {
+      return res.status(400).json({
+        success: false,
+        message: installmentPlanError
+      });
+    }
+
+    const { validity: parsedValidity, message: validityError } = parseValidity(validity);
+    if (validityError) {
+      return res.status(400).json({
+        success: false,
+        message: validityError
+      });
+    }
+
     // Validate courseDetails structure
     if (!parsedCourseDetails || !parsedCourseDetails.subtitle || !parsedCourseDetails.description) {
       return res.status(400).json({
@@ -120,6 +213,8 @@ const createCourse = async (req, res) => {
       class: courseClass.trim(),
       courseDetails: parsedCourseDetails,
       videoLinks: parsedVideoLinks,
+      ...(parsedInstallmentPlan && { installmentPlan: parsedInstallmentPlan }),
+      ...(parsedValidity && { validity: parsedValidity }),
       courseThumbnail: thumbnailPath,
       thumbnailMetadata: {
         originalName: req.file.originalname,
@@ -163,14 +258,14 @@ const createCourse = async (req, res) => {
   }
 };
 
-// Get all paid courses
+// Get all paid courses (catalogue shape)
 const getAllCourses = async (req, res) => {
   try {
     const courses = await PaidCourse.find().sort({ createdAt: -1 });
     
     res.json({
       success: true,
-      data: courses,
+      data: courses.map(course => course.toCatalogue()),
       count: courses.length
     });
   } catch (error) {
@@ -183,7 +278,27 @@ const getAllCourses = async (req, res) => {
   }
 };
 
-// Get course by ID
+// Get all paid courses with their video links, for the admin screens
+const getAllCoursesForAdmin = async (req, res) => {
+  try {
+    const courses = await PaidCourse.find().sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: courses,
+      count: courses.length
+    });
+  } catch (error) {
+    console.error('Error fetching paid courses for admin:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch paid courses',
+      error: error.message
+    });
+  }
+};
+
+// Get course by ID (catalogue shape)
 const getCourseById = async (req, res) => {
   try {
     const { id } = req.params;
@@ -199,7 +314,7 @@ const getCourseById = async (req, res) => {
 
     res.json({
       success: true,
-      data: course
+      data: course.toCatalogue()
     });
   } catch (error) {
     console.error('Error fetching paid course:', error);
@@ -211,6 +326,55 @@ const getCourseById = async (req, res) => {
   }
 };
 
+// Why a user may not open a course's lectures, or null if they may (staff, or a valid enrollment)
+const getContentAccessError = async (user, course) => {
+  if (hasPermission(user.role, 'course:read-all')) return null;
+
+  const enrollment = await Enrollment.findOne({
+    studentId: user.id,
+    courseId: course._id,
+    enrollmentStatus: 'enrolled',
+    isActive: true
+  });
+
+  if (enrollment && enrollment.isValidEnrollment) return null;
+  if (enrollment?.isSuspended) return 'Your access is paused until the overdue installment is paid';
+  if (enrollment) return 'Your access to this course has expired';
+  return 'Enroll in this course to watch its videos';
+};
+
+// Get a course with every video link. Students need a valid enrollment; staff who can
+// read all courses are let through.
+const getCourseContent = async (req, res) => {
+  try {
+    const course = await PaidCourse.findById(req.params.id);
+
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Paid course not found'
+      });
+    }
+
+    const accessError = await getContentAccessError(req.user, course);
+    if (accessError) {
+      return res.status(403).json({ success: false, message: accessError });
+    }
+
+    res.json({
+      success: true,
+      data: course
+    });
+  } catch (error) {
+    console.error('Error fetching paid course content:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch paid course content',
+      error: error.message
+    });
+  }
+};
+
 // Update course
 const updateCourse = async (req, res) => {
   try {
@@ -224,6 +388,8 @@ const updateCourse = async (req, res) => {
       class: courseClass,
       courseDetails,
       videoLinks,
+      installmentPlan,
+      validity,
       isActive
     } = req.body;
 
@@ -262,6 +428,22 @@ const updateCourse = async (req, res) => {
       });
     }
 
+    const { plan: parsedInstallmentPlan, message: installmentPlanError } = parseInstallmentPlan(installmentPlan);
+    if (installmentPlanError) {
+      return res.status(400).json({
+        success: false,
+        message: installmentPlanError
+      });
+    }
+
+    const { validity: parsedValidity, message: validityError } = parseValidity(validity);
+    if (validityError) {
+      return res.status(400).json({
+        success: false,
+        message: validityError
+      });
+    }
+
     // Prepare update data
     const updateData = {};
     
@@ -273,6 +455,10 @@ const updateCourse = async (req, res) => {
     if (courseClass) updateData.class = courseClass.trim();
     if (parsedCourseDetails) updateData.courseDetails = parsedCourseDetails;
     if (parsedVideoLinks) updateData.videoLinks = parsedVideoLinks;
+    // Existing enrollments keep the schedule they signed up with
+    if (parsedInstallmentPlan) updateData.installmentPlan = parsedInstallmentPlan;
+    // Only new enrollments and renewals use the new validity; current expiry dates stay
+    if (parsedValidity) updateData.validity = parsedValidity;
     if (isActive !== undefined) updateData.isActive = isActive === 'true' || isActive === true;
 
     // Handle thumbnail update
@@ -370,7 +556,7 @@ const deleteCourse = async (req, res) => {
 const addVideoToCourse = async (req, res) => {
   try {
     const { id } = req.params;
-    const { videoTitle, videoDescription, videoLink, duration } = req.body;
+    const { videoTitle, videoDescription, videoLink, duration, isPreview } = req.body;
 
     // Validate required fields
     if (!videoTitle || !videoDescription || !videoLink || !duration) {
@@ -394,7 +580,8 @@ const addVideoToCourse = async (req, res) => {
       videoTitle: videoTitle.trim(),
       videoDescription: videoDescription.trim(),
       videoLink: videoLink.trim(),
-      duration: duration.trim()
+      duration: duration.trim(),
+      isPreview: isPreview === true || isPreview === 'true'
     };
 
     // Add video to course
@@ -421,7 +608,7 @@ const addVideoToCourse = async (req, res) => {
 const updateVideoInCourse = async (req, res) => {
   try {
     const { id, videoId } = req.params;
-    const { videoTitle, videoDescription, videoLink, duration } = req.body;
+    const { videoTitle, videoDescription, videoLink, duration, isPreview } = req.body;
 
     // Find course
     const course = await PaidCourse.findById(id);
@@ -446,6 +633,7 @@ const updateVideoInCourse = async (req, res) => {
     if (videoDescription) video.videoDescription = videoDescription.trim();
     if (videoLink) video.videoLink = videoLink.trim();
     if (duration) video.duration = duration.trim();
+    if (isPreview !== undefined) video.isPreview = isPreview === true || isPreview === 'true';
 
     const updatedCourse = await course.save();
 
@@ -499,6 +687,177 @@ const deleteVideoFromCourse = async (req, res) => {
   }
 };
 
+// Replace the chapter list and the order of lectures
+const updateCurriculum = async (req, res) => {
+  try {
+    const course = await PaidCourse.findById(req.params.id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Paid course not found'
+      });
+    }
+
+    const curriculumError = applyCurriculum(course, req.body.chapters);
+    if (curriculumError) {
+      return res.status(400).json({
+        success: false,
+        message: curriculumError
+      });
+    }
+
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Curriculum updated successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error updating curriculum:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update curriculum',
+      error: error.message
+    });
+  }
+};
+
+// Attach a notes PDF or a DPP to a lecture
+const addVideoResource = async (req, res) => {
+  try {
+    const { id, videoId } = req.params;
+
+    const course = await PaidCourse.findById(id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Paid course not found'
+      });
+    }
+
+    const video = course.videoLinks.id(videoId);
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found'
+      });
+    }
+
+    const { resource, message } = await buildResource(req.body);
+    if (!resource) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+
+    const alreadyAttached = video.resources.some(existing =>
+      existing.itemId.equals(resource.itemId) && String(existing.pdfId) === String(resource.pdfId)
+    );
+    if (alreadyAttached) {
+      return res.status(400).json({
+        success: false,
+        message: 'This resource is already attached to the video'
+      });
+    }
+
+    video.resources.push(resource);
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Resource attached successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error attaching resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to attach resource',
+      error: error.message
+    });
+  }
+};
+
+const deleteVideoResource = async (req, res) => {
+  try {
+    const { id, videoId, resourceId } = req.params;
+
+    const course = await PaidCourse.findById(id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Paid course not found'
+      });
+    }
+
+    const video = course.videoLinks.id(videoId);
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found'
+      });
+    }
+
+    video.resources.pull(resourceId);
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Resource removed successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error removing resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove resource',
+      error: error.message
+    });
+  }
+};
+
+// Stream a lecture's attached PDF to enrolled students; the course grants access,
+// so paid notes attached here need no separate purchase
+const getVideoResourcePdf = async (req, res) => {
+  try {
+    const { id, videoId, resourceId } = req.params;
+
+    const course = await PaidCourse.findById(id);
+    const resource = course?.videoLinks.id(videoId)?.resources.id(resourceId);
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found'
+      });
+    }
+
+    const accessError = await getContentAccessError(req.user, course);
+    if (accessError) {
+      return res.status(403).json({ success: false, message: accessError });
+    }
+
+    const sent = await sendResourcePdf(resource, res);
+    if (!sent) {
+      return res.status(404).json({
+        success: false,
+        message: 'The attached PDF is no longer available'
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching resource PDF:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch resource PDF',
+      error: error.message
+    });
+  }
+};
+
 // Get courses by category
 const getCoursesByCategory = async (req, res) => {
   try {
@@ -510,7 +869,7 @@ const getCoursesByCategory = async (req, res) => {
 
     res.json({
       success: true,
-      data: courses,
+      data: courses.map(course => course.toCatalogue()),
       count: courses.length
     });
   } catch (error) {
@@ -588,12 +947,18 @@ const enrollStudent = async (req, res) => {
 module.exports = {
   createCourse,
   getAllCourses,
+  getAllCoursesForAdmin,
   getCourseById,
+  getCourseContent,
   updateCourse,
   deleteCourse,
   addVideoToCourse,
   updateVideoInCourse,
   deleteVideoFromCourse,
+  updateCurriculum,
+  addVideoResource,
+  deleteVideoResource,
+  getVideoResourcePdf,
   enrollStudent,
   getCoursesByCategory,
   upload
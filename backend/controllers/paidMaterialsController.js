@@ -500,7 +500,7 @@ const incrementViewCount = async (req, res) => {
   }
 };
 
-// Purchase material
+// Record a purchase paid outside the app (admin). Students pay through /api/payments/orders.
 const purchaseMaterial = async (req, res) => {
   try {
     const { studentId, paymentId, amount } = req.body;
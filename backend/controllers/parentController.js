@@ -0,0 +1,140 @@
+const bcryptjs = require('bcryptjs');
+const User = require('../models/User');
+
+const CHILD_FIELDS = 'name email class examCategory avatar';
+
+// The same student can be picked twice; it is linked once
+const uniqueIds = (ids) => [...new Set(ids.map(String))];
+
+// Utility function for validation: every id must belong to a student account
+const validateStudents = async (studentIds) => {
+  const students = await User.find({ _id: { $in: studentIds }, role: 'user' }).select('_id');
+  return students.length === studentIds.length;
+};
+
+// Get the signed-in parent's linked children
+const getMyChildren = async (req, res) => {
+  try {
+    const parent = await User.findById(req.user.id)
+      .select('children')
+      .populate('children', CHILD_FIELDS);
+
+    if (!parent) {
+      return res.status(404).json({ success: false, message: 'Parent account not found' });
+    }
+
+    res.json({ success: true, data: parent.children, count: parent.children.length });
+  } catch (error) {
+    console.error('Error fetching children:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch linked students', error: error.message });
+  }
+};
+
+// Get all parent accounts with their linked children (Admin)
+const getAllParents = async (req, res) => {
+  try {
+    const parents = await User.find({ role: 'parent' })
+      .select('name email phone children createdAt')
+      .populate('children', CHILD_FIELDS)
+      .sort({ name: 1 });
+
+    res.json({ success: true, data: parents, count: parents.length });
+  } catch (error) {
+    res.status(500).json({ success: false, message: 'Failed to fetch parents', error: error.message });
+  }
+};
+
+// Create a parent account linked to one or more students (Admin)
+const createParent = async (req, res) => {
+  try {
+    const { name, email, password, phone } = req.body;
+    const studentIds = Array.isArray(req.body.studentIds) ? uniqueIds(req.body.studentIds) : [];
+
+    if (!name?.trim() || !email?.trim() || !password) {
+      return res.status(400).json({ success: false, message: 'Name, email and password are required' });
+    }
+
+    if (!studentIds.length) {
+      return res.status(400).json({ success: false, message: 'Link at least one student' });
+    }
+
+    if (!(await validateStudents(studentIds))) {
+      return res.status(400).json({ success: false, message: 'Some selected students are invalid' });
+    }
+
+    const existingUser = await User.findOne({ email: email.trim().toLowerCase() });
+    if (existingUser) {
+      return res.status(400).json({ success: false, message: 'A user with this email already exists' });
+    }
+
+    const parent = await User.create({
+      name: name.trim(),
+      email: email.trim().toLowerCase(),
+      phone: phone ? String(phone).replace(/[\s-]/g, '') : '',
+      password: await bcryptjs.hash(password, 10),
+      role: 'parent',
+      children: studentIds
+    });
+
+    const populatedParent = await User.findById(parent._id)
+      .select('name email phone children createdAt')
+      .populate('children', CHILD_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      message: 'Parent account created successfully',
+      data: populatedParent
+    });
+  } catch (error) {
+    console.error('Parent creation error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: Object.values(error.errors).map(err => err.message)
+      });
+    }
+
+    res.status(500).json({ success: false, message: 'Failed to create parent account', error: error.message });
+  }
+};
+
+// Replace the students linked to a parent account (Admin)
+const updateParentChildren = async (req, res) => {
+  try {
+    const { parentId } = req.params;
+    if (!Array.isArray(req.body.studentIds)) {
+      return res.status(400).json({ success: false, message: 'studentIds must be an array' });
+    }
+    const studentIds = uniqueIds(req.body.studentIds);
+
+    if (studentIds.length && !(await validateStudents(studentIds))) {
+      return res.status(400).json({ success: false, message: 'Some selected students are invalid' });
+    }
+
+    const parent = await User.findOneAndUpdate(
+      { _id: parentId, role: 'parent' },
+      { children: studentIds },
+      { new: true }
+    )
+      .select('name email phone children createdAt')
+      .populate('children', CHILD_FIELDS);
+
+    if (!parent) {
+      return res.status(404).json({ success: false, message: 'Parent account not found' });
+    }
+
+    res.json({ success: true, message: 'Linked students updated successfully', data: parent });
+  } catch (error) {
+    console.error('Error updating linked students:', error);
+    res.status(500).json({ success: false, message: 'Failed to update linked students', error: error.message });
+  }
+};
+
+module.exports = {
+  getMyChildren,
+  getAllParents,
+  createParent,
+  updateParentChildren
+};
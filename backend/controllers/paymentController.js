@@ -0,0 +1,707 @@
+// controllers/paymentController.js
+const Payment = require('../models/Payment');
+const Enrollment = require('../models/Enrollment');
+const PurchasedNotes = require('../models/PurchasedNotes');
+const PaidCourse = require('../models/PaidCourse');
+const UnpaidCourse = require('../models/UnpaidCourse');
+const PaidNotes = require('../models/PaidNotes');
+const PaidMaterials = require('../models/PaidMaterials');
+const Bundle = require('../models/Bundle');
+const BundlePurchase = require('../models/BundlePurchase');
+const Coupon = require('../models/Coupon');
+const User = require('../models/User');
+const razorpay = require('../config/razorpay');
+const { assignInvoiceNumber, buildInvoicePdf } = require('../config/invoice');
+const { hasPermission } = require('../config/permissions');
+const { evaluateCoupon } = require('./couponController');
+
+// Receipts are capped at 40 characters by Razorpay
+const generateReceipt = (prefix) => {
+  const timestamp = Date.now().toString(36);
+  const randomSuffix = Math.random().toString(36).substring(2, 8);
+  return `${prefix}_${timestamp}_${randomSuffix}`;
+};
+
+// Refund outcome stored on the enrollment/purchase itself
+const refundFields = (payment) => ({
+  'refund.status': 'refunded',
+  'refund.amount': payment.refundedAmount,
+  'refund.processedAt': payment.refundedAt
+});
+
+// Add one validity period to an enrollment, counted from its current expiry if that
+// hasn't passed yet so renewing early loses nothing
+const renewEnrollment = async (enrollment, payment, CourseModel) => {
+  if (enrollment.renewals.some(renewal => renewal.paymentId.equals(payment._id))) return;
+
+  const course = await CourseModel.findById(payment.itemId);
+  if (!course) {
+    console.warn('Captured renewal has no course to renew:', payment.razorpayOrderId);
+    return;
+  }
+
+  const now = new Date();
+  const from = enrollment.expiresAt && enrollment.expiresAt > now ? enrollment.expiresAt : now;
+  enrollment.renew(course.getExpiryDate(from), payment._id);
+  await enrollment.save();
+};
+
+const undoRenewal = async (payment) => {
+  const enrollment = await Enrollment.findById(payment.reference);
+  const renewal = enrollment?.renewals.find(item => item.paymentId.equals(payment._id));
+  if (!renewal) return;
+
+  // A later renewal was counted from this one's expiry, so it loses the refunded period too
+  const latest = enrollment.renewals[enrollment.renewals.length - 1];
+  enrollment.expiresAt = latest === renewal
+    ? renewal.previousExpiresAt
+    : new Date(enrollment.expiresAt.getTime() - (renewal.expiresAt - renewal.previousExpiresAt));
+  enrollment.renewals.pull(renewal);
+  await enrollment.save();
+};
+
+// Grant or take back access to a course once its payment is captured or refunded
+const courseHandler = (CourseModel) => ({
+  Model: CourseModel,
+  receiptPrefix: 'course',
+  getTitle: (course) => course.courseTitle,
+
+  fulfil: async (payment) => {
+    const enrollment = await Enrollment.findById(payment.reference)
+      || await Enrollment.findOne({ studentId: payment.studentId, courseId: payment.itemId, isActive: true });
+    if (!enrollment) {
+      console.warn('Captured payment has no enrollment to complete:', payment.razorpayOrderId);
+      return;
+    }
+
+    if (payment.purpose === 'renewal') {
+      await renewEnrollment(enrollment, payment, CourseModel);
+      return;
+    }
+
+    if (payment.installmentNumber) {
+      enrollment.markInstallmentPaid(payment.installmentNumber, payment._id);
+    }
+
+    if (enrollment.paymentStatus !== 'completed') {
+      const course = await CourseModel.findById(payment.itemId);
+      await enrollment.completePayment({
+        razorpayOrderId: payment.razorpayOrderId,
+        razorpayPaymentId: payment.razorpayPaymentId,
+        razorpaySignature: payment.razorpaySignature,
+        amount: payment.amount,
+        paymentMethod: payment.method || 'razorpay'
+      }, course?.getExpiryDate?.(enrollment.getValidityStart()));
+    } else if (enrollment.isModified()) {
+      await enrollment.save();
+    }
+
+    await CourseModel.updateOne(
+      { _id: payment.itemId, 'studentsEnrolled.studentId': { $ne: payment.studentId } },
+      {
+        $push: {
+          studentsEnrolled: {
+            studentId: payment.studentId,
+            mode: enrollment.mode,
+            schedule: enrollment.schedule,
+            enrolledAt: new Date()
+          }
+        }
+      }
+    );
+  },
+
+  // Refunding any installment cancels the whole enrollment; refunding a renewal only undoes the extension
+  revoke: async (payment) => {
+    if (payment.purpose === 'renewal') {
+      await undoRenewal(payment);
+      return;
+    }
+
+    await Enrollment.updateOne(
+      payment.installmentNumber
+        ? { _id: payment.reference }
+        : { studentId: payment.studentId, courseId: payment.itemId, 'paymentDetails.razorpayPaymentId': payment.razorpayPaymentId },
+      { paymentStatus: 'refunded', enrollmentStatus: 'cancelled', isActive: false, ...refundFields(payment) }
+    );
+    await CourseModel.updateOne(
+      { _id: payment.itemId },
+      { $pull: { studentsEnrolled: { studentId: payment.studentId } } }
+    );
+  }
+});
+
+// Give the student every item in a bundle they don't already own. All or nothing: MongoDB
+// runs standalone here (no transactions), so anything created before a failure is removed again.
+const grantBundle = async (payment) => {
+  const purchase = await BundlePurchase.findById(payment.reference);
+  if (!purchase) {
+    console.warn('Captured payment has no bundle purchase to complete:', payment.razorpayOrderId);
+    return;
+  }
+  if (purchase.status === 'completed') return;
+
+  const { studentId } = payment;
+  const granted = { enrollments: [], courses: [], notesPurchases: [], materials: [] };
+
+  try {
+    for (const courseId of purchase.courses) {
+      if (await Enrollment.isStudentEnrolled(studentId, courseId)) continue;
+      const course = await PaidCourse.findById(courseId);
+
+      await Enrollment.deleteMany({
+        studentId,
+        courseId,
+        enrollmentStatus: { $in: ['pending', 'failed', 'cancelled'] },
+        paymentStatus: { $ne: 'refunded' }
+      });
+      const enrollment = new Enrollment({
+        studentId,
+        courseId,
+        courseType: 'PaidCourse',
+        mode: 'online',
+        schedule: 'flexible',
+        enrollmentStatus: 'pending'
+      });
+      // The bundle's Payment holds the amount; each record just points back at its order
+      await enrollment.completePayment({
+        razorpayOrderId: payment.razorpayOrderId,
+        razorpayPaymentId: payment.razorpayPaymentId,
+        razorpaySignature: payment.razorpaySignature,
+        amount: 0,
+        paymentMethod: 'bundle'
+      }, course?.getExpiryDate());
+      granted.enrollments.push(enrollment._id);
+      granted.courses.push(courseId);
+
+      await PaidCourse.updateOne(
+        { _id: courseId, 'studentsEnrolled.studentId': { $ne: studentId } },
+        { $push: { studentsEnrolled: { studentId, mode: enrollment.mode, schedule: enrollment.schedule, enrolledAt: new Date() } } }
+      );
+    }
+
+    for (const notesId of purchase.notes) {
+      if (await PurchasedNotes.hasStudentPurchased(studentId, notesId)) continue;
+
+      const notesPurchase = new PurchasedNotes({
+        studentId,
+        notesId,
+        purchaseStatus: 'pending',
+        paymentDetails: { amount: 0, currency: 'INR', razorpayOrderId: payment.razorpayOrderId }
+      });
+      await notesPurchase.completePayment({
+        razorpayPaymentId: payment.razorpayPaymentId,
+        razorpaySignature: payment.razorpaySignature,
+        paymentMethod: 'bundle'
+      });
+      granted.notesPurchases.push(notesPurchase._id);
+    }
+
+    for (const materialId of purchase.materials) {
+      const material = await PaidMaterials.findById(materialId);
+      if (!material || material.hasPurchased(studentId)) continue;
+
+      material.addPurchase(studentId, payment.razorpayPaymentId, 0);
+      await material.save();
+      granted.materials.push(materialId);
+    }
+  } catch (error) {
+    await Promise.all([
+      Enrollment.deleteMany({ _id: { $in: granted.enrollments } }),
+      PaidCourse.updateMany({ _id: { $in: granted.courses } }, { $pull: { studentsEnrolled: { studentId } } }),
+      PurchasedNotes.deleteMany({ _id: { $in: granted.notesPurchases } }),
+      PaidMaterials.updateMany(
+        { _id: { $in: granted.materials } },
+        { $pull: { purchasedStudents: { paymentId: payment.razorpayPaymentId } } }
+      )
+    ]).catch(rollbackError => console.error('Failed to roll back bundle purchase:', rollbackError));
+    throw error;
+  }
+
+  purchase.status = 'completed';
+  purchase.completedAt = new Date();
+  purchase.granted = {
+    enrollments: granted.enrollments,
+    notesPurchases: granted.notesPurchases,
+    materials: granted.materials
+  };
+  await purchase.save();
+};
+
+const revokeBundle = async (payment) => {
+  const purchase = await BundlePurchase.findById(payment.reference);
+  if (!purchase || purchase.status !== 'completed') return;
+
+  const { enrollments, notesPurchases, materials } = purchase.granted;
+  const courseIds = await Enrollment.find({ _id: { $in: enrollments } }).distinct('courseId');
+
+  await Enrollment.updateMany(
+    { _id: { $in: enrollments } },
+    { paymentStatus: 'refunded', enrollmentStatus: 'cancelled', isActive: false, ...refundFields(payment) }
+  );
+  await PaidCourse.updateMany(
+    { _id: { $in: courseIds } },
+    { $pull: { studentsEnrolled: { studentId: payment.studentId } } }
+  );
+  await PurchasedNotes.updateMany(
+    { _id: { $in: notesPurchases } },
+    { paymentStatus: 'refunded', purchaseStatus: 'cancelled', isActive: false, ...refundFields(payment) }
+  );
+  await PaidMaterials.updateMany(
+    { _id: { $in: materials } },
+    { $pull: { purchasedStudents: { paymentId: payment.razorpayPaymentId } } }
+  );
+
+  purchase.status = 'cancelled';
+  await purchase.save();
+};
+
+const ITEM_HANDLERS = {
+  PaidCourse: courseHandler(PaidCourse),
+  UnpaidCourse: courseHandler(UnpaidCourse),
+
+  PaidNotes: {
+    Model: PaidNotes,
+    receiptPrefix: 'notes',
+    getTitle: (notes) => notes.notesTitle,
+
+    fulfil: async (payment) => {
+      const purchase = await PurchasedNotes.findById(payment.reference);
+      if (!purchase) {
+        console.warn('Captured payment has no notes purchase to complete:', payment.razorpayOrderId);
+        return;
+      }
+      if (purchase.purchaseStatus !== 'completed') {
+        purchase.paymentDetails.razorpayOrderId = payment.razorpayOrderId;
+        await purchase.completePayment({
+          razorpayPaymentId: payment.razorpayPaymentId,
+          razorpaySignature: payment.razorpaySignature,
+          paymentMethod: payment.method || 'razorpay'
+        });
+      }
+    },
+
+    revoke: async (payment) => {
+      await PurchasedNotes.updateOne(
+        { _id: payment.reference },
+        { paymentStatus: 'refunded', purchaseStatus: 'cancelled', isActive: false, ...refundFields(payment) }
+      );
+    }
+  },
+
+  PaidMaterials: {
+    Model: PaidMaterials,
+    receiptPrefix: 'material',
+    getTitle: (material) => material.materialTitle,
+
+    fulfil: async (payment) => {
+      const material = await PaidMaterials.findById(payment.itemId);
+      if (!material) return;
+      material.addPurchase(payment.studentId, payment.razorpayPaymentId, payment.amount);
+      await material.save();
+    },
+
+    revoke: async (payment) => {
+      await PaidMaterials.updateOne(
+        { _id: payment.itemId },
+        { $pull: { purchasedStudents: { paymentId: payment.razorpayPaymentId } } }
+      );
+    }
+  },
+
+  Bundle: {
+    Model: Bundle,
+    receiptPrefix: 'bundle',
+    getTitle: (bundle) => bundle.bundleTitle,
+    fulfil: grantBundle,
+    revoke: revokeBundle
+  }
+};
+
+// What the app needs to open Razorpay checkout for a payment
+const toCheckoutOrder = (payment) => ({
+  id: payment.razorpayOrderId,
+  amount: razorpay.toPaise(payment.amount),
+  currency: payment.currency,
+  receipt: payment.receipt,
+  keyId: process.env.RAZORPAY_KEY_ID,
+  paymentId: payment._id,
+  originalAmount: payment.originalAmount ?? payment.amount,
+  couponCode: payment.coupon?.code || null,
+  discount: payment.coupon?.discount || 0
+});
+
+// Create a Razorpay order for an item at its current price and record it.
+// `reference` is the pending Enrollment/PurchasedNotes that the payment will complete;
+// `coupon` is a valid result from evaluateCoupon; the order holds one of its uses until it is
+// paid, fails or is abandoned (see Coupon.usedCount). `installment` ({ number, count, amount })
+// charges one installment of a course instead of its price; `renewal` charges the course's
+// renewal price to extend the enrollment in `reference`.
+const createPaymentOrder = async ({ studentId, itemType, item, reference = null, coupon = null, installment = null, renewal = false }) => {
+  const handler = ITEM_HANDLERS[itemType];
+  const receipt = generateReceipt(handler.receiptPrefix);
+  const listPrice = renewal ? item.getRenewalPrice() : installment ? installment.amount : item.price;
+  const amount = coupon ? coupon.finalAmount : listPrice;
+
+  // evaluateCoupon has checked the limit already; this catches orders racing for the last use
+  if (coupon && !(await Coupon.reserveUse(coupon.coupon._id))) {
+    throw new Error('This coupon has been fully redeemed');
+  }
+
+  try {
+    const order = await razorpay.createOrder({
+      amount,
+      receipt,
+      notes: {
+        studentId: studentId.toString(),
+        itemType,
+        itemId: item._id.toString(),
+        ...(coupon && { coupon: coupon.coupon.code }),
+        ...(installment && { installment: String(installment.number) }),
+        ...(renewal && { purpose: 'renewal' })
+      }
+    });
+
+    let itemTitle = handler.getTitle(item);
+    if (installment) itemTitle += ` (installment ${installment.number} of ${installment.count})`;
+    if (renewal) itemTitle += ' (renewal)';
+
+    return await Payment.create({
+      studentId,
+      itemType,
+      itemId: item._id,
+      itemTitle,
+      reference,
+      amount,
+      originalAmount: listPrice,
+      ...(installment && { installmentNumber: installment.number }),
+      ...(renewal && { purpose: 'renewal' }),
+      ...(coupon && {
+        coupon: { couponId: coupon.coupon._id, code: coupon.coupon.code, discount: coupon.discount, reserved: true }
+      }),
+      receipt,
+      razorpayOrderId: order.id
+    });
+  } catch (error) {
+    if (coupon) await Coupon.releaseUse(coupon.coupon._id);
+    throw error;
+  }
+};
+
+// Check an optional coupon code for an order. Returns { coupon } (null without a code) or { message }.
+const resolveCoupon = async ({ couponCode, studentId, itemType, item }) => {
+  if (!couponCode) return { coupon: null };
+  const result = await evaluateCoupon({ code: couponCode, studentId, itemType, item });
+  return result.valid ? { coupon: result } : { message: result.message };
+};
+
+// Mark a payment captured and unlock the item. Safe to call more than once (checkout
+// verification and the payment.captured webhook usually both arrive); only the call
+// that moves the payment to 'captured' grants access. If unlocking fails the payment goes
+// back to its previous status, so the next verification or webhook retry tries again.
+const confirmPayment = async (payment, { razorpayPaymentId, razorpaySignature = null, method = null }) => {
+  const captured = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: { $in: ['created', 'failed'] } },
+    {
+      $set: {
+        status: 'captured',
+        razorpayPaymentId,
+        ...(razorpaySignature && { razorpaySignature }),
+        ...(method && { method }),
+        failureReason: null,
+        capturedAt: new Date()
+      }
+    },
+    { new: true }
+  );
+
+  if (!captured) {
+    return Payment.findById(payment._id);
+  }
+
+  try {
+    await ITEM_HANDLERS[captured.itemType].fulfil(captured);
+  } catch (error) {
+    await Payment.updateOne({ _id: captured._id, status: 'captured' }, { status: payment.status });
+    throw error;
+  }
+  // The order's coupon use is normally still held. One given back because the order failed or
+  // was abandoned is taken again, past the limit if need be: the discounted price is paid.
+  if (captured.coupon?.couponId && !captured.coupon.reserved) {
+    const retaken = await Payment.updateOne(
+      { _id: captured._id, 'coupon.reserved': false },
+      { 'coupon.reserved': true }
+    );
+    if (retaken.modifiedCount) {
+      await Coupon.updateOne({ _id: captured.coupon.couponId }, { $inc: { usedCount: 1 } });
+    }
+  }
+  // The invoice endpoint assigns the number later if this fails
+  return assignInvoiceNumber(captured).catch((error) => {
+    console.error('Failed to assign invoice number:', error);
+    return captured;
+  });
+};
+
+// A failed order gives back its coupon use; confirmPayment takes it again if the order is paid later
+const markPaymentFailed = async (payment, reason) => {
+  const previous = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: 'created' },
+    { status: 'failed', failureReason: reason, 'coupon.reserved': false }
+  );
+  if (previous?.coupon?.reserved) {
+    await Coupon.releaseUse(previous.coupon.couponId);
+  }
+};
+
+// Take access away once a refund has gone through. Access is revoked for partial
+// refunds too; `amount` defaults to the full payment.
+const markPaymentRefunded = async (payment, { amount = payment.amount, razorpayRefundId = null } = {}) => {
+  const refunded = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: 'captured' },
+    { status: 'refunded', refundedAt: new Date(), refundedAmount: amount, razorpayRefundId },
+    { new: true }
+  );
+  if (refunded) {
+    await ITEM_HANDLERS[refunded.itemType].revoke(refunded);
+  }
+  return refunded;
+};
+
+// Check the signature Razorpay checkout returned and capture the payment.
+// Returns { verified, payment }.
+const verifyCheckout = async (payment, { razorpay_payment_id, razorpay_signature }) => {
+  if (payment.status === 'captured' || payment.status === 'refunded') {
+    return { verified: payment.razorpayPaymentId === razorpay_payment_id, payment };
+  }
+
+  const verified = razorpay.verifyPaymentSignature(payment.razorpayOrderId, razorpay_payment_id, razorpay_signature);
+  if (!verified) {
+    await markPaymentFailed(payment, 'Signature verification failed');
+    return { verified: false, payment };
+  }
+
+  const captured = await confirmPayment(payment, {
+    razorpayPaymentId: razorpay_payment_id,
+    razorpaySignature: razorpay_signature
+  });
+  return { verified: true, payment: captured };
+};
+
+// Create an order for any purchasable item
+// Body: { itemType: 'PaidMaterials', itemId, couponCode? }
+// Courses and notes keep their own entry points (/api/enrollment/enroll, /api/purchasedNotes/purchase)
+// because they also create the pending enrollment/purchase the payment completes.
+const createOrder = async (req, res) => {
+  try {
+    const { itemType, itemId, couponCode } = req.body;
+
+    if (itemType !== 'PaidMaterials' || !itemId) {
+      return res.status(400).json({
+        success: false,
+        message: 'itemType must be PaidMaterials and itemId is required'
+      });
+    }
+
+    if (!razorpay.isConfigured()) {
+      return res.status(500).json({ success: false, message: 'Payment gateway not configured' });
+    }
+
+    const material = await PaidMaterials.findById(itemId);
+    if (!material || !material.isActive) {
+      return res.status(404).json({ success: false, message: 'Material not found or unavailable' });
+    }
+
+    if (material.hasPurchased(req.user.id)) {
+      return res.status(400).json({ success: false, message: 'You have already purchased this material' });
+    }
+
+    const { coupon, message } = await resolveCoupon({ couponCode, studentId: req.user.id, itemType, item: material });
+    if (message) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    const payment = await createPaymentOrder({ studentId: req.user.id, itemType, item: material, coupon });
+
+    res.status(201).json({
+      success: true,
+      message: 'Order created. Please complete payment',
+      data: { payment, razorpayOrder: toCheckoutOrder(payment) }
+    });
+  } catch (error) {
+    console.error('Error creating payment order:', error);
+    res.status(500).json({ success: false, message: 'Failed to create payment order', error: error.message });
+  }
+};
+
+// Verify a checkout result and unlock the item
+// Body: { razorpay_order_id, razorpay_payment_id, razorpay_signature }
+const verifyPayment = async (req, res) => {
+  try {
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+      return res.status(400).json({ success: false, message: 'All payment details are required' });
+    }
+
+    const payment = await Payment.findOne({ razorpayOrderId: razorpay_order_id, studentId: req.user.id });
+    if (!payment) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    const result = await verifyCheckout(payment, req.body);
+    if (!result.verified) {
+      return res.status(400).json({ success: false, message: 'Payment verification failed. Please try again.' });
+    }
+
+    res.json({ success: true, message: 'Payment verified successfully', data: result.payment });
+  } catch (error) {
+    console.error('Error verifying payment:', error);
+    res.status(500).json({ success: false, message: 'Failed to verify payment', error: error.message });
+  }
+};
+
+// Razorpay webhook: payment.captured, payment.failed and refund.processed.
+// Each event id is applied once; anything we don't track is acknowledged so Razorpay stops retrying.
+const handleWebhook = async (req, res) => {
+  if (!razorpay.verifyWebhookSignature(req.rawBody, req.get('X-Razorpay-Signature'))) {
+    return res.status(400).json({ success: false, message: 'Invalid webhook signature' });
+  }
+
+  const { event, payload = {} } = req.body;
+  const paymentEntity = payload.payment?.entity;
+  const refundEntity = payload.refund?.entity;
+  const eventId = req.get('X-Razorpay-Event-Id') || `${event}:${refundEntity?.id || paymentEntity?.id}`;
+
+  let payment = null;
+  try {
+    if (paymentEntity?.order_id) {
+      payment = await Payment.findOne({ razorpayOrderId: paymentEntity.order_id });
+    } else if (refundEntity?.payment_id) {
+      payment = await Payment.findOne({ razorpayPaymentId: refundEntity.payment_id });
+    }
+
+    if (!payment) {
+      return res.json({ success: true, message: 'Event ignored' });
+    }
+
+    // Claim the event before acting on it so concurrent redeliveries are skipped
+    const claimed = await Payment.updateOne(
+      { _id: payment._id, processedEvents: { $ne: eventId } },
+      { $push: { processedEvents: eventId } }
+    );
+    if (claimed.modifiedCount === 0) {
+      return res.json({ success: true, message: 'Event already processed' });
+    }
+  } catch (error) {
+    console.error('Error reading webhook event:', error);
+    return res.status(500).json({ success: false, message: 'Failed to process webhook' });
+  }
+
+  try {
+    switch (event) {
+      case 'payment.captured':
+        await confirmPayment(payment, { razorpayPaymentId: paymentEntity.id, method: paymentEntity.method });
+        break;
+      case 'payment.failed':
+        await markPaymentFailed(payment, paymentEntity.error_description || 'Payment failed');
+        break;
+      case 'refund.processed':
+        await markPaymentRefunded(payment, { amount: refundEntity.amount / 100, razorpayRefundId: refundEntity.id });
+        break;
+      default:
+        break;
+    }
+
+    res.json({ success: true, message: 'Event processed' });
+  } catch (error) {
+    console.error(`Error processing webhook ${event}:`, error);
+    // Release the event so Razorpay's retry gets another go at it
+    await Payment.updateOne({ _id: payment._id }, { $pull: { processedEvents: eventId } }).catch(() => {});
+    res.status(500).json({ success: false, message: 'Failed to process webhook' });
+  }
+};
+
+// Payment history for the signed-in user
+// Query params: ?status=created|captured|failed|refunded&page=1&limit=20
+const getMyPayments = async (req, res) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+
+    const query = { studentId: req.user.id };
+    if (status) query.status = { $in: status.split(',') };
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [payments, total] = await Promise.all([
+      Payment.find(query)
+        .select('-processedEvents -razorpaySignature')
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      Payment.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: payments,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting payments:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch payments', error: error.message });
+  }
+};
+
+// Download the invoice PDF for a completed payment. Students get their own; admins any.
+const getInvoice = async (req, res) => {
+  try {
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    if (payment.studentId.toString() !== req.user.id && !hasPermission(req.user.role, 'payment:manage')) {
+      return res.status(403).json({ success: false, message: 'You can only download your own invoices' });
+    }
+
+    if (payment.status !== 'captured' && payment.status !== 'refunded') {
+      return res.status(400).json({ success: false, message: 'Invoices are only issued for completed payments' });
+    }
+
+    const [invoicedPayment, student] = await Promise.all([
+      assignInvoiceNumber(payment),
+      User.findById(payment.studentId).select('name email phone')
+    ]);
+
+    const fileName = `invoice-${invoicedPayment.invoiceNumber.replace(/\//g, '-')}.pdf`;
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    buildInvoicePdf(invoicedPayment, student).pipe(res);
+  } catch (error) {
+    console.error('Error generating invoice:', error);
+    res.status(500).json({ success: false, message: 'Failed to generate invoice', error: error.message });
+  }
+};
+
+module.exports = {
+  createOrder,
+  verifyPayment,
+  handleWebhook,
+  getMyPayments,
+  getInvoice,
+  createPaymentOrder,
+  resolveCoupon,
+  confirmPayment,
+  markPaymentRefunded,
+  verifyCheckout,
+  toCheckoutOrder
+};
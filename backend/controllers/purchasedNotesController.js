@@ -1,60 +1,8 @@
 // controllers/purchasedNotesController.js - Fixed version
-const mongoose = require('mongoose'); // Add this line
 const PurchasedNotes = require('../models/PurchasedNotes');
 const PaidNotes = require('../models/PaidNotes');
-const User = require('../models/User');
-const Razorpay = require('razorpay');
-const crypto = require('crypto');
-
-// Initialize Razorpay
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID,
-  key_secret: process.env.RAZORPAY_KEY_SECRET,
-});
-
-// Helper functions
-const generateShortReceipt = () => {
-  const timestamp = Date.now().toString(36);
-  const randomSuffix = Math.random().toString(36).substring(2, 8);
-  return `notes_${timestamp}_${randomSuffix}`;
-};
-
-const isMockPayment = (paymentId, signature) => {
-  if (process.env.NODE_ENV !== 'development') return false;
-  
-  const mockPatterns = [/^pay_mock_/, /^pay_test_/, /^pay_[a-zA-Z0-9]{8,15}$/];
-  const mockSigPatterns = [/^mock_signature_/, /^test_signature_/, /^dev_signature_/];
-  
-  return mockPatterns.some(p => p.test(paymentId)) && mockSigPatterns.some(p => p.test(signature));
-};
-
-const validateSignature = (orderId, paymentId, signature) => {
-  try {
-    const isThisMockPayment = isMockPayment(paymentId, signature);
-    
-    if (isThisMockPayment) {
-      return process.env.NODE_ENV === 'development' && /^(mock_|test_|dev_)signature_/.test(signature);
-    }
-    
-    const body = `${orderId}|${paymentId}`;
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
-      .update(body)
-      .digest('hex');
-    
-    console.log('Signature validation:', {
-      body,
-      receivedSignature: signature,
-      expectedSignature,
-      matches: expectedSignature === signature
-    });
-    
-    return expectedSignature === signature;
-  } catch (error) {
-    console.error('Signature validation error:', error);
-    return false;
-  }
-};
+const Payment = require('../models/Payment');
+const { createPaymentOrder, resolveCoupon, verifyCheckout, toCheckoutOrder } = require('./paymentController');
 
 const validateAuth = (req) => {
   if (!req.user?.id) {
@@ -68,7 +16,7 @@ const validateAuth = (req) => {
 const purchaseNotes = async (req, res) => {
   try {
     const studentId = validateAuth(req);
-    const { notesId } = req.body;
+    const { notesId, couponCode } = req.body;
     
     if (!notesId) {
       return res.status(400).json({ success: false, message: 'Notes ID is required' });
@@ -125,6 +73,11 @@ const purchaseNotes = async (req, res) => {
       });
     }
 
+    const { coupon, message } = await resolveCoupon({ couponCode, studentId, itemType: 'PaidNotes', item: notes });
+    if (message) {
+      return res.status(400).json({ success: false, message });
+    }
+
     // For paid notes - reuse existing purchase or create new one
     if (!purchase) {
       purchase = new PurchasedNotes({
@@ -141,31 +94,28 @@ const purchaseNotes = async (req, res) => {
       purchase.paymentDetails.razorpayPaymentId = null;
       purchase.paymentDetails.razorpaySignature = null;
       purchase.paymentDetails.paidAt = null;
+      purchase.paymentDetails.amount = notes.price;
     }
 
-    // Create new Razorpay order
-    const orderData = {
-      amount: notes.price * 100,
-      currency: 'INR',
-      receipt: generateShortReceipt(),
-      notes: { notesId, studentId, type: 'notes_purchase' }
-    };
+    await purchase.save();
 
-    const razorpayOrder = await razorpay.orders.create(orderData);
-    
-    purchase.paymentDetails.razorpayOrderId = razorpayOrder.id;
+    const payment = await createPaymentOrder({
+      studentId,
+      itemType: 'PaidNotes',
+      item: notes,
+      reference: purchase._id,
+      coupon
+    });
+
+    purchase.paymentDetails.razorpayOrderId = payment.razorpayOrderId;
+    purchase.paymentDetails.amount = payment.amount;
     await purchase.save();
 
     return res.status(201).json({
       success: true,
       message: 'Purchase created. Please complete payment to access the notes',
       purchase,
-      razorpayOrder: {
-        id: razorpayOrder.id,
-        amount: razorpayOrder.amount,
-        currency: razorpayOrder.currency,
-        receipt: razorpayOrder.receipt
-      }
+      razorpayOrder: toCheckoutOrder(payment)
     });
 
   } catch (error) {
@@ -177,24 +127,16 @@ const purchaseNotes = async (req, res) => {
   }
 };
 
-// FIXED: Verify payment with database transaction to ensure consistency
-// FIXED: Verify payment without database transactions (compatible with standalone MongoDB)
+// Verify the checkout result for a pending purchase; the payments module completes the purchase
 const verifyPaymentAndPurchase = async (req, res) => {
   try {
-    console.log('=== PAYMENT VERIFICATION STARTED ===');
-    console.log('Request body:', JSON.stringify(req.body, null, 2));
-    console.log('Timestamp:', new Date().toISOString());
-    
     const studentId = validateAuth(req);
     const { purchaseId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
-    
-    console.log('Authenticated student ID:', studentId);
 
-    // Find purchase (no session needed)
+    // Find purchase
     let purchase = null;
     
     if (purchaseId) {
-      console.log('Searching by purchaseId:', purchaseId);
       purchase = await PurchasedNotes.findOne({
         _id: purchaseId,
         studentId
@@ -202,7 +144,6 @@ const verifyPaymentAndPurchase = async (req, res) => {
     }
     
     if (!purchase && razorpay_order_id) {
-      console.log('Searching by razorpay_order_id:', razorpay_order_id);
       purchase = await PurchasedNotes.findOne({
         studentId,
         'paymentDetails.razorpayOrderId': razorpay_order_id
@@ -210,7 +151,6 @@ const verifyPaymentAndPurchase = async (req, res) => {
     }
 
     if (!purchase) {
-      console.log('❌ No purchase found');
       return res.status(404).json({ 
         success: false, 
         message: 'Purchase not found',
@@ -218,16 +158,8 @@ const verifyPaymentAndPurchase = async (req, res) => {
       });
     }
 
-    console.log('Found purchase:', {
-      id: purchase._id,
-      currentStatus: purchase.purchaseStatus,
-      paymentStatus: purchase.paymentStatus,
-      orderId: purchase.paymentDetails.razorpayOrderId
-    });
-
     // If already completed, return success
     if (purchase.purchaseStatus === 'completed' && purchase.paymentStatus === 'completed') {
-      console.log('✅ Purchase already completed');
       return res.status(200).json({
         success: true,
         message: 'Payment already verified and purchase completed',
@@ -238,37 +170,31 @@ const verifyPaymentAndPurchase = async (req, res) => {
     }
 
     // Validate payment data
-    if (!razorpay_payment_id || !razorpay_order_id) {
-      console.log('❌ Missing payment details');
+    if (!razorpay_payment_id || !razorpay_order_id || !razorpay_signature) {
       return res.status(400).json({ 
         success: false, 
-        message: 'Payment ID and Order ID are required',
+        message: 'Payment ID, Order ID and signature are required',
         error: 'missing_payment_data'
       });
     }
 
-    // Verify signature
-    console.log('Verifying signature...');
-    let signatureValid = false;
-    
-    if (razorpay_signature) {
-      signatureValid = validateSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
-      console.log('Signature validation result:', signatureValid);
-    } else {
-      signatureValid = process.env.NODE_ENV === 'development';
-      console.log('Development mode - signature validation:', signatureValid);
+    const payment = await Payment.findOne({ razorpayOrderId: razorpay_order_id, studentId, reference: purchase._id });
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found',
+        error: 'payment_not_found'
+      });
     }
-    
-    if (!signatureValid) {
+
+    const { verified } = await verifyCheckout(payment, req.body);
+
+    if (!verified) {
       console.log('❌ Signature validation failed');
-      
-      // Update purchase status to failed (without transaction)
-      await PurchasedNotes.findByIdAndUpdate(
-        purchase._id,
-        { 
-          paymentStatus: 'failed',
-          purchaseStatus: 'failed'
-        }
+
+      await PurchasedNotes.updateOne(
+        { _id: purchase._id, purchaseStatus: 'pending' },
+        { paymentStatus: 'failed', purchaseStatus: 'failed' }
       );
       
       return res.status(400).json({ 
@@ -278,57 +204,7 @@ const verifyPaymentAndPurchase = async (req, res) => {
       });
     }
 
-    console.log('✅ Signature validated successfully');
-
-    // Update purchase with all required fields (atomic operation)
-    const updateData = {
-      paymentStatus: 'completed',
-      purchaseStatus: 'completed',
-      'paymentDetails.razorpayPaymentId': razorpay_payment_id,
-      'paymentDetails.razorpaySignature': razorpay_signature,
-      'paymentDetails.paymentMethod': 'razorpay',
-      'paymentDetails.paidAt': new Date(),
-      'accessDetails.grantedAt': new Date(),
-      purchasedAt: new Date(),
-      isActive: true
-    };
-
-    console.log('Updating purchase with data:', updateData);
-
-    // Use findByIdAndUpdate for atomic operation (no transaction needed)
-    const updatedPurchase = await PurchasedNotes.findByIdAndUpdate(
-      purchase._id,
-      { $set: updateData },
-      { 
-        new: true,
-        runValidators: true 
-      }
-    );
-
-    if (!updatedPurchase) {
-      console.log('❌ Failed to update purchase');
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to update purchase',
-        error: 'update_failed'
-      });
-    }
-
-    console.log('✅ Purchase updated successfully:', {
-      id: updatedPurchase._id,
-      purchaseStatus: updatedPurchase.purchaseStatus,
-      paymentStatus: updatedPurchase.paymentStatus,
-      paidAt: updatedPurchase.paymentDetails.paidAt,
-      grantedAt: updatedPurchase.accessDetails.grantedAt
-    });
-
-    // Verify the update by re-querying
-    const verifyUpdate = await PurchasedNotes.findById(updatedPurchase._id);
-    console.log('Verification query result:', {
-      purchaseStatus: verifyUpdate.purchaseStatus,
-      paymentStatus: verifyUpdate.paymentStatus,
-      isActive: verifyUpdate.isActive
-    });
+    const updatedPurchase = await PurchasedNotes.findById(purchase._id);
 
     return res.status(200).json({
       success: true,
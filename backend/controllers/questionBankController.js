@@ -0,0 +1,280 @@
+// controllers/questionBankController.js
+const multer = require('multer');
+const QuestionBank = require('../models/QuestionBank');
+const { normalizeQuestion } = require('../config/testGrading');
+
+const MAX_IMAGES = 4;
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB per image
+  },
+  fileFilter: (req, file, cb) => {
+    if (/^image\/(jpeg|jpg|png|gif|webp)$/.test(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed!'));
+    }
+  }
+}).array('images', MAX_IMAGES);
+
+// Multer errors (wrong type, too large, too many) become 400s
+const uploadImages = (req, res, next) => {
+  imageUpload(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        message: err.code === 'LIMIT_UNEXPECTED_FILE'
+          ? `A question can have at most ${MAX_IMAGES} images`
+          : err.message || 'File upload error'
+      });
+    }
+    next();
+  });
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Multipart forms send arrays as JSON strings
+const parseJsonField = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  return typeof value === 'string' ? JSON.parse(value) : value;
+};
+
+const toImage = (file) => ({
+  data: file.buffer,
+  mimeType: file.mimetype,
+  originalName: file.originalname,
+  size: file.size
+});
+
+// Drop image bytes from a saved question; they are served from /:id/images/:imageId
+const formatQuestion = (question) => {
+  const data = question.toObject();
+  data.images = (data.images || []).map(({ data: _bytes, ...image }) => image);
+  return data;
+};
+
+const canEdit = (question, user) =>
+  user.role === 'admin' || question.createdBy.toString() === user.id;
+
+// The answer and tag fields from a request body. Marks are left to each test's marking scheme.
+// Returns { fields } or { message }.
+const buildQuestionFields = (body) => {
+  const { question, message } = normalizeQuestion({
+    questionType: body.questionType,
+    questionText: body.questionText,
+    options: parseJsonField(body.options, []),
+    correctOptions: parseJsonField(body.correctOptions, []),
+    correctAnswer: body.correctAnswer,
+    tolerance: body.tolerance,
+    solution: body.solution
+  });
+  if (!question) {
+    return { message: message.charAt(0).toUpperCase() + message.slice(1) };
+  }
+
+  const { marks, negativeMarks, partialMarking, ...answerFields } = question;
+  return {
+    fields: {
+      ...answerFields,
+      subject: body.subject,
+      chapter: body.chapter || '',
+      topic: body.topic || '',
+      difficulty: body.difficulty || 'medium',
+      examCategories: [...new Set(parseJsonField(body.examCategories, []))]
+    }
+  };
+};
+
+// Bad input (schema validation or a malformed JSON field) is a 400
+const handleWriteError = (res, error, message) => {
+  if (error.name === 'ValidationError' || error instanceof SyntaxError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ success: false, message, error: error.message });
+};
+
+// Search the bank
+// Query params: ?search=&subject=&chapter=&topic=&difficulty=&examCategory=&questionType=&mine=true&page=1&limit=20
+const getQuestions = async (req, res) => {
+  try {
+    const { search, subject, chapter, topic, difficulty, examCategory, questionType, mine, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (subject) query.subject = subject;
+    if (chapter) query.chapter = chapter;
+    if (topic) query.topic = topic;
+    if (difficulty) query.difficulty = difficulty;
+    if (examCategory) query.examCategories = examCategory;
+    if (questionType) query.questionType = questionType;
+    if (mine === 'true') query.createdBy = req.user.id;
+    if (search?.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ questionText: pattern }, { chapter: pattern }, { topic: pattern }];
+    }
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [questions, total] = await Promise.all([
+      QuestionBank.find(query)
+        .populate('createdBy', 'name')
+        .select('-images.data')
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      QuestionBank.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: questions,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting questions:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch questions', error: error.message });
+  }
+};
+
+// Every subject/chapter/topic in use with its question count, for the filter pickers
+const getQuestionTags = async (req, res) => {
+  try {
+    const tags = await QuestionBank.aggregate([
+      { $group: { _id: { subject: '$subject', chapter: '$chapter', topic: '$topic' }, count: { $sum: 1 } } },
+      { $sort: { '_id.subject': 1, '_id.chapter': 1, '_id.topic': 1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: tags.map(tag => ({ ...tag._id, count: tag.count }))
+    });
+  } catch (error) {
+    console.error('Error getting question tags:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch question tags', error: error.message });
+  }
+};
+
+const getQuestionById = async (req, res) => {
+  try {
+    const question = await QuestionBank.findById(req.params.id)
+      .populate('createdBy', 'name')
+      .select('-images.data');
+    if (!question) {
+      return res.status(404).json({ success: false, message: 'Question not found' });
+    }
+
+    res.json({ success: true, data: question });
+  } catch (error) {
+    console.error('Error getting question:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch question', error: error.message });
+  }
+};
+
+const getQuestionImage = async (req, res) => {
+  try {
+    const question = await QuestionBank.findById(req.params.id).select('images');
+    const image = question?.images.id(req.params.imageId);
+    if (!image) {
+      return res.status(404).json({ success: false, message: 'Image not found' });
+    }
+
+    res.set({
+      'Content-Type': image.mimeType,
+      'Content-Length': image.size
+    });
+    res.send(image.data);
+  } catch (error) {
+    console.error('Error getting question image:', error);
+    res.status(500).json({ success: false, message: 'Error retrieving image', error: error.message });
+  }
+};
+
+// Multipart form: the question fields, with options, correctOptions and examCategories
+// as JSON arrays, plus up to four `images`
+const createQuestion = async (req, res) => {
+  try {
+    const { fields, message } = buildQuestionFields(req.body);
+    if (!fields) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    const question = await QuestionBank.create({
+      ...fields,
+      images: (req.files || []).map(toImage),
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({ success: true, message: 'Question added to the bank', data: formatQuestion(question) });
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to create question');
+  }
+};
+
+// Same form as create. removeImageIds (JSON array) drops existing images; new `images` are appended.
+// Teachers can only edit their own questions.
+const updateQuestion = async (req, res) => {
+  try {
+    const question = await QuestionBank.findById(req.params.id);
+    if (!question) {
+      return res.status(404).json({ success: false, message: 'Question not found' });
+    }
+    if (!canEdit(question, req.user)) {
+      return res.status(403).json({ success: false, message: 'You can only edit questions you added' });
+    }
+
+    const { fields, message } = buildQuestionFields(req.body);
+    if (!fields) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    const removeImageIds = parseJsonField(req.body.removeImageIds, []).map(String);
+    question.set(fields);
+    question.images = [
+      ...question.images.filter(image => !removeImageIds.includes(image._id.toString())),
+      ...(req.files || []).map(toImage)
+    ];
+    await question.save();
+
+    res.json({ success: true, message: 'Question updated successfully', data: formatQuestion(question) });
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to update question');
+  }
+};
+
+const deleteQuestion = async (req, res) => {
+  try {
+    const question = await QuestionBank.findById(req.params.id).select('createdBy');
+    if (!question) {
+      return res.status(404).json({ success: false, message: 'Question not found' });
+    }
+    if (!canEdit(question, req.user)) {
+      return res.status(403).json({ success: false, message: 'You can only delete questions you added' });
+    }
+
+    await QuestionBank.deleteOne({ _id: question._id });
+    res.json({ success: true, message: 'Question deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting question:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete question', error: error.message });
+  }
+};
+
+module.exports = {
+  uploadImages,
+  getQuestions,
+  getQuestionTags,
+  getQuestionById,
+  getQuestionImage,
+  createQuestion,
+  updateQuestion,
+  deleteQuestion
+};
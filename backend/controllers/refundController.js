@@ -0,0 +1,253 @@
+// controllers/refundController.js
+const RefundRequest = require('../models/RefundRequest');
+const Enrollment = require('../models/Enrollment');
+const PurchasedNotes = require('../models/PurchasedNotes');
+const Payment = require('../models/Payment');
+const razorpay = require('../config/razorpay');
+const { markPaymentRefunded } = require('./paymentController');
+
+const RECORD_MODELS = {
+  Enrollment,
+  PurchasedNotes
+};
+
+// The captured payment behind a paid enrollment or notes purchase. For items that came
+// in a bundle this is the bundle's payment, so approving refunds the whole bundle.
+const findRecordPayment = (record) =>
+  Payment.findOne({
+    studentId: record.studentId,
+    razorpayOrderId: record.paymentDetails?.razorpayOrderId
+  });
+
+// Ask for a refund of a paid course or notes purchase
+// Body: { recordType: 'Enrollment' | 'PurchasedNotes', recordId, reason }
+const requestRefund = async (req, res) => {
+  try {
+    const { recordType, recordId, reason } = req.body;
+    const RecordModel = RECORD_MODELS[recordType];
+
+    if (!RecordModel || !recordId) {
+      return res.status(400).json({
+        success: false,
+        message: 'recordType must be Enrollment or PurchasedNotes and recordId is required'
+      });
+    }
+
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({ success: false, message: 'Please tell us why you want a refund' });
+    }
+
+    const record = await RecordModel.findOne({ _id: recordId, studentId: req.user.id });
+    if (!record) {
+      return res.status(404).json({ success: false, message: 'Purchase not found' });
+    }
+
+    if (record.paymentStatus !== 'completed') {
+      return res.status(400).json({ success: false, message: 'Only paid purchases can be refunded' });
+    }
+
+    // Installments are separate payments; refunds for these go through support
+    if (record.paymentPlan === 'installments') {
+      return res.status(400).json({ success: false, message: 'Courses paid in installments cannot be refunded in the app. Please contact support' });
+    }
+
+    if (record.refund?.status === 'requested') {
+      return res.status(400).json({ success: false, message: 'A refund request is already pending for this purchase' });
+    }
+
+    const payment = await findRecordPayment(record);
+    if (!payment || payment.status !== 'captured') {
+      return res.status(400).json({ success: false, message: 'No refundable payment found for this purchase' });
+    }
+
+    const refundRequest = await RefundRequest.create({
+      studentId: req.user.id,
+      recordType,
+      recordId: record._id,
+      paymentId: payment._id,
+      itemTitle: payment.itemTitle,
+      paidAmount: payment.amount,
+      reason: reason.trim()
+    });
+
+    record.refund = {
+      status: 'requested',
+      amount: payment.amount,
+      requestedAt: new Date(),
+      processedAt: null
+    };
+    await record.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Refund request submitted. We will review it shortly',
+      data: refundRequest
+    });
+  } catch (error) {
+    console.error('Error requesting refund:', error);
+    res.status(500).json({ success: false, message: 'Failed to submit refund request', error: error.message });
+  }
+};
+
+// Refund requests made by the signed-in user
+const getMyRefunds = async (req, res) => {
+  try {
+    const refunds = await RefundRequest.find({ studentId: req.user.id })
+      .select('-razorpayRefundId')
+      .sort({ createdAt: -1 });
+
+    res.json({ success: true, data: refunds });
+  } catch (error) {
+    console.error('Error getting refund requests:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch refund requests', error: error.message });
+  }
+};
+
+// All refund requests (admin)
+// Query params: ?status=pending|approved|denied&page=1&limit=20
+const getRefunds = async (req, res) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (status) query.status = status;
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 100);
+
+    const [refunds, total] = await Promise.all([
+      RefundRequest.find(query)
+        .populate('studentId', 'name email')
+        .populate('reviewedBy', 'name')
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      RefundRequest.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: refunds,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting refund requests:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch refund requests', error: error.message });
+  }
+};
+
+// Approve a request: refund through Razorpay and revoke access
+// Body: { amount?, adminNote? } — amount defaults to the full payment
+const approveRefund = async (req, res) => {
+  try {
+    const { adminNote = '' } = req.body;
+
+    const refundRequest = await RefundRequest.findById(req.params.id);
+    if (!refundRequest) {
+      return res.status(404).json({ success: false, message: 'Refund request not found' });
+    }
+    if (refundRequest.status !== 'pending') {
+      return res.status(400).json({ success: false, message: `Refund request is already ${refundRequest.status}` });
+    }
+
+    const amount = req.body.amount === undefined || req.body.amount === null || req.body.amount === ''
+      ? refundRequest.paidAmount
+      : Number(req.body.amount);
+    if (!(amount > 0) || amount > refundRequest.paidAmount) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund amount must be between 1 and ${refundRequest.paidAmount}`
+      });
+    }
+
+    const payment = await Payment.findById(refundRequest.paymentId);
+    if (!payment || payment.status !== 'captured') {
+      return res.status(400).json({ success: false, message: 'Payment is no longer refundable' });
+    }
+
+    if (!razorpay.isConfigured()) {
+      return res.status(500).json({ success: false, message: 'Payment gateway not configured' });
+    }
+
+    // Claim the request first so two admins can't refund the same payment
+    const claimed = await RefundRequest.findOneAndUpdate(
+      { _id: refundRequest._id, status: 'pending' },
+      { status: 'approved', adminNote, reviewedBy: req.user.id, reviewedAt: new Date() },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(409).json({ success: false, message: 'Refund request was reviewed by someone else' });
+    }
+
+    let refund;
+    try {
+      refund = await razorpay.createRefund(payment.razorpayPaymentId, {
+        amount,
+        notes: { refundRequestId: refundRequest._id.toString() }
+      });
+    } catch (error) {
+      await RefundRequest.updateOne(
+        { _id: refundRequest._id },
+        { status: 'pending', adminNote: '', reviewedBy: null, reviewedAt: null }
+      );
+      console.error('Razorpay refund failed:', error);
+      return res.status(502).json({
+        success: false,
+        message: 'Payment gateway rejected the refund',
+        error: error.error?.description || error.message
+      });
+    }
+
+    // Revokes access and records the refund on the enrollment/purchase
+    await markPaymentRefunded(payment, { amount, razorpayRefundId: refund.id });
+
+    claimed.refundAmount = amount;
+    claimed.razorpayRefundId = refund.id;
+    await claimed.save();
+
+    res.json({ success: true, message: 'Refund issued and access revoked', data: claimed });
+  } catch (error) {
+    console.error('Error approving refund:', error);
+    res.status(500).json({ success: false, message: 'Failed to approve refund', error: error.message });
+  }
+};
+
+// Deny a request; the student keeps access
+// Body: { adminNote? }
+const denyRefund = async (req, res) => {
+  try {
+    const { adminNote = '' } = req.body;
+
+    const refundRequest = await RefundRequest.findOneAndUpdate(
+      { _id: req.params.id, status: 'pending' },
+      { status: 'denied', adminNote, reviewedBy: req.user.id, reviewedAt: new Date() },
+      { new: true }
+    );
+    if (!refundRequest) {
+      return res.status(404).json({ success: false, message: 'Pending refund request not found' });
+    }
+
+    await RECORD_MODELS[refundRequest.recordType].updateOne(
+      { _id: refundRequest.recordId },
+      { 'refund.status': 'denied', 'refund.processedAt': new Date() }
+    );
+
+    res.json({ success: true, message: 'Refund request denied', data: refundRequest });
+  } catch (error) {
+    console.error('Error denying refund:', error);
+    res.status(500).json({ success: false, message: 'Failed to deny refund', error: error.message });
+  }
+};
+
+module.exports = {
+  requestRefund,
+  getMyRefunds,
+  getRefunds,
+  approveRefund,
+  denyRefund
+};
@@ -0,0 +1,704 @@
+const mongoose = require('mongoose');
+const Test = require('../models/Test');
+const TestAttempt = require('../models/TestAttempt');
+const QuestionBank = require('../models/QuestionBank');
+const { normalizeQuestions, gradeAttempt, getTotalMarks, MARKING_SCHEMES } = require('../config/testGrading');
+
+const MAX_BANK_QUESTIONS = 100;
+// Same cap as the Test model's; $push doesn't run its validator, so addBankQuestions checks it
+const MAX_QUESTION_IMAGE_BYTES = 12 * 1024 * 1024;
+
+// Question images are served from their own endpoints, so their bytes are left out of every query
+const TEST_WITH_QUESTIONS = '+questions -questionPdf.fileData -answerPdf.fileData -questions.images.data';
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const getImageBytes = (questions) => questions
+  .flatMap(question => question.images || [])
+  .reduce((total, image) => total + image.size, 0);
+
+// What a student sees while attempting: no answer key or solution
+const toAttemptQuestion = (question) => ({
+  _id: question._id,
+  questionType: question.questionType,
+  questionText: question.questionText,
+  images: question.images,
+  options: question.options,
+  marks: question.marks,
+  negativeMarks: question.negativeMarks,
+  partialMarking: question.partialMarking
+});
+
+const toTestSummary = (test) => ({
+  _id: test._id,
+  testTitle: test.testTitle,
+  subjectName: test.subjectName,
+  className: test.className,
+  instructions: test.instructions,
+  fullMarks: test.fullMarks,
+  durationMinutes: test.durationMinutes,
+  markingScheme: test.markingScheme,
+  dueDate: test.dueDate,
+  questionCount: test.questions.length
+});
+
+// A submitted attempt shows the answer key once the due date has passed or every assigned
+// student has submitted; before that classmates may still be taking the test.
+// The student's own entry may not be saved to the loaded test yet, so it counts as submitted.
+const isAnswerKeyReleased = (attempt, test) => {
+  if (attempt.status !== 'submitted') return false;
+  if (test.dueDate && test.dueDate <= new Date()) return true;
+  return test.assignedStudents.every(entry => entry.submittedAt || entry.student.equals(attempt.student));
+};
+
+// The attempt with its questions. Until the answer key is released, the questions carry no
+// answers or solutions and the per-question results are left out, since they reveal the answers too.
+const toAttemptResponse = (attempt, test) => {
+  const answerKeyReleased = isAnswerKeyReleased(attempt, test);
+  const attemptData = attempt.toJSON();
+  if (!answerKeyReleased) {
+    delete attemptData.results;
+  }
+
+  return {
+    attempt: attemptData,
+    test: toTestSummary(test),
+    questions: answerKeyReleased
+      ? test.questions
+      : test.questions.map(toAttemptQuestion),
+    answerKeyReleased,
+    serverTime: new Date()
+  };
+};
+
+// Grades an attempt and copies the score into the test's assignedStudents entry.
+// The entry is updated in place so a passed due date doesn't trip the Test validators on save.
+const finalizeAttempt = async (attempt, test, { autoSubmitted = false } = {}) => {
+  const { score, results } = gradeAttempt(test.questions, attempt.answers);
+
+  attempt.status = 'submitted';
+  attempt.submittedAt = autoSubmitted ? attempt.endsAt : new Date();
+  attempt.autoSubmitted = autoSubmitted;
+  attempt.score = round2(score);
+  attempt.results = results;
+  await attempt.save();
+
+  await Test.updateOne(
+    { _id: test._id, 'assignedStudents.student': attempt.student },
+    {
+      $set: {
+        'assignedStudents.$.marksScored': round2(Math.min(Math.max(score, 0), test.fullMarks)),
+        'assignedStudents.$.submittedAt': attempt.submittedAt,
+        'assignedStudents.$.evaluatedAt': new Date()
+      }
+    }
+  );
+
+  return attempt;
+};
+
+// Submits attempts whose time ran out while the student was away
+const finalizeExpiredAttempts = async (filter) => {
+  const attempts = await TestAttempt.find({ ...filter, status: 'in_progress', endsAt: { $lt: new Date() } });
+
+  for (const attempt of attempts) {
+    if (!attempt.isTimeUp) continue;
+    const test = await Test.findById(attempt.test).select('+questions -questions.images.data');
+    if (test) {
+      await finalizeAttempt(attempt, test, { autoSubmitted: true });
+    }
+  }
+};
+
+// Loads an online test assigned to the student, with its questions
+const findAssignedOnlineTest = async (testId, studentId) => {
+  const test = await Test.findOne({
+    _id: testId,
+    testType: 'online',
+    isActive: true,
+    'assignedStudents.student': studentId
+  }).select(TEST_WITH_QUESTIONS);
+
+  return test;
+};
+
+const sendQuestionImage = (res, test, questionId, imageId) => {
+  const question = test.questions.id(questionId);
+  const image = question?.images.id(imageId);
+  if (!image) {
+    return res.status(404).json({ success: false, message: 'Image not found' });
+  }
+
+  res.set({
+    'Content-Type': image.mimeType,
+    'Content-Length': image.size
+  });
+  res.send(image.data);
+};
+
+// Answers from the app, keeping only questions in the test and well-formed values
+const parseAnswers = (rawAnswers, test) => {
+  const questionsById = new Map(test.questions.map(question => [question._id.toString(), question]));
+  const answers = [];
+
+  for (const raw of Array.isArray(rawAnswers) ? rawAnswers : []) {
+    const question = questionsById.get(String(raw?.questionId));
+    if (!question) continue;
+
+    const isChoice = question.questionType === 'single' || question.questionType === 'multiple';
+    const selectedOptions = isChoice
+      ? [...new Set((raw.selectedOptions || []).map(Number))]
+          .filter(option => Number.isInteger(option) && option >= 0 && option < question.options.length)
+      : [];
+    const value = !isChoice && raw.value !== null && raw.value !== undefined && raw.value !== '' && Number.isFinite(Number(raw.value))
+      ? Number(raw.value)
+      : null;
+
+    answers.push({
+      questionId: question._id,
+      selectedOptions: question.questionType === 'single' ? selectedOptions.slice(0, 1) : selectedOptions,
+      value,
+      markedForReview: raw.markedForReview === true,
+      updatedAt: new Date()
+    });
+  }
+
+  return answers;
+};
+
+// Autosave sends only the questions that changed; merge them into what is saved
+const mergeAnswers = (attempt, answers) => {
+  for (const answer of answers) {
+    const existing = attempt.answers.find(item => item.questionId.equals(answer.questionId));
+    if (existing) {
+      existing.set(answer);
+    } else {
+      attempt.answers.push(answer);
+    }
+  }
+};
+
+// ====== TEACHER ======
+
+// Get an online test with its questions and answer key for editing
+const getOnlineTestQuestions = async (req, res) => {
+  try {
+    const test = await Test.findById(req.params.id).select(TEST_WITH_QUESTIONS);
+    if (!test || test.createdBy.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or unauthorized'
+      });
+    }
+
+    const attemptCount = await TestAttempt.countDocuments({ test: test._id });
+
+    res.json({
+      success: true,
+      data: {
+        test,
+        questions: test.questions,
+        attemptCount,
+        markingSchemes: MARKING_SCHEMES
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching test questions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch test questions',
+      error: error.message
+    });
+  }
+};
+
+// Replace an online test's questions. Full marks become the questions' marks added up.
+// Questions sent with their _id keep the images they were copied from the bank with.
+const updateOnlineTestQuestions = async (req, res) => {
+  try {
+    const { questions, markingScheme, durationMinutes } = req.body;
+
+    const test = await Test.findById(req.params.id).select('+questions -questionPdf.fileData -answerPdf.fileData');
+    if (!test || test.createdBy.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or unauthorized'
+      });
+    }
+
+    if (test.testType !== 'online') {
+      return res.status(400).json({
+        success: false,
+        message: 'Questions can only be added to online tests'
+      });
+    }
+
+    const attemptCount = await TestAttempt.countDocuments({ test: test._id });
+    if (attemptCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Questions cannot be changed once students have started the test'
+      });
+    }
+
+    const scheme = markingScheme || test.markingScheme;
+    if (!MARKING_SCHEMES[scheme]) {
+      return res.status(400).json({
+        success: false,
+        message: `markingScheme must be one of ${Object.keys(MARKING_SCHEMES).join(', ')}`
+      });
+    }
+
+    const { questions: normalized, message } = normalizeQuestions(questions, scheme);
+    if (!normalized) {
+      return res.status(400).json({ success: false, message });
+    }
+    if (!normalized.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Add at least one question'
+      });
+    }
+
+    normalized.forEach(question => {
+      const saved = question._id && test.questions.find(item => item._id.toString() === String(question._id));
+      if (saved) {
+        question.images = saved.images;
+        question.bankQuestion = saved.bankQuestion;
+      }
+    });
+
+    const updateData = {
+      questions: normalized,
+      markingScheme: scheme,
+      fullMarks: getTotalMarks(normalized)
+    };
+    if (durationMinutes !== undefined) updateData.durationMinutes = parseInt(durationMinutes);
+
+    const updatedTest = await Test.findByIdAndUpdate(test._id, updateData, {
+      new: true,
+      runValidators: true
+    }).select(TEST_WITH_QUESTIONS);
+
+    res.json({
+      success: true,
+      message: 'Questions saved successfully',
+      data: updatedTest
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error saving test questions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save test questions',
+      error: error.message
+    });
+  }
+};
+
+// Copy questions from the bank to the end of an online test, images included. Marks come
+// from the test's marking scheme; questions already copied into the test are skipped.
+// Body: { questionIds: [] }
+const addBankQuestions = async (req, res) => {
+  try {
+    const questionIds = [...new Set((Array.isArray(req.body.questionIds) ? req.body.questionIds : []).map(String))];
+    if (!questionIds.length) {
+      return res.status(400).json({ success: false, message: 'Select at least one question' });
+    }
+    if (questionIds.length > MAX_BANK_QUESTIONS) {
+      return res.status(400).json({ success: false, message: `Add at most ${MAX_BANK_QUESTIONS} questions at a time` });
+    }
+    if (!questionIds.every(id => mongoose.isValidObjectId(id))) {
+      return res.status(400).json({ success: false, message: 'Invalid question id' });
+    }
+
+    const test = await Test.findById(req.params.id).select(TEST_WITH_QUESTIONS);
+    if (!test || test.createdBy.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or unauthorized'
+      });
+    }
+
+    if (test.testType !== 'online') {
+      return res.status(400).json({
+        success: false,
+        message: 'Questions can only be added to online tests'
+      });
+    }
+
+    const attemptCount = await TestAttempt.countDocuments({ test: test._id });
+    if (attemptCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Questions cannot be changed once students have started the test'
+      });
+    }
+
+    const found = await QuestionBank.find({ _id: { $in: questionIds } });
+    if (found.length !== questionIds.length) {
+      return res.status(404).json({ success: false, message: 'Some of these questions are no longer in the bank' });
+    }
+
+    // In the order the teacher picked them
+    const alreadyAdded = new Set(test.questions.map(question => String(question.bankQuestion)));
+    const bankQuestions = questionIds
+      .filter(id => !alreadyAdded.has(id))
+      .map(id => found.find(question => question._id.toString() === id));
+    if (!bankQuestions.length) {
+      return res.status(400).json({ success: false, message: 'These questions are already in the test' });
+    }
+
+    // Bank questions carry no marks, so normalizing fills them in from the scheme
+    const { questions, message } = normalizeQuestions(
+      bankQuestions.map(({ questionType, questionText, options, correctOptions, correctAnswer, tolerance, solution }) => ({
+        questionType, questionText, options, correctOptions, correctAnswer, tolerance, solution
+      })),
+      test.markingScheme || 'custom'
+    );
+    if (!questions) {
+      return res.status(400).json({ success: false, message });
+    }
+
+    questions.forEach((question, index) => {
+      question.bankQuestion = bankQuestions[index]._id;
+      question.images = bankQuestions[index].images.map(({ data, mimeType, originalName, size }) => ({
+        data, mimeType, originalName, size
+      }));
+    });
+
+    if (getImageBytes(test.questions) + getImageBytes(questions) > MAX_QUESTION_IMAGE_BYTES) {
+      return res.status(400).json({
+        success: false,
+        message: `A test's question images can add up to at most ${MAX_QUESTION_IMAGE_BYTES / (1024 * 1024)}MB; add fewer questions with images`
+      });
+    }
+
+    const updatedTest = await Test.findByIdAndUpdate(test._id, {
+      $push: { questions: { $each: questions } },
+      fullMarks: getTotalMarks([...test.questions, ...questions])
+    }, {
+      new: true,
+      runValidators: true
+    }).select(TEST_WITH_QUESTIONS);
+
+    const skipped = questionIds.length - bankQuestions.length;
+    res.json({
+      success: true,
+      message: `${bankQuestions.length} questions added${skipped ? `; ${skipped} were already in the test` : ''}`,
+      data: updatedTest
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error adding bank questions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add questions from the bank',
+      error: error.message
+    });
+  }
+};
+
+// An image of one of the teacher's online test questions
+const getTeacherQuestionImage = async (req, res) => {
+  try {
+    const test = await Test.findById(req.params.id).select('createdBy questions._id questions.images');
+    if (!test || test.createdBy.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or unauthorized'
+      });
+    }
+
+    sendQuestionImage(res, test, req.params.questionId, req.params.imageId);
+  } catch (error) {
+    console.error('Error getting question image:', error);
+    res.status(500).json({ success: false, message: 'Error retrieving image', error: error.message });
+  }
+};
+
+// Every student's attempt at an online test
+const getTestAttempts = async (req, res) => {
+  try {
+    const test = await Test.findById(req.params.id).select('createdBy');
+    if (!test || test.createdBy.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or unauthorized'
+      });
+    }
+
+    await finalizeExpiredAttempts({ test: test._id });
+
+    const attempts = await TestAttempt.find({ test: test._id })
+      .populate('student', 'name email')
+      .select('-answers')
+      .sort({ submittedAt: -1 });
+
+    res.json({
+      success: true,
+      count: attempts.length,
+      data: attempts
+    });
+  } catch (error) {
+    console.error('Error fetching test attempts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch test attempts',
+      error: error.message
+    });
+  }
+};
+
+// ====== STUDENT ======
+
+// Online tests assigned to the student, each with their attempt if one exists
+const getStudentOnlineTests = async (req, res) => {
+  try {
+    await finalizeExpiredAttempts({ student: req.user.id });
+
+    const tests = await Test.find({
+      testType: 'online',
+      isActive: true,
+      'assignedStudents.student': req.user.id
+    })
+      .populate('createdBy', 'name')
+      .populate('batch', 'batchName')
+      .select(`${TEST_WITH_QUESTIONS} -assignedStudents`)
+      .sort({ dueDate: 1, createdAt: -1 });
+
+    const attempts = await TestAttempt.find({
+      student: req.user.id,
+      test: { $in: tests.map(test => test._id) }
+    }).select('-answers -results');
+    const attemptsByTest = new Map(attempts.map(attempt => [attempt.test.toString(), attempt]));
+
+    const data = tests.map(test => ({
+      ...toTestSummary(test),
+      createdBy: test.createdBy,
+      batch: test.batch,
+      isExpired: test.isExpired,
+      attempt: attemptsByTest.get(test._id.toString()) || null
+    }));
+
+    res.json({
+      success: true,
+      count: data.length,
+      data
+    });
+  } catch (error) {
+    console.error('Error fetching online tests:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch online tests',
+      error: error.message
+    });
+  }
+};
+
+// Start the timer, or resume the attempt already running
+const startAttempt = async (req, res) => {
+  try {
+    const test = await findAssignedOnlineTest(req.params.id, req.user.id);
+    if (!test) {
+      return res.status(404).json({
+        success: false,
+        message: 'Test not found or not assigned to you'
+      });
+    }
+
+    let attempt = await TestAttempt.findOne({ test: test._id, student: req.user.id });
+
+    if (!attempt) {
+      if (!test.questions.length || !test.durationMinutes) {
+        return res.status(400).json({
+          success: false,
+          message: 'This test is not ready yet'
+        });
+      }
+      if (test.isExpired) {
+        return res.status(400).json({
+          success: false,
+          message: 'The due date for this test has passed'
+        });
+      }
+
+      const startedAt = new Date();
+      let endsAt = new Date(startedAt.getTime() + test.durationMinutes * 60 * 1000);
+      if (test.dueDate && test.dueDate < endsAt) endsAt = test.dueDate;
+
+      attempt = await TestAttempt.create({ test: test._id, student: req.user.id, startedAt, endsAt });
+    } else if (attempt.status === 'in_progress' && attempt.isTimeUp) {
+      await finalizeAttempt(attempt, test, { autoSubmitted: true });
+    }
+
+    res.json({
+      success: true,
+      data: toAttemptResponse(attempt, test)
+    });
+  } catch (error) {
+    console.error('Error starting test attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start the test',
+      error: error.message
+    });
+  }
+};
+
+// The student's attempt: answers so far while running, or the graded result (with solutions once released)
+const getAttempt = async (req, res) => {
+  try {
+    const test = await findAssignedOnlineTest(req.params.id, req.user.id);
+    const attempt = test && await TestAttempt.findOne({ test: test._id, student: req.user.id });
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'You have not started this test'
+      });
+    }
+
+    if (attempt.status === 'in_progress' && attempt.isTimeUp) {
+      await finalizeAttempt(attempt, test, { autoSubmitted: true });
+    }
+
+    res.json({
+      success: true,
+      data: toAttemptResponse(attempt, test)
+    });
+  } catch (error) {
+    console.error('Error fetching test attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch the test attempt',
+      error: error.message
+    });
+  }
+};
+
+// Autosave answers while the timer runs
+const saveAttemptAnswers = async (req, res) => {
+  try {
+    const test = await findAssignedOnlineTest(req.params.id, req.user.id);
+    const attempt = test && await TestAttempt.findOne({ test: test._id, student: req.user.id });
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'You have not started this test'
+      });
+    }
+
+    if (attempt.status === 'submitted') {
+      return res.status(400).json({
+        success: false,
+        message: 'This test has already been submitted'
+      });
+    }
+
+    if (attempt.isTimeUp) {
+      await finalizeAttempt(attempt, test, { autoSubmitted: true });
+      return res.status(400).json({
+        success: false,
+        message: 'Time is up. Your saved answers have been submitted.'
+      });
+    }
+
+    mergeAnswers(attempt, parseAnswers(req.body.answers, test));
+    await attempt.save();
+
+    res.json({
+      success: true,
+      message: 'Answers saved',
+      data: { answers: attempt.answers, endsAt: attempt.endsAt, serverTime: new Date() }
+    });
+  } catch (error) {
+    console.error('Error saving test answers:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save answers',
+      error: error.message
+    });
+  }
+};
+
+// Submit for grading; any answers in the body are saved first
+const submitAttempt = async (req, res) => {
+  try {
+    const test = await findAssignedOnlineTest(req.params.id, req.user.id);
+    const attempt = test && await TestAttempt.findOne({ test: test._id, student: req.user.id });
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'You have not started this test'
+      });
+    }
+
+    if (attempt.status === 'submitted') {
+      return res.status(400).json({
+        success: false,
+        message: 'This test has already been submitted'
+      });
+    }
+
+    const autoSubmitted = attempt.isTimeUp;
+    if (!autoSubmitted) {
+      mergeAnswers(attempt, parseAnswers(req.body.answers, test));
+    }
+    await finalizeAttempt(attempt, test, { autoSubmitted });
+
+    res.json({
+      success: true,
+      message: autoSubmitted ? 'Time was up; your saved answers were submitted' : 'Test submitted successfully',
+      data: toAttemptResponse(attempt, test)
+    });
+  } catch (error) {
+    console.error('Error submitting test attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit the test',
+      error: error.message
+    });
+  }
+};
+
+// An image of a question in the student's test, once they have started it
+const getStudentQuestionImage = async (req, res) => {
+  try {
+    const test = await Test.findOne({
+      _id: req.params.id,
+      testType: 'online',
+      isActive: true,
+      'assignedStudents.student': req.user.id
+    }).select('questions._id questions.images');
+    const attempt = test && await TestAttempt.exists({ test: test._id, student: req.user.id });
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'You have not started this test'
+      });
+    }
+
+    sendQuestionImage(res, test, req.params.questionId, req.params.imageId);
+  } catch (error) {
+    console.error('Error getting question image:', error);
+    res.status(500).json({ success: false, message: 'Error retrieving image', error: error.message });
+  }
+};
+
+module.exports = {
+  getOnlineTestQuestions,
+  updateOnlineTestQuestions,
+  addBankQuestions,
+  getTeacherQuestionImage,
+  getTestAttempts,
+  getStudentOnlineTests,
+  startAttempt,
+  getAttempt,
+  saveAttemptAnswers,
+  submitAttempt,
+  getStudentQuestionImage
+};
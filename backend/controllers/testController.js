@@ -1,7 +1,15 @@
 const Test = require('../models/Test');
 const Batch = require('../models/Batch');
 const User = require('../models/User');
+const AnswerSheet = require('../models/AnswerSheet');
 const multer = require('multer');
+const {
+  normalizeSections,
+  normalizeQuestionMarks,
+  getSectionBreakdown,
+  addSectionTotals,
+  summarizeSectionTotals
+} = require('../config/testSections');
 
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
@@ -100,7 +108,8 @@ const createTest = async (req, res) => {
   try {
     const {
       testTitle, fullMarks, batchId, className, subjectName,
-      assignedStudents, dueDate, instructions, isActive
+      assignedStudents, dueDate, instructions, isActive,
+      testType, durationMinutes, markingScheme, sections
     } = req.body;
 
     // Validate required fields
@@ -111,6 +120,14 @@ const createTest = async (req, res) => {
       });
     }
 
+    // Online tests run on a timer; their questions are added afterwards
+    if (testType === 'online' && !(parseInt(durationMinutes) > 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Duration is required for online tests'
+      });
+    }
+
     // Simple teacher access validation - check if teacher is assigned to this batch/subject
     const batch = await Batch.findById(batchId).populate('subjects.teacher');
     if (!batch) {
@@ -187,6 +204,19 @@ const createTest = async (req, res) => {
       isActive: isActive !== undefined ? isActive : true
     };
 
+    if (testType === 'online') {
+      testData.testType = 'online';
+      testData.durationMinutes = parseInt(durationMinutes);
+      testData.markingScheme = markingScheme || 'custom';
+    } else if (sections !== undefined) {
+      // Offline tests can split their marks into sections and questions
+      const scheme = normalizeSections(sections, testData.fullMarks);
+      if (scheme.message) {
+        return res.status(400).json({ success: false, message: scheme.message });
+      }
+      testData.sections = scheme.sections;
+    }
+
     // Handle file uploads
     ['questionPdf', 'answerPdf'].forEach(fileType => {
       if (req.files?.[fileType]) {
@@ -425,7 +455,7 @@ const updateTest = async (req, res) => {
     const { id } = req.params;
     const {
       testTitle, fullMarks, className, subjectName,
-      assignedStudents, dueDate, instructions, isActive
+      assignedStudents, dueDate, instructions, isActive, sections
     } = req.body;
 
     const test = await Test.findById(id);
@@ -436,6 +466,32 @@ const updateTest = async (req, res) => {
       });
     }
 
+    // The marking scheme has to add up to the (possibly new) full marks, and is fixed once
+    // students have marks per question
+    let updatedSections;
+    if (sections !== undefined || (fullMarks && test.sections.length)) {
+      const currentSections = test.toObject().sections;
+      const scheme = normalizeSections(
+        sections !== undefined ? sections : currentSections,
+        fullMarks ? parseInt(fullMarks) : test.fullMarks
+      );
+      if (scheme.message) {
+        return res.status(400).json({ success: false, message: scheme.message });
+      }
+      if (scheme.sections.length && test.testType === 'online') {
+        return res.status(400).json({ success: false, message: 'Only offline tests can have sections' });
+      }
+
+      const changed = JSON.stringify(scheme.sections) !== JSON.stringify(currentSections);
+      if (changed && test.assignedStudents.some(s => s.questionMarks.length)) {
+        return res.status(400).json({
+          success: false,
+          message: 'The marking scheme cannot be changed after marks have been entered per question'
+        });
+      }
+      updatedSections = scheme.sections;
+    }
+
     // If class/subject is being changed, validate access
     if (className || subjectName) {
       const targetClass = className || test.className;
@@ -485,7 +541,8 @@ const updateTest = async (req, res) => {
         existingData[s.student.toString()] = {
           marksScored: s.marksScored,
           submittedAt: s.submittedAt,
-          evaluatedAt: s.evaluatedAt
+          evaluatedAt: s.evaluatedAt,
+          questionMarks: s.questionMarks
         };
       });
 
@@ -505,6 +562,7 @@ const updateTest = async (req, res) => {
     if (instructions !== undefined) updateData.instructions = instructions.trim();
     if (dueDate !== undefined) updateData.dueDate = dueDate ? new Date(dueDate) : null;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (updatedSections) updateData.sections = updatedSections;
 
     // Handle file uploads
     ['questionPdf', 'answerPdf'].forEach(fileType => {
@@ -696,6 +754,13 @@ const getComprehensiveUserReports = async (req, res) => {
       .select('-questionPdf.fileData -answerPdf.fileData')
       .sort({ createdAt: -1 });
 
+    const checkedSheets = await AnswerSheet.find({
+      student: userId,
+      test: { $in: tests.map(test => test._id) },
+      gradedAt: { $ne: null }
+    }).select('test');
+    const checkedTestIds = new Set(checkedSheets.map(sheet => sheet.test.toString()));
+
     // Format test data with subject context
     const studentReports = tests.map(test => {
       const studentData = test.assignedStudents.find(
@@ -714,15 +779,22 @@ const getComprehensiveUserReports = async (req, res) => {
         marksScored: studentData.marksScored,
         className: test.className,
         subjectName: test.subjectName,
+        testType: test.testType,
         createdAt: test.createdAt,
+        dueDate: test.dueDate,
+        submittedAt: studentData.submittedAt,
         evaluatedAt: studentData.evaluatedAt,
         batch: test.batch,
+        createdBy: test.createdBy,
         assignment: assignment,
         percentage: studentData.marksScored ? 
           ((studentData.marksScored / test.fullMarks) * 100).toFixed(2) : null,
-        status: studentData.marksScored !== null ? 'evaluated' : 'pending',
+        status: studentData.marksScored !== null ? 'evaluated' :
+                studentData.submittedAt !== null ? 'submitted' : 'pending',
+        isLate: !!(test.dueDate && studentData.submittedAt && studentData.submittedAt > test.dueDate),
         hasQuestionPdf: !!test.questionPdf,
-        hasAnswerPdf: !!test.answerPdf
+        hasAnswerPdf: !!test.answerPdf,
+        hasCheckedSheet: studentData.marksScored !== null && checkedTestIds.has(test._id.toString())
       };
     });
 
@@ -785,6 +857,7 @@ const deleteTest = async (req, res) => {
     }
 
     await Test.findByIdAndDelete(req.params.id);
+    await AnswerSheet.deleteMany({ test: test._id });
     res.json({ success: true, message: 'Test deleted successfully' });
   } catch (error) {
     console.error('Error deleting test:', error);
@@ -799,9 +872,10 @@ const deleteTest = async (req, res) => {
 const updateStudentMarks = async (req, res) => {
   try {
     const { id } = req.params;
-    const { studentId, marksScored } = req.body;
+    const { studentId, questionMarks } = req.body;
+    let { marksScored } = req.body;
 
-    if (!studentId || marksScored === undefined) {
+    if (!studentId || (marksScored === undefined && questionMarks === undefined)) {
       return res.status(400).json({
         success: false,
         message: 'Student ID and marks are required'
@@ -816,6 +890,23 @@ const updateStudentMarks = async (req, res) => {
       });
     }
 
+    // Marks per question set the total
+    let breakdown = null;
+    if (questionMarks !== undefined) {
+      if (!test.sections.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'This test has no marking scheme to enter marks per question'
+        });
+      }
+      const scheme = normalizeQuestionMarks(test.sections, questionMarks);
+      if (scheme.message) {
+        return res.status(400).json({ success: false, message: scheme.message });
+      }
+      breakdown = scheme.questionMarks;
+      marksScored = scheme.total;
+    }
+
     if (marksScored < 0 || marksScored > test.fullMarks) {
       return res.status(400).json({
         success: false,
@@ -834,8 +925,18 @@ const updateStudentMarks = async (req, res) => {
       });
     }
 
-    test.assignedStudents[studentIndex].marksScored = marksScored;
-    test.assignedStudents[studentIndex].evaluatedAt = new Date();
+    const assignment = test.assignedStudents[studentIndex];
+    if (breakdown) {
+      assignment.questionMarks = breakdown;
+    } else {
+      // A bare total keeps the per-question marks only if it still matches them
+      const breakdownTotal = assignment.questionMarks.reduce((sum, question) => sum + question.marks, 0);
+      if (Math.abs(breakdownTotal - marksScored) > 0.001) {
+        assignment.questionMarks = [];
+      }
+    }
+    assignment.marksScored = marksScored;
+    assignment.evaluatedAt = new Date();
     await test.save();
 
     const updatedTest = await Test.findById(id)
@@ -1127,6 +1228,7 @@ const getStudentReportCard = async (req, res) => {
 
     // Group tests by subject
     const subjectReports = {};
+    const subjectSectionTotals = {};
     let totalMarksScored = 0;
     let totalFullMarks = 0;
     let evaluatedTestsCount = 0;
@@ -1150,10 +1252,17 @@ const getStudentReportCard = async (req, res) => {
           averagePercentage: 0,
           highestScore: 0,
           lowestScore: null,
-          grade: null
+          grade: null,
+          sectionStats: []
         };
+        subjectSectionTotals[test.subjectName] = {};
       }
 
+      const sections = studentData.marksScored !== null
+        ? getSectionBreakdown(test.sections, studentData.questionMarks)
+        : [];
+      addSectionTotals(subjectSectionTotals[test.subjectName], sections);
+
       const percentage = studentData.marksScored !== null
         ? parseFloat(((studentData.marksScored / test.fullMarks) * 100).toFixed(2))
         : null;
@@ -1167,7 +1276,8 @@ const getStudentReportCard = async (req, res) => {
         createdAt: test.createdAt,
         evaluatedAt: studentData.evaluatedAt,
         percentage,
-        status: studentData.marksScored !== null ? 'evaluated' : 'pending'
+        status: studentData.marksScored !== null ? 'evaluated' : 'pending',
+        sections
       };
 
       subjectReports[test.subjectName].tests.push(testData);
@@ -1203,6 +1313,7 @@ const getStudentReportCard = async (req, res) => {
         );
         report.grade = calculateGrade(report.averagePercentage);
       }
+      report.sectionStats = summarizeSectionTotals(subjectSectionTotals[report.subjectName]);
     });
 
     const overallPercentage = totalFullMarks > 0
@@ -1461,7 +1572,7 @@ const getSubjectRankings = async (req, res) => {
       batch: batchId,
       subjectName,
       isActive: true
-    }).select('assignedStudents fullMarks');
+    }).select('assignedStudents fullMarks sections');
 
     // Calculate performance for each student
     const studentPerformance = {};
@@ -1474,7 +1585,8 @@ const getSubjectRankings = async (req, res) => {
         totalMarksScored: 0,
         totalFullMarks: 0,
         averagePercentage: 0,
-        testScores: []
+        testScores: [],
+        sectionTotals: {}
       };
     });
 
@@ -1494,6 +1606,10 @@ const getSubjectRankings = async (req, res) => {
             studentPerformance[studentId].totalMarksScored += studentData.marksScored;
             studentPerformance[studentId].totalFullMarks += test.fullMarks;
             studentPerformance[studentId].testScores.push(percentage);
+            addSectionTotals(
+              studentPerformance[studentId].sectionTotals,
+              getSectionBreakdown(test.sections, studentData.questionMarks)
+            );
           }
         }
       });
@@ -1534,7 +1650,8 @@ const getSubjectRankings = async (req, res) => {
         totalFullMarks: performance.totalFullMarks,
         averagePercentage: performance.averagePercentage,
         grade: calculateGrade(performance.averagePercentage),
-        testScores: performance.testScores
+        testScores: performance.testScores,
+        sectionStats: summarizeSectionTotals(performance.sectionTotals)
       });
     });
 
@@ -1654,6 +1771,7 @@ const getStudentInDepthStats = async (req, res) => {
 
     // Calculate comprehensive statistics
     const subjectStats = {};
+    const subjectSectionTotals = {};
     const performanceTrends = [];
     let totalMarksScored = 0;
     let totalFullMarks = 0;
@@ -1679,8 +1797,10 @@ const getStudentInDepthStats = async (req, res) => {
           lowestScore: null,
           scores: [],
           grade: null,
-          improvement: 0
+          improvement: 0,
+          sectionStats: []
         };
+        subjectSectionTotals[test.subjectName] = {};
       }
 
       const subject = subjectStats[test.subjectName];
@@ -1695,6 +1815,10 @@ const getStudentInDepthStats = async (req, res) => {
         subject.totalMarksScored += studentData.marksScored;
         subject.totalFullMarks += test.fullMarks;
         subject.scores.push({ percentage, date: test.createdAt });
+        addSectionTotals(
+          subjectSectionTotals[test.subjectName],
+          getSectionBreakdown(test.sections, studentData.questionMarks)
+        );
 
         totalMarksScored += studentData.marksScored;
         totalFullMarks += test.fullMarks;
@@ -1740,6 +1864,7 @@ const getStudentInDepthStats = async (req, res) => {
           subject.improvement = parseFloat((lastAvg - firstAvg).toFixed(2));
         }
       }
+      subject.sectionStats = summarizeSectionTotals(subjectSectionTotals[subject.subjectName]);
     });
 
     // Identify strengths (top 3 subjects by average)
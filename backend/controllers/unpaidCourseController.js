@@ -3,6 +3,7 @@ const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
 const UnpaidCourse = require('../models/UnpaidCourse'); // Import your model
+const { applyCurriculum, buildResource, sendResourcePdf } = require('../config/curriculum');
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -483,6 +484,171 @@ const deleteVideoFromCourse = async (req, res) => {
   }
 };
 
+// Replace the chapter list and the order of lectures
+const updateCurriculum = async (req, res) => {
+  try {
+    const course = await UnpaidCourse.findById(req.params.id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const curriculumError = applyCurriculum(course, req.body.chapters);
+    if (curriculumError) {
+      return res.status(400).json({
+        success: false,
+        message: curriculumError
+      });
+    }
+
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Curriculum updated successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error updating curriculum:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update curriculum',
+      error: error.message
+    });
+  }
+};
+
+// Attach a notes PDF or a DPP to a lecture
+const addVideoResource = async (req, res) => {
+  try {
+    const { id, videoId } = req.params;
+
+    const course = await UnpaidCourse.findById(id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const video = course.videoLinks.id(videoId);
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found'
+      });
+    }
+
+    const { resource, message } = await buildResource(req.body);
+    if (!resource) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+
+    const alreadyAttached = video.resources.some(existing =>
+      existing.itemId.equals(resource.itemId) && String(existing.pdfId) === String(resource.pdfId)
+    );
+    if (alreadyAttached) {
+      return res.status(400).json({
+        success: false,
+        message: 'This resource is already attached to the video'
+      });
+    }
+
+    video.resources.push(resource);
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Resource attached successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error attaching resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to attach resource',
+      error: error.message
+    });
+  }
+};
+
+const deleteVideoResource = async (req, res) => {
+  try {
+    const { id, videoId, resourceId } = req.params;
+
+    const course = await UnpaidCourse.findById(id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const video = course.videoLinks.id(videoId);
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found'
+      });
+    }
+
+    video.resources.pull(resourceId);
+    const updatedCourse = await course.save();
+
+    res.json({
+      success: true,
+      message: 'Resource removed successfully',
+      data: updatedCourse
+    });
+
+  } catch (error) {
+    console.error('Error removing resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove resource',
+      error: error.message
+    });
+  }
+};
+
+// Stream a lecture's attached PDF to any signed-in student, like the course's videos
+const getVideoResourcePdf = async (req, res) => {
+  try {
+    const { id, videoId, resourceId } = req.params;
+
+    const course = await UnpaidCourse.findById(id);
+    const resource = course?.videoLinks.id(videoId)?.resources.id(resourceId);
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found'
+      });
+    }
+
+    const sent = await sendResourcePdf(resource, res);
+    if (!sent) {
+      return res.status(404).json({
+        success: false,
+        message: 'The attached PDF is no longer available'
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching resource PDF:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch resource PDF',
+      error: error.message
+    });
+  }
+};
+
 // Get courses by category
 const getCoursesByCategory = async (req, res) => {
   try {
@@ -599,6 +765,10 @@ module.exports = {
   addVideoToCourse,
   updateVideoInCourse,
   deleteVideoFromCourse,
+  updateCurriculum,
+  addVideoResource,
+  deleteVideoResource,
+  getVideoResourcePdf,
   enrollStudent,
   getCoursesByCategory,
   getFreeCourses,
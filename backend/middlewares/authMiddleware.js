@@ -1,78 +1,112 @@
 const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const { hasPermission } = require('../config/permissions');
 
-const verifyToken = (req, res, next) => {
+const readToken = (req, allowQueryToken) => {
+  const authHeader = req.header('Authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+  // PDFs opened in a browser or WebView can't send headers, so they pass ?token= instead
+  if (allowQueryToken && req.query.token) {
+    return req.query.token;
+  }
+  return null;
+};
+
+// Build the authentication middleware. Verifies the access token, then loads the
+// account so role changes and deactivation take effect before the token expires.
+// Sets req.user = { id, email, name, role }.
+const authenticate = ({ allowQueryToken = false } = {}) => async (req, res, next) => {
+  const token = readToken(req, allowQueryToken);
+  if (!token) {
+    return res.status(401).json({ success: false, message: 'Access Denied: No token provided or invalid format' });
+  }
+
+  let decoded;
   try {
-    // Get the Authorization header
-    const authHeader = req.header('Authorization');
-    
-    // Check if Authorization header exists and has proper format
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ message: 'Access Denied: No token provided or invalid format' });
-    }
-    
-    // Extract the token
-    const token = authHeader.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ message: 'Access Denied: No token provided' });
-    }
-    
-    // Verify the token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    req.user = decoded;
-    
-    // Add debug information
-    console.log('Token verified successfully for user:', decoded.email);
-    
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
   } catch (error) {
     console.error('Token verification error:', error.message);
-    return res.status(401).json({ message: 'Invalid or expired token' });
+    const message = error.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid or expired token';
+    return res.status(401).json({ success: false, message });
+  }
+
+  try {
+    const account = await User.findById(decoded.id).select('name email role isActive');
+    if (!account || !account.isActive) {
+      return res.status(401).json({ success: false, message: 'Account not found or deactivated' });
+    }
+
+    req.user = {
+      id: account._id.toString(),
+      email: account.email,
+      name: account.name,
+      role: account.role
+    };
+  } catch (error) {
+    console.error('Account lookup error:', error.message);
+    return res.status(500).json({ success: false, message: 'Server error during authentication' });
   }
+
+  next();
 };
 
-const verifyAdmin = (req, res, next) => {
-  verifyToken(req, res, (err) => {
-    // If verifyToken failed, the error response has already been sent
-    if (err) return;
-    
-    if (req.user.role !== 'admin') {
-      console.log('Admin access denied for user:', req.user.email);
-      return res.status(403).json({ message: 'Admin access required' });
+const verifyToken = authenticate();
+
+// Same as verifyToken, but also accepts the token as a ?token= query parameter
+const verifyTokenAllowQuery = authenticate({ allowQueryToken: true });
+
+// Authenticate, then require the user's role to grant at least one of the given
+// permissions (see config/permissions.js).
+// Usage: router.post('/', requirePermission('course:write'), createCourse);
+const requirePermission = (...permissions) => (req, res, next) => {
+  verifyToken(req, res, () => {
+    if (!permissions.some(permission => hasPermission(req.user.role, permission))) {
+      console.log(`Permission ${permissions.join(' | ')} denied for user:`, req.user.email);
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. ${permissions.join(' or ')} permission required.`
+      });
     }
-    
-    console.log('Admin access granted for user:', req.user.email);
     next();
   });
 };
 
-const verifyTeacher = async (req, res, next) => {
+// Resolve whose student records are being read and store it on req.studentId.
+// Students only ever get their own records; parents must name one of their linked
+// children (:studentId or ?studentId); teachers and admins are left unrestricted.
+// Must run after verifyToken.
+const verifyStudentAccess = async (req, res, next) => {
   try {
-    await verifyToken(req, res, () => {
-      if (req.user.role !== 'teacher') {
-        return res.status(403).json({ message: 'Teacher access required' });
+    const requestedId = req.params.studentId || req.query.studentId;
+    const { id, role } = req.user;
+
+    if (role === 'parent') {
+      if (!requestedId) {
+        return res.status(400).json({ success: false, message: 'studentId is required' });
       }
-      next();
-    });
-  } catch (error) {
-    console.error('Teacher verification error:', error);
-    res.status(403).json({ message: 'Teacher access required' });
-  }
-};
 
-// Verify student role
-const verifyStudent = async (req, res, next) => {
-  try {
-    await verifyToken(req, res, () => {
-      if (req.user.role !== 'user') {
-        return res.status(403).json({ message: 'Student access required' });
+      const parent = await User.findById(id).select('children');
+      const isLinked = parent?.children.some(child => child.toString() === requestedId);
+      if (!isLinked) {
+        return res.status(403).json({ success: false, message: 'This student is not linked to your account' });
       }
-      next();
-    });
+
+      req.studentId = requestedId;
+      return next();
+    }
+
+    if (role === 'user' && requestedId && requestedId !== id) {
+      return res.status(403).json({ success: false, message: 'You can only access your own records' });
+    }
+
+    req.studentId = requestedId || id;
+    next();
   } catch (error) {
-    console.error('Student verification error:', error);
-    res.status(403).json({ message: 'Student access required' });
+    console.error('Student access check error:', error);
+    res.status(500).json({ success: false, message: 'Failed to verify access' });
   }
 };
 
-module.exports = { verifyToken, verifyAdmin, verifyTeacher, verifyStudent };
\ No newline at end of file
+module.exports = { verifyToken, verifyTokenAllowQuery, requirePermission, verifyStudentAccess };
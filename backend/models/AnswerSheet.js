@@ -0,0 +1,118 @@
+// models/AnswerSheet.js
+const mongoose = require('mongoose');
+
+// A mark the teacher placed on a page. x and y are fractions of the page's width and height,
+// measured from the top-left corner, so they hold at any zoom or page size.
+const annotationSchema = new mongoose.Schema({
+  page: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  kind: {
+    type: String,
+    enum: ['tick', 'cross', 'comment'],
+    required: true
+  },
+  x: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1
+  },
+  y: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1
+  },
+  text: {
+    type: String,
+    trim: true,
+    maxLength: [300, 'Comments cannot exceed 300 characters'],
+    default: ''
+  }
+}, { _id: false });
+
+const questionMarkSchema = new mongoose.Schema({
+  // e.g. "1", "2(a)"
+  label: {
+    type: String,
+    required: true,
+    trim: true,
+    maxLength: [20, 'Question labels cannot exceed 20 characters']
+  },
+  marks: {
+    type: Number,
+    required: true,
+    min: [0, 'Marks cannot be negative']
+  }
+}, { _id: false });
+
+// A student's handwritten answers for an offline test, kept as one PDF. Photos are merged
+// into the PDF on upload. Stored apart from Test so the test document doesn't grow with
+// every submission.
+const answerSheetSchema = new mongoose.Schema({
+  test: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Test',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  fileData: {
+    type: Buffer,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    enum: ['application/pdf'],
+    default: 'application/pdf'
+  },
+  fileSize: {
+    type: Number,
+    required: true,
+    max: [15 * 1024 * 1024, 'Answer sheet cannot exceed 15MB']
+  },
+  pageCount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  // Whether the student uploaded photos or a ready-made PDF
+  source: {
+    type: String,
+    enum: ['images', 'pdf'],
+    required: true
+  },
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Grading. The annotated PDF is drawn from these on download, so the sheet is stored once.
+  annotations: [annotationSchema],
+  questionMarks: [questionMarkSchema],
+  gradedAt: {
+    type: Date,
+    default: null
+  },
+  gradedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+answerSheetSchema.index({ test: 1, student: 1 }, { unique: true });
+
+module.exports = mongoose.model('AnswerSheet', answerSheetSchema);
@@ -0,0 +1,63 @@
+// models/Bundle.js
+const mongoose = require('mongoose');
+
+// A course sold together with notes and materials for one combined price
+const bundleSchema = new mongoose.Schema({
+  bundleTitle: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  category: {
+    type: String,
+    required: true,
+    enum: ['jee', 'neet', 'boards'],
+    lowercase: true
+  },
+  class: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  courses: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidCourse'
+  }],
+  notes: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidNotes'
+  }],
+  materials: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidMaterials'
+  }],
+  // Combined price in rupees, usually below the sum of the item prices
+  price: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+bundleSchema.path('courses').validate(function() {
+  return this.courses.length + this.notes.length + this.materials.length > 0;
+}, 'A bundle needs at least one course, notes or material');
+
+bundleSchema.index({ category: 1, isActive: 1 });
+
+module.exports = mongoose.model('Bundle', bundleSchema);
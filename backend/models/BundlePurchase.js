@@ -0,0 +1,69 @@
+// models/BundlePurchase.js
+const mongoose = require('mongoose');
+
+// A student's purchase of a bundle. The contents are copied from the bundle when the
+// order is created, so later edits to the bundle don't change what was paid for.
+// On payment it records the Enrollment/PurchasedNotes documents it created.
+const bundlePurchaseSchema = new mongoose.Schema({
+  studentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  bundleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Bundle',
+    required: true
+  },
+  bundleTitle: {
+    type: String,
+    default: ''
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'completed', 'cancelled'],
+    default: 'pending'
+  },
+  courses: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidCourse'
+  }],
+  notes: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidNotes'
+  }],
+  materials: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaidMaterials'
+  }],
+  // Records created when the payment was captured. Items the student already owned are skipped.
+  granted: {
+    enrollments: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Enrollment'
+    }],
+    notesPurchases: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PurchasedNotes'
+    }],
+    materials: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PaidMaterials'
+    }]
+  },
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+bundlePurchaseSchema.index({ studentId: 1, status: 1 });
+
+module.exports = mongoose.model('BundlePurchase', bundlePurchaseSchema);
@@ -0,0 +1,149 @@
+// models/Coupon.js
+const mongoose = require('mongoose');
+
+const ITEM_TYPES = ['PaidCourse', 'UnpaidCourse', 'PaidNotes', 'PaidMaterials', 'Bundle'];
+
+// Checkout never goes below this; Razorpay won't create an order for less than ₹1
+const MIN_PAYABLE_AMOUNT = 1;
+
+const couponSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    maxlength: 30
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  discountType: {
+    type: String,
+    required: true,
+    enum: ['percentage', 'flat']
+  },
+  // Percent (1-100) or rupees, depending on discountType
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  // Cap on a percentage discount, in rupees
+  maxDiscount: {
+    type: Number,
+    default: null
+  },
+  minAmount: {
+    type: Number,
+    default: 0
+  },
+  // Empty lists mean no restriction: a coupon with no scope applies to everything
+  scope: {
+    itemTypes: [{
+      type: String,
+      enum: ITEM_TYPES
+    }],
+    categories: [{
+      type: String,
+      enum: ['jee', 'neet', 'boards'],
+      lowercase: true
+    }],
+    items: [{
+      type: mongoose.Schema.Types.ObjectId
+    }]
+  },
+  validFrom: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  // Total redemptions allowed across all students; null for unlimited
+  usageLimit: {
+    type: Number,
+    default: null
+  },
+  perStudentLimit: {
+    type: Number,
+    default: 1
+  },
+  // Uses held by orders: taken when an order with the coupon is created, given back when
+  // the order fails or is abandoned, and kept once it is paid
+  usedCount: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+couponSchema.path('discountValue').validate(function(value) {
+  return this.discountType !== 'percentage' || value <= 100;
+}, 'Percentage discount cannot exceed 100');
+
+// Why the coupon can't be used right now, or null if it can
+couponSchema.methods.getUnavailableReason = function(now = new Date()) {
+  if (!this.isActive) return 'This coupon is no longer active';
+  if (this.validFrom && this.validFrom > now) return 'This coupon is not active yet';
+  if (this.expiresAt && this.expiresAt <= now) return 'This coupon has expired';
+  if (this.usageLimit !== null && this.usedCount >= this.usageLimit) return 'This coupon has been fully redeemed';
+  return null;
+};
+
+// Take one use for a new order. The limit is checked in the same update, so orders racing
+// for the last use can't both get it. Returns null when the coupon is fully redeemed.
+couponSchema.statics.reserveUse = function(couponId) {
+  return this.findOneAndUpdate(
+    {
+      _id: couponId,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }]
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true }
+  );
+};
+
+couponSchema.statics.releaseUse = function(couponId) {
+  return this.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+};
+
+// Method to check if the coupon covers an item
+couponSchema.methods.appliesTo = function(itemType, item) {
+  const { itemTypes = [], categories = [], items = [] } = this.scope || {};
+
+  if (itemTypes.length && !itemTypes.includes(itemType)) return false;
+  if (categories.length && !categories.includes(item.category)) return false;
+  if (items.length && !items.some(id => id.toString() === item._id.toString())) return false;
+  return true;
+};
+
+// Discount in rupees on a given price, leaving at least MIN_PAYABLE_AMOUNT to pay
+couponSchema.methods.calculateDiscount = function(amount) {
+  let discount = this.discountType === 'percentage'
+    ? (amount * this.discountValue) / 100
+    : this.discountValue;
+
+  if (this.discountType === 'percentage' && this.maxDiscount) {
+    discount = Math.min(discount, this.maxDiscount);
+  }
+
+  discount = Math.min(discount, amount - MIN_PAYABLE_AMOUNT);
+  return Math.max(Math.round(discount * 100) / 100, 0);
+};
+
+couponSchema.index({ isActive: 1, expiresAt: 1 });
+
+module.exports = mongoose.model('Coupon', couponSchema);
@@ -1,6 +1,45 @@
 // models/Enrollment.js
 const mongoose = require('mongoose');
 
+// Share of a video that has to be watched before it counts as completed
+const COMPLETION_THRESHOLD = 0.9;
+
+// Watch time only grows by what could really have played since the last report: the player
+// reports every 10 seconds while playing, at up to 2x speed
+const MAX_PLAYBACK_RATE = 2;
+const MAX_REPORT_GAP_SECONDS = 30;
+
+// One part of an installment plan (see PaidCourse.installmentPlan)
+const installmentSchema = new mongoose.Schema({
+  number: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  dueDate: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'paid'],
+    default: 'pending'
+  },
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
+  paidAt: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
 const enrollmentSchema = new mongoose.Schema({
   studentId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -42,6 +81,31 @@ const enrollmentSchema = new mongoose.Schema({
     paymentMethod: String,
     paidAt: Date
   },
+  paymentPlan: {
+    type: String,
+    enum: ['full', 'installments'],
+    default: 'full'
+  },
+  // Installment plans only; paymentDetails keeps the first installment's payment
+  installments: [installmentSchema],
+  installmentGraceDays: {
+    type: Number,
+    default: 0
+  },
+  // Latest refund request for this record (see RefundRequest)
+  refund: {
+    status: {
+      type: String,
+      enum: ['none', 'requested', 'refunded', 'denied'],
+      default: 'none'
+    },
+    amount: {
+      type: Number,
+      default: 0
+    },
+    requestedAt: Date,
+    processedAt: Date
+  },
   mode: {
     type: String,
     enum: ['online', 'offline', 'hybrid'],
@@ -58,8 +122,22 @@ const enrollmentSchema = new mongoose.Schema({
   },
   expiresAt: {
     type: Date,
-    // Set expiry date if needed (e.g., 1 year from enrollment for paid courses)
+    // Set from the course's validity when a paid course is bought; unset means no expiry
   },
+  // Paid extensions of expiresAt; previousExpiresAt lets a refunded renewal be undone
+  renewals: [{
+    paymentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment',
+      required: true
+    },
+    previousExpiresAt: Date,
+    expiresAt: Date,
+    renewedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   progress: {
     completedVideos: [{
       videoId: {
@@ -75,6 +153,29 @@ const enrollmentSchema = new mongoose.Schema({
         default: 0
       }
     }],
+    // Where each started video was left, for resuming; watchTime is the seconds played so far
+    videoProgress: [{
+      videoId: {
+        type: mongoose.Schema.Types.ObjectId,
+        required: true
+      },
+      lastPosition: {
+        type: Number, // in seconds
+        default: 0
+      },
+      watchTime: {
+        type: Number, // in seconds
+        default: 0
+      },
+      duration: {
+        type: Number, // in seconds, as reported by the player
+        default: 0
+      },
+      updatedAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
     overallProgress: {
       type: Number,
       min: 0,
@@ -94,14 +195,29 @@ const enrollmentSchema = new mongoose.Schema({
   timestamps: true
 });
 
-// Compound index to ensure a student can't enroll in the same course twice
-enrollmentSchema.index({ studentId: 1, courseId: 1 }, { unique: true });
+// Compound index to ensure a student can't enroll in the same course twice. Refunded
+// enrollments are inactive and kept as the refund record, so they don't count; on an existing
+// database drop the old studentId_1_courseId_1 index once so this one can be built.
+enrollmentSchema.index(
+  { studentId: 1, courseId: 1 },
+  { unique: true, name: 'studentId_1_courseId_1_active', partialFilterExpression: { isActive: true } }
+);
 
 // Index for better query performance
 enrollmentSchema.index({ studentId: 1, enrollmentStatus: 1 });
 enrollmentSchema.index({ courseId: 1, enrollmentStatus: 1 });
 enrollmentSchema.index({ paymentStatus: 1 });
 
+// Virtual for an installment left unpaid past its due date and grace period.
+// Access is suspended until it is paid.
+enrollmentSchema.virtual('isSuspended').get(function() {
+  const next = this.getNextInstallment();
+  if (!next || this.enrollmentStatus !== 'enrolled') return false;
+
+  const suspendAt = next.dueDate.getTime() + (this.installmentGraceDays || 0) * 24 * 60 * 60 * 1000;
+  return suspendAt < Date.now();
+});
+
 // Virtual for checking if enrollment is active and not expired
 enrollmentSchema.virtual('isValidEnrollment').get(function() {
   const now = new Date();
@@ -109,7 +225,7 @@ enrollmentSchema.virtual('isValidEnrollment').get(function() {
   const isEnrolled = this.enrollmentStatus === 'enrolled';
   const isActive = this.isActive;
   
-  return isEnrolled && isActive && isNotExpired;
+  return isEnrolled && isActive && isNotExpired && !this.isSuspended;
 });
 
 // Method to mark enrollment as complete (for free courses)
@@ -120,8 +236,9 @@ enrollmentSchema.methods.completeEnrollment = function() {
   return this.save();
 };
 
-// Method to complete payment and enrollment (for paid courses)
-enrollmentSchema.methods.completePayment = function(paymentDetails) {
+// Method to complete payment and enrollment (for paid courses).
+// `expiresAt` comes from the course's validity (null for lifetime); undefined leaves it unset.
+enrollmentSchema.methods.completePayment = function(paymentDetails, expiresAt) {
   this.enrollmentStatus = 'enrolled';
   this.paymentStatus = 'completed';
   this.paymentDetails = {
@@ -131,31 +248,92 @@ enrollmentSchema.methods.completePayment = function(paymentDetails) {
   };
   this.enrolledAt = new Date();
   
-  // Set expiry date for paid courses (e.g., 1 year)
-  if (this.courseType === 'PaidCourse') {
-    this.expiresAt = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year
+  if (expiresAt !== undefined) {
+    this.expiresAt = expiresAt;
   }
   
   return this.save();
 };
 
-// Method to update progress
-enrollmentSchema.methods.updateProgress = function(videoId, watchTime) {
-  const existingProgress = this.progress.completedVideos.find(
-    video => video.videoId.toString() === videoId.toString()
+// When the validity period starts: now, or the last due date for installment plans
+enrollmentSchema.methods.getValidityStart = function() {
+  const lastDueDate = this.installments.length ? this.installments[this.installments.length - 1].dueDate : null;
+  return lastDueDate && lastDueDate > new Date() ? lastDueDate : new Date();
+};
+
+// Extend access after a renewal payment (saved by the caller)
+enrollmentSchema.methods.renew = function(expiresAt, paymentId) {
+  this.renewals.push({ paymentId, previousExpiresAt: this.expiresAt, expiresAt });
+  this.expiresAt = expiresAt;
+  this.enrollmentStatus = 'enrolled';
+};
+
+// The earliest installment still to be paid, or null
+enrollmentSchema.methods.getNextInstallment = function() {
+  return (this.installments || []).find(installment => installment.status === 'pending') || null;
+};
+
+// Record a captured installment payment (saved by the caller)
+enrollmentSchema.methods.markInstallmentPaid = function(number, paymentId) {
+  const installment = this.installments.find(item => item.number === number);
+  if (!installment || installment.status === 'paid') return false;
+
+  installment.status = 'paid';
+  installment.paymentId = paymentId;
+  installment.paidAt = new Date();
+  return true;
+};
+
+// Method to update progress from a player report ({ position, duration } in seconds).
+// Watch time grows by the forward move since the last report, up to what could have played
+// in the time between them, so seeking ahead doesn't count. A video counts as completed once
+// COMPLETION_THRESHOLD of it has been watched, and overallProgress is the share of the
+// course's current videos (courseVideoIds) completed.
+enrollmentSchema.methods.updateProgress = function(videoId, { position, duration }, courseVideoIds) {
+  const sameVideo = video => video.videoId.toString() === videoId.toString();
+  const now = new Date();
+
+  let entry = this.progress.videoProgress.find(sameVideo);
+  const firstReport = !entry;
+  if (firstReport) {
+    this.progress.videoProgress.push({ videoId, updatedAt: now });
+    entry = this.progress.videoProgress[this.progress.videoProgress.length - 1];
+  }
+  if (duration > 0) entry.duration = duration;
+
+  const clampedPosition = Math.max(0, entry.duration > 0 ? Math.min(position, entry.duration) : position);
+  const secondsSinceReport = firstReport
+    ? MAX_REPORT_GAP_SECONDS
+    : Math.min((now - entry.updatedAt) / 1000, MAX_REPORT_GAP_SECONDS);
+  const played = Math.min(
+    Math.max(clampedPosition - entry.lastPosition, 0),
+    secondsSinceReport * MAX_PLAYBACK_RATE
   );
-  
-  if (existingProgress) {
-    existingProgress.watchTime = Math.max(existingProgress.watchTime, watchTime);
-    existingProgress.completedAt = new Date();
-  } else {
+
+  entry.watchTime = entry.duration > 0
+    ? Math.min(entry.watchTime + played, entry.duration)
+    : entry.watchTime + played;
+  entry.lastPosition = clampedPosition;
+  entry.updatedAt = now;
+
+  const completed = this.progress.completedVideos.find(sameVideo);
+  if (completed) {
+    completed.watchTime = Math.max(completed.watchTime, entry.watchTime);
+  } else if (entry.duration > 0 && entry.watchTime >= entry.duration * COMPLETION_THRESHOLD) {
     this.progress.completedVideos.push({
       videoId,
-      watchTime,
+      watchTime: entry.watchTime,
       completedAt: new Date()
     });
   }
-  
+
+  const courseVideos = new Set(courseVideoIds.map(id => id.toString()));
+  const completedCount = this.progress.completedVideos
+    .filter(video => courseVideos.has(video.videoId.toString())).length;
+  this.progress.overallProgress = courseVideos.size
+    ? Math.min(100, Math.round((completedCount / courseVideos.size) * 100))
+    : 0;
+
   this.progress.lastAccessedAt = new Date();
   return this.save();
 };
@@ -179,6 +357,9 @@ enrollmentSchema.statics.isStudentEnrolled = function(studentId, courseId) {
   });
 };
 
+enrollmentSchema.set('toJSON', { virtuals: true });
+enrollmentSchema.set('toObject', { virtuals: true });
+
 const Enrollment = mongoose.model('Enrollment', enrollmentSchema);
 
 module.exports = Enrollment;
\ No newline at end of file
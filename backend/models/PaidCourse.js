@@ -1,6 +1,28 @@
 // models/PaidCourse.js
 const mongoose = require('mongoose');
 
+// A PDF attached to a lecture: one PDF from a notes item, or a DPP's question paper
+const resourceSchema = new mongoose.Schema({
+  itemType: {
+    type: String,
+    enum: ['PaidNotes', 'UnpaidNotes', 'DPP'],
+    required: true
+  },
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  pdfId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: true });
+
 const videoSchema = new mongoose.Schema({
   videoTitle: {
     type: String,
@@ -21,6 +43,26 @@ const videoSchema = new mongoose.Schema({
     type: String,
     required: true,
     trim: true
+  },
+  // Free previews can be watched without enrolling
+  isPreview: {
+    type: Boolean,
+    default: false
+  },
+  // null for lectures not yet placed in a chapter
+  chapterId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  resources: [resourceSchema]
+}, { _id: true });
+
+// Chapters are listed in teaching order; videoLinks is kept in the same order
+const chapterSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true
   }
 }, { _id: true });
 
@@ -98,7 +140,59 @@ const paidCourseSchema = new mongoose.Schema({
     type: courseDetailsSchema,
     required: true
   },
+  chapters: [chapterSchema],
   videoLinks: [videoSchema],
+  // How long a purchase gives access: a number of months, until a fixed date, or for life
+  validity: {
+    kind: {
+      type: String,
+      enum: ['months', 'fixed', 'lifetime'],
+      default: 'months'
+    },
+    months: {
+      type: Number,
+      min: 1,
+      max: 120,
+      default: 12
+    },
+    endDate: {
+      type: Date,
+      default: null
+    },
+    // Charged to extend access; null means the course price
+    renewalPrice: {
+      type: Number,
+      min: 1,
+      default: null
+    }
+  },
+  // Optional installment plan for long programmes. The price is split into equal parts;
+  // the first is paid at enrollment and the rest fall due every `intervalDays`.
+  installmentPlan: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    installments: {
+      type: Number,
+      min: 2,
+      max: 24,
+      default: 2
+    },
+    intervalDays: {
+      type: Number,
+      min: 7,
+      max: 365,
+      default: 30
+    },
+    // Days after a due date before access is suspended
+    gracePeriodDays: {
+      type: Number,
+      min: 0,
+      max: 60,
+      default: 7
+    }
+  },
   courseThumbnail: {
     type: String,
     required: true
@@ -147,6 +241,46 @@ paidCourseSchema.virtual('totalDuration').get(function() {
   }, 0);
 });
 
+// The public catalogue shape: every video is listed, but only free previews keep their link.
+// Enrolled students get the links from GET /api/paidCourses/:id/content.
+paidCourseSchema.methods.toCatalogue = function() {
+  const course = this.toObject();
+  course.videoLinks = course.videoLinks.map(video =>
+    video.isPreview ? video : { ...video, videoLink: '', isLocked: true }
+  );
+  return course;
+};
+
+// When access bought (or renewed) at `from` runs out; null for lifetime access
+paidCourseSchema.methods.getExpiryDate = function(from = new Date()) {
+  const { kind = 'months', months = 12, endDate } = this.validity || {};
+
+  if (kind === 'lifetime') return null;
+  if (kind === 'fixed') return endDate;
+
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+};
+
+paidCourseSchema.methods.getRenewalPrice = function() {
+  return this.validity?.renewalPrice || this.price;
+};
+
+// Installment amounts and due dates for an enrollment starting at `start`.
+// Amounts are split in paise so they add up to the price exactly; the last one takes the remainder.
+paidCourseSchema.methods.getInstallmentSchedule = function(start = new Date()) {
+  const { installments, intervalDays } = this.installmentPlan;
+  const totalPaise = Math.round(this.price * 100);
+  const basePaise = Math.floor(totalPaise / installments);
+
+  return Array.from({ length: installments }, (_, index) => ({
+    number: index + 1,
+    amount: (index === installments - 1 ? totalPaise - basePaise * index : basePaise) / 100,
+    dueDate: new Date(start.getTime() + index * intervalDays * 24 * 60 * 60 * 1000)
+  }));
+};
+
 // Index for better search performance
 paidCourseSchema.index({ category: 1, isActive: 1 });
 paidCourseSchema.index({ courseTitle: 'text', 'courseDetails.description': 'text' });
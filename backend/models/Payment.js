@@ -0,0 +1,145 @@
+// models/Payment.js
+const mongoose = require('mongoose');
+
+// One document per Razorpay order. Courses, notes, materials and bundles all pay through here;
+// `reference` points at the pending Enrollment, PurchasedNotes or BundlePurchase the payment unlocks.
+const paymentSchema = new mongoose.Schema({
+  studentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  itemType: {
+    type: String,
+    required: true,
+    enum: ['PaidCourse', 'UnpaidCourse', 'PaidNotes', 'PaidMaterials', 'Bundle']
+  },
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true,
+    refPath: 'itemType'
+  },
+  itemTitle: {
+    type: String,
+    default: ''
+  },
+  reference: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  // Rupees charged: the item's price when the order is created, less any coupon discount
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  originalAmount: {
+    type: Number,
+    default: null
+  },
+  // 'renewal' extends an existing enrollment instead of buying the course
+  purpose: {
+    type: String,
+    enum: ['purchase', 'renewal'],
+    default: 'purchase'
+  },
+  // Set when this pays one installment of a course (see Enrollment.installments)
+  installmentNumber: {
+    type: Number,
+    default: null
+  },
+  coupon: {
+    couponId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Coupon',
+      default: null
+    },
+    code: {
+      type: String,
+      default: null
+    },
+    discount: {
+      type: Number,
+      default: 0
+    },
+    // Whether this payment holds one of the coupon's uses (see Coupon.usedCount)
+    reserved: {
+      type: Boolean,
+      default: false
+    }
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  },
+  status: {
+    type: String,
+    enum: ['created', 'captured', 'failed', 'refunded'],
+    default: 'created'
+  },
+  receipt: {
+    type: String,
+    required: true
+  },
+  razorpayOrderId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  razorpayPaymentId: {
+    type: String,
+    default: null
+  },
+  razorpaySignature: {
+    type: String,
+    default: null
+  },
+  method: {
+    type: String,
+    default: null
+  },
+  failureReason: {
+    type: String,
+    default: null
+  },
+  capturedAt: {
+    type: Date,
+    default: null
+  },
+  refundedAt: {
+    type: Date,
+    default: null
+  },
+  refundedAmount: {
+    type: Number,
+    default: 0
+  },
+  razorpayRefundId: {
+    type: String,
+    default: null
+  },
+  // Issued once the payment is captured, see config/invoice.js
+  invoiceNumber: {
+    type: String,
+    default: null
+  },
+  invoicedAt: {
+    type: Date,
+    default: null
+  },
+  // Webhook event ids already applied, so redelivered events are ignored
+  processedEvents: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+paymentSchema.index({ studentId: 1, createdAt: -1 });
+paymentSchema.index({ status: 1, createdAt: -1 });
+paymentSchema.index({ razorpayPaymentId: 1 });
+paymentSchema.index({ invoiceNumber: 1 }, { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } });
+paymentSchema.index({ 'coupon.couponId': 1, studentId: 1, status: 1 });
+
+module.exports = mongoose.model('Payment', paymentSchema);
@@ -52,6 +52,20 @@ const purchasedNotesSchema = new mongoose.Schema({
       default: null
     }
   },
+  // Latest refund request for this record (see RefundRequest)
+  refund: {
+    status: {
+      type: String,
+      enum: ['none', 'requested', 'refunded', 'denied'],
+      default: 'none'
+    },
+    amount: {
+      type: Number,
+      default: 0
+    },
+    requestedAt: Date,
+    processedAt: Date
+  },
   accessDetails: {
     grantedAt: {
       type: Date,
@@ -0,0 +1,119 @@
+// models/QuestionBank.js
+const mongoose = require('mongoose');
+const { QUESTION_TYPES } = require('../config/testGrading');
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const EXAM_CATEGORIES = ['jee', 'neet', 'boards'];
+const MAX_IMAGES = 4;
+// Images are stored in the document, which MongoDB caps at 16MB
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const questionImageSchema = new mongoose.Schema({
+  data: {
+    type: Buffer,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: true });
+
+// A reusable question, tagged so it can be found by subject, chapter, topic and difficulty.
+// The answer fields follow the online test questions in models/Test.js.
+const questionBankSchema = new mongoose.Schema({
+  questionType: {
+    type: String,
+    enum: QUESTION_TYPES,
+    required: true
+  },
+  // May contain LaTeX between $...$ (inline) or $$...$$ (display)
+  questionText: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true
+  },
+  images: {
+    type: [questionImageSchema],
+    validate: [
+      {
+        validator: images => images.length <= MAX_IMAGES,
+        message: `A question can have at most ${MAX_IMAGES} images`
+      },
+      {
+        validator: images => images.reduce((total, image) => total + image.size, 0) <= MAX_IMAGE_BYTES,
+        message: `A question's images can add up to at most ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`
+      }
+    ]
+  },
+  options: [{
+    type: String,
+    trim: true
+  }],
+  correctOptions: [{
+    type: Number,
+    min: 0
+  }],
+  correctAnswer: {
+    type: Number,
+    default: null
+  },
+  tolerance: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  solution: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  subject: {
+    type: String,
+    required: [true, 'Subject is required'],
+    trim: true
+  },
+  chapter: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  topic: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  difficulty: {
+    type: String,
+    enum: DIFFICULTIES,
+    default: 'medium'
+  },
+  examCategories: [{
+    type: String,
+    enum: EXAM_CATEGORIES
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+questionBankSchema.index({ subject: 1, chapter: 1, topic: 1 });
+questionBankSchema.index({ difficulty: 1, examCategories: 1 });
+
+module.exports = mongoose.model('QuestionBank', questionBankSchema);
@@ -0,0 +1,78 @@
+// models/RefundRequest.js
+const mongoose = require('mongoose');
+
+// A student's request to refund a paid enrollment or notes purchase, reviewed by an admin.
+// The outcome is also copied onto the record itself (its `refund` field).
+const refundRequestSchema = new mongoose.Schema({
+  studentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recordType: {
+    type: String,
+    required: true,
+    enum: ['Enrollment', 'PurchasedNotes']
+  },
+  recordId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true,
+    refPath: 'recordType'
+  },
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    required: true
+  },
+  itemTitle: {
+    type: String,
+    default: ''
+  },
+  // What the student paid, in rupees
+  paidAmount: {
+    type: Number,
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 1000
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'denied'],
+    default: 'pending'
+  },
+  // Set on approval; may be less than paidAmount for a partial refund
+  refundAmount: {
+    type: Number,
+    default: null
+  },
+  razorpayRefundId: {
+    type: String,
+    default: null
+  },
+  adminNote: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  reviewedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+refundRequestSchema.index({ status: 1, createdAt: -1 });
+refundRequestSchema.index({ studentId: 1, createdAt: -1 });
+refundRequestSchema.index({ recordId: 1, status: 1 });
+
+module.exports = mongoose.model('RefundRequest', refundRequestSchema);
@@ -1,5 +1,120 @@
 const mongoose = require('mongoose');
 
+// Question images are stored in the test document, which MongoDB caps at 16MB
+const MAX_QUESTION_IMAGE_BYTES = 12 * 1024 * 1024;
+
+// An image of an online test question; same shape as the question bank's images
+const questionImageSchema = new mongoose.Schema({
+  data: {
+    type: Buffer,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: true });
+
+// A question in an online test. Single/multiple-correct questions are answered with option
+// indexes; integer and numerical questions with a number.
+const onlineQuestionSchema = new mongoose.Schema({
+  questionType: {
+    type: String,
+    enum: ['single', 'multiple', 'integer', 'numerical'],
+    required: true
+  },
+  questionText: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true
+  },
+  options: [{
+    type: String,
+    trim: true
+  }],
+  correctOptions: [{
+    type: Number,
+    min: 0
+  }],
+  correctAnswer: {
+    type: Number,
+    default: null
+  },
+  // Accepted distance from correctAnswer for numerical questions
+  tolerance: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  marks: {
+    type: Number,
+    required: true,
+    min: [0, 'Marks cannot be negative']
+  },
+  // Deducted for a wrong answer; unattempted questions score 0
+  negativeMarks: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Multiple-correct only: +1 per correct option chosen when no wrong option is chosen
+  partialMarking: {
+    type: Boolean,
+    default: false
+  },
+  solution: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Questions added from the bank are copies, images included, so editing or deleting the
+  // bank question later doesn't change the test; bankQuestion records where it came from
+  images: [questionImageSchema],
+  bankQuestion: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'QuestionBank',
+    default: null
+  }
+}, { _id: true });
+
+// Part of an offline test's question paper (e.g. "Physics" or "Section A") with the maximum
+// marks of each of its questions. Question labels are unique across the whole test.
+const paperSectionSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Section name is required'],
+    trim: true,
+    maxLength: [50, 'Section name cannot exceed 50 characters']
+  },
+  questions: [{
+    _id: false,
+    // e.g. "1", "2(a)"
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxLength: [20, 'Question labels cannot exceed 20 characters']
+    },
+    maxMarks: {
+      type: Number,
+      required: true,
+      min: [0, 'Marks cannot be negative']
+    }
+  }]
+}, { _id: false });
+
 const testSchema = new mongoose.Schema({
   testTitle: {
     type: String,
@@ -141,7 +256,21 @@ const testSchema = new mongoose.Schema({
     evaluatedAt: {
       type: Date,
       default: null // null means not yet evaluated
-    }
+    },
+    // Marks per question of the test's sections; empty when marks were entered as a total
+    questionMarks: [{
+      _id: false,
+      label: {
+        type: String,
+        required: true,
+        trim: true
+      },
+      marks: {
+        type: Number,
+        required: true,
+        min: [0, 'Marks cannot be negative']
+      }
+    }]
   }],
   isActive: {
     type: Boolean,
@@ -160,6 +289,41 @@ const testSchema = new mongoose.Schema({
     type: String,
     trim: true,
     maxLength: [1000, 'Instructions cannot exceed 1000 characters']
+  },
+  // 'offline' tests are written on paper and marked by hand; 'online' tests are taken in the app
+  // and graded automatically
+  testType: {
+    type: String,
+    enum: ['offline', 'online'],
+    default: 'offline'
+  },
+  durationMinutes: {
+    type: Number,
+    min: [1, 'Duration must be at least 1 minute'],
+    max: [600, 'Duration cannot exceed 600 minutes'],
+    default: null
+  },
+  markingScheme: {
+    type: String,
+    enum: ['jee-main', 'jee-advanced', 'neet', 'custom'],
+    default: 'custom'
+  },
+  // Optional marking scheme for offline tests. With it, marks can be entered per question and
+  // reports break each score down by section.
+  sections: {
+    type: [paperSectionSchema],
+    default: []
+  },
+  // Holds the answer key, so it is only loaded where asked for with select('+questions')
+  questions: {
+    type: [onlineQuestionSchema],
+    select: false,
+    validate: {
+      validator: questions => questions
+        .flatMap(question => question.images || [])
+        .reduce((total, image) => total + image.size, 0) <= MAX_QUESTION_IMAGE_BYTES,
+      message: `A test's question images can add up to at most ${MAX_QUESTION_IMAGE_BYTES / (1024 * 1024)}MB`
+    }
   }
 }, {
   timestamps: true
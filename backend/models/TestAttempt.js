@@ -0,0 +1,105 @@
+// models/TestAttempt.js
+const mongoose = require('mongoose');
+
+// Autosave grace for requests that leave the app just before the timer runs out
+const SUBMIT_GRACE_MS = 30 * 1000;
+
+const attemptAnswerSchema = new mongoose.Schema({
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  // Option indexes for single/multiple-correct questions
+  selectedOptions: [{
+    type: Number,
+    min: 0
+  }],
+  // Integer and numerical questions
+  value: {
+    type: Number,
+    default: null
+  },
+  markedForReview: {
+    type: Boolean,
+    default: false
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const questionResultSchema = new mongoose.Schema({
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  marksAwarded: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['correct', 'partial', 'incorrect', 'unattempted'],
+    required: true
+  }
+}, { _id: false });
+
+// One student's timed attempt at an online test. Answers are autosaved while it is in progress;
+// on submission (or once time runs out) it is graded and the score copied to the test.
+const testAttemptSchema = new mongoose.Schema({
+  test: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Test',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'submitted'],
+    default: 'in_progress'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // The duration from the start, cut short by the test's due date
+  endsAt: {
+    type: Date,
+    required: true
+  },
+  answers: [attemptAnswerSchema],
+  submittedAt: {
+    type: Date,
+    default: null
+  },
+  // True when the timer ran out rather than the student submitting
+  autoSubmitted: {
+    type: Boolean,
+    default: false
+  },
+  // Raw total, which can be negative; the test's marksScored is floored at 0
+  score: {
+    type: Number,
+    default: null
+  },
+  results: [questionResultSchema]
+}, {
+  timestamps: true
+});
+
+testAttemptSchema.index({ test: 1, student: 1 }, { unique: true });
+testAttemptSchema.index({ student: 1, status: 1 });
+
+testAttemptSchema.virtual('isTimeUp').get(function() {
+  return Date.now() > this.endsAt.getTime() + SUBMIT_GRACE_MS;
+});
+
+testAttemptSchema.set('toJSON', { virtuals: true });
+testAttemptSchema.set('toObject', { virtuals: true });
+
+module.exports = mongoose.model('TestAttempt', testAttemptSchema);
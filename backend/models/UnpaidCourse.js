@@ -1,6 +1,28 @@
 // models/UnpaidCourse.js
 const mongoose = require('mongoose');
 
+// A PDF attached to a lecture: one PDF from a notes item, or a DPP's question paper
+const resourceSchema = new mongoose.Schema({
+  itemType: {
+    type: String,
+    enum: ['PaidNotes', 'UnpaidNotes', 'DPP'],
+    required: true
+  },
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  pdfId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: true });
+
 const videoSchema = new mongoose.Schema({
   videoTitle: {
     type: String,
@@ -21,6 +43,21 @@ const videoSchema = new mongoose.Schema({
     type: String,
     required: true,
     trim: true
+  },
+  // null for lectures not yet placed in a chapter
+  chapterId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  resources: [resourceSchema]
+}, { _id: true });
+
+// Chapters are listed in teaching order; videoLinks is kept in the same order
+const chapterSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true
   }
 }, { _id: true });
 
@@ -99,6 +136,7 @@ const unpaidCourseSchema = new mongoose.Schema({
     type: courseDetailsSchema,
     required: true
   },
+  chapters: [chapterSchema],
   videoLinks: [videoSchema],
   courseThumbnail: {
     type: String,
@@ -24,12 +24,50 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['user', 'admin', 'teacher'],
+    enum: ['user', 'admin', 'teacher', 'parent'],
     default: 'user'
   },
+  // Students a parent account can follow (read-only); empty for every other role
+  children: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  phone: {
+    type: String,
+    trim: true,
+    default: '',
+    match: [/^(\+?\d{10,15})?$/, 'Please provide a valid phone number']
+  },
+  class: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  examCategory: {
+    type: String,
+    enum: ['jee', 'neet', 'boards', null],
+    lowercase: true,
+    default: null
+  },
+  // Path under /uploads, served by the static uploads route
+  avatar: {
+    type: String,
+    default: ''
+  },
+  // Deactivated accounts can't sign in and their tokens are rejected
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  deactivatedAt: {
+    type: Date,
+    default: null
+  },
 }, {
   timestamps: true
 });
 
+userSchema.index({ role: 1, createdAt: -1 });
+
 const User = mongoose.model('User', userSchema);
 module.exports = User;
\ No newline at end of file
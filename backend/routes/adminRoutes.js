@@ -0,0 +1,32 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getUsers,
+  getUserById,
+  updateUserRole,
+  updateUserStatus,
+  resetUserPassword
+} = require('../controllers/adminController');
+const {
+  getRevenueAnalytics,
+  getSalesAnalytics,
+  getConversionAnalytics
+} = require('../controllers/analyticsController');
+const { requirePermission } = require('../middlewares/authMiddleware');
+
+// ADMIN ROUTES
+// User management
+// Query params: ?search=&role=user|teacher|admin|parent&status=active|inactive&page=1&limit=20
+router.get('/users', requirePermission('user:manage'), getUsers);
+router.get('/users/:id', requirePermission('user:manage'), getUserById);
+router.patch('/users/:id/role', requirePermission('user:manage'), updateUserRole);
+router.patch('/users/:id/status', requirePermission('user:manage'), updateUserStatus);
+router.post('/users/:id/reset-password', requirePermission('user:manage'), resetUserPassword);
+
+// Revenue and sales analytics
+// Query params: ?from=YYYY-MM-DD&to=YYYY-MM-DD (defaults to the last 30 days)
+router.get('/analytics/revenue', requirePermission('analytics:read'), getRevenueAnalytics); // &groupBy=day|month
+router.get('/analytics/sales', requirePermission('analytics:read'), getSalesAnalytics); // &limit=10
+router.get('/analytics/conversion', requirePermission('analytics:read'), getConversionAnalytics); // ?limit=20, lifetime
+
+module.exports = router;
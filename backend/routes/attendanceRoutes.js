@@ -9,39 +9,31 @@ const {
   getStudentAttendanceRecords,
   getAllAttendanceData
 } = require('../controllers/attendanceController');
-const { verifyToken, verifyTeacher, verifyStudent, verifyAdmin } = require('../middlewares/authMiddleware');
+const { verifyToken, requirePermission, verifyStudentAccess } = require('../middlewares/authMiddleware');
 
 // ADMIN & TEACHER ROUTES
 // Get comprehensive attendance data for all students
 // Query params: ?batchId=xxx&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD (all optional)
-router.get('/comprehensive', verifyToken, async (req, res, next) => {
-  // Allow both admin and teacher roles
-  if (req.user.role === 'admin' || req.user.role === 'teacher') {
-    return next();
-  }
-  return res.status(403).json({ 
-    success: false, 
-    message: 'Access denied. Admin or Teacher role required.' 
-  });
-}, getAllAttendanceData);
+router.get('/comprehensive', requirePermission('attendance:read-all'), getAllAttendanceData);
+
 // TEACHER ROUTES
 // Mark attendance (Teacher only)
-router.post('/mark', verifyTeacher, markAttendance);
+router.post('/mark', requirePermission('attendance:mark'), markAttendance);
 
 // Get students for attendance marking
-router.get('/students/:batchId/:subject', verifyTeacher, getStudentsForAttendance);
+router.get('/students/:batchId/:subject', requirePermission('attendance:mark'), getStudentsForAttendance);
 
 // Get attendance for specific date and subject
-router.get('/date/:batchId/:subject/:date', verifyTeacher, getAttendanceByDate);
+router.get('/date/:batchId/:subject/:date', requirePermission('attendance:mark'), getAttendanceByDate);
 
 // Get all attendance records for a subject (with optional date range)
-router.get('/subject/:batchId/:subject', verifyTeacher, getSubjectAttendance);
+router.get('/subject/:batchId/:subject', requirePermission('attendance:mark'), getSubjectAttendance);
 
 // Get student attendance statistics
-router.get('/stats/:batchId/:subject/:studentId', verifyTeacher, getStudentStats);
+router.get('/stats/:batchId/:subject/:studentId', requirePermission('attendance:mark'), getStudentStats);
 
-// STUDENT ROUTES
-// Get student's own attendance records
-router.get('/student-records', verifyToken, getStudentAttendanceRecords);
+// STUDENT & PARENT ROUTES
+// Get student's own attendance records (parents pass ?studentId=<linked child>)
+router.get('/student-records', verifyToken, verifyStudentAccess, getStudentAttendanceRecords);
 
 module.exports = router;
\ No newline at end of file
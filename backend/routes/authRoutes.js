@@ -6,9 +6,15 @@ const { verifyToken } = require('../middlewares/authMiddleware');
 // Public routes
 router.post('/register', authController.registerUser);
 router.post('/login', authController.loginUser);
+router.post('/refresh', authController.refreshToken);
+router.post('/logout', authController.logoutUser);
+router.post('/forgot-password', authController.forgotPassword);
+router.post('/reset-password', authController.resetPassword);
 
 // Protected routes
 router.get('/me', verifyToken, authController.getCurrentUser);
+router.put('/me', verifyToken, authController.avatarUpload.single('avatar'), authController.updateProfile);
+router.put('/me/password', verifyToken, authController.changePassword);
 router.get('/verify-token', verifyToken, authController.verifyToken);
 
 
@@ -21,31 +21,31 @@ const {
   getTeachersWithAssignments
 } = require('../controllers/batchController');
 
-const { verifyToken, verifyAdmin } = require('../middlewares/authMiddleware');
+const { verifyToken, requirePermission } = require('../middlewares/authMiddleware');
 
 // Admin-only routes
-router.post('/', verifyAdmin, createBatch);
-router.put('/:id', verifyAdmin, updateBatch);
-router.delete('/:id', verifyAdmin, deleteBatch);
+router.post('/', requirePermission('batch:manage'), createBatch);
+router.put('/:id', requirePermission('batch:manage'), updateBatch);
+router.delete('/:id', requirePermission('batch:manage'), deleteBatch);
 
 // Student assignment routes (Admin only) - FIXED
-router.post('/:id/assign-students', verifyAdmin, assignStudentsToBatch);
-router.post('/:id/assign-students-enhanced', verifyAdmin, assignStudentsEnhanced);
+router.post('/:id/assign-students', requirePermission('batch:manage'), assignStudentsToBatch);
+router.post('/:id/assign-students-enhanced', requirePermission('batch:manage'), assignStudentsEnhanced);
 // FIXED: Changed to POST to match frontend expectation
-router.post('/:id/remove-students', verifyAdmin, removeStudentsFromBatch);
+router.post('/:id/remove-students', requirePermission('batch:manage'), removeStudentsFromBatch);
 
 // Teacher assignment routes (Admin only)
-router.post('/:id/assign-teachers-enhanced', verifyAdmin, assignTeachersEnhanced);
-router.put('/:id/subjects/:subjectId/assign-teacher', verifyAdmin, assignTeacherToSubject);
+router.post('/:id/assign-teachers-enhanced', requirePermission('batch:manage'), assignTeachersEnhanced);
+router.put('/:id/subjects/:subjectId/assign-teacher', requirePermission('batch:manage'), assignTeacherToSubject);
 
 // Enhanced management routes (Admin only)
-router.get('/:batchId/students-assignments', verifyAdmin, getStudentsWithAssignments);
-router.get('/:batchId/teachers-assignments', verifyAdmin, getTeachersWithAssignments);
-router.get('/:id/statistics', verifyAdmin, getBatchStatistics);
+router.get('/:batchId/students-assignments', requirePermission('batch:manage'), getStudentsWithAssignments);
+router.get('/:batchId/teachers-assignments', requirePermission('batch:manage'), getTeachersWithAssignments);
+router.get('/:id/statistics', requirePermission('batch:manage'), getBatchStatistics);
 
 // Get users for assignment (Admin only)
-router.get('/eligible-students', verifyAdmin, getEligibleStudents);
-router.get('/all-teachers', verifyAdmin, getAllTeachers);
+router.get('/eligible-students', requirePermission('batch:manage'), getEligibleStudents);
+router.get('/all-teachers', requirePermission('batch:manage'), getAllTeachers);
 
 // Public routes (authenticated users)
 router.get('/', verifyToken, getAllBatches);
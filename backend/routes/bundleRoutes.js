@@ -0,0 +1,30 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getBundles,
+  getBundleById,
+  purchaseBundle,
+  getMyBundles,
+  getAllBundles,
+  createBundle,
+  updateBundle,
+  deleteBundle
+} = require('../controllers/bundleController');
+const { verifyToken, requirePermission } = require('../middlewares/authMiddleware');
+
+// STUDENT ROUTES
+router.get('/', getBundles);
+router.get('/my', verifyToken, getMyBundles);
+// Body: { couponCode? }. Verify the returned order through /api/payments/verify.
+router.post('/:id/purchase', verifyToken, purchaseBundle);
+
+// ADMIN ROUTES
+// Query params: ?category=&isActive=true|false&page=1&limit=20
+router.get('/admin/all', requirePermission('bundle:write'), getAllBundles);
+router.post('/', requirePermission('bundle:write'), createBundle);
+router.put('/:id', requirePermission('bundle:write'), updateBundle);
+router.delete('/:id', requirePermission('bundle:write'), deleteBundle);
+
+router.get('/:id', getBundleById);
+
+module.exports = router;
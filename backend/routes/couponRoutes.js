@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const {
+  validateCoupon,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  updateCouponStatus
+} = require('../controllers/couponController');
+const { verifyToken, requirePermission } = require('../middlewares/authMiddleware');
+
+// STUDENT ROUTES
+// Body: { code, itemType, itemId }. Orders re-check the coupon, so this is only a preview.
+router.post('/validate', verifyToken, validateCoupon);
+
+// ADMIN ROUTES
+// Query params: ?status=active|inactive|expired&search=&page=1&limit=20
+router.get('/', requirePermission('coupon:manage'), getCoupons);
+router.post('/', requirePermission('coupon:manage'), createCoupon);
+router.put('/:id', requirePermission('coupon:manage'), updateCoupon);
+router.patch('/:id/status', requirePermission('coupon:manage'), updateCouponStatus);
+
+module.exports = router;
@@ -15,10 +15,11 @@ const {
   toggleAnswerAccessibility,
   pdfUpload
 } = require('../controllers/dppController');
+const { requirePermission } = require('../middlewares/authMiddleware');
 
 // Admin routes (require admin authentication)
 // Create DPP with both question and answer PDFs
-router.post('/', (req, res, next) => {
+router.post('/', requirePermission('dpp:write'), (req, res, next) => {
   pdfUpload.fields([
     { name: 'questionPDF', maxCount: 1 },
     { name: 'answerPDF', maxCount: 1 }
@@ -35,7 +36,7 @@ router.post('/', (req, res, next) => {
 }, createDPP);
 
 // Update DPP with optional file updates
-router.put('/:id', (req, res, next) => {
+router.put('/:id', requirePermission('dpp:write'), (req, res, next) => {
   pdfUpload.fields([
     { name: 'questionPDF', maxCount: 1 },
     { name: 'answerPDF', maxCount: 1 }
@@ -52,10 +53,10 @@ router.put('/:id', (req, res, next) => {
 }, updateDPP);
 
 // Delete DPP
-router.delete('/:id', deleteDPP);
+router.delete('/:id', requirePermission('dpp:write'), deleteDPP);
 
 // Toggle answer accessibility (Admin only)
-router.patch('/:id/toggle-answer', toggleAnswerAccessibility);
+router.patch('/:id/toggle-answer', requirePermission('dpp:write'), toggleAnswerAccessibility);
 
 // Public routes (accessible by users)
 // Get all DPPs with filters
@@ -4,6 +4,8 @@ const router = express.Router();
 const {
   enrollInCourse,
   verifyPaymentAndEnroll,
+  payNextInstallment,
+  renewEnrollment,
   getStudentEnrollments,
   getEnrollmentDetails,
   updateVideoProgress,
@@ -12,10 +14,10 @@ const {
 } = require('../controllers/enrollmentController');
 
 // Import authentication middleware
-const { authenticateUser } = require('../middlewares/auth');
+const { verifyToken } = require('../middlewares/authMiddleware');
 
 // Apply authentication middleware to all routes
-router.use(authenticateUser);
+router.use(verifyToken);
 
 // Enroll in a course
 router.post('/enroll', enrollInCourse);
@@ -32,6 +34,12 @@ router.get('/:enrollmentId', getEnrollmentDetails);
 // Update video progress
 router.put('/:enrollmentId/progress', updateVideoProgress);
 
+// Start checkout for the next installment (installment plans)
+router.post('/:enrollmentId/installments/next', payNextInstallment);
+
+// Start checkout to extend access to a paid course
+router.post('/:enrollmentId/renew', renewEnrollment);
+
 // Cancel enrollment (for pending enrollments)
 router.delete('/:enrollmentId/cancel', cancelEnrollment);
 
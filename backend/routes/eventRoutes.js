@@ -9,18 +9,18 @@ const {
   getStudentEvents
 } = require('../controllers/eventController');
 
-const { verifyToken } = require('../middlewares/authMiddleware');
+const { verifyToken, requirePermission, verifyStudentAccess } = require('../middlewares/authMiddleware');
 
 // Teacher routes (only teachers can create/update/delete events)
-router.post('/events', verifyToken, createEvent);
-router.put('/events/:eventId', verifyToken, updateEvent);
-router.delete('/events/:eventId', verifyToken, deleteEvent);
+router.post('/events', requirePermission('event:write'), createEvent);
+router.put('/events/:eventId', requirePermission('event:write'), updateEvent);
+router.delete('/events/:eventId', requirePermission('event:write'), deleteEvent);
 
 // Get teacher's all events
 router.get('/teacher/my-events', verifyToken, getTeacherEvents);
 
-// Get student's all events from assigned batches
-router.get('/student/my-events', verifyToken, getStudentEvents);
+// Get student's all events from assigned batches (parents pass ?studentId=<linked child>)
+router.get('/student/my-events', verifyToken, verifyStudentAccess, getStudentEvents);
 
 // Get events for a specific batch (both teachers and students can access)
 router.get('/events/:batchId', verifyToken, getBatchEvents);
@@ -16,15 +16,16 @@ const {
   getStudentPurchasedMaterials,
   photoUpload
 } = require('../controllers/paidMaterialsController');
+const { verifyToken, requirePermission, verifyStudentAccess } = require('../middlewares/authMiddleware');
 
 // Admin routes (require admin authentication)
-router.post('/', photoUpload.array('photos', 10), createMaterial); // Allow up to 10 photos
-router.put('/:id', photoUpload.array('photos', 10), updateMaterial);
-router.delete('/:id', deleteMaterial);
+router.post('/', requirePermission('material:write'), photoUpload.array('photos', 10), createMaterial); // Allow up to 10 photos
+router.put('/:id', requirePermission('material:write'), photoUpload.array('photos', 10), updateMaterial);
+router.delete('/:id', requirePermission('material:write'), deleteMaterial);
 
 // Photo management routes (Admin only)
-router.post('/:id/photos', photoUpload.single('photo'), addPhotoToMaterial);
-router.delete('/:id/photos/:photoId', deletePhotoFromMaterial);
+router.post('/:id/photos', requirePermission('material:write'), photoUpload.single('photo'), addPhotoToMaterial);
+router.delete('/:id/photos/:photoId', requirePermission('material:write'), deletePhotoFromMaterial);
 
 // Public routes (accessible by users)
 router.get('/', getAllMaterials);
@@ -36,9 +37,9 @@ router.get('/:id/photos/:photoId', getMaterialPhoto);
 
 // User interaction routes
 router.post('/:id/view', incrementViewCount);
-router.post('/:id/purchase', purchaseMaterial);
+router.post('/:id/purchase', requirePermission('material:write'), purchaseMaterial);
 
 // Student purchase history
-router.get('/student/:studentId/purchased', getStudentPurchasedMaterials);
+router.get('/student/:studentId/purchased', verifyToken, verifyStudentAccess, getStudentPurchasedMaterials);
 
 module.exports = router;
\ No newline at end of file
@@ -19,15 +19,15 @@ const {
 } = require('../controllers/paidNotesController');
 
 // Import authentication middleware
-const { authenticateUser } = require('../middlewares/auth');
+const { verifyToken, requirePermission } = require('../middlewares/authMiddleware');
 
 // Admin routes (require admin authentication)
-router.post('/', thumbnailUpload.single('thumbnail'), createNotes);
-router.put('/:id', thumbnailUpload.single('thumbnail'), updateNotes);
-router.delete('/:id', deleteNotes);
+router.post('/', requirePermission('notes:write'), thumbnailUpload.single('thumbnail'), createNotes);
+router.put('/:id', requirePermission('notes:write'), thumbnailUpload.single('thumbnail'), updateNotes);
+router.delete('/:id', requirePermission('notes:write'), deleteNotes);
 
 // PDF management routes (Admin only)
-router.post('/:id/pdfs', (req, res, next) => {
+router.post('/:id/pdfs', requirePermission('notes:write'), (req, res, next) => {
   pdfUpload.single('pdf')(req, res, (err) => {
     if (err) {
       console.error('Multer error:', err);
@@ -40,8 +40,8 @@ router.post('/:id/pdfs', (req, res, next) => {
   });
 }, addPDFToNotes);
 
-router.put('/:id/pdfs/:pdfId', pdfUpload.single('pdf'), updatePDFInNotes);
-router.delete('/:id/pdfs/:pdfId', deletePDFFromNotes);
+router.put('/:id/pdfs/:pdfId', requirePermission('notes:write'), pdfUpload.single('pdf'), updatePDFInNotes);
+router.delete('/:id/pdfs/:pdfId', requirePermission('notes:write'), deletePDFFromNotes);
 
 // Public routes (accessible by users)
 router.get('/', getAllNotes);
@@ -52,7 +52,7 @@ router.get('/:id', getNotesById);
 router.get('/:id/thumbnail', getThumbnail);
 // PDF access route - authentication optional for free notes, required for paid notes
 // Access control is handled inside the getPDF controller function
-router.get('/:id/pdfs/:pdfId', authenticateUser, getPDF);
+router.get('/:id/pdfs/:pdfId', verifyToken, getPDF);
 
 // User interaction routes
 router.post('/:id/view', incrementViewCount);
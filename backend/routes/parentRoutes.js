@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getMyChildren,
+  getAllParents,
+  createParent,
+  updateParentChildren
+} = require('../controllers/parentController');
+const { requirePermission } = require('../middlewares/authMiddleware');
+
+// PARENT ROUTES
+// Students linked to the signed-in parent; their records are read through the
+// attendance, tests and calendar routes with the child's studentId
+router.get('/my-children', requirePermission('children:read'), getMyChildren);
+
+// ADMIN ROUTES
+router.get('/', requirePermission('user:manage'), getAllParents);
+router.post('/', requirePermission('user:manage'), createParent);
+router.put('/:parentId/children', requirePermission('user:manage'), updateParentChildren);
+
+module.exports = router;
@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const {
+  createOrder,
+  verifyPayment,
+  handleWebhook,
+  getMyPayments,
+  getInvoice
+} = require('../controllers/paymentController');
+const { verifyToken } = require('../middlewares/authMiddleware');
+
+// RAZORPAY WEBHOOK (authenticated by its X-Razorpay-Signature header, not a user token)
+router.post('/webhook', handleWebhook);
+
+// STUDENT ROUTES
+router.post('/orders', verifyToken, createOrder);
+router.post('/verify', verifyToken, verifyPayment);
+// Query params: ?status=created|captured|failed|refunded (comma-separated for several)&page=1&limit=20
+router.get('/my-payments', verifyToken, getMyPayments);
+// PDF download; admins with payment:manage can fetch any student's invoice
+router.get('/:id/invoice', verifyToken, getInvoice);
+
+module.exports = router;
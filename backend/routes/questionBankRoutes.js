@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+const {
+  uploadImages,
+  getQuestions,
+  getQuestionTags,
+  getQuestionById,
+  getQuestionImage,
+  createQuestion,
+  updateQuestion,
+  deleteQuestion
+} = require('../controllers/questionBankController');
+const { requirePermission } = require('../middlewares/authMiddleware');
+
+// ADMIN & TEACHER ROUTES
+// Query params: ?search=&subject=&chapter=&topic=&difficulty=&examCategory=&questionType=&mine=true&page=1&limit=20
+router.get('/', requirePermission('question:write'), getQuestions);
+router.get('/tags', requirePermission('question:write'), getQuestionTags);
+router.get('/:id', requirePermission('question:write'), getQuestionById);
+router.get('/:id/images/:imageId', requirePermission('question:write'), getQuestionImage);
+router.post('/', requirePermission('question:write'), uploadImages, createQuestion);
+router.put('/:id', requirePermission('question:write'), uploadImages, updateQuestion);
+router.delete('/:id', requirePermission('question:write'), deleteQuestion);
+
+module.exports = router;
@@ -0,0 +1,22 @@
+const express = require('express');
+const router = express.Router();
+const {
+  requestRefund,
+  getMyRefunds,
+  getRefunds,
+  approveRefund,
+  denyRefund
+} = require('../controllers/refundController');
+const { verifyToken, requirePermission } = require('../middlewares/authMiddleware');
+
+// STUDENT ROUTES
+router.post('/', verifyToken, requestRefund);
+router.get('/my-refunds', verifyToken, getMyRefunds);
+
+// ADMIN ROUTES
+// Query params: ?status=pending|approved|denied&page=1&limit=20
+router.get('/', requirePermission('payment:manage'), getRefunds);
+router.patch('/:id/approve', requirePermission('payment:manage'), approveRefund);
+router.patch('/:id/deny', requirePermission('payment:manage'), denyRefund);
+
+module.exports = router;
@@ -1,9 +1,9 @@
 const express = require('express');
 const router = express.Router();
 const { getStudentAttendanceRecords } = require('../controllers/attendanceController');
-const { verifyToken } = require('../middlewares/authMiddleware');
+const { verifyToken, verifyStudentAccess } = require('../middlewares/authMiddleware');
 
-// Get student's own attendance records
-router.get('/attendance-records', verifyToken, getStudentAttendanceRecords);
+// Get student's own attendance records (parents pass ?studentId=<linked child>)
+router.get('/attendance-records', verifyToken, verifyStudentAccess, getStudentAttendanceRecords);
 
 module.exports = router;
\ No newline at end of file
@@ -20,39 +20,88 @@ const {
   getSubjectRankings,
   getStudentInDepthStats
 } = require('../controllers/testController');
+const {
+  getOnlineTestQuestions,
+  updateOnlineTestQuestions,
+  addBankQuestions,
+  getTeacherQuestionImage,
+  getTestAttempts,
+  getStudentOnlineTests,
+  startAttempt,
+  getAttempt,
+  saveAttemptAnswers,
+  submitAttempt,
+  getStudentQuestionImage
+} = require('../controllers/testAttemptController');
+const {
+  uploadPages,
+  submitAnswerSheet,
+  downloadOwnAnswerSheet,
+  downloadOwnAnnotatedAnswerSheet,
+  downloadStudentAnswerSheet,
+  downloadStudentAnnotatedAnswerSheet,
+  getAnswerSheetGrading,
+  saveAnswerSheetGrading
+} = require('../controllers/answerSheetController');
 
 // Import authentication middleware
-const { verifyToken, verifyTeacher, verifyStudent } = require('../middlewares/authMiddleware');
+const { verifyToken, requirePermission, verifyStudentAccess } = require('../middlewares/authMiddleware');
 
 // ====== TEACHER ROUTES ======
 // All teacher routes are prefixed with /teacher and require teacher authentication
 
 // Teacher Test CRUD operations
-router.post('/teacher/', verifyTeacher, upload, createTest);
-router.get('/teacher/my-tests', verifyTeacher, getTeacherTests);
-router.get('/teacher/batch/:batchId/subject/:subjectName', verifyTeacher, getBatchSubjectTests);
-router.put('/teacher/:id', verifyTeacher, upload, updateTest);
-router.delete('/teacher/:id', verifyTeacher, deleteTest);
+router.post('/teacher/', requirePermission('test:manage'), upload, createTest);
+router.get('/teacher/my-tests', requirePermission('test:manage'), getTeacherTests);
+router.get('/teacher/batch/:batchId/subject/:subjectName', requirePermission('test:manage'), getBatchSubjectTests);
+router.put('/teacher/:id', requirePermission('test:manage'), upload, updateTest);
+router.delete('/teacher/:id', requirePermission('test:manage'), deleteTest);
 
 // Teacher Student Management
-router.put('/teacher/:id/marks', verifyTeacher, updateStudentMarks);
-router.get('/teacher/batch/:batchId/class/:className/subject/:subjectName/students', verifyTeacher, getAvailableStudentsForTest);
+router.put('/teacher/:id/marks', requirePermission('test:manage'), updateStudentMarks);
+router.get('/teacher/batch/:batchId/class/:className/subject/:subjectName/students', requirePermission('test:manage'), getAvailableStudentsForTest);
 
 // Teacher PDF Downloads
-router.get('/teacher/:id/pdf/:type', verifyTeacher, downloadPdf);
+router.get('/teacher/:id/pdf/:type', requirePermission('test:manage'), downloadPdf);
 
 // Teacher Batch/Subject Management
-router.get('/teacher/batch/:batchId/subjects', verifyTeacher, getTeacherSubjectsForBatch);
+router.get('/teacher/batch/:batchId/subjects', requirePermission('test:manage'), getTeacherSubjectsForBatch);
+
+// Teacher Online Tests
+router.get('/teacher/:id/questions', requirePermission('test:manage'), getOnlineTestQuestions);
+router.put('/teacher/:id/questions', requirePermission('test:manage'), updateOnlineTestQuestions);
+router.post('/teacher/:id/questions/from-bank', requirePermission('test:manage'), addBankQuestions);
+router.get('/teacher/:id/questions/:questionId/images/:imageId', requirePermission('test:manage'), getTeacherQuestionImage);
+router.get('/teacher/:id/attempts', requirePermission('test:manage'), getTestAttempts);
+
+// Teacher Answer Sheets
+router.get('/teacher/:id/answer-sheets/:studentId', requirePermission('test:manage'), downloadStudentAnswerSheet);
+router.get('/teacher/:id/answer-sheets/:studentId/annotated', requirePermission('test:manage'), downloadStudentAnnotatedAnswerSheet);
+router.get('/teacher/:id/answer-sheets/:studentId/grading', requirePermission('test:manage'), getAnswerSheetGrading);
+router.put('/teacher/:id/answer-sheets/:studentId/grading', requirePermission('test:manage'), saveAnswerSheetGrading);
 
 // ====== STUDENT ROUTES ======
 // All student routes are prefixed with /student and require student authentication
 
 // Student Reports
-router.get('/student/subject-reports', verifyStudent, getStudentSubjectReports);
+router.get('/student/subject-reports', requirePermission('test:take'), getStudentSubjectReports);
 
 // Student PDF Downloads
-router.get('/student/test/:id/question-pdf', verifyStudent, downloadQuestionPdfForStudent);
-router.get('/student/test/:id/answer-pdf', verifyStudent, downloadAnswerPdfForStudent);
+router.get('/student/test/:id/question-pdf', requirePermission('test:take'), downloadQuestionPdfForStudent);
+router.get('/student/test/:id/answer-pdf', requirePermission('test:take'), downloadAnswerPdfForStudent);
+
+// Student Online Tests
+router.get('/student/online-tests', requirePermission('test:take'), getStudentOnlineTests);
+router.post('/student/test/:id/attempt', requirePermission('test:take'), startAttempt);
+router.get('/student/test/:id/attempt', requirePermission('test:take'), getAttempt);
+router.put('/student/test/:id/attempt', requirePermission('test:take'), saveAttemptAnswers);
+router.post('/student/test/:id/attempt/submit', requirePermission('test:take'), submitAttempt);
+router.get('/student/test/:id/questions/:questionId/images/:imageId', requirePermission('test:take'), getStudentQuestionImage);
+
+// Student Answer Sheets (offline tests)
+router.post('/student/test/:id/answer-sheet', requirePermission('test:take'), uploadPages, submitAnswerSheet);
+router.get('/student/test/:id/answer-sheet', requirePermission('test:take'), downloadOwnAnswerSheet);
+router.get('/student/test/:id/answer-sheet/annotated', requirePermission('test:take'), downloadOwnAnnotatedAnswerSheet);
 
 // ====== USER ROUTES ======
 // These routes check user authentication and work for both teachers and students
@@ -63,39 +112,39 @@ router.get('/user/comprehensive-reports', verifyToken, getComprehensiveUserRepor
 // Multi-role access routes for detailed reports
 
 // Get detailed report card for a specific student
-// Accessible by: Teacher (their subjects), Admin (all), Student (own)
-router.get('/reports/student/:studentId/report-card', verifyToken, getStudentReportCard);
+// Accessible by: Teacher (their subjects), Admin (all), Student (own), Parent (linked children)
+router.get('/reports/student/:studentId/report-card', verifyToken, verifyStudentAccess, getStudentReportCard);
 
 // Get monthly test results for a student
 // Query params: ?year=2024&month=10 (optional)
-router.get('/reports/student/:studentId/monthly', verifyToken, getMonthlyTestResults);
+router.get('/reports/student/:studentId/monthly', verifyToken, verifyStudentAccess, getMonthlyTestResults);
 
 // Get in-depth statistics for a student across all subjects
-router.get('/reports/student/:studentId/stats', verifyToken, getStudentInDepthStats);
+router.get('/reports/student/:studentId/stats', verifyToken, verifyStudentAccess, getStudentInDepthStats);
 
 // Get subject rankings for a batch (teacher/admin access)
-router.get('/rankings/batch/:batchId/subject/:subjectName', verifyTeacher, getSubjectRankings);
+router.get('/rankings/batch/:batchId/subject/:subjectName', requirePermission('test:manage'), getSubjectRankings);
 
 // ====== LEGACY ROUTES (for backward compatibility) ======
 // These routes maintain compatibility with your existing frontend code
 // They all require teacher authentication
 
-router.post('/', verifyTeacher, upload, createTest);
-router.get('/my-tests', verifyTeacher, getTeacherTests);
-router.get('/batch/:batchId/subject/:subjectName', verifyTeacher, getBatchSubjectTests);
-router.put('/:id', verifyTeacher, upload, updateTest);
-router.delete('/:id', verifyTeacher, deleteTest);
-router.put('/:id/marks', verifyTeacher, updateStudentMarks);
-router.get('/batch/:batchId/class/:className/subject/:subjectName/students', verifyTeacher, getAvailableStudentsForTest);
-router.get('/:id/pdf/:type', verifyTeacher, downloadPdf);
+router.post('/', requirePermission('test:manage'), upload, createTest);
+router.get('/my-tests', requirePermission('test:manage'), getTeacherTests);
+router.get('/batch/:batchId/subject/:subjectName', requirePermission('test:manage'), getBatchSubjectTests);
+router.put('/:id', requirePermission('test:manage'), upload, updateTest);
+router.delete('/:id', requirePermission('test:manage'), deleteTest);
+router.put('/:id/marks', requirePermission('test:manage'), updateStudentMarks);
+router.get('/batch/:batchId/class/:className/subject/:subjectName/students', requirePermission('test:manage'), getAvailableStudentsForTest);
+router.get('/:id/pdf/:type', requirePermission('test:manage'), downloadPdf);
 
 // Additional legacy routes for student functionality
-router.get('/student-reports', verifyStudent, getStudentSubjectReports);
+router.get('/student-reports', requirePermission('test:take'), getStudentSubjectReports);
 router.get('/comprehensive-reports', verifyToken, getComprehensiveUserReports);
-router.get('/:id/question-pdf', verifyStudent, downloadQuestionPdfForStudent);
-router.get('/:id/answer-pdf', verifyStudent, downloadAnswerPdfForStudent);
+router.get('/:id/question-pdf', requirePermission('test:take'), downloadQuestionPdfForStudent);
+router.get('/:id/answer-pdf', requirePermission('test:take'), downloadAnswerPdfForStudent);
 
 // Fix the route pattern to match what the frontend expects
-router.get('/batch/:batchId/students/:className/:subjectName', verifyTeacher, getAvailableStudentsForTest);
+router.get('/batch/:batchId/students/:className/:subjectName', requirePermission('test:manage'), getAvailableStudentsForTest);
 
 module.exports = router;
\ No newline at end of file
@@ -9,6 +9,10 @@ const {
   addVideoToCourse,
   updateVideoInCourse,
   deleteVideoFromCourse,
+  updateCurriculum,
+  addVideoResource,
+  deleteVideoResource,
+  getVideoResourcePdf,
   enrollStudent,
   getCoursesByCategory,
   getFreeCourses,
@@ -16,25 +20,32 @@ const {
 } = require('../controllers/unpaidCourseController');
 
 // Note: Add authentication middleware as needed
-// const { authenticateAdmin, authenticateUser } = require('../middleware/auth');
+const { requirePermission, verifyTokenAllowQuery } = require('../middlewares/authMiddleware');
 
 // Admin routes (require admin authentication)
-router.post('/', upload.single('thumbnail'), createCourse);
-router.put('/:id', upload.single('thumbnail'), updateCourse);
-router.delete('/:id', deleteCourse);
+router.post('/', requirePermission('course:write'), upload.single('thumbnail'), createCourse);
+router.put('/:id', requirePermission('course:write'), upload.single('thumbnail'), updateCourse);
+router.delete('/:id', requirePermission('course:write'), deleteCourse);
 
 // Video management routes (Admin only)
-router.post('/:id/videos', addVideoToCourse);
-router.put('/:id/videos/:videoId', updateVideoInCourse);
-router.delete('/:id/videos/:videoId', deleteVideoFromCourse);
+router.post('/:id/videos', requirePermission('course:write'), addVideoToCourse);
+router.put('/:id/videos/:videoId', requirePermission('course:write'), updateVideoInCourse);
+router.delete('/:id/videos/:videoId', requirePermission('course:write'), deleteVideoFromCourse);
+
+// Curriculum: chapter order and lecture resources (Admin only)
+router.put('/:id/curriculum', requirePermission('course:write'), updateCurriculum);
+router.post('/:id/videos/:videoId/resources', requirePermission('course:write'), addVideoResource);
+router.delete('/:id/videos/:videoId/resources/:resourceId', requirePermission('course:write'), deleteVideoResource);
 
 // Public routes (accessible by users)
 router.get('/', getAllCourses);
 router.get('/free', getFreeCourses);
 router.get('/category/:category', getCoursesByCategory);
+// Attached PDFs open in the browser, so the token may come as ?token=
+router.get('/:id/videos/:videoId/resources/:resourceId/pdf', verifyTokenAllowQuery, getVideoResourcePdf);
 router.get('/:id', getCourseById); // This should be last among GET routes
 
 // User routes (require user authentication)
-router.post('/:id/enroll', enrollStudent);
+router.post('/:id/enroll', requirePermission('course:write'), enrollStudent);
 
 module.exports = router;
\ No newline at end of file
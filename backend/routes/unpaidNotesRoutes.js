@@ -17,15 +17,16 @@ const {
   thumbnailUpload,
   pdfUpload
 } = require('../controllers/unpaidNotesController');
+const { requirePermission } = require('../middlewares/authMiddleware');
 
 // Admin routes (require admin authentication)
-router.post('/', thumbnailUpload.single('thumbnail'), createNotes);
-router.put('/:id', thumbnailUpload.single('thumbnail'), updateNotes);
-router.delete('/:id', deleteNotes);
+router.post('/', requirePermission('notes:write'), thumbnailUpload.single('thumbnail'), createNotes);
+router.put('/:id', requirePermission('notes:write'), thumbnailUpload.single('thumbnail'), updateNotes);
+router.delete('/:id', requirePermission('notes:write'), deleteNotes);
 
 // PDF management routes (Admin only)
 // PDF management routes (Admin only) - Add error handling middleware
-router.post('/:id/pdfs', (req, res, next) => {
+router.post('/:id/pdfs', requirePermission('notes:write'), (req, res, next) => {
   pdfUpload.single('pdf')(req, res, (err) => {
     if (err) {
       console.error('Multer error:', err);
@@ -36,8 +37,8 @@ router.post('/:id/pdfs', (req, res, next) => {
     }
     next();
   });
-}, addPDFToNotes);router.put('/:id/pdfs/:pdfId', pdfUpload.single('pdf'), updatePDFInNotes);
-router.delete('/:id/pdfs/:pdfId', deletePDFFromNotes);
+}, addPDFToNotes);router.put('/:id/pdfs/:pdfId', requirePermission('notes:write'), pdfUpload.single('pdf'), updatePDFInNotes);
+router.delete('/:id/pdfs/:pdfId', requirePermission('notes:write'), deletePDFFromNotes);
 
 // Public routes (accessible by users)
 router.get('/', getAllNotes);
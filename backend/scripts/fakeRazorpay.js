@@ -0,0 +1,205 @@
+// scripts/fakeRazorpay.js
+// A local stand-in for the Razorpay API, for development and testing without real keys.
+//
+//   RAZORPAY_KEY_ID=rzp_test_local RAZORPAY_KEY_SECRET=local_secret \
+//   RAZORPAY_WEBHOOK_SECRET=local_webhook_secret npm run fake-razorpay
+//
+// Start the backend with the same three variables plus RAZORPAY_API_URL=http://localhost:4010.
+// Besides the Razorpay endpoints the backend calls, it exposes /simulate routes that stand in
+// for the customer completing checkout and for Razorpay delivering webhooks.
+
+require('dotenv').config();
+const crypto = require('crypto');
+const express = require('express');
+
+const PORT = process.env.FAKE_RAZORPAY_PORT || 4010;
+const KEY_ID = process.env.RAZORPAY_KEY_ID;
+const KEY_SECRET = process.env.RAZORPAY_KEY_SECRET;
+const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+const WEBHOOK_URL = process.env.FAKE_RAZORPAY_WEBHOOK_URL || 'http://localhost:5000/api/payments/webhook';
+
+if (!KEY_ID || !KEY_SECRET) {
+  console.error('RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set');
+  process.exit(1);
+}
+
+const orders = new Map();
+const payments = new Map();
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(7).toString('hex')}`;
+const now = () => Math.floor(Date.now() / 1000);
+const sign = (secret, body) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+const razorpayError = (res, status, description) =>
+  res.status(status).json({ error: { code: 'BAD_REQUEST_ERROR', description } });
+
+// Send a signed webhook the way Razorpay does; `deliveries` > 1 redelivers the same event id
+const sendWebhook = async (event, payload, deliveries = 1) => {
+  if (!WEBHOOK_SECRET) {
+    console.log(`[fake-razorpay] RAZORPAY_WEBHOOK_SECRET not set, skipping ${event} webhook`);
+    return [];
+  }
+
+  const eventId = randomId('evt');
+  const body = JSON.stringify({ entity: 'event', event, payload, created_at: now() });
+  const statuses = [];
+
+  for (let attempt = 0; attempt < deliveries; attempt++) {
+    try {
+      const response = await fetch(WEBHOOK_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Razorpay-Signature': sign(WEBHOOK_SECRET, body),
+          'X-Razorpay-Event-Id': eventId
+        },
+        body
+      });
+      statuses.push(response.status);
+    } catch (error) {
+      console.error(`[fake-razorpay] ${event} webhook failed:`, error.message);
+      statuses.push('unreachable');
+    }
+  }
+
+  console.log(`[fake-razorpay] ${event} ${eventId} ->`, statuses.join(', '));
+  return statuses;
+};
+
+const app = express();
+app.use(express.json());
+
+// Razorpay API (HTTP basic auth with the key pair)
+const api = express.Router();
+
+api.use((req, res, next) => {
+  const [scheme, encoded] = (req.get('Authorization') || '').split(' ');
+  const [keyId, keySecret] = Buffer.from(encoded || '', 'base64').toString().split(':');
+  if (scheme !== 'Basic' || keyId !== KEY_ID || keySecret !== KEY_SECRET) {
+    return razorpayError(res, 401, 'Authentication failed');
+  }
+  next();
+});
+
+api.post('/orders', (req, res) => {
+  const { amount, currency = 'INR', receipt, notes = {} } = req.body;
+  if (!Number.isInteger(amount) || amount < 100) {
+    return razorpayError(res, 400, 'The amount must be atleast INR 1.00');
+  }
+
+  const order = {
+    id: randomId('order'),
+    entity: 'order',
+    amount,
+    amount_paid: 0,
+    amount_due: amount,
+    currency,
+    receipt,
+    status: 'created',
+    attempts: 0,
+    notes,
+    created_at: now()
+  };
+  orders.set(order.id, order);
+  res.json(order);
+});
+
+api.get('/orders/:id', (req, res) => {
+  const order = orders.get(req.params.id);
+  if (!order) return razorpayError(res, 400, 'The id provided does not exist');
+  res.json(order);
+});
+
+api.get('/payments/:id', (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment) return razorpayError(res, 400, 'The id provided does not exist');
+  res.json(payment);
+});
+
+api.post('/payments/:id/refund', async (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment || payment.status !== 'captured') {
+    return razorpayError(res, 400, 'The payment has not been captured or does not exist');
+  }
+
+  const amount = req.body.amount || payment.amount - payment.amount_refunded;
+  const refund = {
+    id: randomId('rfnd'),
+    entity: 'refund',
+    amount,
+    currency: payment.currency,
+    payment_id: payment.id,
+    notes: req.body.notes || {},
+    status: 'processed',
+    created_at: now()
+  };
+
+  payment.amount_refunded += amount;
+  payment.refund_status = payment.amount_refunded >= payment.amount ? 'full' : 'partial';
+  if (payment.refund_status === 'full') payment.status = 'refunded';
+
+  res.json(refund);
+  await sendWebhook('refund.processed', {
+    refund: { entity: refund },
+    payment: { entity: payment }
+  });
+});
+
+app.use('/v1', api);
+
+// Simulation helpers (not part of Razorpay's API)
+
+// Complete checkout for an order. Body: { outcome: 'captured' | 'failed', method, deliveries }
+// Returns what checkout hands the app (order id, payment id, signature) and sends the webhook.
+app.post('/simulate/orders/:id/pay', async (req, res) => {
+  const order = orders.get(req.params.id);
+  if (!order) return razorpayError(res, 400, 'The id provided does not exist');
+
+  const { outcome = 'captured', method = 'upi', deliveries = 1 } = req.body;
+  const payment = {
+    id: randomId('pay'),
+    entity: 'payment',
+    amount: order.amount,
+    currency: order.currency,
+    status: outcome === 'failed' ? 'failed' : 'captured',
+    order_id: order.id,
+    method,
+    amount_refunded: 0,
+    refund_status: null,
+    captured: outcome !== 'failed',
+    error_description: outcome === 'failed' ? 'Payment was declined by the bank' : null,
+    notes: order.notes,
+    created_at: now()
+  };
+  payments.set(payment.id, payment);
+  order.attempts += 1;
+
+  if (payment.status === 'captured') {
+    order.status = 'paid';
+    order.amount_paid = order.amount;
+    order.amount_due = 0;
+  }
+
+  const webhookStatuses = await sendWebhook(`payment.${payment.status}`, { payment: { entity: payment } }, deliveries);
+
+  res.json({
+    razorpay_order_id: order.id,
+    razorpay_payment_id: payment.id,
+    razorpay_signature: sign(KEY_SECRET, `${order.id}|${payment.id}`),
+    status: payment.status,
+    webhookStatuses
+  });
+});
+
+// Redeliver a webhook for an existing payment, e.g. to check idempotency
+// Body: { event: 'payment.captured' | 'payment.failed', deliveries }
+app.post('/simulate/payments/:id/webhook', async (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment) return razorpayError(res, 400, 'The id provided does not exist');
+
+  const { event = `payment.${payment.status}`, deliveries = 1 } = req.body;
+  const webhookStatuses = await sendWebhook(event, { payment: { entity: payment } }, deliveries);
+  res.json({ event, webhookStatuses });
+});
+
+app.listen(PORT, () => console.log(`[fake-razorpay] Listening on port ${PORT}, webhooks -> ${WEBHOOK_URL}`));
@@ -0,0 +1,86 @@
+// test/analytics.test.js
+// ?from and ?to name days in the analytics timezone (IST by default), so a sale just after
+// midnight IST counts on that day. Payments are stubbed, so no database is needed.
+const { describe, it, before, after, mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const User = require('../models/User');
+const Payment = require('../models/Payment');
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const admin = {
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Admin',
+  email: 'admin@example.com',
+  role: 'admin',
+  isActive: true
+};
+
+const buildApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', require('../routes/adminRoutes'));
+  return app;
+};
+
+describe('GET /api/admin/analytics/revenue date range', () => {
+  const app = buildApp();
+  let token;
+  let pipelines = [];
+
+  before(() => {
+    mock.method(User, 'findById', (id) => ({
+      select: async () => (String(id) === admin._id.toString() ? admin : null)
+    }));
+    mock.method(Payment, 'aggregate', async (pipeline) => {
+      pipelines.push(pipeline);
+      return [];
+    });
+    token = jwt.sign({ id: admin._id.toString(), role: admin.role }, process.env.JWT_SECRET);
+  });
+
+  after(() => mock.restoreAll());
+
+  // The capturedAt bounds the payments are matched with
+  const fetchRange = async (query) => {
+    pipelines = [];
+    const response = await request(app)
+      .get('/api/admin/analytics/revenue')
+      .query(query)
+      .set('Authorization', `Bearer ${token}`);
+    assert.strictEqual(response.status, 200);
+    const { $gte, $lte } = pipelines[0][0].$match.capturedAt;
+    return { from: $gte, to: $lte };
+  };
+
+  const inRange = (range, date) => range.from <= date && date <= range.to;
+
+  it('counts a sale at 01:00 IST on the day it was made in IST', async () => {
+    // 01:00 IST on 5 October is still 4 October in UTC
+    const sale = new Date('2026-10-04T19:30:00.000Z');
+
+    const sameDay = await fetchRange({ from: '2026-10-05', to: '2026-10-05' });
+    assert.ok(inRange(sameDay, sale));
+
+    const dayBefore = await fetchRange({ from: '2026-10-04', to: '2026-10-04' });
+    assert.ok(!inRange(dayBefore, sale));
+  });
+
+  it('runs from midnight IST on "from" to the end of "to" in IST', async () => {
+    const range = await fetchRange({ from: '2026-10-01', to: '2026-10-05' });
+    assert.strictEqual(range.from.toISOString(), '2026-09-30T18:30:00.000Z');
+    assert.strictEqual(range.to.toISOString(), '2026-10-05T18:29:59.999Z');
+  });
+
+  it('rejects "from" after "to"', async () => {
+    const response = await request(app)
+      .get('/api/admin/analytics/revenue')
+      .query({ from: '2026-10-06', to: '2026-10-05' })
+      .set('Authorization', `Bearer ${token}`);
+    assert.strictEqual(response.status, 400);
+  });
+});
@@ -0,0 +1,78 @@
+// test/couponReservation.test.js
+// An order made with a coupon takes one of its uses when it is created and gives it back if the
+// order can't be made, so a limited coupon can't be redeemed past its limit. Models and Razorpay
+// are stubbed, so no database is needed.
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert');
+const mongoose = require('mongoose');
+const Coupon = require('../models/Coupon');
+const Payment = require('../models/Payment');
+const razorpay = require('../config/razorpay');
+const { createPaymentOrder } = require('../controllers/paymentController');
+
+const coupon = {
+  coupon: { _id: new mongoose.Types.ObjectId(), code: 'LAUNCH50' },
+  discount: 500,
+  finalAmount: 500
+};
+
+const notes = {
+  _id: new mongoose.Types.ObjectId(),
+  notesTitle: 'Organic Chemistry',
+  price: 1000
+};
+
+const orderNotes = () => createPaymentOrder({
+  studentId: new mongoose.Types.ObjectId(),
+  itemType: 'PaidNotes',
+  item: notes,
+  coupon
+});
+
+describe('createPaymentOrder with a coupon', () => {
+  let reserved;
+  let released;
+
+  beforeEach(() => {
+    reserved = 0;
+    released = 0;
+    mock.method(Coupon, 'reserveUse', async () => {
+      reserved += 1;
+      return { _id: coupon.coupon._id };
+    });
+    mock.method(Coupon, 'releaseUse', async () => {
+      released += 1;
+    });
+    mock.method(razorpay, 'createOrder', async () => ({ id: 'order_test' }));
+    mock.method(Payment, 'create', async (fields) => fields);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('takes a use and records that the payment holds it', async () => {
+    const payment = await orderNotes();
+
+    assert.strictEqual(reserved, 1);
+    assert.strictEqual(released, 0);
+    assert.strictEqual(payment.amount, 500);
+    assert.strictEqual(payment.coupon.reserved, true);
+  });
+
+  it('refuses the order once the coupon is fully redeemed', async () => {
+    Coupon.reserveUse.mock.mockImplementation(async () => null);
+
+    await assert.rejects(orderNotes(), /fully redeemed/);
+    assert.strictEqual(razorpay.createOrder.mock.callCount(), 0);
+    assert.strictEqual(Payment.create.mock.callCount(), 0);
+  });
+
+  it('gives the use back when the order cannot be created', async () => {
+    razorpay.createOrder.mock.mockImplementation(async () => {
+      throw new Error('Razorpay is unavailable');
+    });
+
+    await assert.rejects(orderNotes(), /unavailable/);
+    assert.strictEqual(reserved, 1);
+    assert.strictEqual(released, 1);
+  });
+});
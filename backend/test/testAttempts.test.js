@@ -0,0 +1,141 @@
+// test/testAttempts.test.js
+// A submitted online test attempt shows the answer key only once the due date has passed or
+// every assigned student has submitted. Models are stubbed, so no database is needed.
+const { describe, it, before, after, mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const User = require('../models/User');
+const Test = require('../models/Test');
+const TestAttempt = require('../models/TestAttempt');
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const student = {
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Student',
+  email: 'student@example.com',
+  role: 'user',
+  isActive: true
+};
+const classmate = new mongoose.Types.ObjectId();
+
+const buildApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/tests', require('../routes/testRoutes'));
+  return app;
+};
+
+const buildTest = ({ dueDate, classmateSubmitted = false }) => new Test({
+  testTitle: 'Kinematics',
+  fullMarks: 8,
+  testType: 'online',
+  className: '11',
+  subjectName: 'Physics',
+  durationMinutes: 30,
+  dueDate,
+  assignedStudents: [
+    { student: student._id, submittedAt: new Date() },
+    { student: classmate, submittedAt: classmateSubmitted ? new Date() : null }
+  ],
+  questions: [
+    {
+      questionType: 'single',
+      questionText: 'Which quantity is a vector?',
+      options: ['Speed', 'Velocity', 'Distance', 'Time'],
+      correctOptions: [1],
+      marks: 4,
+      solution: 'Velocity has a direction.'
+    },
+    {
+      questionType: 'integer',
+      questionText: 'A ball falls from rest for 2 s with g = 10. How far does it fall?',
+      correctAnswer: 20,
+      marks: 4,
+      solution: 'h = gt²/2 = 20 m'
+    }
+  ]
+});
+
+const buildAttempt = (test) => new TestAttempt({
+  test: test._id,
+  student: student._id,
+  status: 'submitted',
+  startedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+  endsAt: new Date(Date.now() - 90 * 60 * 1000),
+  submittedAt: new Date(Date.now() - 100 * 60 * 1000),
+  answers: [{ questionId: test.questions[0]._id, selectedOptions: [1] }],
+  score: 4,
+  results: test.questions.map((question, index) => ({
+    questionId: question._id,
+    marksAwarded: index === 0 ? 4 : 0,
+    status: index === 0 ? 'correct' : 'unattempted'
+  }))
+});
+
+describe('GET /api/tests/student/test/:id/attempt', () => {
+  const app = buildApp();
+  let token;
+  let test;
+
+  before(() => {
+    mock.method(User, 'findById', (id) => ({
+      select: async () => (String(id) === student._id.toString() ? student : null)
+    }));
+    mock.method(Test, 'findOne', () => ({ select: async () => test }));
+    mock.method(TestAttempt, 'findOne', async () => buildAttempt(test));
+    token = jwt.sign({ id: student._id.toString(), role: student.role }, process.env.JWT_SECRET);
+  });
+
+  after(() => mock.restoreAll());
+
+  const fetchAttempt = () => request(app)
+    .get(`/api/tests/student/test/${test._id}/attempt`)
+    .set('Authorization', `Bearer ${token}`);
+
+  it('withholds the answer key and results before the due date', async () => {
+    test = buildTest({ dueDate: new Date(Date.now() + DAY) });
+
+    const response = await fetchAttempt();
+    assert.strictEqual(response.status, 200);
+
+    const { attempt, questions, answerKeyReleased } = response.body.data;
+    assert.strictEqual(answerKeyReleased, false);
+    assert.strictEqual(attempt.score, 4);
+    assert.strictEqual(attempt.results, undefined);
+    assert.strictEqual(questions.length, 2);
+    for (const question of questions) {
+      assert.strictEqual(question.correctOptions, undefined);
+      assert.strictEqual(question.correctAnswer, undefined);
+      assert.strictEqual(question.solution, undefined);
+    }
+  });
+
+  it('shows the answer key and results after the due date', async () => {
+    test = buildTest({ dueDate: new Date(Date.now() - DAY) });
+
+    const response = await fetchAttempt();
+    assert.strictEqual(response.status, 200);
+
+    const { attempt, questions, answerKeyReleased } = response.body.data;
+    assert.strictEqual(answerKeyReleased, true);
+    assert.strictEqual(attempt.results.length, 2);
+    assert.deepStrictEqual(questions[0].correctOptions, [1]);
+    assert.strictEqual(questions[0].solution, 'Velocity has a direction.');
+    assert.strictEqual(questions[1].correctAnswer, 20);
+  });
+
+  it('shows the answer key before the due date once every assigned student has submitted', async () => {
+    test = buildTest({ dueDate: new Date(Date.now() + DAY), classmateSubmitted: true });
+
+    const response = await fetchAttempt();
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.body.data.answerKeyReleased, true);
+    assert.deepStrictEqual(response.body.data.questions[0].correctOptions, [1]);
+  });
+});
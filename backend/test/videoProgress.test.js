@@ -0,0 +1,71 @@
+// test/videoProgress.test.js
+// Enrollment.updateProgress counts only what could have played between player reports, so
+// seeking to the end of a video doesn't complete it. Saving is stubbed, so no database is needed.
+const { describe, it, beforeEach } = require('node:test');
+const assert = require('node:assert');
+const mongoose = require('mongoose');
+const Enrollment = require('../models/Enrollment');
+
+const videoId = new mongoose.Types.ObjectId();
+const courseVideoIds = [videoId];
+
+const buildEnrollment = () => {
+  const enrollment = new Enrollment({
+    studentId: new mongoose.Types.ObjectId(),
+    courseId: new mongoose.Types.ObjectId()
+  });
+  enrollment.save = async function() { return this; };
+  return enrollment;
+};
+
+// Moves the last report back in time, as if the player had been playing since
+const secondsLater = (enrollment, seconds) => {
+  const entry = enrollment.progress.videoProgress[0];
+  entry.updatedAt = new Date(entry.updatedAt.getTime() - seconds * 1000);
+};
+
+describe('Enrollment.updateProgress', () => {
+  let enrollment;
+
+  beforeEach(() => {
+    enrollment = buildEnrollment();
+  });
+
+  it('does not complete a video that was seeked to the end', async () => {
+    await enrollment.updateProgress(videoId, { position: 10, duration: 600 }, courseVideoIds);
+    secondsLater(enrollment, 10);
+    await enrollment.updateProgress(videoId, { position: 590, duration: 600 }, courseVideoIds);
+
+    const [entry] = enrollment.progress.videoProgress;
+    assert.strictEqual(entry.lastPosition, 590);
+    // 10 seconds, then at most 20 for the 10 seconds between reports at double speed
+    assert.ok(Math.abs(entry.watchTime - 30) < 1);
+    assert.strictEqual(enrollment.progress.completedVideos.length, 0);
+    assert.strictEqual(enrollment.progress.overallProgress, 0);
+  });
+
+  it('clamps the position to the video', async () => {
+    await enrollment.updateProgress(videoId, { position: 5000, duration: 60 }, courseVideoIds);
+    assert.strictEqual(enrollment.progress.videoProgress[0].lastPosition, 60);
+  });
+
+  it('completes a video once most of it has played', async () => {
+    await enrollment.updateProgress(videoId, { position: 10, duration: 100 }, courseVideoIds);
+    for (let position = 20; position <= 90; position += 10) {
+      secondsLater(enrollment, 10);
+      await enrollment.updateProgress(videoId, { position, duration: 100 }, courseVideoIds);
+    }
+
+    assert.strictEqual(enrollment.progress.videoProgress[0].watchTime, 90);
+    assert.strictEqual(enrollment.progress.completedVideos.length, 1);
+    assert.strictEqual(enrollment.progress.overallProgress, 100);
+  });
+
+  it('does not count rewinding', async () => {
+    await enrollment.updateProgress(videoId, { position: 50, duration: 600 }, courseVideoIds);
+    secondsLater(enrollment, 10);
+    await enrollment.updateProgress(videoId, { position: 20, duration: 600 }, courseVideoIds);
+
+    assert.strictEqual(enrollment.progress.videoProgress[0].watchTime, 50);
+  });
+});
@@ -0,0 +1,87 @@
+// test/writeRoutes.test.js
+// Every write route of the catalogue routers needs a signed-in admin or teacher: anonymous
+// requests get 401 and students get 403. Accounts are stubbed, so no database is needed.
+const { describe, it, before, after, mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const User = require('../models/User');
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const ROUTERS = {
+  '/api/paidCourses': require('../routes/paidCourseRoutes'),
+  '/api/unpaidCourses': require('../routes/unpaidCourseRoutes'),
+  '/api/paidNotes': require('../routes/paidNotesRoutes'),
+  '/api/unpaidNotes': require('../routes/unpaidNotesRoutes'),
+  '/api/dpp': require('../routes/dppRoutes'),
+  '/api/paidMaterials': require('../routes/paidMaterialsRoutes')
+};
+
+// Write routes anyone may call
+const PUBLIC_ROUTES = ['POST /:id/view'];
+
+const student = {
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Student',
+  email: 'student@example.com',
+  role: 'user',
+  isActive: true
+};
+
+const buildApp = () => {
+  const app = express();
+  app.use(express.json());
+  Object.entries(ROUTERS).forEach(([prefix, router]) => app.use(prefix, router));
+  return app;
+};
+
+// POST/PUT/DELETE routes of a router, with their path parameters filled in
+const writeRoutes = (prefix, router) => router.stack
+  .filter(layer => layer.route)
+  .flatMap(layer => Object.keys(layer.route.methods)
+    .filter(method => ['post', 'put', 'delete'].includes(method))
+    .map(method => ({ method, path: layer.route.path })))
+  .filter(({ method, path }) => !PUBLIC_ROUTES.includes(`${method.toUpperCase()} ${path}`))
+  .map(({ method, path }) => ({
+    method,
+    url: prefix + path.replace(/:\w+/g, new mongoose.Types.ObjectId().toString())
+  }));
+
+describe('catalogue write routes', () => {
+  const app = buildApp();
+  let studentToken;
+
+  before(() => {
+    mock.method(User, 'findById', (id) => ({
+      select: async () => (String(id) === student._id.toString() ? student : null)
+    }));
+    studentToken = jwt.sign({ id: student._id.toString(), role: student.role }, process.env.JWT_SECRET);
+  });
+
+  after(() => mock.restoreAll());
+
+  for (const [prefix, router] of Object.entries(ROUTERS)) {
+    const routes = writeRoutes(prefix, router);
+
+    it(`${prefix} has write routes to check`, () => {
+      assert.ok(routes.length > 0);
+    });
+
+    for (const { method, url } of routes) {
+      it(`${method.toUpperCase()} ${url} rejects anonymous requests with 401`, async () => {
+        const response = await request(app)[method](url);
+        assert.strictEqual(response.status, 401);
+        assert.strictEqual(response.body.success, false);
+      });
+
+      it(`${method.toUpperCase()} ${url} rejects students with 403`, async () => {
+        const response = await request(app)[method](url).set('Authorization', `Bearer ${studentToken}`);
+        assert.strictEqual(response.status, 403);
+        assert.strictEqual(response.body.success, false);
+      });
+    }
+  }
+});
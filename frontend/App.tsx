@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useState } from 'react';
+import { LinkingOptions, NavigationContainer } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import IntroScreen from './screens/IntroScreen';
 import HomeScreen from './screens/HomeScreen';
@@ -10,7 +11,6 @@ import TeacherDashboardScreen from './screens/TeacherDashboardScreen';
 import AdminDashboardScreen from './screens/AdminDashboardScreen';
 import SplashScreen from './components/SplashScreen';
 import AdminAddUnpaidCourseScreen from './screens/AdminAddUnpaidCourseScreen';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import AdminAddPaidCourseScreen from './screens/AdminAddPaidCourseScreen';
 import AllCoursesScreen from './screens/AllCoursesScreen';
 import AdminPaidNotesScreen from './screens/AdminPaidNotesScreen';
@@ -29,13 +29,18 @@ import AdminCreateBatchesScreen from './screens/AdminCreateBatchesScreen';
 import TeacherBatchDetailsScreen from './screens/TeacherBatchDetailsScreen';
 import TeacherHandleTestScreen from './screens/TeacherHandleTestScreen';
 import TeacherHandleScoresScreen from './screens/TeacherHandleScoresScreen';
+import AnswerSheetGradingScreen from './screens/AnswerSheetGradingScreen';
+import TeacherOnlineTestScreen from './screens/TeacherOnlineTestScreen';
+import QuestionBankScreen from './screens/QuestionBankScreen';
 import TeacherTestListScreen from './screens/TeacherTestListScreen';
 import TeacherHandleReportsScreen from './screens/TeacherHandleReportsScreen';
 import UserReportsScreen from './screens/UserReportsScreen';
 import PaymentScreen from './screens/PaymentScreen';
+import BundlesScreen from './screens/BundlesScreen';
 import NotesPaymentScreen from './screens/NotesPaymentScreen';
 import NotesViewerScreen from './screens/NotesViewerScreen';
 import UpcomingTestsScreen from './screens/UpcomingTestsScreen';
+import TestAttemptScreen from './screens/TestAttemptScreen';
 import TeacherBatchCalendarScreen from './screens/TeacherBatchCalendarScreen';
 import TeacherHandleCalendarEventsScreen from './screens/TeacherHandleCalendarEventsScreen';
 import TeacherBatchAttendanceScreen from './screens/TeacherBatchAttendanceScreen';
@@ -43,13 +48,15 @@ import TeacherHandleBatchAttendanceScreen from './screens/TeacherHandleBatchAtte
 import StudentAttendanceRecordsScreen from './screens/StudentAttendanceRecordsScreen';
 import StudentCalendarScreen from './screens/StudentCalendarScreen';
 import AdminAccessStudentReportsScreen from './screens/AdminAccessStudentReportsScreen';
-
-// Subject interface
-interface Subject {
-  name: string;
-  teacher: string;
-  _id?: string;
-}
+import ResetPasswordScreen from './screens/ResetPasswordScreen';
+import ParentDashboardScreen from './screens/ParentDashboardScreen';
+import AdminUsersScreen from './screens/AdminUsersScreen';
+import AdminRefundsScreen from './screens/AdminRefundsScreen';
+import AdminBundlesScreen from './screens/AdminBundlesScreen';
+import AdminAnalyticsScreen from './screens/AdminAnalyticsScreen';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import type { BatchSubject } from './api';
+import type { PaymentData } from './screens/PaymentScreen';
 
 export type RootStackParamList = {
   Intro: undefined;
@@ -57,8 +64,10 @@ export type RootStackParamList = {
   UserProfile: undefined;
   SignIn: undefined;
   SignUp: undefined;
+  ResetPassword: { token?: string } | undefined;
   TeacherDashboard: undefined;
   AdminDashboard: undefined;
+  ParentDashboard: undefined;
   AdminAddUnpaidCourseScreen: undefined;
   AdminAddPaidCourseScreen: undefined;
   AllCoursesScreen: {
@@ -97,16 +106,13 @@ export type RootStackParamList = {
     testTitle: string;
     fullMarks: number;
   };
+  AnswerSheetGradingScreen: { testId: string; studentId: string; studentName: string };
+  TeacherOnlineTestScreen: { testId: string; testTitle: string };
+  QuestionBankScreen: undefined;
   TeacherTestListScreen: { batchId: string };
   TeacherHandleReportsScreen: { batchId: string };
   UserReportsScreen: { userId: string; userName: string; userRole: string };
-  PaymentScreen: { 
-    courseId: string; 
-    courseName: string; 
-    coursePrice: number; 
-    courseType: 'paid' | 'unpaid'; 
-    enrollmentId?: string; 
-  };
+  PaymentScreen: PaymentData;
   NotesPaymentScreen: { 
     notesId: string; 
     notesName: string; 
@@ -120,158 +126,178 @@ export type RootStackParamList = {
     fromScreen?: string; 
   };
   UpcomingTests: undefined; // Add this line
+  TestAttempt: { testId: string; testTitle: string };
   TeacherBatchCalendarScreen: { batchId: string; batchName: string }; // Add this line
   TeacherHandleCalendarEventsScreen: { batchId: string; batchName: string }; // Add this line
   TeacherBatchAttendanceScreen: { batchId: string; batchName: string }; // Add this line
   TeacherHandleBatchAttendanceScreen: { 
     batchId: string; 
     batchName: string; 
-    subjects: Subject[]; // Changed from 'string' to 'Subject[]'
+    subjects: BatchSubject[];
   };
-  StudentAttendanceRecords: undefined; // Add this line
+  StudentAttendanceRecords: { studentId: string; studentName: string } | undefined;
   StudentCalendar: undefined; // Add this line
   AdminAccessStudentReportsScreen: undefined; // Add this line
+  AdminUsersScreen: undefined;
+  AdminRefundsScreen: undefined;
+  AdminBundlesScreen: undefined;
+  AdminAnalyticsScreen: undefined;
+  BundlesScreen: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
-export default function App() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [showSplash, setShowSplash] = useState(true);
-  const [initialRoute, setInitialRoute] = useState<keyof RootStackParamList>('Intro');
+// Deep links handled by the app, e.g. sujhav://reset-password/<token> from the password reset email
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/'), 'sujhav://'],
+  config: {
+    screens: {
+      ResetPassword: 'reset-password/:token',
+    },
+  },
+};
 
-  useEffect(() => {
-    initializeApp();
-  }, []);
+// Screen every role lands on after signing in (guests start at Intro)
+const HOME_ROUTES: Record<string, keyof RootStackParamList> = {
+  admin: 'AdminDashboard',
+  teacher: 'TeacherDashboard',
+  parent: 'ParentDashboard',
+  user: 'Home',
+};
 
-  const initializeApp = async () => {
-    try {
-      await checkAuthStatus();
-    } catch (error) {
-      console.error('Error initializing app:', error);
-      setShowSplash(false);
-      setInitialRoute('Intro');
-      setIsLoading(false);
-    }
-  };
+// Only the group matching the signed-in role is registered, so other roles' routes are unreachable.
+// The navigator is keyed by role, so signing in, signing out or an expired token remounts it on the right home screen.
+function RootNavigator() {
+  const { user, isLoading, sessionExpired } = useAuth();
 
-  const checkAuthStatus = async () => {
-    try {
-      const userToken = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
+  if (isLoading) {
+    return null;
+  }
 
-      console.log('Auth check:', { 
-        hasToken: !!userToken, 
-        userRole, 
-        userId, 
-        userName 
-      });
+  const role = user?.role ?? 'guest';
+  const initialRoute = user
+    ? HOME_ROUTES[user.role] ?? 'Home'
+    : sessionExpired ? 'SignIn' : 'Intro';
 
-      if (userToken && userRole && userId && userName) {
-        switch (userRole) {
-          case 'admin':
-            setInitialRoute('AdminDashboard');
-            break;
-          case 'teacher':
-            setInitialRoute('TeacherDashboard');
-            break;
-          case 'user':
-          default:
-            setInitialRoute('Home');
-            break;
-        }
-      } else {
-        setShowSplash(false);
-        setInitialRoute('Intro');
-      }
-    } catch (error) {
-      console.error('Error checking auth status:', error);
-      setShowSplash(false);
-      setInitialRoute('Intro');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  return (
+    <Stack.Navigator 
+      key={role}
+      initialRouteName={initialRoute}
+      screenOptions={{
+        headerShown: false,
+        animation: 'fade',
+        animationDuration: 300,
+      }}
+    >
+      {role === 'guest' && (
+        <Stack.Group>
+          <Stack.Screen name="Intro" component={IntroScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
+          <Stack.Screen name="SignIn" component={SignInScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom' }} />
+          <Stack.Screen name="SignUp" component={SignUpScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom' }} />
+          <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom' }} />
+        </Stack.Group>
+      )}
 
-  const handleSplashComplete = async () => {
-    setShowSplash(false);
-    await checkAuthStatus();
-  };
+      {/* Student Screens (also browsable by guests, who are prompted to sign in) */}
+      {(role === 'guest' || role === 'user') && (
+        <Stack.Group>
+          <Stack.Screen name="Home" component={HomeScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
+          <Stack.Screen name="UserProfile" component={UserProfileScreen} options={{ gestureEnabled: true, animation: 'fade' }} />
+          <Stack.Screen name="AllCoursesScreen" component={AllCoursesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AllNotesScreen" component={AllNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="CourseDetails" component={CourseDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="CourseContent" component={CourseContentScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="MyContent" component={MyContentScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="UnpaidNotesDetails" component={UnpaidNotesDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="PaidNotesDetails" component={PaidNotesDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AllDPPScreen" component={AllDPPScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="OfflineCenterScreen" component={OfflineCenterScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="UserReportsScreen" component={UserReportsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="UpcomingTests" component={UpcomingTestsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="TestAttempt" component={TestAttemptScreen} options={{ gestureEnabled: false, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="StudentAttendanceRecords" component={StudentAttendanceRecordsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="StudentCalendar" component={StudentCalendarScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+          <Stack.Screen name="BundlesScreen" component={BundlesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
 
-  if (showSplash) {
-    return (
-      <SplashScreen 
-        onSplashComplete={handleSplashComplete}
-        duration={4000}
-      />
-    );
-  }
+          {/* Payment Screens */}
+          <Stack.Screen name="PaymentScreen" component={PaymentScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom', presentation: 'card' }} />
+          <Stack.Screen name="NotesPaymentScreen" component={NotesPaymentScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom', presentation: 'card' }} />
+          <Stack.Screen name="NotesViewerScreen" component={NotesViewerScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+        </Stack.Group>
+      )}
 
-  if (isLoading) {
-    return null;
-  }
+      {/* Teacher Screens */}
+      {role === 'teacher' && (
+        <Stack.Group>
+          <Stack.Screen name="TeacherDashboard" component={TeacherDashboardScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
+          <Stack.Screen name="TeacherBatchDetailsScreen" component={TeacherBatchDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherHandleTestScreen" component={TeacherHandleTestScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherHandleScoresScreen" component={TeacherHandleScoresScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AnswerSheetGradingScreen" component={AnswerSheetGradingScreen} options={{ gestureEnabled: false, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherOnlineTestScreen" component={TeacherOnlineTestScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="QuestionBankScreen" component={QuestionBankScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherTestListScreen" component={TeacherTestListScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherHandleReportsScreen" component={TeacherHandleReportsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherBatchCalendarScreen" component={TeacherBatchCalendarScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherHandleCalendarEventsScreen" component={TeacherHandleCalendarEventsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherBatchAttendanceScreen" component={TeacherBatchAttendanceScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="TeacherHandleBatchAttendanceScreen" component={TeacherHandleBatchAttendanceScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+        </Stack.Group>
+      )}
 
-  return (
-    <NavigationContainer>
-      <Stack.Navigator 
-        initialRouteName={initialRoute}
-        screenOptions={{
-          headerShown: false,
-          animation: 'fade',
-          animationDuration: 300,
-        }}
-      >
-        <Stack.Screen name="Intro" component={IntroScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
-        <Stack.Screen name="Home" component={HomeScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
-        <Stack.Screen name="TeacherDashboard" component={TeacherDashboardScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
-        <Stack.Screen name="AdminDashboard" component={AdminDashboardScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
-        <Stack.Screen name="UserProfile" component={UserProfileScreen} options={{ gestureEnabled: true, animation: 'fade' }} />
-        <Stack.Screen name="SignIn" component={SignInScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom' }} />
-        <Stack.Screen name="SignUp" component={SignUpScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom' }} />
-        
-        {/* Admin Screens */}
-        <Stack.Screen name="AdminAddUnpaidCourseScreen" component={AdminAddUnpaidCourseScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminAddPaidCourseScreen" component={AdminAddPaidCourseScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminPaidNotesScreen" component={AdminPaidNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminUnpaidNotesScreen" component={AdminUnpaidNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminPaidMaterialsScreen" component={AdminPaidMaterialsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminDPPScreen" component={AdminDPPScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AdminAccessStudentReportsScreen" component={AdminAccessStudentReportsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        
-        {/* Other Screens */}
-        <Stack.Screen name="AllCoursesScreen" component={AllCoursesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="AllNotesScreen" component={AllNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
-        <Stack.Screen name="CourseDetails" component={CourseDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="CourseContent" component={CourseContentScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="MyContent" component={MyContentScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
-        <Stack.Screen name="UnpaidNotesDetails" component={UnpaidNotesDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="PaidNotesDetails" component={PaidNotesDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="AllDPPScreen" component={AllDPPScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="OfflineCenterScreen" component={OfflineCenterScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
-        <Stack.Screen name="AdminCreateBatchesScreen" component={AdminCreateBatchesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="UserReportsScreen" component={UserReportsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
-        <Stack.Screen name="UpcomingTests" component={UpcomingTestsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
-        <Stack.Screen name="StudentAttendanceRecords" component={StudentAttendanceRecordsScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
-        <Stack.Screen name="StudentCalendar" component={StudentCalendarScreen} options={{ gestureEnabled: true, animation: 'fade', presentation: 'card' }} />
+      {/* Admin Screens */}
+      {role === 'admin' && (
+        <Stack.Group>
+          <Stack.Screen name="AdminDashboard" component={AdminDashboardScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
+          <Stack.Screen name="AdminAddUnpaidCourseScreen" component={AdminAddUnpaidCourseScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminAddPaidCourseScreen" component={AdminAddPaidCourseScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminPaidNotesScreen" component={AdminPaidNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminUnpaidNotesScreen" component={AdminUnpaidNotesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminPaidMaterialsScreen" component={AdminPaidMaterialsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminDPPScreen" component={AdminDPPScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+          <Stack.Screen name="AdminCreateBatchesScreen" component={AdminCreateBatchesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AdminUsersScreen" component={AdminUsersScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AdminRefundsScreen" component={AdminRefundsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AdminBundlesScreen" component={AdminBundlesScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="AdminAnalyticsScreen" component={AdminAnalyticsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+          <Stack.Screen name="QuestionBankScreen" component={QuestionBankScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+        </Stack.Group>
+      )}
+
+      {/* Parent Screens (read-only views of linked children) */}
+      {role === 'parent' && (
+        <Stack.Group>
+          <Stack.Screen name="ParentDashboard" component={ParentDashboardScreen} options={{ gestureEnabled: false, animation: 'fade' }} />
+          <Stack.Screen name="StudentAttendanceRecords" component={StudentAttendanceRecordsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+        </Stack.Group>
+      )}
 
-        {/* Teacher Screens */}
-        <Stack.Screen name="TeacherBatchDetailsScreen" component={TeacherBatchDetailsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherHandleTestScreen" component={TeacherHandleTestScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherHandleScoresScreen" component={TeacherHandleScoresScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherTestListScreen" component={TeacherTestListScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherHandleReportsScreen" component={TeacherHandleReportsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherBatchCalendarScreen" component={TeacherBatchCalendarScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherHandleCalendarEventsScreen" component={TeacherHandleCalendarEventsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherBatchAttendanceScreen" component={TeacherBatchAttendanceScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-        <Stack.Screen name="TeacherHandleBatchAttendanceScreen" component={TeacherHandleBatchAttendanceScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
+      {/* Staff Screens (teachers and admins) */}
+      {(role === 'teacher' || role === 'admin') && (
+        <Stack.Group>
+          <Stack.Screen name="AdminAccessStudentReportsScreen" component={AdminAccessStudentReportsScreen} options={{ gestureEnabled: true, animation: 'slide_from_right' }} />
+        </Stack.Group>
+      )}
+    </Stack.Navigator>
+  );
+}
 
-        {/* Payment Screen */}
-        <Stack.Screen name="PaymentScreen" component={PaymentScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom', presentation: 'card' }} />
-        <Stack.Screen name="NotesPaymentScreen" component={NotesPaymentScreen} options={{ gestureEnabled: true, animation: 'slide_from_bottom', presentation: 'card' }} />
-        <Stack.Screen name="NotesViewerScreen" component={NotesViewerScreen} options={{ gestureEnabled: true, animation: 'slide_from_right', presentation: 'card' }} />
-      </Stack.Navigator>
-    </NavigationContainer>
+export default function App() {
+  const [showSplash, setShowSplash] = useState(true);
+
+  // The provider restores the stored session while the splash animation plays
+  return (
+    <AuthProvider>
+      {showSplash ? (
+        <SplashScreen 
+          onSplashComplete={() => setShowSplash(false)}
+          duration={4000}
+        />
+      ) : (
+        <NavigationContainer linking={linking}>
+          <RootNavigator />
+        </NavigationContainer>
+      )}
+    </AuthProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { get, patch, post } from './client';
+import {
+  ApiResponse,
+  ConversionAnalytics,
+  Pagination,
+  RevenueAnalytics,
+  SalesAnalytics,
+  User,
+} from './types';
+
+export type UserListResponse = ApiResponse<User[]> & { pagination: Pagination };
+
+// Dates are YYYY-MM-DD and inclusive; the server defaults to the last 30 days
+export interface AnalyticsRange {
+  from?: string;
+  to?: string;
+}
+
+export interface UserFilters {
+  search?: string;
+  role?: User['role'];
+  status?: 'active' | 'inactive';
+  page?: number;
+  limit?: number;
+}
+
+// ---- Admin: user management ----
+
+export const getUsers = (params?: UserFilters) => get<UserListResponse>('/admin/users', { params });
+
+export const getUser = (userId: string) => get<ApiResponse<User>>(`/admin/users/${userId}`);
+
+// Changing the role signs the user out of every device
+export const updateUserRole = (userId: string, role: User['role']) =>
+  patch<ApiResponse<User>>(`/admin/users/${userId}/role`, { role });
+
+export const updateUserStatus = (userId: string, isActive: boolean) =>
+  patch<ApiResponse<User>>(`/admin/users/${userId}/status`, { isActive });
+
+// Without a password the user is emailed a reset link instead
+export const resetUserPassword = (userId: string, password?: string) =>
+  post<ApiResponse>(`/admin/users/${userId}/reset-password`, password ? { password } : {});
+
+// ---- Admin: analytics ----
+
+export const getRevenueAnalytics = (params?: AnalyticsRange & { groupBy?: 'day' | 'month' }) =>
+  get<ApiResponse<RevenueAnalytics>>('/admin/analytics/revenue', { params });
+
+export const getSalesAnalytics = (params?: AnalyticsRange & { limit?: number }) =>
+  get<ApiResponse<SalesAnalytics>>('/admin/analytics/sales', { params });
+
+export const getConversionAnalytics = (limit?: number) =>
+  get<ApiResponse<ConversionAnalytics>>('/admin/analytics/conversion', { params: { limit } });
@@ -0,0 +1,54 @@
+import { get, post } from './client';
+import {
+  ApiResponse,
+  AttendanceRecord,
+  AttendanceRoster,
+  AttendanceStatus,
+  ComprehensiveAttendance,
+  StudentAttendanceRecords,
+  StudentAttendanceStats,
+} from './types';
+
+export interface DateRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+// ---- Admin & teacher ----
+
+// filters echoes the query, with 'all' for anything not given
+export const getComprehensiveAttendance = (params?: DateRange & { batchId?: string }) =>
+  get<ApiResponse<ComprehensiveAttendance> & { filters: { batchId: string; startDate: string; endDate: string } }>(
+    '/attendance/comprehensive',
+    { params }
+  );
+
+// ---- Teacher ----
+
+export const markAttendance = (body: {
+  batchId: string;
+  subject: string;
+  date: string;
+  studentAttendance: { student: string; status: AttendanceStatus }[];
+}) => post<ApiResponse<AttendanceRecord>>('/attendance/mark', body);
+
+export const getStudentsForAttendance = (batchId: string, subject: string) =>
+  get<ApiResponse<AttendanceRoster>>(`/attendance/students/${batchId}/${encodeURIComponent(subject)}`);
+
+export const getAttendanceByDate = (batchId: string, subject: string, date: string) =>
+  get<ApiResponse<AttendanceRecord>>(`/attendance/date/${batchId}/${encodeURIComponent(subject)}/${date}`);
+
+export const getSubjectAttendance = (batchId: string, subject: string, params?: DateRange) =>
+  get<ApiResponse<AttendanceRecord[]>>(`/attendance/subject/${batchId}/${encodeURIComponent(subject)}`, { params });
+
+export const getStudentStats = (batchId: string, subject: string, studentId: string) =>
+  get<ApiResponse<StudentAttendanceStats>>(`/attendance/stats/${batchId}/${encodeURIComponent(subject)}/${studentId}`);
+
+// ---- Student (parents pass a linked child's studentId) ----
+
+export const getStudentAttendanceRecords = (studentId?: string) =>
+  get<ApiResponse<StudentAttendanceRecords>>('/attendance/student-records', { params: { studentId } });
+
+// Same records, served under /api/students
+export const getMyAttendanceRecords = (studentId?: string) =>
+  get<ApiResponse<StudentAttendanceRecords>>('/students/attendance-records', { params: { studentId } });
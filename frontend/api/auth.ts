@@ -0,0 +1,32 @@
+import { get, post, put, putForm } from './client';
+import { SessionTokens } from './session';
+import { LoginResponse, User, VerifyTokenResponse } from './types';
+
+export const register = (body: { name: string; email: string; password: string }) =>
+  post<{ message: string }>('/auth/register', body);
+
+export const login = (body: { email: string; password: string }) =>
+  post<LoginResponse>('/auth/login', body);
+
+// Revokes the refresh token server-side; allDevices ends every session for the account
+export const logout = (refreshToken: string, allDevices = false) =>
+  post<{ message: string }>('/auth/logout', { refreshToken, allDevices });
+
+export const getCurrentUser = () => get<User>('/auth/me');
+
+export const verifyToken = () => get<VerifyTokenResponse>('/auth/verify-token');
+
+// Fields: name, phone, class, examCategory, removeAvatar, plus an optional "avatar" image file
+export const updateProfile = (form: FormData) =>
+  putForm<{ message: string; user: User }>('/auth/me', form);
+
+// Other devices are signed out; the response carries fresh tokens for this one
+export const changePassword = (currentPassword: string, newPassword: string) =>
+  put<{ message: string } & SessionTokens>('/auth/me/password', { currentPassword, newPassword });
+
+export const forgotPassword = (email: string) =>
+  post<{ message: string }>('/auth/forgot-password', { email });
+
+// token is the code from the reset email (also carried by the sujhav://reset-password/<token> link)
+export const resetPassword = (token: string, password: string) =>
+  post<{ message: string }>('/auth/reset-password', { token, password });
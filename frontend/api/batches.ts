@@ -0,0 +1,83 @@
+import { del, get, post, put } from './client';
+import {
+  ApiResponse,
+  Batch,
+  BatchStatisticsReport,
+  BatchStudentAssignments,
+  BatchTeacherAssignments,
+  Category,
+  PopulatedBatch,
+  UserSummary,
+} from './types';
+
+export interface BatchInput {
+  batchName: string;
+  classes: string[];
+  subjects: { name: string; teacher?: string | null }[];
+  category: Category;
+  schedule?: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface StudentAssignmentInput {
+  student: string;
+  assignedClasses: string[];
+  assignedSubjects: string[];
+}
+
+// ---- Admin ----
+
+export const createBatch = (body: BatchInput) => post<ApiResponse<Batch>>('/batches', body);
+
+export const updateBatch = (batchId: string, body: Partial<BatchInput>) =>
+  put<ApiResponse<Batch>>(`/batches/${batchId}`, body);
+
+export const deleteBatch = (batchId: string) => del<ApiResponse>(`/batches/${batchId}`);
+
+export const assignStudents = (batchId: string, studentAssignments: StudentAssignmentInput[]) =>
+  post<ApiResponse<Batch>>(`/batches/${batchId}/assign-students`, { studentAssignments });
+
+export const assignStudentsEnhanced = (batchId: string, studentAssignments: StudentAssignmentInput[]) =>
+  post<ApiResponse<Batch>>(`/batches/${batchId}/assign-students-enhanced`, { studentAssignments });
+
+export const removeStudents = (batchId: string, studentIds: string[]) =>
+  post<ApiResponse<Batch>>(`/batches/${batchId}/remove-students`, { studentIds });
+
+export const assignTeachersEnhanced = (
+  batchId: string,
+  teacherAssignments: { teacherId: string; assignedSubjects: string[] }[]
+) => post<ApiResponse<Batch>>(`/batches/${batchId}/assign-teachers-enhanced`, { teacherAssignments });
+
+export const assignTeacherToSubject = (batchId: string, subjectId: string, teacherId: string | null) =>
+  put<ApiResponse<Batch>>(`/batches/${batchId}/subjects/${subjectId}/assign-teacher`, { teacherId });
+
+// Every student account, flagged with whether it is in the batch
+export const getStudentsAssignments = (batchId: string) =>
+  get<ApiResponse<BatchStudentAssignments>>(`/batches/${batchId}/students-assignments`);
+
+export const getTeachersAssignments = (batchId: string) =>
+  get<ApiResponse<BatchTeacherAssignments>>(`/batches/${batchId}/teachers-assignments`);
+
+export const getBatchStatistics = (batchId: string) =>
+  get<ApiResponse<BatchStatisticsReport>>(`/batches/${batchId}/statistics`);
+
+export const getEligibleStudents = () => get<ApiResponse<UserSummary[]>>('/batches/eligible-students');
+
+export const getAllTeachers = () => get<ApiResponse<UserSummary[]>>('/batches/all-teachers');
+
+// ---- Authenticated users ----
+
+export const getAllBatches = () => get<ApiResponse<PopulatedBatch[]>>('/batches');
+
+export const getBatchesByCategory = (category: Category) =>
+  get<ApiResponse<PopulatedBatch[]>>(`/batches/category/${category}`);
+
+export const getBatchById = (batchId: string) => get<ApiResponse<PopulatedBatch>>(`/batches/${batchId}`);
+
+// ---- Teacher ----
+
+export const getTeacherBatches = () => get<ApiResponse<PopulatedBatch[]>>('/batches/teacher/my-batches');
+
+export const getTeacherBatchById = (batchId: string) =>
+  get<ApiResponse<PopulatedBatch>>(`/batches/teacher/batch/${batchId}`);
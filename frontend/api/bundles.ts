@@ -0,0 +1,30 @@
+import { del, get, post, put } from './client';
+import { ApiResponse, Bundle, BundleInput, BundlePurchase, Category, Pagination, RazorpayOrder } from './types';
+
+export type BundleListResponse = ApiResponse<Bundle[]> & { pagination: Pagination };
+
+export const getBundles = (category?: Category) =>
+  get<ApiResponse<Bundle[]>>('/bundles', { params: category ? { category } : undefined });
+
+export const getBundleById = (bundleId: string) => get<ApiResponse<Bundle>>(`/bundles/${bundleId}`);
+
+export const getMyBundles = () => get<ApiResponse<BundlePurchase[]>>('/bundles/my');
+
+// Pay the returned order through paymentsApi.verifyPayment; that unlocks every item in the bundle
+export const purchaseBundle = (bundleId: string, couponCode?: string) =>
+  post<ApiResponse<{ bundlePurchase: BundlePurchase; razorpayOrder: RazorpayOrder }>>(
+    `/bundles/${bundleId}/purchase`,
+    { couponCode }
+  );
+
+// ---- Admin ----
+
+export const getAllBundles = (params?: { category?: Category; isActive?: boolean; page?: number; limit?: number }) =>
+  get<BundleListResponse>('/bundles/admin/all', { params });
+
+export const createBundle = (body: BundleInput) => post<ApiResponse<Bundle>>('/bundles', body);
+
+export const updateBundle = (bundleId: string, body: Partial<BundleInput>) =>
+  put<ApiResponse<Bundle>>(`/bundles/${bundleId}`, body);
+
+export const deleteBundle = (bundleId: string) => del<ApiResponse>(`/bundles/${bundleId}`);
@@ -0,0 +1,39 @@
+import { del, get, post, put } from './client';
+import { ApiResponse, BatchCalendarEvent, CalendarEvent, StudentCalendarEvent } from './types';
+
+export interface EventInput {
+  title: string;
+  description?: string;
+  type: CalendarEvent['type'];
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface MonthFilter {
+  month?: number;
+  year?: number;
+}
+
+// ---- Teacher ----
+
+export const createEvent = (body: EventInput & { batchId: string }) =>
+  post<ApiResponse<BatchCalendarEvent>>('/calendar/events', body);
+
+export const updateEvent = (eventId: string, body: Partial<EventInput>) =>
+  put<ApiResponse<BatchCalendarEvent>>(`/calendar/events/${eventId}`, body);
+
+export const deleteEvent = (eventId: string) => del<ApiResponse>(`/calendar/events/${eventId}`);
+
+export const getTeacherEvents = (params?: MonthFilter) =>
+  get<ApiResponse<CalendarEvent[]>>('/calendar/teacher/my-events', { params });
+
+// ---- Student (parents pass a linked child's studentId) ----
+
+export const getStudentEvents = (params?: MonthFilter & { studentId?: string }) =>
+  get<ApiResponse<StudentCalendarEvent[]>>('/calendar/student/my-events', { params });
+
+// ---- Teachers and students of the batch ----
+
+export const getBatchEvents = (batchId: string, params?: MonthFilter) =>
+  get<ApiResponse<BatchCalendarEvent[]>>(`/calendar/events/${batchId}`, { params });
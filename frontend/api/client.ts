@@ -0,0 +1,179 @@
+import axios, { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { API_BASE, API_TIMEOUT } from './config';
+import { SessionTokens, clearSession, getRefreshToken, getToken, saveTokens } from './session';
+
+// Error raised by every API call, carrying the HTTP status and server message
+export class ApiError extends Error {
+  status: number | null;
+  data: any;
+
+  constructor(message: string, status: number | null = null, data: any = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get isNetworkError() {
+    return this.status === null;
+  }
+}
+
+type UnauthorizedHandler = (message: string) => void;
+type TokenRefreshedHandler = (token: string) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+let tokenRefreshedHandler: TokenRefreshedHandler | null = null;
+
+// Register the app-wide callback run after a 401 has cleared the session
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler;
+};
+
+// Register the callback run whenever the access token is silently renewed
+export const setTokenRefreshedHandler = (handler: TokenRefreshedHandler | null) => {
+  tokenRefreshedHandler = handler;
+};
+
+export const apiClient = axios.create({
+  baseURL: API_BASE,
+  timeout: API_TIMEOUT,
+});
+
+// Attach the stored token to every request
+apiClient.interceptors.request.use(async (config) => {
+  const token = await getToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+const networkError = (error: AxiosError) => new ApiError(
+  error.code === 'ECONNABORTED'
+    ? 'The server took too long to respond'
+    : 'Could not reach the server'
+);
+
+let refreshPromise: Promise<string> | null = null;
+
+// Exchange the stored refresh token for a new access token. Concurrent callers share one
+// request, since the server rotates the refresh token and rejects the old one afterwards.
+export const refreshSession = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = await getRefreshToken();
+      if (!refreshToken) {
+        throw new ApiError('Your session has expired', 401);
+      }
+
+      try {
+        // Plain axios so a failed refresh doesn't re-enter the interceptors below
+        const { data } = await axios.post<SessionTokens>(
+          `${API_BASE}/auth/refresh`,
+          { refreshToken },
+          { timeout: API_TIMEOUT }
+        );
+        await saveTokens(data);
+        tokenRefreshedHandler?.(data.token);
+        return data.token;
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          if (!error.response) {
+            throw networkError(error);
+          }
+          throw new ApiError(error.response.data?.message || 'Your session has expired', error.response.status);
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Auth endpoints answer 401/400 for bad credentials, never for an expired access token
+const SKIP_REFRESH = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+];
+
+type RetryableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// Normalise errors, renew expired access tokens once, and log the user out when that fails
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError<any>) => {
+    if (!error.response) {
+      return Promise.reject(networkError(error));
+    }
+
+    const { status, data } = error.response;
+    const message = data?.message || `Request failed with status ${status}`;
+    const request = error.config as RetryableRequest | undefined;
+
+    if (status === 401) {
+      if (request && !request._retried && !SKIP_REFRESH.some((path) => request.url?.startsWith(path))) {
+        request._retried = true;
+        try {
+          const token = await refreshSession();
+          request.headers.Authorization = `Bearer ${token}`;
+          return apiClient(request);
+        } catch (refreshError) {
+          // Offline: keep the session and let the caller retry later
+          if (refreshError instanceof ApiError && refreshError.isNetworkError) {
+            return Promise.reject(refreshError);
+          }
+        }
+      }
+
+      await clearSession();
+      unauthorizedHandler?.(message);
+    }
+
+    return Promise.reject(new ApiError(message, status, data));
+  }
+);
+
+export const get = async <T>(url: string, config?: AxiosRequestConfig): Promise<T> =>
+  (await apiClient.get<T>(url, config)).data;
+
+export const post = async <T>(url: string, body?: any, config?: AxiosRequestConfig): Promise<T> =>
+  (await apiClient.post<T>(url, body, config)).data;
+
+export const put = async <T>(url: string, body?: any, config?: AxiosRequestConfig): Promise<T> =>
+  (await apiClient.put<T>(url, body, config)).data;
+
+export const patch = async <T>(url: string, body?: any, config?: AxiosRequestConfig): Promise<T> =>
+  (await apiClient.patch<T>(url, body, config)).data;
+
+export const del = async <T>(url: string, config?: AxiosRequestConfig): Promise<T> =>
+  (await apiClient.delete<T>(url, config)).data;
+
+// Multipart helpers for the upload endpoints (thumbnails, PDFs, photos)
+const multipart: AxiosRequestConfig = {
+  headers: { 'Content-Type': 'multipart/form-data' },
+  transformRequest: (data) => data,
+};
+
+export const postForm = <T>(url: string, form: FormData) => post<T>(url, form, multipart);
+
+export const putForm = <T>(url: string, form: FormData) => put<T>(url, form, multipart);
+
+// Absolute URL for endpoints opened outside axios (WebView, Linking, downloads)
+export const buildUrl = (path: string, query?: Record<string, string | undefined>) => {
+  const params = Object.entries(query || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value as string)}`)
+    .join('&');
+  return `${API_BASE}${path}${params ? `?${params}` : ''}`;
+};
@@ -0,0 +1,10 @@
+// API configuration
+// Set EXPO_PUBLIC_API_BASE_URL in your .env (e.g. http://192.168.1.10:5000/api)
+export const API_BASE: string =
+  process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:5000/api';
+
+// Kept for screens that still build their own URLs
+export const API_BASE_URL = API_BASE;
+
+// Request timeout in milliseconds
+export const API_TIMEOUT = 15000;
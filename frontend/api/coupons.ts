@@ -0,0 +1,6 @@
+import { post } from './client';
+import { ApiResponse, CouponPreview, PaymentItemType } from './types';
+
+// Preview only: orders take the code as couponCode and the server applies it again
+export const validateCoupon = (body: { code: string; itemType: PaymentItemType; itemId: string }) =>
+  post<ApiResponse<CouponPreview>>('/coupons/validate', body);
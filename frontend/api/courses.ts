@@ -0,0 +1,104 @@
+import { buildUrl, del, get, post, postForm, put, putForm } from './client';
+import { ApiResponse, Category, CourseValidity, Enrollment, InstallmentPlan } from './types';
+
+// A PDF attached to a lecture: one PDF from a notes item, or a DPP's question paper
+export interface LectureResource {
+  _id: string;
+  itemType: 'PaidNotes' | 'UnpaidNotes' | 'DPP';
+  itemId: string;
+  pdfId: string | null; // notes only
+  title: string;
+}
+
+export interface CourseChapter {
+  _id: string;
+  title: string;
+}
+
+export interface CourseVideo {
+  _id: string;
+  videoTitle: string;
+  videoDescription: string;
+  videoLink: string; // '' when locked
+  duration: string;
+  isPreview?: boolean; // paid courses: watchable without enrolling
+  isLocked?: boolean; // set on public responses for videos that need an enrollment
+  chapterId?: string | null; // null until placed in a chapter
+  resources?: LectureResource[];
+}
+
+export interface Course {
+  _id: string;
+  courseTitle: string;
+  tutor: string;
+  rating: number;
+  price: number;
+  category: Category;
+  class: string;
+  courseDetails: { subtitle: string; description: string };
+  chapters?: CourseChapter[]; // teaching order; videoLinks follows it
+  videoLinks: CourseVideo[];
+  courseThumbnail?: string;
+  installmentPlan?: InstallmentPlan; // paid courses only
+  validity?: CourseValidity; // paid courses only
+  studentsEnrolled: { _id: string; studentId: string; mode: Enrollment['mode']; schedule: string; enrolledAt: string }[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VideoInput = Omit<CourseVideo, '_id' | 'isLocked' | 'chapterId' | 'resources'>;
+
+// New chapters have no _id; videos left out of every chapter are listed last
+export interface CurriculumInput {
+  chapters: { _id?: string; title: string; videoIds: string[] }[];
+}
+
+// Paid and unpaid courses expose the same routes under different prefixes
+const courseEndpoints = (prefix: string) => ({
+  // Admin
+  createCourse: (form: FormData) => postForm<ApiResponse<Course>>(prefix, form),
+  updateCourse: (courseId: string, form: FormData) =>
+    putForm<ApiResponse<Course>>(`${prefix}/${courseId}`, form),
+  deleteCourse: (courseId: string) => del<ApiResponse>(`${prefix}/${courseId}`),
+  addVideo: (courseId: string, body: VideoInput) =>
+    post<ApiResponse<Course>>(`${prefix}/${courseId}/videos`, body),
+  updateVideo: (courseId: string, videoId: string, body: Partial<VideoInput>) =>
+    put<ApiResponse<Course>>(`${prefix}/${courseId}/videos/${videoId}`, body),
+  deleteVideo: (courseId: string, videoId: string) =>
+    del<ApiResponse<Course>>(`${prefix}/${courseId}/videos/${videoId}`),
+  updateCurriculum: (courseId: string, body: CurriculumInput) =>
+    put<ApiResponse<Course>>(`${prefix}/${courseId}/curriculum`, body),
+  addResource: (
+    courseId: string,
+    videoId: string,
+    body: { itemType: LectureResource['itemType']; itemId: string; pdfId?: string }
+  ) => post<ApiResponse<Course>>(`${prefix}/${courseId}/videos/${videoId}/resources`, body),
+  removeResource: (courseId: string, videoId: string, resourceId: string) =>
+    del<ApiResponse<Course>>(`${prefix}/${courseId}/videos/${videoId}/resources/${resourceId}`),
+
+  // Public
+  getAllCourses: () => get<ApiResponse<Course[]>>(prefix),
+  getCoursesByCategory: (category: Category) => get<ApiResponse<Course[]>>(`${prefix}/category/${category}`),
+  getCourseById: (courseId: string) => get<ApiResponse<Course>>(`${prefix}/${courseId}`),
+  // Browser/WebView URL, authenticated through the token query parameter
+  getResourcePdfUrl: (courseId: string, videoId: string, resourceId: string, token: string) =>
+    buildUrl(`${prefix}/${courseId}/videos/${videoId}/resources/${resourceId}/pdf`, { token }),
+
+  // Students
+  enrollStudent: (courseId: string, body: { studentId: string; mode: Enrollment['mode']; schedule: string }) =>
+    post<ApiResponse<Course>>(`${prefix}/${courseId}/enroll`, body),
+});
+
+// Public paid course responses only include links for free previews
+export const paidCourses = {
+  ...courseEndpoints('/paidCourses'),
+  getAllCoursesForAdmin: () => get<ApiResponse<Course[]>>('/paidCourses/admin/all'),
+  // Every video link; 403 unless enrolled (or staff)
+  getCourseContent: (courseId: string) => get<ApiResponse<Course>>(`/paidCourses/${courseId}/content`),
+};
+
+export const unpaidCourses = {
+  ...courseEndpoints('/unpaidCourses'),
+  getFreeCourses: () => get<ApiResponse<Course[]>>('/unpaidCourses/free'),
+};
@@ -0,0 +1,62 @@
+import { buildUrl, del, get, patch, post, postForm, putForm } from './client';
+import { ApiResponse, Category, Pagination } from './types';
+
+export interface DPPPdfInfo {
+  originalName: string;
+  fileSize: number;
+  pages: number;
+  uploadedAt: string;
+}
+
+export interface DPP {
+  _id: string;
+  title: string;
+  class: string;
+  category: Category;
+  questionPDF: DPPPdfInfo;
+  answerPDF?: DPPPdfInfo;
+  questionActive: boolean;
+  answerActive: boolean;
+  viewCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DPPListResponse = ApiResponse<DPP[]> & { pagination: Pagination };
+
+export interface DPPFilters {
+  category?: Category;
+  class?: string;
+  questionActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// ---- Admin ----
+
+export const createDPP = (form: FormData) => postForm<ApiResponse<DPP>>('/dpp', form);
+
+export const updateDPP = (dppId: string, form: FormData) => putForm<ApiResponse<DPP>>(`/dpp/${dppId}`, form);
+
+export const deleteDPP = (dppId: string) => del<ApiResponse>(`/dpp/${dppId}`);
+
+export const toggleAnswerAccessibility = (dppId: string) =>
+  patch<ApiResponse<DPP>>(`/dpp/${dppId}/toggle-answer`);
+
+// ---- Public ----
+
+export const getAllDPPs = (params?: DPPFilters) => get<DPPListResponse>('/dpp', { params });
+
+export const getDPPsByCategory = (category: Category, params?: Omit<DPPFilters, 'category'>) =>
+  get<DPPListResponse>(`/dpp/category/${category}`, { params });
+
+export const getDPPsByClass = (className: string, params?: Omit<DPPFilters, 'class'>) =>
+  get<DPPListResponse>(`/dpp/class/${encodeURIComponent(className)}`, { params });
+
+export const getDPPById = (dppId: string) => get<ApiResponse<DPP>>(`/dpp/${dppId}`);
+
+export const getQuestionPdfUrl = (dppId: string) => buildUrl(`/dpp/${dppId}/question-pdf`);
+
+export const getAnswerPdfUrl = (dppId: string) => buildUrl(`/dpp/${dppId}/answer-pdf`);
+
+export const incrementViewCount = (dppId: string) => post<ApiResponse>(`/dpp/${dppId}/view`);
@@ -0,0 +1,62 @@
+import { del, get, post, put } from './client';
+import { CourseType, Enrollment, Installment, RazorpayOrder } from './types';
+
+export interface EnrollResponse {
+  success: boolean;
+  message: string;
+  enrollment: Enrollment;
+  razorpayOrder?: RazorpayOrder;
+}
+
+export interface RazorpayPaymentResult {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+export const enroll = (body: {
+  courseId: string;
+  courseType: CourseType;
+  mode: Enrollment['mode'];
+  schedule: string;
+  couponCode?: string;
+  paymentPlan?: Enrollment['paymentPlan'];
+}) => post<EnrollResponse>('/enrollment/enroll', body);
+
+export const verifyPayment = (body: RazorpayPaymentResult & { enrollmentId: string }) =>
+  post<{ success: boolean; message: string; enrollment: Enrollment }>('/enrollment/verify-payment', body);
+
+export const getMyEnrollments = (status: Enrollment['enrollmentStatus'] = 'enrolled') =>
+  get<{ success: boolean; count: number; enrollments: Enrollment[] }>('/enrollment/my-enrollments', {
+    params: { status },
+  });
+
+export const getEnrollment = (enrollmentId: string) =>
+  get<{ success: boolean; enrollment: Enrollment }>(`/enrollment/${enrollmentId}`);
+
+// Report the player position (seconds); the server marks completion and recomputes overallProgress
+export const updateProgress = (enrollmentId: string, body: { videoId: string; position: number; duration: number }) =>
+  put<{ success: boolean; message: string; progress: Enrollment['progress'] }>(
+    `/enrollment/${enrollmentId}/progress`,
+    body
+  );
+
+// Opens checkout for the next unpaid installment; verify it with paymentsApi.verifyPayment
+export const payNextInstallment = (enrollmentId: string) =>
+  post<{ success: boolean; message: string; installment: Installment; razorpayOrder: RazorpayOrder }>(
+    `/enrollment/${enrollmentId}/installments/next`
+  );
+
+// Checkout for another validity period; expiresAt is what access will run until once paid
+export const renewEnrollment = (enrollmentId: string) =>
+  post<{ success: boolean; message: string; expiresAt: string | null; razorpayOrder: RazorpayOrder }>(
+    `/enrollment/${enrollmentId}/renew`
+  );
+
+export const cancelEnrollment = (enrollmentId: string) =>
+  del<{ success: boolean; message: string }>(`/enrollment/${enrollmentId}/cancel`);
+
+export const checkCourseAccess = (courseId: string) =>
+  get<{ success: boolean; hasAccess: boolean; suspended: boolean; expired: boolean; enrollment: Enrollment | null }>(
+    `/enrollment/access/${courseId}`
+  );
@@ -0,0 +1,28 @@
+// Typed client for the Sujhav backend, one function per route
+export { ApiError, apiClient, refreshSession, setTokenRefreshedHandler, setUnauthorizedHandler } from './client';
+export { API_BASE, API_BASE_URL, API_TIMEOUT } from './config';
+export * from './session';
+export * from './types';
+
+export * as adminApi from './admin';
+export * as authApi from './auth';
+export * as attendanceApi from './attendance';
+export * as batchesApi from './batches';
+export * as bundlesApi from './bundles';
+export * as calendarApi from './calendar';
+export * as couponsApi from './coupons';
+export * as dppApi from './dpp';
+export * as enrollmentApi from './enrollment';
+export * as materialsApi from './materials';
+export * as parentsApi from './parents';
+export * as paymentsApi from './payments';
+export * as purchasedNotesApi from './purchasedNotes';
+export * as questionBankApi from './questionBank';
+export * as refundsApi from './refunds';
+export * as testsApi from './tests';
+export { paidCourses as paidCoursesApi, unpaidCourses as unpaidCoursesApi } from './courses';
+export { paidNotes as paidNotesApi, unpaidNotes as unpaidNotesApi } from './notes';
+export type { Course, CourseChapter, CourseVideo, CurriculumInput, LectureResource, VideoInput } from './courses';
+export type { Notes, NotesPdf } from './notes';
+export type { Material } from './materials';
+export type { DPP } from './dpp';
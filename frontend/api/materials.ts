@@ -0,0 +1,71 @@
+import { buildUrl, del, get, post, postForm, putForm } from './client';
+import { ApiResponse, Category, Pagination } from './types';
+
+export interface MaterialPhoto {
+  _id: string;
+  originalName: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface Material {
+  _id: string;
+  materialTitle: string;
+  description: string;
+  price: number;
+  category: Category;
+  class: string;
+  rating: number;
+  materialPhotos: MaterialPhoto[];
+  viewCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MaterialListResponse = ApiResponse<Material[]> & { pagination: Pagination };
+
+// ---- Admin ----
+
+export const createMaterial = (form: FormData) => postForm<ApiResponse<Material>>('/paidMaterials', form);
+
+export const updateMaterial = (materialId: string, form: FormData) =>
+  putForm<ApiResponse<Material>>(`/paidMaterials/${materialId}`, form);
+
+export const deleteMaterial = (materialId: string) => del<ApiResponse>(`/paidMaterials/${materialId}`);
+
+export const addPhoto = (materialId: string, form: FormData) =>
+  postForm<ApiResponse<Material>>(`/paidMaterials/${materialId}/photos`, form);
+
+export const deletePhoto = (materialId: string, photoId: string) =>
+  del<ApiResponse<Material>>(`/paidMaterials/${materialId}/photos/${photoId}`);
+
+// Records a purchase paid outside the app
+export const purchaseMaterial = (materialId: string, body: { studentId: string; paymentId: string; amount: number }) =>
+  post<ApiResponse<{ materialId: string; studentId: string; paymentId: string; amount: number }>>(
+    `/paidMaterials/${materialId}/purchase`,
+    body
+  );
+
+// ---- Public ----
+
+export const getAllMaterials = (params?: { page?: number; limit?: number; category?: Category; class?: string }) =>
+  get<MaterialListResponse>('/paidMaterials', { params });
+
+export const getMaterialsByCategory = (category: Category, params?: { page?: number; limit?: number }) =>
+  get<MaterialListResponse>(`/paidMaterials/category/${category}`, { params });
+
+export const getMaterialById = (materialId: string) => get<ApiResponse<Material>>(`/paidMaterials/${materialId}`);
+
+export const getPhotoUrl = (materialId: string, photoId: string) =>
+  buildUrl(`/paidMaterials/${materialId}/photos/${photoId}`);
+
+export const incrementViewCount = (materialId: string) => post<ApiResponse>(`/paidMaterials/${materialId}/view`);
+
+// ---- Students ----
+
+// Students buy a material through paymentsApi.createMaterialOrder
+
+export const getStudentPurchasedMaterials = (studentId: string, params?: { page?: number; limit?: number }) =>
+  get<MaterialListResponse>(`/paidMaterials/student/${studentId}/purchased`, { params });
@@ -0,0 +1,52 @@
+import { buildUrl, del, get, post, postForm, putForm } from './client';
+import { ApiResponse, Category } from './types';
+
+export interface NotesPdf {
+  _id: string;
+  pdfTitle: string;
+  pdfDescription: string;
+  originalName: string;
+  fileSize: number;
+  pages: number;
+  uploadedAt: string;
+}
+
+export interface Notes {
+  _id: string;
+  notesTitle: string;
+  tutor: string;
+  rating: number;
+  price?: number;
+  category: Category;
+  class: string;
+  notesDetails: { subtitle: string; description: string };
+  pdfs: NotesPdf[];
+  viewCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Paid and unpaid notes expose the same routes under different prefixes
+const notesEndpoints = (prefix: string) => ({
+  // Admin
+  createNotes: (form: FormData) => postForm<ApiResponse<Notes>>(prefix, form),
+  updateNotes: (notesId: string, form: FormData) => putForm<ApiResponse<Notes>>(`${prefix}/${notesId}`, form),
+  deleteNotes: (notesId: string) => del<ApiResponse>(`${prefix}/${notesId}`),
+  addPdf: (notesId: string, form: FormData) => postForm<ApiResponse<Notes>>(`${prefix}/${notesId}/pdfs`, form),
+  updatePdf: (notesId: string, pdfId: string, form: FormData) =>
+    putForm<ApiResponse<Notes>>(`${prefix}/${notesId}/pdfs/${pdfId}`, form),
+  deletePdf: (notesId: string, pdfId: string) => del<ApiResponse<Notes>>(`${prefix}/${notesId}/pdfs/${pdfId}`),
+
+  // Public
+  getAllNotes: () => get<ApiResponse<Notes[]>>(prefix),
+  getNotesByCategory: (category: Category) => get<ApiResponse<Notes[]>>(`${prefix}/category/${category}`),
+  getNotesById: (notesId: string) => get<ApiResponse<Notes>>(`${prefix}/${notesId}`),
+  getThumbnailUrl: (notesId: string) => buildUrl(`${prefix}/${notesId}/thumbnail`),
+  getPdfUrl: (notesId: string, pdfId: string) => buildUrl(`${prefix}/${notesId}/pdfs/${pdfId}`),
+  incrementViewCount: (notesId: string) => post<ApiResponse>(`${prefix}/${notesId}/view`),
+});
+
+export const paidNotes = notesEndpoints('/paidNotes');
+
+export const unpaidNotes = notesEndpoints('/unpaidNotes');
@@ -0,0 +1,23 @@
+import { get, post, put } from './client';
+import { ApiResponse, LinkedStudent, ParentAccount } from './types';
+
+export interface ParentInput {
+  name: string;
+  email: string;
+  password: string;
+  phone?: string;
+  studentIds: string[];
+}
+
+// ---- Parent ----
+
+export const getMyChildren = () => get<ApiResponse<LinkedStudent[]>>('/parents/my-children');
+
+// ---- Admin ----
+
+export const getParents = () => get<ApiResponse<ParentAccount[]>>('/parents');
+
+export const createParent = (body: ParentInput) => post<ApiResponse<ParentAccount>>('/parents', body);
+
+export const updateParentChildren = (parentId: string, studentIds: string[]) =>
+  put<ApiResponse<ParentAccount>>(`/parents/${parentId}/children`, { studentIds });
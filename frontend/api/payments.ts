@@ -0,0 +1,27 @@
+import { buildUrl, get, post } from './client';
+import { ApiResponse, Pagination, Payment, RazorpayOrder } from './types';
+import { RazorpayPaymentResult } from './enrollment';
+
+export type PaymentListResponse = ApiResponse<Payment[]> & { pagination: Pagination };
+
+// Checkout for a paid material. Courses and notes create their orders through
+// enrollmentApi.enroll / purchasedNotesApi.purchaseNotes
+export const createMaterialOrder = (materialId: string, couponCode?: string) =>
+  post<ApiResponse<{ payment: Payment; razorpayOrder: RazorpayOrder }>>('/payments/orders', {
+    itemType: 'PaidMaterials',
+    itemId: materialId,
+    couponCode,
+  });
+
+// Works for any order: checks the checkout signature and unlocks the item
+export const verifyPayment = (body: RazorpayPaymentResult) => post<ApiResponse<Payment>>('/payments/verify', body);
+
+export const getMyPayments = (params?: { status?: Payment['status']; page?: number; limit?: number }) =>
+  get<PaymentListResponse>('/payments/my-payments', { params });
+
+// Completed payments, i.e. the ones with an invoice
+export const getMyReceipts = (params?: { page?: number; limit?: number }) =>
+  get<PaymentListResponse>('/payments/my-payments', { params: { ...params, status: 'captured,refunded' } });
+
+// PDF download; send the access token as a Bearer header
+export const getInvoiceUrl = (paymentId: string) => buildUrl(`/payments/${paymentId}/invoice`);
@@ -0,0 +1,53 @@
+import { buildUrl, del, get, post } from './client';
+import { Pagination, PurchasedNotes, RazorpayOrder } from './types';
+import { RazorpayPaymentResult } from './enrollment';
+
+export interface NotesAccessResponse {
+  success: boolean;
+  hasAccess: boolean;
+  isFree: boolean;
+  purchase: PurchasedNotes | null;
+  canPurchase?: boolean;
+  message: string;
+}
+
+export const purchaseNotes = (notesId: string, couponCode?: string) =>
+  post<{ success: boolean; message: string; purchase: PurchasedNotes; razorpayOrder?: RazorpayOrder }>(
+    '/purchasedNotes/purchase',
+    { notesId, couponCode }
+  );
+
+export const verifyPayment = (body: RazorpayPaymentResult & { purchaseId: string }) =>
+  post<{ success: boolean; message: string; purchase: PurchasedNotes; verified: boolean; status: string }>(
+    '/purchasedNotes/verify-payment',
+    body
+  );
+
+export const checkNotesAccess = (notesId: string) =>
+  get<NotesAccessResponse>(`/purchasedNotes/access/${notesId}`);
+
+export const getMyPurchases = (params?: { page?: number; limit?: number }) =>
+  get<{ success: boolean; count: number; purchases: PurchasedNotes[]; pagination: Pagination }>(
+    '/purchasedNotes/my-purchases',
+    { params }
+  );
+
+export const getPurchaseDetails = (purchaseId: string) =>
+  get<{ success: boolean; purchase: PurchasedNotes }>(`/purchasedNotes/${purchaseId}/details`);
+
+export const cancelPurchase = (purchaseId: string) =>
+  del<{ success: boolean; message: string }>(`/purchasedNotes/${purchaseId}/cancel`);
+
+export const getDownloadHistory = (purchaseId: string) =>
+  get<{
+    success: boolean;
+    downloadHistory: PurchasedNotes['downloadHistory'];
+    accessDetails: PurchasedNotes['accessDetails'];
+  }>(`/purchasedNotes/${purchaseId}/download-history`);
+
+export const getPdfDownloadUrl = (notesId: string, pdfId: string) =>
+  buildUrl(`/purchasedNotes/${notesId}/pdfs/${pdfId}/download`);
+
+// Browser/WebView URL, authenticated through the token query parameter
+export const getPdfViewUrl = (notesId: string, pdfId: string, token: string) =>
+  buildUrl(`/purchasedNotes/${notesId}/pdfs/${pdfId}/view`, { token });
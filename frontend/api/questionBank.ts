@@ -0,0 +1,46 @@
+import { buildUrl, del, get, postForm, putForm } from './client';
+import {
+  ApiResponse,
+  BankQuestion,
+  ExamCategory,
+  Pagination,
+  QuestionDifficulty,
+  QuestionTag,
+  QuestionType,
+} from './types';
+
+export type QuestionListResponse = ApiResponse<BankQuestion[]> & { pagination: Pagination };
+
+export interface QuestionFilters {
+  search?: string;
+  subject?: string;
+  chapter?: string;
+  topic?: string;
+  difficulty?: QuestionDifficulty;
+  examCategory?: ExamCategory;
+  questionType?: QuestionType;
+  // Only questions the signed-in user added
+  mine?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export const getQuestions = (params?: QuestionFilters) =>
+  get<QuestionListResponse>('/question-bank', { params });
+
+export const getQuestionTags = () => get<ApiResponse<QuestionTag[]>>('/question-bank/tags');
+
+export const getQuestion = (questionId: string) => get<ApiResponse<BankQuestion>>(`/question-bank/${questionId}`);
+
+// Multipart: the question fields, options/correctOptions/examCategories as JSON, and up to four `images`
+export const createQuestion = (form: FormData) => postForm<ApiResponse<BankQuestion>>('/question-bank', form);
+
+// Same form as create, plus removeImageIds (JSON) for images to drop
+export const updateQuestion = (questionId: string, form: FormData) =>
+  putForm<ApiResponse<BankQuestion>>(`/question-bank/${questionId}`, form);
+
+export const deleteQuestion = (questionId: string) => del<ApiResponse>(`/question-bank/${questionId}`);
+
+// Needs the Authorization header, e.g. <Image source={{ uri, headers }} />
+export const getImageUrl = (questionId: string, imageId: string) =>
+  buildUrl(`/question-bank/${questionId}/images/${imageId}`);
@@ -0,0 +1,22 @@
+import { get, patch, post } from './client';
+import { ApiResponse, Pagination, RefundRecordType, RefundRequest } from './types';
+
+export type RefundListResponse = ApiResponse<RefundRequest[]> & { pagination: Pagination };
+
+// recordId is the Enrollment or PurchasedNotes _id
+export const requestRefund = (body: { recordType: RefundRecordType; recordId: string; reason: string }) =>
+  post<ApiResponse<RefundRequest>>('/refunds', body);
+
+export const getMyRefunds = () => get<ApiResponse<RefundRequest[]>>('/refunds/my-refunds');
+
+// ---- Admin ----
+
+export const getRefunds = (params?: { status?: RefundRequest['status']; page?: number; limit?: number }) =>
+  get<RefundListResponse>('/refunds', { params });
+
+// Without an amount the full payment is refunded. Approval also revokes the student's access.
+export const approveRefund = (refundId: string, body: { amount?: number; adminNote?: string } = {}) =>
+  patch<ApiResponse<RefundRequest>>(`/refunds/${refundId}/approve`, body);
+
+export const denyRefund = (refundId: string, adminNote?: string) =>
+  patch<ApiResponse<RefundRequest>>(`/refunds/${refundId}/deny`, { adminNote });
@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// AsyncStorage keys written on sign in (matching SignInScreen)
+export const SESSION_KEYS = {
+  token: 'userToken',
+  role: 'userRole',
+  userId: 'userId',
+  userName: 'userName',
+  userEmail: 'userEmail',
+  userPhone: 'userPhone',
+  userData: 'userData',
+  refreshToken: 'userRefreshToken',
+  tokenExpiresAt: 'userTokenExpiresAt',
+} as const;
+
+export type UserRole = 'user' | 'teacher' | 'admin' | 'parent';
+
+export interface Session {
+  token: string;
+  userId: string;
+  userName: string;
+  role: UserRole;
+  email: string | null;
+}
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  role: string;
+}
+
+// Token pair returned by /auth/login and /auth/refresh
+export interface SessionTokens {
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number; // access token lifetime in seconds
+}
+
+// Read the stored session, or null when the user is not signed in
+export const getSession = async (): Promise<Session | null> => {
+  const entries = await AsyncStorage.multiGet([
+    SESSION_KEYS.token,
+    SESSION_KEYS.role,
+    SESSION_KEYS.userId,
+    SESSION_KEYS.userName,
+    SESSION_KEYS.userEmail,
+  ]);
+  const [token, role, userId, userName, email] = entries.map(([, value]) => value);
+
+  if (!token || !userId || !userName) {
+    return null;
+  }
+
+  return {
+    token,
+    userId,
+    userName,
+    role: (role as UserRole) || 'user',
+    email,
+  };
+};
+
+export const getToken = (): Promise<string | null> => AsyncStorage.getItem(SESSION_KEYS.token);
+
+export const getRefreshToken = (): Promise<string | null> => AsyncStorage.getItem(SESSION_KEYS.refreshToken);
+
+// Epoch milliseconds at which the access token expires, if the server told us
+export const getTokenExpiresAt = async (): Promise<number | null> => {
+  const value = await AsyncStorage.getItem(SESSION_KEYS.tokenExpiresAt);
+  return value ? Number(value) : null;
+};
+
+const tokenPairs = (tokens: SessionTokens): [string, string][] => {
+  const pairs: [string, string][] = [[SESSION_KEYS.token, tokens.token]];
+  if (tokens.refreshToken) {
+    pairs.push([SESSION_KEYS.refreshToken, tokens.refreshToken]);
+  }
+  if (tokens.expiresIn) {
+    pairs.push([SESSION_KEYS.tokenExpiresAt, String(Date.now() + tokens.expiresIn * 1000)]);
+  }
+  return pairs;
+};
+
+export const saveTokens = (tokens: SessionTokens): Promise<void> =>
+  AsyncStorage.multiSet(tokenPairs(tokens));
+
+export const saveSession = async (tokens: SessionTokens, user: SessionUser): Promise<void> => {
+  const pairs: [string, string][] = [
+    ...tokenPairs(tokens),
+    [SESSION_KEYS.role, user.role],
+    [SESSION_KEYS.userId, user.id],
+    [SESSION_KEYS.userName, user.name],
+  ];
+  if (user.email) {
+    pairs.push([SESSION_KEYS.userEmail, user.email]);
+  }
+  if (user.phone) {
+    pairs.push([SESSION_KEYS.userPhone, user.phone]);
+  }
+  await AsyncStorage.multiSet(pairs);
+};
+
+// Keep the stored profile fields in step after the user edits their profile
+export const saveProfile = async (profile: { name?: string; phone?: string }): Promise<void> => {
+  const pairs: [string, string][] = [];
+  if (profile.name) {
+    pairs.push([SESSION_KEYS.userName, profile.name]);
+  }
+  if (profile.phone !== undefined) {
+    pairs.push([SESSION_KEYS.userPhone, profile.phone]);
+  }
+  await AsyncStorage.multiSet(pairs);
+};
+
+export const clearSession = (): Promise<void> =>
+  AsyncStorage.multiRemove(Object.values(SESSION_KEYS));
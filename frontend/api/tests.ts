@@ -0,0 +1,169 @@
+import { buildUrl, del, get, post, postForm, put, putForm } from './client';
+import {
+  AnswerSheetGrading,
+  AnswerSheetSubmission,
+  ApiResponse,
+  AttemptAnswer,
+  AttemptSession,
+  ComprehensiveReports,
+  MarkingScheme,
+  MarkingSchemeDefaults,
+  MonthlyTestResults,
+  QuestionMark,
+  SheetAnnotation,
+  StudentInDepthStats,
+  StudentOnlineTest,
+  StudentReportCard,
+  StudentSubjectReport,
+  SubjectRankings,
+  TeacherBatchSubjects,
+  Test,
+  TestAttempt,
+  TestQuestion,
+  TestQuestionInput,
+  UserSummary,
+} from './types';
+
+// ---- Teacher ----
+
+export const createTest = (form: FormData) => postForm<ApiResponse<Test>>('/tests/teacher/', form);
+
+export const getTeacherTests = () => get<ApiResponse<Test[]>>('/tests/teacher/my-tests');
+
+export const getBatchSubjectTests = (batchId: string, subjectName: string) =>
+  get<ApiResponse<Test[]>>(
+    `/tests/teacher/batch/${batchId}/subject/${encodeURIComponent(subjectName)}`
+  );
+
+export const updateTest = (testId: string, form: FormData) =>
+  putForm<ApiResponse<Test>>(`/tests/teacher/${testId}`, form);
+
+export const deleteTest = (testId: string) => del<ApiResponse>(`/tests/teacher/${testId}`);
+
+// Replaces the assigned students; marks already entered for students who stay are kept
+export const assignStudents = (testId: string, studentIds: string[]) =>
+  put<ApiResponse<Test>>(`/tests/teacher/${testId}`, { assignedStudents: studentIds });
+
+// questionMarks (tests with sections) sets marksScored to their sum
+export const updateStudentMarks = (
+  testId: string,
+  body: { studentId: string; marksScored?: number; questionMarks?: QuestionMark[] }
+) => put<ApiResponse<Test>>(`/tests/teacher/${testId}/marks`, body);
+
+// Students of the batch assigned to both the class and the subject
+export const getAvailableStudents = (batchId: string, className: string, subjectName: string) =>
+  get<ApiResponse<UserSummary[]>>(
+    `/tests/teacher/batch/${batchId}/class/${encodeURIComponent(className)}/subject/${encodeURIComponent(subjectName)}/students`
+  );
+
+export const getTeacherPdfUrl = (testId: string, type: 'question' | 'answer') =>
+  buildUrl(`/tests/teacher/${testId}/pdf/${type}`);
+
+export const getTeacherSubjectsForBatch = (batchId: string) =>
+  get<ApiResponse<TeacherBatchSubjects>>(`/tests/teacher/batch/${batchId}/subjects`);
+
+export const getStudentAnswerSheetUrl = (testId: string, studentId: string) =>
+  buildUrl(`/tests/teacher/${testId}/answer-sheets/${studentId}`);
+
+// The sheet with the teacher's marks drawn on, as the student gets it
+export const getStudentAnnotatedSheetUrl = (testId: string, studentId: string) =>
+  buildUrl(`/tests/teacher/${testId}/answer-sheets/${studentId}/annotated`);
+
+export const getAnswerSheetGrading = (testId: string, studentId: string) =>
+  get<ApiResponse<AnswerSheetGrading>>(`/tests/teacher/${testId}/answer-sheets/${studentId}/grading`);
+
+// With questionMarks, their sum becomes the student's marks; without, the annotations are a draft
+export const saveAnswerSheetGrading = (
+  testId: string,
+  studentId: string,
+  body: { annotations: SheetAnnotation[]; questionMarks: QuestionMark[] }
+) => put<ApiResponse<AnswerSheetGrading>>(`/tests/teacher/${testId}/answer-sheets/${studentId}/grading`, body);
+
+// ---- Teacher: online tests ----
+
+export const getOnlineTestQuestions = (testId: string) =>
+  get<
+    ApiResponse<{
+      test: Test;
+      questions: TestQuestion[];
+      attemptCount: number;
+      markingSchemes: MarkingSchemeDefaults;
+    }>
+  >(`/tests/teacher/${testId}/questions`);
+
+export const updateOnlineTestQuestions = (
+  testId: string,
+  body: { questions: TestQuestionInput[]; markingScheme?: MarkingScheme; durationMinutes?: number }
+) => put<ApiResponse<Test>>(`/tests/teacher/${testId}/questions`, body);
+
+// Copies bank questions, images included, to the end of the test with the test's marking scheme
+export const addBankQuestions = (testId: string, questionIds: string[]) =>
+  post<ApiResponse<Test>>(`/tests/teacher/${testId}/questions/from-bank`, { questionIds });
+
+// Needs the Authorization header, e.g. <Image source={{ uri, headers }} />
+export const getTeacherQuestionImageUrl = (testId: string, questionId: string, imageId: string) =>
+  buildUrl(`/tests/teacher/${testId}/questions/${questionId}/images/${imageId}`);
+
+export const getTestAttempts = (testId: string) =>
+  get<ApiResponse<TestAttempt[]>>(`/tests/teacher/${testId}/attempts`);
+
+// ---- Student ----
+
+export const getStudentSubjectReports = () =>
+  get<ApiResponse<StudentSubjectReport[]>>('/tests/student/subject-reports');
+
+export const getStudentQuestionPdfUrl = (testId: string) =>
+  buildUrl(`/tests/student/test/${testId}/question-pdf`);
+
+export const getStudentAnswerPdfUrl = (testId: string) =>
+  buildUrl(`/tests/student/test/${testId}/answer-pdf`);
+
+// Multipart: photos of each page or one PDF in `pages`. Replaces any earlier submission.
+export const submitAnswerSheet = (testId: string, form: FormData) =>
+  postForm<ApiResponse<AnswerSheetSubmission>>(`/tests/student/test/${testId}/answer-sheet`, form);
+
+export const getOwnAnswerSheetUrl = (testId: string) => buildUrl(`/tests/student/test/${testId}/answer-sheet`);
+
+export const getOwnAnnotatedSheetUrl = (testId: string) =>
+  buildUrl(`/tests/student/test/${testId}/answer-sheet/annotated`);
+
+export const getComprehensiveReports = () =>
+  get<ApiResponse<ComprehensiveReports> & { isAssigned: boolean }>('/tests/user/comprehensive-reports');
+
+// ---- Student: online tests ----
+
+export const getStudentOnlineTests = () => get<ApiResponse<StudentOnlineTest[]>>('/tests/student/online-tests');
+
+export const startAttempt = (testId: string) =>
+  post<ApiResponse<AttemptSession>>(`/tests/student/test/${testId}/attempt`);
+
+export const getAttempt = (testId: string) =>
+  get<ApiResponse<AttemptSession>>(`/tests/student/test/${testId}/attempt`);
+
+export const saveAttemptAnswers = (testId: string, answers: AttemptAnswer[]) =>
+  put<ApiResponse<{ answers: AttemptAnswer[]; endsAt: string; serverTime: string }>>(
+    `/tests/student/test/${testId}/attempt`,
+    { answers }
+  );
+
+export const submitAttempt = (testId: string, answers: AttemptAnswer[]) =>
+  post<ApiResponse<AttemptSession>>(`/tests/student/test/${testId}/attempt/submit`, { answers });
+
+// Available once the attempt has started; needs the Authorization header
+export const getStudentQuestionImageUrl = (testId: string, questionId: string, imageId: string) =>
+  buildUrl(`/tests/student/test/${testId}/questions/${questionId}/images/${imageId}`);
+
+// ---- Reports (teacher, admin, own student) ----
+
+export const getStudentReportCard = (studentId: string) =>
+  get<ApiResponse<StudentReportCard>>(`/tests/reports/student/${studentId}/report-card`);
+
+// month is 1-12 and only applies together with year
+export const getMonthlyTestResults = (studentId: string, params?: { year?: number; month?: number }) =>
+  get<ApiResponse<MonthlyTestResults>>(`/tests/reports/student/${studentId}/monthly`, { params });
+
+export const getStudentInDepthStats = (studentId: string) =>
+  get<ApiResponse<StudentInDepthStats>>(`/tests/reports/student/${studentId}/stats`);
+
+export const getSubjectRankings = (batchId: string, subjectName: string) =>
+  get<ApiResponse<SubjectRankings>>(`/tests/rankings/batch/${batchId}/subject/${encodeURIComponent(subjectName)}`);
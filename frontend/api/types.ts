@@ -0,0 +1,1033 @@
+// Shared response types for the backend API
+
+export type Category = 'jee' | 'neet' | 'boards';
+
+// Standard envelope returned by most controllers
+export interface ApiResponse<T = undefined> {
+  success: boolean;
+  message?: string;
+  data: T;
+  count?: number;
+  error?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface UserSummary {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface User extends UserSummary {
+  role: 'user' | 'teacher' | 'admin' | 'parent';
+  phone: string;
+  class: string;
+  examCategory: Category | null;
+  avatar: string; // path under /uploads, '' when not set
+  isActive: boolean;
+  deactivatedAt: string | null;
+  children?: string[]; // linked students, parent accounts only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LoginResponse {
+  message: string;
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone?: string;
+    role: string;
+  };
+}
+
+export interface VerifyTokenResponse {
+  valid: boolean;
+  user: LoginResponse['user'];
+}
+
+// ---- Parents ----
+
+// A student as seen from a linked parent account
+export type LinkedStudent = UserSummary & Pick<User, 'class' | 'examCategory' | 'avatar'>;
+
+export interface ParentAccount extends UserSummary {
+  phone: string;
+  children: LinkedStudent[];
+  createdAt: string;
+}
+
+// ---- Batches ----
+
+export interface BatchSubject {
+  _id: string;
+  name: string;
+  teacher: UserSummary | string | null;
+}
+
+export interface StudentAssignment {
+  _id: string;
+  student: UserSummary | string;
+  assignedClasses: string[];
+  assignedSubjects: {
+    subjectId: string;
+    subjectName: string;
+    teacher: UserSummary | string | null;
+  }[];
+  enrolledAt: string;
+}
+
+export interface Batch {
+  _id: string;
+  batchName: string;
+  classes: string[];
+  subjects: BatchSubject[];
+  category: Category;
+  studentAssignments: StudentAssignment[];
+  createdBy: UserSummary | string;
+  schedule: string;
+  description: string;
+  isActive: boolean;
+  studentCount: number;
+  subjectCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Batch as the list and detail routes return it, with students, teachers and creator populated
+export interface PopulatedBatch extends Omit<Batch, 'subjects' | 'studentAssignments' | 'createdBy'> {
+  subjects: (BatchSubject & { teacher: UserSummary | null })[];
+  studentAssignments: (StudentAssignment & { student: UserSummary })[];
+  createdBy: UserSummary;
+}
+
+export interface BatchStatistics {
+  totalStudents: number;
+  totalSubjects: number;
+  totalClasses: number;
+  assignedTeachers: number;
+  unassignedSubjects: number;
+  isActive: boolean;
+}
+
+// Every student account, flagged with whether it is assigned to the batch
+export interface StudentAssignmentStatus extends UserSummary {
+  isAssigned: boolean;
+  assignedClasses: string[];
+  assignedSubjects: string[]; // subject names
+  enrolledAt?: string;
+}
+
+export interface BatchStudentAssignments {
+  batch: Batch;
+  students: StudentAssignmentStatus[];
+  availableClasses: string[];
+  availableSubjects: BatchSubject[];
+  statistics: BatchStatistics;
+}
+
+export interface BatchTeacherAssignments {
+  batch: Batch;
+  teachers: UserSummary[];
+  availableSubjects: BatchSubject[];
+  statistics: Pick<BatchStatistics, 'totalSubjects' | 'assignedTeachers' | 'unassignedSubjects'>;
+}
+
+export interface BatchStatisticsReport {
+  batch: Batch;
+  statistics: BatchStatistics & {
+    studentDetails: {
+      studentId: UserSummary;
+      assignedClasses: string[];
+      assignedSubjects: { name: string; teacher: string | null }[];
+      enrolledAt: string;
+    }[];
+  };
+}
+
+// ---- Tests ----
+
+export interface TestAssignment {
+  _id: string;
+  student: UserSummary;
+  marksScored: number | null;
+  submittedAt: string | null;
+  evaluatedAt: string | null;
+  // Per-question marks when the test has sections; empty when marks were entered as a total
+  questionMarks?: QuestionMark[];
+}
+
+// Part of an offline test's question paper, e.g. "Physics" or "Section A"
+export interface TestSection {
+  name: string;
+  questions: { label: string; maxMarks: number }[];
+}
+
+// A student's score in one section of a test
+export interface SectionScore {
+  name: string;
+  marksScored: number;
+  maxMarks: number;
+  percentage: number;
+  questions: { label: string; marks: number; maxMarks: number }[];
+}
+
+// Section scores summed across tests, weakest first in reports
+export interface SectionStat {
+  name: string;
+  tests: number;
+  marksScored: number;
+  maxMarks: number;
+  percentage: number;
+}
+
+export interface TestPdfInfo {
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+}
+
+export interface Test {
+  _id: string;
+  testTitle: string;
+  fullMarks: number;
+  createdBy: UserSummary;
+  batch: Pick<Batch, '_id' | 'batchName' | 'category'>;
+  className: string;
+  subjectName: string;
+  questionPdf?: TestPdfInfo;
+  answerPdf?: TestPdfInfo;
+  assignedStudents: TestAssignment[];
+  isActive: boolean;
+  dueDate: string | null;
+  instructions: string;
+  averageMarks: number;
+  averagePercentage: number;
+  completionPercentage: number;
+  evaluationPercentage: number;
+  highestMarks: number | null;
+  lowestMarks: number | null;
+  isExpired: boolean;
+  testType?: TestType;
+  durationMinutes?: number | null;
+  markingScheme?: MarkingScheme;
+  sections?: TestSection[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Returned after a student uploads the answer sheet for an offline test
+export interface AnswerSheetSubmission {
+  submittedAt: string;
+  pageCount: number;
+  fileSize: number;
+  isLate: boolean;
+}
+
+export type AnnotationKind = 'tick' | 'cross' | 'comment';
+
+// x and y are fractions of the displayed page, from its top-left corner
+export interface SheetAnnotation {
+  page: number;
+  kind: AnnotationKind;
+  x: number;
+  y: number;
+  text: string;
+}
+
+export interface QuestionMark {
+  label: string;
+  marks: number;
+}
+
+export interface AnswerSheetGrading {
+  testTitle: string;
+  fullMarks: number;
+  marksScored: number | null;
+  pageCount: number;
+  source: 'images' | 'pdf';
+  submittedAt: string;
+  annotations: SheetAnnotation[];
+  questionMarks: QuestionMark[];
+  // null while the annotations are a draft without marks
+  gradedAt: string | null;
+  // The test's marking scheme; when set, questionMarks use its labels
+  sections: TestSection[];
+}
+
+// ---- Online tests ----
+
+export type TestType = 'offline' | 'online';
+
+export type MarkingScheme = 'jee-main' | 'jee-advanced' | 'neet' | 'custom';
+
+export type QuestionType = 'single' | 'multiple' | 'integer' | 'numerical';
+
+// What a student sees while attempting; the answer fields arrive once the attempt is submitted
+export interface TestQuestion {
+  _id: string;
+  questionType: QuestionType;
+  questionText: string;
+  options: string[];
+  marks: number;
+  negativeMarks: number;
+  partialMarking: boolean;
+  correctOptions?: number[];
+  correctAnswer?: number | null;
+  tolerance?: number;
+  solution?: string;
+  images?: QuestionImage[];
+  // The bank question this one was copied from
+  bankQuestion?: string | null;
+}
+
+// A question as the teacher edits it; _id is missing until saved
+export interface TestQuestionInput {
+  _id?: string;
+  questionType: QuestionType;
+  questionText: string;
+  options: string[];
+  correctOptions: number[];
+  correctAnswer: number | null;
+  tolerance: number;
+  marks: number;
+  negativeMarks: number;
+  partialMarking: boolean;
+  solution: string;
+  // Read-only: copied from the bank and kept by the server while the question keeps its _id
+  images?: QuestionImage[];
+  bankQuestion?: string | null;
+}
+
+export interface AttemptAnswer {
+  questionId: string;
+  selectedOptions: number[];
+  value: number | null;
+  markedForReview: boolean;
+}
+
+export type QuestionResultStatus = 'correct' | 'partial' | 'incorrect' | 'unattempted';
+
+export interface QuestionResult {
+  questionId: string;
+  marksAwarded: number;
+  status: QuestionResultStatus;
+}
+
+export interface TestAttempt {
+  _id: string;
+  test: string;
+  student: string | UserSummary;
+  status: 'in_progress' | 'submitted';
+  startedAt: string;
+  endsAt: string;
+  submittedAt: string | null;
+  autoSubmitted: boolean;
+  score: number | null;
+  answers?: AttemptAnswer[];
+  results?: QuestionResult[];
+}
+
+export interface OnlineTestSummary {
+  _id: string;
+  testTitle: string;
+  subjectName: string;
+  className: string;
+  instructions: string;
+  fullMarks: number;
+  durationMinutes: number | null;
+  markingScheme: MarkingScheme;
+  dueDate: string | null;
+  questionCount: number;
+}
+
+export interface StudentOnlineTest extends OnlineTestSummary {
+  createdBy: UserSummary;
+  batch: Pick<Batch, '_id' | 'batchName'>;
+  isExpired: boolean;
+  attempt: TestAttempt | null;
+}
+
+export interface AttemptSession {
+  attempt: TestAttempt;
+  test: OnlineTestSummary;
+  questions: TestQuestion[];
+  // False until the due date passes or everyone assigned has submitted; until then the
+  // questions carry no answers or solutions and the attempt has no per-question results
+  answerKeyReleased: boolean;
+  serverTime: string;
+}
+
+// Default marks per question type under a scheme
+export type MarkingSchemeDefaults = Record<
+  MarkingScheme,
+  Record<QuestionType, { marks: number; negativeMarks: number; partialMarking: boolean }>
+>;
+
+// ---- Test reports ----
+
+export type Grade = 'A+' | 'A' | 'B+' | 'B' | 'C' | 'D' | 'F';
+
+export type ReportTestBatch = Pick<Batch, '_id' | 'batchName' | 'category'>;
+
+// Subjects of a batch the signed-in teacher teaches
+export interface TeacherBatchSubjects {
+  batch: Pick<Batch, '_id' | 'batchName' | 'category' | 'classes'>;
+  subjects: { name: string; teacher: UserSummary }[];
+}
+
+// Percentages in the student reports below are strings with two decimals
+export interface StudentSubjectReport {
+  subjectName: string;
+  tests: {
+    testId: string;
+    testTitle: string;
+    fullMarks: number;
+    marksScored: number | null;
+    className: string;
+    createdAt: string;
+    evaluatedAt: string | null;
+    batch: ReportTestBatch;
+    percentage: string | null;
+  }[];
+  totalTests: number;
+  evaluatedTests: number;
+  averagePercentage: number;
+  totalMarks: number;
+  totalFullMarks: number;
+}
+
+export interface ReportTest {
+  testId: string;
+  testTitle: string;
+  fullMarks: number;
+  marksScored: number | null;
+  className: string;
+  subjectName: string;
+  testType: TestType;
+  createdAt: string;
+  dueDate: string | null;
+  submittedAt: string | null;
+  evaluatedAt: string | null;
+  batch: ReportTestBatch;
+  createdBy: UserSummary;
+  assignment?: ReportSubjectAssignment;
+  percentage: string | null;
+  status: 'evaluated' | 'submitted' | 'pending';
+  isLate: boolean;
+  hasQuestionPdf: boolean;
+  hasAnswerPdf: boolean;
+  hasCheckedSheet: boolean;
+}
+
+export interface ReportSubjectAssignment {
+  batchId: string;
+  batchName: string;
+  category: Category;
+  subjectName: string;
+  classes: string[];
+}
+
+// Students without a batch get empty lists and no statistics
+export interface ComprehensiveReports {
+  batches: (Pick<PopulatedBatch, '_id' | 'batchName' | 'category' | 'classes' | 'subjects'> & {
+    userAssignment?: StudentAssignment;
+  })[];
+  tests: ReportTest[];
+  userAssignments?: ReportSubjectAssignment[];
+  statistics?: {
+    totalTests: number;
+    evaluatedTests: number;
+    pendingTests: number;
+    averagePercentage: string;
+    totalMarksScored: number;
+    totalFullMarks: number;
+  };
+}
+
+export interface ReportOverallStats {
+  totalTests: number;
+  evaluatedTests: number;
+  pendingTests: number;
+  totalMarksScored: number;
+  totalFullMarks: number;
+  averagePercentage: number;
+  overallGrade: Grade;
+}
+
+export interface SubjectReportCard {
+  subjectName: string;
+  batch: ReportTestBatch;
+  tests: {
+    testId: string;
+    testTitle: string;
+    fullMarks: number;
+    marksScored: number | null;
+    className: string;
+    createdAt: string;
+    evaluatedAt: string | null;
+    percentage: number | null;
+    status: 'evaluated' | 'pending';
+    sections: SectionScore[];
+  }[];
+  totalTests: number;
+  evaluatedTests: number;
+  totalMarksScored: number;
+  totalFullMarks: number;
+  averagePercentage: number;
+  highestScore: number;
+  lowestScore: number | null;
+  grade: Grade | null;
+  sectionStats: SectionStat[];
+}
+
+// Students without a batch get an empty report card, and no pendingTests or overallGrade
+export interface StudentReportCard {
+  student: UserSummary;
+  reportCard: SubjectReportCard[];
+  overallStats: Omit<ReportOverallStats, 'pendingTests' | 'overallGrade'> &
+    Partial<Pick<ReportOverallStats, 'pendingTests' | 'overallGrade'>>;
+}
+
+export interface MonthlyTestResult {
+  year: number;
+  month: number; // 1-12
+  monthName: string;
+  tests: {
+    testId: string;
+    testTitle: string;
+    subjectName: string;
+    className: string;
+    fullMarks: number;
+    marksScored: number | null;
+    percentage: number | null;
+    createdAt: string;
+    evaluatedAt: string | null;
+    batch: ReportTestBatch;
+  }[];
+  totalTests: number;
+  evaluatedTests: number;
+  totalMarksScored: number;
+  totalFullMarks: number;
+  averagePercentage: number;
+  // Evaluated tests only, keyed by subject name
+  subjectBreakdown: Record<
+    string,
+    { totalTests: number; totalMarksScored: number; totalFullMarks: number; averagePercentage: number }
+  >;
+}
+
+export interface MonthlyTestResults {
+  student: UserSummary;
+  monthlyResults: MonthlyTestResult[]; // newest first
+  totalMonths: number;
+}
+
+export interface SubjectStats {
+  subjectName: string;
+  totalTests: number;
+  evaluatedTests: number;
+  totalMarksScored: number;
+  totalFullMarks: number;
+  averagePercentage: number;
+  highestScore: number;
+  lowestScore: number | null;
+  scores: { percentage: number; date: string }[];
+  grade: Grade | null;
+  improvement: number; // last three tests against the first three, once there are six
+  sectionStats: SectionStat[];
+}
+
+// overallStats is empty for students without a batch
+export interface StudentInDepthStats {
+  student: UserSummary;
+  overallStats: Partial<ReportOverallStats & { totalSubjects: number }>;
+  subjectStats: SubjectStats[];
+  performanceTrends: { testId: string; testTitle: string; subjectName: string; percentage: number; date: string }[];
+  strengths: Pick<SubjectStats, 'subjectName' | 'averagePercentage' | 'grade'>[];
+  weaknesses: Pick<SubjectStats, 'subjectName' | 'averagePercentage' | 'grade' | 'improvement'>[];
+}
+
+export interface SubjectRankings {
+  batch: Pick<Batch, '_id' | 'batchName'> & Partial<Pick<Batch, 'category'>>;
+  subjectName: string;
+  rankings: {
+    rank: number;
+    student: UserSummary;
+    totalTests: number;
+    evaluatedTests: number;
+    totalMarksScored: number;
+    totalFullMarks: number;
+    averagePercentage: number;
+    grade: Grade;
+    testScores: number[];
+    sectionStats: SectionStat[];
+  }[];
+  totalStudents: number;
+  totalTests?: number;
+}
+
+// ---- Question bank ----
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type ExamCategory = 'jee' | 'neet' | 'boards';
+
+export interface QuestionImage {
+  _id: string;
+  mimeType: string;
+  originalName: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// questionText may contain LaTeX between $...$ or $$...$$
+export interface BankQuestion {
+  _id: string;
+  questionType: QuestionType;
+  questionText: string;
+  images: QuestionImage[];
+  options: string[];
+  correctOptions: number[];
+  correctAnswer: number | null;
+  tolerance: number;
+  solution: string;
+  subject: string;
+  chapter: string;
+  topic: string;
+  difficulty: QuestionDifficulty;
+  examCategories: ExamCategory[];
+  createdBy: string | Pick<UserSummary, '_id' | 'name'>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A subject/chapter/topic combination in use, with how many questions carry it
+export interface QuestionTag {
+  subject: string;
+  chapter: string;
+  topic: string;
+  count: number;
+}
+
+// ---- Enrollments ----
+
+export type CourseType = 'UnpaidCourse' | 'PaidCourse';
+
+export interface PaymentDetails {
+  razorpayOrderId?: string | null;
+  razorpayPaymentId?: string | null;
+  razorpaySignature?: string | null;
+  amount: number;
+  currency: string;
+  paymentMethod?: string;
+  paidAt?: string | null;
+}
+
+// Latest refund request on an enrollment or notes purchase
+export interface RefundInfo {
+  status: 'none' | 'requested' | 'refunded' | 'denied';
+  amount: number;
+  requestedAt?: string | null;
+  processedAt?: string | null;
+}
+
+// Everything checkout needs; amount is in paise
+export interface RazorpayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt?: string;
+  keyId: string;
+  paymentId: string; // our Payment record
+  originalAmount: number; // rupees, before any coupon
+  couponCode: string | null;
+  discount: number; // rupees
+}
+
+// How a paid course can be split into installments (PaidCourse.installmentPlan)
+export interface InstallmentPlan {
+  enabled: boolean;
+  installments: number;
+  intervalDays: number;
+  gracePeriodDays: number; // days after a due date before access is suspended
+}
+
+// How long an enrollment in a paid course lasts (PaidCourse.validity)
+export interface CourseValidity {
+  kind: 'months' | 'fixed' | 'lifetime';
+  months: number; // used when kind is 'months'
+  endDate: string | null; // used when kind is 'fixed'
+  renewalPrice: number | null; // rupees; null renews at the course price
+}
+
+export interface Installment {
+  number: number;
+  amount: number; // rupees
+  dueDate: string;
+  status: 'pending' | 'paid';
+  paymentId: string | null;
+  paidAt: string | null;
+}
+
+export interface Enrollment {
+  _id: string;
+  studentId: string | UserSummary;
+  courseId: string | Record<string, any>;
+  courseType: CourseType;
+  enrollmentStatus: 'pending' | 'enrolled' | 'cancelled' | 'expired';
+  paymentStatus: 'not_required' | 'pending' | 'completed' | 'failed' | 'refunded';
+  paymentDetails: PaymentDetails;
+  paymentPlan: 'full' | 'installments';
+  installments: Installment[];
+  installmentGraceDays: number;
+  isSuspended?: boolean; // an installment is overdue past its grace period
+  refund?: RefundInfo;
+  mode: 'online' | 'offline' | 'hybrid';
+  schedule: string;
+  enrolledAt: string;
+  expiresAt?: string;
+  renewals?: { paymentId: string; previousExpiresAt: string | null; expiresAt: string | null; renewedAt: string }[];
+  progress: {
+    completedVideos: { videoId: string; completedAt: string; watchTime: number }[];
+    // Seconds; watchTime is the furthest point reached
+    videoProgress?: { videoId: string; lastPosition: number; watchTime: number; duration: number; updatedAt: string }[];
+    overallProgress: number; // percent of the course's videos completed
+    lastAccessedAt: string;
+  };
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---- Payments ----
+
+export type PaymentItemType = 'PaidCourse' | 'UnpaidCourse' | 'PaidNotes' | 'PaidMaterials' | 'Bundle';
+
+export interface Payment {
+  _id: string;
+  studentId: string;
+  itemType: PaymentItemType;
+  itemId: string;
+  itemTitle: string;
+  amount: number; // rupees
+  originalAmount: number | null;
+  installmentNumber: number | null; // set when paying one installment of a course
+  purpose: 'purchase' | 'renewal';
+  coupon?: { couponId: string | null; code: string | null; discount: number };
+  currency: string;
+  status: 'created' | 'captured' | 'failed' | 'refunded';
+  receipt: string;
+  razorpayOrderId: string;
+  razorpayPaymentId: string | null;
+  method: string | null;
+  failureReason: string | null;
+  capturedAt: string | null;
+  refundedAt: string | null;
+  refundedAmount: number;
+  invoiceNumber: string | null; // set once the payment is captured
+  invoicedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---- Bundles ----
+
+export interface BundleItem {
+  _id: string;
+  price: number;
+  category: Category;
+  isActive: boolean;
+}
+
+export interface Bundle {
+  _id: string;
+  bundleTitle: string;
+  description: string;
+  category: Category;
+  class: string;
+  courses: (BundleItem & { courseTitle: string })[];
+  notes: (BundleItem & { notesTitle: string })[];
+  materials: (BundleItem & { materialTitle: string })[];
+  price: number; // rupees
+  itemsValue: number; // the items' prices added up
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Ids only; the admin form sends these back when saving
+export interface BundleInput {
+  bundleTitle: string;
+  description: string;
+  category: Category;
+  class: string;
+  courses: string[];
+  notes: string[];
+  materials: string[];
+  price: number;
+  isActive: boolean;
+}
+
+export interface BundlePurchase {
+  _id: string;
+  studentId: string;
+  bundleId: string | Pick<Bundle, '_id' | 'bundleTitle' | 'category' | 'price'>;
+  bundleTitle: string;
+  status: 'pending' | 'completed' | 'cancelled';
+  courses: string[];
+  notes: string[];
+  materials: string[];
+  paymentId: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---- Coupons ----
+
+// What a coupon takes off an item, from POST /coupons/validate
+export interface CouponPreview {
+  code: string;
+  description: string;
+  discount: number;
+  originalAmount: number;
+  finalAmount: number;
+}
+
+// ---- Purchased notes ----
+
+export interface PurchasedNotes {
+  _id: string;
+  studentId: string | UserSummary;
+  notesId: string | Record<string, any>;
+  purchaseStatus: 'pending' | 'completed' | 'failed' | 'cancelled';
+  paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded';
+  paymentDetails: PaymentDetails;
+  refund?: RefundInfo;
+  accessDetails: {
+    grantedAt: string | null;
+    expiresAt: string | null;
+    accessCount: number;
+    lastAccessedAt: string | null;
+  };
+  downloadHistory: { pdfId: string; downloadedAt: string }[];
+  isActive: boolean;
+  purchasedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---- Refunds ----
+
+export type RefundRecordType = 'Enrollment' | 'PurchasedNotes';
+
+export interface RefundRequest {
+  _id: string;
+  studentId: string | UserSummary;
+  recordType: RefundRecordType;
+  recordId: string;
+  paymentId: string;
+  itemTitle: string;
+  paidAmount: number; // rupees
+  reason: string;
+  status: 'pending' | 'approved' | 'denied';
+  refundAmount: number | null;
+  adminNote: string;
+  reviewedBy: string | Pick<UserSummary, '_id' | 'name'> | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---- Analytics ----
+
+// Amounts are rupees; revenue is net of refunds unless marked gross
+export interface RevenueAnalytics {
+  from: string;
+  to: string;
+  groupBy: 'day' | 'month';
+  summary: {
+    grossRevenue: number;
+    refunds: number;
+    netRevenue: number;
+    discounts: number;
+    orders: number;
+    buyers: number;
+    averageOrderValue: number;
+  };
+  timeline: { period: string; revenue: number; refunds: number; orders: number }[];
+}
+
+export interface SalesAnalytics {
+  from: string;
+  to: string;
+  byCategory: { category: Category | 'other'; revenue: number; orders: number }[];
+  byItemType: { itemType: PaymentItemType; revenue: number; orders: number }[];
+  topItems: {
+    itemType: PaymentItemType;
+    itemId: string;
+    title: string;
+    category: Category | 'other';
+    revenue: number;
+    orders: number;
+  }[];
+}
+
+// Lifetime views against purchases; only notes and materials count views
+export interface ConversionAnalytics {
+  totalViews: number;
+  totalPurchases: number;
+  conversionRate: number; // percent
+  items: {
+    itemType: 'PaidNotes' | 'PaidMaterials';
+    itemId: string;
+    title: string;
+    category: Category;
+    views: number;
+    purchases: number;
+    conversionRate: number;
+  }[];
+}
+
+// ---- Calendar ----
+
+export interface CalendarEvent {
+  _id: string;
+  title: string;
+  description: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  type: 'class' | 'exam' | 'assignment' | 'meeting' | 'other';
+  batchId: string | Pick<Batch, '_id' | 'batchName'>;
+  createdBy: string | UserSummary;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// As a batch's calendar returns them, and as created or updated
+export type BatchCalendarEvent = Omit<CalendarEvent, 'batchId' | 'createdBy'> & {
+  batchId: string;
+  createdBy: UserSummary;
+};
+
+// As a student's calendar returns them, across all their batches
+export type StudentCalendarEvent = Omit<CalendarEvent, 'batchId' | 'createdBy'> & {
+  batchId: Pick<Batch, '_id' | 'batchName'>;
+  createdBy: UserSummary;
+};
+
+// ---- Attendance ----
+
+export type AttendanceStatus = 'present' | 'absent' | 'no_class';
+
+export interface AttendanceRecord {
+  _id: string;
+  batch: string | Pick<Batch, '_id' | 'batchName'>;
+  subject: string;
+  teacher: string | UserSummary;
+  date: string;
+  studentAttendance: {
+    student: string | UserSummary;
+    status: AttendanceStatus;
+    markedAt: string;
+  }[];
+}
+
+export interface AttendanceStats {
+  present: number;
+  absent: number;
+  noClass: number;
+  totalClasses: number; // present + absent; no_class days don't count
+  attendancePercentage: number;
+}
+
+export interface AttendanceEntry {
+  date: string;
+  status: AttendanceStatus;
+  markedAt: string;
+}
+
+// Students of a batch assigned to the subject being marked
+export interface AttendanceRoster {
+  batch: Pick<Batch, '_id' | 'batchName'>;
+  subject: string;
+  students: { student: UserSummary; enrolledAt: string }[];
+}
+
+export interface StudentAttendanceStats {
+  statistics: AttendanceStats;
+  recentAttendance: AttendanceEntry[]; // last 10 classes
+}
+
+export interface SubjectAttendance {
+  subjectName: string;
+  batchId: string;
+  batchName: string;
+  teacherName: string;
+  statistics: AttendanceStats;
+  recentAttendance: AttendanceEntry[];
+}
+
+export interface StudentAttendanceRecords {
+  batches: {
+    batchId: string;
+    batchName: string;
+    category: Category;
+    assignedSubjects: { subjectName: string; teacherId: string | null; teacherName: string }[];
+  }[];
+  subjectAttendance: SubjectAttendance[];
+  overallStats: {
+    totalClassesAcrossSubjects: number;
+    totalPresentAcrossSubjects: number;
+    overallAttendancePercentage: number;
+    totalSubjects: number;
+  };
+}
+
+export interface AttendanceMarker {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface StudentAttendanceSummary {
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+  batchId: string;
+  batchName: string;
+  batchCategory: Category;
+  enrolledAt: string;
+  subjects: {
+    subjectName: string;
+    teacher: AttendanceMarker | null;
+    statistics: AttendanceStats;
+    attendanceRecords: (AttendanceEntry & { markedBy: AttendanceMarker | null })[];
+  }[];
+  overallStatistics: AttendanceStats & { totalSubjects: number };
+}
+
+// Sorted by overall attendance, lowest first
+export interface ComprehensiveAttendance {
+  systemStatistics: {
+    totalStudents: number;
+    totalBatches: number;
+    averageAttendance: number;
+    studentsBelow75: number;
+    studentsBelow50: number;
+  };
+  students: StudentAttendanceSummary[];
+}
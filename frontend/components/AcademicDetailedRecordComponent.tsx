@@ -9,10 +9,7 @@ import {
   Alert,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
-
-const API_URL = API_BASE;
+import { ApiError, StudentReportCard, testsApi } from '../api';
 
 const BRAND = {
   primaryColor: '#00ff88',
@@ -22,54 +19,6 @@ const BRAND = {
   textSecondary: '#cccccc',
 };
 
-interface TestScore {
-  testId: string;
-  testTitle: string;
-  fullMarks: number;
-  marksScored: number | null;
-  className: string;
-  createdAt: string;
-  evaluatedAt: string | null;
-  percentage: number | null;
-  status: 'evaluated' | 'pending';
-}
-
-interface SubjectReport {
-  subjectName: string;
-  batch: {
-    _id: string;
-    batchName: string;
-    category: string;
-  };
-  tests: TestScore[];
-  totalTests: number;
-  evaluatedTests: number;
-  totalMarksScored: number;
-  totalFullMarks: number;
-  averagePercentage: number;
-  highestScore: number;
-  lowestScore: number | null;
-  grade: string;
-}
-
-interface StudentReportCard {
-  student: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  reportCard: SubjectReport[];
-  overallStats: {
-    totalTests: number;
-    evaluatedTests: number;
-    pendingTests: number;
-    totalMarksScored: number;
-    totalFullMarks: number;
-    averagePercentage: number;
-    overallGrade: string;
-  };
-}
-
 interface AcademicDetailedRecordProps {
   studentId: string;
   studentName: string;
@@ -91,34 +40,13 @@ export default function AcademicDetailedRecordComponent({
 
   const fetchReportCard = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      if (!token) {
-        Alert.alert('Error', 'Authentication required');
-        return;
-      }
-
-      const response = await fetch(`${API_URL}/tests/reports/student/${studentId}/report-card`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        throw new Error('Server returned non-JSON response');
-      }
-
-      const data = await response.json();
-
-      if (data.success) {
-        setReportCard(data.data);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch report card');
-      }
+      const data = await testsApi.getStudentReportCard(studentId);
+      setReportCard(data.data);
     } catch (error) {
       console.error('Fetch error:', error);
-      Alert.alert('Error', 'Failed to load academic reports');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Failed to load academic reports' : error.message);
+      }
     } finally {
       setLoading(false);
     }
@@ -136,7 +64,8 @@ export default function AcademicDetailedRecordComponent({
     });
   };
 
-  const getGradeColor = (grade: string): string => {
+  // grade is missing until a test has been evaluated
+  const getGradeColor = (grade?: string | null): string => {
     if (grade === 'A+' || grade === 'A') return '#4CAF50';
     if (grade === 'B+' || grade === 'B') return '#8BC34A';
     if (grade === 'C') return '#FF9800';
@@ -309,6 +238,36 @@ export default function AcademicDetailedRecordComponent({
           {/* Test Details */}
           {expandedSubjects.has(subject.subjectName) && (
             <View style={styles.testDetailsContainer}>
+              {!!subject.sectionStats?.length && (
+                <View style={styles.sectionStatsContainer}>
+                  <Text style={styles.testDetailsTitle}>Section-wise Performance</Text>
+                  {subject.sectionStats.map((section) => (
+                    <View key={section.name} style={styles.sectionStatRow}>
+                      <View style={styles.sectionStatHeader}>
+                        <Text style={styles.sectionStatName}>{section.name}</Text>
+                        <Text style={[styles.sectionStatPercentage, { color: getPercentageColor(section.percentage) }]}>
+                          {section.percentage.toFixed(1)}%
+                        </Text>
+                      </View>
+                      <View style={styles.sectionBarTrack}>
+                        <View
+                          style={[
+                            styles.sectionBarFill,
+                            {
+                              width: `${Math.min(100, section.percentage)}%`,
+                              backgroundColor: getPercentageColor(section.percentage),
+                            },
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.sectionStatMeta}>
+                        {section.marksScored}/{section.maxMarks} marks, {Math.round((section.maxMarks - section.marksScored) * 100) / 100} lost over {section.tests} {section.tests === 1 ? 'test' : 'tests'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
               <Text style={styles.testDetailsTitle}>Test History</Text>
               {subject.tests.length === 0 ? (
                 <Text style={styles.noTestsText}>No tests available</Text>
@@ -319,6 +278,17 @@ export default function AcademicDetailedRecordComponent({
                       <Text style={styles.testTitle}>{test.testTitle}</Text>
                       <Text style={styles.testClass}>{test.className}</Text>
                       <Text style={styles.testDate}>{formatDate(test.createdAt)}</Text>
+                      {!!test.sections?.length && (
+                        <View style={styles.testSections}>
+                          {test.sections.map((section) => (
+                            <View key={section.name} style={styles.testSectionChip}>
+                              <Text style={[styles.testSectionText, { color: getPercentageColor(section.percentage) }]}>
+                                {section.name} {section.marksScored}/{section.maxMarks}
+                              </Text>
+                            </View>
+                          ))}
+                        </View>
+                      )}
                     </View>
                     <View style={styles.testRight}>
                       {test.status === 'evaluated' ? (
@@ -623,4 +593,56 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  sectionStatsContainer: {
+    marginBottom: 16,
+  },
+  sectionStatRow: {
+    marginBottom: 12,
+  },
+  sectionStatHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  sectionStatName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textPrimary,
+  },
+  sectionStatPercentage: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  sectionBarTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  sectionBarFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  sectionStatMeta: {
+    fontSize: 12,
+    color: BRAND.textSecondary,
+    marginTop: 4,
+  },
+  testSections: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+    gap: 6,
+  },
+  testSectionChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  testSectionText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { AnswerSheetSubmission, ApiError, testsApi } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  textPrimary: '#ffffff',
+  textSecondary: '#b0b0b0',
+  warningColor: '#ffaa00',
+  dangerColor: '#ff4444',
+};
+
+const MAX_PAGES = 20;
+
+interface PickedFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+const toPickedImage = (asset: ImagePicker.ImagePickerAsset): PickedFile => {
+  const name = asset.fileName || asset.uri.split('/').pop() || 'page.jpg';
+  return {
+    uri: asset.uri,
+    name,
+    type: asset.mimeType || (/\.png$/i.test(name) ? 'image/png' : 'image/jpeg'),
+  };
+};
+
+interface AnswerSheetUploadModalProps {
+  visible: boolean;
+  testId: string;
+  testTitle: string;
+  // Submitting again replaces the earlier answer sheet
+  alreadySubmitted: boolean;
+  onSubmitted: (submission: AnswerSheetSubmission) => void;
+  onClose: () => void;
+}
+
+const AnswerSheetUploadModal: React.FC<AnswerSheetUploadModalProps> = ({
+  visible,
+  testId,
+  testTitle,
+  alreadySubmitted,
+  onSubmitted,
+  onClose,
+}) => {
+  const [pages, setPages] = useState<PickedFile[]>([]);
+  const [pdf, setPdf] = useState<PickedFile | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPages([]);
+    setPdf(null);
+  }, [visible]);
+
+  const addPages = (assets: ImagePicker.ImagePickerAsset[]) => {
+    setPdf(null);
+    setPages((current) => [...current, ...assets.map(toPickedImage)].slice(0, MAX_PAGES));
+  };
+
+  const takePhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Please grant camera permissions to photograph your answer sheet.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.6 });
+      if (!result.canceled && result.assets?.length) {
+        addPages(result.assets);
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const pickPhotos = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission needed', 'Please grant media library permissions to add pages.');
+          return;
+        }
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_PAGES - pages.length,
+        quality: 0.6,
+      });
+      if (!result.canceled && result.assets?.length) {
+        addPages(result.assets);
+      }
+    } catch (error) {
+      console.error('Error picking photos:', error);
+      Alert.alert('Error', 'Failed to pick photos');
+    }
+  };
+
+  const pickPdf = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/pdf',
+        copyToCacheDirectory: true,
+      });
+
+      if (!result.canceled && result.assets && result.assets[0]) {
+        const file = result.assets[0];
+        setPages([]);
+        setPdf({ uri: file.uri, name: file.name, type: 'application/pdf' });
+      }
+    } catch (error) {
+      console.error('Error picking PDF:', error);
+      Alert.alert('Error', 'Failed to pick PDF file');
+    }
+  };
+
+  const movePage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) return;
+    setPages((current) => {
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const files = pdf ? [pdf] : pages;
+    if (!files.length) {
+      Alert.alert('No pages', 'Add photos of your answer sheet or a PDF first');
+      return;
+    }
+
+    const formData = new FormData();
+    files.forEach((file) => formData.append('pages', file as any));
+
+    setUploading(true);
+    try {
+      const response = await testsApi.submitAnswerSheet(testId, formData);
+      onSubmitted(response.data);
+      Alert.alert(
+        'Submitted',
+        response.data.isLate
+          ? 'Your answer sheet was submitted after the due date.'
+          : 'Your answer sheet has been submitted.'
+      );
+    } catch (error) {
+      console.error('Error submitting answer sheet:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to submit answer sheet');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Submit Answer Sheet</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{testTitle}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={uploading}>
+              <MaterialIcons name="close" size={24} color={BRAND.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {alreadySubmitted && (
+            <View style={styles.notice}>
+              <MaterialIcons name="info-outline" size={16} color={BRAND.warningColor} />
+              <Text style={styles.noticeText}>Submitting again replaces your earlier answer sheet.</Text>
+            </View>
+          )}
+
+          <View style={styles.sourceRow}>
+            <TouchableOpacity style={styles.sourceButton} onPress={takePhoto} disabled={uploading}>
+              <MaterialIcons name="photo-camera" size={22} color={BRAND.primaryColor} />
+              <Text style={styles.sourceText}>Camera</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.sourceButton} onPress={pickPhotos} disabled={uploading}>
+              <MaterialIcons name="photo-library" size={22} color={BRAND.primaryColor} />
+              <Text style={styles.sourceText}>Gallery</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.sourceButton} onPress={pickPdf} disabled={uploading}>
+              <MaterialIcons name="picture-as-pdf" size={22} color={BRAND.primaryColor} />
+              <Text style={styles.sourceText}>PDF</Text>
+            </TouchableOpacity>
+          </View>
+
+          {pdf ? (
+            <View style={styles.pdfRow}>
+              <MaterialIcons name="picture-as-pdf" size={28} color={BRAND.dangerColor} />
+              <Text style={styles.pdfName} numberOfLines={1}>{pdf.name}</Text>
+              <TouchableOpacity onPress={() => setPdf(null)} disabled={uploading}>
+                <MaterialIcons name="close" size={20} color={BRAND.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ) : pages.length > 0 ? (
+            <>
+              <Text style={styles.pagesLabel}>
+                {pages.length} page{pages.length === 1 ? '' : 's'} · in the order they'll appear
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {pages.map((page, index) => (
+                  <View key={page.uri} style={styles.page}>
+                    <Image source={{ uri: page.uri }} style={styles.pageImage} />
+                    <Text style={styles.pageNumber}>{index + 1}</Text>
+                    <TouchableOpacity
+                      style={styles.removePage}
+                      onPress={() => setPages((current) => current.filter((_, i) => i !== index))}
+                      disabled={uploading}
+                    >
+                      <MaterialIcons name="close" size={14} color="#fff" />
+                    </TouchableOpacity>
+                    <View style={styles.pageMoves}>
+                      <TouchableOpacity onPress={() => movePage(index, -1)} disabled={uploading || index === 0}>
+                        <MaterialIcons name="chevron-left" size={20} color={index === 0 ? '#555' : BRAND.textPrimary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => movePage(index, 1)}
+                        disabled={uploading || index === pages.length - 1}
+                      >
+                        <MaterialIcons
+                          name="chevron-right"
+                          size={20}
+                          color={index === pages.length - 1 ? '#555' : BRAND.textPrimary}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          ) : (
+            <Text style={styles.emptyText}>
+              Photograph each page in order, or attach a single PDF (up to {MAX_PAGES} pages, 15MB in total).
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, (uploading || (!pdf && !pages.length)) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={uploading || (!pdf && !pages.length)}
+          >
+            {uploading ? (
+              <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+            ) : (
+              <>
+                <MaterialIcons name="cloud-upload" size={18} color={BRAND.backgroundColor} />
+                <Text style={styles.submitText}>Submit</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 24,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: BRAND.textPrimary,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 170, 0, 0.1)',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 16,
+  },
+  noticeText: {
+    color: BRAND.warningColor,
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  sourceButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.3)',
+    backgroundColor: BRAND.accentColor,
+  },
+  sourceText: {
+    color: BRAND.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  pdfRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 12,
+    padding: 12,
+  },
+  pdfName: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 14,
+    marginHorizontal: 10,
+  },
+  pagesLabel: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  page: {
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  pageImage: {
+    width: 90,
+    height: 120,
+    borderRadius: 8,
+    backgroundColor: BRAND.accentColor,
+  },
+  pageNumber: {
+    position: 'absolute',
+    top: 4,
+    left: 4,
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    overflow: 'hidden',
+  },
+  removePage: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 10,
+    padding: 2,
+  },
+  pageMoves: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: BRAND.backgroundColor,
+    fontSize: 16,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+});
+
+export default AnswerSheetUploadModal;
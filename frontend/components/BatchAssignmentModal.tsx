@@ -4,8 +4,15 @@ import {
   Alert, SafeAreaView, StyleSheet, ScrollView, ActivityIndicator,
   RefreshControl, StatusBar, GestureResponderEvent
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
+import {
+  ApiError,
+  Batch,
+  BatchStatistics,
+  BatchSubject,
+  StudentAssignmentStatus,
+  UserSummary,
+  batchesApi,
+} from '../api';
 
 // Brand configuration
 const BRAND = {
@@ -20,61 +27,9 @@ const BRAND = {
   infoColor: '#2196f3',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Enhanced timeout wrapper with proper typing
-const fetchWithTimeout = (url: string, options: RequestInit, timeoutMs: number = 15000): Promise<Response> => {
-  return new Promise((resolve, reject) => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-      reject(new Error('Request timeout'));
-    }, timeoutMs);
-
-    fetch(url, { ...options, signal: controller.signal })
-      .then((response) => {
-        clearTimeout(timeoutId);
-        resolve(response);
-      })
-      .catch((error) => {
-        clearTimeout(timeoutId);
-        if (error.name === 'AbortError') {
-          reject(new Error('Request timeout'));
-        } else {
-          reject(error);
-        }
-      });
-  });
-};
-
-interface User {
-  _id: string;
-  name: string;
-  email: string;
-  role: 'user' | 'teacher';
-  isAssigned?: boolean;
-  assignedClasses?: string[];
-  assignedSubjects?: string[];
-  enrolledAt?: string;
-}
-
-interface Subject {
-  _id?: string;
-  name: string;
-  teacher?: User | string;
-}
-
-interface Batch {
-  _id?: string;
-  batchName: string;
-  classes: string[];
-  subjects: Subject[];
-  category: 'jee' | 'neet' | 'boards';
-  students: User[];
-  schedule: string;
-  description: string;
-  isActive: boolean;
-}
+// Students come flagged with their assignment to the batch; teachers are plain accounts
+type User = UserSummary &
+  Partial<Pick<StudentAssignmentStatus, 'isAssigned' | 'assignedClasses' | 'assignedSubjects' | 'enrolledAt'>>;
 
 interface StudentAssignment {
   studentId: string;
@@ -88,41 +43,25 @@ interface TeacherAssignment {
 }
 
 interface BatchData {
-  batch: Batch;
-  students?: User[];
-  teachers?: User[];
+  students?: StudentAssignmentStatus[];
+  teachers?: UserSummary[];
   availableClasses?: string[];
-  availableSubjects?: Subject[];
-  statistics?: {
-    totalStudents: number;
-    totalSubjects: number;
-    totalClasses: number;
-    assignedTeachers: number;
-    unassignedSubjects: number;
-    isActive: boolean;
-  };
+  availableSubjects?: BatchSubject[];
+  // Teacher assignments leave out the student and class counts
+  statistics?: Pick<BatchStatistics, 'totalSubjects' | 'assignedTeachers' | 'unassignedSubjects'> &
+    Partial<BatchStatistics>;
 }
 
 interface BatchAssignmentModalProps {
   visible: boolean;
   onClose: () => void;
-  batch: Batch | null;
+  batch: Pick<Batch, '_id' | 'batchName' | 'category' | 'classes'> | null;
   type: 'assign_students' | 'remove_students' | 'assign_teachers' | 'view_assignments';
   onAssign?: (assignments: StudentAssignment[] | TeacherAssignment[]) => void;
   onRemove?: (userIds: string[]) => void;
   onSuccess?: () => void; // Added for refresh callback
 }
 
-interface ApiResponse {
-  success: boolean;
-  data?: BatchData;
-  message?: string;
-}
-
-interface ApiError {
-  message?: string;
-}
-
 export default function BatchAssignmentModal({
   visible,
   onClose,
@@ -149,35 +88,6 @@ export default function BatchAssignmentModal({
     }
   }, [visible, type, batch?._id]);
 
-  const getAuthHeaders = async (): Promise<Record<string, string>> => {
-    try {
-      const tokenKeys = ['authToken', 'token', 'userToken', 'accessToken'];
-      let token: string | null = null;
-      
-      for (const key of tokenKeys) {
-        token = await AsyncStorage.getItem(key);
-        if (token) break;
-      }
-      
-      const headers: Record<string, string> = { 
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      };
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      return headers;
-    } catch (error) {
-      console.error('Error getting auth headers:', error);
-      return { 
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      };
-    }
-  };
-
   const resetState = () => {
     setSearchText('');
     setSelectedUsers([]);
@@ -194,85 +104,31 @@ export default function BatchAssignmentModal({
     setError(null);
     
     try {
-      const headers = await getAuthHeaders();
-      let endpoint = '';
-      
-      switch (type) {
-        case 'assign_students':
-        case 'remove_students':
-        case 'view_assignments':
-          endpoint = `${API_BASE_URL}/batches/${batch._id}/students-assignments`;
-          break;
-        case 'assign_teachers':
-          endpoint = `${API_BASE_URL}/batches/${batch._id}/teachers-assignments`;
-          break;
-        default:
-          throw new Error('Invalid assignment type');
-      }
-
-      console.log('Loading data from:', endpoint);
-
-      const response = await fetchWithTimeout(endpoint, {
-        method: 'GET',
-        headers,
-      }, 15000);
-
-      console.log('Response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error response:', errorText);
-        
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. Administrator privileges required.');
-        } else if (response.status === 404) {
-          throw new Error('Batch not found or endpoint unavailable.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`Request failed: ${response.status} ${response.statusText}`);
-        }
-      }
+      const data = type === 'assign_teachers'
+        ? await batchesApi.getTeachersAssignments(batch._id)
+        : await batchesApi.getStudentsAssignments(batch._id);
 
-      const data: ApiResponse = await response.json();
-      console.log('Received data structure:', JSON.stringify(data, null, 2));
-      
-      if (data.success && data.data) {
-        setBatchData(data.data);
-        setNetworkRetryCount(0); // Reset retry count on success
-      } else {
-        throw new Error(data.message || 'Failed to load batch data');
-      }
+      setBatchData(data.data);
+      setNetworkRetryCount(0); // Reset retry count on success
     } catch (error: unknown) {
       console.error('Error loading batch data:', error);
-      
-      let errorMessage = 'Failed to load data';
-      const err = error as Error;
-      
-      if (err.message === 'Request timeout') {
-        errorMessage = 'Request timed out. Please check your connection and try again.';
-      } else if (err.message.includes('Network request failed') || err.message.includes('fetch')) {
-        errorMessage = 'Network error. Please check your internet connection.';
+
+      if (error instanceof ApiError && error.isNetworkError && retryCount < 2) {
         // Auto-retry network errors up to 2 times
-        if (retryCount < 2) {
-          console.log(`Retrying network request, attempt ${retryCount + 1}`);
-          setTimeout(() => {
-            setNetworkRetryCount(retryCount + 1);
-            loadBatchData(retryCount + 1);
-          }, 2000 * (retryCount + 1)); // Progressive backoff
-          return;
-        }
-      } else if (err.message.includes('Authentication failed')) {
-        errorMessage = 'Please login again to continue.';
-      } else if (err.message.includes('Access denied')) {
-        errorMessage = 'You do not have permission to perform this action.';
+        setTimeout(() => {
+          setNetworkRetryCount(retryCount + 1);
+          loadBatchData(retryCount + 1);
+        }, 2000 * (retryCount + 1)); // Progressive backoff
+        return;
+      }
+
+      if (error instanceof ApiError && error.isUnauthorized) {
+        setError('Please login again to continue.');
+      } else if (error instanceof ApiError && error.status === 403) {
+        setError('You do not have permission to perform this action.');
       } else {
-        errorMessage = err.message || 'An unexpected error occurred';
+        setError(error instanceof Error ? error.message : 'An unexpected error occurred');
       }
-      
-      setError(errorMessage);
     } finally {
       setLoading(false);
     }
@@ -467,104 +323,27 @@ export default function BatchAssignmentModal({
 
   const assignStudentsEnhanced = async (assignments: StudentAssignment[]) => {
     if (!batch?._id) throw new Error('Batch ID is required');
-    
-    const headers = await getAuthHeaders();
-    const response = await fetchWithTimeout(
-      `${API_BASE_URL}/batches/${batch._id}/assign-students-enhanced`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ studentAssignments: assignments })
-      },
-      15000
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Assignment failed: ${response.status}`;
-      
-      try {
-        const errorData: ApiError = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch (e) {
-        // Keep default error message if JSON parsing fails
-      }
-      
-      throw new Error(errorMessage);
-    }
 
-    const result: ApiResponse = await response.json();
-    if (!result.success) {
-      throw new Error(result.message || 'Assignment failed');
-    }
+    await batchesApi.assignStudentsEnhanced(
+      batch._id,
+      assignments.map(({ studentId, assignedClasses, assignedSubjects }) => ({
+        student: studentId,
+        assignedClasses,
+        assignedSubjects,
+      }))
+    );
   };
 
   const removeStudents = async (studentIds: string[]) => {
     if (!batch?._id) throw new Error('Batch ID is required');
-    
-    const headers = await getAuthHeaders();
-    const response = await fetchWithTimeout(
-      `${API_BASE_URL}/batches/${batch._id}/remove-students`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ studentIds })
-      },
-      15000
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Removal failed: ${response.status}`;
-      
-      try {
-        const errorData: ApiError = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch (e) {
-        // Keep default error message
-      }
-      
-      throw new Error(errorMessage);
-    }
 
-    const result: ApiResponse = await response.json();
-    if (!result.success) {
-      throw new Error(result.message || 'Removal failed');
-    }
+    await batchesApi.removeStudents(batch._id, studentIds);
   };
 
   const assignTeachersEnhanced = async (assignments: TeacherAssignment[]) => {
     if (!batch?._id) throw new Error('Batch ID is required');
-    
-    const headers = await getAuthHeaders();
-    const response = await fetchWithTimeout(
-      `${API_BASE_URL}/batches/${batch._id}/assign-teachers-enhanced`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ teacherAssignments: assignments })
-      },
-      15000
-    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Teacher assignment failed: ${response.status}`;
-      
-      try {
-        const errorData: ApiError = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch (e) {
-        // Keep default error message
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    const result: ApiResponse = await response.json();
-    if (!result.success) {
-      throw new Error(result.message || 'Teacher assignment failed');
-    }
+    await batchesApi.assignTeachersEnhanced(batch._id, assignments);
   };
 
   const renderStatistics = () => {
@@ -685,7 +464,7 @@ export default function BatchAssignmentModal({
               <View style={styles.assignmentSection}>
                 <Text style={styles.assignmentTitle}>Subjects:</Text>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                  {batchData.availableSubjects.map((subject: Subject, index: number) => {
+                  {batchData.availableSubjects.map((subject, index) => {
                     const currentAssignment = type === 'assign_teachers' ? teacherAssignment : studentAssignment;
                     return (
                       <TouchableOpacity
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  StyleSheet,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { ApiError, authApi } from '../api';
+import { useAuth } from '../context/AuthContext';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+};
+
+interface ChangePasswordModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ visible, onClose }) => {
+  const { updateTokens } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setShowPasswords(false);
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    if (!currentPassword || !newPassword) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+    if (newPassword.length < 6) {
+      Alert.alert('Error', 'New password must be at least 6 characters long');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'New passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await authApi.changePassword(currentPassword, newPassword);
+      // The server signed out every session, including this one's old refresh token
+      await updateTokens(response);
+      Alert.alert('Password Changed', 'Your password was updated and your other devices were signed out.');
+      onClose();
+    } catch (error) {
+      console.error('Error changing password:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to change password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPasswordInput = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+  ) => (
+    <>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <View style={styles.inputWrapper}>
+        <TextInput
+          style={styles.textInput}
+          value={value}
+          onChangeText={onChangeText}
+          placeholder={placeholder}
+          placeholderTextColor="#666666"
+          secureTextEntry={!showPasswords}
+          autoCapitalize="none"
+          editable={!isSaving}
+        />
+      </View>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Change Password</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <MaterialIcons name="close" size={24} color="#cccccc" />
+            </TouchableOpacity>
+          </View>
+
+          {renderPasswordInput('Current Password', currentPassword, setCurrentPassword, 'Enter your current password')}
+          {renderPasswordInput('New Password', newPassword, setNewPassword, 'At least 6 characters')}
+          {renderPasswordInput('Confirm New Password', confirmPassword, setConfirmPassword, 'Re-enter the new password')}
+
+          <TouchableOpacity style={styles.toggleRow} onPress={() => setShowPasswords(!showPasswords)}>
+            <Feather name={showPasswords ? 'eye' : 'eye-off'} size={16} color="#cccccc" />
+            <Text style={styles.toggleText}>{showPasswords ? 'Hide passwords' : 'Show passwords'}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+            activeOpacity={0.8}
+          >
+            {isSaving ? (
+              <ActivityIndicator color={BRAND.backgroundColor} size="small" />
+            ) : (
+              <Text style={styles.saveButtonText}>Update Password</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 30,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginBottom: 8,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  inputWrapper: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 16,
+    height: 50,
+    justifyContent: 'center',
+    marginBottom: 18,
+  },
+  textInput: {
+    color: '#ffffff',
+    fontSize: 16,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 25,
+  },
+  toggleText: {
+    color: '#cccccc',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  saveButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 15,
+    height: 54,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 17,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
+
+export default ChangePasswordModal;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ApiError, CouponPreview, PaymentItemType, couponsApi } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  errorColor: '#ff4444',
+};
+
+interface CouponInputProps {
+  itemType: PaymentItemType;
+  itemId: string;
+  appliedCode: string | null;
+  discount: number;
+  disabled?: boolean;
+  // Called with a validated coupon; the screen re-creates its order with the code
+  onApply: (preview: CouponPreview) => Promise<void>;
+  onRemove: () => Promise<void>;
+}
+
+const CouponInput: React.FC<CouponInputProps> = ({
+  itemType,
+  itemId,
+  appliedCode,
+  discount,
+  disabled = false,
+  onApply,
+  onRemove,
+}) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await couponsApi.validateCoupon({ code: code.trim(), itemType, itemId });
+      await onApply(response.data);
+      setCode('');
+    } catch (err) {
+      console.error('Error applying coupon:', err);
+      setError(err instanceof ApiError ? err.message : 'Could not apply this coupon');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onRemove();
+    } catch (err) {
+      console.error('Error removing coupon:', err);
+      setError(err instanceof ApiError ? err.message : 'Could not remove this coupon');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (appliedCode) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.appliedRow}>
+          <MaterialIcons name="local-offer" size={18} color={BRAND.primaryColor} />
+          <View style={styles.appliedInfo}>
+            <Text style={styles.appliedCode}>{appliedCode}</Text>
+            <Text style={styles.appliedText}>You save ₹{discount}</Text>
+          </View>
+          {isWorking ? (
+            <ActivityIndicator size="small" color={BRAND.primaryColor} />
+          ) : (
+            <TouchableOpacity onPress={handleRemove} disabled={disabled}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Have a coupon?</Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={code}
+          onChangeText={(text) => {
+            setCode(text.toUpperCase());
+            setError(null);
+          }}
+          placeholder="Enter coupon code"
+          placeholderTextColor="#666666"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          editable={!disabled && !isWorking}
+        />
+        <TouchableOpacity
+          style={[styles.applyButton, (!code.trim() || disabled || isWorking) && styles.applyButtonDisabled]}
+          onPress={handleApply}
+          disabled={!code.trim() || disabled || isWorking}
+        >
+          {isWorking ? (
+            <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+          ) : (
+            <Text style={styles.applyButtonText}>Apply</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(26, 46, 26, 0.6)',
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 16,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    height: 46,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    color: '#ffffff',
+    paddingHorizontal: 14,
+    fontSize: 15,
+    letterSpacing: 1,
+  },
+  applyButton: {
+    marginLeft: 10,
+    height: 46,
+    minWidth: 80,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    backgroundColor: BRAND.primaryColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    color: BRAND.backgroundColor,
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  appliedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  appliedInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  appliedCode: {
+    color: BRAND.primaryColor,
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  appliedText: {
+    color: '#cccccc',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  removeText: {
+    color: BRAND.errorColor,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: BRAND.errorColor,
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
+
+export default CouponInput;
@@ -10,32 +10,11 @@ import {
   Animated,
   ScrollView,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { API_BASE } from '../api/config';
+import type { Course as ApiCourse } from '../api';
 
-interface Course {
-  _id: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: Array<{
-    videoTitle: string;
-    videoDescription: string;
-    videoLink: string;
-    duration: string;
-  }>;
-  courseThumbnail: string;
-  totalEnrolledStudents?: number;
-  studentsEnrolled: Array<any>;
-  isActive: boolean;
-  type: 'paid' | 'free';
-}
+// Paid and free courses in one list
+type Course = ApiCourse & { type: 'paid' | 'free' };
 
 interface CoursesSectionProps {
   courses: Course[];
@@ -81,7 +60,7 @@ const CoursesSection: React.FC<CoursesSectionProps> = ({
   showAllCoursesButton = false,
 }) => {
   // Helper function to get proper image source
-  const getImageSource = (thumbnailPath: string) => {
+  const getImageSource = (thumbnailPath?: string) => {
     // Handle empty or null paths
     if (!thumbnailPath) {
       return { uri: 'https://via.placeholder.com/300x200/1a2e1a/00ff88?text=No+Image' };
@@ -0,0 +1,716 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  ApiError,
+  CourseChapter,
+  CourseVideo,
+  LectureResource,
+  dppApi,
+  paidNotesApi,
+  unpaidCoursesApi,
+  unpaidNotesApi,
+} from '../api';
+import ReorderableList from './ReorderableList';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  errorColor: '#ff6b6b',
+};
+
+const CHAPTER_ROW_HEIGHT = 56;
+const LECTURE_ROW_HEIGHT = 56;
+
+const RESOURCE_KINDS: { itemType: LectureResource['itemType']; label: string }[] = [
+  { itemType: 'PaidNotes', label: 'PAID NOTES' },
+  { itemType: 'UnpaidNotes', label: 'FREE NOTES' },
+  { itemType: 'DPP', label: 'DPP' },
+];
+
+// Paid and unpaid courses share these routes
+type CurriculumApi = Pick<typeof unpaidCoursesApi, 'updateCurriculum' | 'addResource' | 'removeResource'>;
+
+// The admin screens keep their own course shapes; this is all the editor reads
+export interface CurriculumCourse {
+  _id?: string;
+  courseTitle: string;
+  chapters?: CourseChapter[];
+  videoLinks: (Pick<CourseVideo, 'videoTitle' | 'duration' | 'chapterId' | 'resources'> & { _id?: string })[];
+}
+
+// Unsaved chapters have no _id yet, so rows are keyed separately
+interface DraftChapter {
+  key: string;
+  _id?: string;
+  title: string;
+  videoIds: string[];
+}
+
+// Something a lecture can link to, flattened for the picker
+interface ResourceOption {
+  key: string;
+  label: string;
+  itemId: string;
+  pdfId?: string;
+}
+
+const toDraft = (course: CurriculumCourse): DraftChapter[] =>
+  (course.chapters || []).map(chapter => ({
+    key: chapter._id,
+    _id: chapter._id,
+    title: chapter.title,
+    videoIds: course.videoLinks
+      .filter(video => video._id && video.chapterId === chapter._id)
+      .map(video => video._id as string),
+  }));
+
+interface CurriculumEditorModalProps {
+  course: CurriculumCourse | null;
+  api: CurriculumApi;
+  onClose: () => void;
+  // Called whenever the curriculum or a lecture's resources are saved
+  onSaved: () => void;
+}
+
+const CurriculumEditorModal: React.FC<CurriculumEditorModalProps> = ({ course, api, onClose, onSaved }) => {
+  // The course as last saved; resource changes apply straight away and come back here
+  const [current, setCurrent] = useState<CurriculumCourse | null>(course);
+  const [draft, setDraft] = useState<DraftChapter[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newChapterTitle, setNewChapterTitle] = useState('');
+  const [scrollEnabled, setScrollEnabled] = useState(true);
+  const [movingVideoId, setMovingVideoId] = useState<string | null>(null);
+  const [resourceVideoId, setResourceVideoId] = useState<string | null>(null);
+  const [resourceKind, setResourceKind] = useState<LectureResource['itemType']>('PaidNotes');
+  const [resourceOptions, setResourceOptions] = useState<ResourceOption[]>([]);
+  const [loadingOptions, setLoadingOptions] = useState(false);
+
+  // Start from the saved curriculum each time a course is opened
+  useEffect(() => {
+    setCurrent(course);
+    if (course) {
+      setDraft(toDraft(course));
+      setIsDirty(false);
+      setNewChapterTitle('');
+      setMovingVideoId(null);
+      setResourceVideoId(null);
+    }
+  }, [course?._id]);
+
+  useEffect(() => {
+    if (resourceVideoId) {
+      loadResourceOptions(resourceKind);
+    }
+  }, [resourceVideoId, resourceKind]);
+
+  const videosById = useMemo(
+    () => new Map((current?.videoLinks || []).filter(video => video._id).map(video => [video._id as string, video])),
+    [current]
+  );
+
+  const unassignedIds = useMemo(() => {
+    const placed = new Set(draft.flatMap(chapter => chapter.videoIds));
+    return [...videosById.keys()].filter(videoId => !placed.has(videoId));
+  }, [draft, videosById]);
+
+  const updateDraft = (next: DraftChapter[]) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const addChapter = () => {
+    if (!newChapterTitle.trim()) return;
+    updateDraft([...draft, { key: `new-${Date.now()}`, title: newChapterTitle.trim(), videoIds: [] }]);
+    setNewChapterTitle('');
+  };
+
+  const renameChapter = (key: string, title: string) => {
+    updateDraft(draft.map(chapter => (chapter.key === key ? { ...chapter, title } : chapter)));
+  };
+
+  const removeChapter = (chapter: DraftChapter) => {
+    Alert.alert(
+      'Remove Chapter',
+      `Remove "${chapter.title}"? Its lectures stay in the course without a chapter.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => updateDraft(draft.filter(item => item.key !== chapter.key)),
+        },
+      ]
+    );
+  };
+
+  // Moves a lecture to the end of another chapter, or out of every chapter when key is null
+  const moveVideo = (videoId: string, key: string | null) => {
+    updateDraft(
+      draft.map(chapter => {
+        const videoIds = chapter.videoIds.filter(id => id !== videoId);
+        return { ...chapter, videoIds: chapter.key === key ? [...videoIds, videoId] : videoIds };
+      })
+    );
+    setMovingVideoId(null);
+  };
+
+  const reorderLectures = (key: string, videoIds: string[]) => {
+    updateDraft(draft.map(chapter => (chapter.key === key ? { ...chapter, videoIds } : chapter)));
+  };
+
+  const handleSave = async () => {
+    if (!course?._id) return;
+    if (draft.some(chapter => !chapter.title.trim())) {
+      Alert.alert('Error', 'Every chapter needs a title');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await api.updateCurriculum(course._id, {
+        chapters: draft.map(chapter => ({
+          _id: chapter._id,
+          title: chapter.title.trim(),
+          videoIds: chapter.videoIds,
+        })),
+      });
+      setCurrent(response.data);
+      setDraft(toDraft(response.data));
+      setIsDirty(false);
+      onSaved();
+      Alert.alert('Success', 'Curriculum saved');
+    } catch (error) {
+      console.error('Error saving curriculum:', error);
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to save curriculum');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isDirty) {
+      onClose();
+      return;
+    }
+    Alert.alert('Discard Changes', 'Your chapter changes have not been saved.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: onClose },
+    ]);
+  };
+
+  const loadResourceOptions = async (itemType: LectureResource['itemType']) => {
+    setLoadingOptions(true);
+    setResourceOptions([]);
+    try {
+      if (itemType === 'DPP') {
+        const response = await dppApi.getAllDPPs({ limit: 100 });
+        setResourceOptions(
+          response.data.map(dpp => ({
+            key: dpp._id,
+            label: `${dpp.title} (${dpp.category.toUpperCase()} · Class ${dpp.class})`,
+            itemId: dpp._id,
+          }))
+        );
+      } else {
+        const notesApi = itemType === 'PaidNotes' ? paidNotesApi : unpaidNotesApi;
+        const response = await notesApi.getAllNotes();
+        setResourceOptions(
+          response.data.flatMap(notes =>
+            notes.pdfs.map(pdf => ({
+              key: `${notes._id}-${pdf._id}`,
+              label: `${notes.notesTitle} › ${pdf.pdfTitle}`,
+              itemId: notes._id,
+              pdfId: pdf._id,
+            }))
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error loading resources:', error);
+      Alert.alert('Error', 'Failed to load notes and DPPs');
+    } finally {
+      setLoadingOptions(false);
+    }
+  };
+
+  const attachResource = async (option: ResourceOption) => {
+    if (!course?._id || !resourceVideoId) return;
+
+    setIsSaving(true);
+    try {
+      const response = await api.addResource(course._id, resourceVideoId, {
+        itemType: resourceKind,
+        itemId: option.itemId,
+        pdfId: option.pdfId,
+      });
+      setCurrent(response.data);
+      onSaved();
+    } catch (error) {
+      console.error('Error attaching resource:', error);
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to attach resource');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeResource = async (resource: LectureResource) => {
+    if (!course?._id || !resourceVideoId) return;
+
+    setIsSaving(true);
+    try {
+      const response = await api.removeResource(course._id, resourceVideoId, resource._id);
+      setCurrent(response.data);
+      onSaved();
+    } catch (error) {
+      console.error('Error removing resource:', error);
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to remove resource');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderLecture = (videoId: string) => {
+    const video = videosById.get(videoId);
+    if (!video) return null;
+    const resourceCount = video.resources?.length || 0;
+
+    return (
+      <View style={styles.lectureRow}>
+        <View style={styles.lectureInfo}>
+          <Text style={styles.lectureTitle} numberOfLines={1}>{video.videoTitle}</Text>
+          <Text style={styles.lectureMeta}>
+            {video.duration}{resourceCount > 0 ? ` · ${resourceCount} attached` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.iconButton} onPress={() => setResourceVideoId(videoId)}>
+          <MaterialIcons name="attach-file" size={20} color={BRAND.primaryColor} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={() => setMovingVideoId(videoId)}>
+          <MaterialIcons name="drive-file-move" size={20} color={BRAND.primaryColor} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const movingVideo = movingVideoId ? videosById.get(movingVideoId) : null;
+  const resourceVideo = resourceVideoId ? videosById.get(resourceVideoId) : null;
+
+  return (
+    <Modal visible={course !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle} numberOfLines={1}>Curriculum: {course?.courseTitle}</Text>
+          <TouchableOpacity onPress={handleClose} disabled={isSaving}>
+            <MaterialIcons name="close" size={24} color="#cccccc" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} scrollEnabled={scrollEnabled}>
+          <Text style={styles.sectionTitle}>Chapters</Text>
+          <Text style={styles.hint}>Drag ⠿ to reorder chapters and the lectures inside them.</Text>
+
+          {draft.length > 0 ? (
+            <ReorderableList
+              items={draft}
+              itemHeight={CHAPTER_ROW_HEIGHT}
+              keyExtractor={chapter => chapter.key}
+              onReorder={updateDraft}
+              onDragStateChange={dragging => setScrollEnabled(!dragging)}
+              renderItem={chapter => (
+                <View style={styles.chapterRow}>
+                  <TextInput
+                    style={styles.chapterInput}
+                    value={chapter.title}
+                    onChangeText={text => renameChapter(chapter.key, text)}
+                    placeholder="Chapter title"
+                    placeholderTextColor="#666"
+                  />
+                  <Text style={styles.chapterCount}>{chapter.videoIds.length}</Text>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => removeChapter(chapter)}>
+                    <MaterialIcons name="delete-outline" size={20} color={BRAND.errorColor} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            />
+          ) : (
+            <Text style={styles.emptyText}>No chapters yet. Lectures are shown as one list.</Text>
+          )}
+
+          <View style={styles.addChapterRow}>
+            <TextInput
+              style={[styles.chapterInput, styles.addChapterInput]}
+              value={newChapterTitle}
+              onChangeText={setNewChapterTitle}
+              placeholder="New chapter title"
+              placeholderTextColor="#666"
+              onSubmitEditing={addChapter}
+            />
+            <TouchableOpacity style={styles.addChapterButton} onPress={addChapter}>
+              <Text style={styles.addChapterButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {draft.map(chapter => (
+            <View key={chapter.key} style={styles.lectureGroup}>
+              <Text style={styles.groupTitle}>{chapter.title || 'Untitled chapter'}</Text>
+              {chapter.videoIds.length > 0 ? (
+                <ReorderableList
+                  items={chapter.videoIds}
+                  itemHeight={LECTURE_ROW_HEIGHT}
+                  keyExtractor={videoId => videoId}
+                  onReorder={videoIds => reorderLectures(chapter.key, videoIds)}
+                  onDragStateChange={dragging => setScrollEnabled(!dragging)}
+                  renderItem={renderLecture}
+                />
+              ) : (
+                <Text style={styles.emptyText}>Move lectures here with the folder button.</Text>
+              )}
+            </View>
+          ))}
+
+          {unassignedIds.length > 0 && (
+            <View style={styles.lectureGroup}>
+              <Text style={styles.groupTitle}>Not in a chapter</Text>
+              {unassignedIds.map(videoId => (
+                <View key={videoId} style={[styles.unassignedRow, { height: LECTURE_ROW_HEIGHT }]}>
+                  {renderLecture(videoId)}
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+
+        {movingVideo && (
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle} numberOfLines={1}>Move "{movingVideo.videoTitle}" to</Text>
+            <View style={styles.chipRow}>
+              {draft.map(chapter => (
+                <TouchableOpacity
+                  key={chapter.key}
+                  style={styles.chip}
+                  onPress={() => moveVideo(movingVideoId as string, chapter.key)}
+                >
+                  <Text style={styles.chipText}>{chapter.title || 'Untitled chapter'}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity style={styles.chip} onPress={() => moveVideo(movingVideoId as string, null)}>
+                <Text style={styles.chipText}>No chapter</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity onPress={() => setMovingVideoId(null)}>
+              <Text style={styles.panelCancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {resourceVideo && (
+          <View style={[styles.panel, styles.resourcePanel]}>
+            <View style={styles.panelHeader}>
+              <Text style={styles.panelTitle} numberOfLines={1}>Attached to "{resourceVideo.videoTitle}"</Text>
+              <TouchableOpacity onPress={() => setResourceVideoId(null)}>
+                <MaterialIcons name="close" size={20} color="#cccccc" />
+              </TouchableOpacity>
+            </View>
+
+            {(resourceVideo.resources || []).length > 0 ? (
+              (resourceVideo.resources || []).map(resource => (
+                <View key={resource._id} style={styles.resourceRow}>
+                  <MaterialIcons
+                    name={resource.itemType === 'DPP' ? 'assignment' : 'picture-as-pdf'}
+                    size={18}
+                    color={BRAND.primaryColor}
+                  />
+                  <Text style={styles.resourceTitle} numberOfLines={1}>{resource.title}</Text>
+                  <TouchableOpacity onPress={() => removeResource(resource)} disabled={isSaving}>
+                    <MaterialIcons name="link-off" size={20} color={BRAND.errorColor} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>Nothing attached yet.</Text>
+            )}
+
+            <View style={styles.chipRow}>
+              {RESOURCE_KINDS.map(kind => (
+                <TouchableOpacity
+                  key={kind.itemType}
+                  style={[styles.chip, resourceKind === kind.itemType && styles.chipActive]}
+                  onPress={() => setResourceKind(kind.itemType)}
+                >
+                  <Text style={[styles.chipText, resourceKind === kind.itemType && styles.chipTextActive]}>
+                    {kind.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <ScrollView style={styles.optionList} nestedScrollEnabled>
+              {loadingOptions ? (
+                <ActivityIndicator size="small" color={BRAND.primaryColor} />
+              ) : resourceOptions.length > 0 ? (
+                resourceOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={styles.optionRow}
+                    onPress={() => attachResource(option)}
+                    disabled={isSaving}
+                  >
+                    <MaterialIcons name="add-link" size={18} color={BRAND.primaryColor} />
+                    <Text style={styles.optionText} numberOfLines={1}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>Nothing to attach of this kind.</Text>
+              )}
+            </ScrollView>
+          </View>
+        )}
+
+        {!movingVideo && !resourceVideo && (
+          <TouchableOpacity
+            style={[styles.saveButton, (!isDirty || isSaving) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!isDirty || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Curriculum</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    backgroundColor: BRAND.accentColor,
+    borderBottomWidth: 1,
+    borderBottomColor: BRAND.primaryColor,
+  },
+  headerTitle: {
+    flex: 1,
+    color: BRAND.primaryColor,
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  sectionTitle: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 10,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 13,
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
+  chapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chapterInput: {
+    flex: 1,
+    height: 42,
+    color: '#fff',
+    fontSize: 14,
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.3)',
+    paddingHorizontal: 12,
+  },
+  chapterCount: {
+    color: '#aaa',
+    fontSize: 13,
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  addChapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  addChapterInput: {
+    marginRight: 8,
+  },
+  addChapterButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+  },
+  addChapterButtonText: {
+    color: BRAND.backgroundColor,
+    fontWeight: 'bold',
+  },
+  lectureGroup: {
+    marginTop: 18,
+  },
+  groupTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  lectureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+    paddingVertical: 6,
+  },
+  unassignedRow: {
+    paddingLeft: 36,
+    justifyContent: 'center',
+  },
+  lectureInfo: {
+    flex: 1,
+  },
+  lectureTitle: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  lectureMeta: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  panel: {
+    backgroundColor: BRAND.accentColor,
+    borderTopWidth: 1,
+    borderTopColor: BRAND.primaryColor,
+    padding: 16,
+  },
+  resourcePanel: {
+    maxHeight: '60%',
+  },
+  panelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  panelCancel: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: BRAND.primaryColor,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: BRAND.primaryColor,
+  },
+  chipText: {
+    color: BRAND.primaryColor,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: BRAND.backgroundColor,
+  },
+  resourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  resourceTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    marginHorizontal: 8,
+  },
+  optionList: {
+    maxHeight: 200,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  optionText: {
+    flex: 1,
+    color: '#ddd',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  saveButton: {
+    backgroundColor: BRAND.primaryColor,
+    margin: 16,
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default CurriculumEditorModal;
@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Image,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { API_BASE, ApiError, Category, User, authApi } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  errorColor: '#ff6b6b',
+};
+
+const EXAM_CATEGORIES: { value: Category; label: string }[] = [
+  { value: 'jee', label: 'JEE' },
+  { value: 'neet', label: 'NEET' },
+  { value: 'boards', label: 'Boards' },
+];
+
+export interface EditableProfile {
+  name: string;
+  phone?: string;
+  class?: string;
+  examCategory?: Category | null;
+  avatar?: string;
+}
+
+interface EditProfileModalProps {
+  visible: boolean;
+  profile: EditableProfile | null;
+  onClose: () => void;
+  onSaved: (user: User) => void;
+}
+
+// Resolve a stored avatar path (/uploads/...) or a freshly picked local file to an image uri
+export const getAvatarUri = (avatar?: string) => {
+  if (!avatar) return null;
+  if (/^(https?|file|content|ph):/.test(avatar)) return avatar;
+  return `${API_BASE}${avatar.startsWith('/') ? avatar : `/${avatar}`}`;
+};
+
+const EditProfileModal: React.FC<EditProfileModalProps> = ({ visible, profile, onClose, onSaved }) => {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [userClass, setUserClass] = useState('');
+  const [examCategory, setExamCategory] = useState<Category | null>(null);
+  const [avatarUri, setAvatarUri] = useState<string | null>(null);
+  const [pickedAvatar, setPickedAvatar] = useState<ImagePicker.ImagePickerAsset | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the modal is opened
+  useEffect(() => {
+    if (visible && profile) {
+      setName(profile.name || '');
+      setPhone(profile.phone || '');
+      setUserClass(profile.class || '');
+      setExamCategory(profile.examCategory || null);
+      setAvatarUri(getAvatarUri(profile.avatar));
+      setPickedAvatar(null);
+      setRemoveAvatar(false);
+    }
+  }, [visible, profile]);
+
+  const pickAvatar = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission needed', 'Please grant photo library access to choose a profile picture.');
+          return;
+        }
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.7,
+      });
+
+      if (!result.canceled && result.assets && result.assets[0]) {
+        setPickedAvatar(result.assets[0]);
+        setAvatarUri(result.assets[0].uri);
+        setRemoveAvatar(false);
+      }
+    } catch (error) {
+      console.error('Error picking avatar:', error);
+      Alert.alert('Error', 'Failed to pick image');
+    }
+  };
+
+  const clearAvatar = () => {
+    setPickedAvatar(null);
+    setAvatarUri(null);
+    setRemoveAvatar(true);
+  };
+
+  const validate = () => {
+    if (name.trim().length < 2) {
+      return 'Name must be at least 2 characters long';
+    }
+    const digits = phone.replace(/[\s-]/g, '');
+    if (digits && !/^\+?\d{10,15}$/.test(digits)) {
+      return 'Please enter a valid phone number';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const formData = new FormData();
+      formData.append('name', name.trim());
+      formData.append('phone', phone.trim());
+      formData.append('class', userClass.trim());
+      formData.append('examCategory', examCategory || '');
+      if (removeAvatar) {
+        formData.append('removeAvatar', 'true');
+      }
+
+      if (pickedAvatar) {
+        const filename = pickedAvatar.fileName || pickedAvatar.uri.split('/').pop() || 'avatar.jpg';
+        const match = /\.(\w+)$/.exec(filename);
+        formData.append('avatar', {
+          uri: pickedAvatar.uri,
+          type: pickedAvatar.mimeType || (match ? `image/${match[1]}` : 'image/jpeg'),
+          name: filename,
+        } as any);
+      }
+
+      const response = await authApi.updateProfile(formData);
+      onSaved(response.user);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to update profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Edit Profile</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <MaterialIcons name="close" size={24} color="#cccccc" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {/* Avatar */}
+            <View style={styles.avatarSection}>
+              <TouchableOpacity onPress={pickAvatar} disabled={isSaving}>
+                {avatarUri ? (
+                  <Image source={{ uri: avatarUri }} style={styles.avatar} />
+                ) : (
+                  <View style={styles.defaultAvatar}>
+                    <Text style={styles.avatarText}>{name.charAt(0).toUpperCase() || 'U'}</Text>
+                  </View>
+                )}
+                <View style={styles.editAvatarBadge}>
+                  <Feather name="camera" size={12} color={BRAND.backgroundColor} />
+                </View>
+              </TouchableOpacity>
+              {avatarUri && (
+                <TouchableOpacity onPress={clearAvatar} disabled={isSaving}>
+                  <Text style={styles.removeAvatarText}>Remove photo</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <Text style={styles.inputLabel}>Full Name</Text>
+            <TextInput
+              style={styles.textInput}
+              value={name}
+              onChangeText={setName}
+              placeholder="Your name"
+              placeholderTextColor="#666666"
+              editable={!isSaving}
+            />
+
+            <Text style={styles.inputLabel}>Phone Number</Text>
+            <TextInput
+              style={styles.textInput}
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="e.g. 9876543210"
+              placeholderTextColor="#666666"
+              keyboardType="phone-pad"
+              editable={!isSaving}
+            />
+
+            <Text style={styles.inputLabel}>Class</Text>
+            <TextInput
+              style={styles.textInput}
+              value={userClass}
+              onChangeText={setUserClass}
+              placeholder="e.g. 11th"
+              placeholderTextColor="#666666"
+              editable={!isSaving}
+            />
+
+            <Text style={styles.inputLabel}>Target Exam</Text>
+            <View style={styles.categoryRow}>
+              {EXAM_CATEGORIES.map((category) => {
+                const selected = examCategory === category.value;
+                return (
+                  <TouchableOpacity
+                    key={category.value}
+                    style={[styles.categoryChip, selected && styles.categoryChipSelected]}
+                    onPress={() => setExamCategory(selected ? null : category.value)}
+                    disabled={isSaving}
+                  >
+                    <Text style={[styles.categoryText, selected && styles.categoryTextSelected]}>
+                      {category.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+              activeOpacity={0.8}
+            >
+              {isSaving ? (
+                <ActivityIndicator color={BRAND.backgroundColor} size="small" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Changes</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 30,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  avatarSection: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  avatar: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    borderWidth: 2,
+    borderColor: BRAND.primaryColor,
+  },
+  defaultAvatar: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    backgroundColor: BRAND.accentColor,
+    borderWidth: 2,
+    borderColor: BRAND.primaryColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: BRAND.primaryColor,
+  },
+  editAvatarBadge: {
+    position: 'absolute',
+    bottom: 2,
+    right: 2,
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: BRAND.primaryColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeAvatarText: {
+    color: BRAND.errorColor,
+    fontSize: 13,
+    marginTop: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginBottom: 8,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  textInput: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    color: '#ffffff',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    height: 50,
+    marginBottom: 18,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    marginBottom: 25,
+  },
+  categoryChip: {
+    flex: 1,
+    paddingVertical: 12,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+  },
+  categoryChipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  categoryText: {
+    color: '#cccccc',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  categoryTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  saveButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 15,
+    height: 54,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 17,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
+
+export default EditProfileModal;
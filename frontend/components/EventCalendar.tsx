@@ -8,6 +8,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { BatchCalendarEvent } from '../api';
 
 const { width } = Dimensions.get('window');
 
@@ -20,24 +21,7 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-interface CalendarEvent {
-  _id: string;
-  title: string;
-  description?: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  type: 'class' | 'exam' | 'assignment' | 'meeting' | 'other';
-  batchId: string;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+type CalendarEvent = BatchCalendarEvent;
 
 interface EventCalendarProps {
   events: CalendarEvent[];
@@ -31,6 +31,10 @@ const MoreOptionSection: React.FC<MoreOptionSectionProps> = ({
     navigation.navigate('AllNotesScreen');
   };
 
+  const handleBundlesPress = () => {
+    navigation.navigate('BundlesScreen');
+  };
+
   const handleDPPPress = () => {
     navigation.navigate('AllDPPScreen');
   };
@@ -104,6 +108,14 @@ const MoreOptionSection: React.FC<MoreOptionSectionProps> = ({
             '📝',
             handleChapterNotesPress,
             ['rgba(64, 224, 208, 0.15)', 'rgba(64, 224, 208, 0.05)'],
+            true
+          )}
+          {renderOptionButton(
+            'Course Bundles',
+            'Course, notes and materials together',
+            '🎁',
+            handleBundlesPress,
+            ['rgba(0, 255, 136, 0.15)', 'rgba(0, 255, 136, 0.05)'],
             false
           )}
         </View>
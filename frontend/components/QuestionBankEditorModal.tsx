@@ -0,0 +1,646 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Image,
+  ScrollView,
+  TextInput,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  ApiError,
+  BankQuestion,
+  ExamCategory,
+  QuestionDifficulty,
+  QuestionTag,
+  QuestionType,
+  questionBankApi,
+} from '../api';
+import { QUESTION_TYPE_OPTIONS } from './QuestionEditorModal';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const MAX_IMAGES = 4;
+
+export const DIFFICULTY_OPTIONS: { value: QuestionDifficulty; label: string; color: string }[] = [
+  { value: 'easy', label: 'Easy', color: '#4CAF50' },
+  { value: 'medium', label: 'Medium', color: '#FF9800' },
+  { value: 'hard', label: 'Hard', color: '#ff6b6b' },
+];
+
+export const EXAM_CATEGORY_OPTIONS: { value: ExamCategory; label: string }[] = [
+  { value: 'jee', label: 'JEE' },
+  { value: 'neet', label: 'NEET' },
+  { value: 'boards', label: 'Boards' },
+];
+
+interface PickedImage {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface QuestionForm {
+  questionType: QuestionType;
+  questionText: string;
+  options: string[];
+  correctOptions: number[];
+  correctAnswer: string;
+  tolerance: string;
+  solution: string;
+  subject: string;
+  chapter: string;
+  topic: string;
+  difficulty: QuestionDifficulty;
+  examCategories: ExamCategory[];
+}
+
+const isChoiceType = (type: QuestionType) => type === 'single' || type === 'multiple';
+
+const toForm = (question: BankQuestion | null): QuestionForm => ({
+  questionType: question?.questionType || 'single',
+  questionText: question?.questionText || '',
+  options: question && isChoiceType(question.questionType) ? [...question.options] : ['', '', '', ''],
+  correctOptions: question ? [...question.correctOptions] : [],
+  correctAnswer: question?.correctAnswer != null ? String(question.correctAnswer) : '',
+  tolerance: String(question?.tolerance || 0),
+  solution: question?.solution || '',
+  subject: question?.subject || '',
+  chapter: question?.chapter || '',
+  topic: question?.topic || '',
+  difficulty: question?.difficulty || 'medium',
+  examCategories: question ? [...question.examCategories] : [],
+});
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+interface QuestionBankEditorModalProps {
+  visible: boolean;
+  // null adds a new question
+  question: BankQuestion | null;
+  // Existing tags, offered as suggestions so spellings stay consistent
+  tags: QuestionTag[];
+  // For loading the question's existing images
+  authToken: string | null;
+  onSaved: (question: BankQuestion) => void;
+  onClose: () => void;
+}
+
+const QuestionBankEditorModal: React.FC<QuestionBankEditorModalProps> = ({
+  visible,
+  question,
+  tags,
+  authToken,
+  onSaved,
+  onClose,
+}) => {
+  const [form, setForm] = useState<QuestionForm>(() => toForm(question));
+  const [newImages, setNewImages] = useState<PickedImage[]>([]);
+  const [removedImageIds, setRemovedImageIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setForm(toForm(question));
+    setNewImages([]);
+    setRemovedImageIds([]);
+  }, [visible, question]);
+
+  const update = (changes: Partial<QuestionForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const existingImages = (question?.images || []).filter((image) => !removedImageIds.includes(image._id));
+  const imageCount = existingImages.length + newImages.length;
+
+  const subjectSuggestions = unique(tags.map((tag) => tag.subject));
+  const chapterSuggestions = unique(tags.filter((tag) => tag.subject === form.subject).map((tag) => tag.chapter));
+  const topicSuggestions = unique(
+    tags.filter((tag) => tag.subject === form.subject && tag.chapter === form.chapter).map((tag) => tag.topic)
+  );
+
+  const changeType = (questionType: QuestionType) =>
+    update({
+      questionType,
+      correctOptions: questionType === 'single' ? form.correctOptions.slice(0, 1) : form.correctOptions,
+    });
+
+  const toggleCorrect = (index: number) => {
+    if (form.questionType === 'single') {
+      update({ correctOptions: [index] });
+      return;
+    }
+    update({
+      correctOptions: form.correctOptions.includes(index)
+        ? form.correctOptions.filter((option) => option !== index)
+        : [...form.correctOptions, index].sort((a, b) => a - b),
+    });
+  };
+
+  const removeOption = (index: number) =>
+    update({
+      options: form.options.filter((_, i) => i !== index),
+      correctOptions: form.correctOptions
+        .filter((option) => option !== index)
+        .map((option) => (option > index ? option - 1 : option)),
+    });
+
+  const toggleExamCategory = (category: ExamCategory) =>
+    update({
+      examCategories: form.examCategories.includes(category)
+        ? form.examCategories.filter((item) => item !== category)
+        : [...form.examCategories, category],
+    });
+
+  const pickImage = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission needed', 'Please grant media library permissions to add images.');
+          return;
+        }
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets && result.assets[0]) {
+        const asset = result.assets[0];
+        const name = asset.fileName || asset.uri.split('/').pop() || 'image.jpg';
+        const match = /\.(\w+)$/.exec(name);
+        setNewImages((current) => [
+          ...current,
+          { uri: asset.uri, name, type: asset.mimeType || (match ? `image/${match[1]}` : 'image/jpeg') },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to pick image');
+    }
+  };
+
+  const validate = () => {
+    const isChoice = isChoiceType(form.questionType);
+    if (!form.questionText.trim()) return 'Please enter the question';
+    if (!form.subject.trim()) return 'Please enter the subject';
+    if (isChoice && (form.options.length < 2 || form.options.some((option) => !option.trim()))) {
+      return 'Add at least two options and fill every option';
+    }
+    if (isChoice && !form.correctOptions.length) return 'Tap the correct option';
+    if (!isChoice) {
+      const answer = Number(form.correctAnswer);
+      if (form.correctAnswer.trim() === '' || !Number.isFinite(answer)) return 'Please enter the correct answer';
+      if (form.questionType === 'integer' && !Number.isInteger(answer)) {
+        return 'The answer to an integer question must be a whole number';
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const problem = validate();
+    if (problem) {
+      Alert.alert('Validation Error', problem);
+      return;
+    }
+
+    const isChoice = isChoiceType(form.questionType);
+    const formData = new FormData();
+    formData.append('questionType', form.questionType);
+    formData.append('questionText', form.questionText.trim());
+    formData.append('options', JSON.stringify(isChoice ? form.options.map((option) => option.trim()) : []));
+    formData.append('correctOptions', JSON.stringify(isChoice ? form.correctOptions : []));
+    if (!isChoice) {
+      formData.append('correctAnswer', form.correctAnswer.trim());
+      formData.append('tolerance', form.questionType === 'numerical' ? form.tolerance.trim() || '0' : '0');
+    }
+    formData.append('solution', form.solution.trim());
+    formData.append('subject', form.subject.trim());
+    formData.append('chapter', form.chapter.trim());
+    formData.append('topic', form.topic.trim());
+    formData.append('difficulty', form.difficulty);
+    formData.append('examCategories', JSON.stringify(form.examCategories));
+    if (question && removedImageIds.length) {
+      formData.append('removeImageIds', JSON.stringify(removedImageIds));
+    }
+    newImages.forEach((image) => formData.append('images', image as any));
+
+    setSaving(true);
+    try {
+      const response = question
+        ? await questionBankApi.updateQuestion(question._id, formData)
+        : await questionBankApi.createQuestion(formData);
+      onSaved(response.data);
+    } catch (error) {
+      console.error('Error saving question:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSuggestions = (values: string[], current: string, onSelect: (value: string) => void) =>
+    values.length > 0 && (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.suggestions}>
+        {values.map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.chip, current === value && styles.chipSelected]}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[styles.chipText, current === value && styles.chipTextSelected]}>{value}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+
+  const isChoice = isChoiceType(form.questionType);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onClose} disabled={saving}>
+            <MaterialIcons name="close" size={24} color={BRAND.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{question ? 'Edit Question' : 'New Question'}</Text>
+          {saving ? (
+            <ActivityIndicator size="small" color={BRAND.primaryColor} style={styles.headerButton} />
+          ) : (
+            <TouchableOpacity style={styles.headerButton} onPress={handleSave}>
+              <MaterialIcons name="check" size={24} color={BRAND.primaryColor} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chipRow}>
+            {QUESTION_TYPE_OPTIONS.map((option) => {
+              const selected = form.questionType === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => changeType(option.value)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>
+            Question * <Text style={styles.labelHint}>(LaTeX: $x^2$ inline, $$\int x\,dx$$ display)</Text>
+          </Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={form.questionText}
+            onChangeText={(questionText) => update({ questionText })}
+            placeholder="Enter the question"
+            placeholderTextColor="#666"
+            multiline
+          />
+
+          <Text style={styles.label}>Images ({imageCount}/{MAX_IMAGES})</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {question && existingImages.map((image) => (
+              <View key={image._id} style={styles.imageWrapper}>
+                <Image
+                  source={{
+                    uri: questionBankApi.getImageUrl(question._id, image._id),
+                    headers: authToken ? { Authorization: `Bearer ${authToken}` } : undefined,
+                  }}
+                  style={styles.image}
+                />
+                <TouchableOpacity
+                  style={styles.removeImage}
+                  onPress={() => setRemovedImageIds((current) => [...current, image._id])}
+                >
+                  <MaterialIcons name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {newImages.map((image, index) => (
+              <View key={image.uri} style={styles.imageWrapper}>
+                <Image source={{ uri: image.uri }} style={styles.image} />
+                <TouchableOpacity
+                  style={styles.removeImage}
+                  onPress={() => setNewImages((current) => current.filter((_, i) => i !== index))}
+                >
+                  <MaterialIcons name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {imageCount < MAX_IMAGES && (
+              <TouchableOpacity style={styles.addImage} onPress={pickImage}>
+                <MaterialIcons name="add-photo-alternate" size={28} color={BRAND.primaryColor} />
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          {isChoice ? (
+            <>
+              <Text style={styles.label}>
+                Options * <Text style={styles.labelHint}>(tap to mark correct)</Text>
+              </Text>
+              {form.options.map((option, index) => {
+                const correct = form.correctOptions.includes(index);
+                const icon = form.questionType === 'single'
+                  ? (correct ? 'radio-button-checked' : 'radio-button-unchecked')
+                  : (correct ? 'check-box' : 'check-box-outline-blank');
+                return (
+                  <View key={index} style={styles.optionRow}>
+                    <TouchableOpacity onPress={() => toggleCorrect(index)} style={styles.optionToggle}>
+                      <MaterialIcons name={icon} size={22} color={correct ? BRAND.primaryColor : '#888'} />
+                    </TouchableOpacity>
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      value={option}
+                      onChangeText={(text) => update({ options: form.options.map((item, i) => (i === index ? text : item)) })}
+                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      placeholderTextColor="#666"
+                    />
+                    {form.options.length > 2 && (
+                      <TouchableOpacity onPress={() => removeOption(index)} style={styles.optionToggle}>
+                        <MaterialIcons name="remove-circle-outline" size={20} color={BRAND.dangerColor} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+              {form.options.length < 8 && (
+                <TouchableOpacity style={styles.addOption} onPress={() => update({ options: [...form.options, ''] })}>
+                  <MaterialIcons name="add" size={18} color={BRAND.primaryColor} />
+                  <Text style={styles.addOptionText}>Add Option</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          ) : (
+            <View style={styles.inputRow}>
+              <View style={styles.inputColumn}>
+                <Text style={styles.label}>Correct Answer *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.correctAnswer}
+                  onChangeText={(correctAnswer) => update({ correctAnswer })}
+                  keyboardType="numeric"
+                />
+              </View>
+              {form.questionType === 'numerical' && (
+                <View style={styles.inputColumn}>
+                  <Text style={styles.label}>Tolerance (±)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.tolerance}
+                    onChangeText={(tolerance) => update({ tolerance })}
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
+            </View>
+          )}
+
+          <Text style={styles.label}>Solution</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={form.solution}
+            onChangeText={(solution) => update({ solution })}
+            placeholder="Worked solution (LaTeX allowed)"
+            placeholderTextColor="#666"
+            multiline
+          />
+
+          <Text style={styles.sectionTitle}>Tags</Text>
+
+          <Text style={styles.label}>Subject *</Text>
+          <TextInput
+            style={styles.input}
+            value={form.subject}
+            onChangeText={(subject) => update({ subject })}
+            placeholder="e.g. Physics"
+            placeholderTextColor="#666"
+          />
+          {renderSuggestions(subjectSuggestions, form.subject, (subject) => update({ subject }))}
+
+          <Text style={styles.label}>Chapter</Text>
+          <TextInput
+            style={styles.input}
+            value={form.chapter}
+            onChangeText={(chapter) => update({ chapter })}
+            placeholder="e.g. Rotational Motion"
+            placeholderTextColor="#666"
+          />
+          {renderSuggestions(chapterSuggestions, form.chapter, (chapter) => update({ chapter }))}
+
+          <Text style={styles.label}>Topic</Text>
+          <TextInput
+            style={styles.input}
+            value={form.topic}
+            onChangeText={(topic) => update({ topic })}
+            placeholder="e.g. Moment of Inertia"
+            placeholderTextColor="#666"
+          />
+          {renderSuggestions(topicSuggestions, form.topic, (topic) => update({ topic }))}
+
+          <Text style={styles.label}>Difficulty</Text>
+          <View style={styles.chipRow}>
+            {DIFFICULTY_OPTIONS.map((option) => {
+              const selected = form.difficulty === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && { borderColor: option.color, backgroundColor: option.color + '20' }]}
+                  onPress={() => update({ difficulty: option.value })}
+                >
+                  <Text style={[styles.chipText, selected && { color: option.color }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Exam</Text>
+          <View style={styles.chipRow}>
+            {EXAM_CATEGORY_OPTIONS.map((option) => {
+              const selected = form.examCategories.includes(option.value);
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleExamCategory(option.value)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 50 : 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+    marginTop: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  labelHint: {
+    fontWeight: '400',
+    color: '#888',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  suggestions: {
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  imageWrapper: {
+    marginRight: 10,
+  },
+  image: {
+    width: 90,
+    height: 90,
+    borderRadius: 8,
+    backgroundColor: BRAND.accentColor,
+  },
+  removeImage: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 10,
+    padding: 2,
+  },
+  addImage: {
+    width: 90,
+    height: 90,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: BRAND.primaryColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  optionToggle: {
+    padding: 4,
+  },
+  optionInput: {
+    flex: 1,
+  },
+  addOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  addOptionText: {
+    color: BRAND.primaryColor,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+});
+
+export default QuestionBankEditorModal;
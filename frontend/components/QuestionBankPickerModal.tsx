@@ -0,0 +1,455 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  ScrollView,
+  TextInput,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  ApiError,
+  BankQuestion,
+  Pagination,
+  QuestionDifficulty,
+  QuestionTag,
+  QuestionType,
+  questionBankApi,
+} from '../api';
+import { DIFFICULTY_OPTIONS } from './QuestionBankEditorModal';
+import { QUESTION_TYPE_OPTIONS, getQuestionTypeLabel } from './QuestionEditorModal';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+};
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+// Same limit as the server takes in one request
+const MAX_SELECTED = 100;
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+interface QuestionBankPickerModalProps {
+  visible: boolean;
+  // The test's subject, picked as the first filter when the bank has it
+  subjectName?: string;
+  // Bank questions already in the test; shown as added and can't be picked again
+  addedIds: string[];
+  onAdd: (questionIds: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const QuestionBankPickerModal: React.FC<QuestionBankPickerModalProps> = ({
+  visible,
+  subjectName,
+  addedIds,
+  onAdd,
+  onClose,
+}) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [tags, setTags] = useState<QuestionTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  const [search, setSearch] = useState('');
+  const [subject, setSubject] = useState<string | undefined>(undefined);
+  const [chapter, setChapter] = useState<string | undefined>(undefined);
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | undefined>(undefined);
+  const [questionType, setQuestionType] = useState<QuestionType | undefined>(undefined);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Ignore responses from searches that have since been replaced
+  const requestId = useRef(0);
+
+  const fetchQuestions = useCallback(async (page = 1) => {
+    const currentRequest = ++requestId.current;
+    try {
+      const response = await questionBankApi.getQuestions({
+        search: search.trim() || undefined,
+        subject,
+        chapter,
+        difficulty,
+        questionType,
+        page,
+        limit: PAGE_SIZE,
+      });
+      if (currentRequest !== requestId.current) return;
+
+      setQuestions((previous) => (page === 1 ? response.data : [...previous, ...response.data]));
+      setPagination(response.pagination);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load questions');
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [search, subject, chapter, difficulty, questionType]);
+
+  // Start each visit with a fresh selection, filtered to the test's subject if the bank has it
+  useEffect(() => {
+    if (!visible) return;
+    setSelectedIds([]);
+    setSearch('');
+    setChapter(undefined);
+    questionBankApi
+      .getQuestionTags()
+      .then((response) => {
+        setTags(response.data);
+        setSubject(response.data.some((tag) => tag.subject === subjectName) ? subjectName : undefined);
+      })
+      .catch((error) => console.error('Error fetching question tags:', error));
+  }, [visible, subjectName]);
+
+  // Refetch from the first page whenever the filters change; typing is debounced
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    const timer = setTimeout(() => fetchQuestions(1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [visible, fetchQuestions]);
+
+  const loadMore = () => {
+    if (loading || loadingMore || !pagination || pagination.page >= pagination.pages) return;
+    setLoadingMore(true);
+    fetchQuestions(pagination.page + 1);
+  };
+
+  const subjects = unique(tags.map((tag) => tag.subject));
+  const chapters = subject ? unique(tags.filter((tag) => tag.subject === subject).map((tag) => tag.chapter)) : [];
+
+  const toggleSelected = (questionId: string) => {
+    if (selectedIds.includes(questionId)) {
+      setSelectedIds(selectedIds.filter((id) => id !== questionId));
+      return;
+    }
+    if (selectedIds.length >= MAX_SELECTED) {
+      Alert.alert('Limit Reached', `Add at most ${MAX_SELECTED} questions at a time`);
+      return;
+    }
+    setSelectedIds([...selectedIds, questionId]);
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      await onAdd(selectedIds);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const renderChipRow = <T extends string>(
+    options: { value: T; label: string }[],
+    selectedValue: T | undefined,
+    onSelect: (value: T | undefined) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+      {options.map((option) => {
+        const selected = selectedValue === option.value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(selected ? undefined : option.value)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+  const renderQuestion = ({ item }: { item: BankQuestion }) => {
+    const added = addedIds.includes(item._id);
+    const selected = selectedIds.includes(item._id);
+    const tagPath = [item.subject, item.chapter, item.topic].filter(Boolean).join(' › ');
+
+    return (
+      <TouchableOpacity
+        style={[styles.questionCard, selected && styles.questionCardSelected, added && styles.questionCardAdded]}
+        onPress={() => toggleSelected(item._id)}
+        disabled={added}
+        activeOpacity={0.8}
+      >
+        <MaterialIcons
+          name={added ? 'check-circle' : selected ? 'check-box' : 'check-box-outline-blank'}
+          size={22}
+          color={added || selected ? BRAND.primaryColor : '#888'}
+        />
+        <View style={styles.questionBody}>
+          <Text style={styles.tagPath} numberOfLines={1}>{tagPath}</Text>
+          <Text style={styles.questionText} numberOfLines={3}>{item.questionText}</Text>
+          <Text style={styles.questionMeta}>
+            {getQuestionTypeLabel(item.questionType)}
+            {' · '}
+            {DIFFICULTY_OPTIONS.find((option) => option.value === item.difficulty)?.label || item.difficulty}
+            {item.images.length > 0 ? ` · ${item.images.length} images` : ''}
+            {added ? ' · already in this test' : ''}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color={BRAND.textPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.headerTitle}>Add from Bank</Text>
+            {pagination && <Text style={styles.headerSubtitle}>{pagination.total} questions</Text>}
+          </View>
+          <View style={styles.headerButton} />
+        </View>
+
+        <View style={styles.filters}>
+          <View style={styles.searchContainer}>
+            <MaterialIcons name="search" size={20} color="#666666" />
+            <TextInput
+              style={styles.searchInput}
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search questions, chapters or topics"
+              placeholderTextColor="#666666"
+              autoCorrect={false}
+            />
+            {!!search && (
+              <TouchableOpacity onPress={() => setSearch('')}>
+                <MaterialIcons name="close" size={18} color="#666666" />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {subjects.length > 0 && renderChipRow(toOptions(subjects), subject, (value) => {
+            setSubject(value);
+            setChapter(undefined);
+          })}
+          {chapters.length > 0 && renderChipRow(toOptions(chapters), chapter, setChapter)}
+          {renderChipRow(DIFFICULTY_OPTIONS, difficulty, setDifficulty)}
+          {renderChipRow(QUESTION_TYPE_OPTIONS, questionType, setQuestionType)}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={BRAND.primaryColor} />
+          </View>
+        ) : (
+          <FlatList
+            data={questions}
+            keyExtractor={(item) => item._id}
+            renderItem={renderQuestion}
+            contentContainerStyle={styles.listContent}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.4}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator color={BRAND.primaryColor} style={styles.footerLoader} /> : null
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <MaterialIcons name="quiz" size={56} color="#666" />
+                <Text style={styles.emptyText}>No questions found</Text>
+              </View>
+            }
+          />
+        )}
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.addButton, (!selectedIds.length || adding) && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!selectedIds.length || adding}
+          >
+            {adding ? (
+              <ActivityIndicator size="small" color="#000" />
+            ) : (
+              <Text style={styles.addButtonText}>
+                {selectedIds.length ? `Add ${selectedIds.length} Questions` : 'Select Questions'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 50 : 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerButton: {
+    padding: 8,
+    width: 40,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 12,
+    height: 46,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  chipScroll: {
+    flexGrow: 0,
+    marginBottom: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  questionCard: {
+    flexDirection: 'row',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  questionCardSelected: {
+    borderColor: BRAND.primaryColor,
+  },
+  questionCardAdded: {
+    opacity: 0.5,
+  },
+  questionBody: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  tagPath: {
+    color: BRAND.primaryColor,
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  questionText: {
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  questionMeta: {
+    color: '#888888',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  addButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#000',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
+
+export default QuestionBankPickerModal;
@@ -0,0 +1,512 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TextInput,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { MarkingScheme, QuestionImage, QuestionType, TestQuestionInput } from '../api';
+import QuestionImages from './QuestionImages';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+export const QUESTION_TYPE_OPTIONS: { value: QuestionType; label: string }[] = [
+  { value: 'single', label: 'Single Correct' },
+  { value: 'multiple', label: 'Multiple Correct' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'numerical', label: 'Numerical' },
+];
+
+export const MARKING_SCHEME_OPTIONS: { value: MarkingScheme; label: string }[] = [
+  { value: 'jee-main', label: 'JEE Main' },
+  { value: 'jee-advanced', label: 'JEE Advanced' },
+  { value: 'neet', label: 'NEET' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const getQuestionTypeLabel = (type: QuestionType) =>
+  QUESTION_TYPE_OPTIONS.find((option) => option.value === type)?.label || type;
+
+export type QuestionDefaults = Record<QuestionType, { marks: number; negativeMarks: number; partialMarking: boolean }>;
+
+// Text inputs hold strings; they become numbers again on save
+interface QuestionDraft {
+  _id?: string;
+  questionType: QuestionType;
+  questionText: string;
+  options: string[];
+  correctOptions: number[];
+  correctAnswer: string;
+  tolerance: string;
+  marks: string;
+  negativeMarks: string;
+  partialMarking: boolean;
+  solution: string;
+  images?: QuestionImage[];
+  bankQuestion?: string | null;
+}
+
+const isChoiceType = (type: QuestionType) => type === 'single' || type === 'multiple';
+
+const toDraft = (question: TestQuestionInput | null, defaults: QuestionDefaults): QuestionDraft => {
+  if (!question) {
+    return {
+      questionType: 'single',
+      questionText: '',
+      options: ['', '', '', ''],
+      correctOptions: [],
+      correctAnswer: '',
+      tolerance: '0',
+      marks: String(defaults.single.marks),
+      negativeMarks: String(defaults.single.negativeMarks),
+      partialMarking: defaults.single.partialMarking,
+      solution: '',
+    };
+  }
+
+  return {
+    _id: question._id,
+    questionType: question.questionType,
+    questionText: question.questionText,
+    options: isChoiceType(question.questionType) ? [...question.options] : ['', '', '', ''],
+    correctOptions: [...question.correctOptions],
+    correctAnswer: question.correctAnswer === null ? '' : String(question.correctAnswer),
+    tolerance: String(question.tolerance || 0),
+    marks: String(question.marks),
+    negativeMarks: String(question.negativeMarks),
+    partialMarking: question.partialMarking,
+    solution: question.solution || '',
+    images: question.images,
+    bankQuestion: question.bankQuestion,
+  };
+};
+
+interface QuestionEditorModalProps {
+  visible: boolean;
+  // null adds a new question
+  question: TestQuestionInput | null;
+  // Marks a new question (or one switched to another type) starts with
+  defaults: QuestionDefaults;
+  // For showing the images of a saved question copied from the bank
+  getImageUrl?: (questionId: string, imageId: string) => string;
+  onSave: (question: TestQuestionInput) => void;
+  onClose: () => void;
+}
+
+const QuestionEditorModal: React.FC<QuestionEditorModalProps> = ({
+  visible,
+  question,
+  defaults,
+  getImageUrl,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<QuestionDraft>(() => toDraft(question, defaults));
+
+  useEffect(() => {
+    if (visible) setDraft(toDraft(question, defaults));
+  }, [visible, question]);
+
+  const update = (changes: Partial<QuestionDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const changeType = (questionType: QuestionType) => {
+    const typeDefaults = defaults[questionType];
+    update({
+      questionType,
+      correctOptions: questionType === 'single' ? draft.correctOptions.slice(0, 1) : draft.correctOptions,
+      marks: String(typeDefaults.marks),
+      negativeMarks: String(typeDefaults.negativeMarks),
+      partialMarking: typeDefaults.partialMarking,
+    });
+  };
+
+  const toggleCorrect = (index: number) => {
+    if (draft.questionType === 'single') {
+      update({ correctOptions: [index] });
+      return;
+    }
+    update({
+      correctOptions: draft.correctOptions.includes(index)
+        ? draft.correctOptions.filter((option) => option !== index)
+        : [...draft.correctOptions, index].sort((a, b) => a - b),
+    });
+  };
+
+  const updateOption = (index: number, text: string) =>
+    update({ options: draft.options.map((option, i) => (i === index ? text : option)) });
+
+  const removeOption = (index: number) =>
+    update({
+      options: draft.options.filter((_, i) => i !== index),
+      correctOptions: draft.correctOptions
+        .filter((option) => option !== index)
+        .map((option) => (option > index ? option - 1 : option)),
+    });
+
+  const handleSave = () => {
+    const isChoice = isChoiceType(draft.questionType);
+    const marks = Number(draft.marks);
+    const negativeMarks = Number(draft.negativeMarks || 0);
+    const correctAnswer = Number(draft.correctAnswer);
+    const tolerance = Number(draft.tolerance || 0);
+
+    if (!draft.questionText.trim()) {
+      Alert.alert('Validation Error', 'Please enter the question');
+      return;
+    }
+    if (isChoice && (draft.options.length < 2 || draft.options.some((option) => !option.trim()))) {
+      Alert.alert('Validation Error', 'Add at least two options and fill every option');
+      return;
+    }
+    if (isChoice && !draft.correctOptions.length) {
+      Alert.alert('Validation Error', 'Tap the correct option');
+      return;
+    }
+    if (!isChoice && (draft.correctAnswer.trim() === '' || !Number.isFinite(correctAnswer))) {
+      Alert.alert('Validation Error', 'Please enter the correct answer');
+      return;
+    }
+    if (draft.questionType === 'integer' && !Number.isInteger(correctAnswer)) {
+      Alert.alert('Validation Error', 'The answer to an integer question must be a whole number');
+      return;
+    }
+    if (!(marks > 0) || !(negativeMarks >= 0) || !(tolerance >= 0)) {
+      Alert.alert('Validation Error', 'Marks must be positive, and negative marks and tolerance zero or more');
+      return;
+    }
+
+    onSave({
+      _id: draft._id,
+      questionType: draft.questionType,
+      questionText: draft.questionText.trim(),
+      options: isChoice ? draft.options.map((option) => option.trim()) : [],
+      correctOptions: isChoice ? draft.correctOptions : [],
+      correctAnswer: isChoice ? null : correctAnswer,
+      tolerance: draft.questionType === 'numerical' ? tolerance : 0,
+      marks,
+      negativeMarks,
+      partialMarking: draft.questionType === 'multiple' && draft.partialMarking,
+      solution: draft.solution.trim(),
+      images: draft.images,
+      bankQuestion: draft.bankQuestion,
+    });
+  };
+
+  const isChoice = isChoiceType(draft.questionType);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color={BRAND.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{question ? 'Edit Question' : 'Add Question'}</Text>
+          <TouchableOpacity style={styles.headerButton} onPress={handleSave}>
+            <MaterialIcons name="check" size={24} color={BRAND.primaryColor} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chipRow}>
+            {QUESTION_TYPE_OPTIONS.map((option) => {
+              const selected = draft.questionType === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => changeType(option.value)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Question *</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.questionText}
+            onChangeText={(questionText) => update({ questionText })}
+            placeholder="Enter the question"
+            placeholderTextColor="#666"
+            multiline
+          />
+          {!!draft._id && !!draft.images?.length && getImageUrl && (
+            <>
+              <QuestionImages
+                images={draft.images}
+                getImageUrl={(imageId) => getImageUrl(draft._id as string, imageId)}
+                size={120}
+              />
+              <Text style={styles.imageHint}>Images come from the question bank and can't be changed here</Text>
+            </>
+          )}
+
+          {isChoice ? (
+            <>
+              <Text style={styles.label}>
+                Options * <Text style={styles.labelHint}>(tap the {draft.questionType === 'single' ? 'circle' : 'boxes'} to mark correct)</Text>
+              </Text>
+              {draft.options.map((option, index) => {
+                const correct = draft.correctOptions.includes(index);
+                const icon = draft.questionType === 'single'
+                  ? (correct ? 'radio-button-checked' : 'radio-button-unchecked')
+                  : (correct ? 'check-box' : 'check-box-outline-blank');
+                return (
+                  <View key={index} style={styles.optionRow}>
+                    <TouchableOpacity onPress={() => toggleCorrect(index)} style={styles.optionToggle}>
+                      <MaterialIcons name={icon} size={22} color={correct ? BRAND.primaryColor : '#888'} />
+                    </TouchableOpacity>
+                    <Text style={styles.optionLetter}>{String.fromCharCode(65 + index)}</Text>
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      value={option}
+                      onChangeText={(text) => updateOption(index, text)}
+                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      placeholderTextColor="#666"
+                    />
+                    {draft.options.length > 2 && (
+                      <TouchableOpacity onPress={() => removeOption(index)} style={styles.optionToggle}>
+                        <MaterialIcons name="remove-circle-outline" size={20} color={BRAND.dangerColor} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+              {draft.options.length < 8 && (
+                <TouchableOpacity style={styles.addOptionButton} onPress={() => update({ options: [...draft.options, ''] })}>
+                  <MaterialIcons name="add" size={18} color={BRAND.primaryColor} />
+                  <Text style={styles.addOptionText}>Add Option</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          ) : (
+            <View style={styles.inputRow}>
+              <View style={styles.inputColumn}>
+                <Text style={styles.label}>Correct Answer *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={draft.correctAnswer}
+                  onChangeText={(correctAnswer) => update({ correctAnswer })}
+                  placeholder={draft.questionType === 'integer' ? 'e.g. 42' : 'e.g. 3.14'}
+                  placeholderTextColor="#666"
+                  keyboardType="numeric"
+                />
+              </View>
+              {draft.questionType === 'numerical' && (
+                <View style={styles.inputColumn}>
+                  <Text style={styles.label}>Tolerance (±)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={draft.tolerance}
+                    onChangeText={(tolerance) => update({ tolerance })}
+                    placeholder="0.01"
+                    placeholderTextColor="#666"
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
+            </View>
+          )}
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputColumn}>
+              <Text style={styles.label}>Marks *</Text>
+              <TextInput
+                style={styles.input}
+                value={draft.marks}
+                onChangeText={(marks) => update({ marks })}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={styles.inputColumn}>
+              <Text style={styles.label}>Negative Marks</Text>
+              <TextInput
+                style={styles.input}
+                value={draft.negativeMarks}
+                onChangeText={(negativeMarks) => update({ negativeMarks })}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+
+          {draft.questionType === 'multiple' && (
+            <TouchableOpacity
+              style={styles.toggleRow}
+              onPress={() => update({ partialMarking: !draft.partialMarking })}
+            >
+              <MaterialIcons
+                name={draft.partialMarking ? 'check-box' : 'check-box-outline-blank'}
+                size={22}
+                color={draft.partialMarking ? BRAND.primaryColor : '#888'}
+              />
+              <Text style={styles.toggleText}>Partial marking (+1 per correct option when no wrong option is chosen)</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.label}>Solution</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.solution}
+            onChangeText={(solution) => update({ solution })}
+            placeholder="Shown to students after they submit"
+            placeholderTextColor="#666"
+            multiline
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 50 : 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  labelHint: {
+    fontWeight: '400',
+    color: '#888',
+  },
+  imageHint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  optionToggle: {
+    padding: 4,
+  },
+  optionLetter: {
+    width: 20,
+    color: BRAND.textSecondary,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  optionInput: {
+    flex: 1,
+  },
+  addOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  addOptionText: {
+    color: BRAND.primaryColor,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  toggleText: {
+    flex: 1,
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+});
+
+export default QuestionEditorModal;
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { View, Image, ScrollView, StyleSheet } from 'react-native';
+import { QuestionImage, getToken } from '../api';
+
+interface QuestionImagesProps {
+  images?: QuestionImage[];
+  // The image endpoints need the Authorization header
+  getImageUrl: (imageId: string) => string;
+  size?: number;
+}
+
+// A question's images in a horizontal strip
+const QuestionImages: React.FC<QuestionImagesProps> = ({ images, getImageUrl, size = 160 }) => {
+  const [authToken, setAuthToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    getToken().then(setAuthToken);
+  }, []);
+
+  if (!images?.length || !authToken) return null;
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.strip}>
+      {images.map((image) => (
+        <View key={image._id} style={styles.imageWrapper}>
+          <Image
+            source={{ uri: getImageUrl(image._id), headers: { Authorization: `Bearer ${authToken}` } }}
+            style={{ width: size, height: size }}
+            resizeMode="contain"
+          />
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  strip: {
+    marginTop: 10,
+  },
+  imageWrapper: {
+    marginRight: 10,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+  },
+});
+
+export default QuestionImages;
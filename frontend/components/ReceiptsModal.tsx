@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { ApiError, Payment, getSession, paymentsApi } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+};
+
+interface ReceiptsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '');
+
+const ReceiptsModal: React.FC<ReceiptsModalProps> = ({ visible, onClose }) => {
+  const [receipts, setReceipts] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadReceipts = async () => {
+      setIsLoading(true);
+      try {
+        const response = await paymentsApi.getMyReceipts({ limit: 100 });
+        setReceipts(response.data);
+      } catch (error) {
+        console.error('Error loading receipts:', error);
+        if (error instanceof ApiError && error.isUnauthorized) return;
+        Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load receipts');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReceipts();
+  }, [visible]);
+
+  const handleDownload = async (payment: Payment) => {
+    setDownloadingId(payment._id);
+    try {
+      const session = await getSession();
+      if (!session) {
+        Alert.alert('Error', 'Please log in to download receipts');
+        return;
+      }
+
+      const fileName = `invoice-${payment.invoiceNumber?.replace(/\//g, '-') || payment._id}.pdf`;
+      const downloadResult = await FileSystem.downloadAsync(
+        paymentsApi.getInvoiceUrl(payment._id),
+        FileSystem.documentDirectory + fileName,
+        { headers: { Authorization: `Bearer ${session.token}` } }
+      );
+
+      if (downloadResult.status !== 200) {
+        Alert.alert('Error', 'Could not download this receipt. Please try again.');
+        return;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(downloadResult.uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: 'Save or Share Receipt',
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Downloaded', 'Receipt saved to your device');
+      }
+    } catch (error) {
+      console.error('Error downloading receipt:', error);
+      Alert.alert('Error', 'Could not download this receipt. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const renderReceipt = ({ item }: { item: Payment }) => (
+    <View style={styles.receiptRow}>
+      <View style={styles.receiptInfo}>
+        <Text style={styles.receiptTitle} numberOfLines={1}>{item.itemTitle}</Text>
+        <Text style={styles.receiptMeta}>
+          ₹{item.amount} · {formatDate(item.capturedAt)}
+          {item.status === 'refunded' ? ' · Refunded' : ''}
+        </Text>
+        {item.invoiceNumber && <Text style={styles.receiptNumber}>{item.invoiceNumber}</Text>}
+      </View>
+      <TouchableOpacity
+        style={styles.downloadButton}
+        onPress={() => handleDownload(item)}
+        disabled={downloadingId !== null}
+      >
+        {downloadingId === item._id ? (
+          <ActivityIndicator size="small" color={BRAND.primaryColor} />
+        ) : (
+          <MaterialIcons name="file-download" size={22} color={BRAND.primaryColor} />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Receipts</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialIcons name="close" size={24} color="#cccccc" />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color={BRAND.primaryColor} style={styles.loader} />
+          ) : (
+            <FlatList
+              data={receipts}
+              keyExtractor={(item) => item._id}
+              renderItem={renderReceipt}
+              ListEmptyComponent={<Text style={styles.emptyText}>No purchases yet</Text>}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    maxHeight: '80%',
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 30,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  loader: {
+    marginVertical: 30,
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  receiptInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  receiptTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  receiptMeta: {
+    fontSize: 13,
+    color: '#cccccc',
+    marginTop: 2,
+  },
+  receiptNumber: {
+    fontSize: 12,
+    color: '#888888',
+    marginTop: 2,
+  },
+  downloadButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#cccccc',
+    fontSize: 15,
+    textAlign: 'center',
+    marginVertical: 30,
+  },
+});
+
+export default ReceiptsModal;
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  StyleSheet,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ApiError, RefundRecordType, refundsApi } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+};
+
+export interface RefundTarget {
+  recordType: RefundRecordType;
+  recordId: string;
+  title: string;
+  amount: number;
+}
+
+interface RefundRequestModalProps {
+  target: RefundTarget | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const RefundRequestModal: React.FC<RefundRequestModalProps> = ({ target, onClose, onSubmitted }) => {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setReason('');
+    }
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target) return;
+    if (!reason.trim()) {
+      Alert.alert('Error', 'Please tell us why you want a refund');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await refundsApi.requestRefund({
+        recordType: target.recordType,
+        recordId: target.recordId,
+        reason: reason.trim(),
+      });
+      Alert.alert(
+        'Refund Requested',
+        'Your request has been sent. Access stays open until an admin reviews it.'
+      );
+      onSubmitted();
+      onClose();
+    } catch (error) {
+      console.error('Error requesting refund:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to submit refund request');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={target !== null} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Request Refund</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <MaterialIcons name="close" size={24} color="#cccccc" />
+            </TouchableOpacity>
+          </View>
+
+          {target && (
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle} numberOfLines={2}>{target.title}</Text>
+              <Text style={styles.summaryAmount}>Paid ₹{target.amount}</Text>
+            </View>
+          )}
+
+          <Text style={styles.inputLabel}>Reason</Text>
+          <View style={styles.inputWrapper}>
+            <TextInput
+              style={styles.textInput}
+              value={reason}
+              onChangeText={setReason}
+              placeholder="Why would you like a refund?"
+              placeholderTextColor="#666666"
+              multiline
+              maxLength={1000}
+              editable={!isSaving}
+            />
+          </View>
+
+          <Text style={styles.noticeText}>
+            If the refund is approved, your access to this content will be removed.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSaving}
+            activeOpacity={0.8}
+          >
+            {isSaving ? (
+              <ActivityIndicator color={BRAND.backgroundColor} size="small" />
+            ) : (
+              <Text style={styles.saveButtonText}>Submit Request</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 30,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  summaryCard: {
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 18,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  summaryAmount: {
+    fontSize: 14,
+    color: BRAND.primaryColor,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginBottom: 8,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  inputWrapper: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 110,
+    marginBottom: 14,
+  },
+  textInput: {
+    color: '#ffffff',
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  noticeText: {
+    color: '#cccccc',
+    fontSize: 13,
+    marginBottom: 22,
+  },
+  saveButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 15,
+    height: 54,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 17,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
+
+export default RefundRequestModal;
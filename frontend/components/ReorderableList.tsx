@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { View, Animated, PanResponder, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  accentColor: '#1a2e1a',
+};
+
+interface ReorderableListProps<T> {
+  items: T[];
+  // Every row is this tall; the drop position is worked out from it
+  itemHeight: number;
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  onReorder: (items: T[]) => void;
+  // Lets the screen pause its ScrollView while a row is held
+  onDragStateChange?: (dragging: boolean) => void;
+}
+
+interface DragHandlers {
+  start: (index: number) => void;
+  move: (index: number, dy: number) => void;
+  end: (index: number, dy: number) => void;
+}
+
+// The grip on each row. The responder is created once, so it reads its index and the
+// list's handlers through refs rather than closing over stale values.
+const DragHandle = ({ index, handlersRef }: { index: number; handlersRef: React.MutableRefObject<DragHandlers> }) => {
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => handlersRef.current.start(indexRef.current),
+      onPanResponderMove: (_, gesture) => handlersRef.current.move(indexRef.current, gesture.dy),
+      onPanResponderRelease: (_, gesture) => handlersRef.current.end(indexRef.current, gesture.dy),
+      onPanResponderTerminate: (_, gesture) => handlersRef.current.end(indexRef.current, gesture.dy),
+    })
+  ).current;
+
+  return (
+    <View style={styles.handle} {...responder.panHandlers}>
+      <MaterialIcons name="drag-indicator" size={22} color={BRAND.primaryColor} />
+    </View>
+  );
+};
+
+// A column of fixed-height rows that can be reordered by dragging their grip
+function ReorderableList<T>({
+  items,
+  itemHeight,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragStateChange,
+}: ReorderableListProps<T>) {
+  const dragY = useRef(new Animated.Value(0)).current;
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  const targetFor = (from: number, dy: number) =>
+    Math.max(0, Math.min(items.length - 1, from + Math.round(dy / itemHeight)));
+
+  const handlersRef = useRef<DragHandlers>({ start: () => {}, move: () => {}, end: () => {} });
+  handlersRef.current = {
+    start: (index) => {
+      dragY.setValue(0);
+      setDrag({ from: index, to: index });
+      onDragStateChange?.(true);
+    },
+    move: (index, dy) => {
+      dragY.setValue(dy);
+      const to = targetFor(index, dy);
+      setDrag(current => (current && current.to !== to ? { from: index, to } : current));
+    },
+    end: (index, dy) => {
+      const to = targetFor(index, dy);
+      dragY.setValue(0);
+      setDrag(null);
+      onDragStateChange?.(false);
+
+      if (to !== index) {
+        const next = [...items];
+        const [moved] = next.splice(index, 1);
+        next.splice(to, 0, moved);
+        onReorder(next);
+      }
+    },
+  };
+
+  // Rows between the picked-up row and its drop position slide over to make room
+  const shiftFor = (index: number) => {
+    if (!drag || index === drag.from) return 0;
+    if (drag.from < index && index <= drag.to) return -itemHeight;
+    if (drag.to <= index && index < drag.from) return itemHeight;
+    return 0;
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => {
+        const isDragging = drag?.from === index;
+        return (
+          <Animated.View
+            key={keyExtractor(item)}
+            style={[
+              styles.row,
+              { height: itemHeight },
+              isDragging
+                ? [styles.rowDragging, { transform: [{ translateY: dragY }] }]
+                : { transform: [{ translateY: shiftFor(index) }] },
+            ]}
+          >
+            <DragHandle index={index} handlersRef={handlersRef} />
+            <View style={styles.content}>{renderItem(item, index)}</View>
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowDragging: {
+    zIndex: 10,
+    elevation: 6,
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 8,
+    opacity: 0.95,
+  },
+  handle: {
+    width: 36,
+    height: '100%',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+});
+
+export default ReorderableList;
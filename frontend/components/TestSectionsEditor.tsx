@@ -0,0 +1,292 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { TestSection } from '../api';
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  accentColor: '#1a2e1a',
+  dangerColor: '#ff4444',
+};
+
+// Form state keeps the raw input so half-typed numbers aren't reformatted
+export interface SectionDraft {
+  name: string;
+  questions: { label: string; maxMarks: string }[];
+}
+
+export const toSectionDrafts = (sections: TestSection[] = []): SectionDraft[] =>
+  sections.map(section => ({
+    name: section.name,
+    questions: section.questions.map(question => ({
+      label: question.label,
+      maxMarks: String(question.maxMarks),
+    })),
+  }));
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const getDraftTotal = (drafts: SectionDraft[]) =>
+  round2(drafts.reduce(
+    (sum, section) => sum + section.questions.reduce((subtotal, question) => subtotal + (parseFloat(question.maxMarks) || 0), 0),
+    0
+  ));
+
+// The same checks the server makes, so the form can point at the problem before submitting
+export const parseSectionDrafts = (
+  drafts: SectionDraft[],
+  fullMarks: number
+): { sections: TestSection[] } | { message: string } => {
+  const sections: TestSection[] = [];
+  const labels = new Set<string>();
+
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!name) return { message: 'Every section needs a name' };
+    if (sections.some(section => section.name === name)) return { message: `Section ${name} is listed twice` };
+    if (!draft.questions.length) return { message: `Section ${name} has no questions` };
+
+    const questions = [];
+    for (const question of draft.questions) {
+      const label = question.label.trim();
+      const maxMarks = parseFloat(question.maxMarks);
+      if (!label) return { message: `Every question in section ${name} needs a label` };
+      if (labels.has(label)) return { message: `Question ${label} is listed twice` };
+      if (isNaN(maxMarks) || maxMarks <= 0) return { message: `Question ${label} needs marks greater than 0` };
+      labels.add(label);
+      questions.push({ label, maxMarks });
+    }
+    sections.push({ name, questions });
+  }
+
+  const total = getDraftTotal(drafts);
+  if (sections.length && total !== fullMarks) {
+    return { message: `Question marks add up to ${total}, but the test is out of ${fullMarks}` };
+  }
+
+  return { sections };
+};
+
+// Next free numeric label across the whole paper, so questions number on from the last section
+const nextQuestionLabel = (drafts: SectionDraft[]) => {
+  const numbers = drafts.flatMap(section => section.questions.map(question => parseInt(question.label, 10) || 0));
+  return String(Math.max(0, ...numbers) + 1);
+};
+
+interface TestSectionsEditorProps {
+  sections: SectionDraft[];
+  fullMarks: string;
+  // Marks have already been entered per question, so the scheme can't change
+  locked?: boolean;
+  onChange: (sections: SectionDraft[]) => void;
+}
+
+const TestSectionsEditor: React.FC<TestSectionsEditorProps> = ({ sections, fullMarks, locked = false, onChange }) => {
+  const total = getDraftTotal(sections);
+  const target = parseFloat(fullMarks) || 0;
+
+  const updateSection = (index: number, changes: Partial<SectionDraft>) => {
+    onChange(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const addSection = () => {
+    onChange([
+      ...sections,
+      {
+        name: `Section ${String.fromCharCode(65 + (sections.length % 26))}`,
+        questions: [{ label: nextQuestionLabel(sections), maxMarks: '' }],
+      },
+    ]);
+  };
+
+  const addQuestion = (index: number) => {
+    updateSection(index, {
+      questions: [...sections[index].questions, { label: nextQuestionLabel(sections), maxMarks: '' }],
+    });
+  };
+
+  const updateQuestion = (sectionIndex: number, questionIndex: number, changes: Partial<SectionDraft['questions'][number]>) => {
+    updateSection(sectionIndex, {
+      questions: sections[sectionIndex].questions.map((question, i) =>
+        i === questionIndex ? { ...question, ...changes } : question
+      ),
+    });
+  };
+
+  const removeQuestion = (sectionIndex: number, questionIndex: number) => {
+    updateSection(sectionIndex, {
+      questions: sections[sectionIndex].questions.filter((_, i) => i !== questionIndex),
+    });
+  };
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        {locked
+          ? 'Marks have been entered per question, so the sections can no longer change.'
+          : 'Optional. Split the paper into sections (e.g. Physics, Chemistry or Section A, B) to enter marks per question and show students where they lost marks.'}
+      </Text>
+
+      {sections.map((section, sectionIndex) => (
+        <View key={sectionIndex} style={styles.sectionCard}>
+          <View style={styles.sectionHeader}>
+            <TextInput
+              style={[styles.input, styles.sectionNameInput]}
+              value={section.name}
+              onChangeText={name => updateSection(sectionIndex, { name })}
+              placeholder="Section name"
+              placeholderTextColor="#888"
+              maxLength={50}
+              editable={!locked}
+            />
+            {!locked && (
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => onChange(sections.filter((_, i) => i !== sectionIndex))}
+              >
+                <MaterialIcons name="delete-outline" size={22} color={BRAND.dangerColor} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {section.questions.map((question, questionIndex) => (
+            <View key={questionIndex} style={styles.questionRow}>
+              <Text style={styles.questionPrefix}>Q</Text>
+              <TextInput
+                style={[styles.input, styles.labelInput]}
+                value={question.label}
+                onChangeText={label => updateQuestion(sectionIndex, questionIndex, { label })}
+                placeholder="1(a)"
+                placeholderTextColor="#888"
+                maxLength={20}
+                editable={!locked}
+              />
+              <TextInput
+                style={[styles.input, styles.marksInput]}
+                value={question.maxMarks}
+                onChangeText={maxMarks => updateQuestion(sectionIndex, questionIndex, { maxMarks })}
+                placeholder="Marks"
+                placeholderTextColor="#888"
+                keyboardType="decimal-pad"
+                editable={!locked}
+              />
+              {!locked && (
+                <TouchableOpacity style={styles.iconButton} onPress={() => removeQuestion(sectionIndex, questionIndex)}>
+                  <MaterialIcons name="remove-circle-outline" size={20} color={BRAND.dangerColor} />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {!locked && (
+            <TouchableOpacity style={styles.linkButton} onPress={() => addQuestion(sectionIndex)}>
+              <MaterialIcons name="add" size={18} color={BRAND.primaryColor} />
+              <Text style={styles.linkButtonText}>Add Question</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {!locked && (
+        <TouchableOpacity style={styles.addSectionButton} onPress={addSection}>
+          <MaterialIcons name="playlist-add" size={22} color={BRAND.primaryColor} />
+          <Text style={styles.linkButtonText}>Add Section</Text>
+        </TouchableOpacity>
+      )}
+
+      {sections.length > 0 && (
+        <Text style={[styles.total, total !== target && { color: BRAND.dangerColor }]}>
+          Questions total {total} / {target} full marks
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 12,
+  },
+  sectionCard: {
+    backgroundColor: 'rgba(255,255,255,0.03)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: BRAND.accentColor,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#fff',
+  },
+  sectionNameInput: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  questionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  questionPrefix: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#888',
+    marginRight: 6,
+  },
+  labelInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  marksInput: {
+    width: 90,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.primaryColor,
+    marginLeft: 4,
+  },
+  addSectionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(0, 255, 136, 0.4)',
+  },
+  total: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: BRAND.primaryColor,
+    marginTop: 10,
+  },
+});
+
+export default TestSectionsEditor;
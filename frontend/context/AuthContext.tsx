@@ -0,0 +1,213 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+import {
+  ApiError,
+  Session,
+  SessionTokens,
+  SessionUser,
+  UserRole,
+  authApi,
+  clearSession,
+  getRefreshToken,
+  getSession,
+  getTokenExpiresAt,
+  refreshSession,
+  saveProfile,
+  saveSession,
+  saveTokens,
+  setTokenRefreshedHandler,
+  setUnauthorizedHandler,
+} from '../api';
+
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string | null;
+  role: UserRole;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  token: string | null;
+  role: UserRole | null;
+  isLoading: boolean;
+  // True when the last session ended because the server rejected the token
+  sessionExpired: boolean;
+  signIn: (tokens: SessionTokens, user: SessionUser) => Promise<void>;
+  // Revokes the refresh token on the server before clearing the local session
+  signOut: (allDevices?: boolean) => Promise<void>;
+  expireSession: (message?: string) => Promise<void>;
+  // Persist tokens issued mid-session (e.g. after a password change)
+  updateTokens: (tokens: SessionTokens) => Promise<void>;
+  updateProfile: (profile: { name?: string; phone?: string }) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const toUser = (session: Session): AuthUser => ({
+  id: session.userId,
+  name: session.userName,
+  email: session.email,
+  role: session.role,
+});
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  // Restore the session saved by a previous sign in
+  const reload = useCallback(async () => {
+    try {
+      const session = await getSession();
+      setUser(session ? toUser(session) : null);
+      setToken(session?.token ?? null);
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      setUser(null);
+      setToken(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const signIn = useCallback(async (tokens: SessionTokens, sessionUser: SessionUser) => {
+    await saveSession(tokens, sessionUser);
+    setSessionExpired(false);
+    setToken(tokens.token);
+    setUser({
+      id: sessionUser.id,
+      name: sessionUser.name,
+      email: sessionUser.email ?? null,
+      role: (sessionUser.role as UserRole) || 'user',
+    });
+  }, []);
+
+  const signOut = useCallback(async (allDevices = false) => {
+    try {
+      const refreshToken = await getRefreshToken();
+      if (refreshToken) {
+        await authApi.logout(refreshToken, allDevices);
+      }
+    } catch (error) {
+      // Still sign out locally; the refresh token expires on its own
+      console.error('Error revoking session:', error);
+    }
+    await clearSession();
+    setSessionExpired(false);
+    setToken(null);
+    setUser(null);
+  }, []);
+
+  const expireSession = useCallback(async (message?: string) => {
+    await clearSession();
+    setSessionExpired(true);
+    setToken(null);
+    setUser(null);
+    Alert.alert('Session Expired', message || 'Your session has expired. Please sign in again.');
+  }, []);
+
+  const updateTokens = useCallback(async (tokens: SessionTokens) => {
+    await saveTokens(tokens);
+    setToken(tokens.token);
+  }, []);
+
+  const updateProfile = useCallback(async (profile: { name?: string; phone?: string }) => {
+    await saveProfile(profile);
+    if (profile.name) {
+      const name = profile.name;
+      setUser((current) => (current ? { ...current, name } : current));
+    }
+  }, []);
+
+  // The API client has already cleared storage on a 401; only react if we thought we were signed in
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      if (user) {
+        expireSession();
+      }
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [user, expireSession]);
+
+  useEffect(() => {
+    setTokenRefreshedHandler(setToken);
+    return () => setTokenRefreshedHandler(null);
+  }, []);
+
+  // Renew the access token shortly before it expires (and when the app returns to the foreground),
+  // so screens that still call fetch with the stored token keep working
+  useEffect(() => {
+    if (!user) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const schedule = async () => {
+      clearTimeout(timer);
+      const expiresAt = await getTokenExpiresAt();
+      if (!expiresAt || cancelled) return;
+
+      timer = setTimeout(async () => {
+        try {
+          await refreshSession();
+          schedule();
+        } catch (error) {
+          // Offline refreshes are retried on the next foreground; rejected ones end the session
+          if (error instanceof ApiError && !error.isNetworkError) {
+            expireSession();
+          }
+        }
+      }, Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0));
+    };
+
+    schedule();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        schedule();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [user, expireSession]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      user,
+      token,
+      role: user?.role ?? null,
+      isLoading,
+      sessionExpired,
+      signIn,
+      signOut,
+      expireSession,
+      updateTokens,
+      updateProfile,
+      reload,
+    }),
+    [user, token, isLoading, sessionExpired, signIn, signOut, expireSession, updateTokens, updateProfile, reload]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
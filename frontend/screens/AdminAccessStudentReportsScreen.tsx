@@ -13,13 +13,10 @@ import {
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation } from '@react-navigation/native';
-import { API_BASE } from '../config/api';
+import { ApiError, StudentAttendanceSummary, attendanceApi } from '../api';
 import AcademicDetailedRecordComponent from '../components/AcademicDetailedRecordComponent';
 
-const API_URL = API_BASE;
-
 const BRAND = {
   primaryColor: '#00ff88',
   backgroundColor: '#0a1a0a',
@@ -30,32 +27,7 @@ const BRAND = {
 
 const { width } = Dimensions.get('window');
 
-interface StudentAttendance {
-  studentId: string;
-  studentName: string;
-  studentEmail: string;
-  batchId: string;
-  batchName: string;
-  overallStatistics: {
-    totalClasses: number;
-    present: number;
-    absent: number;
-    attendancePercentage: number;
-    totalSubjects: number;
-  };
-  subjects: Array<{
-    subjectName: string;
-    teacher: {
-      name: string;
-    } | null;
-    statistics: {
-      totalClasses: number;
-      present: number;
-      absent: number;
-      attendancePercentage: number;
-    };
-  }>;
-}
+type StudentAttendance = StudentAttendanceSummary;
 
 interface BatchGroup {
   batchId: string;
@@ -86,36 +58,19 @@ export default function AdminAccessStudentReportsScreen() {
 
   const fetchAttendanceData = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      if (!token) {
-        Alert.alert('Error', 'Authentication required');
-        return;
-      }
-
-      const response = await fetch(`${API_URL}/attendance/comprehensive`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        console.error('Non-JSON response received:', await response.text());
-        throw new Error('Server returned non-JSON response');
-      }
-
-      const data = await response.json();
-
-      if (data.success) {
-        const grouped = groupStudentsByBatch(data.data.students);
-        setBatchGroups(grouped);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch attendance data');
-      }
+      const data = await attendanceApi.getComprehensiveAttendance();
+      const grouped = groupStudentsByBatch(data.data.students);
+      setBatchGroups(grouped);
     } catch (error) {
       console.error('Fetch error:', error);
-      Alert.alert('Error', 'Failed to load attendance data. Please check your connection and try again.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert(
+          'Error',
+          error.isNetworkError
+            ? 'Failed to load attendance data. Please check your connection and try again.'
+            : error.message
+        );
+      }
     } finally {
       setLoading(false);
       setRefreshing(false);
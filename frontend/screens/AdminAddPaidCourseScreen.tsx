@@ -16,7 +16,9 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { ApiError, Course, CourseValidity, CourseVideo, InstallmentPlan, VideoInput, paidCoursesApi } from '../api';
+import CurriculumEditorModal from '../components/CurriculumEditorModal';
 // Add these imports for image picking
 import * as ImagePicker from 'expo-image-picker';
 // Alternative for React Native CLI:
@@ -36,51 +38,31 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-// Mock API configuration (replace with your actual API)
-const API_BASE_URL = API_BASE;
-
-// Types
-interface PaidCourse {
-  _id?: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: VideoLink[];
-  courseThumbnail: string;
+type PaidCourse = Course;
+type VideoLink = CourseVideo;
+type CourseForm = Omit<PaidCourse, '_id' | 'studentsEnrolled' | 'createdAt' | 'updatedAt'> & {
   thumbnailUri?: string; // For local image handling
-  thumbnailMetadata?: {
-    originalName: string;
-    size: number;
-    mimeType: string;
-    uploadedAt: Date;
-  };
-  isActive: boolean;
-  studentsEnrolled?: StudentEnrollment[];
-  createdAt?: string;
-}
+};
 
-interface VideoLink {
-  _id?: string;
-  videoTitle: string;
-  videoDescription: string;
-  videoLink: string;
-  duration: string;
-}
+const DEFAULT_INSTALLMENT_PLAN: InstallmentPlan = {
+  enabled: false,
+  installments: 2,
+  intervalDays: 30,
+  gracePeriodDays: 7,
+};
 
-interface StudentEnrollment {
-  _id?: string;
-  studentId: string;
-  mode: string;
-  schedule: string;
-  enrolledAt?: Date;
-}
+const DEFAULT_VALIDITY: CourseValidity = {
+  kind: 'months',
+  months: 12,
+  endDate: null,
+  renewalPrice: null,
+};
+
+const VALIDITY_KINDS: { kind: CourseValidity['kind']; label: string }[] = [
+  { kind: 'months', label: 'MONTHS' },
+  { kind: 'fixed', label: 'END DATE' },
+  { kind: 'lifetime', label: 'LIFETIME' },
+];
 
 interface AdminPaidCourseScreenProps {
   navigation?: any;
@@ -98,9 +80,11 @@ export default function AdminPaidCourseScreen({
   const [showVideoModal, setShowVideoModal] = useState(false);
   const [editingCourse, setEditingCourse] = useState<PaidCourse | null>(null);
   const [selectedCourse, setSelectedCourse] = useState<PaidCourse | null>(null);
+  const [curriculumCourse, setCurriculumCourse] = useState<PaidCourse | null>(null);
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
 
   // Form state
-  const [courseForm, setCourseForm] = useState<PaidCourse>({
+  const [courseForm, setCourseForm] = useState<CourseForm>({
     courseTitle: '',
     tutor: '',
     rating: 0,
@@ -112,18 +96,20 @@ export default function AdminPaidCourseScreen({
       description: '',
     },
     videoLinks: [],
+    installmentPlan: DEFAULT_INSTALLMENT_PLAN,
+    validity: DEFAULT_VALIDITY,
     courseThumbnail: '',
     thumbnailUri: '',
     isActive: true,
-    studentsEnrolled: [],
   });
 
   // Video form state
-  const [videoForm, setVideoForm] = useState<VideoLink>({
+  const [videoForm, setVideoForm] = useState<VideoInput>({
     videoTitle: '',
     videoDescription: '',
     videoLink: '',
     duration: '',
+    isPreview: false,
   });
 
   const [editingVideo, setEditingVideo] = useState<VideoLink | null>(null);
@@ -186,13 +172,8 @@ export default function AdminPaidCourseScreen({
   const loadCourses = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidCourses`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      // The admin list keeps every video link; the public one hides them
+      const data = await paidCoursesApi.getAllCoursesForAdmin();
       
       if (data.success) {
         setCourses(data.data || []);
@@ -201,7 +182,9 @@ export default function AdminPaidCourseScreen({
       }
     } catch (error) {
       console.error('Error loading paid courses:', error);
-      Alert.alert('Error', 'Failed to load paid courses. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load paid courses. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -212,12 +195,6 @@ export default function AdminPaidCourseScreen({
       if (!validateCourse()) return;
       
       setLoading(true);
-      const url = editingCourse 
-        ? `${API_BASE_URL}/paidCourses/${editingCourse._id}`
-        : `${API_BASE_URL}/paidCourses`;
-      
-      const method = editingCourse ? 'PUT' : 'POST';
-      
       // Create FormData for multipart/form-data
       const formData = new FormData();
       
@@ -230,6 +207,8 @@ export default function AdminPaidCourseScreen({
       formData.append('class', courseForm.class);
       formData.append('courseDetails', JSON.stringify(courseForm.courseDetails));
       formData.append('videoLinks', JSON.stringify(courseForm.videoLinks));
+      formData.append('installmentPlan', JSON.stringify(courseForm.installmentPlan || DEFAULT_INSTALLMENT_PLAN));
+      formData.append('validity', JSON.stringify(courseForm.validity || DEFAULT_VALIDITY));
       formData.append('isActive', courseForm.isActive.toString());
       
       // Add thumbnail if selected
@@ -245,19 +224,9 @@ export default function AdminPaidCourseScreen({
         } as any);
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingCourse
+        ? await paidCoursesApi.updateCourse(editingCourse._id, formData)
+        : await paidCoursesApi.createCourse(formData);
       
       if (data.success) {
         Alert.alert('Success', editingCourse ? 'Paid course updated!' : 'Paid course created!');
@@ -269,7 +238,14 @@ export default function AdminPaidCourseScreen({
       }
     } catch (error) {
       console.error('Error saving paid course:', error);
-      Alert.alert('Error', 'Failed to save paid course. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save paid course. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -292,15 +268,7 @@ export default function AdminPaidCourseScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/paidCourses/${courseId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await paidCoursesApi.deleteCourse(courseId);
               
               if (data.success) {
                 Alert.alert('Success', 'Paid course deleted!');
@@ -310,7 +278,14 @@ export default function AdminPaidCourseScreen({
               }
             } catch (error) {
               console.error('Error deleting paid course:', error);
-              Alert.alert('Error', 'Failed to delete paid course. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete paid course. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -329,19 +304,7 @@ export default function AdminPaidCourseScreen({
       }
       
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidCourses/${selectedCourse._id}/videos`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(videoForm),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await paidCoursesApi.addVideo(selectedCourse._id, videoForm);
       
       if (data.success) {
         Alert.alert('Success', 'Video added to paid course!');
@@ -350,6 +313,7 @@ export default function AdminPaidCourseScreen({
           videoDescription: '',
           videoLink: '',
           duration: '',
+          isPreview: false,
         });
         setSelectedCourse(data.data);
         loadCourses();
@@ -358,7 +322,14 @@ export default function AdminPaidCourseScreen({
       }
     } catch (error) {
       console.error('Error adding video:', error);
-      Alert.alert('Error', 'Failed to add video. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to add video. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -373,19 +344,7 @@ export default function AdminPaidCourseScreen({
       }
       
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidCourses/${selectedCourse._id}/videos/${editingVideo._id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(videoForm),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await paidCoursesApi.updateVideo(selectedCourse._id, editingVideo._id, videoForm);
       
       if (data.success) {
         Alert.alert('Success', 'Video updated in paid course!');
@@ -394,6 +353,7 @@ export default function AdminPaidCourseScreen({
           videoDescription: '',
           videoLink: '',
           duration: '',
+          isPreview: false,
         });
         setEditingVideo(null);
         setEditingVideoIndex(null);
@@ -404,7 +364,14 @@ export default function AdminPaidCourseScreen({
       }
     } catch (error) {
       console.error('Error updating video:', error);
-      Alert.alert('Error', 'Failed to update video. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to update video. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -427,15 +394,7 @@ export default function AdminPaidCourseScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/paidCourses/${selectedCourse._id}/videos/${videoId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await paidCoursesApi.deleteVideo(selectedCourse._id, videoId);
               
               if (data.success) {
                 Alert.alert('Success', 'Video deleted from paid course!');
@@ -446,7 +405,14 @@ export default function AdminPaidCourseScreen({
               }
             } catch (error) {
               console.error('Error deleting video:', error);
-              Alert.alert('Error', 'Failed to delete video. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete video. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -492,6 +458,32 @@ export default function AdminPaidCourseScreen({
       Alert.alert('Error', 'Rating must be between 0 and 5');
       return false;
     }
+    // Installment plan validation (mirrors the server limits)
+    const plan = courseForm.installmentPlan;
+    if (plan?.enabled) {
+      if (plan.intervalDays < 7 || plan.intervalDays > 365) {
+        Alert.alert('Error', 'Installments must be between 7 and 365 days apart');
+        return false;
+      }
+      if (plan.gracePeriodDays < 0 || plan.gracePeriodDays > 60) {
+        Alert.alert('Error', 'Grace period must be between 0 and 60 days');
+        return false;
+      }
+    }
+    // Validity validation
+    const courseValidity = courseForm.validity || DEFAULT_VALIDITY;
+    if (courseValidity.kind === 'months' && (courseValidity.months < 1 || courseValidity.months > 120)) {
+      Alert.alert('Error', 'Validity must be between 1 and 120 months');
+      return false;
+    }
+    if (courseValidity.kind === 'fixed' && !courseValidity.endDate) {
+      Alert.alert('Error', 'Please choose the date access ends');
+      return false;
+    }
+    if (courseValidity.renewalPrice !== null && courseValidity.renewalPrice < 1) {
+      Alert.alert('Error', 'Renewal price must be at least ₹1');
+      return false;
+    }
     return true;
   };
 
@@ -536,10 +528,11 @@ export default function AdminPaidCourseScreen({
         description: '',
       },
       videoLinks: [],
+      installmentPlan: DEFAULT_INSTALLMENT_PLAN,
+      validity: DEFAULT_VALIDITY,
       courseThumbnail: '',
       thumbnailUri: '',
       isActive: true,
-      studentsEnrolled: [],
     });
     setEditingCourse(null);
   };
@@ -549,22 +542,36 @@ export default function AdminPaidCourseScreen({
       ...course,
       courseDetails: course.courseDetails || { subtitle: '', description: '' },
       videoLinks: course.videoLinks || [],
+      installmentPlan: { ...DEFAULT_INSTALLMENT_PLAN, ...course.installmentPlan },
+      validity: { ...DEFAULT_VALIDITY, ...course.validity },
       rating: course.rating || 0,
       price: course.price || 1,
       isActive: course.isActive !== undefined ? course.isActive : true,
-      studentsEnrolled: course.studentsEnrolled || [],
       thumbnailUri: '', // Reset local URI for editing
     });
     setEditingCourse(course);
     setShowAddModal(true);
   };
 
+  const installmentPlan = courseForm.installmentPlan || DEFAULT_INSTALLMENT_PLAN;
+
+  const updateInstallmentPlan = (changes: Partial<InstallmentPlan>) => {
+    setCourseForm({ ...courseForm, installmentPlan: { ...installmentPlan, ...changes } });
+  };
+
+  const validity = courseForm.validity || DEFAULT_VALIDITY;
+
+  const updateValidity = (changes: Partial<CourseValidity>) => {
+    setCourseForm({ ...courseForm, validity: { ...validity, ...changes } });
+  };
+
   const editVideo = (video: VideoLink, index: number) => {
     setVideoForm({
       videoTitle: video.videoTitle,
       videoDescription: video.videoDescription,
       videoLink: video.videoLink,
       duration: video.duration,
+      isPreview: !!video.isPreview,
     });
     setEditingVideo(video);
     setEditingVideoIndex(index);
@@ -576,6 +583,7 @@ export default function AdminPaidCourseScreen({
       videoDescription: '',
       videoLink: '',
       duration: '',
+      isPreview: false,
     });
     setEditingVideo(null);
     setEditingVideoIndex(null);
@@ -597,6 +605,7 @@ export default function AdminPaidCourseScreen({
       videoDescription: '',
       videoLink: '',
       duration: '',
+      isPreview: false,
     });
     setEditingVideo(null);
     setEditingVideoIndex(null);
@@ -653,6 +662,13 @@ export default function AdminPaidCourseScreen({
         >
           <Text style={styles.actionButtonText}>Videos ({item.videoLinks?.length || 0})</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.curriculumButton]}
+          onPress={() => setCurriculumCourse(item)}
+        >
+          <Text style={styles.actionButtonText}>Chapters ({item.chapters?.length || 0})</Text>
+        </TouchableOpacity>
         
         <TouchableOpacity
           style={[styles.actionButton, styles.deleteButton]}
@@ -670,6 +686,7 @@ export default function AdminPaidCourseScreen({
         <Text style={styles.videoTitle}>{item.videoTitle || 'Untitled Video'}</Text>
         <Text style={styles.videoDescription}>{item.videoDescription || 'No description'}</Text>
         <Text style={styles.videoDuration}>Duration: {item.duration || 'N/A'}</Text>
+        {item.isPreview && <Text style={styles.previewTag}>FREE PREVIEW</Text>}
       </View>
       
       <View style={styles.videoActions}>
@@ -939,6 +956,151 @@ export default function AdminPaidCourseScreen({
               </TouchableOpacity>
             </View>
 
+            {/* Installment Plan */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Installment Plan</Text>
+              <TouchableOpacity
+                style={[
+                  styles.statusButton,
+                  installmentPlan.enabled ? styles.statusButtonActive : styles.statusButtonInactive
+                ]}
+                onPress={() => updateInstallmentPlan({ enabled: !installmentPlan.enabled })}
+              >
+                <Text style={[
+                  styles.statusButtonText,
+                  installmentPlan.enabled ? styles.statusButtonTextActive : styles.statusButtonTextInactive
+                ]}>
+                  {installmentPlan.enabled ? '✓ Installments allowed' : '✕ Full payment only'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {installmentPlan.enabled && (
+              <>
+                <View style={styles.rowContainer}>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.inputLabel}>Installments (2-24)</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={installmentPlan.installments.toString()}
+                      onChangeText={(text) => updateInstallmentPlan({ installments: Math.min(Math.max(parseInt(text) || 2, 2), 24) })}
+                      placeholder="2"
+                      placeholderTextColor="#666"
+                      keyboardType="numeric"
+                    />
+                  </View>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.inputLabel}>Days Between</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={installmentPlan.intervalDays.toString()}
+                      onChangeText={(text) => updateInstallmentPlan({ intervalDays: parseInt(text) || 0 })}
+                      placeholder="30"
+                      placeholderTextColor="#666"
+                      keyboardType="numeric"
+                    />
+                  </View>
+                </View>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Grace Period (days before access is paused)</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={installmentPlan.gracePeriodDays.toString()}
+                    onChangeText={(text) => updateInstallmentPlan({ gracePeriodDays: parseInt(text) || 0 })}
+                    placeholder="7"
+                    placeholderTextColor="#666"
+                    keyboardType="numeric"
+                  />
+                </View>
+                <Text style={styles.helperText}>
+                  💳 {installmentPlan.installments} payments of about ₹{Math.ceil(courseForm.price / installmentPlan.installments)}, every {installmentPlan.intervalDays} days. Existing students keep their current schedule.
+                </Text>
+              </>
+            )}
+
+            {/* Validity */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Access Validity</Text>
+              <View style={styles.categoryContainer}>
+                {VALIDITY_KINDS.map(({ kind, label }) => (
+                  <TouchableOpacity
+                    key={kind}
+                    style={[
+                      styles.categoryButton,
+                      validity.kind === kind && styles.categoryButtonActive,
+                    ]}
+                    onPress={() => updateValidity({ kind })}
+                  >
+                    <Text
+                      style={[
+                        styles.categoryButtonText,
+                        validity.kind === kind && styles.categoryButtonTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {validity.kind === 'months' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Months of Access (1-120)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={validity.months ? validity.months.toString() : ''}
+                  onChangeText={(text) => updateValidity({ months: parseInt(text) || 0 })}
+                  placeholder="12"
+                  placeholderTextColor="#666"
+                  keyboardType="numeric"
+                />
+              </View>
+            )}
+
+            {validity.kind === 'fixed' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Access Ends On</Text>
+                <TouchableOpacity style={styles.textInput} onPress={() => setShowEndDatePicker(true)}>
+                  <Text style={[styles.dateText, !validity.endDate && styles.datePlaceholder]}>
+                    {validity.endDate ? new Date(validity.endDate).toLocaleDateString() : 'Select a date'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {validity.kind !== 'lifetime' && (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Renewal Price (₹, optional)</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={validity.renewalPrice !== null ? validity.renewalPrice.toString() : ''}
+                    onChangeText={(text) => updateValidity({ renewalPrice: text.trim() ? parseFloat(text) || 0 : null })}
+                    placeholder={`${courseForm.price} (course price)`}
+                    placeholderTextColor="#666"
+                    keyboardType="numeric"
+                  />
+                </View>
+                <Text style={styles.helperText}>
+                  🔁 Students can renew for another {validity.kind === 'months' ? `${validity.months} months` : 'period up to the end date'} at ₹{validity.renewalPrice ?? courseForm.price}. Changes apply to new enrollments and renewals.
+                </Text>
+              </>
+            )}
+
+            {showEndDatePicker && (
+              <DateTimePicker
+                value={validity.endDate ? new Date(validity.endDate) : new Date()}
+                mode="date"
+                minimumDate={new Date()}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event: any, selectedDate: any) => {
+                  setShowEndDatePicker(false);
+                  if (selectedDate) updateValidity({ endDate: selectedDate.toISOString() });
+                }}
+              />
+            )}
+
             {/* Save Button */}
             <TouchableOpacity
               style={[styles.saveButton, loading && styles.saveButtonDisabled]}
@@ -1045,6 +1207,24 @@ export default function AdminPaidCourseScreen({
                 />
               </View>
 
+              {/* Free Preview */}
+              <View style={styles.inputGroup}>
+                <TouchableOpacity
+                  style={[
+                    styles.statusButton,
+                    videoForm.isPreview ? styles.statusButtonActive : styles.statusButtonInactive
+                  ]}
+                  onPress={() => setVideoForm({ ...videoForm, isPreview: !videoForm.isPreview })}
+                >
+                  <Text style={[
+                    styles.statusButtonText,
+                    videoForm.isPreview ? styles.statusButtonTextActive : styles.statusButtonTextInactive
+                  ]}>
+                    {videoForm.isPreview ? '✓ Free preview (anyone can watch)' : '🔒 Enrolled students only'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
               {/* Video Action Buttons */}
               <View style={styles.videoFormActions}>
                 {editingVideo ? (
@@ -1111,6 +1291,13 @@ export default function AdminPaidCourseScreen({
         </SafeAreaView>
       </Modal>
 
+      <CurriculumEditorModal
+        course={curriculumCourse}
+        api={paidCoursesApi}
+        onClose={() => setCurriculumCourse(null)}
+        onSaved={loadCourses}
+      />
+
       {/* Loading Overlay */}
       {loading && courses.length > 0 && (
         <View style={styles.loadingOverlay}>
@@ -1288,6 +1475,9 @@ const styles = StyleSheet.create({
   videoButton: {
     backgroundColor: BRAND.warningColor,
   },
+  curriculumButton: {
+    backgroundColor: '#4fc3f7',
+  },
   deleteButton: {
     backgroundColor: BRAND.errorColor,
   },
@@ -1366,6 +1556,13 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontSize: 16,
   },
+  dateText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  datePlaceholder: {
+    color: '#666',
+  },
   textArea: {
     minHeight: 80,
     textAlignVertical: 'top',
@@ -1550,6 +1747,12 @@ const styles = StyleSheet.create({
     color: '#aaa',
     fontSize: 11,
   },
+  previewTag: {
+    color: BRAND.primaryColor,
+    fontSize: 10,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
   videoActions: {
     flexDirection: 'row',
     marginLeft: 12,
@@ -16,7 +16,8 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { ApiError, Course as ApiCourse, CourseVideo, VideoInput, unpaidCoursesApi } from '../api';
+import CurriculumEditorModal from '../components/CurriculumEditorModal';
 // Add these imports for image picking
 import * as ImagePicker from 'expo-image-picker';
 // Alternative for React Native CLI:
@@ -35,37 +36,11 @@ const BRAND = {
   warningColor: '#ffa726',
 };
 
-// Mock API configuration (replace with your actual API)
-const API_BASE_URL = API_BASE;
-
-// Types
-interface Course {
-  _id?: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: VideoLink[];
-  courseThumbnail: string;
+type Course = ApiCourse;
+type VideoLink = CourseVideo;
+type CourseForm = Omit<Course, '_id' | 'studentsEnrolled' | 'createdAt' | 'updatedAt'> & {
   thumbnailUri?: string; // For local image handling
-  isActive: boolean;
-  studentsEnrolled?: any[];
-  createdAt?: string;
-}
-
-interface VideoLink {
-  _id?: string;
-  videoTitle: string;
-  videoDescription: string;
-  videoLink: string;
-  duration: string;
-}
+};
 
 interface AdminUnpaidCourseScreenProps {
   navigation?: any;
@@ -83,9 +58,10 @@ export default function AdminUnpaidCourseScreen({
   const [showVideoModal, setShowVideoModal] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [curriculumCourse, setCurriculumCourse] = useState<Course | null>(null);
 
   // Form state
-  const [courseForm, setCourseForm] = useState<Course>({
+  const [courseForm, setCourseForm] = useState<CourseForm>({
     courseTitle: '',
     tutor: '',
     rating: 0,
@@ -103,7 +79,7 @@ export default function AdminUnpaidCourseScreen({
   });
 
   // Video form state
-  const [videoForm, setVideoForm] = useState<VideoLink>({
+  const [videoForm, setVideoForm] = useState<VideoInput>({
     videoTitle: '',
     videoDescription: '',
     videoLink: '',
@@ -170,13 +146,7 @@ export default function AdminUnpaidCourseScreen({
   const loadCourses = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/unpaidCourses`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await unpaidCoursesApi.getAllCourses();
       
       if (data.success) {
         setCourses(data.data || []);
@@ -185,7 +155,9 @@ export default function AdminUnpaidCourseScreen({
       }
     } catch (error) {
       console.error('Error loading courses:', error);
-      Alert.alert('Error', 'Failed to load courses. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load courses. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -196,12 +168,6 @@ export default function AdminUnpaidCourseScreen({
       if (!validateCourse()) return;
       
       setLoading(true);
-      const url = editingCourse 
-        ? `${API_BASE_URL}/unpaidCourses/${editingCourse._id}`
-        : `${API_BASE_URL}/unpaidCourses`;
-      
-      const method = editingCourse ? 'PUT' : 'POST';
-      
       // Create FormData for multipart/form-data
       const formData = new FormData();
       
@@ -229,19 +195,9 @@ export default function AdminUnpaidCourseScreen({
         } as any);
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingCourse
+        ? await unpaidCoursesApi.updateCourse(editingCourse._id, formData)
+        : await unpaidCoursesApi.createCourse(formData);
       
       if (data.success) {
         Alert.alert('Success', editingCourse ? 'Course updated!' : 'Course created!');
@@ -253,7 +209,14 @@ export default function AdminUnpaidCourseScreen({
       }
     } catch (error) {
       console.error('Error saving course:', error);
-      Alert.alert('Error', 'Failed to save course. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save course. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -276,15 +239,7 @@ export default function AdminUnpaidCourseScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/unpaidCourses/${courseId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await unpaidCoursesApi.deleteCourse(courseId);
               
               if (data.success) {
                 Alert.alert('Success', 'Course deleted!');
@@ -294,7 +249,14 @@ export default function AdminUnpaidCourseScreen({
               }
             } catch (error) {
               console.error('Error deleting course:', error);
-              Alert.alert('Error', 'Failed to delete course. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete course. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -313,19 +275,7 @@ export default function AdminUnpaidCourseScreen({
       }
       
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/unpaidCourses/${selectedCourse._id}/videos`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(videoForm),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await unpaidCoursesApi.addVideo(selectedCourse._id, videoForm);
       
       if (data.success) {
         Alert.alert('Success', 'Video added!');
@@ -342,7 +292,14 @@ export default function AdminUnpaidCourseScreen({
       }
     } catch (error) {
       console.error('Error adding video:', error);
-      Alert.alert('Error', 'Failed to add video. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to add video. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -357,19 +314,7 @@ export default function AdminUnpaidCourseScreen({
       }
       
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/unpaidCourses/${selectedCourse._id}/videos/${editingVideo._id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(videoForm),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await unpaidCoursesApi.updateVideo(selectedCourse._id, editingVideo._id, videoForm);
       
       if (data.success) {
         Alert.alert('Success', 'Video updated!');
@@ -388,7 +333,14 @@ export default function AdminUnpaidCourseScreen({
       }
     } catch (error) {
       console.error('Error updating video:', error);
-      Alert.alert('Error', 'Failed to update video. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to update video. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -411,15 +363,7 @@ export default function AdminUnpaidCourseScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/unpaidCourses/${selectedCourse._id}/videos/${videoId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await unpaidCoursesApi.deleteVideo(selectedCourse._id, videoId);
               
               if (data.success) {
                 Alert.alert('Success', 'Video deleted!');
@@ -430,7 +374,14 @@ export default function AdminUnpaidCourseScreen({
               }
             } catch (error) {
               console.error('Error deleting video:', error);
-              Alert.alert('Error', 'Failed to delete video. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete video. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -624,6 +575,13 @@ export default function AdminUnpaidCourseScreen({
         >
           <Text style={styles.actionButtonText}>Videos ({item.videoLinks?.length || 0})</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.curriculumButton]}
+          onPress={() => setCurriculumCourse(item)}
+        >
+          <Text style={styles.actionButtonText}>Chapters ({item.chapters?.length || 0})</Text>
+        </TouchableOpacity>
         
         <TouchableOpacity
           style={[styles.actionButton, styles.deleteButton]}
@@ -1056,6 +1014,13 @@ export default function AdminUnpaidCourseScreen({
           </ScrollView>
         </SafeAreaView>
       </Modal>
+
+      <CurriculumEditorModal
+        course={curriculumCourse}
+        api={unpaidCoursesApi}
+        onClose={() => setCurriculumCourse(null)}
+        onSaved={loadCourses}
+      />
     </SafeAreaView>
   );
 }
@@ -1176,6 +1141,9 @@ const styles = StyleSheet.create({
   videoButton: {
     backgroundColor: BRAND.warningColor,
   },
+  curriculumButton: {
+    backgroundColor: '#4fc3f7',
+  },
   deleteButton: {
     backgroundColor: BRAND.errorColor,
   },
@@ -0,0 +1,598 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  Platform,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  ApiError,
+  ConversionAnalytics,
+  PaymentItemType,
+  RevenueAnalytics,
+  SalesAnalytics,
+  adminApi,
+} from '../api';
+
+interface AdminAnalyticsScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESETS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  jee: 'JEE',
+  neet: 'NEET',
+  boards: 'Boards',
+  other: 'Other',
+};
+
+const ITEM_TYPE_LABELS: Record<PaymentItemType, string> = {
+  PaidCourse: 'Courses',
+  UnpaidCourse: 'Courses (free tier)',
+  PaidNotes: 'Notes',
+  PaidMaterials: 'Materials',
+  Bundle: 'Bundles',
+};
+
+type PickerField = 'from' | 'to';
+
+// YYYY-MM-DD in local time, the format the analytics endpoints take
+const toDateParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+export default function AdminAnalyticsScreen({ navigation }: AdminAnalyticsScreenProps) {
+  const [fromDate, setFromDate] = useState(() => new Date(Date.now() - 29 * DAY_MS));
+  const [toDate, setToDate] = useState(() => new Date());
+  const [groupBy, setGroupBy] = useState<'day' | 'month'>('day');
+  const [pickerField, setPickerField] = useState<PickerField | null>(null);
+
+  const [revenue, setRevenue] = useState<RevenueAnalytics | null>(null);
+  const [sales, setSales] = useState<SalesAnalytics | null>(null);
+  const [conversion, setConversion] = useState<ConversionAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchAnalytics = useCallback(async () => {
+    const range = { from: toDateParam(fromDate), to: toDateParam(toDate) };
+    try {
+      const [revenueResponse, salesResponse, conversionResponse] = await Promise.all([
+        adminApi.getRevenueAnalytics({ ...range, groupBy }),
+        adminApi.getSalesAnalytics({ ...range, limit: 10 }),
+        adminApi.getConversionAnalytics(10),
+      ]);
+      setRevenue(revenueResponse.data);
+      setSales(salesResponse.data);
+      setConversion(conversionResponse.data);
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, groupBy]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchAnalytics();
+    setRefreshing(false);
+  };
+
+  const applyPreset = (days: number) => {
+    setFromDate(new Date(Date.now() - (days - 1) * DAY_MS));
+    setToDate(new Date());
+    setGroupBy(days > 90 ? 'month' : 'day');
+  };
+
+  const isPresetSelected = (days: number) =>
+    toDateParam(toDate) === toDateParam(new Date()) &&
+    toDateParam(fromDate) === toDateParam(new Date(Date.now() - (days - 1) * DAY_MS));
+
+  const handleDateChange = (event: any, selectedDate: any) => {
+    const field = pickerField;
+    setPickerField(null);
+    if (event?.type === 'dismissed' || !selectedDate || !field) return;
+
+    if (field === 'from') {
+      setFromDate(selectedDate);
+      if (selectedDate > toDate) setToDate(selectedDate);
+    } else {
+      setToDate(selectedDate);
+      if (selectedDate < fromDate) setFromDate(selectedDate);
+    }
+  };
+
+  // Horizontal bar scaled against the largest value in its chart
+  const renderBar = (key: string, label: string, value: number, max: number, caption: string, color = BRAND.primaryColor) => (
+    <View key={key} style={styles.barRow}>
+      <View style={styles.barLabelRow}>
+        <Text style={styles.barLabel} numberOfLines={1}>{label}</Text>
+        <Text style={styles.barCaption}>{caption}</Text>
+      </View>
+      <View style={styles.barTrack}>
+        <View style={[styles.barFill, { width: `${max > 0 ? Math.max((value / max) * 100, 1) : 0}%`, backgroundColor: color }]} />
+      </View>
+    </View>
+  );
+
+  const renderEmpty = (text: string) => <Text style={styles.emptyText}>{text}</Text>;
+
+  const renderSummary = () => {
+    if (!revenue) return null;
+    const { summary } = revenue;
+    const cards = [
+      { label: 'Net revenue', value: formatCurrency(summary.netRevenue), icon: 'account-balance-wallet' as const },
+      { label: 'Orders', value: String(summary.orders), icon: 'shopping-cart' as const },
+      { label: 'Buyers', value: String(summary.buyers), icon: 'people' as const },
+      { label: 'Avg. order', value: formatCurrency(summary.averageOrderValue), icon: 'receipt' as const },
+    ];
+
+    return (
+      <>
+        <View style={styles.summaryGrid}>
+          {cards.map((card) => (
+            <View key={card.label} style={styles.summaryCard}>
+              <MaterialIcons name={card.icon} size={20} color={BRAND.primaryColor} />
+              <Text style={styles.summaryValue}>{card.value}</Text>
+              <Text style={styles.summaryLabel}>{card.label}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.summaryNote}>
+          Gross {formatCurrency(summary.grossRevenue)} · Refunds {formatCurrency(summary.refunds)} · Coupon discounts {formatCurrency(summary.discounts)}
+        </Text>
+      </>
+    );
+  };
+
+  const renderTimeline = () => {
+    if (!revenue) return null;
+    const max = Math.max(...revenue.timeline.map((point) => point.revenue), 0);
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Revenue by {groupBy}</Text>
+          <View style={styles.toggle}>
+            {(['day', 'month'] as const).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.toggleOption, groupBy === option && styles.toggleOptionSelected]}
+                onPress={() => setGroupBy(option)}
+              >
+                <Text style={[styles.toggleText, groupBy === option && styles.toggleTextSelected]}>
+                  {option === 'day' ? 'Daily' : 'Monthly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {revenue.timeline.length === 0 ? (
+          renderEmpty('No sales in this period')
+        ) : (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.columnChart}>
+            {revenue.timeline.map((point) => (
+              <View key={point.period} style={styles.column}>
+                <Text style={styles.columnValue}>{Math.round(point.revenue)}</Text>
+                <View style={styles.columnTrack}>
+                  <View style={[styles.columnFill, { height: `${max > 0 ? Math.max((point.revenue / max) * 100, 1) : 0}%` }]} />
+                </View>
+                <Text style={styles.columnLabel}>
+                  {groupBy === 'day' ? point.period.slice(5) : point.period}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const renderSales = () => {
+    if (!sales) return null;
+    const categoryMax = Math.max(...sales.byCategory.map((row) => row.revenue), 0);
+    const typeMax = Math.max(...sales.byItemType.map((row) => row.revenue), 0);
+    const itemMax = Math.max(...sales.topItems.map((row) => row.revenue), 0);
+
+    return (
+      <>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>By category</Text>
+          {sales.byCategory.length === 0
+            ? renderEmpty('No sales in this period')
+            : sales.byCategory.map((row) =>
+                renderBar(row.category, CATEGORY_LABELS[row.category] || row.category, row.revenue, categoryMax,
+                  `${formatCurrency(row.revenue)} · ${row.orders} orders`))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>By product type</Text>
+          {sales.byItemType.length === 0
+            ? renderEmpty('No sales in this period')
+            : sales.byItemType.map((row) =>
+                renderBar(row.itemType, ITEM_TYPE_LABELS[row.itemType], row.revenue, typeMax,
+                  `${formatCurrency(row.revenue)} · ${row.orders} orders`, '#2196F3'))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Top sellers</Text>
+          {sales.topItems.length === 0
+            ? renderEmpty('No sales in this period')
+            : sales.topItems.map((row) =>
+                renderBar(`${row.itemType}:${row.itemId}`, row.title, row.revenue, itemMax,
+                  `${formatCurrency(row.revenue)} · ${row.orders}`, '#FF9800'))}
+        </View>
+      </>
+    );
+  };
+
+  const renderConversion = () => {
+    if (!conversion) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>View to purchase (all time)</Text>
+        <Text style={styles.sectionSubtitle}>
+          {conversion.totalViews} views · {conversion.totalPurchases} purchases · {conversion.conversionRate}% conversion
+        </Text>
+        {conversion.items.length === 0
+          ? renderEmpty('No notes or materials have been viewed yet')
+          : conversion.items.map((row) =>
+              renderBar(`${row.itemType}:${row.itemId}`, row.title, row.conversionRate, 100,
+                `${row.purchases}/${row.views} · ${row.conversionRate}%`, '#9C27B0'))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Analytics</Text>
+          <Text style={styles.headerSubtitle}>Revenue and sales</Text>
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[BRAND.primaryColor]}
+            tintColor={BRAND.primaryColor}
+          />
+        }
+      >
+        {/* Date range */}
+        <View style={styles.chipRow}>
+          {PRESETS.map((preset) => {
+            const selected = isPresetSelected(preset.days);
+            return (
+              <TouchableOpacity
+                key={preset.days}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => applyPreset(preset.days)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{preset.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <View style={styles.dateRow}>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerField('from')}>
+            <MaterialIcons name="event" size={18} color={BRAND.primaryColor} />
+            <Text style={styles.dateText}>{fromDate.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+          <Text style={styles.dateSeparator}>to</Text>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerField('to')}>
+            <MaterialIcons name="event" size={18} color={BRAND.primaryColor} />
+            <Text style={styles.dateText}>{toDate.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {pickerField && (
+          <DateTimePicker
+            value={pickerField === 'from' ? fromDate : toDate}
+            mode="date"
+            maximumDate={new Date()}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleDateChange}
+          />
+        )}
+
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={BRAND.primaryColor} />
+          </View>
+        ) : (
+          <>
+            {renderSummary()}
+            {renderTimeline()}
+            {renderSales()}
+            {renderConversion()}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  dateText: {
+    color: BRAND.textPrimary,
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  dateSeparator: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    marginHorizontal: 10,
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: 'center',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  summaryCard: {
+    width: '48%',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 15,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+  },
+  summaryValue: {
+    color: BRAND.textPrimary,
+    fontSize: 20,
+    fontWeight: '700',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  summaryNote: {
+    color: '#888888',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 15,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  sectionSubtitle: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: -4,
+    marginBottom: 10,
+  },
+  toggle: {
+    flexDirection: 'row',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  toggleOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  toggleOptionSelected: {
+    backgroundColor: 'rgba(0, 255, 136, 0.2)',
+  },
+  toggleText: {
+    color: BRAND.textSecondary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  toggleTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  columnChart: {
+    alignItems: 'flex-end',
+    paddingTop: 4,
+  },
+  column: {
+    width: 44,
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  columnValue: {
+    color: BRAND.textSecondary,
+    fontSize: 10,
+    marginBottom: 4,
+  },
+  columnTrack: {
+    width: 18,
+    height: 140,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  columnFill: {
+    width: '100%',
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 4,
+  },
+  columnLabel: {
+    color: '#888888',
+    fontSize: 10,
+    marginTop: 4,
+  },
+  barRow: {
+    marginBottom: 12,
+  },
+  barLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  barLabel: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 14,
+    marginRight: 10,
+  },
+  barCaption: {
+    color: BRAND.textSecondary,
+    fontSize: 12,
+  },
+  barTrack: {
+    height: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
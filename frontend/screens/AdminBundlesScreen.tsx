@@ -0,0 +1,653 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Switch,
+  FlatList,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  ApiError,
+  Bundle,
+  BundleInput,
+  Category,
+  Pagination,
+  bundlesApi,
+  materialsApi,
+  paidCoursesApi,
+  paidNotesApi,
+} from '../api';
+
+interface AdminBundlesScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const PAGE_SIZE = 20;
+
+const CATEGORIES: Category[] = ['jee', 'neet', 'boards'];
+
+type ItemField = 'courses' | 'notes' | 'materials';
+
+// Paid items an admin can put in a bundle
+interface CatalogueItem {
+  _id: string;
+  title: string;
+  price: number;
+}
+
+type Catalogue = Record<ItemField, CatalogueItem[]>;
+
+const ITEM_SECTIONS: { field: ItemField; label: string }[] = [
+  { field: 'courses', label: 'Courses' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'materials', label: 'Materials' },
+];
+
+interface BundleForm extends Omit<BundleInput, 'price'> {
+  price: string;
+}
+
+const EMPTY_FORM: BundleForm = {
+  bundleTitle: '',
+  description: '',
+  category: 'jee',
+  class: '',
+  courses: [],
+  notes: [],
+  materials: [],
+  price: '',
+  isActive: true,
+};
+
+const toForm = (bundle: Bundle): BundleForm => ({
+  bundleTitle: bundle.bundleTitle,
+  description: bundle.description,
+  category: bundle.category,
+  class: bundle.class,
+  courses: bundle.courses.map((item) => item._id),
+  notes: bundle.notes.map((item) => item._id),
+  materials: bundle.materials.map((item) => item._id),
+  price: String(bundle.price),
+  isActive: bundle.isActive,
+});
+
+export default function AdminBundlesScreen({ navigation }: AdminBundlesScreenProps) {
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [catalogue, setCatalogue] = useState<Catalogue>({ courses: [], notes: [], materials: [] });
+  // null while the editor is closed, undefined id for a new bundle
+  const [editing, setEditing] = useState<{ id?: string } | null>(null);
+  const [form, setForm] = useState<BundleForm>(EMPTY_FORM);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const fetchBundles = useCallback(async (page = 1) => {
+    try {
+      const response = await bundlesApi.getAllBundles({ page, limit: PAGE_SIZE });
+      setBundles((previous) => (page === 1 ? response.data : [...previous, ...response.data]));
+      setPagination(response.pagination);
+    } catch (error) {
+      console.error('Error fetching bundles:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load bundles');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, []);
+
+  const fetchCatalogue = useCallback(async () => {
+    try {
+      const [courses, notes, materials] = await Promise.all([
+        paidCoursesApi.getAllCourses(),
+        paidNotesApi.getAllNotes(),
+        materialsApi.getAllMaterials({ limit: 100 }),
+      ]);
+      setCatalogue({
+        courses: courses.data.map((item) => ({ _id: item._id, title: item.courseTitle, price: item.price })),
+        notes: notes.data.map((item) => ({ _id: item._id, title: item.notesTitle, price: item.price ?? 0 })),
+        materials: materials.data.map((item) => ({ _id: item._id, title: item.materialTitle, price: item.price })),
+      });
+    } catch (error) {
+      console.error('Error fetching catalogue:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBundles(1);
+    fetchCatalogue();
+  }, [fetchBundles, fetchCatalogue]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchBundles(1);
+    setRefreshing(false);
+  };
+
+  const loadMore = () => {
+    if (loading || loadingMore || !pagination || pagination.page >= pagination.pages) return;
+    setLoadingMore(true);
+    fetchBundles(pagination.page + 1);
+  };
+
+  const openEditor = (bundle?: Bundle) => {
+    setForm(bundle ? toForm(bundle) : EMPTY_FORM);
+    setEditing({ id: bundle?._id });
+  };
+
+  const toggleItem = (field: ItemField, itemId: string) => {
+    setForm((previous) => ({
+      ...previous,
+      [field]: previous[field].includes(itemId)
+        ? previous[field].filter((id) => id !== itemId)
+        : [...previous[field], itemId],
+    }));
+  };
+
+  // What the selected items cost bought separately
+  const selectedValue = ITEM_SECTIONS.reduce(
+    (total, { field }) =>
+      total + catalogue[field].filter((item) => form[field].includes(item._id)).reduce((sum, item) => sum + item.price, 0),
+    0
+  );
+
+  const runAction = async (action: () => Promise<void>) => {
+    setActionLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Bundle action failed:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Action failed');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const price = Number(form.price);
+
+    if (!form.bundleTitle.trim()) {
+      Alert.alert('Error', 'Please enter a bundle title');
+      return;
+    }
+    if (!(price >= 1)) {
+      Alert.alert('Error', 'Price must be at least ₹1');
+      return;
+    }
+    if (!form.courses.length && !form.notes.length && !form.materials.length) {
+      Alert.alert('Error', 'Pick at least one course, notes or material');
+      return;
+    }
+
+    const body: BundleInput = { ...form, bundleTitle: form.bundleTitle.trim(), price };
+    runAction(async () => {
+      if (editing.id) {
+        await bundlesApi.updateBundle(editing.id, body);
+      } else {
+        await bundlesApi.createBundle(body);
+      }
+      setEditing(null);
+      await fetchBundles(1);
+    });
+  };
+
+  const handleDelete = () => {
+    const bundleId = editing?.id;
+    if (!bundleId) return;
+
+    Alert.alert('Delete Bundle', `Delete "${form.bundleTitle}"? Students who bought it keep their content.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          runAction(async () => {
+            await bundlesApi.deleteBundle(bundleId);
+            setEditing(null);
+            setBundles((previous) => previous.filter((bundle) => bundle._id !== bundleId));
+          }),
+      },
+    ]);
+  };
+
+  const renderBundle = ({ item }: { item: Bundle }) => (
+    <TouchableOpacity style={styles.bundleCard} onPress={() => openEditor(item)} activeOpacity={0.8}>
+      <View style={styles.bundleHeader}>
+        <Text style={styles.bundleTitle} numberOfLines={1}>{item.bundleTitle}</Text>
+        <Text style={styles.bundlePrice}>₹{item.price}</Text>
+      </View>
+      <Text style={styles.bundleMeta}>
+        {item.courses.length} courses · {item.notes.length} notes · {item.materials.length} materials · worth ₹{item.itemsValue}
+      </Text>
+      <View style={styles.badgeRow}>
+        <View style={[styles.badge, { backgroundColor: BRAND.accentColor }]}>
+          <Text style={[styles.badgeText, { color: BRAND.textSecondary }]}>{item.category.toUpperCase()}</Text>
+        </View>
+        {!item.isActive && (
+          <View style={[styles.badge, { backgroundColor: BRAND.dangerColor + '30' }]}>
+            <Text style={[styles.badgeText, { color: BRAND.dangerColor }]}>Inactive</Text>
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEditor = () => {
+    if (!editing) return null;
+
+    return (
+      <Modal visible transparent animationType="slide" onRequestClose={() => setEditing(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing.id ? 'Edit Bundle' : 'New Bundle'}</Text>
+              <TouchableOpacity onPress={() => setEditing(null)} disabled={actionLoading}>
+                <MaterialIcons name="close" size={24} color={BRAND.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={styles.modalSectionTitle}>Title</Text>
+              <TextInput
+                style={styles.input}
+                value={form.bundleTitle}
+                onChangeText={(bundleTitle) => setForm({ ...form, bundleTitle })}
+                placeholder="e.g. JEE Physics Complete Pack"
+                placeholderTextColor="#666666"
+                editable={!actionLoading}
+              />
+
+              <Text style={styles.modalSectionTitle}>Description</Text>
+              <TextInput
+                style={styles.input}
+                value={form.description}
+                onChangeText={(description) => setForm({ ...form, description })}
+                placeholder="Optional"
+                placeholderTextColor="#666666"
+                editable={!actionLoading}
+              />
+
+              <Text style={styles.modalSectionTitle}>Category</Text>
+              <View style={styles.chipRow}>
+                {CATEGORIES.map((category) => {
+                  const selected = form.category === category;
+                  return (
+                    <TouchableOpacity
+                      key={category}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setForm({ ...form, category })}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{category.toUpperCase()}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.modalSectionTitle}>Class</Text>
+              <TextInput
+                style={styles.input}
+                value={form.class}
+                onChangeText={(value) => setForm({ ...form, class: value })}
+                placeholder="e.g. 12"
+                placeholderTextColor="#666666"
+                editable={!actionLoading}
+              />
+
+              {ITEM_SECTIONS.map(({ field, label }) => (
+                <View key={field}>
+                  <Text style={styles.modalSectionTitle}>{label}</Text>
+                  {catalogue[field].length === 0 ? (
+                    <Text style={styles.hintText}>Nothing available</Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {catalogue[field].map((item) => {
+                        const selected = form[field].includes(item._id);
+                        return (
+                          <TouchableOpacity
+                            key={item._id}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => toggleItem(field, item._id)}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                              {item.title} · ₹{item.price}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+              ))}
+
+              <Text style={styles.modalSectionTitle}>Bundle price (₹)</Text>
+              <TextInput
+                style={styles.input}
+                value={form.price}
+                onChangeText={(price) => setForm({ ...form, price })}
+                keyboardType="numeric"
+                placeholder="0"
+                placeholderTextColor="#666666"
+                editable={!actionLoading}
+              />
+              <Text style={styles.hintText}>Selected items are worth ₹{selectedValue} on their own</Text>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Available for purchase</Text>
+                <Switch
+                  value={form.isActive}
+                  onValueChange={(isActive) => setForm({ ...form, isActive })}
+                  trackColor={{ false: '#444444', true: BRAND.primaryColor }}
+                  disabled={actionLoading}
+                />
+              </View>
+
+              {actionLoading ? (
+                <ActivityIndicator size="small" color={BRAND.primaryColor} style={styles.footerLoader} />
+              ) : (
+                <View style={styles.decisionRow}>
+                  {editing.id && (
+                    <TouchableOpacity style={[styles.decisionButton, styles.deleteButton]} onPress={handleDelete}>
+                      <MaterialIcons name="delete" size={18} color={BRAND.textPrimary} />
+                      <Text style={styles.decisionButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={[styles.decisionButton, styles.saveButton]} onPress={handleSave}>
+                    <MaterialIcons name="check-circle" size={18} color={BRAND.textPrimary} />
+                    <Text style={styles.decisionButtonText}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Bundles</Text>
+          {pagination && <Text style={styles.headerSubtitle}>{pagination.total} bundles</Text>}
+        </View>
+        <TouchableOpacity style={styles.backButton} onPress={() => openEditor()}>
+          <MaterialIcons name="add" size={24} color={BRAND.primaryColor} />
+        </TouchableOpacity>
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={bundles}
+          keyExtractor={(item) => item._id}
+          renderItem={renderBundle}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.4}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
+            />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={BRAND.primaryColor} style={styles.footerLoader} /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="inventory" size={56} color="#666" />
+              <Text style={styles.emptyText}>No bundles yet</Text>
+            </View>
+          }
+        />
+      )}
+
+      {renderEditor()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  bundleCard: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  bundleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  bundleTitle: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 10,
+  },
+  bundlePrice: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  bundleMeta: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    maxHeight: '90%',
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 24,
+    paddingBottom: 32,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: BRAND.textPrimary,
+  },
+  modalSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textPrimary,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  hintText: {
+    color: '#888888',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  input: {
+    height: 46,
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    color: BRAND.textPrimary,
+    paddingHorizontal: 14,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  switchLabel: {
+    color: BRAND.textPrimary,
+    fontSize: 15,
+  },
+  decisionRow: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  decisionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    height: 50,
+  },
+  deleteButton: {
+    backgroundColor: '#c62828',
+    marginRight: 10,
+  },
+  saveButton: {
+    backgroundColor: '#2e7d32',
+  },
+  decisionButtonText: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+});
@@ -4,8 +4,7 @@ import {
   Alert, SafeAreaView, StatusBar, ActivityIndicator, Modal, FlatList,
   RefreshControl,
 } from 'react-native';
-import { API_BASE } from '../config/api';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, PopulatedBatch, UserSummary, batchesApi } from '../api';
 import BatchAssignmentModal from '../components/BatchAssignmentModal';
 
 // Brand configuration
@@ -20,8 +19,6 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-const API_BASE_URL = API_BASE;
-
 // Types
 interface Subject {
   _id?: string;
@@ -29,24 +26,8 @@ interface Subject {
   teacher?: string;
 }
 
-interface User {
-  _id: string;
-  name: string;
-  email: string;
-  role: 'user' | 'teacher';
-}
-
-interface Batch {
-  _id?: string;
-  batchName: string;
-  classes: string[];
-  subjects: Subject[];
-  category: 'jee' | 'neet' | 'boards';
-  students: User[];
-  schedule: string;
-  description: string;
-  isActive: boolean;
-}
+type User = UserSummary;
+type Batch = PopulatedBatch;
 
 interface BatchForm {
   batchName: string;
@@ -59,17 +40,6 @@ interface BatchForm {
   isActive: boolean;
 }
 
-interface StudentAssignment {
-  studentId: string;
-  assignedClasses: string[];
-  assignedSubjects: string[];
-}
-
-interface TeacherAssignment {
-  teacherId: string;
-  assignedSubjects: string[];
-}
-
 interface AdminCreateBatchesScreenProps {
   navigation?: {
     goBack?: () => void;
@@ -116,48 +86,22 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
     else if (navigation?.navigate) navigation.navigate('AdminDashboard');
   };
 
-  const getAuthHeaders = async (): Promise<Record<string, string>> => {
-    try {
-      const token = await AsyncStorage.getItem('authToken') || 
-                    await AsyncStorage.getItem('token') || 
-                    await AsyncStorage.getItem('userToken') ||
-                    await AsyncStorage.getItem('accessToken');
-      
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Bearer ${token}`;
-      return headers;
-    } catch (error) {
-      return { 'Content-Type': 'application/json' };
-    }
-  };
-
   const loadData = async () => {
     try {
       setLoading(true);
-      const headers = await getAuthHeaders();
-      
       const [batchesRes, studentsRes, teachersRes] = await Promise.all([
-        fetch(`${API_BASE_URL}/batches`, { headers }),
-        fetch(`${API_BASE_URL}/batches/eligible-students`, { headers }),
-        fetch(`${API_BASE_URL}/batches/all-teachers`, { headers })
+        batchesApi.getAllBatches(),
+        batchesApi.getEligibleStudents(),
+        batchesApi.getAllTeachers(),
       ]);
-
-      if (batchesRes.ok) {
-        const data = await batchesRes.json();
-        if (data.success) setBatches(data.data || []);
-      }
-
-      if (studentsRes.ok) {
-        const data = await studentsRes.json();
-        if (data.success) setEligibleStudents(data.data || []);
-      }
-
-      if (teachersRes.ok) {
-        const data = await teachersRes.json();
-        if (data.success) setAllTeachers(data.data || []);
-      }
+      setBatches(batchesRes.data);
+      setEligibleStudents(studentsRes.data);
+      setAllTeachers(teachersRes.data);
     } catch (error) {
-      Alert.alert('Error', 'Failed to load data');
+      console.error('Error loading batches:', error);
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setLoading(false);
     }
@@ -177,7 +121,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
   };
 
   const handleRemoveStudents = (batch: Batch) => {
-    if (!batch.students?.length) {
+    if (!batch.studentCount) {
       Alert.alert('Info', 'No students to remove');
       return;
     }
@@ -196,86 +140,15 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
     setShowAssignmentModal(true);
   };
 
-  const handleStudentAssignment = async (assignments: StudentAssignment[] | TeacherAssignment[]) => {
-    if (!selectedBatchForAssignment?._id) return;
-
-    try {
-      setLoading(true);
-      const headers = await getAuthHeaders();
-      
-      if (assignmentModalType === 'assign_students') {
-        const studentAssignments = assignments as StudentAssignment[];
-        const response = await fetch(`${API_BASE_URL}/batches/${selectedBatchForAssignment._id}/assign-students-detailed`, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({ assignments: studentAssignments }),
-        });
-        
-        const data = await response.json();
-        if (data.success) {
-          Alert.alert('Success', 'Students assigned successfully!');
-          setShowAssignmentModal(false);
-          loadData();
-        } else {
-          Alert.alert('Error', data.message || 'Failed to assign students');
-        }
-      } else if (assignmentModalType === 'remove_students') {
-        const studentIds = (assignments as StudentAssignment[]).map(a => a.studentId);
-        const response = await fetch(`${API_BASE_URL}/batches/${selectedBatchForAssignment._id}/remove-students`, {
-          method: 'DELETE',
-          headers,
-          body: JSON.stringify({ studentIds }),
-        });
-        
-        const data = await response.json();
-        if (data.success) {
-          Alert.alert('Success', 'Students removed successfully!');
-          setShowAssignmentModal(false);
-          loadData();
-        } else {
-          Alert.alert('Error', data.message || 'Failed to remove students');
-        }
-      } else if (assignmentModalType === 'assign_teachers') {
-        const teacherAssignments = assignments as TeacherAssignment[];
-        const response = await fetch(`${API_BASE_URL}/batches/${selectedBatchForAssignment._id}/assign-teachers`, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({ assignments: teacherAssignments }),
-        });
-        
-        const data = await response.json();
-        if (data.success) {
-          Alert.alert('Success', 'Teachers assigned successfully!');
-          setShowAssignmentModal(false);
-          loadData();
-        } else {
-          Alert.alert('Error', data.message || 'Failed to assign teachers');
-        }
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to process assignment');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Rest of your existing functions remain the same
   const saveBatch = async () => {
     if (!validateBatch()) return;
     
     try {
       setLoading(true);
-      const headers = await getAuthHeaders();
-      const url = editingBatch ? `${API_BASE_URL}/batches/${editingBatch._id}` : `${API_BASE_URL}/batches`;
-      const method = editingBatch ? 'PUT' : 'POST';
-      
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: JSON.stringify(batchForm),
-      });
-      
-      const data = await response.json();
+      const data = editingBatch
+        ? await batchesApi.updateBatch(editingBatch._id, batchForm)
+        : await batchesApi.createBatch(batchForm);
       
       if (data.success) {
         Alert.alert('Success', editingBatch ? 'Batch updated!' : 'Batch created!');
@@ -286,7 +159,9 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
         Alert.alert('Error', data.message || 'Failed to save batch');
       }
     } catch (error) {
-      Alert.alert('Error', 'Failed to save batch');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Failed to save batch');
+      }
     } finally {
       setLoading(false);
     }
@@ -304,13 +179,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
           onPress: async () => {
             try {
               setLoading(true);
-              const headers = await getAuthHeaders();
-              const response = await fetch(`${API_BASE_URL}/batches/${batchId}`, {
-                method: 'DELETE',
-                headers,
-              });
-              
-              const data = await response.json();
+              const data = await batchesApi.deleteBatch(batchId);
               
               if (data.success) {
                 Alert.alert('Success', 'Batch deleted!');
@@ -319,7 +188,9 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
                 Alert.alert('Error', data.message);
               }
             } catch (error) {
-              Alert.alert('Error', 'Failed to delete batch');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Failed to delete batch');
+              }
             } finally {
               setLoading(false);
             }
@@ -361,9 +232,10 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
     setBatchForm({
       batchName: batch.batchName,
       classes: batch.classes || [],
-      subjects: batch.subjects || [],
+      // Updates take the teacher's id, not the populated account
+      subjects: batch.subjects.map(({ _id, name, teacher }) => ({ _id, name, teacher: teacher?._id })),
       category: batch.category,
-      students: batch.students?.map(s => s._id) || [],
+      students: batch.studentAssignments.map(a => a.student._id),
       schedule: batch.schedule || '',
       description: batch.description || '',
       isActive: batch.isActive !== undefined ? batch.isActive : true,
@@ -419,7 +291,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
   const getAvailableStudentsForAssignment = () => {
     if (!selectedBatchForAssignment) return [];
     return eligibleStudents.filter(student => 
-      !selectedBatchForAssignment.students?.some(bs => bs._id === student._id)
+      !selectedBatchForAssignment.studentAssignments.some(a => a.student._id === student._id)
     );
   };
 
@@ -441,7 +313,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
       <View style={styles.batchInfo}>
         <Text style={styles.infoText}>Classes: {item.classes?.join(', ') || 'None'}</Text>
         <Text style={styles.infoText}>Subjects: {item.subjects?.length || 0}</Text>
-        <Text style={styles.infoText}>Students: {item.students?.length || 0}</Text>
+        <Text style={styles.infoText}>Students: {item.studentCount}</Text>
         {item.schedule && <Text style={styles.infoText}>Schedule: {item.schedule}</Text>}
       </View>
       
@@ -453,7 +325,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
             <Text style={styles.subjectName}>{subject.name}</Text>
             {subject.teacher && (
               <Text style={styles.teacherName}>
-                {allTeachers.find(t => t._id === subject.teacher)?.name || 'Teacher'}
+                {subject.teacher.name}
               </Text>
             )}
           </View>
@@ -569,7 +441,7 @@ export default function AdminCreateBatchesScreen({ navigation, onBack }: AdminCr
         onClose={() => setShowAssignmentModal(false)}
         batch={selectedBatchForAssignment}
         type={assignmentModalType}
-        onAssign={handleStudentAssignment}
+        onSuccess={loadData}
       />
 
       {/* Create/Edit Modal */}
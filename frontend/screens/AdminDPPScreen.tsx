@@ -14,7 +14,7 @@ import {
   FlatList,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { ApiError, DPP, dppApi } from '../api';
 import * as DocumentPicker from 'expo-document-picker';
 
 // Brand configuration
@@ -29,34 +29,6 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-// API configuration
-const API_BASE_URL = API_BASE;
-
-// Types
-interface DPP {
-  _id?: string;
-  title: string;
-  class: string;
-  category: 'jee' | 'neet' | 'boards';
-  questionPDF: {
-    originalName: string;
-    fileSize: number;
-    pages: number;
-    uploadedAt: string;
-  };
-  answerPDF?: {
-    originalName: string;
-    fileSize: number;
-    pages: number;
-    uploadedAt: string;
-  };
-  questionActive: boolean;
-  answerActive: boolean;
-  viewCount: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface AdminDPPScreenProps {
   navigation?: any;
   onBack?: () => void;
@@ -144,13 +116,7 @@ export default function AdminDPPScreen({
   const loadDPPs = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/dpp`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await dppApi.getAllDPPs();
       
       if (data.success) {
         setDpps(data.data || []);
@@ -159,7 +125,9 @@ export default function AdminDPPScreen({
       }
     } catch (error) {
       console.error('Error loading DPPs:', error);
-      Alert.alert('Error', 'Failed to load DPPs. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load DPPs. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -170,12 +138,6 @@ export default function AdminDPPScreen({
       if (!validateDPP()) return;
       
       setLoading(true);
-      const url = editingDPP 
-        ? `${API_BASE_URL}/dpp/${editingDPP._id}`
-        : `${API_BASE_URL}/dpp`;
-      
-      const method = editingDPP ? 'PUT' : 'POST';
-      
       const formData = new FormData();
       
       // Add text fields
@@ -205,21 +167,9 @@ export default function AdminDPPScreen({
         } as any);
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingDPP
+        ? await dppApi.updateDPP(editingDPP._id, formData)
+        : await dppApi.createDPP(formData);
       
       if (data.success) {
         Alert.alert('Success', editingDPP ? 'DPP updated successfully!' : 'DPP created successfully!');
@@ -231,7 +181,14 @@ export default function AdminDPPScreen({
       }
     } catch (error) {
       console.error('Error saving DPP:', error);
-      Alert.alert('Error', 'Failed to save DPP. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save DPP. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -254,15 +211,7 @@ export default function AdminDPPScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/dpp/${dppId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await dppApi.deleteDPP(dppId);
               
               if (data.success) {
                 Alert.alert('Success', 'DPP deleted successfully!');
@@ -272,7 +221,14 @@ export default function AdminDPPScreen({
               }
             } catch (error) {
               console.error('Error deleting DPP:', error);
-              Alert.alert('Error', 'Failed to delete DPP. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete DPP. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -285,15 +241,7 @@ export default function AdminDPPScreen({
   const toggleAnswerAccessibility = async (dppId: string) => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/dpp/${dppId}/toggle-answer`, {
-        method: 'PATCH',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await dppApi.toggleAnswerAccessibility(dppId);
       
       if (data.success) {
         Alert.alert('Success', data.message);
@@ -303,7 +251,12 @@ export default function AdminDPPScreen({
       }
     } catch (error) {
       console.error('Error toggling answer accessibility:', error);
-      Alert.alert('Error', 'Failed to toggle answer accessibility.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError ? error.message : 'Failed to toggle answer accessibility.'
+        );
+      }
     } finally {
       setLoading(false);
     }
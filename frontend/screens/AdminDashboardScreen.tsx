@@ -13,14 +13,27 @@ import {
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useNavigation } from '@react-navigation/native';
+import { CommonActions, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather, FontAwesome5 } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
+import { useAuth } from '../context/AuthContext';
 
 type AdminDashboardNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+// Screens that open without params, which is how every dashboard card opens its screen
+type AdminScreenName = {
+  [Name in keyof RootStackParamList]: RootStackParamList[Name] extends undefined ? Name : never;
+}[keyof RootStackParamList];
+
+interface AdminAction {
+  id: string;
+  title: string;
+  icon: string;
+  color: string;
+  screen: AdminScreenName | null; // null until the screen is built
+}
+
 const { width, height } = Dimensions.get('window');
 
 // Brand configuration (matching the app theme)
@@ -34,82 +47,122 @@ const BRAND = {
 };
 
 // Quick Actions Configuration
-const QUICK_ACTIONS = [
+const QUICK_ACTIONS: AdminAction[] = [
   {
     id: 'paid_notes',
     title: 'Paid Notes',
     icon: 'note-add',
     color: '#FFD700',
-    screen: 'AdminPaidNotesScreen' as keyof RootStackParamList,
+    screen: 'AdminPaidNotesScreen',
   },
   {
     id: 'free_notes',
     title: 'Free Notes',
     icon: 'note',
     color: '#4CAF50',
-    screen: 'AdminUnpaidNotesScreen' as keyof RootStackParamList,
+    screen: 'AdminUnpaidNotesScreen',
   },
   {
     id: 'paid_materials',
     title: 'Materials',
     icon: 'library-books',
     color: '#FF6B6B',
-    screen: 'AdminPaidMaterialsScreen' as keyof RootStackParamList,
+    screen: 'AdminPaidMaterialsScreen',
+  },
+  {
+    id: 'bundles',
+    title: 'Bundles',
+    icon: 'inventory-2',
+    color: '#00BCD4',
+    screen: 'AdminBundlesScreen',
   },
   {
     id: 'free_dpp',
     title: 'DPPs',
     icon: 'assignment-turned-in',
     color: '#2196F3',
-    screen: 'AdminDPPScreen' as keyof RootStackParamList,
+    screen: 'AdminDPPScreen',
   },
 ];
 
 // Test Series Configuration
-const TEST_ACTIONS = [
+const TEST_ACTIONS: AdminAction[] = [
   {
     id: 'paid_test_series',
     title: 'Paid Tests',
     icon: 'quiz',
     color: '#FF5722',
-    screen: 'AdminAddPaidTestSeriesScreen' as keyof RootStackParamList,
+    screen: 'AdminAddPaidTestSeriesScreen',
   },
   {
     id: 'free_test_series',
     title: 'Free Tests',
     icon: 'fact-check',
     color: '#8BC34A',
-    screen: 'AdminAddFreeTestSeriesScreen' as keyof RootStackParamList,
+    screen: 'AdminAddFreeTestSeriesScreen',
+  },
+  {
+    id: 'question_bank',
+    title: 'Question Bank',
+    icon: 'library-books',
+    color: '#3F51B5',
+    screen: 'QuestionBankScreen',
   },
 ];
 
 // Offline Batch Management Configuration
-const BATCH_MANAGEMENT_ACTIONS = [
+const BATCH_MANAGEMENT_ACTIONS: AdminAction[] = [
   {
     id: 'create_manage_batches',
     title: 'Create & Manage Batches',
     icon: 'group',
     color: '#9C27B0',
-    screen: 'AdminCreateBatchesScreen' as keyof RootStackParamList,
+    screen: 'AdminCreateBatchesScreen',
   },
   {
     id: 'add_students_teacher',
     title: 'Add Students Under Teacher',
     icon: 'person-add',
     color: '#FF9800',
-    screen: 'AdminAddStudentsToTeacherScreen' as keyof RootStackParamList,
+    screen: null,
   },
   {
     id: 'manage_access_reports',
     title: 'Student Attendace & Academic Reports',
     icon: 'assessment',
     color: '#607D8B',
-    screen: 'AdminAccessStudentReportsScreen' as keyof RootStackParamList,
+    screen: 'AdminAccessStudentReportsScreen',
+  },
+];
+
+// Account Management Configuration
+const ACCOUNT_ACTIONS: AdminAction[] = [
+  {
+    id: 'manage_users',
+    title: 'Users, Roles & Access',
+    icon: 'manage-accounts',
+    color: '#00BCD4',
+    screen: 'AdminUsersScreen',
+  },
+  {
+    id: 'refund_requests',
+    title: 'Refund Requests',
+    icon: 'currency-exchange',
+    color: '#FF5722',
+    screen: 'AdminRefundsScreen',
+  },
+  {
+    id: 'analytics',
+    title: 'Revenue & Sales Analytics',
+    icon: 'insights',
+    color: '#8BC34A',
+    screen: 'AdminAnalyticsScreen',
   },
 ];
 
 export default function AdminDashboardScreen() {
   const navigation = useNavigation<AdminDashboardNavigationProp>();
+  const { user, signOut } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [adminName, setAdminName] = useState<string>('');
 
@@ -136,14 +189,8 @@ export default function AdminDashboardScreen() {
     startPulseAnimation();
   }, []);
 
-  const loadAdminData = async () => {
-    try {
-      const userName = await AsyncStorage.getItem('userName');
-      setAdminName(userName || 'Administrator');
-    } catch (error) {
-      console.error('Error loading admin data:', error);
-      setAdminName('Administrator');
-    }
+  const loadAdminData = () => {
+    setAdminName(user?.name || 'Administrator');
   };
 
   const startEntranceAnimation = () => {
@@ -278,12 +325,15 @@ export default function AdminDashboardScreen() {
     pulse();
   };
 
-  // Simplified navigation function
-  const navigateToScreen = (screenName: keyof RootStackParamList) => {
-    console.log(`Navigating to ${screenName}`);
+  // Simplified navigation function; cards whose screen isn't built yet say so
+  const navigateToScreen = (screenName: AdminScreenName | null) => {
+    if (!screenName) {
+      Alert.alert('Coming Soon', 'This section is not available yet.');
+      return;
+    }
     try {
-      // Type assertion to satisfy TypeScript's strict navigation typing
-      (navigation as any).navigate(screenName);
+      // navigate() only takes a single route name, not a union of them
+      navigation.dispatch(CommonActions.navigate(screenName));
     } catch (error) {
       console.error('Navigation error:', error);
       Alert.alert('Navigation Error', 'Could not navigate to the requested screen.');
@@ -305,9 +355,9 @@ export default function AdminDashboardScreen() {
     navigateToScreen(action.screen);
   };
 
-  // Handle merchandise action
+  // Handle merchandise action (no merchandise screen yet)
   const handleMerchandise = () => {
-    navigateToScreen('AdminMerchandiseScreen' as keyof RootStackParamList);
+    navigateToScreen(null);
   };
 
   // Handle course actions
@@ -331,14 +381,8 @@ export default function AdminDashboardScreen() {
           onPress: async () => {
             try {
               setIsLoading(true);
-              await AsyncStorage.multiRemove([
-                'userToken',
-                'userRole',
-                'userId',
-                'userName',
-                'userData'
-              ]);
-              navigation.replace('Intro');
+              // Clearing the session returns the app to the guest screens
+              await signOut();
             } catch (error) {
               console.error('Logout error:', error);
               Alert.alert("Error", "Failed to sign out. Please try again.");
@@ -617,6 +661,22 @@ export default function AdminDashboardScreen() {
             </View>
           </Animated.View>
 
+          {/* Account Management Section */}
+          <Animated.View 
+            style={[
+              styles.batchManagementSection,
+              {
+                opacity: batchSectionOpacity,
+                transform: [{ translateY: batchSectionTranslateY }],
+              },
+            ]}
+          >
+            <Text style={styles.batchManagementTitle}>Account Management</Text>
+            <View style={styles.batchManagementGrid}>
+              {ACCOUNT_ACTIONS.map((action, index) => renderBatchButton(action, index))}
+            </View>
+          </Animated.View>
+
           {/* Merchandise Section */}
           <Animated.View 
             style={[
@@ -15,7 +15,7 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { ApiError, Material, materialsApi } from '../api';
 import * as ImagePicker from 'expo-image-picker';
 
 // Brand configuration
@@ -30,30 +30,8 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-// API configuration
-const API_BASE_URL = API_BASE;
-
-// Types
-interface MaterialPhoto {
-  _id?: string;
-  originalName: string;
-  mimeType: string;
-  size: number;
-}
-
-interface PaidMaterial {
-  _id?: string;
-  materialTitle: string;
-  description: string;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  rating: number;
-  materialPhotos: MaterialPhoto[];
-  isActive: boolean;
-  viewCount?: number;
-  createdAt?: string;
-}
+type PaidMaterial = Material;
+type MaterialForm = Omit<PaidMaterial, '_id' | 'viewCount' | 'createdAt' | 'updatedAt'>;
 
 interface AdminPaidMaterialsScreenProps {
   navigation?: any;
@@ -71,7 +49,7 @@ export default function AdminPaidMaterialsScreen({
   const [editingMaterial, setEditingMaterial] = useState<PaidMaterial | null>(null);
 
   // Form state
-  const [materialForm, setMaterialForm] = useState<PaidMaterial>({
+  const [materialForm, setMaterialForm] = useState<MaterialForm>({
     materialTitle: '',
     description: '',
     price: 0,
@@ -144,13 +122,7 @@ export default function AdminPaidMaterialsScreen({
   const loadMaterials = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidMaterials`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await materialsApi.getAllMaterials();
       
       if (data.success) {
         setMaterials(data.data || []);
@@ -159,7 +131,9 @@ export default function AdminPaidMaterialsScreen({
       }
     } catch (error) {
       console.error('Error loading materials:', error);
-      Alert.alert('Error', 'Failed to load materials. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load materials. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -170,12 +144,6 @@ export default function AdminPaidMaterialsScreen({
       if (!validateMaterial()) return;
       
       setLoading(true);
-      const url = editingMaterial 
-        ? `${API_BASE_URL}/paidMaterials/${editingMaterial._id}`
-        : `${API_BASE_URL}/paidMaterials`;
-      
-      const method = editingMaterial ? 'PUT' : 'POST';
-      
       const formData = new FormData();
       
       // Add text fields
@@ -202,21 +170,9 @@ export default function AdminPaidMaterialsScreen({
         });
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingMaterial
+        ? await materialsApi.updateMaterial(editingMaterial._id, formData)
+        : await materialsApi.createMaterial(formData);
       
       if (data.success) {
         Alert.alert('Success', editingMaterial ? 'Material updated!' : 'Material created!');
@@ -228,7 +184,14 @@ export default function AdminPaidMaterialsScreen({
       }
     } catch (error) {
       console.error('Error saving material:', error);
-      Alert.alert('Error', 'Failed to save material. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save material. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -251,15 +214,7 @@ export default function AdminPaidMaterialsScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/paidMaterials/${materialId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await materialsApi.deleteMaterial(materialId);
               
               if (data.success) {
                 Alert.alert('Success', 'Material deleted!');
@@ -269,7 +224,14 @@ export default function AdminPaidMaterialsScreen({
               }
             } catch (error) {
               console.error('Error deleting material:', error);
-              Alert.alert('Error', 'Failed to delete material. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete material. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
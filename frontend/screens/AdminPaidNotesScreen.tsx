@@ -15,7 +15,7 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { ApiError, Notes, NotesPdf, paidNotesApi } from '../api';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 
@@ -31,37 +31,12 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-// API configuration
-const API_BASE_URL = API_BASE;
-
-// Types
-interface PaidNotes {
-  _id?: string;
-  notesTitle: string;
-  tutor: string;
-  rating: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
+type PaidNotes = Notes;
+type NotesForm = Omit<PaidNotes, '_id' | 'viewCount' | 'createdAt' | 'updatedAt'> & {
   price: number;
-  notesDetails: {
-    subtitle: string;
-    description: string;
-  };
-  pdfs: PDF[];
   thumbnailUri?: string;
-  isActive: boolean;
-  viewCount?: number;
-  createdAt?: string;
-}
-
-interface PDF {
-  _id?: string;
-  pdfTitle: string;
-  pdfDescription: string;
-  originalName: string;
-  fileSize: number;
-  pages?: number;
-}
+};
+type PdfForm = Omit<NotesPdf, '_id' | 'uploadedAt'>;
 
 interface AdminPaidNotesScreenProps {
   navigation?: any;
@@ -81,7 +56,7 @@ export default function AdminPaidNotesScreen({
   const [selectedNotes, setSelectedNotes] = useState<PaidNotes | null>(null);
 
   // Form state
-  const [notesForm, setNotesForm] = useState<PaidNotes>({
+  const [notesForm, setNotesForm] = useState<NotesForm>({
     notesTitle: '',
     tutor: '',
     rating: 0,
@@ -98,7 +73,7 @@ export default function AdminPaidNotesScreen({
   });
 
   // PDF form state
-  const [pdfForm, setPdfForm] = useState<PDF>({
+  const [pdfForm, setPdfForm] = useState<PdfForm>({
     pdfTitle: '',
     pdfDescription: '',
     originalName: '',
@@ -188,13 +163,7 @@ export default function AdminPaidNotesScreen({
   const loadNotes = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidNotes`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await paidNotesApi.getAllNotes();
       
       if (data.success) {
         setNotes(data.data || []);
@@ -203,7 +172,9 @@ export default function AdminPaidNotesScreen({
       }
     } catch (error) {
       console.error('Error loading paid notes:', error);
-      Alert.alert('Error', 'Failed to load paid notes. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load paid notes. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -214,12 +185,6 @@ export default function AdminPaidNotesScreen({
       if (!validateNotes()) return;
       
       setLoading(true);
-      const url = editingNotes 
-        ? `${API_BASE_URL}/paidNotes/${editingNotes._id}`
-        : `${API_BASE_URL}/paidNotes`;
-      
-      const method = editingNotes ? 'PUT' : 'POST';
-      
       const formData = new FormData();
       
       // Add text fields
@@ -245,21 +210,9 @@ export default function AdminPaidNotesScreen({
         } as any);
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingNotes
+        ? await paidNotesApi.updateNotes(editingNotes._id, formData)
+        : await paidNotesApi.createNotes(formData);
       
       if (data.success) {
         Alert.alert('Success', editingNotes ? 'Paid notes updated!' : 'Paid notes created!');
@@ -271,7 +224,14 @@ export default function AdminPaidNotesScreen({
       }
     } catch (error) {
       console.error('Error saving paid notes:', error);
-      Alert.alert('Error', 'Failed to save paid notes. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save paid notes. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -294,15 +254,7 @@ export default function AdminPaidNotesScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/paidNotes/${notesId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await paidNotesApi.deleteNotes(notesId);
               
               if (data.success) {
                 Alert.alert('Success', 'Paid notes deleted!');
@@ -312,7 +264,14 @@ export default function AdminPaidNotesScreen({
               }
             } catch (error) {
               console.error('Error deleting paid notes:', error);
-              Alert.alert('Error', 'Failed to delete paid notes. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete paid notes. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -353,23 +312,7 @@ export default function AdminPaidNotesScreen({
       
       console.log('FormData prepared, making request...');
       
-      const response = await fetch(`${API_BASE_URL}/paidNotes/${selectedNotes._id}/pdfs`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      console.log('Response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server error response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await paidNotesApi.addPdf(selectedNotes._id, formData);
       console.log('Success response:', data);
       
       if (data.success) {
@@ -382,7 +325,14 @@ export default function AdminPaidNotesScreen({
       }
     } catch (error) {
       console.error('Error adding PDF:', error);
-      Alert.alert('Error', 'Failed to add PDF. Please check your internet connection and try again.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to add PDF. Please check your internet connection and try again.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -405,15 +355,7 @@ export default function AdminPaidNotesScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/paidNotes/${selectedNotes._id}/pdfs/${pdfId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await paidNotesApi.deletePdf(selectedNotes._id, pdfId);
               
               if (data.success) {
                 Alert.alert('Success', 'PDF deleted from paid notes!');
@@ -424,7 +366,14 @@ export default function AdminPaidNotesScreen({
               }
             } catch (error) {
               console.error('Error deleting PDF:', error);
-              Alert.alert('Error', 'Failed to delete PDF. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete PDF. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -601,7 +550,7 @@ export default function AdminPaidNotesScreen({
     </View>
   );
 
-  const renderPDFItem = ({ item }: { item: PDF }) => (
+  const renderPDFItem = ({ item }: { item: NotesPdf }) => (
     <View style={styles.pdfItem}>
       <View style={styles.pdfContent}>
         <Text style={styles.pdfTitle}>{item.pdfTitle || 'Untitled PDF'}</Text>
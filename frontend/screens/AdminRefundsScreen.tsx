@@ -0,0 +1,566 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  TextInput,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ApiError, Pagination, RefundRequest, UserSummary, refundsApi } from '../api';
+
+interface AdminRefundsScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const PAGE_SIZE = 20;
+
+type RefundStatus = RefundRequest['status'];
+
+const STATUS_OPTIONS: { value: RefundStatus | undefined; label: string; color: string }[] = [
+  { value: 'pending', label: 'Pending', color: '#FF9800' },
+  { value: 'approved', label: 'Approved', color: '#4CAF50' },
+  { value: 'denied', label: 'Denied', color: BRAND.dangerColor },
+  { value: undefined, label: 'All', color: BRAND.textSecondary },
+];
+
+const getStatusOption = (status: RefundStatus) =>
+  STATUS_OPTIONS.find((option) => option.value === status) || STATUS_OPTIONS[0];
+
+const getStudent = (refund: RefundRequest): Partial<UserSummary> =>
+  typeof refund.studentId === 'string' ? { _id: refund.studentId } : refund.studentId;
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '');
+
+export default function AdminRefundsScreen({ navigation }: AdminRefundsScreenProps) {
+  const [refunds, setRefunds] = useState<RefundRequest[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState<RefundStatus | undefined>('pending');
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [selectedRefund, setSelectedRefund] = useState<RefundRequest | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [adminNote, setAdminNote] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const fetchRefunds = useCallback(async (page = 1) => {
+    try {
+      const response = await refundsApi.getRefunds({ status: statusFilter, page, limit: PAGE_SIZE });
+      setRefunds((previous) => (page === 1 ? response.data : [...previous, ...response.data]));
+      setPagination(response.pagination);
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load refund requests');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchRefunds(1);
+  }, [fetchRefunds]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchRefunds(1);
+    setRefreshing(false);
+  };
+
+  const loadMore = () => {
+    if (loading || loadingMore || !pagination || pagination.page >= pagination.pages) return;
+    setLoadingMore(true);
+    fetchRefunds(pagination.page + 1);
+  };
+
+  const openRefund = (refund: RefundRequest) => {
+    setSelectedRefund(refund);
+    setRefundAmount(String(refund.paidAmount));
+    setAdminNote('');
+  };
+
+  // Reviewed requests drop out of the pending list
+  const replaceRefund = (updated: RefundRequest) => {
+    setRefunds((previous) =>
+      statusFilter && statusFilter !== updated.status
+        ? previous.filter((refund) => refund._id !== updated._id)
+        : previous.map((refund) => (refund._id === updated._id ? { ...refund, ...updated, studentId: refund.studentId } : refund))
+    );
+    setSelectedRefund(null);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setActionLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Refund action failed:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Action failed');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!selectedRefund) return;
+    const target = selectedRefund;
+    const amount = Number(refundAmount);
+
+    if (!(amount > 0) || amount > target.paidAmount) {
+      Alert.alert('Error', `Refund amount must be between 1 and ${target.paidAmount}`);
+      return;
+    }
+
+    Alert.alert(
+      'Approve Refund',
+      `Refund ₹${amount} to ${getStudent(target).name || 'this student'}? Their access to "${target.itemTitle}" will be removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Refund',
+          style: 'destructive',
+          onPress: () =>
+            runAction(async () => {
+              const response = await refundsApi.approveRefund(target._id, {
+                amount,
+                adminNote: adminNote.trim() || undefined,
+              });
+              replaceRefund(response.data);
+              Alert.alert('Refund Issued', response.message);
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleDeny = () => {
+    if (!selectedRefund) return;
+    const target = selectedRefund;
+    runAction(async () => {
+      const response = await refundsApi.denyRefund(target._id, adminNote.trim() || undefined);
+      replaceRefund(response.data);
+    });
+  };
+
+  const renderRefund = ({ item }: { item: RefundRequest }) => {
+    const statusOption = getStatusOption(item.status);
+    const student = getStudent(item);
+
+    return (
+      <TouchableOpacity style={styles.refundCard} onPress={() => openRefund(item)} activeOpacity={0.8}>
+        <View style={styles.refundHeader}>
+          <Text style={styles.refundTitle} numberOfLines={1}>{item.itemTitle || 'Untitled'}</Text>
+          <Text style={styles.refundAmount}>₹{item.refundAmount ?? item.paidAmount}</Text>
+        </View>
+        <Text style={styles.refundStudent} numberOfLines={1}>
+          {student.name || 'Unknown student'}{student.email ? ` · ${student.email}` : ''}
+        </Text>
+        <Text style={styles.refundReason} numberOfLines={2}>{item.reason}</Text>
+        <View style={styles.badgeRow}>
+          <View style={[styles.badge, { backgroundColor: statusOption.color + '30' }]}>
+            <Text style={[styles.badgeText, { color: statusOption.color }]}>{statusOption.label}</Text>
+          </View>
+          <View style={[styles.badge, { backgroundColor: BRAND.accentColor }]}>
+            <Text style={[styles.badgeText, { color: BRAND.textSecondary }]}>
+              {item.recordType === 'Enrollment' ? 'Course' : 'Notes'}
+            </Text>
+          </View>
+          <Text style={styles.refundDate}>{formatDate(item.createdAt)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderRefundModal = () => {
+    if (!selectedRefund) return null;
+    const student = getStudent(selectedRefund);
+    const pending = selectedRefund.status === 'pending';
+
+    return (
+      <Modal visible transparent animationType="slide" onRequestClose={() => setSelectedRefund(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <View style={styles.modalHeaderText}>
+                <Text style={styles.modalTitle} numberOfLines={2}>{selectedRefund.itemTitle}</Text>
+                <Text style={styles.modalSubtitle} numberOfLines={1}>
+                  {student.name} · paid ₹{selectedRefund.paidAmount}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => setSelectedRefund(null)} disabled={actionLoading}>
+                <MaterialIcons name="close" size={24} color={BRAND.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSectionTitle}>Reason</Text>
+            <Text style={styles.reasonText}>{selectedRefund.reason}</Text>
+
+            {pending ? (
+              <>
+                <Text style={styles.modalSectionTitle}>Refund amount (₹)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={refundAmount}
+                  onChangeText={setRefundAmount}
+                  keyboardType="numeric"
+                  editable={!actionLoading}
+                />
+
+                <Text style={styles.modalSectionTitle}>Note to student (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={adminNote}
+                  onChangeText={setAdminNote}
+                  placeholder="Shown with the decision"
+                  placeholderTextColor="#666666"
+                  editable={!actionLoading}
+                />
+
+                {actionLoading ? (
+                  <ActivityIndicator size="small" color={BRAND.primaryColor} style={styles.footerLoader} />
+                ) : (
+                  <View style={styles.decisionRow}>
+                    <TouchableOpacity style={[styles.decisionButton, styles.denyButton]} onPress={handleDeny}>
+                      <MaterialIcons name="block" size={18} color={BRAND.textPrimary} />
+                      <Text style={styles.decisionButtonText}>Deny</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.decisionButton, styles.approveButton]} onPress={handleApprove}>
+                      <MaterialIcons name="check-circle" size={18} color={BRAND.textPrimary} />
+                      <Text style={styles.decisionButtonText}>Approve & Refund</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalSectionTitle}>Decision</Text>
+                <Text style={styles.reasonText}>
+                  {getStatusOption(selectedRefund.status).label} on {formatDate(selectedRefund.reviewedAt)}
+                  {selectedRefund.status === 'approved' ? ` · refunded ₹${selectedRefund.refundAmount}` : ''}
+                </Text>
+                {!!selectedRefund.adminNote && <Text style={styles.reasonText}>{selectedRefund.adminNote}</Text>}
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Refund Requests</Text>
+          {pagination && <Text style={styles.headerSubtitle}>{pagination.total} requests</Text>}
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <View style={styles.chipRow}>
+          {STATUS_OPTIONS.map((option) => {
+            const selected = statusFilter === option.value;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setStatusFilter(option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={refunds}
+          keyExtractor={(item) => item._id}
+          renderItem={renderRefund}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.4}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
+            />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={BRAND.primaryColor} style={styles.footerLoader} /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="receipt-long" size={56} color="#666" />
+              <Text style={styles.emptyText}>No refund requests</Text>
+            </View>
+          }
+        />
+      )}
+
+      {renderRefundModal()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  refundCard: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  refundHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  refundTitle: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 10,
+  },
+  refundAmount: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  refundStudent: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  refundReason: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  refundDate: {
+    color: '#888888',
+    fontSize: 12,
+    marginLeft: 'auto',
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 24,
+    paddingBottom: 32,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalHeaderText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: BRAND.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  modalSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textPrimary,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  reasonText: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  input: {
+    height: 46,
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    color: BRAND.textPrimary,
+    paddingHorizontal: 14,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  decisionRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  decisionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    height: 50,
+  },
+  denyButton: {
+    backgroundColor: '#c62828',
+    marginRight: 10,
+  },
+  approveButton: {
+    backgroundColor: '#2e7d32',
+  },
+  decisionButtonText: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+});
@@ -15,7 +15,7 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { API_BASE } from '../config/api';
+import { ApiError, Notes, NotesPdf, unpaidNotesApi } from '../api';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 
@@ -31,36 +31,11 @@ const BRAND = {
   goldColor: '#ffd700',
 };
 
-// API configuration
-const API_BASE_URL = API_BASE;
-
-// Types
-interface UnpaidNotes {
-  _id?: string;
-  notesTitle: string;
-  tutor: string;
-  rating: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  notesDetails: {
-    subtitle: string;
-    description: string;
-  };
-  pdfs: PDF[];
+type UnpaidNotes = Notes;
+type NotesForm = Omit<UnpaidNotes, '_id' | 'viewCount' | 'createdAt' | 'updatedAt'> & {
   thumbnailUri?: string;
-  isActive: boolean;
-  viewCount?: number;
-  createdAt?: string;
-}
-
-interface PDF {
-  _id?: string;
-  pdfTitle: string;
-  pdfDescription: string;
-  originalName: string;
-  fileSize: number;
-  pages?: number;
-}
+};
+type PdfForm = Omit<NotesPdf, '_id' | 'uploadedAt'>;
 
 interface AdminUnpaidNotesScreenProps {
   navigation?: any;
@@ -80,7 +55,7 @@ export default function AdminUnpaidNotesScreen({
   const [selectedNotes, setSelectedNotes] = useState<UnpaidNotes | null>(null);
 
   // Form state
-  const [notesForm, setNotesForm] = useState<UnpaidNotes>({
+  const [notesForm, setNotesForm] = useState<NotesForm>({
     notesTitle: '',
     tutor: '',
     rating: 0,
@@ -96,7 +71,7 @@ export default function AdminUnpaidNotesScreen({
   });
 
   // PDF form state
-  const [pdfForm, setPdfForm] = useState<PDF>({
+  const [pdfForm, setPdfForm] = useState<PdfForm>({
     pdfTitle: '',
     pdfDescription: '',
     originalName: '',
@@ -186,13 +161,7 @@ export default function AdminUnpaidNotesScreen({
   const loadNotes = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/unpaidNotes`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await unpaidNotesApi.getAllNotes();
       
       if (data.success) {
         setNotes(data.data || []);
@@ -201,7 +170,9 @@ export default function AdminUnpaidNotesScreen({
       }
     } catch (error) {
       console.error('Error loading unpaid notes:', error);
-      Alert.alert('Error', 'Failed to load unpaid notes. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to load unpaid notes. Please check your internet connection.');
+      }
     } finally {
       setLoading(false);
     }
@@ -212,12 +183,6 @@ export default function AdminUnpaidNotesScreen({
       if (!validateNotes()) return;
       
       setLoading(true);
-      const url = editingNotes 
-        ? `${API_BASE_URL}/unpaidNotes/${editingNotes._id}`
-        : `${API_BASE_URL}/unpaidNotes`;
-      
-      const method = editingNotes ? 'PUT' : 'POST';
-      
       const formData = new FormData();
       
       // Add text fields
@@ -242,21 +207,9 @@ export default function AdminUnpaidNotesScreen({
         } as any);
       }
       
-      const response = await fetch(url, {
-        method,
-        body: formData,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = editingNotes
+        ? await unpaidNotesApi.updateNotes(editingNotes._id, formData)
+        : await unpaidNotesApi.createNotes(formData);
       
       if (data.success) {
         Alert.alert('Success', editingNotes ? 'Unpaid notes updated!' : 'Unpaid notes created!');
@@ -268,7 +221,14 @@ export default function AdminUnpaidNotesScreen({
       }
     } catch (error) {
       console.error('Error saving unpaid notes:', error);
-      Alert.alert('Error', 'Failed to save unpaid notes. Please check your internet connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert(
+          'Error',
+          error instanceof ApiError && !error.isNetworkError
+            ? error.message
+            : 'Failed to save unpaid notes. Please check your internet connection.'
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -291,15 +251,7 @@ export default function AdminUnpaidNotesScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/unpaidNotes/${notesId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await unpaidNotesApi.deleteNotes(notesId);
               
               if (data.success) {
                 Alert.alert('Success', 'Unpaid notes deleted!');
@@ -309,7 +261,14 @@ export default function AdminUnpaidNotesScreen({
               }
             } catch (error) {
               console.error('Error deleting unpaid notes:', error);
-              Alert.alert('Error', 'Failed to delete unpaid notes. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete unpaid notes. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -350,23 +309,7 @@ export default function AdminUnpaidNotesScreen({
     
     console.log('FormData prepared, making request...');
     
-    const response = await fetch(`${API_BASE_URL}/unpaidNotes/${selectedNotes._id}/pdfs`, {
-      method: 'POST',
-      body: formData,
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
-    
-    console.log('Response status:', response.status);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Server error response:', errorText);
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const data = await response.json();
+    const data = await unpaidNotesApi.addPdf(selectedNotes._id, formData);
     console.log('Success response:', data);
     
     if (data.success) {
@@ -379,7 +322,14 @@ export default function AdminUnpaidNotesScreen({
     }
   } catch (error) {
     console.error('Error adding PDF:', error);
-    Alert.alert('Error', 'Failed to add PDF. Please check your internet connection and try again.');
+    if (!(error instanceof ApiError && error.isUnauthorized)) {
+      Alert.alert(
+        'Error',
+        error instanceof ApiError && !error.isNetworkError
+          ? error.message
+          : 'Failed to add PDF. Please check your internet connection and try again.'
+      );
+    }
   } finally {
     setLoading(false);
   }
@@ -402,15 +352,7 @@ export default function AdminUnpaidNotesScreen({
           onPress: async () => {
             try {
               setLoading(true);
-              const response = await fetch(`${API_BASE_URL}/unpaidNotes/${selectedNotes._id}/pdfs/${pdfId}`, {
-                method: 'DELETE',
-              });
-              
-              if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-              }
-              
-              const data = await response.json();
+              const data = await unpaidNotesApi.deletePdf(selectedNotes._id, pdfId);
               
               if (data.success) {
                 Alert.alert('Success', 'PDF deleted from unpaid notes!');
@@ -421,7 +363,14 @@ export default function AdminUnpaidNotesScreen({
               }
             } catch (error) {
               console.error('Error deleting PDF:', error);
-              Alert.alert('Error', 'Failed to delete PDF. Please check your internet connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Failed to delete PDF. Please check your internet connection.'
+                );
+              }
             } finally {
               setLoading(false);
             }
@@ -588,7 +537,7 @@ export default function AdminUnpaidNotesScreen({
     </View>
   );
 
-  const renderPDFItem = ({ item }: { item: PDF }) => (
+  const renderPDFItem = ({ item }: { item: NotesPdf }) => (
     <View style={styles.pdfItem}>
       <View style={styles.pdfContent}>
         <Text style={styles.pdfTitle}>{item.pdfTitle || 'Untitled PDF'}</Text>
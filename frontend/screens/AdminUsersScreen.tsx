@@ -0,0 +1,706 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  TextInput,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ApiError, Pagination, User, adminApi } from '../api';
+import { useAuth } from '../context/AuthContext';
+
+interface AdminUsersScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+
+type Role = User['role'];
+
+const ROLE_OPTIONS: { value: Role; label: string; color: string }[] = [
+  { value: 'user', label: 'Student', color: '#2196F3' },
+  { value: 'teacher', label: 'Teacher', color: '#FF9800' },
+  { value: 'admin', label: 'Admin', color: '#9C27B0' },
+  { value: 'parent', label: 'Parent', color: '#4CAF50' },
+];
+
+const STATUS_OPTIONS: { value: 'active' | 'inactive' | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Deactivated' },
+];
+
+const getRoleOption = (role: Role) => ROLE_OPTIONS.find((option) => option.value === role) || ROLE_OPTIONS[0];
+
+export default function AdminUsersScreen({ navigation }: AdminUsersScreenProps) {
+  const { user: currentUser } = useAuth();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<Role | undefined>(undefined);
+  const [statusFilter, setStatusFilter] = useState<'active' | 'inactive' | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Ignore responses from searches that have since been replaced
+  const requestId = useRef(0);
+
+  const fetchUsers = useCallback(async (page = 1) => {
+    const currentRequest = ++requestId.current;
+    try {
+      const response = await adminApi.getUsers({
+        search: search.trim() || undefined,
+        role: roleFilter,
+        status: statusFilter,
+        page,
+        limit: PAGE_SIZE,
+      });
+      if (currentRequest !== requestId.current) return;
+
+      setUsers((previous) => (page === 1 ? response.data : [...previous, ...response.data]));
+      setPagination(response.pagination);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load users');
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [search, roleFilter, statusFilter]);
+
+  // Refetch from the first page whenever the filters change; typing is debounced
+  useEffect(() => {
+    setLoading(true);
+    const timer = setTimeout(() => fetchUsers(1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [fetchUsers]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchUsers(1);
+    setRefreshing(false);
+  };
+
+  const loadMore = () => {
+    if (loading || loadingMore || !pagination || pagination.page >= pagination.pages) return;
+    setLoadingMore(true);
+    fetchUsers(pagination.page + 1);
+  };
+
+  const openUser = (user: User) => {
+    setSelectedUser(user);
+    setTemporaryPassword('');
+  };
+
+  const replaceUser = (updated: User) => {
+    setUsers((previous) => previous.map((user) => (user._id === updated._id ? updated : user)));
+    setSelectedUser(updated);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setActionLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('User action failed:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Action failed');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleChangeRole = (role: Role) => {
+    if (!selectedUser || selectedUser.role === role) return;
+    const target = selectedUser;
+
+    Alert.alert(
+      'Change Role',
+      `Make ${target.name} a ${getRoleOption(role).label.toLowerCase()}? They will be signed out of all devices.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change',
+          onPress: () =>
+            runAction(async () => {
+              const response = await adminApi.updateUserRole(target._id, role);
+              replaceUser(response.data);
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleToggleStatus = () => {
+    if (!selectedUser) return;
+    const target = selectedUser;
+    const deactivate = target.isActive !== false;
+
+    Alert.alert(
+      deactivate ? 'Deactivate Account' : 'Reactivate Account',
+      deactivate
+        ? `${target.name} will be signed out and won't be able to sign in until reactivated.`
+        : `${target.name} will be able to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: deactivate ? 'Deactivate' : 'Reactivate',
+          style: deactivate ? 'destructive' : 'default',
+          onPress: () =>
+            runAction(async () => {
+              const response = await adminApi.updateUserStatus(target._id, !deactivate);
+              replaceUser(response.data);
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleSendResetLink = () => {
+    if (!selectedUser) return;
+    const target = selectedUser;
+    runAction(async () => {
+      const response = await adminApi.resetUserPassword(target._id);
+      Alert.alert('Reset Link Sent', response.message);
+    });
+  };
+
+  const handleSetPassword = () => {
+    if (!selectedUser) return;
+    if (temporaryPassword.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters long');
+      return;
+    }
+    const target = selectedUser;
+    runAction(async () => {
+      const response = await adminApi.resetUserPassword(target._id, temporaryPassword);
+      setTemporaryPassword('');
+      Alert.alert('Password Updated', response.message);
+    });
+  };
+
+  const renderUser = ({ item }: { item: User }) => {
+    const roleOption = getRoleOption(item.role);
+    const inactive = item.isActive === false;
+
+    return (
+      <TouchableOpacity
+        style={[styles.userCard, inactive && styles.userCardInactive]}
+        onPress={() => openUser(item)}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.userAvatar, { backgroundColor: roleOption.color + '30' }]}>
+          <Text style={[styles.userAvatarText, { color: roleOption.color }]}>
+            {item.name?.charAt(0).toUpperCase() || 'U'}
+          </Text>
+        </View>
+        <View style={styles.userInfo}>
+          <Text style={styles.userName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.userEmail} numberOfLines={1}>{item.email}</Text>
+          <View style={styles.badgeRow}>
+            <View style={[styles.badge, { backgroundColor: roleOption.color + '30' }]}>
+              <Text style={[styles.badgeText, { color: roleOption.color }]}>{roleOption.label}</Text>
+            </View>
+            {inactive && (
+              <View style={[styles.badge, styles.inactiveBadge]}>
+                <Text style={[styles.badgeText, { color: BRAND.dangerColor }]}>Deactivated</Text>
+              </View>
+            )}
+          </View>
+        </View>
+        <MaterialIcons name="chevron-right" size={22} color={BRAND.textSecondary} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderUserModal = () => {
+    if (!selectedUser) return null;
+    const isSelf = selectedUser._id === currentUser?.id;
+    const inactive = selectedUser.isActive === false;
+
+    return (
+      <Modal visible transparent animationType="slide" onRequestClose={() => setSelectedUser(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <View style={styles.modalHeaderText}>
+                <Text style={styles.modalTitle} numberOfLines={1}>{selectedUser.name}</Text>
+                <Text style={styles.modalSubtitle} numberOfLines={1}>{selectedUser.email}</Text>
+              </View>
+              <TouchableOpacity onPress={() => setSelectedUser(null)} disabled={actionLoading}>
+                <MaterialIcons name="close" size={24} color={BRAND.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {isSelf && (
+              <Text style={styles.selfNote}>You can't change the role or status of your own account.</Text>
+            )}
+
+            <Text style={styles.modalSectionTitle}>Role</Text>
+            <View style={styles.chipRow}>
+              {ROLE_OPTIONS.map((option) => {
+                const selected = selectedUser.role === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, selected && { borderColor: option.color, backgroundColor: option.color + '20' }]}
+                    onPress={() => handleChangeRole(option.value)}
+                    disabled={isSelf || actionLoading}
+                  >
+                    <Text style={[styles.chipText, selected && { color: option.color }]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.modalSectionTitle}>Password</Text>
+            <TouchableOpacity style={styles.actionButton} onPress={handleSendResetLink} disabled={actionLoading}>
+              <MaterialIcons name="email" size={18} color={BRAND.primaryColor} />
+              <Text style={styles.actionButtonText}>Email a reset link</Text>
+            </TouchableOpacity>
+            <View style={styles.passwordRow}>
+              <TextInput
+                style={styles.passwordInput}
+                value={temporaryPassword}
+                onChangeText={setTemporaryPassword}
+                placeholder="Or set a temporary password"
+                placeholderTextColor="#666666"
+                autoCapitalize="none"
+                editable={!actionLoading}
+              />
+              <TouchableOpacity
+                style={[styles.setPasswordButton, temporaryPassword.length < 6 && styles.buttonDisabled]}
+                onPress={handleSetPassword}
+                disabled={actionLoading || temporaryPassword.length < 6}
+              >
+                <Text style={styles.setPasswordText}>Set</Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.statusButton, inactive ? styles.reactivateButton : styles.deactivateButton, isSelf && styles.buttonDisabled]}
+              onPress={handleToggleStatus}
+              disabled={isSelf || actionLoading}
+            >
+              {actionLoading ? (
+                <ActivityIndicator size="small" color={BRAND.textPrimary} />
+              ) : (
+                <>
+                  <MaterialIcons name={inactive ? 'check-circle' : 'block'} size={18} color={BRAND.textPrimary} />
+                  <Text style={styles.statusButtonText}>{inactive ? 'Reactivate Account' : 'Deactivate Account'}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Manage Users</Text>
+          {pagination && <Text style={styles.headerSubtitle}>{pagination.total} accounts</Text>}
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Search & Filters */}
+      <View style={styles.filters}>
+        <View style={styles.searchContainer}>
+          <MaterialIcons name="search" size={20} color="#666666" />
+          <TextInput
+            style={styles.searchInput}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search by name, email or phone"
+            placeholderTextColor="#666666"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {!!search && (
+            <TouchableOpacity onPress={() => setSearch('')}>
+              <MaterialIcons name="close" size={18} color="#666666" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, !roleFilter && styles.chipSelected]}
+            onPress={() => setRoleFilter(undefined)}
+          >
+            <Text style={[styles.chipText, !roleFilter && styles.chipTextSelected]}>All roles</Text>
+          </TouchableOpacity>
+          {ROLE_OPTIONS.map((option) => {
+            const selected = roleFilter === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setRoleFilter(selected ? undefined : option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.chipRow}>
+          {STATUS_OPTIONS.map((option) => {
+            const selected = statusFilter === option.value;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setStatusFilter(option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={users}
+          keyExtractor={(item) => item._id}
+          renderItem={renderUser}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.4}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
+            />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={BRAND.primaryColor} style={styles.footerLoader} /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="person-search" size={56} color="#666" />
+              <Text style={styles.emptyText}>No users found</Text>
+            </View>
+          }
+        />
+      )}
+
+      {renderUserModal()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 12,
+    height: 46,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  userCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  userCardInactive: {
+    opacity: 0.6,
+  },
+  userAvatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  userAvatarText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  userInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  userName: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  userEmail: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  inactiveBadge: {
+    backgroundColor: 'rgba(255, 107, 107, 0.2)',
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 24,
+    paddingBottom: 32,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalHeaderText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: BRAND.textPrimary,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  selfNote: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  modalSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textPrimary,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 10,
+  },
+  actionButtonText: {
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    marginLeft: 10,
+  },
+  passwordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  passwordInput: {
+    flex: 1,
+    height: 46,
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    color: BRAND.textPrimary,
+    paddingHorizontal: 14,
+    fontSize: 15,
+  },
+  setPasswordButton: {
+    marginLeft: 10,
+    height: 46,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    backgroundColor: BRAND.primaryColor,
+    justifyContent: 'center',
+  },
+  setPasswordText: {
+    color: BRAND.backgroundColor,
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  statusButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    height: 50,
+  },
+  deactivateButton: {
+    backgroundColor: '#c62828',
+  },
+  reactivateButton: {
+    backgroundColor: '#2e7d32',
+  },
+  statusButtonText: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+});
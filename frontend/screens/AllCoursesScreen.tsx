@@ -14,37 +14,15 @@ import {
   TextInput,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import { API_BASE } from '../config/api';
+import { API_BASE } from '../api/config';
+import { Course as ApiCourse, paidCoursesApi, unpaidCoursesApi } from '../api';
 
 interface AllCoursesScreenProps {
   navigation: NavigationProp<any>;
   route: RouteProp<any>;
 }
 
-interface Course {
-  _id: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: Array<{
-    videoTitle: string;
-    videoDescription: string;
-    videoLink: string;
-    duration: string;
-  }>;
-  courseThumbnail: string;
-  totalEnrolledStudents?: number;
-  studentsEnrolled: Array<any>;
-  isActive: boolean;
-  type: 'paid' | 'free';
-}
+type Course = ApiCourse & { type: 'paid' | 'free' };
 
 const { width, height } = Dimensions.get('window');
 
@@ -81,38 +59,20 @@ const AllCoursesScreen: React.FC<AllCoursesScreenProps> = ({ navigation, route }
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Fetch all courses from API
   const fetchAllCourses = async () => {
     try {
       setLoading(true);
       
-      // Fetch paid courses
-      const paidResponse = await fetch(`${API_BASE_URL}/paidCourses`);
-      if (!paidResponse.ok) {
-        throw new Error(`HTTP error! status: ${paidResponse.status}`);
-      }
-      const paidText = await paidResponse.text();
-      const paidCourses = JSON.parse(paidText);
-      
-      // Fetch unpaid courses
-      const unpaidResponse = await fetch(`${API_BASE_URL}/unpaidCourses`);
-      if (!unpaidResponse.ok) {
-        throw new Error(`HTTP error! status: ${unpaidResponse.status}`);
-      }
-      const unpaidText = await unpaidResponse.text();
-      const unpaidCourses = JSON.parse(unpaidText);
-      
-      // Handle different response formats
-      const paidData = Array.isArray(paidCourses) ? paidCourses : (paidCourses.data || []);
-      const unpaidData = Array.isArray(unpaidCourses) ? unpaidCourses : (unpaidCourses.data || []);
+      const [paidCourses, unpaidCourses] = await Promise.all([
+        paidCoursesApi.getAllCourses(),
+        unpaidCoursesApi.getAllCourses(),
+      ]);
       
       // Combine and mark course types
       const allCourses = [
-        ...paidData.map((course: any) => ({ ...course, type: 'paid' })),
-        ...unpaidData.map((course: any) => ({ ...course, type: 'free' }))
+        ...paidCourses.data.map(course => ({ ...course, type: 'paid' as const })),
+        ...unpaidCourses.data.map(course => ({ ...course, type: 'free' as const }))
       ];
       
       setCourses(allCourses);
@@ -174,7 +134,7 @@ const AllCoursesScreen: React.FC<AllCoursesScreenProps> = ({ navigation, route }
   };
 
   // Helper function to get proper image source
-  const getImageSource = (thumbnailPath: string) => {
+  const getImageSource = (thumbnailPath?: string) => {
     if (!thumbnailPath) {
       return { uri: 'https://via.placeholder.com/80x60/1a2e1a/00ff88?text=No+Image' };
     }
@@ -15,44 +15,13 @@ import {
   Linking,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
+import { DPP, dppApi, getSession } from '../api';
 
 interface AllDPPScreenProps {
   navigation: NavigationProp<any>;
   route: RouteProp<any>;
 }
 
-interface DPP {
-  _id: string;
-  title: string;
-  class: string;
-  category: 'jee' | 'neet' | 'boards';
-  questionActive: boolean;
-  answerActive: boolean;
-  questionPDF: {
-    originalName: string;
-    fileSize: number;
-    pages: number;
-  };
-  answerPDF?: {
-    originalName: string;
-    fileSize: number;
-    pages: number;
-  };
-  viewCount: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  token: string;
-  role?: string;
-}
-
 const { width, height } = Dimensions.get('window');
 
 // Brand configuration
@@ -85,7 +54,6 @@ const AllDPPScreen: React.FC<AllDPPScreenProps> = ({ navigation, route }) => {
   const [selectedDPP, setSelectedDPP] = useState<DPP | null>(null);
 
   // Authentication state
-  const [userData, setUserData] = useState<UserData | null>(null);
   const [showLoginBanner, setShowLoginBanner] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
 
@@ -96,62 +64,25 @@ const AllDPPScreen: React.FC<AllDPPScreenProps> = ({ navigation, route }) => {
   const glowOpacity = useRef(new Animated.Value(0)).current;
   const modalScale = useRef(new Animated.Value(0)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Authentication check function
   const checkAuthStatus = async () => {
     try {
       console.log('Checking auth status...');
       
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      console.log('Auth data found:', { 
-        hasToken: !!token, 
-        userRole, 
-        userId, 
-        userName,
-        hasStoredData: !!storedUserData
-      });
-      
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        // Try to get detailed user data from storage first
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        // Create user data object with available information
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
-        };
-        
-        console.log('Setting user data:', userDataObj);
-        setUserData(userDataObj);
+      if (session) {
         setIsLoggedIn(true);
-        return true;
+        return session;
       } else {
         console.log('No auth data found, user not logged in');
         setIsLoggedIn(false);
-        return false;
+        return null;
       }
     } catch (error) {
       console.error('Auth check error:', error);
       setIsLoggedIn(false);
-      return false;
+      return null;
     }
   };
 
@@ -160,23 +91,15 @@ const AllDPPScreen: React.FC<AllDPPScreenProps> = ({ navigation, route }) => {
     try {
       setLoading(true);
       
-      const response = await fetch(`${API_BASE_URL}/dpp`);
+      const data = await dppApi.getAllDPPs();
       
-      if (response.ok) {
-        const data = await response.json();
-        const dppData = data.data || [];
-        
-        // Filter only active DPPs
-        const activeDPPs = dppData.filter((dpp: DPP) => dpp.questionActive);
-        
-        // Sort by creation date (newest first)
-        activeDPPs.sort((a: DPP, b: DPP) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        
-        setDPPs(activeDPPs);
-      } else {
-        console.error('Error fetching DPPs:', response.status);
-        setDPPs([]);
-      }
+      // Filter only active DPPs
+      const activeDPPs = data.data.filter(dpp => dpp.questionActive);
+      
+      // Sort by creation date (newest first)
+      activeDPPs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      
+      setDPPs(activeDPPs);
     } catch (error) {
       console.error('Error fetching DPPs:', error);
       setDPPs([]);
@@ -252,10 +175,9 @@ const AllDPPScreen: React.FC<AllDPPScreenProps> = ({ navigation, route }) => {
     console.log('PDF open requested, checking authentication...');
     
     // Check if user is authenticated
-    const isAuthenticated = await checkAuthStatus();
-    console.log('Authentication result:', isAuthenticated);
+    const session = await checkAuthStatus();
     
-    if (!isAuthenticated || !userData) {
+    if (!session) {
       console.log('User not authenticated, showing login banner');
       setShowLoginBanner(true);
       return;
@@ -263,7 +185,7 @@ const AllDPPScreen: React.FC<AllDPPScreenProps> = ({ navigation, route }) => {
 
     try {
       // Corrected URL to match backend routes
-      const pdfUrl = `${API_BASE_URL}/dpp/${selectedDPP._id}/${type}-pdf`;
+      const pdfUrl = type === 'question' ? dppApi.getQuestionPdfUrl(selectedDPP._id) : dppApi.getAnswerPdfUrl(selectedDPP._id);
       
       const canOpen = await Linking.canOpenURL(pdfUrl);
       
@@ -14,44 +14,15 @@ import {
   TextInput,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import { API_BASE } from '../config/api';
+import { Notes as ApiNotes, paidNotesApi, unpaidNotesApi } from '../api';
 
 interface AllNotesScreenProps {
   navigation: NavigationProp<any>;
   route: RouteProp<any>;
 }
 
-interface Notes {
-  _id: string;
-  notesTitle: string;
-  tutor: string;
-  rating: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  price?: number; // Optional for paid notes
-  notesDetails: {
-    subtitle: string;
-    description: string;
-  };
-  pdfs: Array<{
-    _id: string;
-    pdfTitle: string;
-    pdfDescription: string;
-    originalName: string;
-    fileSize: number;
-    pages: number;
-  }>;
-  thumbnail: {
-    mimeType: string;
-    originalName: string;
-    size: number;
-  };
-  viewCount: number;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-  isPaid?: boolean; // Added to distinguish between paid and unpaid notes
-}
+// isPaid distinguishes paid from unpaid notes
+type Notes = ApiNotes & { isPaid?: boolean };
 
 const { width, height } = Dimensions.get('window');
 
@@ -87,40 +58,24 @@ const AllNotesScreen: React.FC<AllNotesScreenProps> = ({ navigation, route }) =>
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Fetch all notes from both APIs
   const fetchAllNotes = async () => {
     try {
       setLoading(true);
       
       // Fetch both unpaid and paid notes simultaneously
-      const [unpaidResponse, paidResponse] = await Promise.all([
-        fetch(`${API_BASE_URL}/unpaidNotes`),
-        fetch(`${API_BASE_URL}/paidNotes`)
+      // One list failing to load still shows the other
+      const [unpaidResult, paidResult] = await Promise.allSettled([
+        unpaidNotesApi.getAllNotes(),
+        paidNotesApi.getAllNotes()
       ]);
 
-      let unpaidNotes = [];
-      let paidNotes = [];
-
-      // Handle unpaid notes response
-      if (unpaidResponse.ok) {
-        const unpaidText = await unpaidResponse.text();
-        const unpaidData = JSON.parse(unpaidText);
-        unpaidNotes = Array.isArray(unpaidData) ? unpaidData : (unpaidData.data || []);
-        // Mark as unpaid
-        unpaidNotes = unpaidNotes.map((note: any) => ({ ...note, isPaid: false }));
-      }
-
-      // Handle paid notes response
-      if (paidResponse.ok) {
-        const paidText = await paidResponse.text();
-        const paidData = JSON.parse(paidText);
-        paidNotes = Array.isArray(paidData) ? paidData : (paidData.data || []);
-        // Mark as paid
-        paidNotes = paidNotes.map((note: any) => ({ ...note, isPaid: true }));
-      }
+      const unpaidNotes: Notes[] = unpaidResult.status === 'fulfilled'
+        ? unpaidResult.value.data.map(note => ({ ...note, isPaid: false }))
+        : [];
+      const paidNotes: Notes[] = paidResult.status === 'fulfilled'
+        ? paidResult.value.data.map(note => ({ ...note, isPaid: true }))
+        : [];
 
       // Combine both arrays
       const allNotes = [...unpaidNotes, ...paidNotes];
@@ -204,8 +159,8 @@ const AllNotesScreen: React.FC<AllNotesScreenProps> = ({ navigation, route }) =>
       return { uri: 'https://via.placeholder.com/80x60/1a2e1a/00ff88?text=No+Image' };
     }
     
-    const endpoint = isPaid ? 'paidNotes' : 'unpaidNotes';
-    return { uri: `${API_BASE_URL}/${endpoint}/${notesId}/thumbnail` };
+    const notesApi = isPaid ? paidNotesApi : unpaidNotesApi;
+    return { uri: notesApi.getThumbnailUrl(notesId) };
   };
 
   // Helper function to format file size
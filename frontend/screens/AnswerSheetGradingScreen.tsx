@@ -0,0 +1,947 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  ScrollView,
+  StatusBar,
+  SafeAreaView,
+  ActivityIndicator,
+  BackHandler,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { RootStackParamList } from '../App';
+import {
+  AnnotationKind,
+  AnswerSheetGrading,
+  ApiError,
+  SheetAnnotation,
+  getSession,
+  testsApi,
+} from '../api';
+
+type AnswerSheetGradingNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type AnswerSheetGradingRouteProp = {
+  key: string;
+  name: string;
+  params: {
+    testId: string;
+    studentId: string;
+    studentName: string;
+  };
+};
+
+// Brand configuration
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  textPrimary: '#ffffff',
+  textSecondary: '#b0b0b0',
+  dangerColor: '#ff4444',
+};
+
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174';
+
+type Tool = AnnotationKind | 'erase';
+
+const TOOLS: { key: Tool; label: string; icon: keyof typeof MaterialIcons.glyphMap; color: string }[] = [
+  { key: 'tick', label: 'Tick', icon: 'check', color: '#4CAF50' },
+  { key: 'cross', label: 'Cross', icon: 'close', color: BRAND.dangerColor },
+  { key: 'comment', label: 'Comment', icon: 'chat-bubble-outline', color: '#FF9800' },
+  { key: 'erase', label: 'Erase', icon: 'auto-fix-high', color: BRAND.textSecondary },
+];
+
+// How close (as a fraction of the page) a tap must be to an annotation to erase it
+const ERASE_RADIUS = 0.05;
+
+// Marks entry rows keep the raw input so half-typed numbers aren't reformatted
+interface QuestionRow {
+  label: string;
+  marks: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Renders every page of the sheet with pdf.js and lays the annotations over it.
+// The page posts { type: 'loaded', pages }, { type: 'error', message } and
+// { type: 'tap', page, x, y } (fractions of the page); marks come back in
+// through window.renderMarks(annotations).
+const buildViewerHtml = (pdfUrl: string, token: string) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=3.0">
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { background: #111; font-family: -apple-system, BlinkMacSystemFont, sans-serif; }
+        #status { color: #ccc; text-align: center; padding: 40px 20px; font-size: 14px; }
+        .page { position: relative; margin: 0 auto 12px; background: #fff; }
+        .page canvas { display: block; width: 100%; }
+        .overlay { position: absolute; top: 0; left: 0; right: 0; bottom: 0; }
+        .mark { position: absolute; transform: translate(-50%, -50%); font-size: 30px; font-weight: bold; line-height: 1; pointer-events: none; }
+        .tick { color: #1a9933; }
+        .cross { color: #d91a1a; }
+        .comment { position: absolute; max-width: 60%; padding: 2px 5px; border: 1px solid #d91a1a; background: rgba(255, 255, 255, 0.85); color: #d91a1a; font-size: 13px; pointer-events: none; }
+      </style>
+      <script src="${PDFJS_URL}/pdf.min.js"></script>
+    </head>
+    <body>
+      <div id="status">Loading answer sheet...</div>
+      <div id="pages"></div>
+      <script>
+        var overlays = [];
+        var post = function (message) {
+          window.ReactNativeWebView.postMessage(JSON.stringify(message));
+        };
+
+        window.renderMarks = function (annotations) {
+          overlays.forEach(function (overlay) { overlay.innerHTML = ''; });
+          annotations.forEach(function (annotation) {
+            var overlay = overlays[annotation.page];
+            if (!overlay) return;
+            var element = document.createElement('div');
+            if (annotation.kind === 'comment') {
+              element.className = 'comment';
+              element.textContent = annotation.text;
+            } else {
+              element.className = 'mark ' + annotation.kind;
+              element.textContent = annotation.kind === 'tick' ? '\\u2713' : '\\u2717';
+            }
+            element.style.left = (annotation.x * 100) + '%';
+            element.style.top = (annotation.y * 100) + '%';
+            overlay.appendChild(element);
+          });
+        };
+
+        var addPage = function (pdf, number) {
+          return pdf.getPage(number).then(function (page) {
+            var base = page.getViewport({ scale: 1 });
+            var scale = (window.innerWidth / base.width) * (window.devicePixelRatio || 1);
+            var viewport = page.getViewport({ scale: scale });
+
+            var wrapper = document.createElement('div');
+            wrapper.className = 'page';
+            wrapper.style.width = window.innerWidth + 'px';
+            var canvas = document.createElement('canvas');
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            var overlay = document.createElement('div');
+            overlay.className = 'overlay';
+            overlay.addEventListener('click', function (event) {
+              var rect = overlay.getBoundingClientRect();
+              post({
+                type: 'tap',
+                page: number - 1,
+                x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+                y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+              });
+            });
+            wrapper.appendChild(canvas);
+            wrapper.appendChild(overlay);
+            document.getElementById('pages').appendChild(wrapper);
+            overlays[number - 1] = overlay;
+
+            return page.render({ canvasContext: canvas.getContext('2d'), viewport: viewport }).promise;
+          });
+        };
+
+        try {
+          pdfjsLib.GlobalWorkerOptions.workerSrc = '${PDFJS_URL}/pdf.worker.min.js';
+          pdfjsLib.getDocument({ url: ${JSON.stringify(pdfUrl)}, httpHeaders: { Authorization: ${JSON.stringify(`Bearer ${token}`)} } })
+            .promise.then(function (pdf) {
+              var chain = Promise.resolve();
+              for (var number = 1; number <= pdf.numPages; number++) {
+                chain = chain.then(addPage.bind(null, pdf, number));
+              }
+              return chain.then(function () {
+                document.getElementById('status').style.display = 'none';
+                post({ type: 'loaded', pages: pdf.numPages });
+              });
+            })
+            .catch(function (error) {
+              document.getElementById('status').textContent = 'Could not load the answer sheet';
+              post({ type: 'error', message: String(error && error.message || error) });
+            });
+        } catch (error) {
+          post({ type: 'error', message: String(error && error.message || error) });
+        }
+      </script>
+    </body>
+  </html>
+`;
+
+export default function AnswerSheetGradingScreen() {
+  const navigation = useNavigation<AnswerSheetGradingNavigationProp>();
+  const route = useRoute<AnswerSheetGradingRouteProp>();
+  const { testId, studentId, studentName } = route.params;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [grading, setGrading] = useState<AnswerSheetGrading | null>(null);
+  const [viewerHtml, setViewerHtml] = useState('');
+  const [viewerReady, setViewerReady] = useState(false);
+  const [viewerError, setViewerError] = useState(false);
+  const [viewerKey, setViewerKey] = useState(0);
+  const [tool, setTool] = useState<Tool>('tick');
+  const [annotations, setAnnotations] = useState<SheetAnnotation[]>([]);
+  const [questionRows, setQuestionRows] = useState<QuestionRow[]>([]);
+  const [showMarksPanel, setShowMarksPanel] = useState(false);
+  const [pendingComment, setPendingComment] = useState<{ page: number; x: number; y: number } | null>(null);
+  const [commentInput, setCommentInput] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const webViewRef = useRef<WebView>(null);
+
+  useEffect(() => {
+    loadGrading();
+  }, [testId, studentId]);
+
+  // Keep the marks drawn over the sheet in step with the list
+  useEffect(() => {
+    if (viewerReady) {
+      webViewRef.current?.injectJavaScript(`window.renderMarks(${JSON.stringify(annotations)}); true;`);
+    }
+  }, [annotations, viewerReady]);
+
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBack();
+      return true;
+    });
+    return () => backHandler.remove();
+  }, [isDirty]);
+
+  // With a marking scheme the rows are its questions; otherwise whatever the teacher listed
+  const applyGrading = (data: AnswerSheetGrading) => {
+    const schemeQuestions = data.sections.flatMap(section => section.questions);
+    setGrading(data);
+    setAnnotations(data.annotations);
+    setQuestionRows(schemeQuestions.length
+      ? schemeQuestions.map(question => {
+          const saved = data.questionMarks.find(mark => mark.label === question.label);
+          return { label: question.label, marks: saved ? String(saved.marks) : '' };
+        })
+      : data.questionMarks.map(question => ({ label: question.label, marks: String(question.marks) })));
+    setIsDirty(false);
+  };
+
+  const loadGrading = async () => {
+    setIsLoading(true);
+    try {
+      const session = await getSession();
+      if (!session) {
+        Alert.alert('Error', 'Please log in again');
+        return;
+      }
+
+      const response = await testsApi.getAnswerSheetGrading(testId, studentId);
+      applyGrading(response.data);
+      setViewerHtml(buildViewerHtml(testsApi.getStudentAnswerSheetUrl(testId, studentId), session.token));
+    } catch (error) {
+      console.error('Error loading answer sheet grading:', error);
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert(
+          'Error',
+          error.isNetworkError ? 'Network error. Please check your connection.' : error.message,
+          [{ text: 'Go Back', onPress: () => navigation.goBack() }]
+        );
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (!isDirty) {
+      navigation.goBack();
+      return;
+    }
+    Alert.alert('Discard Changes?', 'Your marks and annotations on this sheet have not been saved.', [
+      { text: 'Keep Grading', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  const updateAnnotations = (next: SheetAnnotation[]) => {
+    setAnnotations(next);
+    setIsDirty(true);
+  };
+
+  const handleViewerMessage = (event: WebViewMessageEvent) => {
+    let message: { type?: string; page?: number; x?: number; y?: number; message?: string };
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'loaded') {
+      setViewerReady(true);
+      return;
+    }
+    if (message.type === 'error') {
+      console.error('Error rendering answer sheet:', message.message);
+      setViewerError(true);
+      return;
+    }
+    if (message.type !== 'tap' || typeof message.page !== 'number') return;
+
+    const page = message.page;
+    const x = message.x ?? 0;
+    const y = message.y ?? 0;
+
+    if (tool === 'erase') {
+      let nearest = -1;
+      let nearestDistance = ERASE_RADIUS;
+      annotations.forEach((annotation, index) => {
+        const distance = Math.hypot(annotation.x - x, annotation.y - y);
+        if (annotation.page === page && distance <= nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest !== -1) {
+        updateAnnotations(annotations.filter((_, index) => index !== nearest));
+      }
+    } else if (tool === 'comment') {
+      setCommentInput('');
+      setPendingComment({ page, x, y });
+    } else {
+      updateAnnotations([...annotations, { page, kind: tool, x, y, text: '' }]);
+    }
+  };
+
+  const handleAddComment = () => {
+    const text = commentInput.trim();
+    if (pendingComment && text) {
+      updateAnnotations([...annotations, { ...pendingComment, kind: 'comment', text }]);
+    }
+    setPendingComment(null);
+  };
+
+  const updateQuestionRow = (index: number, changes: Partial<QuestionRow>) => {
+    setQuestionRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setIsDirty(true);
+  };
+
+  const addQuestionRow = () => {
+    setQuestionRows(rows => [...rows, { label: String(rows.length + 1), marks: '' }]);
+    setShowMarksPanel(true);
+    setIsDirty(true);
+  };
+
+  const removeQuestionRow = (index: number) => {
+    setQuestionRows(rows => rows.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const totalMarks = round2(questionRows.reduce((sum, row) => sum + (parseFloat(row.marks) || 0), 0));
+  const fullMarks = grading?.fullMarks ?? 0;
+  const sections = grading?.sections ?? [];
+  const maxMarksByLabel = new Map(
+    sections.flatMap(section => section.questions.map(question => [question.label, question.maxMarks] as const))
+  );
+
+  const handleSave = async () => {
+    const questionMarks = [];
+    for (const row of questionRows) {
+      const label = row.label.trim();
+      const marks = parseFloat(row.marks);
+      // Scheme questions left blank aren't sent; with none filled in, the save is a draft
+      if (sections.length && !row.marks.trim()) continue;
+      if (!label) {
+        Alert.alert('Error', 'Every question needs a label');
+        return;
+      }
+      if (isNaN(marks) || marks < 0) {
+        Alert.alert('Error', `Enter valid marks for question ${label}`);
+        return;
+      }
+      if (marks > (maxMarksByLabel.get(label) ?? Infinity)) {
+        Alert.alert('Error', `Question ${label} is out of ${maxMarksByLabel.get(label)}`);
+        return;
+      }
+      questionMarks.push({ label, marks });
+    }
+    if (totalMarks > fullMarks) {
+      Alert.alert('Error', `Question marks add up to ${totalMarks}, more than the test's ${fullMarks}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await testsApi.saveAnswerSheetGrading(testId, studentId, { annotations, questionMarks });
+      applyGrading(response.data);
+
+      if (response.data.gradedAt) {
+        Alert.alert('Graded', `${studentName} scored ${response.data.marksScored}/${response.data.fullMarks}`, [
+          { text: 'Keep Reviewing', style: 'cancel' },
+          { text: 'Done', onPress: () => navigation.goBack() },
+        ]);
+      } else {
+        Alert.alert('Draft Saved', 'Add marks for the questions to finish grading this sheet.');
+      }
+    } catch (error) {
+      console.error('Error saving answer sheet grading:', error);
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Download the checked copy exactly as the student will receive it
+  const handleShareChecked = async () => {
+    if (isDirty) {
+      Alert.alert('Unsaved Changes', 'Save your grading first so the checked copy includes it.');
+      return;
+    }
+
+    setIsSharing(true);
+    try {
+      const session = await getSession();
+      if (!session) {
+        Alert.alert('Error', 'Please log in again');
+        return;
+      }
+
+      const fileName = studentName.replace(/[^a-zA-Z0-9]/g, '_');
+      const downloadResult = await FileSystem.downloadAsync(
+        testsApi.getStudentAnnotatedSheetUrl(testId, studentId),
+        FileSystem.cacheDirectory + `${fileName}_${testId}_Checked.pdf`,
+        { headers: { Authorization: `Bearer ${session.token}` } }
+      );
+
+      if (downloadResult.status !== 200) {
+        Alert.alert('Error', 'Could not prepare the checked copy. Please try again.');
+        return;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(downloadResult.uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: `${studentName}'s Checked Answer Sheet`,
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Downloaded', 'Checked copy saved to your device');
+      }
+    } catch (error) {
+      console.error('Error sharing checked answer sheet:', error);
+      Alert.alert('Error', 'Could not prepare the checked copy. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const renderToolbar = () => (
+    <View style={styles.toolbar}>
+      {TOOLS.map(item => {
+        const active = tool === item.key;
+        return (
+          <TouchableOpacity
+            key={item.key}
+            style={[styles.toolButton, active && { borderColor: item.color, backgroundColor: `${item.color}22` }]}
+            onPress={() => setTool(item.key)}
+          >
+            <MaterialIcons name={item.icon} size={18} color={active ? item.color : BRAND.textSecondary} />
+            <Text style={[styles.toolText, active && { color: item.color }]}>{item.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderViewer = () => {
+    if (viewerError) {
+      return (
+        <View style={styles.centered}>
+          <MaterialIcons name="error-outline" size={48} color={BRAND.dangerColor} />
+          <Text style={styles.messageText}>Could not display this answer sheet</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => {
+              setViewerError(false);
+              setViewerReady(false);
+              setViewerKey(key => key + 1);
+            }}
+          >
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.viewer}>
+        <WebView
+          key={viewerKey}
+          ref={webViewRef}
+          source={{ html: viewerHtml }}
+          originWhitelist={['*']}
+          onMessage={handleViewerMessage}
+          javaScriptEnabled={true}
+          domStorageEnabled={true}
+          style={styles.webView}
+        />
+        {!viewerReady && (
+          <View style={styles.viewerLoading}>
+            <ActivityIndicator size="large" color={BRAND.primaryColor} />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderMarksPanel = () => (
+    <View style={styles.marksPanel}>
+      <TouchableOpacity style={styles.marksHeader} onPress={() => setShowMarksPanel(open => !open)}>
+        <View>
+          <Text style={styles.marksTitle}>Question Marks</Text>
+          <Text style={[styles.marksTotal, totalMarks > fullMarks && { color: BRAND.dangerColor }]}>
+            Total {totalMarks} / {fullMarks}
+          </Text>
+        </View>
+        <MaterialIcons
+          name={showMarksPanel ? 'keyboard-arrow-down' : 'keyboard-arrow-up'}
+          size={26}
+          color={BRAND.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {showMarksPanel && (
+        <ScrollView style={styles.marksList} keyboardShouldPersistTaps="handled">
+          {questionRows.length === 0 && (
+            <Text style={styles.marksHint}>
+              Add a row per question. Without any, saving keeps the annotations as a draft.
+            </Text>
+          )}
+          {sections.length > 0 ? sections.map(section => (
+            <View key={section.name}>
+              <Text style={styles.marksSectionName}>{section.name}</Text>
+              {section.questions.map(question => {
+                const index = questionRows.findIndex(row => row.label === question.label);
+                if (index === -1) return null;
+                return (
+                  <View key={question.label} style={styles.marksRow}>
+                    <Text style={[styles.marksRowPrefix, styles.schemeLabel]}>Q{question.label}</Text>
+                    <TextInput
+                      style={[styles.input, styles.marksInput]}
+                      value={questionRows[index].marks}
+                      onChangeText={marks => updateQuestionRow(index, { marks })}
+                      placeholder="Marks"
+                      placeholderTextColor="#666"
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={styles.maxMarksText}>/ {question.maxMarks}</Text>
+                  </View>
+                );
+              })}
+            </View>
+          )) : questionRows.map((row, index) => (
+            <View key={index} style={styles.marksRow}>
+              <Text style={styles.marksRowPrefix}>Q</Text>
+              <TextInput
+                style={[styles.input, styles.labelInput]}
+                value={row.label}
+                onChangeText={label => updateQuestionRow(index, { label })}
+                placeholder="1(a)"
+                placeholderTextColor="#666"
+                maxLength={20}
+              />
+              <TextInput
+                style={[styles.input, styles.marksInput]}
+                value={row.marks}
+                onChangeText={marks => updateQuestionRow(index, { marks })}
+                placeholder="Marks"
+                placeholderTextColor="#666"
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity style={styles.removeButton} onPress={() => removeQuestionRow(index)}>
+                <MaterialIcons name="remove-circle-outline" size={22} color={BRAND.dangerColor} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.panelActions}>
+        {sections.length > 0 ? (
+          <View />
+        ) : (
+          <TouchableOpacity style={styles.addQuestionButton} onPress={addQuestionRow}>
+            <MaterialIcons name="add" size={18} color={BRAND.primaryColor} />
+            <Text style={styles.addQuestionText}>Add Question</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#000" />
+          ) : (
+            <Text style={styles.saveButtonText}>
+              {questionRows.some(row => row.marks.trim()) ? 'Save Marks' : 'Save Draft'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderCommentModal = () => (
+    <Modal
+      visible={pendingComment !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setPendingComment(null)}
+    >
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>Add Comment</Text>
+          <TextInput
+            style={[styles.input, styles.commentInput]}
+            value={commentInput}
+            onChangeText={setCommentInput}
+            placeholder="e.g. Show the working for this step"
+            placeholderTextColor="#666"
+            maxLength={300}
+            multiline
+            autoFocus
+          />
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.modalCancel} onPress={() => setPendingComment(null)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, !commentInput.trim() && styles.disabledButton]}
+              onPress={handleAddComment}
+              disabled={!commentInput.trim()}
+            >
+              <Text style={styles.saveButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.primaryColor} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{studentName}</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={1}>
+            {grading ? grading.testTitle : 'Answer Sheet'}
+            {grading?.gradedAt ? '  •  Graded' : ''}
+          </Text>
+        </View>
+        {grading?.gradedAt && (
+          <TouchableOpacity style={styles.shareButton} onPress={handleShareChecked} disabled={isSharing}>
+            {isSharing ? (
+              <ActivityIndicator size="small" color={BRAND.primaryColor} />
+            ) : (
+              <MaterialIcons name="share" size={22} color={BRAND.primaryColor} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+          <Text style={styles.messageText}>Loading answer sheet...</Text>
+        </View>
+      ) : grading ? (
+        <>
+          {renderToolbar()}
+          {renderViewer()}
+          {renderMarksPanel()}
+        </>
+      ) : (
+        <View style={styles.centered}>
+          <MaterialIcons name="description" size={48} color="#666" />
+          <Text style={styles.messageText}>This answer sheet is not available</Text>
+        </View>
+      )}
+
+      {renderCommentModal()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'android' ? 40 : 10,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: BRAND.accentColor,
+    marginRight: 15,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.primaryColor,
+    marginTop: 2,
+  },
+  shareButton: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: BRAND.accentColor,
+    marginLeft: 10,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  toolButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+    backgroundColor: BRAND.accentColor,
+  },
+  toolText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: BRAND.textSecondary,
+    marginLeft: 4,
+  },
+  viewer: {
+    flex: 1,
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  viewerLoading: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#111',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  messageText: {
+    fontSize: 15,
+    color: BRAND.textSecondary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: BRAND.primaryColor,
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  marksPanel: {
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    backgroundColor: BRAND.accentColor,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  marksHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  marksTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  marksTotal: {
+    fontSize: 13,
+    color: BRAND.primaryColor,
+    marginTop: 2,
+  },
+  marksList: {
+    maxHeight: 200,
+  },
+  marksHint: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 8,
+  },
+  marksRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  marksRowPrefix: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BRAND.textSecondary,
+    marginRight: 6,
+  },
+  marksSectionName: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+    marginBottom: 6,
+  },
+  schemeLabel: {
+    flex: 1,
+    color: '#fff',
+  },
+  maxMarksText: {
+    width: 50,
+    fontSize: 13,
+    color: BRAND.textSecondary,
+    marginLeft: 8,
+  },
+  input: {
+    backgroundColor: BRAND.backgroundColor,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#fff',
+  },
+  labelInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  marksInput: {
+    width: 90,
+  },
+  removeButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  panelActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  addQuestionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  addQuestionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.primaryColor,
+    marginLeft: 4,
+  },
+  saveButton: {
+    minWidth: 120,
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: BRAND.primaryColor,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContainer: {
+    backgroundColor: BRAND.backgroundColor,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  commentInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  modalCancel: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  modalCancelText: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+  },
+});
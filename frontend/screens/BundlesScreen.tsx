@@ -0,0 +1,378 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ApiError, Bundle, Category, bundlesApi } from '../api';
+import { useAuth } from '../context/AuthContext';
+
+interface BundlesScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+};
+
+const CATEGORY_OPTIONS: { value: Category | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'jee', label: 'JEE' },
+  { value: 'neet', label: 'NEET' },
+  { value: 'boards', label: 'Boards' },
+];
+
+export default function BundlesScreen({ navigation }: BundlesScreenProps) {
+  const { user } = useAuth();
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<Category | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [purchasingId, setPurchasingId] = useState<string | null>(null);
+
+  const fetchBundles = useCallback(async () => {
+    try {
+      const response = await bundlesApi.getBundles(categoryFilter);
+      setBundles(response.data);
+    } catch (error) {
+      console.error('Error fetching bundles:', error);
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load bundles');
+    } finally {
+      setLoading(false);
+    }
+  }, [categoryFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchBundles();
+  }, [fetchBundles]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchBundles();
+    setRefreshing(false);
+  };
+
+  const handleBuy = async (bundle: Bundle) => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to buy this bundle.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign In', onPress: () => navigation.navigate('SignIn') },
+      ]);
+      return;
+    }
+
+    setPurchasingId(bundle._id);
+    try {
+      const response = await bundlesApi.purchaseBundle(bundle._id);
+      navigation.navigate('PaymentScreen', { bundle, razorpayOrder: response.data.razorpayOrder });
+    } catch (error) {
+      console.error('Error purchasing bundle:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to start checkout');
+    } finally {
+      setPurchasingId(null);
+    }
+  };
+
+  const renderItemLine = (key: string, icon: keyof typeof MaterialIcons.glyphMap, title: string) => (
+    <View key={key} style={styles.itemRow}>
+      <MaterialIcons name={icon} size={16} color={BRAND.primaryColor} />
+      <Text style={styles.itemText} numberOfLines={1}>{title}</Text>
+    </View>
+  );
+
+  const renderBundle = ({ item }: { item: Bundle }) => {
+    const saving = Math.round(item.itemsValue - item.price);
+    const purchasing = purchasingId === item._id;
+
+    return (
+      <View style={styles.bundleCard}>
+        <View style={styles.bundleHeader}>
+          <Text style={styles.bundleTitle}>{item.bundleTitle}</Text>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{item.category.toUpperCase()}</Text>
+          </View>
+        </View>
+        {!!item.description && <Text style={styles.bundleDescription}>{item.description}</Text>}
+
+        <View style={styles.itemList}>
+          {item.courses.map((course) => renderItemLine(course._id, 'play-circle-outline', course.courseTitle))}
+          {item.notes.map((notes) => renderItemLine(notes._id, 'description', notes.notesTitle))}
+          {item.materials.map((material) => renderItemLine(material._id, 'inventory-2', material.materialTitle))}
+        </View>
+
+        <View style={styles.priceRow}>
+          <Text style={styles.priceText}>₹{item.price}</Text>
+          {saving > 0 && (
+            <>
+              <Text style={styles.originalPrice}>₹{item.itemsValue}</Text>
+              <Text style={styles.savingText}>Save ₹{saving}</Text>
+            </>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.buyButton, purchasing && styles.buyButtonDisabled]}
+          onPress={() => handleBuy(item)}
+          disabled={purchasingId !== null}
+          activeOpacity={0.8}
+        >
+          {purchasing ? (
+            <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+          ) : (
+            <Text style={styles.buyButtonText}>Buy Bundle</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Course Bundles</Text>
+          <Text style={styles.headerSubtitle}>Course, notes and materials together</Text>
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <View style={styles.chipRow}>
+          {CATEGORY_OPTIONS.map((option) => {
+            const selected = categoryFilter === option.value;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setCategoryFilter(option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={bundles}
+          keyExtractor={(item) => item._id}
+          renderItem={renderBundle}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="inventory" size={56} color="#666" />
+              <Text style={styles.emptyText}>No bundles available</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  bundleCard: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 15,
+    padding: 16,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+  },
+  bundleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  bundleTitle: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+    marginRight: 10,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 255, 136, 0.15)',
+  },
+  badgeText: {
+    color: BRAND.primaryColor,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  bundleDescription: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    marginTop: 6,
+  },
+  itemList: {
+    marginTop: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  itemText: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    marginTop: 10,
+  },
+  priceText: {
+    color: BRAND.primaryColor,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  originalPrice: {
+    color: '#888888',
+    fontSize: 15,
+    textDecorationLine: 'line-through',
+    marginLeft: 10,
+  },
+  savingText: {
+    color: '#FF9800',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 10,
+  },
+  buyButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 14,
+  },
+  buyButtonDisabled: {
+    opacity: 0.7,
+  },
+  buyButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
@@ -12,52 +12,37 @@ import {
   RefreshControl,
   Alert,
   ActivityIndicator,
+  Linking,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { WebView } from 'react-native-webview';
-import { API_BASE } from '../config/api';
-
-// Define the RootStackParamList type
-export type RootStackParamList = {
-  Intro: undefined;
-  Home: undefined;
-  UserProfile: undefined;
-  SignIn: undefined;
-  SignUp: undefined;
-  TeacherDashboard: undefined;
-  AdminDashboard: undefined;
-  AdminAddUnpaidCourseScreen: undefined;
-  AdminAddPaidCourseScreen: undefined;
-  AllCoursesScreen: undefined;
-  AdminPaidNotesScreen: undefined;
-  AdminUnpaidNotesScreen: undefined;
-  AdminPaidMaterialsScreen: undefined;
-  AllNotesScreen: undefined;
-  CourseDetails: { courseId: string };
-  CourseContent: { courseId: string; enrollmentId?: string };
-};
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { RootStackParamList } from '../App';
+import {
+  ApiError,
+  Course as ApiCourse,
+  CourseVideo,
+  Enrollment,
+  LectureResource,
+  enrollmentApi,
+  getSession,
+  paidCoursesApi,
+  unpaidCoursesApi,
+} from '../api';
 
 interface CourseContentScreenProps {
   navigation: NavigationProp<RootStackParamList, 'CourseContent'>;
   route: RouteProp<RootStackParamList, 'CourseContent'>;
 }
 
-interface VideoItem {
-  _id?: string;
-  videoTitle: string;
-  videoDescription: string;
-  videoLink: string;
-  duration: string;
-  thumbnail?: string;
-}
-
-interface Course {
-  _id: string;
-  courseTitle: string;
-  tutor: string;
-  videoLinks: VideoItem[];
+type Course = Pick<ApiCourse, '_id' | 'courseTitle' | 'tutor' | 'chapters' | 'videoLinks'> & {
   type: 'paid' | 'free';
+};
+
+// Lectures under one chapter; index is the position in videoLinks, which drives playback order
+interface ChapterGroup {
+  key: string;
+  title: string;
+  videos: { video: CourseVideo; index: number }[];
 }
 
 interface UserData {
@@ -79,6 +64,25 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
+// Lectures not placed in a chapter are shown together after the chapters
+const UNGROUPED_KEY = 'ungrouped';
+
+const getChapterGroups = (course: Course): ChapterGroup[] => {
+  const groups: ChapterGroup[] = (course.chapters || []).map(chapter => ({
+    key: chapter._id,
+    title: chapter.title,
+    videos: [],
+  }));
+  const ungrouped: ChapterGroup = { key: UNGROUPED_KEY, title: 'More Lectures', videos: [] };
+
+  course.videoLinks.forEach((video, index) => {
+    const group = groups.find(item => item.key === video.chapterId) || ungrouped;
+    group.videos.push({ video, index });
+  });
+
+  return ungrouped.videos.length > 0 ? [...groups, ungrouped] : groups;
+};
+
 const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, route }) => {
   const { courseId, enrollmentId } = route.params;
 
@@ -87,13 +91,17 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [userData, setUserData] = useState<UserData | null>(null);
-  const [selectedVideo, setSelectedVideo] = useState<VideoItem | null>(null);
+  const [selectedVideo, setSelectedVideo] = useState<CourseVideo | null>(null);
   const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
   const [videoLoading, setVideoLoading] = useState(false);
   const [videoError, setVideoError] = useState(false);
   const [videoProgress, setVideoProgress] = useState<{[key: string]: number}>({});
+  const [resumePositions, setResumePositions] = useState<{[key: string]: number}>({});
   const [webViewKey, setWebViewKey] = useState(0);
   const [preloadedHtml, setPreloadedHtml] = useState<{[key: string]: string}>({});
+  const [playerHtml, setPlayerHtml] = useState('');
+  const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [expandedChapters, setExpandedChapters] = useState<{[key: string]: boolean}>({});
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -102,37 +110,19 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
   const glowOpacity = useRef(new Animated.Value(0)).current;
   const webViewRef = useRef<WebView>(null);
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Authentication check
   const checkAuthStatus = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
-        };
-        
-        setUserData(userDataObj);
+      if (session) {
+        setUserData({
+          id: session.userId,
+          name: session.userName,
+          email: session.email || '',
+          token: session.token,
+          role: session.role
+        });
         return true;
       }
       return false;
@@ -155,49 +145,56 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
         return;
       }
 
-      // Fetch course details
-      let response = await fetch(`${API_BASE_URL}/paidCourses/${courseId}`, {
-        headers: {
-          'Authorization': `Bearer ${userData?.token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      let courseData = null;
-      let courseType = 'paid';
-
-      if (response.ok) {
-        const text = await response.text();
-        courseData = JSON.parse(text);
-      } else {
-        // Try unpaid courses
-        response = await fetch(`${API_BASE_URL}/unpaidCourses/${courseId}`, {
-          headers: {
-            'Authorization': `Bearer ${userData?.token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        
-        if (response.ok) {
-          const text = await response.text();
-          courseData = JSON.parse(text);
-          courseType = 'free';
+      // Fetch course content, falling back to the free catalogue. The server refuses a paid
+      // course's content without a valid enrollment; the public course then serves as a
+      // preview where only the free preview videos have links.
+      let courseType: Course['type'] = 'paid';
+      let previewOnly = false;
+      let response;
+      try {
+        try {
+          response = await paidCoursesApi.getCourseContent(courseId);
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.status !== 403) {
+            throw error;
+          }
+          response = await paidCoursesApi.getCourseById(courseId);
+          previewOnly = true;
+        }
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 404) {
+          throw error;
         }
+        response = await unpaidCoursesApi.getCourseById(courseId);
+        courseType = 'free';
+        previewOnly = false;
       }
 
-      if (courseData) {
-        const course = courseData.data || courseData;
-        setCourse({ ...course, type: courseType });
-        
-        // Set first video as selected if available
-        if (course.videoLinks && course.videoLinks.length > 0) {
-          setSelectedVideo(course.videoLinks[0]);
-          setCurrentVideoIndex(0);
-          // Preload first few videos
-          preloadVideos(course.videoLinks);
+      const course = response.data;
+      setCourse({ ...course, type: courseType });
+      setIsPreviewMode(previewOnly);
+
+      // Saved progress, so each video resumes where it was left
+      let positions: {[key: string]: number} = {};
+      if (enrollmentId && !previewOnly) {
+        try {
+          const { enrollment } = await enrollmentApi.getEnrollment(enrollmentId);
+          positions = applyProgress(enrollment.progress);
+        } catch (error) {
+          console.warn('Failed to load video progress:', error);
         }
-      } else {
-        throw new Error('Course not found');
+      }
+      
+      // Select the first video that can be played
+      const firstIndex = (course.videoLinks || []).findIndex((video: CourseVideo) => !video.isLocked);
+      if (firstIndex !== -1) {
+        const firstVideo = course.videoLinks[firstIndex];
+        setSelectedVideo(firstVideo);
+        setCurrentVideoIndex(firstIndex);
+        setExpandedChapters({ [firstVideo.chapterId || UNGROUPED_KEY]: true });
+        setPlayerHtml(generateVideoHTML(firstVideo.videoLink, firstVideo.videoTitle, positions[firstVideo._id] || 0));
+        // Preload first few videos
+        preloadVideos(course.videoLinks, positions);
       }
       
     } catch (error) {
@@ -229,8 +226,29 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
     return null;
   };
 
-  // Ultra-optimized HTML generation for lightning-fast loading
-  const generateVideoHTML = (videoUrl: string, title: string) => {
+  // Progress bars and resume points from the enrollment's saved progress
+  const applyProgress = (progress: Enrollment['progress']) => {
+    const fractions: {[key: string]: number} = {};
+    const positions: {[key: string]: number} = {};
+
+    (progress.videoProgress || []).forEach((entry) => {
+      fractions[entry.videoId] = entry.duration ? Math.min(entry.watchTime / entry.duration, 1) : 0;
+      // A video left at its very end starts over next time
+      positions[entry.videoId] = entry.duration && entry.lastPosition >= entry.duration * 0.95 ? 0 : entry.lastPosition;
+    });
+    progress.completedVideos.forEach((video) => {
+      fractions[video.videoId] = 1;
+    });
+
+    setVideoProgress(fractions);
+    setResumePositions(positions);
+    return positions;
+  };
+
+  // Ultra-optimized HTML generation for lightning-fast loading.
+  // The page reports { type: 'progress' | 'ended', position, duration } (seconds) through
+  // postMessage every few seconds while playing, on pause and when the video ends.
+  const generateVideoHTML = (videoUrl: string, title: string, startAt = 0) => {
     const videoId = getVideoId(videoUrl);
     
     if (!videoId) {
@@ -341,7 +359,7 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
             <div class="video-wrapper">
               <iframe 
                 id="youtube-player"
-                src="https://www.youtube.com/embed/${videoId}?autoplay=1&mute=0&controls=1&showinfo=0&rel=0&modestbranding=1&playsinline=1&enablejsapi=1&origin=https://www.youtube.com"
+                src="https://www.youtube.com/embed/${videoId}?autoplay=1&mute=0&controls=1&showinfo=0&rel=0&modestbranding=1&playsinline=1&enablejsapi=1&start=${Math.floor(startAt)}&origin=https://www.youtube.com"
                 frameborder="0"
                 allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
                 allowfullscreen
@@ -375,20 +393,52 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
             // Prevent context menu and text selection for cleaner UX
             document.addEventListener('contextmenu', e => e.preventDefault());
             document.addEventListener('selectstart', e => e.preventDefault());
+
+            // Player events go back to the app for progress tracking
+            var player = null;
+            var reportTimer = null;
+
+            function report(type) {
+              if (!player || !player.getCurrentTime || !window.ReactNativeWebView) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: type,
+                position: player.getCurrentTime(),
+                duration: player.getDuration()
+              }));
+            }
+
+            function onYouTubeIframeAPIReady() {
+              player = new YT.Player('youtube-player', {
+                events: {
+                  onStateChange: function(event) {
+                    clearInterval(reportTimer);
+                    if (event.data === YT.PlayerState.PLAYING) {
+                      reportTimer = setInterval(function() { report('progress'); }, 10000);
+                    } else if (event.data === YT.PlayerState.PAUSED) {
+                      report('progress');
+                    } else if (event.data === YT.PlayerState.ENDED) {
+                      report('ended');
+                    }
+                  }
+                }
+              });
+            }
           </script>
+          <script src="https://www.youtube.com/iframe_api"></script>
         </body>
       </html>
     `;
   };
 
   // Preload videos for instant switching
-  const preloadVideos = (videos: VideoItem[]) => {
+  const preloadVideos = (videos: CourseVideo[], positions: {[key: string]: number}) => {
     const preloaded: {[key: string]: string} = {};
     
     // Preload first 5 videos for instant access
     videos.slice(0, 5).forEach((video, index) => {
       if (video.videoLink) {
-        preloaded[video._id || index.toString()] = generateVideoHTML(video.videoLink, video.videoTitle);
+        const videoKey = video._id || index.toString();
+        preloaded[videoKey] = generateVideoHTML(video.videoLink, video.videoTitle, positions[videoKey] || 0);
       }
     });
     
@@ -401,8 +451,8 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
       const nextVideo = course.videoLinks[currentVideoIndex + 1];
       const nextVideoId = nextVideo._id || (currentVideoIndex + 1).toString();
       
-      if (!preloadedHtml[nextVideoId]) {
-        const nextVideoHTML = generateVideoHTML(nextVideo.videoLink, nextVideo.videoTitle);
+      if (nextVideo.videoLink && !preloadedHtml[nextVideoId]) {
+        const nextVideoHTML = generateVideoHTML(nextVideo.videoLink, nextVideo.videoTitle, resumePositions[nextVideoId] || 0);
         setPreloadedHtml(prev => ({
           ...prev,
           [nextVideoId]: nextVideoHTML
@@ -412,23 +462,36 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
   };
 
   // Lightning-fast video selection
-  const handleVideoSelect = (video: VideoItem, index: number) => {
+  const handleVideoSelect = (video: CourseVideo, index: number) => {
+    if (video.isLocked) {
+      Alert.alert(
+        'Enroll to Watch',
+        'This video is part of the full course. Enroll to unlock every video.',
+        [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'View Course', onPress: () => navigation.navigate('CourseDetails', { courseId }) },
+        ]
+      );
+      return;
+    }
+
     setSelectedVideo(video);
     setCurrentVideoIndex(index);
+    setExpandedChapters(prev => ({ ...prev, [video.chapterId || UNGROUPED_KEY]: true }));
     setVideoError(false);
     setVideoLoading(false);
+
+    // Videos watched this session resume from their latest position rather than the preload
+    const videoKey = video._id || index.toString();
+    setPlayerHtml(
+      resumePositions[videoKey] || !preloadedHtml[videoKey]
+        ? generateVideoHTML(video.videoLink, video.videoTitle, resumePositions[videoKey] || 0)
+        : preloadedHtml[videoKey]
+    );
     
     // Instant WebView reload
     setWebViewKey(prev => prev + 1);
     
-    // Save progress for previous video
-    if (selectedVideo && selectedVideo._id) {
-      setVideoProgress(prev => ({
-        ...prev,
-        [selectedVideo._id!]: 0.5
-      }));
-    }
-    
     // Preload next video immediately
     setTimeout(preloadNextVideo, 100);
   };
@@ -445,16 +508,26 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
     navigation.goBack();
   };
 
-  // Navigation controls
+  // Navigation controls; locked videos are skipped in preview mode
+  const findPlayableIndex = (step: 1 | -1) => {
+    if (!course) return -1;
+    for (let index = currentVideoIndex + step; index >= 0 && index < course.videoLinks.length; index += step) {
+      if (!course.videoLinks[index].isLocked) return index;
+    }
+    return -1;
+  };
+
   const handlePreviousVideo = () => {
-    if (currentVideoIndex > 0 && course) {
-      handleVideoSelect(course.videoLinks[currentVideoIndex - 1], currentVideoIndex - 1);
+    const index = findPlayableIndex(-1);
+    if (index !== -1 && course) {
+      handleVideoSelect(course.videoLinks[index], index);
     }
   };
 
   const handleNextVideo = () => {
-    if (course && currentVideoIndex < course.videoLinks.length - 1) {
-      handleVideoSelect(course.videoLinks[currentVideoIndex + 1], currentVideoIndex + 1);
+    const index = findPlayableIndex(1);
+    if (index !== -1 && course) {
+      handleVideoSelect(course.videoLinks[index], index);
     }
   };
 
@@ -469,18 +542,33 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
     setVideoLoading(false);
   };
 
-  // Get current video HTML (preloaded if available)
-  const getCurrentVideoHTML = () => {
-    if (!selectedVideo) return '';
-    
-    const videoId = selectedVideo._id || currentVideoIndex.toString();
-    const preloadedHTML = preloadedHtml[videoId];
-    
-    if (preloadedHTML) {
-      return preloadedHTML;
+  // Save a position reported by the player. Staff and previews have no enrollment, so
+  // they only get a resume point for this session.
+  const reportProgress = async (videoId: string, position: number, duration: number) => {
+    setResumePositions(prev => ({ ...prev, [videoId]: position }));
+    if (!enrollmentId || isPreviewMode) return;
+
+    try {
+      const { progress } = await enrollmentApi.updateProgress(enrollmentId, { videoId, position, duration });
+      applyProgress(progress);
+    } catch (error) {
+      console.warn('Failed to save video progress:', error);
     }
-    
-    return generateVideoHTML(selectedVideo.videoLink, selectedVideo.videoTitle);
+  };
+
+  const handlePlayerMessage = (event: WebViewMessageEvent) => {
+    let message: { type?: string; position?: number; duration?: number };
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+
+    const videoId = selectedVideo?._id;
+    if (!videoId || typeof message.position !== 'number') return;
+
+    const duration = message.duration || 0;
+    reportProgress(videoId, message.type === 'ended' && duration ? duration : message.position, duration);
   };
 
   // Initial effects
@@ -531,8 +619,26 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
     }, 600);
   };
 
+  const toggleChapter = (key: string) => {
+    setExpandedChapters(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  // Attached PDFs open in the browser; the server checks the enrollment again
+  const handleResourcePress = async (resource: LectureResource) => {
+    if (!course || !selectedVideo?._id || !userData) return;
+
+    const api = course.type === 'paid' ? paidCoursesApi : unpaidCoursesApi;
+    const url = api.getResourcePdfUrl(course._id, selectedVideo._id, resource._id, userData.token);
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('Error opening resource:', error);
+      Alert.alert('Error', 'Could not open this PDF');
+    }
+  };
+
   // Optimized video item rendering
-  const renderVideoItem = (video: VideoItem, index: number) => {
+  const renderVideoItem = (video: CourseVideo, index: number) => {
     const isSelected = selectedVideo?._id === video._id || (selectedVideo?.videoTitle === video.videoTitle && index === currentVideoIndex);
     const progressForVideo = video._id ? (videoProgress[video._id] || 0) : 0;
     
@@ -545,7 +651,7 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
       >
         <View style={styles.videoIcon}>
           <Text style={styles.videoIconText}>
-            {isSelected ? '🎬' : '▶️'}
+            {video.isLocked ? '🔒' : isSelected ? '🎬' : progressForVideo >= 1 ? '✅' : '▶️'}
           </Text>
         </View>
         <View style={styles.videoInfo}>
@@ -556,6 +662,9 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
             <Text style={[styles.videoDuration, isSelected && styles.videoDurationSelected]}>
               {video.duration}
             </Text>
+            {isPreviewMode && video.isPreview && (
+              <Text style={styles.previewBadge}>FREE PREVIEW</Text>
+            )}
             {progressForVideo > 0 && (
               <View style={styles.progressContainer}>
                 <View style={[styles.progressBar, { width: `${progressForVideo * 100}%` }]} />
@@ -572,6 +681,27 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
     );
   };
 
+  const renderChapterGroup = (group: ChapterGroup) => {
+    const isExpanded = !!expandedChapters[group.key];
+    const completed = group.videos.filter(({ video }) => video._id && (videoProgress[video._id] || 0) >= 1).length;
+
+    return (
+      <View key={group.key} style={styles.chapterGroup}>
+        <TouchableOpacity style={styles.chapterHeader} onPress={() => toggleChapter(group.key)} activeOpacity={0.8}>
+          <View style={styles.chapterInfo}>
+            <Text style={styles.chapterTitle} numberOfLines={2}>{group.title}</Text>
+            <Text style={styles.chapterMeta}>
+              {group.videos.length} {group.videos.length === 1 ? 'lecture' : 'lectures'}
+              {completed > 0 ? ` • ${completed} completed` : ''}
+            </Text>
+          </View>
+          <Text style={styles.chapterChevron}>{isExpanded ? '▾' : '▸'}</Text>
+        </TouchableOpacity>
+        {isExpanded && group.videos.map(({ video, index }) => renderVideoItem(video, index))}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -644,7 +774,7 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
               {course.courseTitle}
             </Text>
             <Text style={styles.headerSubtitle}>
-              {course.videoLinks.length} Videos • {course.tutor}
+              {isPreviewMode ? 'Free Preview • ' : ''}{course.videoLinks.length} Videos • {course.tutor}
             </Text>
           </View>
         </View>
@@ -674,11 +804,12 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
                   key={webViewKey}
                   ref={webViewRef}
                   source={{ 
-                    html: getCurrentVideoHTML()
+                    html: playerHtml
                   }}
                   style={styles.webView}
                   onLoad={onWebViewLoad}
                   onError={onWebViewError}
+                  onMessage={handlePlayerMessage}
                   allowsFullscreenVideo={true}
                   allowsInlineMediaPlayback={true}
                   mediaPlaybackRequiresUserAction={false}
@@ -704,9 +835,9 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
             {/* Video Navigation Controls */}
             <View style={styles.videoNavigationControls}>
               <TouchableOpacity
-                style={[styles.navButton, currentVideoIndex === 0 && styles.navButtonDisabled]}
+                style={[styles.navButton, findPlayableIndex(-1) === -1 && styles.navButtonDisabled]}
                 onPress={handlePreviousVideo}
-                disabled={currentVideoIndex === 0}
+                disabled={findPlayableIndex(-1) === -1}
               >
                 <Text style={styles.navButtonText}>⏮️ Previous</Text>
               </TouchableOpacity>
@@ -723,10 +854,10 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
               <TouchableOpacity
                 style={[
                   styles.navButton,
-                  currentVideoIndex === course.videoLinks.length - 1 && styles.navButtonDisabled
+                  findPlayableIndex(1) === -1 && styles.navButtonDisabled
                 ]}
                 onPress={handleNextVideo}
-                disabled={currentVideoIndex === course.videoLinks.length - 1}
+                disabled={findPlayableIndex(1) === -1}
               >
                 <Text style={styles.navButtonText}>Next ⏭️</Text>
               </TouchableOpacity>
@@ -755,8 +886,28 @@ const CourseContentScreen: React.FC<CourseContentScreenProps> = ({ navigation, r
               </Text>
             </View>
             
+            {!isPreviewMode && selectedVideo?.resources && selectedVideo.resources.length > 0 && (
+              <View style={styles.resourcesContainer}>
+                <Text style={styles.resourcesTitle}>Lecture Resources</Text>
+                {selectedVideo.resources.map(resource => (
+                  <TouchableOpacity
+                    key={resource._id}
+                    style={styles.resourceItem}
+                    onPress={() => handleResourcePress(resource)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.resourceIcon}>{resource.itemType === 'DPP' ? '📝' : '📄'}</Text>
+                    <Text style={styles.resourceTitle} numberOfLines={1}>{resource.title}</Text>
+                    <Text style={styles.resourceType}>{resource.itemType === 'DPP' ? 'DPP' : 'PDF'}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
             <View style={styles.videoList}>
-              {course.videoLinks.map((video, index) => renderVideoItem(video, index))}
+              {course.chapters && course.chapters.length > 0
+                ? getChapterGroups(course).map(renderChapterGroup)
+                : course.videoLinks.map((video, index) => renderVideoItem(video, index))}
             </View>
             
             <View style={styles.bottomPadding} />
@@ -936,6 +1087,70 @@ const styles = StyleSheet.create({
   videoList: {
     paddingHorizontal: 20,
   },
+  chapterGroup: {
+    marginBottom: 10,
+  },
+  chapterHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.3)',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+  },
+  chapterInfo: {
+    flex: 1,
+  },
+  chapterTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  chapterMeta: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  chapterChevron: {
+    color: BRAND.primaryColor,
+    fontSize: 18,
+    marginLeft: 10,
+  },
+  resourcesContainer: {
+    paddingHorizontal: 20,
+    marginBottom: 15,
+  },
+  resourcesTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  resourceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  resourceIcon: {
+    fontSize: 18,
+    marginRight: 10,
+  },
+  resourceTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  resourceType: {
+    color: BRAND.primaryColor,
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
   videoItem: {
     flexDirection: 'row',
     backgroundColor: BRAND.accentColor,
@@ -985,6 +1200,12 @@ const styles = StyleSheet.create({
     color: '#000',
     opacity: 0.7,
   },
+  previewBadge: {
+    color: BRAND.primaryColor,
+    fontSize: 10,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   progressContainer: {
     width: 80,
     height: 3,
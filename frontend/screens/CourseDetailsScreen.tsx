@@ -14,8 +14,17 @@ import {
   Alert,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
+import {
+  API_BASE,
+  ApiError,
+  Course as ApiCourse,
+  Enrollment,
+  Session,
+  enrollmentApi,
+  getSession,
+  paidCoursesApi,
+  unpaidCoursesApi,
+} from '../api';
 import SignupLoginBanner from '../components/SignupLoginBanner';
 
 interface CourseDetailsScreenProps {
@@ -23,39 +32,7 @@ interface CourseDetailsScreenProps {
   route: RouteProp<any>;
 }
 
-interface Course {
-  _id: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: Array<{
-    _id?: string;
-    videoTitle: string;
-    videoDescription: string;
-    videoLink: string;
-    duration: string;
-  }>;
-  courseThumbnail: string;
-  totalEnrolledStudents?: number;
-  studentsEnrolled: Array<any>;
-  isActive: boolean;
-  type: 'paid' | 'free';
-}
-
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  token: string;
-  role?: string;
-}
+type Course = ApiCourse & { type: 'paid' | 'free' };
 
 const { width, height } = Dimensions.get('window');
 
@@ -77,10 +54,10 @@ const CourseDetailsScreen: React.FC<CourseDetailsScreenProps> = ({ navigation, r
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [enrolling, setEnrolling] = useState(false);
-  const [userData, setUserData] = useState<UserData | null>(null);
+  const [userData, setUserData] = useState<Session | null>(null);
   const [showLoginBanner, setShowLoginBanner] = useState(false);
   const [isEnrolled, setIsEnrolled] = useState(false);
-  const [enrollmentData, setEnrollmentData] = useState<any>(null);
+  const [enrollmentData, setEnrollmentData] = useState<Enrollment | null>(null);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
 
   // Animation refs
@@ -89,63 +66,26 @@ const CourseDetailsScreen: React.FC<CourseDetailsScreenProps> = ({ navigation, r
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Updated authentication check to match UserProfileScreen pattern
   const checkAuthStatus = async () => {
     try {
       console.log('Checking auth status...');
       
-      // Updated to use storage keys from SignIn screen (matching UserProfileScreen)
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      console.log('Auth data found:', { 
-        hasToken: !!token, 
-        userRole, 
-        userId, 
-        userName,
-        hasStoredData: !!storedUserData
-      });
-      
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        // Try to get detailed user data from storage first
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        // Create user data object with available information
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
-        };
-        
-        console.log('Setting user data:', userDataObj);
-        setUserData(userDataObj);
+      if (session) {
+        setUserData(session);
         setIsLoggedIn(true);
-        return true;
+        return session;
       } else {
         console.log('No auth data found, user not logged in');
         setIsLoggedIn(false);
-        return false;
+        return null;
       }
     } catch (error) {
       console.error('Auth check error:', error);
       setIsLoggedIn(false);
-      return false;
+      return null;
     }
   };
 
@@ -153,25 +93,10 @@ const checkEnrollmentStatus = async () => {
   if (!userData || !courseId) return;
 
   try {
-    console.log('Checking enrollment status for course:', courseId);
-    const response = await fetch(`${API_BASE_URL}/enrollment/access/${courseId}`, {
-      headers: {
-        'Authorization': `Bearer ${userData.token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      console.log('Enrollment status:', data);
-      // Only consider enrolled status as having access
-      setIsEnrolled(data.hasAccess && data.enrollment?.enrollmentStatus === 'enrolled');
-      setEnrollmentData(data.enrollment);
-    } else {
-      console.log('Enrollment check failed:', response.status);
-      setIsEnrolled(false);
-      setEnrollmentData(null);
-    }
+    const data = await enrollmentApi.checkCourseAccess(courseId);
+    // Only consider enrolled status as having access
+    setIsEnrolled(data.hasAccess && data.enrollment?.enrollmentStatus === 'enrolled');
+    setEnrollmentData(data.enrollment);
   } catch (error) {
     console.error('Enrollment check error:', error);
     setIsEnrolled(false);
@@ -185,30 +110,17 @@ const checkEnrollmentStatus = async () => {
       setLoading(true);
       
       // Try fetching from paid courses first
-      let response = await fetch(`${API_BASE_URL}/paidCourses/${courseId}`);
-      let courseData = null;
-      let courseType = 'paid';
-
-      if (response.ok) {
-        const text = await response.text();
-        courseData = JSON.parse(text);
-      } else {
+      let courseData: Course;
+      try {
+        const response = await paidCoursesApi.getCourseById(courseId);
+        courseData = { ...response.data, type: 'paid' };
+      } catch (error) {
         // If not found in paid courses, try unpaid courses
-        response = await fetch(`${API_BASE_URL}/unpaidCourses/${courseId}`);
-        if (response.ok) {
-          const text = await response.text();
-          courseData = JSON.parse(text);
-          courseType = 'free';
-        }
-      }
-
-      if (courseData) {
-        // Handle different response formats
-        const course = courseData.data || courseData;
-        setCourse({ ...course, type: courseType });
-      } else {
-        throw new Error('Course not found');
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+        const response = await unpaidCoursesApi.getCourseById(courseId);
+        courseData = { ...response.data, type: 'free' };
       }
+      setCourse(courseData);
       
     } catch (error) {
       console.error('Error fetching course details:', error);
@@ -226,10 +138,9 @@ const checkEnrollmentStatus = async () => {
     console.log('Current auth state:', { isLoggedIn, userData: !!userData });
 
     // Check if user is authenticated
-    const isAuthenticated = await checkAuthStatus();
-    console.log('Authentication result:', isAuthenticated);
+    const session = await checkAuthStatus();
     
-    if (!isAuthenticated || !userData) {
+    if (!session) {
       console.log('User not authenticated, showing login banner');
       setShowLoginBanner(true);
       return;
@@ -256,6 +167,53 @@ const checkEnrollmentStatus = async () => {
       return;
     }
 
+    // An overdue installment pauses access; it is paid from My Content
+    if (enrollmentData?.isSuspended) {
+      Alert.alert(
+        'Installment Overdue',
+        'Your access to this course is paused until the overdue installment is paid.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Go to My Content', onPress: () => navigation.navigate('MyContent') },
+        ]
+      );
+      return;
+    }
+
+    // Expired access is renewed from My Content rather than by enrolling again
+    if (enrollmentData?.expiresAt && new Date(enrollmentData.expiresAt) <= new Date()) {
+      Alert.alert(
+        'Access Expired',
+        'Your access to this course has expired. You can renew it from My Content.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Go to My Content', onPress: () => navigation.navigate('MyContent') },
+        ]
+      );
+      return;
+    }
+
+    // Courses with an installment plan let the student choose how to pay
+    if (course.type === 'paid' && course.installmentPlan?.enabled) {
+      const { installments } = course.installmentPlan;
+      Alert.alert(
+        'Choose Payment Plan',
+        `Pay ₹${course.price} now, or in ${installments} installments of about ₹${Math.ceil(course.price / installments)}.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: `${installments} Installments`, onPress: () => startEnrollment('installments') },
+          { text: 'Pay in Full', onPress: () => startEnrollment('full') },
+        ]
+      );
+      return;
+    }
+
+    await startEnrollment('full');
+  };
+
+  const startEnrollment = async (paymentPlan: 'full' | 'installments') => {
+    if (!course) return;
+
     try {
       setEnrolling(true);
       console.log('Starting enrollment process...');
@@ -264,25 +222,15 @@ const checkEnrollmentStatus = async () => {
         courseId: course._id,
         courseType: course.type === 'paid' ? 'PaidCourse' : 'UnpaidCourse',
         mode: 'online',
-        schedule: 'flexible'
-      };
+        schedule: 'flexible',
+        paymentPlan
+      } as const;
 
       console.log('Enrollment payload:', enrollmentPayload);
-      console.log('Using token:', userData.token);
 
-      const response = await fetch(`${API_BASE_URL}/enrollment/enroll`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${userData.token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(enrollmentPayload),
-      });
+      const data = await enrollmentApi.enroll(enrollmentPayload);
 
-      const data = await response.json();
-      console.log('Enrollment response:', { status: response.status, data });
-
-      if (response.ok) {
+      if (data.success) {
         if (course.type === 'free' || course.price === 0) {
           // Free course - enrollment completed
           setIsEnrolled(true);
@@ -308,24 +256,11 @@ const checkEnrollmentStatus = async () => {
           handlePayment(data.enrollment, data.razorpayOrder);
         }
       } else {
-        if (response.status === 401) {
-          // Token expired or invalid
-          console.log('Token expired, clearing auth data');
-          await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName', 'userData']);
-          setIsLoggedIn(false);
-          setUserData(null);
-          setShowLoginBanner(true);
-          Alert.alert(
-            'Session Expired',
-            'Your session has expired. Please sign in again.',
-            [{ text: 'OK' }]
-          );
-          return;
-        }
         throw new Error(data.message || 'Enrollment failed');
       }
     } catch (error) {
       console.error('Error enrolling in course:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
       const errorMessage = (error instanceof Error && error.message) ? error.message : 'Failed to enroll in course. Please try again.';
       Alert.alert('Error', errorMessage);
     } finally {
@@ -335,10 +270,17 @@ const checkEnrollmentStatus = async () => {
 
   // Handle payment process
   const handlePayment = (enrollment: any, razorpayOrder: any) => {
+    // Installment plans charge the first installment now
+    const installment = enrollment.paymentPlan === 'installments'
+      ? { number: 1, count: enrollment.installments.length }
+      : undefined;
+
     // This would integrate with Razorpay SDK
     Alert.alert(
       'Payment Required',
-      `This course costs ₹${course?.price}. You will be redirected to the payment gateway.`,
+      installment
+        ? `The first of ${installment.count} installments is ₹${razorpayOrder.amount / 100}. You will be redirected to the payment gateway.`
+        : `This course costs ₹${course?.price}. You will be redirected to the payment gateway.`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
@@ -349,7 +291,7 @@ const checkEnrollmentStatus = async () => {
               enrollment: enrollment,
               razorpayOrder: razorpayOrder,
               course: course,
-              onPaymentSuccess: handlePaymentSuccess
+              installment,
             });
           }
         }
@@ -357,53 +299,6 @@ const checkEnrollmentStatus = async () => {
     );
   };
 
-  // Handle successful payment
-  const handlePaymentSuccess = async (paymentData: any) => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/enrollment/verify-payment`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${userData?.token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          enrollmentId: paymentData.enrollmentId,
-          razorpay_order_id: paymentData.razorpay_order_id,
-          razorpay_payment_id: paymentData.razorpay_payment_id,
-          razorpay_signature: paymentData.razorpay_signature,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        setIsEnrolled(true);
-        setEnrollmentData(data.enrollment);
-        
-        Alert.alert(
-          'Payment Successful!',
-          'Your payment has been verified and you are now enrolled in the course.',
-          [
-            {
-              text: 'Start Learning',
-              onPress: () => {
-                navigation.navigate('CourseContent', { 
-                  courseId: course?._id,
-                  enrollmentId: data.enrollment._id
-                });
-              },
-            },
-          ]
-        );
-      } else {
-        throw new Error(data.message || 'Payment verification failed');
-      }
-    } catch (error) {
-      console.error('Payment verification error:', error);
-      Alert.alert('Error', 'Payment verification failed. Please contact support.');
-    }
-  };
-
   // Handle refresh
   const onRefresh = async () => {
     setRefreshing(true);
@@ -425,7 +320,7 @@ const checkEnrollmentStatus = async () => {
   };
 
   // Helper function to get proper image source
-  const getImageSource = (thumbnailPath: string) => {
+  const getImageSource = (thumbnailPath?: string) => {
     if (!thumbnailPath) {
       return { uri: 'https://via.placeholder.com/350x200/1a2e1a/00ff88?text=No+Image' };
     }
@@ -517,26 +412,49 @@ const checkEnrollmentStatus = async () => {
     }, 600);
   };
 
-  const renderVideoItem = (video: any, index: number) => (
-    <View key={video._id || index} style={styles.videoItem}>
-      <View style={styles.videoIcon}>
-        <Text style={styles.videoIconText}>▶️</Text>
-      </View>
-      <View style={styles.videoInfo}>
-        <Text style={styles.videoTitle} numberOfLines={2}>
-          {video.videoTitle}
-        </Text>
-        <Text style={styles.videoDescription} numberOfLines={2}>
-          {video.videoDescription}
-        </Text>
-        <View style={styles.videoMeta}>
-          <Text style={styles.videoDuration}>
-            Duration: {formatDuration(video.duration)}
+  // Free previews of a paid course open in the player before enrolling
+  const handlePreviewPress = async () => {
+    if (!course) return;
+    const isAuthenticated = await checkAuthStatus();
+    if (!isAuthenticated) {
+      setShowLoginBanner(true);
+      return;
+    }
+    navigation.navigate('CourseContent', { courseId: course._id });
+  };
+
+  const renderVideoItem = (video: any, index: number) => {
+    const isLocked = !isEnrolled && !!video.isLocked;
+    const canPreview = course?.type === 'paid' && !isEnrolled && video.isPreview;
+
+    return (
+      <TouchableOpacity
+        key={video._id || index}
+        style={styles.videoItem}
+        onPress={handlePreviewPress}
+        disabled={!canPreview}
+        activeOpacity={0.7}
+      >
+        <View style={styles.videoIcon}>
+          <Text style={styles.videoIconText}>{isLocked ? '🔒' : '▶️'}</Text>
+        </View>
+        <View style={styles.videoInfo}>
+          <Text style={styles.videoTitle} numberOfLines={2}>
+            {video.videoTitle}
+          </Text>
+          <Text style={styles.videoDescription} numberOfLines={2}>
+            {video.videoDescription}
           </Text>
+          <View style={styles.videoMeta}>
+            <Text style={styles.videoDuration}>
+              Duration: {formatDuration(video.duration)}
+            </Text>
+            {canPreview && <Text style={styles.previewBadge}>FREE PREVIEW</Text>}
+          </View>
         </View>
-      </View>
-    </View>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -1012,6 +930,17 @@ const styles = StyleSheet.create({
     color: BRAND.primaryColor,
     fontWeight: '500',
   },
+  previewBadge: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: BRAND.backgroundColor,
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginLeft: 8,
+    overflow: 'hidden',
+  },
   noVideosText: {
     fontSize: 14,
     color: '#aaaaaa',
@@ -14,52 +14,23 @@ import {
   Linking,
 } from 'react-native';
 import { NavigationProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import BottomNavigation from '../components/BottomNavigation';
 import CoursesSection from '../components/CoursesSection';
 import MoreOptionSection from '../components/MoreOptionSection';
 import OfflinePromotionSection from '../components/OfflinePromotionSection';
-import { API_BASE } from '../config/api';
+import { Course as ApiCourse, Session, enrollmentApi, getSession, paidCoursesApi, unpaidCoursesApi } from '../api';
 import { EMAIL, MOBILE_NO } from '../config/contact';
 
 interface HomeScreenProps {
   navigation: NavigationProp<any>;
 }
 
-interface Course {
-  _id: string;
-  courseTitle: string;
-  tutor: string;
-  rating: number;
-  price: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  courseDetails: {
-    subtitle: string;
-    description: string;
-  };
-  videoLinks: Array<{
-    videoTitle: string;
-    videoDescription: string;
-    videoLink: string;
-    duration: string;
-  }>;
-  courseThumbnail: string;
-  totalEnrolledStudents?: number;
-  studentsEnrolled: Array<any>;
-  isActive: boolean;
+// Paid and free courses in one list, with the signed in user's access
+type Course = ApiCourse & {
   type: 'paid' | 'free';
-  isEnrolled?: boolean; // Add enrollment status
-  enrollmentId?: string; // Add enrollment ID
-}
-
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  token: string;
-  role?: string;
-}
+  isEnrolled?: boolean;
+  enrollmentId?: string | null;
+};
 
 const { width, height } = Dimensions.get('window');
 
@@ -82,7 +53,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'jee' | 'neet' | 'boards'>('all');
   const [selectedClass, setSelectedClass] = useState<'all' | '11th' | '12th'>('all');
   const [selectedType, setSelectedType] = useState<'all' | 'paid' | 'free'>('all');
-  const [userData, setUserData] = useState<UserData | null>(null);
+  const [userData, setUserData] = useState<Session | null>(null);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
 
   // Animation refs
@@ -92,40 +63,15 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const glowOpacity = useRef(new Animated.Value(0)).current;
   const pulseScale = useRef(new Animated.Value(1)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Check authentication status
   const checkAuthStatus = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
-        };
-        
-        setUserData(userDataObj);
+      if (session) {
+        setUserData(session);
         setIsLoggedIn(true);
-        return userDataObj;
+        return session;
       } else {
         setIsLoggedIn(false);
         setUserData(null);
@@ -140,8 +86,8 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   };
 
   // Check enrollment status for multiple courses
-  const checkEnrollmentStatus = async (coursesData: Course[], userToken: string) => {
-    if (!coursesData.length || !userToken) return coursesData;
+  const checkEnrollmentStatus = async (coursesData: Course[]) => {
+    if (!coursesData.length) return coursesData;
 
     try {
       console.log('Checking enrollment status for', coursesData.length, 'courses');
@@ -149,27 +95,12 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       // Create promises for all enrollment checks
       const enrollmentPromises = coursesData.map(async (course) => {
         try {
-          const response = await fetch(`${API_BASE_URL}/enrollment/access/${course._id}`, {
-            headers: {
-              'Authorization': `Bearer ${userToken}`,
-              'Content-Type': 'application/json',
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            return {
-              ...course,
-              isEnrolled: data.hasAccess,
-              enrollmentId: data.enrollment?._id || null
-            };
-          } else {
-            return {
-              ...course,
-              isEnrolled: false,
-              enrollmentId: null
-            };
-          }
+          const data = await enrollmentApi.checkCourseAccess(course._id);
+          return {
+            ...course,
+            isEnrolled: data.hasAccess,
+            enrollmentId: data.enrollment?._id || null
+          };
         } catch (error) {
           console.error(`Error checking enrollment for course ${course._id}:`, error);
           return {
@@ -200,65 +131,24 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     try {
       setLoading(true);
       
-      console.log('Fetching courses from:', API_BASE_URL);
-      
-      // Fetch paid courses
-      const paidResponse = await fetch(`${API_BASE_URL}/paidCourses`);
-      console.log('Paid courses response status:', paidResponse.status);
-      
-      if (!paidResponse.ok) {
-        throw new Error(`HTTP error! status: ${paidResponse.status}`);
-      }
-      
-      const paidText = await paidResponse.text();
-      console.log('Paid courses raw response:', paidText.substring(0, 200));
-      
-      let paidCourses;
-      try {
-        paidCourses = JSON.parse(paidText);
-      } catch (parseError) {
-        console.error('Failed to parse paid courses JSON:', parseError);
-        console.error('Response was:', paidText);
-        throw new Error('Invalid JSON response from paid courses endpoint');
-      }
-      
-      // Fetch unpaid courses
-      const unpaidResponse = await fetch(`${API_BASE_URL}/unpaidCourses`);
-      console.log('Unpaid courses response status:', unpaidResponse.status);
-      
-      if (!unpaidResponse.ok) {
-        throw new Error(`HTTP error! status: ${unpaidResponse.status}`);
-      }
-      
-      const unpaidText = await unpaidResponse.text();
-      console.log('Unpaid courses raw response:', unpaidText.substring(0, 200));
-      
-      let unpaidCourses;
-      try {
-        unpaidCourses = JSON.parse(unpaidText);
-      } catch (parseError) {
-        console.error('Failed to parse unpaid courses JSON:', parseError);
-        console.error('Response was:', unpaidText);
-        throw new Error('Invalid JSON response from unpaid courses endpoint');
-      }
-      
-      // Handle different response formats
-      const paidData = Array.isArray(paidCourses) ? paidCourses : (paidCourses.data || []);
-      const unpaidData = Array.isArray(unpaidCourses) ? unpaidCourses : (unpaidCourses.data || []);
+      const [paidCourses, unpaidCourses] = await Promise.all([
+        paidCoursesApi.getAllCourses(),
+        unpaidCoursesApi.getAllCourses(),
+      ]);
       
       // Combine and mark course types
-      let allCourses = [
-        ...paidData.map((course: any) => ({ ...course, type: 'paid' })),
-        ...unpaidData.map((course: any) => ({ ...course, type: 'free' }))
+      let allCourses: Course[] = [
+        ...paidCourses.data.map(course => ({ ...course, type: 'paid' as const })),
+        ...unpaidCourses.data.map(course => ({ ...course, type: 'free' as const }))
       ];
       
       console.log('Successfully fetched courses:', allCourses.length);
       
       // Check enrollment status if user is logged in
       const currentUserData = await checkAuthStatus();
-      if (currentUserData && currentUserData.token) {
+      if (currentUserData) {
         console.log('User is logged in, checking enrollment status...');
-        allCourses = await checkEnrollmentStatus(allCourses, currentUserData.token);
+        allCourses = await checkEnrollmentStatus(allCourses);
       } else {
         console.log('User not logged in, skipping enrollment check');
         allCourses = allCourses.map(course => ({
@@ -16,13 +16,23 @@ import {
   FlatList,
 } from 'react-native';
 import { NavigationProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
-import axios from 'axios';
 import { Feather, FontAwesome5, Ionicons, MaterialIcons } from '@expo/vector-icons';
 
-import { API_BASE_URL, API_TIMEOUT } from '../config/api';
 import BottomNavigation from '../components/BottomNavigation';
+import RefundRequestModal, { RefundTarget } from '../components/RefundRequestModal';
+import {
+  ApiError,
+  Enrollment,
+  Installment,
+  RefundInfo,
+  enrollmentApi,
+  getSession,
+  paidCoursesApi,
+  paidNotesApi,
+  purchasedNotesApi,
+  unpaidCoursesApi,
+} from '../api';
 
 interface MyContentScreenProps {
   navigation: NavigationProp<any>;
@@ -40,6 +50,7 @@ interface EnrollmentData {
     instructorName: string;
     courseDuration: string;
     courseLevel: string;
+    courseThumbnail?: string;
     isActive: boolean;
   };
   enrollmentStatus: string;
@@ -48,6 +59,12 @@ interface EnrollmentData {
   enrolledAt: string;
   paymentStatus: string;
   courseType: string;
+  refund?: RefundInfo;
+  paymentPlan?: 'full' | 'installments';
+  installments?: Installment[];
+  isSuspended?: boolean;
+  expiresAt?: string;
+  progress?: Enrollment['progress'];
 }
 
 interface PurchasedNotesData {
@@ -80,6 +97,7 @@ interface PurchasedNotesData {
   expiresAt?: string;
   isActive: boolean;
   paymentStatus?: string;
+  refund?: RefundInfo;
 }
 
 
@@ -95,48 +113,6 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-// API Configuration
-const API_CONFIG = {
-  baseURL: API_BASE_URL || 'http://localhost:3000/api',
-  timeout: API_TIMEOUT || 15000,
-  endpoints: {
-    myEnrollments: '/enrollment/my-enrollments',
-    courseAccess: '/enrollment/access',
-    myPurchasedNotes: '/purchasedNotes/my-purchases', // ADD THIS LINE
-  }
-};
-
-// Create an axios instance with timeout configuration
-const apiClient = axios.create({
-  baseURL: API_CONFIG.baseURL,
-  timeout: API_CONFIG.timeout,
-});
-
-// Add request interceptor to include auth token
-apiClient.interceptors.request.use(
-  async (config) => {
-    const token = await AsyncStorage.getItem('userToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Add response interceptor to handle token expiration
-apiClient.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-    if (error.response?.status === 401) {
-      await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName', 'userData']);
-    }
-    return Promise.reject(error);
-  }
-);
-
 const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
   // State
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
@@ -145,9 +121,12 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
-  const [activeFilter, setActiveFilter] = useState<string>('enrolled');
+  const [activeFilter, setActiveFilter] = useState<Enrollment['enrollmentStatus']>('enrolled');
   const [purchasedNotes, setPurchasedNotes] = useState<PurchasedNotesData[]>([]);
   const [activeContentType, setActiveContentType] = useState<'courses' | 'notes'>('courses');
+  const [refundTarget, setRefundTarget] = useState<RefundTarget | null>(null);
+  const [payingInstallmentId, setPayingInstallmentId] = useState<string | null>(null);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -195,10 +174,9 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
       setIsLoading(true);
       console.log('Checking auth status...');
       
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
+      const session = await getSession();
       
-      if (token && userId) {
+      if (session) {
         console.log('User is authenticated, fetching enrollments...');
         setIsLoggedIn(true);
         await fetchEnrollments();
@@ -219,25 +197,17 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
   const fetchCourseDetails = async (courseId: string) => {
     try {
       // Try to fetch from paid courses first
-      const paidResponse = await fetch(`${API_CONFIG.baseURL}/paidCourses`);
-      if (paidResponse.ok) {
-        const paidCourses = await paidResponse.json();
-        const paidData = Array.isArray(paidCourses) ? paidCourses : (paidCourses.data || []);
-        const paidCourse = paidData.find((course: any) => course._id === courseId);
-        if (paidCourse) {
-          return { ...paidCourse, type: 'paid' };
-        }
+      const paidCourses = await paidCoursesApi.getAllCourses();
+      const paidCourse = paidCourses.data.find(course => course._id === courseId);
+      if (paidCourse) {
+        return { ...paidCourse, type: 'paid' };
       }
 
       // Try to fetch from unpaid courses
-      const unpaidResponse = await fetch(`${API_CONFIG.baseURL}/unpaidCourses`);
-      if (unpaidResponse.ok) {
-        const unpaidCourses = await unpaidResponse.json();
-        const unpaidData = Array.isArray(unpaidCourses) ? unpaidCourses : (unpaidCourses.data || []);
-        const unpaidCourse = unpaidData.find((course: any) => course._id === courseId);
-        if (unpaidCourse) {
-          return { ...unpaidCourse, type: 'free' };
-        }
+      const unpaidCourses = await unpaidCoursesApi.getAllCourses();
+      const unpaidCourse = unpaidCourses.data.find(course => course._id === courseId);
+      if (unpaidCourse) {
+        return { ...unpaidCourse, type: 'free' };
       }
 
       return null;
@@ -250,15 +220,10 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
   // Updated fetchEnrollments function
   const fetchEnrollments = async () => {
   try {
-    console.log('Fetching enrollments from API...');
-    console.log('API URL:', `${API_CONFIG.baseURL}${API_CONFIG.endpoints.myEnrollments}?status=${activeFilter}`);
-    
-    const response = await apiClient.get(`${API_CONFIG.endpoints.myEnrollments}?status=${activeFilter}`);
-    
-    console.log('Enrollments API Response:', response.data);
+    const response = await enrollmentApi.getMyEnrollments(activeFilter);
     
-    if (response.data && response.data.success) {
-      const enrollments = response.data.enrollments || [];
+    if (response.success) {
+      const enrollments = response.enrollments;
       
       // Filter out cancelled courses
       const filteredEnrollments = enrollments.filter((enrollment: any) => 
@@ -286,8 +251,8 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
                   courseDescription: fullCourseDetails.courseDetails?.description || enrollment.courseId?.courseDescription,
                   price: fullCourseDetails.price || enrollment.courseId?.price || 0,
                   instructorName: fullCourseDetails.tutor || enrollment.courseId?.instructorName,
-                  courseDuration: fullCourseDetails.courseDuration || enrollment.courseId?.courseDuration,
-                  courseLevel: fullCourseDetails.courseLevel || enrollment.courseId?.courseLevel,
+                  courseDuration: enrollment.courseId?.courseDuration,
+                  courseLevel: enrollment.courseId?.courseLevel,
                   isActive: fullCourseDetails.isActive !== undefined ? fullCourseDetails.isActive : enrollment.courseId?.isActive,
                 }
               };
@@ -302,7 +267,7 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
       console.log('Enriched enrollments:', enrichedEnrollments);
       setEnrollments(enrichedEnrollments);
     } else {
-      console.error('API response indicates failure:', response.data);
+      console.error('API response indicates failure:', response);
     }
 
     // ALSO FETCH PURCHASED NOTES
@@ -311,32 +276,16 @@ const MyContentScreen: React.FC<MyContentScreenProps> = ({ navigation }) => {
   } catch (error) {
     console.error('Error fetching enrollments:', error);
     
-    // Enhanced error logging
-    if (typeof error === 'object' && error !== null && 'response' in error) {
-      const err = error as { response: any };
-      console.error('Response status:', err.response?.status);
-      console.error('Response data:', err.response?.data);
-    } else if (typeof error === 'object' && error !== null && 'request' in error) {
-      console.error('No response received:', (error as any).request);
-    } else {
-      console.error('Error setting up request:', (error as any).message);
-    }
-    
     await handleAuthError(error);
   }
 };
 
 const fetchPurchasedNotes = async () => {
   try {
-    console.log('Fetching purchased notes from API...');
-    console.log('API URL:', `${API_CONFIG.baseURL}${API_CONFIG.endpoints.myPurchasedNotes}`);
-    
-    const response = await apiClient.get(`${API_CONFIG.endpoints.myPurchasedNotes}?status=completed`);
+    const response = await purchasedNotesApi.getMyPurchases();
     
-    console.log('Purchased Notes API Response:', response.data);
-    
-    if (response.data && response.data.success) {
-      const purchases = response.data.purchases || [];
+    if (response.success) {
+      const purchases = response.purchases;
       
       // Enhanced validation and enrichment of purchase data
       const enrichedPurchases = await Promise.all(
@@ -352,12 +301,12 @@ const fetchPurchasedNotes = async () => {
               if (notesIdValue) {
                 try {
                   // Fetch notes details from the paid notes API
-                  const notesResponse = await apiClient.get(`/paidNotes/${notesIdValue}`);
+                  const notesResponse = await paidNotesApi.getNotesById(notesIdValue);
                   
-                  if (notesResponse.data && notesResponse.data.success) {
+                  if (notesResponse.success) {
                     purchase.notesId = {
                       ...purchase.notesId,
-                      ...notesResponse.data.notes
+                      ...notesResponse.data
                     };
                     console.log('Successfully enriched notes data for:', purchase._id);
                   } else {
@@ -411,18 +360,11 @@ const fetchPurchasedNotes = async () => {
       console.log('Enriched purchased notes:', enrichedPurchases);
       setPurchasedNotes(enrichedPurchases);
     } else {
-      console.error('Purchased notes API response indicates failure:', response.data);
+      console.error('Purchased notes API response indicates failure:', response);
       setPurchasedNotes([]);
     }
   } catch (error) {
     console.error('Error fetching purchased notes:', error);
-    
-    // Enhanced error logging
-    if (axios.isAxiosError(error)) {
-      console.error('Response status:', error.response?.status);
-      console.error('Response data:', error.response?.data);
-    }
-    
     setPurchasedNotes([]);
     await handleAuthError(error);
   }
@@ -471,20 +413,10 @@ const handleNotesPress = (notesId: string) => {
     }
   };
 
-  const handleAuthError = async (error: any) => {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName', 'userData']);
-        setIsLoggedIn(false);
-        setEnrollments([]);
-        setShowBanner(true);
-        Alert.alert(
-          "Session Expired",
-          "Your session has expired. Please sign in again.",
-          [{ text: "OK" }]
-        );
-        return;
-      }
+  const handleAuthError = async (error: unknown) => {
+    // The API client already signs out on a 401
+    if (error instanceof ApiError && error.isUnauthorized) {
+      return;
     }
     
     if (!isConnected) {
@@ -580,6 +512,58 @@ const handleNotesPress = (notesId: string) => {
     });
   };
 
+  // Open checkout for the next installment; PaymentScreen verifies it and records the payment
+  const handlePayInstallment = async (item: EnrollmentData) => {
+    setPayingInstallmentId(item._id);
+    try {
+      const response = await enrollmentApi.payNextInstallment(item._id);
+      navigation.navigate('PaymentScreen', {
+        razorpayOrder: response.razorpayOrder,
+        course: {
+          _id: item.courseId._id,
+          courseTitle: item.courseId.courseTitle,
+          tutor: item.courseId.instructorName,
+          price: item.courseId.price,
+          courseThumbnail: item.courseId.courseThumbnail || '',
+          type: 'paid',
+        },
+        installment: { number: response.installment.number, count: item.installments?.length || 0 },
+      });
+    } catch (error) {
+      console.error('Error starting installment payment:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to start payment');
+    } finally {
+      setPayingInstallmentId(null);
+    }
+  };
+
+  // Open checkout for another validity period; PaymentScreen verifies it and extends access
+  const handleRenew = async (item: EnrollmentData) => {
+    setRenewingId(item._id);
+    try {
+      const response = await enrollmentApi.renewEnrollment(item._id);
+      navigation.navigate('PaymentScreen', {
+        razorpayOrder: response.razorpayOrder,
+        course: {
+          _id: item.courseId._id,
+          courseTitle: item.courseId.courseTitle,
+          tutor: item.courseId.instructorName,
+          price: item.courseId.price,
+          courseThumbnail: item.courseId.courseThumbnail || '',
+          type: 'paid',
+        },
+        renewal: true,
+      });
+    } catch (error) {
+      console.error('Error starting renewal:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to start renewal');
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
   const handleBannerClose = () => {
     setShowBanner(false);
   };
@@ -588,16 +572,17 @@ const handleNotesPress = (notesId: string) => {
     navigation.navigate('SignIn');
   };
 
-  const handleFilterChange = (filter: string) => {
+  const handleFilterChange = (filter: Enrollment['enrollmentStatus']) => {
     setActiveFilter(filter);
     if (isLoggedIn) {
       fetchEnrollments();
     }
   };
 
-  const getProgressPercentage = (progress: any) => {
-    if (!progress || !progress.completedVideos) return 0;
-    return Math.min(progress.completedVideos.length * 10, 100);
+  // Worked out on the server from the videos the player reported as watched
+  const getProgressPercentage = (progress: EnrollmentData['progress']) => {
+    if (!progress) return 0;
+    return Math.min(Math.max(progress.overallProgress || 0, 0), 100);
   };
 
   const formatDuration = (duration: string) => {
@@ -605,6 +590,113 @@ const handleNotesPress = (notesId: string) => {
     return duration.replace('hours', 'hrs').replace('minutes', 'min');
   };
 
+  // Paid records show a refund button, or the state of their latest refund request
+  const renderRefundAction = (paymentStatus: string | undefined, refund: RefundInfo | undefined, target: RefundTarget) => {
+    if (paymentStatus !== 'completed') return null;
+
+    if (refund?.status === 'requested') {
+      return (
+        <View style={styles.refundStatusRow}>
+          <MaterialIcons name="hourglass-empty" size={14} color="#FF9800" />
+          <Text style={[styles.refundStatusText, { color: '#FF9800' }]}>Refund requested</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.refundStatusRow}>
+        {refund?.status === 'denied' && (
+          <Text style={[styles.refundStatusText, { color: '#ff6b6b', marginRight: 10 }]}>Refund denied</Text>
+        )}
+        <TouchableOpacity style={styles.refundButton} onPress={() => setRefundTarget(target)}>
+          <Text style={styles.refundButtonText}>Request Refund</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '');
+
+  // Installment plans list each payment, flag an overdue one and offer the next payment
+  const renderInstallments = (item: EnrollmentData) => {
+    if (item.paymentPlan !== 'installments' || !item.installments?.length) return null;
+    const next = item.installments.find((installment) => installment.status === 'pending');
+
+    return (
+      <View style={styles.installmentsBox}>
+        {item.isSuspended && (
+          <View style={styles.installmentRow}>
+            <MaterialIcons name="pause-circle-filled" size={14} color="#ff6b6b" />
+            <Text style={[styles.installmentText, { color: '#ff6b6b' }]}>Access paused: installment overdue</Text>
+          </View>
+        )}
+        {item.installments.map((installment) => (
+          <View key={installment.number} style={styles.installmentRow}>
+            <MaterialIcons
+              name={installment.status === 'paid' ? 'check-circle' : 'radio-button-unchecked'}
+              size={14}
+              color={installment.status === 'paid' ? BRAND.primaryColor : '#888'}
+            />
+            <Text style={styles.installmentText}>#{installment.number} · ₹{installment.amount}</Text>
+            <Text style={styles.installmentDate}>
+              {installment.status === 'paid' ? `Paid ${formatDate(installment.paidAt)}` : `Due ${formatDate(installment.dueDate)}`}
+            </Text>
+          </View>
+        ))}
+        {next && (
+          <TouchableOpacity
+            style={styles.installmentButton}
+            onPress={() => handlePayInstallment(item)}
+            disabled={payingInstallmentId !== null}
+          >
+            {payingInstallmentId === item._id ? (
+              <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+            ) : (
+              <Text style={styles.installmentButtonText}>Pay next installment (₹{next.amount})</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const isExpired = (item: EnrollmentData) => !!item.expiresAt && new Date(item.expiresAt) <= new Date();
+
+  // Paid courses show when access ends, and offer a renewal once it is 30 days away or past
+  const renderValidity = (item: EnrollmentData) => {
+    if (item.courseType !== 'PaidCourse' || item.paymentStatus !== 'completed' || !item.expiresAt) return null;
+    const daysLeft = Math.ceil((new Date(item.expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+    const expired = daysLeft <= 0;
+    const canRenew = daysLeft <= 30 && !item.installments?.some((installment) => installment.status === 'pending');
+    const color = expired ? '#ff6b6b' : daysLeft <= 30 ? '#FF9800' : '#888';
+
+    return (
+      <View style={styles.installmentsBox}>
+        <View style={styles.installmentRow}>
+          <MaterialIcons name={expired ? 'event-busy' : 'event'} size={14} color={color} />
+          <Text style={[styles.installmentText, { color }]}>
+            {expired
+              ? `Access expired on ${formatDate(item.expiresAt)}`
+              : `Access until ${formatDate(item.expiresAt)}${daysLeft <= 30 ? ` (${daysLeft} day${daysLeft === 1 ? '' : 's'} left)` : ''}`}
+          </Text>
+        </View>
+        {canRenew && (
+          <TouchableOpacity
+            style={styles.installmentButton}
+            onPress={() => handleRenew(item)}
+            disabled={renewingId !== null}
+          >
+            {renewingId === item._id ? (
+              <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+            ) : (
+              <Text style={styles.installmentButtonText}>Renew access</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderCourseCard = ({ item }: { item: EnrollmentData }) => {    
     return (
       <Animated.View
@@ -618,7 +710,13 @@ const handleNotesPress = (notesId: string) => {
       >
         <TouchableOpacity
           style={styles.courseCardContent}
-          onPress={() => handleCoursePress(item.courseId._id, item._id)}
+          onPress={() =>
+            item.isSuspended
+              ? Alert.alert('Installment Overdue', 'Pay the overdue installment to continue this course.')
+              : isExpired(item)
+                ? Alert.alert('Access Expired', 'Renew this course to continue watching it.')
+                : handleCoursePress(item.courseId._id, item._id)
+          }
           activeOpacity={0.8}
         >
           {/* Course Image using Logo */}
@@ -678,6 +776,16 @@ const handleNotesPress = (notesId: string) => {
               </Text>
             </View>
             
+            {/* Progress */}
+            {item.enrollmentStatus === 'enrolled' && (
+              <View style={styles.progressInfo}>
+                <Text style={styles.progressText}>{getProgressPercentage(item.progress)}% complete</Text>
+                <View style={styles.progressBarContainer}>
+                  <View style={[styles.progressBarFull, { width: `${getProgressPercentage(item.progress)}%` }]} />
+                </View>
+              </View>
+            )}
+
             {/* Enrollment Status */}
             <View style={styles.enrollmentStatus}>
               <View style={[styles.statusDot, { 
@@ -687,6 +795,17 @@ const handleNotesPress = (notesId: string) => {
                 {item.enrollmentStatus.charAt(0).toUpperCase() + item.enrollmentStatus.slice(1)}
               </Text>
             </View>
+
+            {renderInstallments(item)}
+            {renderValidity(item)}
+
+            {/* Installment plans are refunded through support */}
+            {item.paymentPlan !== 'installments' && renderRefundAction(item.paymentStatus, item.refund, {
+              recordType: 'Enrollment',
+              recordId: item._id,
+              title: item.courseId.courseTitle || 'Untitled Course',
+              amount: item.courseId.price,
+            })}
           </View>
         </TouchableOpacity>
       </Animated.View>
@@ -835,6 +954,13 @@ const renderNotesCard = ({ item }: { item: PurchasedNotesData }) => {
               {status.charAt(0).toUpperCase() + status.slice(1)}
             </Text>
           </View>
+
+          {renderRefundAction(item.paymentStatus, item.refund, {
+            recordType: 'PurchasedNotes',
+            recordId: item._id,
+            title,
+            amount: price,
+          })}
         </View>
       </TouchableOpacity>
     </Animated.View>
@@ -902,7 +1028,7 @@ const renderNotesCard = ({ item }: { item: PurchasedNotesData }) => {
     {/* Show enrollment filter only for courses */}
     {activeContentType === 'courses' && (
       <View style={styles.statusFilterTabs}>
-        {['enrolled'].map((filter) => (
+        {(['enrolled'] as const).map((filter) => (
           <TouchableOpacity
             key={filter}
             style={[
@@ -1174,6 +1300,12 @@ return (
       )}
     </View>
 
+    <RefundRequestModal
+      target={refundTarget}
+      onClose={() => setRefundTarget(null)}
+      onSubmitted={fetchEnrollments}
+    />
+
     {/* Bottom Navigation */}
     <BottomNavigation navigation={navigation} activeTab="content" />
   </SafeAreaView>
@@ -1630,6 +1762,61 @@ refreshButtonText: {
   fontSize: 12,
   fontWeight: '600',
 },
+refundStatusRow: {
+  flexDirection: 'row',
+  alignItems: 'center',
+  marginTop: 10,
+},
+refundStatusText: {
+  fontSize: 12,
+  fontWeight: '600',
+  marginLeft: 4,
+},
+refundButton: {
+  borderWidth: 1,
+  borderColor: '#ff6b6b',
+  paddingHorizontal: 12,
+  paddingVertical: 6,
+  borderRadius: 15,
+},
+refundButtonText: {
+  color: '#ff6b6b',
+  fontSize: 12,
+  fontWeight: '600',
+},
+installmentsBox: {
+  marginTop: 10,
+  paddingTop: 8,
+  borderTopWidth: 1,
+  borderTopColor: 'rgba(255, 255, 255, 0.1)',
+},
+installmentRow: {
+  flexDirection: 'row',
+  alignItems: 'center',
+  marginBottom: 4,
+},
+installmentText: {
+  color: '#cccccc',
+  fontSize: 12,
+  marginLeft: 6,
+  flex: 1,
+},
+installmentDate: {
+  color: '#888',
+  fontSize: 12,
+},
+installmentButton: {
+  backgroundColor: BRAND.primaryColor,
+  borderRadius: 15,
+  paddingVertical: 8,
+  alignItems: 'center',
+  marginTop: 6,
+},
+installmentButtonText: {
+  color: BRAND.backgroundColor,
+  fontSize: 12,
+  fontWeight: '700',
+},
 });
 
 export default MyContentScreen;
\ No newline at end of file
@@ -19,7 +19,8 @@ import { NavigationProp, RouteProp } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { WebView } from 'react-native-webview'; // EXPO COMPATIBLE: Use WebView for Razorpay
 import * as Linking from 'expo-linking'; // EXPO COMPATIBLE: For handling deep links
-import { API_BASE } from '../config/api';
+import { PurchasedNotes, RazorpayOrder, getSession, purchasedNotesApi } from '../api';
+import CouponInput from '../components/CouponInput';
 
 // Interface for Razorpay payment response
 interface PaymentResponse {
@@ -34,43 +35,9 @@ interface NotesPaymentScreenProps {
   route: RouteProp<any>;
 }
 
-interface VerificationResponse {
-  data?: {
-    success?: boolean;
-    status?: string;
-    message?: string;
-    error?: string;
-    details?: string;
-    verified?: boolean;
-    purchase?: {
-      _id?: string;
-      studentId?: string;
-      notesId?: string;
-      paymentStatus?: string;
-      purchaseStatus?: string;
-      paymentId?: string;
-      orderId?: string;
-    };
-  };
-}
-
 interface PaymentData {
-  purchase?: {
-    _id: string;
-    studentId: string;
-    notesId: string;
-    paymentDetails: {
-      amount: number;
-      currency: string;
-      razorpayOrderId: string;
-    };
-  };
-  razorpayOrder?: {
-    id: string;
-    amount: number;
-    currency: string;
-    receipt: string;
-  };
+  purchase?: PurchasedNotes;
+  razorpayOrder?: RazorpayOrder;
   notes?: {
     _id: string;
     notesTitle: string;
@@ -104,7 +71,11 @@ const BRAND = {
 const NotesPaymentScreen: React.FC<NotesPaymentScreenProps> = ({ navigation, route }) => {
   // Add validation for route params with fallback values
   const routeParams = route.params as PaymentData || {};
-  const { purchase, razorpayOrder, notes, onPaymentSuccess } = routeParams;
+  const { notes, onPaymentSuccess } = routeParams;
+
+  // Applying or removing a coupon replaces the order (the purchase itself is reused)
+  const [purchase, setPurchase] = useState(routeParams.purchase);
+  const [razorpayOrder, setRazorpayOrder] = useState(routeParams.razorpayOrder);
 
   // Early return if essential data is missing
   useEffect(() => {
@@ -154,6 +125,18 @@ const NotesPaymentScreen: React.FC<NotesPaymentScreenProps> = ({ navigation, rou
     );
   }
 
+  const recreateOrder = async (couponCode?: string) => {
+    const response = await purchasedNotesApi.purchaseNotes(notes._id, couponCode);
+    if (!response.razorpayOrder) {
+      throw new Error('Failed to create payment order');
+    }
+    setPurchase(response.purchase);
+    setRazorpayOrder(response.razorpayOrder);
+  };
+
+  // What the order actually charges, after any coupon
+  const notesPrice = razorpayOrder.amount / 100;
+
   // EXPO COMPATIBLE: Generate Razorpay checkout HTML
   const generateRazorpayHtml = (options: { description: any; image?: string; currency?: string; key?: string; amount: any; order_id?: string; name: any; tutor: any; category: any; class: any; prefill?: { email: any; contact: any; name: any; }; theme?: { color: string; }; notes?: { type: string; notesId: string; studentId: any; }; }) => {
   return `
@@ -414,120 +397,6 @@ const NotesPaymentScreen: React.FC<NotesPaymentScreenProps> = ({ navigation, rou
 };
 
 
-  // FIXED: Proper API URL construction
-  const getApiUrl = (endpoint: string) => {
-    const baseUrl = API_BASE?.replace(/\/+$/, '');
-    const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    
-    if (baseUrl && baseUrl.endsWith('/api')) {
-      return `${baseUrl}${cleanEndpoint}`;
-    } else {
-      return `${baseUrl || ''}/api${cleanEndpoint}`;
-    }
-  };
-
-  // Custom timeout implementation for fetch
-  const fetchWithTimeout = (url: string | URL | Request, options: RequestInit = {}, timeout = 35000): Promise<Response> => {
-  return new Promise((resolve, reject) => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-      reject(new Error(`Request timeout after ${timeout}ms`));
-    }, timeout);
-
-    fetch(url, {
-      ...options,
-      signal: controller.signal,
-    })
-      .then((response: Response) => {
-        clearTimeout(timeoutId);
-        resolve(response);
-      })
-      .catch((error) => {
-        clearTimeout(timeoutId);
-        if (error.name === 'AbortError') {
-          reject(new Error(`Request timeout after ${timeout}ms`));
-        } else {
-          reject(error);
-        }
-      });
-  });
-};
-
-  // Enhanced network request with retry logic
-  const makeNetworkRequest = async (url: string, options: RequestInit, retries = 3) => {
-  let lastError: Error | null = null;
-  
-  for (let i = 0; i < retries; i++) {
-    try {
-      console.log(`Attempting request ${i + 1}/${retries} to:`, url);
-      console.log('Request options:', {
-        method: options.method,
-        headers: options.headers,
-        bodyLength: options.body ? 
-          (typeof options.body === 'string' ? options.body.length : 'Unknown length') : 0
-      });
-      
-      const response: Response = await fetchWithTimeout(url, options, 35000);
-
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        let errorText: string;
-        try {
-          errorText = await response.text();
-          console.error('Server error response:', errorText);
-        } catch (textError) {
-          errorText = `HTTP ${response.status} - Unable to read error response`;
-        }
-        
-        // Create custom error with additional properties
-        const error = new Error(`HTTP ${response.status}: ${errorText}`) as Error & { 
-          status?: number; 
-          response?: string; 
-        };
-        error.status = response.status;
-        error.response = errorText;
-        throw error;
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        const text = await response.text();
-        console.warn('Non-JSON response received:', text.substring(0, 200));
-        throw new Error(`Expected JSON response but received: ${contentType}`);
-      }
-
-      const data = await response.json();
-      console.log('Parsed response data:', data);
-      return { response, data };
-
-    } catch (error) {
-      console.error(`Request attempt ${i + 1} failed:`, error);
-      lastError = error instanceof Error ? error : new Error('Unknown error occurred');
-      
-      // Don't retry on certain errors - check if error has status property
-      const errorWithStatus = error as Error & { status?: number };
-      if (errorWithStatus.status === 401 || errorWithStatus.status === 403) {
-        throw lastError;
-      }
-      
-      if (i === retries - 1) {
-        throw lastError;
-      }
-      
-      // Wait before retry (exponential backoff)
-      const delay = Math.min(Math.pow(2, i) * 1000, 5000); // Max 5 seconds
-      console.log(`Waiting ${delay}ms before retry...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError || new Error('All retry attempts failed');
-};
-
-
   // Timer effect
   useEffect(() => {
     const timer = setInterval(() => {
@@ -581,13 +450,11 @@ const NotesPaymentScreen: React.FC<NotesPaymentScreenProps> = ({ navigation, rou
 
   const getUserData = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const userEmail = await AsyncStorage.getItem('userEmail');
+      const session = await getSession();
       const userPhone = await AsyncStorage.getItem('userPhone');
       
-      if (token && userId && userName) {
+      if (session) {
+        const { token, userId, userName, email: userEmail } = session;
         setUserData({ token, userId, userName, userEmail, userPhone });
         console.log('User data loaded:', { userId, userName, hasToken: !!token });
       } else {
@@ -694,8 +561,8 @@ const NotesPaymentScreen: React.FC<NotesPaymentScreenProps> = ({ navigation, rou
         description: notes?.notesTitle || 'Study Notes',
         image: getImageSource().uri,
         currency: razorpayOrder?.currency || 'INR',
-        key: 'rzp_test_za8EBHBiDeO6E4', // Your Razorpay test key
-        amount: razorpayOrder?.amount || (notes.price * 100), // Amount in paise
+        key: razorpayOrder?.keyId, // Sent by the server with the order
+        amount: razorpayOrder?.amount || (notesPrice * 100), // Amount in paise
         order_id: razorpayOrder?.id,
         name: BRAND.name,
         tutor: notes?.tutor || 'Unknown Tutor',
@@ -821,27 +688,14 @@ const handlePaymentSuccess = async (paymentResponse: PaymentResponse) => {
     );
 
     const verificationPayload = {
-      purchaseId: purchase?._id,
+      purchaseId: purchase?._id ?? '',
       razorpay_order_id: paymentResponse.razorpay_order_id,
       razorpay_payment_id: paymentResponse.razorpay_payment_id,
       razorpay_signature: paymentResponse.razorpay_signature || ''
     };
 
     console.log('Sending verification request with payload:', verificationPayload);
-
-    // Make verification request
-    const verificationUrl = getApiUrl('/purchasedNotes/verify-payment');
-    console.log('Verification URL:', verificationUrl);
-    
-    const { data } = await makeNetworkRequest(verificationUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${userData.token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(verificationPayload),
-    }, 3);
+    const data = await purchasedNotesApi.verifyPayment(verificationPayload);
 
     console.log('=== VERIFICATION RESPONSE ===');
     console.log('Full verification response:', JSON.stringify(data, null, 2));
@@ -1070,14 +924,31 @@ const handlePaymentSuccess = async (paymentResponse: PaymentResponse) => {
               {/* Price Section */}
               <View style={styles.priceSection}>
                 <Text style={styles.priceLabel}>Total Amount</Text>
+                {razorpayOrder.discount > 0 && (
+                  <Text style={styles.originalPrice}>₹{notes.price.toFixed(2)}</Text>
+                )}
                 <Text style={styles.priceAmount}>
-                  {notes.price === 0 ? 'FREE' : `₹${notes.price.toFixed(2)}`}
+                  {notes.price === 0 ? 'FREE' : `₹${notesPrice.toFixed(2)}`}
                 </Text>
                 {notes.price > 0 && (
                   <Text style={styles.priceNote}>One-time payment • Lifetime access</Text>
                 )}
               </View>
 
+              {notes.price > 0 && (
+                <View style={styles.couponSection}>
+                  <CouponInput
+                    itemType="PaidNotes"
+                    itemId={notes._id}
+                    appliedCode={razorpayOrder.couponCode}
+                    discount={razorpayOrder.discount}
+                    disabled={paymentProcessing}
+                    onApply={(preview) => recreateOrder(preview.code)}
+                    onRemove={() => recreateOrder()}
+                  />
+                </View>
+              )}
+
               {/* Payment Features */}
               <View style={styles.featuresSection}>
                 <Text style={styles.featuresTitle}>What you get:</Text>
@@ -1145,7 +1016,7 @@ const handlePaymentSuccess = async (paymentResponse: PaymentResponse) => {
                   </View>
                 ) : (
                   <Text style={styles.paymentButtonText}>
-                    {notes.price === 0 ? 'Access Free Notes' : `Pay ₹${notes.price.toFixed(2)}`}
+                    {notes.price === 0 ? 'Access Free Notes' : `Pay ₹${notesPrice.toFixed(2)}`}
                   </Text>
                 )}
               </TouchableOpacity>
@@ -1299,6 +1170,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     textAlign: 'center',
   },
+  originalPrice: {
+    color: '#999',
+    fontSize: 16,
+    textDecorationLine: 'line-through',
+  },
+  couponSection: {
+    marginHorizontal: 20,
+  },
   featuresSection: {
     marginHorizontal: 20,
     marginBottom: 20,
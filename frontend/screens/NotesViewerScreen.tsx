@@ -18,12 +18,11 @@ import {
   Platform,
 } from 'react-native';
 import { NavigationProp, RouteProp, useFocusEffect } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { WebView } from 'react-native-webview';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import * as MediaLibrary from 'expo-media-library';
-import { API_BASE } from '../config/api';
+import { getSession, paidNotesApi, PurchasedNotes, purchasedNotesApi, unpaidNotesApi, Session } from '../api';
 
 interface NotesViewerScreenProps {
   navigation: NavigationProp<any>;
@@ -32,6 +31,7 @@ interface NotesViewerScreenProps {
 
 interface RouteParams {
   notesId: string;
+  notesType?: 'paid' | 'unpaid';
   notesTitle?: string;
   purchaseId?: string;
   paymentSuccess?: boolean;
@@ -54,20 +54,7 @@ interface NotesData {
   };
 }
 
-interface PurchaseData {
-  _id: string;
-  studentId: string;
-  notesId: string;
-  purchaseStatus: 'pending' | 'completed' | 'failed';
-  paymentStatus: 'pending' | 'completed' | 'failed';
-  paymentDetails: {
-    amount: number;
-    currency: string;
-    razorpayOrderId?: string;
-    razorpayPaymentId?: string;
-  };
-  purchasedAt: string;
-}
+type PurchaseData = PurchasedNotes;
 
 interface PdfFile {
   _id: string;
@@ -98,7 +85,8 @@ const BRAND = {
 const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route }) => {
   // Route parameters with type safety
   const routeParams = route.params as RouteParams;
-  const { notesId, notesTitle, purchaseId, paymentSuccess } = routeParams;
+  const { notesId, notesTitle, notesType = 'paid', purchaseId, paymentSuccess } = routeParams;
+  const notesEndpoints = notesType === 'paid' ? paidNotesApi : unpaidNotesApi;
 
   // State management
   const [loading, setLoading] = useState(true);
@@ -106,7 +94,7 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
   const [notesData, setNotesData] = useState<NotesData | null>(null);
   const [purchaseData, setPurchaseData] = useState<PurchaseData | null>(null);
   const [pdfFiles, setPdfFiles] = useState<PdfFile[]>([]);
-  const [userData, setUserData] = useState<any>(null);
+  const [userData, setUserData] = useState<Session | null>(null);
   const [currentPdfIndex, setCurrentPdfIndex] = useState(0);
   const [showPdfViewer, setShowPdfViewer] = useState(false);
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set());
@@ -220,18 +208,14 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
 
   const getUserData = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const userEmail = await AsyncStorage.getItem('userEmail');
+      const session = await getSession();
       
-      if (token && userId) {
-        const userData = { token, userId, userName, userEmail };
-        setUserData(userData);
+      if (session) {
+        setUserData(session);
         console.log('User data loaded for notes viewer');
         
         // Load notes data after getting user data
-        await loadNotesData(userData);
+        await loadNotesData();
       } else {
         throw new Error('User authentication required');
       }
@@ -240,74 +224,41 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
       Alert.alert(
         'Authentication Required',
         'Please login to access your notes.',
-        [{ text: 'Login', onPress: () => navigation.navigate('Login') }]
+        [{ text: 'Login', onPress: () => navigation.navigate('SignIn') }]
       );
     }
   };
 
-  const getApiUrl = (endpoint: string) => {
-    const baseUrl = API_BASE?.replace(/\/+$/, '');
-    const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    
-    if (baseUrl && baseUrl.endsWith('/api')) {
-      return `${baseUrl}${cleanEndpoint}`;
-    } else {
-      return `${baseUrl || ''}/api${cleanEndpoint}`;
-    }
-  };
-
-  const makeApiRequest = async (url: string, options: RequestInit) => {
-    try {
-      console.log('Making API request to:', url);
-      
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
-    }
-  };
-
-  const loadNotesData = async (userData: any) => {
+  const loadNotesData = async () => {
     try {
       setError(null);
       
       // Load notes details
-      const notesUrl = getApiUrl(`/notes/${notesId}`);
-      const notesResponse = await makeApiRequest(notesUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${userData.token}`,
-        },
+      const notesResponse = await notesEndpoints.getNotesById(notesId);
+      const notes = notesResponse.data;
+
+      setNotesData({
+        ...notes,
+        price: notes.price || 0,
+        type: notesType === 'paid' ? 'paid' : 'free',
+        description: notes.notesDetails?.description,
       });
 
-      if (notesResponse.success && notesResponse.data) {
-        setNotesData(notesResponse.data);
-        console.log('Notes data loaded:', notesResponse.data.notesTitle);
-      }
+      const files: PdfFile[] = notes.pdfs.map(pdf => ({
+        _id: pdf._id,
+        filename: pdf.pdfTitle,
+        originalName: pdf.originalName,
+        size: pdf.fileSize,
+        uploadedAt: pdf.uploadedAt,
+      }));
 
       // Check if user has purchased these notes (for paid notes)
-      if (notesResponse.data?.type === 'paid') {
-        await checkPurchaseStatus(userData);
+      if (notesType === 'paid') {
+        await checkPurchaseStatus(files);
       } else {
         // Free notes - grant access immediately
         setAccessGranted(true);
-        await loadPdfFiles(userData);
+        setPdfFiles(files);
       }
 
     } catch (error) {
@@ -319,29 +270,21 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
     }
   };
 
-  const checkPurchaseStatus = async (userData: any) => {
+  const checkPurchaseStatus = async (files: PdfFile[]) => {
     try {
       // Check if user has purchased these notes
-      const purchaseUrl = getApiUrl(`/purchasedNotes/check/${notesId}`);
-      const purchaseResponse = await makeApiRequest(purchaseUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${userData.token}`,
-        },
-      });
+      const accessResponse = await purchasedNotesApi.checkNotesAccess(notesId);
 
-      if (purchaseResponse.success && purchaseResponse.data) {
-        setPurchaseData(purchaseResponse.data);
-        
-        // Check if purchase is completed
-        if (purchaseResponse.data.purchaseStatus === 'completed' && 
-            purchaseResponse.data.paymentStatus === 'completed') {
-          setAccessGranted(true);
-          await loadPdfFiles(userData);
-        } else {
-          setAccessGranted(false);
-          setError('Purchase is still being processed. Please try again in a few minutes.');
-        }
+      if (accessResponse.purchase) {
+        setPurchaseData(accessResponse.purchase);
+      }
+
+      if (accessResponse.hasAccess) {
+        setAccessGranted(true);
+        setPdfFiles(files);
+      } else if (accessResponse.purchase) {
+        setAccessGranted(false);
+        setError('Purchase is still being processed. Please try again in a few minutes.');
       } else {
         setAccessGranted(false);
         setError('You have not purchased these notes yet.');
@@ -353,24 +296,14 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
     }
   };
 
-  const loadPdfFiles = async (userData: any) => {
-    try {
-      const filesUrl = getApiUrl(`/notes/${notesId}/files`);
-      const filesResponse = await makeApiRequest(filesUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${userData.token}`,
-        },
-      });
-
-      if (filesResponse.success && filesResponse.data) {
-        setPdfFiles(filesResponse.data);
-        console.log(`Loaded ${filesResponse.data.length} PDF files`);
-      }
-    } catch (error) {
-      console.error('Error loading PDF files:', error);
-      setError('Failed to load notes files');
+  // PDF URL for download or in-app viewing
+  const getPdfUrl = (pdfId: string, forViewer = false) => {
+    if (notesType !== 'paid') {
+      return notesEndpoints.getPdfUrl(notesId, pdfId);
     }
+    return forViewer && userData
+      ? purchasedNotesApi.getPdfViewUrl(notesId, pdfId, userData.token)
+      : purchasedNotesApi.getPdfDownloadUrl(notesId, pdfId);
   };
 
   const refreshNotesData = async () => {
@@ -378,7 +311,7 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
     
     setRefreshing(true);
     try {
-      await loadNotesData(userData);
+      await loadNotesData();
     } catch (error) {
       console.error('Error refreshing notes data:', error);
     } finally {
@@ -414,7 +347,7 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
       setDownloadingFiles(prev => new Set(prev).add(pdfFile._id));
 
       // Get download URL
-      const downloadUrl = getApiUrl(`/notes/${notesId}/files/${pdfFile._id}/download`);
+      const downloadUrl = getPdfUrl(pdfFile._id);
       
       console.log('Downloading PDF:', pdfFile.originalName);
       
@@ -495,7 +428,7 @@ const NotesViewerScreen: React.FC<NotesViewerScreenProps> = ({ navigation, route
     if (!showPdfViewer || pdfFiles.length === 0) return null;
 
     const currentFile = pdfFiles[currentPdfIndex];
-    const pdfUrl = getApiUrl(`/notes/${notesId}/files/${currentFile._id}/view?token=${userData?.token}`);
+    const pdfUrl = getPdfUrl(currentFile._id, true);
 
     return (
       <Modal
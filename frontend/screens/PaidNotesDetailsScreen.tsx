@@ -18,8 +18,7 @@ import {
   Platform,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
+import { ApiError, PurchasedNotes, RazorpayOrder, Session, getSession, paidNotesApi, purchasedNotesApi } from '../api';
 import SignupLoginBanner from '../components/SignupLoginBanner';
 
 const { width, height } = Dimensions.get('window');
@@ -42,9 +41,7 @@ interface NotesData {
 }
 
 interface PdfItem { _id: string; pdfTitle: string; pdfDescription: string; originalName: string; fileSize: number; pages: number; }
-interface PurchaseData { _id: string; studentId: string; notesId: string; purchaseStatus: 'pending' | 'completed' | 'failed' | 'cancelled'; paymentStatus: 'pending' | 'completed' | 'failed'; paymentDetails: { razorpayOrderId?: string; amount: number; currency: string; }; }
-interface RazorpayOrder { id: string; amount: number; currency: string; receipt?: string; }
-interface UserData { id: string; email: string; name: string; token: string; role?: string; }
+type PurchaseData = PurchasedNotes;
 interface PaidNotesDetailsScreenProps { navigation: NavigationProp<RootStackParamList>; route: RouteProp<RootStackParamList, 'PaidNotesDetails'>; }
 
 // Brand configuration (same as unpaid notes)
@@ -71,7 +68,7 @@ const PaidNotesDetailsScreen: React.FC<PaidNotesDetailsScreenProps> = ({ navigat
   const [purchaseData, setPurchaseData] = useState<PurchaseData | null>(null);
   const [purchasing, setPurchasing] = useState(false);
   const [downloadingPdf, setDownloadingPdf] = useState<string | null>(null);
-  const [userData, setUserData] = useState<UserData | null>(null);
+  const [userData, setUserData] = useState<Session | null>(null);
   const [showLoginBanner, setShowLoginBanner] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
 
@@ -81,38 +78,23 @@ const PaidNotesDetailsScreen: React.FC<PaidNotesDetailsScreenProps> = ({ navigat
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
-  const API_BASE_URL = API_BASE;
-
   // Auth check
   const checkAuthStatus = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        if (storedUserData) {
-          try { parsedUserData = JSON.parse(storedUserData); } catch (e) { console.error('Error parsing stored user data:', e); }
-        }
-        
-        const userDataObj: UserData = {
-          id: userId, name: userName, email: parsedUserData?.email || '', token: token, role: userRole || 'user'
-        };
-        
-        setUserData(userDataObj);
+      if (session) {
+        setUserData(session);
         setIsLoggedIn(true);
-        return true;
+        return session;
       } else {
         setIsLoggedIn(false);
-        return false;
+        return null;
       }
     } catch (error) {
       console.error('Auth check error:', error);
       setIsLoggedIn(false);
-      return false;
+      return null;
     }
   };
 
@@ -142,13 +124,11 @@ const PaidNotesDetailsScreen: React.FC<PaidNotesDetailsScreenProps> = ({ navigat
     if (!notesId) return;
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/paidNotes/${notesId}`);
-      if (!response.ok) throw new Error('Failed to fetch notes details');
-      
-      const data = await response.json();
+      const data = await paidNotesApi.getNotesById(notesId);
       if (data.success) {
         const notesWithRequiredFields: NotesData = {
           ...data.data,
+          price: data.data.price ?? 0,
           type: data.data.price === 0 ? 'free' : 'paid',
           description: data.data.notesDetails?.description || data.data.notesDetails?.subtitle || '',
         };
@@ -168,21 +148,9 @@ const PaidNotesDetailsScreen: React.FC<PaidNotesDetailsScreenProps> = ({ navigat
   const checkNotesAccess = async () => {
     if (!notesId || !userData) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/purchasedNotes/access/${notesId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${userData.token}` },
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        setHasAccess(data.hasAccess);
-        if (data.purchase) setPurchaseData(data.purchase);
-      } else if (response.status === 401) {
-        await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName', 'userData']);
-        setIsLoggedIn(false);
-        setUserData(null);
-        setHasAccess(false);
-      }
+      const data = await purchasedNotesApi.checkNotesAccess(notesId);
+      setHasAccess(data.hasAccess);
+      if (data.purchase) setPurchaseData(data.purchase);
     } catch (error) {
       console.error('Error checking notes access:', error);
     }
@@ -191,7 +159,7 @@ const PaidNotesDetailsScreen: React.FC<PaidNotesDetailsScreenProps> = ({ navigat
   const incrementViewCount = async () => {
     if (!notesId) return;
     try {
-      await fetch(`${API_BASE_URL}/paidNotes/${notesId}/view`, { method: 'POST' });
+      await paidNotesApi.incrementViewCount(notesId);
     } catch (error) {
       console.error('Error incrementing view count:', error);
     }
@@ -232,7 +200,7 @@ const handlePdfDownload = async (pdf: PdfItem) => {
     console.log('🔍 Opening PDF:', pdf.pdfTitle);
     
     // Construct the PDF URL with token parameter
-    const pdfUrl = `${API_BASE_URL}/purchasedNotes/${notesId}/pdfs/${pdf._id}/view?token=${encodeURIComponent(userData.token)}`;
+    const pdfUrl = purchasedNotesApi.getPdfViewUrl(notesId, pdf._id, userData.token);
     console.log('📄 PDF URL:', pdfUrl);
     
     // Try to open the PDF URL
@@ -260,7 +228,7 @@ const handlePdfDownload = async (pdf: PdfItem) => {
           text: 'Open in Browser', 
           onPress: async () => {
             try {
-              const browserUrl = `${API_BASE_URL}/purchasedNotes/${notesId}/pdfs/${pdf._id}/view?token=${encodeURIComponent(userData.token)}`;
+              const browserUrl = purchasedNotesApi.getPdfViewUrl(notesId, pdf._id, userData.token);
               await Linking.openURL(browserUrl);
             } catch (e) {
               console.error('Browser open failed:', e);
@@ -271,7 +239,7 @@ const handlePdfDownload = async (pdf: PdfItem) => {
         {
           text: 'Copy Link',
           onPress: () => {
-            const urlWithToken = `${API_BASE_URL}/purchasedNotes/${notesId}/pdfs/${pdf._id}/view?token=${encodeURIComponent(userData.token)}`;
+            const urlWithToken = purchasedNotesApi.getPdfViewUrl(notesId, pdf._id, userData.token);
             
             // If you have @react-native-clipboard/clipboard installed:
             // import Clipboard from '@react-native-clipboard/clipboard';
@@ -291,55 +259,14 @@ const handlePdfDownload = async (pdf: PdfItem) => {
   }
 };
 
-// Alternative function to test PDF access directly
-const testPDFAccess = async (pdf: PdfItem) => {
-  if (!notesId || !userData) {
-    console.log('❌ Missing required data for PDF test');
-    return;
-  }
-  
-  try {
-    console.log('🧪 Testing PDF access...');
-    
-    // Test with fetch first to see if the endpoint responds
-    const testUrl = `${API_BASE_URL}/purchasedNotes/${notesId}/pdfs/${pdf._id}/view`;
-    const response = await fetch(testUrl, {
-      method: 'HEAD', // Just check headers, don't download content
-      headers: {
-        'Authorization': `Bearer ${userData.token}`,
-      },
-    });
-    
-    console.log('📡 PDF Test Response:', {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-    
-    if (response.ok) {
-      console.log('✅ PDF access test successful - opening URL');
-      const pdfUrl = `${testUrl}?token=${encodeURIComponent(userData.token)}`;
-      await Linking.openURL(pdfUrl);
-    } else {
-      console.log('❌ PDF access test failed');
-      Alert.alert('Access Denied', `Status: ${response.status} - ${response.statusText}`);
-    }
-    
-  } catch (error) {
-    console.error('🧪 PDF Test Error:', error);
-    Alert.alert('Test Failed', `Error: `);
-  }
-};
-
-
   const handlePurchase = async () => {
     if (!notesId || !notesData) {
       Alert.alert('Error', 'Notes data not available');
       return;
     }
 
-    const isAuthenticated = await checkAuthStatus();
-    if (!isAuthenticated || !userData) {
+    const session = await checkAuthStatus();
+    if (!session) {
       setShowLoginBanner(true);
       return;
     }
@@ -351,70 +278,30 @@ const testPDFAccess = async (pdf: PdfItem) => {
     
     try {
       setPurchasing(true);
-      const response = await fetch(`${API_BASE_URL}/purchasedNotes/purchase`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${userData.token}` },
-        body: JSON.stringify({ notesId: notesId })
-      });
-      
-      const responseText = await response.text();
+      const data = await purchasedNotesApi.purchaseNotes(notesId);
       
-      if (responseText.trim().startsWith('<')) {
-        if (response.status === 404) {
-          Alert.alert('Error', 'API endpoint not found. Please check if the server is running.');
-          return;
-        } else if (response.status === 500) {
-          Alert.alert('Error', 'Server error occurred. Please try again later.');
-          return;
+      if (data.success) {
+        if (notesData.price === 0) {
+          Alert.alert('🎉 Success!', 'Successfully acquired the free notes!',
+            [{ text: 'View PDFs', onPress: () => { setHasAccess(true); setPurchaseData(data.purchase); } }]);
         } else {
-          Alert.alert('Error', 'Unexpected server response. Please try again.');
-          return;
-        }
-      }
-      
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error('JSON parse error:', parseError);
-        Alert.alert('Error', 'Invalid response from server. Please try again later.');
-        return;
-      }
-      
-      if (response.ok) {
-        if (data.success) {
-          if (notesData.price === 0) {
-            Alert.alert('🎉 Success!', 'Successfully acquired the free notes!',
-              [{ text: 'View PDFs', onPress: () => { setHasAccess(true); setPurchaseData(data.purchase); } }]);
+          if (data.razorpayOrder && data.purchase) {
+            const enhancedPurchase: PurchaseData = { ...data.purchase, studentId: data.purchase.studentId || session.userId, notesId: data.purchase.notesId || notesId };
+            const enhancedRazorpayOrder: RazorpayOrder = { ...data.razorpayOrder, receipt: data.razorpayOrder.receipt || `receipt_${Date.now()}` };
+            handlePayment(enhancedPurchase, enhancedRazorpayOrder);
           } else {
-            if (data.razorpayOrder && data.purchase) {
-              const enhancedPurchase: PurchaseData = { ...data.purchase, studentId: data.purchase.studentId || userData.id, notesId: data.purchase.notesId || notesId };
-              const enhancedRazorpayOrder: RazorpayOrder = { ...data.razorpayOrder, receipt: data.razorpayOrder.receipt || `receipt_${Date.now()}` };
-              handlePayment(enhancedPurchase, enhancedRazorpayOrder);
-            } else {
-              Alert.alert('Error', 'Failed to initialize payment - missing payment data');
-            }
+            Alert.alert('Error', 'Failed to initialize payment - missing payment data');
           }
-        } else {
-          Alert.alert('Error', data.message || 'Failed to purchase notes');
         }
       } else {
-        if (response.status === 401) {
-          await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName', 'userData']);
-          setIsLoggedIn(false);
-          setUserData(null);
-          setShowLoginBanner(true);
-          Alert.alert('Session Expired', 'Your session has expired. Please sign in again.', [{ text: 'OK' }]);
-          return;
-        }
-        Alert.alert('Error', data.message || `Request failed with status ${response.status}`);
+        Alert.alert('Error', data.message || 'Failed to purchase notes');
       }
     } catch (error) {
-      console.error('Network/Fetch error:', error);
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
+      console.error('Error purchasing notes:', error);
+      if (error instanceof ApiError && error.isNetworkError) {
         Alert.alert('Connection Error', 'Unable to connect to the server. Please check your internet connection.',
           [{ text: 'Retry', onPress: () => handlePurchase() }, { text: 'Cancel', style: 'cancel' }]);
-      } else {
+      } else if (!(error instanceof ApiError && error.isUnauthorized)) {
         const errorMessage = (error instanceof Error && error.message) ? error.message : 'An unexpected error occurred. Please try again.';
         Alert.alert('Error', errorMessage);
       }
@@ -454,19 +341,14 @@ const testPDFAccess = async (pdf: PdfItem) => {
 
   const handlePaymentSuccess = async (paymentData: any) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/purchasedNotes/verify-payment`, {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${userData?.token}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          purchaseId: paymentData.purchaseId || paymentData._id,
-          razorpay_order_id: paymentData.razorpay_order_id,
-          razorpay_payment_id: paymentData.razorpay_payment_id,
-          razorpay_signature: paymentData.razorpay_signature,
-        }),
+      const data = await purchasedNotesApi.verifyPayment({
+        purchaseId: paymentData.purchaseId || paymentData._id,
+        razorpay_order_id: paymentData.razorpay_order_id,
+        razorpay_payment_id: paymentData.razorpay_payment_id,
+        razorpay_signature: paymentData.razorpay_signature,
       });
 
-      const data = await response.json();
-      if (response.ok && data.success) {
+      if (data.success) {
         setHasAccess(true);
         setPurchaseData(data.purchase);
         Alert.alert('🎉 Payment Successful!', 'Your payment has been verified and you now have access to these notes.',
@@ -536,7 +418,7 @@ const testPDFAccess = async (pdf: PdfItem) => {
     if (notesData?.thumbnail?.data && notesData?.thumbnail?.contentType) {
       return { uri: `data:${notesData.thumbnail.contentType};base64,${notesData.thumbnail.data}` };
     }
-    return { uri: `${API_BASE_URL}/paidNotes/${notesId}/thumbnail` };
+    return { uri: paidNotesApi.getThumbnailUrl(notesId) };
   };
 
   // Animation function (same as unpaid notes)
@@ -0,0 +1,628 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  ScrollView,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  ApiError,
+  CalendarEvent,
+  LinkedStudent,
+  attendanceApi,
+  calendarApi,
+  parentsApi,
+} from '../api';
+import { useAuth } from '../context/AuthContext';
+import AcademicDetailedRecordComponent from '../components/AcademicDetailedRecordComponent';
+
+interface ParentDashboardScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+// Brand configuration
+const BRAND = {
+  name: "SUJHAV",
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  warningColor: '#ffaa00',
+  dangerColor: '#ff6b6b',
+};
+
+type DashboardTab = 'attendance' | 'reports' | 'events';
+
+const TABS: { key: DashboardTab; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { key: 'attendance', label: 'Attendance', icon: 'event-available' },
+  { key: 'reports', label: 'Report Card', icon: 'assessment' },
+  { key: 'events', label: 'Events', icon: 'event' },
+];
+
+interface AttendanceSummary {
+  totalSubjects: number;
+  totalClassesAcrossSubjects: number;
+  totalPresentAcrossSubjects: number;
+  overallAttendancePercentage: number;
+}
+
+// Read-only view of a parent's linked children: attendance, report card and upcoming events
+const ParentDashboardScreen: React.FC<ParentDashboardScreenProps> = ({ navigation }) => {
+  const { user, signOut } = useAuth();
+
+  const [children, setChildren] = useState<LinkedStudent[]>([]);
+  const [selectedChild, setSelectedChild] = useState<LinkedStudent | null>(null);
+  const [activeTab, setActiveTab] = useState<DashboardTab>('attendance');
+  const [attendance, setAttendance] = useState<AttendanceSummary | null>(null);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTabLoading, setIsTabLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const fetchChildren = useCallback(async () => {
+    try {
+      const response = await parentsApi.getMyChildren();
+      setChildren(response.data);
+      setSelectedChild((current) =>
+        response.data.find((child) => child._id === current?._id) || response.data[0] || null
+      );
+    } catch (error) {
+      console.error('Error fetching linked students:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', 'Failed to load your linked students');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchTabData = useCallback(async (child: LinkedStudent, tab: DashboardTab) => {
+    // The report card component loads its own data
+    if (tab === 'reports') return;
+
+    setIsTabLoading(true);
+    try {
+      if (tab === 'attendance') {
+        const response = await attendanceApi.getStudentAttendanceRecords(child._id);
+        setAttendance(response.data.overallStats);
+      } else {
+        const response = await calendarApi.getStudentEvents({ studentId: child._id });
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        setEvents(response.data.filter((event) => new Date(event.date) >= today));
+      }
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        // Not assigned to any batch yet
+        setAttendance(null);
+        return;
+      }
+      console.error(`Error fetching ${tab}:`, error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load data');
+    } finally {
+      setIsTabLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChildren();
+  }, [fetchChildren]);
+
+  useEffect(() => {
+    if (selectedChild) {
+      fetchTabData(selectedChild, activeTab);
+    }
+  }, [selectedChild, activeTab, fetchTabData]);
+
+  const onRefresh = async () => {
+    setIsRefreshing(true);
+    await fetchChildren();
+    setIsRefreshing(false);
+  };
+
+  const handleLogout = () => {
+    Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setIsSigningOut(true);
+            // Clearing the session returns the app to the guest screens
+            await signOut();
+          } catch (error) {
+            console.error('Logout error:', error);
+            Alert.alert('Error', 'Failed to sign out. Please try again.');
+          } finally {
+            setIsSigningOut(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const getPercentageColor = (percentage: number) => {
+    if (percentage >= 75) return BRAND.primaryColor;
+    if (percentage >= 60) return BRAND.warningColor;
+    return BRAND.dangerColor;
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const renderChildSelector = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.childSelector}
+    >
+      {children.map((child) => {
+        const selected = child._id === selectedChild?._id;
+        return (
+          <TouchableOpacity
+            key={child._id}
+            style={[styles.childChip, selected && styles.childChipSelected]}
+            onPress={() => setSelectedChild(child)}
+          >
+            <Text style={[styles.childChipText, selected && styles.childChipTextSelected]}>
+              {child.name}
+            </Text>
+            {!!child.class && <Text style={styles.childChipSubtext}>Class {child.class}</Text>}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderAttendance = () => {
+    if (!selectedChild) return null;
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Overall Attendance</Text>
+        {attendance ? (
+          <View style={styles.statsRow}>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{attendance.totalSubjects}</Text>
+              <Text style={styles.statLabel}>Subjects</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{attendance.totalClassesAcrossSubjects}</Text>
+              <Text style={styles.statLabel}>Classes</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{attendance.totalPresentAcrossSubjects}</Text>
+              <Text style={styles.statLabel}>Present</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text
+                style={[
+                  styles.statValue,
+                  { color: getPercentageColor(attendance.overallAttendancePercentage) },
+                ]}
+              >
+                {attendance.overallAttendancePercentage.toFixed(1)}%
+              </Text>
+              <Text style={styles.statLabel}>Attendance</Text>
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.emptyText}>
+            {selectedChild.name} is not assigned to any batch yet.
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={styles.viewButton}
+          onPress={() =>
+            navigation.navigate('StudentAttendanceRecords', {
+              studentId: selectedChild._id,
+              studentName: selectedChild.name,
+            })
+          }
+        >
+          <Text style={styles.viewButtonText}>View Subject-wise Attendance</Text>
+          <MaterialIcons name="chevron-right" size={20} color={BRAND.backgroundColor} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEvents = () => {
+    if (!events.length) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="event-busy" size={56} color="#666" />
+          <Text style={styles.emptyText}>No upcoming events</Text>
+        </View>
+      );
+    }
+
+    return events.map((event) => (
+      <View key={event._id} style={styles.eventCard}>
+        <View style={styles.eventDate}>
+          <Text style={styles.eventDateText}>{formatDate(event.date)}</Text>
+          <Text style={styles.eventTimeText}>{event.startTime} - {event.endTime}</Text>
+        </View>
+        <View style={styles.eventInfo}>
+          <Text style={styles.eventTitle}>{event.title}</Text>
+          {!!event.description && (
+            <Text style={styles.eventDescription} numberOfLines={2}>{event.description}</Text>
+          )}
+          <Text style={styles.eventType}>
+            {event.type.toUpperCase()}
+            {typeof event.batchId === 'object' ? ` • ${event.batchId.batchName}` : ''}
+          </Text>
+        </View>
+      </View>
+    ));
+  };
+
+  const renderContent = () => {
+    if (!selectedChild) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="family-restroom" size={64} color="#666" />
+          <Text style={styles.emptyText}>No students linked yet</Text>
+          <Text style={styles.emptySubtext}>
+            Please contact the institute to link your child's account.
+          </Text>
+        </View>
+      );
+    }
+
+    if (activeTab === 'reports') {
+      return (
+        <AcademicDetailedRecordComponent
+          key={selectedChild._id}
+          studentId={selectedChild._id}
+          studentName={selectedChild.name}
+          studentEmail={selectedChild.email}
+        />
+      );
+    }
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={onRefresh}
+            colors={[BRAND.primaryColor]}
+            tintColor={BRAND.primaryColor}
+          />
+        }
+      >
+        {isTabLoading ? (
+          <ActivityIndicator size="large" color={BRAND.primaryColor} style={styles.tabLoader} />
+        ) : activeTab === 'attendance' ? (
+          renderAttendance()
+        ) : (
+          renderEvents()
+        )}
+      </ScrollView>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+        <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.headerSection}>
+        <View style={styles.logoContainer}>
+          <Image
+            source={require('../assets/images/logo-sujhav.png')}
+            style={styles.headerLogoImage}
+            resizeMode="contain"
+          />
+        </View>
+        <View style={styles.headerTextContainer}>
+          <Text style={styles.headerTitle}>Parent Dashboard</Text>
+          <Text style={styles.headerSubtitle}>Welcome back, {user?.name || 'Parent'}</Text>
+        </View>
+        <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} disabled={isSigningOut}>
+          {isSigningOut ? (
+            <ActivityIndicator size="small" color={BRAND.dangerColor} />
+          ) : (
+            <MaterialIcons name="logout" size={20} color={BRAND.dangerColor} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {children.length > 1 && renderChildSelector()}
+
+      {selectedChild && (
+        <View style={styles.tabBar}>
+          {TABS.map((tab) => {
+            const active = tab.key === activeTab;
+            return (
+              <TouchableOpacity
+                key={tab.key}
+                style={[styles.tab, active && styles.tabActive]}
+                onPress={() => setActiveTab(tab.key)}
+              >
+                <MaterialIcons
+                  name={tab.icon}
+                  size={18}
+                  color={active ? BRAND.backgroundColor : BRAND.textSecondary}
+                />
+                <Text style={[styles.tabText, active && styles.tabTextActive]}>{tab.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.content}>{renderContent()}</View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    marginTop: 15,
+  },
+  headerSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 20,
+  },
+  logoContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BRAND.accentColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: BRAND.primaryColor + '30',
+  },
+  headerLogoImage: {
+    width: 24,
+    height: 24,
+  },
+  headerTextContainer: {
+    flex: 1,
+    marginLeft: 15,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 2,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#aaa',
+  },
+  logoutButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BRAND.accentColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ff6b6b30',
+  },
+  childSelector: {
+    paddingHorizontal: 20,
+    paddingBottom: 15,
+  },
+  childChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: BRAND.cardBackground,
+    marginRight: 10,
+  },
+  childChipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  childChipText: {
+    color: BRAND.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  childChipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  childChipSubtext: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginBottom: 15,
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 12,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  tabActive: {
+    backgroundColor: BRAND.primaryColor,
+  },
+  tabText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  tabTextActive: {
+    color: BRAND.backgroundColor,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  scrollContent: {
+    paddingBottom: 30,
+  },
+  tabLoader: {
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 136, 0.2)',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+    marginBottom: 16,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: BRAND.textSecondary,
+    marginTop: 4,
+  },
+  viewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 20,
+  },
+  viewButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 15,
+    fontWeight: '700',
+    marginRight: 4,
+  },
+  eventCard: {
+    flexDirection: 'row',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: BRAND.primaryColor,
+  },
+  eventDate: {
+    width: 90,
+    marginRight: 12,
+  },
+  eventDateText: {
+    color: BRAND.primaryColor,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  eventTimeText: {
+    color: BRAND.textSecondary,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  eventDescription: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  eventType: {
+    color: '#888',
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 6,
+    letterSpacing: 0.5,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default ParentDashboardScreen;
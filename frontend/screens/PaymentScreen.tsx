@@ -16,10 +16,12 @@ import {
   AlertButton,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../App';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { WebView } from 'react-native-webview'; // EXPO COMPATIBLE: Use WebView for Razorpay
 import * as Linking from 'expo-linking'; // EXPO COMPATIBLE: For handling deep links
-import { API_BASE } from '../config/api';
+import { API_BASE, ApiError, Bundle, PaymentItemType, RazorpayOrder, bundlesApi, enrollmentApi, getSession, paymentsApi } from '../api';
+import CouponInput from '../components/CouponInput';
 
 // Interface for Razorpay payment response
 interface PaymentResponse {
@@ -29,28 +31,27 @@ interface PaymentResponse {
 }
 
 interface PaymentScreenProps {
-  navigation: NavigationProp<any>;
-  route: RouteProp<any>;
+  navigation: NavigationProp<RootStackParamList, 'PaymentScreen'>;
+  route: RouteProp<RootStackParamList, 'PaymentScreen'>;
 }
 
-interface PaymentData {
-  enrollment: {
+// A course checkout passes enrollment and course; a bundle checkout passes bundle instead.
+// The payment is verified here, so callers get no callback.
+export interface PaymentData {
+  enrollment?: {
     _id: string;
     studentId: string;
     courseId: string;
+    mode?: 'online' | 'offline' | 'hybrid';
+    schedule?: string;
     paymentDetails: {
       amount: number;
       currency: string;
       razorpayOrderId: string;
     };
   };
-  razorpayOrder: {
-    id: string;
-    amount: number;
-    currency: string;
-    receipt: string;
-  };
-  course: {
+  razorpayOrder: RazorpayOrder;
+  course?: {
     _id: string;
     courseTitle: string;
     tutor: string;
@@ -58,7 +59,11 @@ interface PaymentData {
     courseThumbnail: string;
     type: 'paid' | 'free';
   };
-  onPaymentSuccess: (paymentData: any) => void;
+  bundle?: Bundle;
+  // Set when paying one installment of a course; later installments come from My Content
+  installment?: { number: number; count: number };
+  // Set when extending an enrollment in the course from My Content
+  renewal?: boolean;
 }
 
 const { width, height } = Dimensions.get('window');
@@ -75,9 +80,26 @@ const BRAND = {
 };
 
 const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
-  const { enrollment, razorpayOrder, course, onPaymentSuccess } = route.params as PaymentData;
+  const params = route.params;
+  const { course, bundle, installment, renewal } = params;
+
+  // What is being bought, for the summary, the coupon check and the Razorpay checkout
+  const installmentLabel = renewal
+    ? 'Renewal'
+    : installment ? `Installment ${installment.number} of ${installment.count}` : '';
+  const checkoutTitle = bundle
+    ? bundle.bundleTitle
+    : installmentLabel
+      ? `${course?.courseTitle ?? ''} (${installmentLabel})`
+      : course?.courseTitle ?? '';
+  const listPrice = bundle ? bundle.price : installmentLabel ? params.razorpayOrder.originalAmount : course?.price ?? 0;
+  const itemType: PaymentItemType = bundle ? 'Bundle' : course?.type === 'paid' ? 'PaidCourse' : 'UnpaidCourse';
+  const itemId = bundle ? bundle._id : course?._id ?? '';
 
   // State management
+  // Applying or removing a coupon replaces the pending enrollment (or bundle purchase) and its order
+  const [enrollment, setEnrollment] = useState(params.enrollment);
+  const [razorpayOrder, setRazorpayOrder] = useState(params.razorpayOrder);
   const [loading, setLoading] = useState(false);
   const [paymentProcessing, setPaymentProcessing] = useState(false);
   const [userData, setUserData] = useState<any>(null);
@@ -289,72 +311,6 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
 </html>`;
   };
 
-  // FIXED: Proper API URL construction
-  const getApiUrl = (endpoint: string) => {
-    const baseUrl = API_BASE?.replace(/\/+$/, '');
-    const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    
-    if (baseUrl.endsWith('/api')) {
-      return `${baseUrl}${cleanEndpoint}`;
-    } else {
-      return `${baseUrl}/api${cleanEndpoint}`;
-    }
-  };
-
-  // Custom timeout implementation for fetch
-  const fetchWithTimeout = (url: string, options: RequestInit, timeout: number = 30000): Promise<Response> => {
-    return new Promise((resolve, reject) => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-        reject(new Error('Request timeout'));
-      }, timeout);
-
-      fetch(url, {
-        ...options,
-        signal: controller.signal,
-      })
-        .then(response => {
-          clearTimeout(timeoutId);
-          resolve(response);
-        })
-        .catch(error => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-    });
-  };
-
-  // Enhanced network request with retry logic
-  const makeNetworkRequest = async (url: string, options: RequestInit, retries = 3) => {
-    for (let i = 0; i < retries; i++) {
-      try {
-        console.log(`Attempting request ${i + 1}/${retries} to:`, url);
-        
-        const response = await fetchWithTimeout(url, options, 30000);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Server error response:', errorText);
-          throw new Error(`HTTP ${response.status}: ${errorText}`);
-        }
-
-        const data = await response.json();
-        return { response, data };
-
-      } catch (error) {
-        console.error(`Request attempt ${i + 1} failed:`, error);
-        
-        if (i === retries - 1) {
-          throw error;
-        }
-        
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, i) * 1000));
-      }
-    }
-  };
-
   // Timer effect
   useEffect(() => {
     const timer = setInterval(() => {
@@ -408,19 +364,17 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
 
   const getUserData = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const userEmail = await AsyncStorage.getItem('userEmail');
+      const session = await getSession();
       const userPhone = await AsyncStorage.getItem('userPhone');
       
-      if (token && userId && userName) {
+      if (session) {
+        const { token, userId, userName, email: userEmail } = session;
         setUserData({ token, userId, userName, userEmail, userPhone });
         console.log('User data loaded:', { userId, userName, hasToken: !!token });
       } else {
         console.error('Missing user data');
         Alert.alert('Error', 'User authentication data not found. Please login again.');
-        navigation.navigate('Login');
+        navigation.navigate('SignIn');
       }
     } catch (error) {
       console.error('Error getting user data:', error);
@@ -463,6 +417,30 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
     );
   };
 
+  const recreateOrder = async (couponCode?: string) => {
+    if (bundle) {
+      const response = await bundlesApi.purchaseBundle(bundle._id, couponCode);
+      setRazorpayOrder(response.data.razorpayOrder);
+      return;
+    }
+
+    const response = await enrollmentApi.enroll({
+      courseId: itemId,
+      courseType: itemType === 'PaidCourse' ? 'PaidCourse' : 'UnpaidCourse',
+      mode: enrollment?.mode || 'online',
+      schedule: enrollment?.schedule || 'flexible',
+      couponCode,
+    });
+    if (!response.razorpayOrder) {
+      throw new Error('Failed to create payment order');
+    }
+    setEnrollment(response.enrollment as unknown as PaymentData['enrollment']);
+    setRazorpayOrder(response.razorpayOrder);
+  };
+
+  // What the order actually charges, after any coupon
+  const courseFee = razorpayOrder.amount / 100;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -486,23 +464,19 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
     try {
       if (!userData || !userData.token) {
         Alert.alert('Error', 'Please login again to continue with payment.');
-        navigation.navigate('Login');
+        navigation.navigate('SignIn');
         return;
       }
 
       setPaymentProcessing(true);
       setNetworkError(null);
 
-      console.log('Initializing Razorpay payment via WebView...');
-      console.log('Enrollment ID:', enrollment._id);
-      console.log('Razorpay Order ID:', razorpayOrder.id);
-      
       // EXPO: Create Razorpay options
       const options = {
-        description: course.courseTitle,
-        image: getImageSource(course.courseThumbnail).uri,
+        description: checkoutTitle,
+        image: getImageSource(course?.courseThumbnail ?? '').uri,
         currency: razorpayOrder.currency,
-        key: 'rzp_test_za8EBHBiDeO6E4', // Your Razorpay test key
+        key: razorpayOrder.keyId, // Sent by the server with the order
         amount: razorpayOrder.amount, // Amount in paise
         order_id: razorpayOrder.id,
         name: BRAND.name,
@@ -604,28 +578,24 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
       signature: paymentResponse.razorpay_signature ? 'Present' : 'Missing'
     });
 
+    // The first installment completes the enrollment like a full payment does
+    if (bundle || renewal || (installment && installment.number > 1)) {
+      await verifyWithPaymentsModule(paymentResponse);
+      return;
+    }
+
     // Verify payment with backend
     const verificationPayload = {
-      enrollmentId: enrollment._id,
+      enrollmentId: enrollment?._id ?? '',
       razorpay_order_id: paymentResponse.razorpay_order_id,
       razorpay_payment_id: paymentResponse.razorpay_payment_id,
       razorpay_signature: paymentResponse.razorpay_signature,
     };
 
     console.log('Sending verification request...');
-    const verificationUrl = getApiUrl('/enrollment/verify-payment');
-    
-    const result = await makeNetworkRequest(verificationUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${userData.token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(verificationPayload),
-    });
+    const result = await enrollmentApi.verifyPayment(verificationPayload);
 
-    if (result && result.data && result.data.success) {
+    if (result.success) {
       setPaymentProcessing(false);
       
       // Show success animation - FIXED: useNativeDriver set to false
@@ -644,8 +614,8 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
               text: 'Start Learning',
               onPress: () => {
                 navigation.navigate('CourseContent', { 
-                  courseId: course._id,
-                  enrollmentId: result.data.enrollment._id
+                  courseId: itemId,
+                  enrollmentId: result.enrollment._id
                 });
               },
             },
@@ -653,7 +623,7 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
         );
       }, 1000);
     } else {
-      const errorMessage = result?.data?.message || 'Payment verification failed';
+      const errorMessage = result.message || 'Payment verification failed';
       throw new Error(errorMessage);
     }
   } catch (error) {
@@ -665,19 +635,16 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
     let displayMessage = 'Payment verification failed.';
     let actions: AlertButton[] = [{ text: 'OK', style: 'cancel' }];
     
-    if (errorMessage.includes('Network request failed') || 
-        errorMessage.includes('timeout') || 
-        errorMessage.includes('fetch')) {
+    if (error instanceof ApiError && error.isNetworkError) {
       displayMessage = 'Network connection error. Please check your internet connection and try again.';
       actions = [
         { text: 'Retry', onPress: () => handlePaymentSuccess(paymentResponse) },
         { text: 'Cancel', style: 'cancel' }
       ];
-    } else if (errorMessage.includes('authentication') || 
-               errorMessage.includes('401')) {
+    } else if (error instanceof ApiError && error.isUnauthorized) {
       displayMessage = 'Session expired. Please login again.';
       actions = [
-        { text: 'Login', onPress: () => navigation.navigate('Login') },
+        { text: 'Login', onPress: () => navigation.navigate('SignIn') },
         { text: 'Cancel', style: 'cancel' }
       ];
     }
@@ -686,6 +653,31 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ navigation, route }) => {
   }
 };
 
+  // Bundles, renewals and later installments verify through the payments module, which unlocks
+  // every item in the bundle, extends the enrollment or records the installment. Errors are handled by handlePaymentSuccess.
+  const verifyWithPaymentsModule = async (paymentResponse: PaymentResponse) => {
+    await paymentsApi.verifyPayment(paymentResponse);
+    setPaymentProcessing(false);
+
+    Animated.timing(progressAnim, {
+      toValue: 1,
+      duration: 500,
+      useNativeDriver: false,
+    }).start();
+
+    setTimeout(() => {
+      Alert.alert(
+        'Payment Successful! 🎉',
+        bundle
+          ? 'Payment verified successfully!\nEverything in this bundle is now in My Content.'
+          : renewal
+            ? 'Payment verified successfully!\nYour access to this course has been extended.'
+            : `Payment verified successfully!\n${installmentLabel} is paid.`,
+        [{ text: 'Go to My Content', onPress: () => navigation.navigate('MyContent') }]
+      );
+    }, 1000);
+  };
+
 // Alternative approach: Use transform scaleX instead of width
 // Replace the progress bar animation with this more performant approach:
 
@@ -854,43 +846,86 @@ const renderProgressBar = () => {
           {renderNetworkError()}
 
           {/* Course Details Card */}
-          <View style={styles.courseCard}>
-            <Image
-              source={getImageSource(course.courseThumbnail)}
-              style={styles.courseImage}
-              resizeMode="cover"
-            />
-            <View style={styles.courseInfo}>
-              <Text style={styles.courseTitle}>{course.courseTitle}</Text>
-              <Text style={styles.courseTutor}>by {course.tutor}</Text>
-              <View style={styles.priceContainer}>
-                <Text style={styles.priceText}>₹{course.price}</Text>
-                <Text style={styles.priceLabel}>Course Fee</Text>
+          {course && (
+            <View style={styles.courseCard}>
+              <Image
+                source={getImageSource(course.courseThumbnail)}
+                style={styles.courseImage}
+                resizeMode="cover"
+              />
+              <View style={styles.courseInfo}>
+                <Text style={styles.courseTitle}>{course.courseTitle}</Text>
+                <Text style={styles.courseTutor}>by {course.tutor}</Text>
+                <View style={styles.priceContainer}>
+                  <Text style={styles.priceText}>₹{course.price}</Text>
+                  <Text style={styles.priceLabel}>Course Fee</Text>
+                </View>
               </View>
             </View>
-          </View>
+          )}
+
+          {/* Bundle Details Card */}
+          {bundle && (
+            <View style={styles.courseCard}>
+              <View style={styles.courseInfo}>
+                <Text style={styles.courseTitle}>{bundle.bundleTitle}</Text>
+                {bundle.courses.map((item) => (
+                  <Text key={item._id} style={styles.bundleItemText}>📚 {item.courseTitle}</Text>
+                ))}
+                {bundle.notes.map((item) => (
+                  <Text key={item._id} style={styles.bundleItemText}>📝 {item.notesTitle}</Text>
+                ))}
+                {bundle.materials.map((item) => (
+                  <Text key={item._id} style={styles.bundleItemText}>📦 {item.materialTitle}</Text>
+                ))}
+                <View style={styles.priceContainer}>
+                  <Text style={styles.priceText}>₹{bundle.price}</Text>
+                  <Text style={styles.priceLabel}>Bundle Price</Text>
+                </View>
+              </View>
+            </View>
+          )}
 
           {/* Payment Summary */}
           <View style={styles.summaryCard}>
             <Text style={styles.summaryTitle}>Payment Summary</Text>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Course Fee</Text>
-              <Text style={styles.summaryValue}>₹{course.price}</Text>
+              <Text style={styles.summaryLabel}>{bundle ? 'Bundle Price' : installmentLabel || 'Course Fee'}</Text>
+              <Text style={styles.summaryValue}>₹{listPrice}</Text>
             </View>
+            {razorpayOrder.discount > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Coupon ({razorpayOrder.couponCode})</Text>
+                <Text style={[styles.summaryValue, { color: BRAND.primaryColor }]}>-₹{razorpayOrder.discount}</Text>
+              </View>
+            )}
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Platform Fee</Text>
               <Text style={styles.summaryValue}>₹0</Text>
             </View>
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>GST (18%)</Text>
-              <Text style={styles.summaryValue}>₹{Math.round(course.price * 0.18)}</Text>
+              <Text style={styles.summaryValue}>₹{Math.round(courseFee * 0.18)}</Text>
             </View>
             <View style={[styles.summaryRow, styles.summaryTotal]}>
               <Text style={styles.summaryTotalLabel}>Total Amount</Text>
-              <Text style={styles.summaryTotalValue}>₹{Math.round(course.price * 1.18)}</Text>
+              <Text style={styles.summaryTotalValue}>₹{Math.round(courseFee * 1.18)}</Text>
             </View>
           </View>
 
+          {/* Coupons don't apply to installment plans or renewals */}
+          {!installment && !renewal && (
+            <CouponInput
+              itemType={itemType}
+              itemId={itemId}
+              appliedCode={razorpayOrder.couponCode}
+              discount={razorpayOrder.discount}
+              disabled={paymentProcessing}
+              onApply={(preview) => recreateOrder(preview.code)}
+              onRemove={() => recreateOrder()}
+            />
+          )}
+
           {/* Payment Methods */}
           <View style={styles.paymentMethodsCard}>
             <Text style={styles.paymentMethodsTitle}>Select Payment Method</Text>
@@ -928,7 +963,7 @@ Your payment information is encrypted and secure. We never store your card detai
                 </View>
               ) : (
                 <Text style={styles.payButtonText}>
-                  Pay ₹{Math.round(course.price * 1.18)}
+                  Pay ₹{Math.round(courseFee * 1.18)}
                 </Text>
               )}
             </TouchableOpacity>
@@ -1047,6 +1082,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 15,
   },
+  bundleItemText: {
+    color: '#ccc',
+    fontSize: 15,
+    marginBottom: 6,
+  },
   priceContainer: {
     alignItems: 'center',
   },
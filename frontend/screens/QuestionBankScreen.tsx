@@ -0,0 +1,607 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TextInput,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  ApiError,
+  BankQuestion,
+  ExamCategory,
+  Pagination,
+  QuestionDifficulty,
+  QuestionTag,
+  QuestionType,
+  Session,
+  getSession,
+  questionBankApi,
+} from '../api';
+import QuestionBankEditorModal, {
+  DIFFICULTY_OPTIONS,
+  EXAM_CATEGORY_OPTIONS,
+} from '../components/QuestionBankEditorModal';
+import { QUESTION_TYPE_OPTIONS, getQuestionTypeLabel } from '../components/QuestionEditorModal';
+
+interface QuestionBankScreenProps {
+  navigation: NavigationProp<any>;
+}
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const getDifficultyOption = (difficulty: QuestionDifficulty) =>
+  DIFFICULTY_OPTIONS.find((option) => option.value === difficulty) || DIFFICULTY_OPTIONS[1];
+
+const getCreatorId = (question: BankQuestion) =>
+  typeof question.createdBy === 'string' ? question.createdBy : question.createdBy._id;
+
+const getCreatorName = (question: BankQuestion) =>
+  typeof question.createdBy === 'string' ? '' : question.createdBy.name;
+
+const formatAnswer = (question: BankQuestion) => {
+  if (question.questionType === 'single' || question.questionType === 'multiple') {
+    return question.correctOptions.map((index) => String.fromCharCode(65 + index)).join(', ');
+  }
+  return question.tolerance > 0 ? `${question.correctAnswer} ± ${question.tolerance}` : String(question.correctAnswer);
+};
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+export default function QuestionBankScreen({ navigation }: QuestionBankScreenProps) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [tags, setTags] = useState<QuestionTag[]>([]);
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [search, setSearch] = useState('');
+  const [subject, setSubject] = useState<string | undefined>(undefined);
+  const [chapter, setChapter] = useState<string | undefined>(undefined);
+  const [topic, setTopic] = useState<string | undefined>(undefined);
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | undefined>(undefined);
+  const [examCategory, setExamCategory] = useState<ExamCategory | undefined>(undefined);
+  const [questionType, setQuestionType] = useState<QuestionType | undefined>(undefined);
+  const [mine, setMine] = useState(false);
+
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Ignore responses from searches that have since been replaced
+  const requestId = useRef(0);
+
+  const fetchQuestions = useCallback(async (page = 1) => {
+    const currentRequest = ++requestId.current;
+    try {
+      const response = await questionBankApi.getQuestions({
+        search: search.trim() || undefined,
+        subject,
+        chapter,
+        topic,
+        difficulty,
+        examCategory,
+        questionType,
+        mine: mine || undefined,
+        page,
+        limit: PAGE_SIZE,
+      });
+      if (currentRequest !== requestId.current) return;
+
+      setQuestions((previous) => (page === 1 ? response.data : [...previous, ...response.data]));
+      setPagination(response.pagination);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load questions');
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [search, subject, chapter, topic, difficulty, examCategory, questionType, mine]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await questionBankApi.getQuestionTags();
+      setTags(response.data);
+    } catch (error) {
+      console.error('Error fetching question tags:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    getSession().then(setSession);
+    fetchTags();
+  }, [fetchTags]);
+
+  // Refetch from the first page whenever the filters change; typing is debounced
+  useEffect(() => {
+    setLoading(true);
+    const timer = setTimeout(() => fetchQuestions(1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [fetchQuestions]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([fetchQuestions(1), fetchTags()]);
+    setRefreshing(false);
+  };
+
+  const loadMore = () => {
+    if (loading || loadingMore || !pagination || pagination.page >= pagination.pages) return;
+    setLoadingMore(true);
+    fetchQuestions(pagination.page + 1);
+  };
+
+  // Chapters and topics narrow to the selected subject and chapter
+  const subjects = unique(tags.map((tag) => tag.subject));
+  const chapters = subject ? unique(tags.filter((tag) => tag.subject === subject).map((tag) => tag.chapter)) : [];
+  const topics = subject && chapter
+    ? unique(tags.filter((tag) => tag.subject === subject && tag.chapter === chapter).map((tag) => tag.topic))
+    : [];
+
+  const selectSubject = (value: string) => {
+    setSubject(subject === value ? undefined : value);
+    setChapter(undefined);
+    setTopic(undefined);
+  };
+
+  const selectChapter = (value: string) => {
+    setChapter(chapter === value ? undefined : value);
+    setTopic(undefined);
+  };
+
+  const canEdit = (question: BankQuestion) =>
+    session?.role === 'admin' || getCreatorId(question) === session?.userId;
+
+  const openEditor = (question: BankQuestion | null) => {
+    setEditingQuestion(question);
+    setEditorVisible(true);
+  };
+
+  const handleSaved = (saved: BankQuestion) => {
+    setEditorVisible(false);
+    setQuestions((previous) =>
+      editingQuestion
+        ? previous.map((question) => (question._id === saved._id ? { ...saved, createdBy: question.createdBy } : question))
+        : [saved, ...previous]
+    );
+    if (!editingQuestion && pagination) {
+      setPagination({ ...pagination, total: pagination.total + 1 });
+    }
+    fetchTags();
+  };
+
+  const handleDelete = (question: BankQuestion) => {
+    Alert.alert('Delete Question', 'Remove this question from the bank?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await questionBankApi.deleteQuestion(question._id);
+            setQuestions((previous) => previous.filter((item) => item._id !== question._id));
+            if (pagination) {
+              setPagination({ ...pagination, total: Math.max(pagination.total - 1, 0) });
+            }
+            fetchTags();
+          } catch (error) {
+            console.error('Error deleting question:', error);
+            if (error instanceof ApiError && error.isUnauthorized) return;
+            Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to delete question');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderChipRow = <T extends string>(
+    options: { value: T; label: string }[],
+    selectedValue: T | undefined,
+    onSelect: (value: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+      {options.map((option) => {
+        const selected = selectedValue === option.value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+  const renderQuestion = ({ item }: { item: BankQuestion }) => {
+    const difficultyOption = getDifficultyOption(item.difficulty);
+    const expanded = expandedId === item._id;
+    const tagPath = [item.subject, item.chapter, item.topic].filter(Boolean).join(' › ');
+    const isChoice = item.questionType === 'single' || item.questionType === 'multiple';
+
+    return (
+      <TouchableOpacity
+        style={styles.questionCard}
+        onPress={() => setExpandedId(expanded ? null : item._id)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.tagPath} numberOfLines={1}>{tagPath}</Text>
+        <Text style={styles.questionText} numberOfLines={expanded ? undefined : 3}>{item.questionText}</Text>
+
+        {expanded && (
+          <View style={styles.details}>
+            {isChoice && item.options.map((option, index) => (
+              <Text
+                key={index}
+                style={[styles.optionText, item.correctOptions.includes(index) && styles.optionCorrect]}
+              >
+                {String.fromCharCode(65 + index)}. {option}
+              </Text>
+            ))}
+            <Text style={styles.answerText}>Answer: {formatAnswer(item)}</Text>
+            {!!item.solution && <Text style={styles.solutionText}>{item.solution}</Text>}
+            {!!getCreatorName(item) && <Text style={styles.creatorText}>Added by {getCreatorName(item)}</Text>}
+          </View>
+        )}
+
+        <View style={styles.badgeRow}>
+          <View style={[styles.badge, { backgroundColor: difficultyOption.color + '30' }]}>
+            <Text style={[styles.badgeText, { color: difficultyOption.color }]}>{difficultyOption.label}</Text>
+          </View>
+          <View style={[styles.badge, { backgroundColor: BRAND.accentColor }]}>
+            <Text style={[styles.badgeText, { color: BRAND.textSecondary }]}>{getQuestionTypeLabel(item.questionType)}</Text>
+          </View>
+          {item.examCategories.map((category) => (
+            <View key={category} style={[styles.badge, { backgroundColor: 'rgba(0, 255, 136, 0.1)' }]}>
+              <Text style={[styles.badgeText, { color: BRAND.primaryColor }]}>
+                {EXAM_CATEGORY_OPTIONS.find((option) => option.value === category)?.label || category}
+              </Text>
+            </View>
+          ))}
+          {item.images.length > 0 && (
+            <View style={styles.imageCount}>
+              <MaterialIcons name="image" size={14} color="#888" />
+              <Text style={styles.imageCountText}>{item.images.length}</Text>
+            </View>
+          )}
+          {canEdit(item) && (
+            <View style={styles.cardActions}>
+              <TouchableOpacity style={styles.cardAction} onPress={() => openEditor(item)}>
+                <MaterialIcons name="edit" size={18} color={BRAND.primaryColor} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.cardAction} onPress={() => handleDelete(item)}>
+                <MaterialIcons name="delete" size={18} color={BRAND.dangerColor} />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Question Bank</Text>
+          {pagination && <Text style={styles.headerSubtitle}>{pagination.total} questions</Text>}
+        </View>
+        <TouchableOpacity style={styles.backButton} onPress={() => openEditor(null)}>
+          <MaterialIcons name="add" size={26} color={BRAND.primaryColor} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Search & Filters */}
+      <View style={styles.filters}>
+        <View style={styles.searchContainer}>
+          <MaterialIcons name="search" size={20} color="#666666" />
+          <TextInput
+            style={styles.searchInput}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search questions, chapters or topics"
+            placeholderTextColor="#666666"
+            autoCorrect={false}
+          />
+          {!!search && (
+            <TouchableOpacity onPress={() => setSearch('')}>
+              <MaterialIcons name="close" size={18} color="#666666" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {subjects.length > 0 && renderChipRow(toOptions(subjects), subject, selectSubject)}
+        {chapters.length > 0 && renderChipRow(toOptions(chapters), chapter, selectChapter)}
+        {topics.length > 0 && renderChipRow(toOptions(topics), topic, (value) => setTopic(topic === value ? undefined : value))}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+          <TouchableOpacity style={[styles.chip, mine && styles.chipSelected]} onPress={() => setMine(!mine)}>
+            <Text style={[styles.chipText, mine && styles.chipTextSelected]}>Mine</Text>
+          </TouchableOpacity>
+          {DIFFICULTY_OPTIONS.map((option) => {
+            const selected = difficulty === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setDifficulty(selected ? undefined : option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+          {EXAM_CATEGORY_OPTIONS.map((option) => {
+            const selected = examCategory === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setExamCategory(selected ? undefined : option.value)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        {renderChipRow(QUESTION_TYPE_OPTIONS, questionType, (value) =>
+          setQuestionType(questionType === value ? undefined : value)
+        )}
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={questions}
+          keyExtractor={(item) => item._id}
+          renderItem={renderQuestion}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.4}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
+            />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={BRAND.primaryColor} style={styles.footerLoader} /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="quiz" size={56} color="#666" />
+              <Text style={styles.emptyText}>No questions found</Text>
+            </View>
+          }
+        />
+      )}
+
+      <QuestionBankEditorModal
+        visible={editorVisible}
+        question={editingQuestion}
+        tags={tags}
+        authToken={session?.token || null}
+        onSaved={handleSaved}
+        onClose={() => setEditorVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 12,
+    height: 46,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  chipScroll: {
+    flexGrow: 0,
+    marginBottom: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  questionCard: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  tagPath: {
+    color: BRAND.primaryColor,
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  questionText: {
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  details: {
+    marginTop: 10,
+  },
+  optionText: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  optionCorrect: {
+    color: BRAND.primaryColor,
+    fontWeight: '600',
+  },
+  answerText: {
+    color: BRAND.primaryColor,
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  solutionText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  creatorText: {
+    color: '#888888',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  imageCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  imageCountText: {
+    color: '#888888',
+    fontSize: 12,
+    marginLeft: 2,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    marginLeft: 'auto',
+  },
+  cardAction: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
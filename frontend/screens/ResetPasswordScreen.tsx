@@ -0,0 +1,362 @@
+import React, { useRef, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Animated,
+  TouchableOpacity,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp, RouteProp } from '@react-navigation/native';
+import { Feather, FontAwesome5, Ionicons } from '@expo/vector-icons';
+import { ApiError, authApi } from '../api';
+
+interface ResetPasswordScreenProps {
+  navigation: NavigationProp<any>;
+  route: RouteProp<any>;
+}
+
+// Brand configuration (matching theme)
+const BRAND = {
+  name: "SUJHAV",
+  primaryColor: '#00ff88',
+  secondaryColor: '#000000',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+};
+
+// Opened from the emailed deep link (sujhav://reset-password/<token>) or from
+// SignInScreen, where the user pastes the code from the email instead
+const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ navigation, route }) => {
+  const [resetCode, setResetCode] = useState<string>(route.params?.token || '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [focusedInput, setFocusedInput] = useState<string | null>(null);
+
+  const confirmRef = useRef<TextInput>(null);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const formTranslateY = useRef(new Animated.Value(30)).current;
+
+  useEffect(() => {
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 1,
+        duration: 600,
+        useNativeDriver: true,
+      }),
+      Animated.timing(formTranslateY, {
+        toValue: 0,
+        duration: 600,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, []);
+
+  // A new link opened while the screen is mounted replaces the code
+  useEffect(() => {
+    if (route.params?.token) {
+      setResetCode(route.params.token);
+    }
+  }, [route.params?.token]);
+
+  const isFormValid = () =>
+    resetCode.trim().length > 0 && password.length >= 6 && password === confirmPassword;
+
+  const handleResetPassword = async () => {
+    if (!resetCode.trim()) {
+      Alert.alert('Error', 'Please enter the reset code from your email');
+      return;
+    }
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.resetPassword(resetCode.trim(), password);
+      Alert.alert('Password Updated', response.message, [
+        {
+          text: 'Sign In',
+          onPress: () => navigation.reset({ index: 0, routes: [{ name: 'SignIn' }] }),
+        },
+      ]);
+    } catch (error) {
+      Alert.alert(
+        'Reset Failed',
+        error instanceof ApiError && !error.isNetworkError
+          ? error.message
+          : 'Could not reach the server. Please check your connection and try again.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Back Button */}
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.canGoBack() ? navigation.goBack() : navigation.navigate('SignIn')}
+          >
+            <Ionicons name="arrow-back" size={24} color={BRAND.primaryColor} />
+          </TouchableOpacity>
+
+          <Animated.View style={[styles.headerSection, { opacity: fadeAnim }]}>
+            <Text style={styles.title}>Reset Password</Text>
+            <Text style={styles.subtitle}>
+              Enter the code from your email and choose a new password
+            </Text>
+          </Animated.View>
+
+          <Animated.View
+            style={[
+              styles.formSection,
+              { opacity: fadeAnim, transform: [{ translateY: formTranslateY }] },
+            ]}
+          >
+            {/* Reset Code */}
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Reset Code</Text>
+              <View style={[
+                styles.inputWrapper,
+                focusedInput === 'code' && styles.inputWrapperFocused
+              ]}>
+                <FontAwesome5 name="key" size={16} color="#666666" style={styles.inputIcon} />
+                <TextInput
+                  style={styles.textInput}
+                  value={resetCode}
+                  onChangeText={setResetCode}
+                  placeholder="Paste the code from your email"
+                  placeholderTextColor="#666666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onFocus={() => setFocusedInput('code')}
+                  onBlur={() => setFocusedInput(null)}
+                  editable={!isLoading}
+                />
+              </View>
+            </View>
+
+            {/* New Password */}
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>New Password</Text>
+              <View style={[
+                styles.inputWrapper,
+                focusedInput === 'password' && styles.inputWrapperFocused
+              ]}>
+                <FontAwesome5 name="lock" size={16} color="#666666" style={styles.inputIcon} />
+                <TextInput
+                  style={[styles.textInput, styles.passwordInput]}
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="At least 6 characters"
+                  placeholderTextColor="#666666"
+                  secureTextEntry={!showPassword}
+                  onFocus={() => setFocusedInput('password')}
+                  onBlur={() => setFocusedInput(null)}
+                  onSubmitEditing={() => confirmRef.current?.focus()}
+                  returnKeyType="next"
+                  editable={!isLoading}
+                  textContentType="newPassword"
+                />
+                <TouchableOpacity
+                  style={styles.passwordToggle}
+                  onPress={() => setShowPassword(!showPassword)}
+                  disabled={isLoading}
+                >
+                  <Feather name={showPassword ? "eye" : "eye-off"} size={18} color="#666666" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Confirm Password */}
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Confirm Password</Text>
+              <View style={[
+                styles.inputWrapper,
+                focusedInput === 'confirm' && styles.inputWrapperFocused
+              ]}>
+                <FontAwesome5 name="lock" size={16} color="#666666" style={styles.inputIcon} />
+                <TextInput
+                  ref={confirmRef}
+                  style={styles.textInput}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  placeholder="Re-enter your new password"
+                  placeholderTextColor="#666666"
+                  secureTextEntry={!showPassword}
+                  onFocus={() => setFocusedInput('confirm')}
+                  onBlur={() => setFocusedInput(null)}
+                  returnKeyType="done"
+                  onSubmitEditing={handleResetPassword}
+                  editable={!isLoading}
+                  textContentType="newPassword"
+                />
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (!isFormValid() || isLoading) && styles.submitButtonDisabled
+              ]}
+              onPress={handleResetPassword}
+              disabled={!isFormValid() || isLoading}
+              activeOpacity={0.8}
+            >
+              {isLoading ? (
+                <ActivityIndicator color={BRAND.backgroundColor} size="small" />
+              ) : (
+                <Text style={styles.submitButtonText}>Update Password</Text>
+              )}
+            </TouchableOpacity>
+          </Animated.View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 30,
+  },
+  backButton: {
+    marginTop: 20,
+    marginBottom: 10,
+    width: 45,
+    height: 45,
+    borderRadius: 22.5,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerSection: {
+    alignItems: 'center',
+    marginTop: 30,
+    marginBottom: 40,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#ffffff',
+    marginBottom: 12,
+    letterSpacing: 0.5,
+    textShadowColor: BRAND.primaryColor,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#cccccc',
+    textAlign: 'center',
+    opacity: 0.9,
+  },
+  formSection: {
+    marginBottom: 30,
+  },
+  inputContainer: {
+    marginBottom: 25,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginBottom: 8,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  inputWrapper: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    height: 56,
+  },
+  inputWrapperFocused: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.05)',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  textInput: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  passwordInput: {
+    paddingRight: 50,
+  },
+  passwordToggle: {
+    position: 'absolute',
+    right: 16,
+    width: 30,
+    height: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 15,
+    height: 56,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 10,
+    elevation: 8,
+    shadowColor: BRAND.primaryColor,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.4,
+    shadowRadius: 12,
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: BRAND.backgroundColor,
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
+
+export default ResetPasswordScreen;
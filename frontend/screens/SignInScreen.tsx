@@ -17,11 +17,12 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { NavigationProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import axios from 'axios';
 import { Feather, FontAwesome5, Ionicons } from '@expo/vector-icons';
-import { API_BASE_URL, API_TIMEOUT } from '../config/api';
+import { API_BASE_URL, API_TIMEOUT } from '../api/config';
+import { authApi, clearSession } from '../api';
+import { useAuth } from '../context/AuthContext';
 
 interface SignInScreenProps {
   navigation: NavigationProp<any>;
@@ -30,6 +31,8 @@ interface SignInScreenProps {
 interface LoginResponse {
   message: string;
   token: string;
+  refreshToken: string;
+  expiresIn: number;
   user: {
     id: string;
     name: string;
@@ -58,7 +61,6 @@ const API_CONFIG = {
     login: '/auth/login',
     register: '/auth/register',
     currentUser: '/auth/current-user',
-    forgotPassword: '/auth/forgot-password',
   }
 };
 
@@ -69,6 +71,8 @@ const apiClient = axios.create({
 });
 
 const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
+  const { signIn } = useAuth();
+
   // State for form inputs
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -108,7 +112,6 @@ const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
   useEffect(() => {
     startEntranceAnimation();
     startPulseAnimation();
-    checkAuthStatus(); // Check if user is already logged in
   }, []);
 
   const startEntranceAnimation = () => {
@@ -261,7 +264,7 @@ const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
   // Clear AsyncStorage for debugging if needed
   const clearStorageAndRetry = async () => {
     try {
-      await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName']);
+      await clearSession();
       console.log('AsyncStorage cleared');
       Alert.alert('Storage Cleared', 'Please try signing in again');
     } catch (error) {
@@ -283,58 +286,6 @@ const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
     }
   };
 
-  // Function to check if user is already logged in
-  const checkAuthStatus = async () => {
-    try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      
-      if (token && userRole) {
-        // Verify token with backend
-        try {
-          const response = await apiClient.get(API_CONFIG.endpoints.currentUser, {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-            },
-          });
-          
-          if (response.data) {
-            // User is still authenticated, navigate based on role
-            switch (userRole) {
-              case 'admin':
-                navigation.reset({
-                  index: 0,
-                  routes: [{ name: 'AdminDashboard' }],
-                });
-                break;
-              case 'teacher':
-                navigation.reset({
-                  index: 0,
-                  routes: [{ name: 'TeacherDashboard' }],
-                });
-                break;
-              case 'user':
-              default:
-                navigation.reset({
-                  index: 0,
-                  routes: [{ name: 'Home' }],
-                });
-                break;
-            }
-          }
-        } catch (error) {
-          // Token is invalid or expired, clear storage
-          await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName']);
-          console.log('Cleared invalid auth data');
-        }
-      }
-    } catch (error) {
-      // Error reading storage, clear it
-      console.error('Error checking auth status:', error);
-      await AsyncStorage.multiRemove(['userToken', 'userRole', 'userId', 'userName']);
-    }
-  };
-
   const handleSignIn = async () => {
     if (!isFormValid()) {
       let errorMessage = "Please fill in all fields";
@@ -369,69 +320,20 @@ const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
       // Store auth token and user data (using simple pattern)
       if (loginResponse && loginResponse.token) {
         try {
-          // Store token and user info (simple pattern from small file)
-          await AsyncStorage.setItem('userToken', loginResponse.token);
-          await AsyncStorage.setItem('userRole', loginResponse.user.role);
-          await AsyncStorage.setItem('userId', loginResponse.user.id);
-          await AsyncStorage.setItem('userName', loginResponse.user.name);
+          // Saving the session switches the app to the navigator for this role
+          await signIn(loginResponse, loginResponse.user);
 
           Alert.alert(
             'Welcome Back!',
-            `Hello ${loginResponse.user.name}, you have successfully signed in.`,
-            [
-              {
-                text: 'Continue',
-                onPress: () => {
-                  // Navigate based on role (matching small file pattern)
-                  switch (loginResponse.user.role) {
-                    case 'admin':
-                      navigation.reset({
-                        index: 0,
-                        routes: [{ name: 'AdminDashboard' }],
-                      });
-                      break;
-                    case 'teacher':
-                      navigation.reset({
-                        index: 0,
-                        routes: [{ name: 'TeacherDashboard' }],
-                      });
-                      break;
-                    case 'user':
-                    default:
-                      navigation.reset({
-                        index: 0,
-                        routes: [{ name: 'Home' }],
-                      });
-                      break;
-                  }
-                }
-              }
-            ]
+            `Hello ${loginResponse.user.name}, you have successfully signed in.`
           );
         } catch (storageError) {
           console.error('Error saving auth data:', storageError);
           Alert.alert(
             "Storage Error", 
-            "Login successful but failed to save session data. You may need to sign in again.",
+            "Login successful but failed to save session data. Please try signing in again.",
             [
-              { 
-                text: "OK", 
-                onPress: () => {
-                  // Navigate anyway based on role
-                  switch (loginResponse.user.role) {
-                    case 'admin':
-                      navigation.reset({ index: 0, routes: [{ name: 'AdminDashboard' }] });
-                      break;
-                    case 'teacher':
-                      navigation.reset({ index: 0, routes: [{ name: 'TeacherDashboard' }] });
-                      break;
-                    case 'user':
-                    default:
-                      navigation.reset({ index: 0, routes: [{ name: 'Home' }] });
-                      break;
-                  }
-                }
-              },
+              { text: "OK" },
               { text: "Clear Storage & Retry", onPress: clearStorageAndRetry }
             ]
           );
@@ -480,15 +382,15 @@ const SignInScreen: React.FC<SignInScreenProps> = ({ navigation }) => {
           onPress: async () => {
             try {
               setIsLoading(true);
-              // Implement forgot password API call here
-              await apiClient.post(API_CONFIG.endpoints.forgotPassword, {
-                email: email.toLowerCase().trim()
-              });
+              const response = await authApi.forgotPassword(email.toLowerCase().trim());
               
               Alert.alert(
                 'Email Sent',
-                'Password reset instructions have been sent to your email address.',
-                [{ text: 'OK' }]
+                `${response.message}. Open the link in the email, or enter the reset code here.`,
+                [
+                  { text: 'Later', style: 'cancel' },
+                  { text: 'Enter Code', onPress: () => navigation.navigate('ResetPassword') }
+                ]
               );
             } catch (error) {
               Alert.alert(
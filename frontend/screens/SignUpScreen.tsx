@@ -21,7 +21,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import axios from 'axios';
 import { Feather, FontAwesome5, Ionicons } from '@expo/vector-icons';
-import { API_BASE_URL, API_TIMEOUT } from '../config/api';
+import { API_BASE_URL, API_TIMEOUT } from '../api/config';
+import { useAuth } from '../context/AuthContext';
 
 interface SignUpScreenProps {
   navigation: NavigationProp<any>;
@@ -57,6 +58,8 @@ const apiClient = axios.create({
 });
 
 const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
+  const { signIn } = useAuth();
+
   // State for form inputs
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
@@ -339,45 +342,13 @@ const handleSignUp = async () => {
     // Store auth token and user data (matching SignIn pattern)
     if (loginResponse && loginResponse.token) {
       try {
-        // Store token and user info (same pattern as SignIn screen)
-        await AsyncStorage.setItem('userToken', loginResponse.token);
-        await AsyncStorage.setItem('userRole', loginResponse.user.role);
-        await AsyncStorage.setItem('userId', loginResponse.user.id);
-        await AsyncStorage.setItem('userName', loginResponse.user.name);
+        // Saving the session switches the app to the navigator for this role
+        await signIn(loginResponse, loginResponse.user);
 
         // Show welcome message
         Alert.alert(
           'Welcome to SUJHAV!',
-          `Hello ${loginResponse.user.name}, your account has been created successfully. You're now signed in!`,
-          [
-            {
-              text: 'Get Started',
-              onPress: () => {
-                // Navigate based on role (matching SignIn screen pattern)
-                switch (loginResponse.user.role) {
-                  case 'admin':
-                    navigation.reset({
-                      index: 0,
-                      routes: [{ name: 'AdminDashboard' }],
-                    });
-                    break;
-                  case 'teacher':
-                    navigation.reset({
-                      index: 0,
-                      routes: [{ name: 'TeacherDashboard' }],
-                    });
-                    break;
-                  case 'user':
-                  default:
-                    navigation.reset({
-                      index: 0,
-                      routes: [{ name: 'Home' }],
-                    });
-                    break;
-                }
-              }
-            }
-          ]
+          `Hello ${loginResponse.user.name}, your account has been created successfully. You're now signed in!`
         );
       } catch (storageError) {
         console.error('Error saving auth data:', storageError);
@@ -14,9 +14,8 @@ import {
   StatusBar,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import { API_BASE } from '../config/api';
+import { ApiError, StudentAttendanceRecords, SubjectAttendance, attendanceApi, getSession } from '../api';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import BottomNavigation from '../components/BottomNavigation';
 
@@ -43,59 +42,13 @@ interface StudentAttendanceScreenProps {
   route?: RouteProp<any>;
 }
 
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  token: string;
-  role?: string;
-}
-
-interface BatchAssignment {
-  batchId: string;
-  batchName: string;
-  category: string;
-  assignedSubjects: Array<{
-    subjectName: string;
-    teacherId: string;
-    teacherName: string;
-  }>;
-}
-
-interface AttendanceRecord {
-  date: string;
-  status: 'present' | 'absent' | 'no_class';
-  markedAt: string;
-}
-
-interface SubjectAttendanceStats {
-  subjectName: string;
-  batchId: string;
-  batchName: string;
-  teacherName: string;
-  statistics: {
-    present: number;
-    absent: number;
-    noClass: number;
-    totalClasses: number;
-    attendancePercentage: number;
-  };
-  recentAttendance: AttendanceRecord[];
-}
-
-interface AttendanceData {
-  batches: BatchAssignment[];
-  subjectAttendance: SubjectAttendanceStats[];
-  overallStats: {
-    totalClassesAcrossSubjects: number;
-    totalPresentAcrossSubjects: number;
-    overallAttendancePercentage: number;
-    totalSubjects: number;
-  };
-}
+type AttendanceData = StudentAttendanceRecords;
+type SubjectAttendanceStats = SubjectAttendance;
 
-const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = ({ navigation }) => {
-  const [userData, setUserData] = useState<UserData | null>(null);
+// Parents open this screen from ParentDashboard with a linked child's studentId and name
+const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = ({ navigation, route }) => {
+  const studentId: string | undefined = route?.params?.studentId;
+  const studentName: string | undefined = route?.params?.studentName;
   const [attendanceData, setAttendanceData] = useState<AttendanceData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
@@ -106,77 +59,22 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
 
-  // Check authentication status
-  const checkAuthStatus = async (): Promise<UserData | null> => {
-    try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
-      
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-        };
-        
-        setUserData(userDataObj);
-        return userDataObj;
-      } else {
-        Alert.alert('Authentication Required', 'Please log in to view attendance records');
-        navigation.goBack();
-        return null;
-      }
-    } catch (error) {
-      console.error('Auth check error:', error);
-      Alert.alert('Error', 'Failed to authenticate');
-      navigation.goBack();
-      return null;
-    }
-  };
-
   // Fetch student attendance data
   const fetchAttendanceData = async () => {
     try {
       setLoading(true);
       
-      const currentUserData = await checkAuthStatus();
-      if (!currentUserData) {
-        setLoading(false);
+      if (!(await getSession())) {
+        Alert.alert('Authentication Required', 'Please log in to view attendance records');
+        navigation.goBack();
         return;
       }
 
-      const response = await fetch(`${API_BASE}/students/attendance-records`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${currentUserData.token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log('Student attendance response:', data);
-        
-        if (data.success) {
-          setAttendanceData(data.data);
-        } else {
-          console.error('Failed to fetch attendance data:', data.message);
-          Alert.alert('Error', data.message || 'Failed to fetch attendance records');
-        }
-      } else if (response.status === 404) {
+      const data = await attendanceApi.getMyAttendanceRecords(studentId);
+      setAttendanceData(data.data);
+    } catch (error) {
+      console.error('Error fetching attendance data:', error);
+      if (error instanceof ApiError && error.status === 404) {
         // Student not assigned to any batch
         setAttendanceData({
           batches: [],
@@ -188,13 +86,9 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
             totalSubjects: 0,
           }
         });
-      } else {
-        console.error('Failed to fetch attendance data:', response.status);
-        Alert.alert('Error', 'Failed to fetch attendance records. Please try again.');
+      } else if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
       }
-    } catch (error) {
-      console.error('Error fetching attendance data:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
     } finally {
       setLoading(false);
     }
@@ -258,7 +152,7 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
   // Initialize screen
   useEffect(() => {
     fetchAttendanceData();
-  }, []);
+  }, [studentId]);
 
   useEffect(() => {
     if (!loading) {
@@ -411,7 +305,9 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
       <MaterialIcons name="event-available" size={64} color={BRAND.textSecondary} />
       <Text style={styles.emptyStateTitle}>No Attendance Records</Text>
       <Text style={styles.emptyStateText}>
-        You are not currently assigned to any batch or no attendance has been marked yet.
+        {studentName
+          ? `${studentName} is not currently assigned to any batch or no attendance has been marked yet.`
+          : 'You are not currently assigned to any batch or no attendance has been marked yet.'}
       </Text>
       <TouchableOpacity
         style={styles.refreshButton}
@@ -454,7 +350,9 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
         >
           <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Attendance Records</Text>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {studentName ? `${studentName}'s Attendance` : 'Attendance Records'}
+        </Text>
         <TouchableOpacity
           style={styles.refreshHeaderButton}
           onPress={onRefresh}
@@ -499,8 +397,8 @@ const StudentAttendanceRecordsScreen: React.FC<StudentAttendanceScreenProps> = (
         <EmptyState />
       )}
 
-      {/* Bottom Navigation */}
-      <BottomNavigation navigation={navigation} activeTab="Reports" />
+      {/* Bottom Navigation (student tabs only) */}
+      {!studentId && <BottomNavigation navigation={navigation} activeTab="Reports" />}
     </SafeAreaView>
   );
 };
@@ -13,13 +13,12 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import EventCalendar from '../components/EventCalendar';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, BatchCalendarEvent, StudentCalendarEvent, calendarApi } from '../api';
 
 type StudentCalendarScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -40,47 +39,7 @@ const BRAND = {
   emeraldGreen: '#00b366',
 };
 
-interface CalendarEvent {
-  _id: string;
-  title: string;
-  description?: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  type: 'class' | 'exam' | 'assignment' | 'meeting' | 'other';
-  batchId: {
-    _id: string;
-    batchName: string;
-  };
-  createdBy: { 
-    _id: string; 
-    name: string; 
-    email: string; 
-  };
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Transform function to convert our CalendarEvent to EventCalendar expected format
-interface EventCalendarEvent {
-  _id: string;
-  title: string;
-  description?: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  type: 'class' | 'exam' | 'assignment' | 'meeting' | 'other';
-  batchId: string; // EventCalendar expects string
-  createdBy: { 
-    _id: string; 
-    name: string; 
-    email: string; 
-  };
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+type CalendarEvent = StudentCalendarEvent;
 
 const EVENT_TYPES = [
   { key: 'class', label: 'Class', icon: 'school', color: '#4CAF50' },
@@ -112,38 +71,12 @@ export default function StudentCalendarScreen() {
   const fetchEvents = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE}/calendar/student/my-events`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const responseText = await response.text();
-      let data;
-      
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        Alert.alert('Error', `Server returned: ${responseText.substring(0, 100)}...`);
-        return;
-      }
-      
-      if (data.success) {
-        setEvents(data.data);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch events');
-      }
+      const data = await calendarApi.getStudentEvents();
+      setEvents(data.data);
     } catch (error) {
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -167,7 +100,7 @@ export default function StudentCalendarScreen() {
   };
 
   // Transform events for EventCalendar component
-  const transformEventsForCalendar = (events: CalendarEvent[]): EventCalendarEvent[] => {
+  const transformEventsForCalendar = (events: CalendarEvent[]): BatchCalendarEvent[] => {
     return events.map(event => ({
       ...event,
       batchId: event.batchId._id, // Convert object to string
@@ -14,12 +14,11 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, Batch, batchesApi } from '../api';
 
 type TeacherBatchAttendanceNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -34,52 +33,6 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Subject interface
-interface Subject {
-  name: string;
-  teacher: string;
-  _id?: string;
-}
-
-// Batch interface
-interface Batch {
-  _id: string;
-  batchName: string;
-  classes: string[];
-  category: string;
-  subjects: Subject[];
-  students: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  teachers: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  schedule?: string;
-  description?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// API response interface
-interface BatchResponse {
-  success: boolean;
-  data: Batch[];
-  count: number;
-  message: string;
-}
-
 export default function TeacherBatchAttendanceScreen() {
   const navigation = useNavigation<TeacherBatchAttendanceNavigationProp>();
   const [isLoading, setIsLoading] = useState(false);
@@ -105,36 +58,19 @@ export default function TeacherBatchAttendanceScreen() {
   const fetchTeacherBatches = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/batches/teacher/my-batches`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: BatchResponse = await response.json();
-      
-      if (data.success) {
-        setBatches(data.data);
-        // Calculate total subjects taught by this teacher
-        const subjectCount = data.data.reduce((total, batch) => {
-          return total + batch.subjects.length;
-        }, 0);
-        setTotalSubjects(subjectCount);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch batches');
-      }
+      const data = await batchesApi.getTeacherBatches();
+
+      setBatches(data.data);
+      // Calculate total subjects taught by this teacher
+      const subjectCount = data.data.reduce((total, batch) => {
+        return total + batch.subjects.length;
+      }, 0);
+      setTotalSubjects(subjectCount);
     } catch (error) {
       console.error('Error fetching teacher batches:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -269,7 +205,7 @@ export default function TeacherBatchAttendanceScreen() {
             <View style={styles.batchInfoItem}>
               <MaterialIcons name="group" size={16} color="#888" />
               <Text style={styles.batchInfoText}>
-                {item.students.length} Students
+                {item.studentCount} Students
               </Text>
             </View>
 
@@ -442,7 +378,7 @@ export default function TeacherBatchAttendanceScreen() {
             <View style={styles.statItem}>
               <MaterialIcons name="people" size={24} color="#FF9800" />
               <Text style={styles.statNumber}>
-                {batches.reduce((total, batch) => total + batch.students.length, 0)}
+                {batches.reduce((total, batch) => total + batch.studentCount, 0)}
               </Text>
               <Text style={styles.statLabel}>Total Students</Text>
             </View>
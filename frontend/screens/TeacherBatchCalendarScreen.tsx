@@ -14,12 +14,11 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, Batch, batchesApi } from '../api';
 
 type TeacherBatchCalendarNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -34,44 +33,6 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Batch interface
-interface Batch {
-  _id: string;
-  batchName: string;
-  classes: string[];
-  category: string;
-  students: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  teachers: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  schedule?: string;
-  description?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// API response interface
-interface BatchResponse {
-  success: boolean;
-  data: Batch[];
-  count: number;
-  message: string;
-}
-
 export default function TeacherBatchCalendarScreen() {
   const navigation = useNavigation<TeacherBatchCalendarNavigationProp>();
   const [isLoading, setIsLoading] = useState(false);
@@ -96,31 +57,13 @@ export default function TeacherBatchCalendarScreen() {
   const fetchTeacherBatches = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/batches/teacher/my-batches`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: BatchResponse = await response.json();
-      
-      if (data.success) {
-        setBatches(data.data);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch batches');
-      }
+      const data = await batchesApi.getTeacherBatches();
+      setBatches(data.data);
     } catch (error) {
       console.error('Error fetching teacher batches:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -254,7 +197,7 @@ export default function TeacherBatchCalendarScreen() {
             <View style={styles.batchInfoItem}>
               <MaterialIcons name="people" size={16} color="#888" />
               <Text style={styles.batchInfoText}>
-                {item.students.length} Students
+                {item.studentCount} Students
               </Text>
             </View>
 
@@ -404,7 +347,7 @@ export default function TeacherBatchCalendarScreen() {
             <View style={styles.statItem}>
               <MaterialIcons name="schedule" size={24} color="#FF9800" />
               <Text style={styles.statNumber}>
-                {batches.reduce((total, batch) => total + batch.students.length, 0)}
+                {batches.reduce((total, batch) => total + batch.studentCount, 0)}
               </Text>
               <Text style={styles.statLabel}>Total Students</Text>
             </View>
@@ -14,12 +14,11 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, PopulatedBatch, batchesApi } from '../api';
 
 type TeacherBatchDetailsNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type TeacherBatchDetailsRouteProp = {
@@ -41,71 +40,8 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Student interface - updated to match backend
-interface Student {
-  _id: string;
-  name: string;
-  email: string;
-}
-
-// Student assignment interface - matches backend structure
-interface StudentAssignment {
-  student: Student;
-  assignedClasses: string[];
-  assignedSubjects: {
-    subjectName: string;
-    teacher?: string;
-  }[];
-  enrolledAt: string;
-  _id: string;
-}
-
-// Subject interface
-interface Subject {
-  _id: string;
-  name: string;
-  teacher?: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-}
-
-// Teacher interface
-interface Teacher {
-  _id: string;
-  name: string;
-  email: string;
-}
-
-// Batch interface - updated to match backend
-interface Batch {
-  _id: string;
-  batchName: string;
-  classes: string[];
-  category: string;
-  studentAssignments: StudentAssignment[];
-  subjects: Subject[];
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  schedule?: string;
-  description?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// API response interface
-interface BatchResponse {
-  success: boolean;
-  data: Batch;
-  message: string;
-}
+type Batch = PopulatedBatch;
+type StudentAssignment = Batch['studentAssignments'][number];
 
 export default function TeacherBatchDetailsScreen() {
   const navigation = useNavigation<TeacherBatchDetailsNavigationProp>();
@@ -133,33 +69,14 @@ export default function TeacherBatchDetailsScreen() {
   const fetchBatchDetails = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/batches/teacher/batch/${batchId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: BatchResponse = await response.json();
-      
-      if (data.success) {
-        setBatch(data.data);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch batch details');
-        navigation.goBack();
-      }
+      const data = await batchesApi.getTeacherBatchById(batchId);
+      setBatch(data.data);
     } catch (error) {
       console.error('Error fetching batch details:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
-      navigation.goBack();
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+        navigation.goBack();
+      }
     } finally {
       setIsLoading(false);
     }
@@ -15,12 +15,12 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather, FontAwesome5, AntDesign, Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, Batch, batchesApi } from '../api';
+import { useAuth } from '../context/AuthContext';
 
 type TeacherDashboardNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -36,8 +36,6 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
 // Quick action interface
 interface QuickAction {
   id: string;
@@ -50,44 +48,9 @@ interface QuickAction {
   onPress: () => void;
 }
 
-// Batch interface
-interface Batch {
-  _id: string;
-  batchName: string;
-  classes: string[];
-  category: string;
-  students: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  teachers: Array<{
-    _id: string;
-    name: string;
-    email: string;
-  }>;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  schedule?: string;
-  description?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// API response interface
-interface BatchResponse {
-  success: boolean;
-  data: Batch[];
-  count: number;
-  message: string;
-}
-
 export default function TeacherDashboardScreen() {
   const navigation = useNavigation<TeacherDashboardNavigationProp>();
+  const { user, signOut } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [teacherName, setTeacherName] = useState<string>('');
@@ -112,47 +75,23 @@ export default function TeacherDashboardScreen() {
     startPulseAnimation();
   }, []);
 
-  const loadTeacherData = async () => {
-    try {
-      const userName = await AsyncStorage.getItem('userName');
-      setTeacherName(userName || 'Teacher');
-    } catch (error) {
-      console.error('Error loading teacher data:', error);
-      setTeacherName('Teacher');
-    }
+  const loadTeacherData = () => {
+    setTeacherName(user?.name || 'Teacher');
   };
 
   const fetchTeacherBatches = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/batches/teacher/my-batches`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: BatchResponse = await response.json();
-      
-      if (data.success) {
-        setBatches(data.data);
-        // Calculate total students across all batches
-        const totalStudentsCount = data.data.reduce((total, batch) => total + batch.students.length, 0);
-        setTotalStudents(totalStudentsCount);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch batches');
-      }
+      const data = await batchesApi.getTeacherBatches();
+      setBatches(data.data);
+      // Calculate total students across all batches
+      const totalStudentsCount = data.data.reduce((total, batch) => total + batch.studentCount, 0);
+      setTotalStudents(totalStudentsCount);
     } catch (error) {
       console.error('Error fetching teacher batches:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -260,14 +199,8 @@ export default function TeacherDashboardScreen() {
           onPress: async () => {
             try {
               setIsLoading(true);
-              await AsyncStorage.multiRemove([
-                'userToken',
-                'userRole',
-                'userId',
-                'userName',
-                'userData'
-              ]);
-              navigation.replace('Intro');
+              // Clearing the session returns the app to the guest screens
+              await signOut();
             } catch (error) {
               console.error('Logout error:', error);
               Alert.alert("Error", "Failed to sign out. Please try again.");
@@ -297,6 +230,10 @@ export default function TeacherDashboardScreen() {
     navigation.navigate('TeacherBatchAttendanceScreen', { batchId: '', batchName: '' });
   };
 
+  const handleQuestionBank = () => {
+    navigation.navigate('QuestionBankScreen');
+  };
+
   // Quick actions configuration
   const quickActions: QuickAction[] = [
     {
@@ -329,6 +266,16 @@ export default function TeacherDashboardScreen() {
       backgroundColor: '#FF980020',
       onPress: handleMarkAttendance,
     },
+    {
+      id: 'question_bank',
+      title: 'Question Bank',
+      description: 'Tagged questions for tests',
+      icon: 'library-books',
+      iconLibrary: 'MaterialIcons',
+      color: '#3F51B5',
+      backgroundColor: '#3F51B520',
+      onPress: handleQuestionBank,
+    },
   ];
 
   const renderIcon = (iconLibrary: string, iconName: string, size: number, color: string) => {
@@ -423,7 +370,7 @@ export default function TeacherDashboardScreen() {
             <View style={styles.batchInfoItem}>
               <MaterialIcons name="people" size={16} color="#888" />
               <Text style={styles.batchInfoText}>
-                {item.students.length} Students
+                {item.studentCount} Students
               </Text>
             </View>
 
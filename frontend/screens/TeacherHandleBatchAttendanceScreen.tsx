@@ -15,12 +15,11 @@ import {
   FlatList,
   Modal,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, attendanceApi } from '../api';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -35,8 +34,6 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
 // Interfaces
 interface Subject {
   name: string;
@@ -184,25 +181,7 @@ export default function TeacherHandleBatchAttendanceScreen() {
     if (!selectedSubject) return;
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(
-        `${API_BASE_URL}/attendance/students/${batchId}/${encodeURIComponent(selectedSubject.name)}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
+      const data = await attendanceApi.getStudentsForAttendance(batchId, selectedSubject.name);
       
       if (data.success) {
         const studentsWithStats = await Promise.all(
@@ -221,7 +200,10 @@ export default function TeacherHandleBatchAttendanceScreen() {
       }
     } catch (error) {
       console.error('Error fetching students:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError && !error.isNetworkError
+        ? error.message
+        : 'Network error. Please check your connection.');
     }
   };
 
@@ -229,20 +211,7 @@ export default function TeacherHandleBatchAttendanceScreen() {
     if (!selectedSubject) return undefined;
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      const response = await fetch(
-        `${API_BASE_URL}/attendance/stats/${batchId}/${encodeURIComponent(selectedSubject.name)}/${studentId}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
+      const data = await attendanceApi.getStudentStats(batchId, selectedSubject.name, studentId);
       
       if (data.success) {
         return data.data.statistics;
@@ -256,22 +225,20 @@ export default function TeacherHandleBatchAttendanceScreen() {
   const fetchTodayAttendance = async () => {
     if (!selectedSubject) return;
 
-    try {
-      const token = await AsyncStorage.getItem('userToken');
-      const dateStr = selectedDate.toISOString().split('T')[0];
-      
-      const response = await fetch(
-        `${API_BASE_URL}/attendance/date/${batchId}/${encodeURIComponent(selectedSubject.name)}/${dateStr}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
+    const clearTodayAttendance = () => {
+      setAttendanceRecords([]);
+      setIsAttendanceAlreadyMarked(false);
+      setStudents(prevStudents => 
+        prevStudents.map(student => ({
+          ...student,
+          todayStatus: undefined
+        }))
       );
+    };
 
-      const data = await response.json();
+    try {
+      const dateStr = selectedDate.toISOString().split('T')[0];
+      const data = await attendanceApi.getAttendanceByDate(batchId, selectedSubject.name, dateStr);
       
       if (data.success && data.data) {
         const records = data.data.studentAttendance.map((record: any) => ({
@@ -289,16 +256,14 @@ export default function TeacherHandleBatchAttendanceScreen() {
           }))
         );
       } else {
-        setAttendanceRecords([]);
-        setIsAttendanceAlreadyMarked(false);
-        setStudents(prevStudents => 
-          prevStudents.map(student => ({
-            ...student,
-            todayStatus: undefined
-          }))
-        );
+        clearTodayAttendance();
       }
     } catch (error) {
+      // 404 just means attendance hasn't been taken for this date yet
+      if (error instanceof ApiError && error.status === 404) {
+        clearTodayAttendance();
+        return;
+      }
       console.error('Error fetching today attendance:', error);
       setIsAttendanceAlreadyMarked(false);
     }
@@ -369,23 +334,13 @@ export default function TeacherHandleBatchAttendanceScreen() {
 
     try {
       setIsMarkingAttendance(true);
-      const token = await AsyncStorage.getItem('userToken');
       
-      const response = await fetch(`${API_BASE_URL}/attendance/mark`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          batchId,
-          subject: selectedSubject.name,
-date: `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`,
-          studentAttendance: attendanceRecords
-        }),
+      const data = await attendanceApi.markAttendance({
+        batchId,
+        subject: selectedSubject.name,
+        date: `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`,
+        studentAttendance: attendanceRecords
       });
-
-      const data = await response.json();
       
       if (data.success) {
         setIsAttendanceAlreadyMarked(true);
@@ -396,7 +351,10 @@ date: `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padSt
       }
     } catch (error) {
       console.error('Error marking attendance:', error);
-      Alert.alert('Error', 'Network error. Please try again.');
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError && !error.isNetworkError
+        ? error.message
+        : 'Network error. Please try again.');
     } finally {
       setIsMarkingAttendance(false);
     }
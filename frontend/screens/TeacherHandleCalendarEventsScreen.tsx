@@ -17,14 +17,13 @@ import {
   TextInput,
   Platform,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import EventCalendar from '../components/EventCalendar';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, BatchCalendarEvent, calendarApi } from '../api';
 
 type TeacherHandleCalendarEventsNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RouteProps = { batchId: string; batchName: string; };
@@ -46,20 +45,7 @@ const BRAND = {
   emeraldGreen: '#00b366',        // Emerald shade for accents
 };
 
-interface CalendarEvent {
-  _id: string;
-  title: string;
-  description?: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  type: 'class' | 'exam' | 'assignment' | 'meeting' | 'other';
-  batchId: string;
-  createdBy: { _id: string; name: string; email: string; };
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+type CalendarEvent = BatchCalendarEvent;
 
 interface EventFormData {
   title: string;
@@ -116,38 +102,12 @@ export default function TeacherHandleCalendarEventsScreen() {
   const fetchEvents = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE}/calendar/events/${batchId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const responseText = await response.text();
-      let data;
-      
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        Alert.alert('Error', `Server returned: ${responseText.substring(0, 100)}...`);
-        return;
-      }
-      
-      if (data.success) {
-        setEvents(data.data);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch events');
-      }
+      const data = await calendarApi.getBatchEvents(batchId);
+      setEvents(data.data);
     } catch (error) {
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -242,7 +202,6 @@ export default function TeacherHandleCalendarEventsScreen() {
       }
 
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
 
       const eventData = {
         title: formData.title.trim(),
@@ -251,32 +210,21 @@ export default function TeacherHandleCalendarEventsScreen() {
         startTime: formatTime(formData.startTime),
         endTime: formatTime(formData.endTime),
         type: formData.type,
-        ...(isEdit ? {} : { batchId }),
       };
 
-      const url = isEdit ? `${API_BASE}/calendar/events/${editingEvent!._id}` : `${API_BASE}/calendar/events`;
-      const method = isEdit ? 'PUT' : 'POST';
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(eventData),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        Alert.alert('Success', `Event ${isEdit ? 'updated' : 'created'} successfully`);
-        closeModal();
-        fetchEvents();
+      if (isEdit) {
+        await calendarApi.updateEvent(editingEvent!._id, eventData);
       } else {
-        Alert.alert('Error', data.message || `Failed to ${isEdit ? 'update' : 'create'} event`);
+        await calendarApi.createEvent({ ...eventData, batchId });
       }
+
+      Alert.alert('Success', `Event ${isEdit ? 'updated' : 'created'} successfully`);
+      closeModal();
+      fetchEvents();
     } catch (error) {
-      Alert.alert('Error', 'Network error. Please try again.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please try again.');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -294,23 +242,13 @@ export default function TeacherHandleCalendarEventsScreen() {
           onPress: async () => {
             try {
               setIsLoading(true);
-              const token = await AsyncStorage.getItem('userToken');
-              const response = await fetch(`${API_BASE}/calendar/events/${event._id}`, {
-                method: 'DELETE',
-                headers: {
-                  'Authorization': `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-              });
-              const data = await response.json();
-              if (data.success) {
-                Alert.alert('Success', 'Event deleted successfully');
-                fetchEvents();
-              } else {
-                Alert.alert('Error', data.message || 'Failed to delete event');
-              }
+              await calendarApi.deleteEvent(event._id);
+              Alert.alert('Success', 'Event deleted successfully');
+              fetchEvents();
             } catch (error) {
-              Alert.alert('Error', 'Network error. Please try again.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please try again.');
+              }
             } finally {
               setIsLoading(false);
             }
@@ -4,12 +4,11 @@ import {
   SafeAreaView, Animated, ActivityIndicator, ScrollView, RefreshControl,
   FlatList, Modal, TextInput,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, Test, testsApi } from '../api';
 
 type TeacherHandleReportsNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type TeacherHandleReportsRouteProp = {
@@ -24,37 +23,6 @@ const BRAND = {
   backgroundColor: '#0a1a0a', accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-interface Student {
-  _id: string; name: string; email: string;
-}
-
-interface StudentAssignment {
-  _id?: string; 
-  student: Student;
-  marksScored: number | null; 
-  submittedAt: Date | null; 
-  evaluatedAt: Date | null;
-}
-
-interface Test {
-  _id: string; 
-  testTitle: string; 
-  fullMarks: number;
-  assignedStudents: StudentAssignment[]; 
-  createdAt: string;
-  dueDate: Date | null; 
-  instructions: string; 
-  isActive: boolean;
-  className: string; 
-  subjectName: string;
-  batch: { _id: string; batchName: string; category: string; };
-  createdBy: { _id: string; name: string; email: string; };
-  hasQuestionPdf?: boolean; 
-  hasAnswerPdf?: boolean;
-}
-
 interface StudentReport {
   studentId: string; 
   studentName: string; 
@@ -65,8 +33,8 @@ interface StudentReport {
     fullMarks: number;
     marksScored: number | null; 
     percentage: number | null;
-    submittedAt: Date | null; 
-    evaluatedAt: Date | null; 
+    submittedAt: string | null; 
+    evaluatedAt: string | null; 
     createdAt: string;
   }>;
   totalTests: number; 
@@ -124,45 +92,28 @@ export default function TeacherHandleReportsScreen() {
 
   const fetchBatchTests = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      if (!token) {
-        setError('No authentication token found');
-        Alert.alert('Error', 'Please log in again');
-        return;
-      }
-
       console.log('Fetching tests for:', { batchId, subjectName });
 
-      // Updated API endpoint to match backend routes
-      const endpoint = `${API_BASE_URL}/tests/teacher/batch/${batchId}/subject/${encodeURIComponent(subjectName)}`;
-      console.log('API Endpoint:', endpoint);
-
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
+      const data = await testsApi.getBatchSubjectTests(batchId, subjectName);
       console.log('API Response:', data);
       
-      if (response.ok && data.success) {
+      if (data.success) {
         setTests(data.data || []);
         processStudentReports(data.data || []);
         calculateBatchAnalytics(data.data || []);
       } else {
-        const errorMessage = data.message || `HTTP ${response.status}: Failed to fetch batch tests`;
+        const errorMessage = data.message || 'Failed to fetch batch tests';
         console.error('API Error:', errorMessage);
         setError(errorMessage);
         Alert.alert('Error', errorMessage);
       }
     } catch (error) {
-      console.error('Network error fetching batch tests:', error);
-      const errorMessage = 'Network error. Please check your connection.';
-      setError(errorMessage);
-      Alert.alert('Error', errorMessage);
+      console.error('Error fetching batch tests:', error);
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        const errorMessage = error.isNetworkError ? 'Network error. Please check your connection.' : error.message;
+        setError(errorMessage);
+        Alert.alert('Error', errorMessage);
+      }
     }
   };
 
@@ -379,31 +330,12 @@ export default function TeacherHandleReportsScreen() {
             }
 
             try {
-              const token = await AsyncStorage.getItem('userToken');
-              if (!token) {
-                Alert.alert('Error', 'Please log in again');
-                return;
-              }
-
               console.log('Updating marks:', { testId, studentId, marks });
 
-              // Updated API endpoint to match backend routes
-              const response = await fetch(`${API_BASE_URL}/tests/teacher/${testId}/marks`, {
-                method: 'PUT',
-                headers: {
-                  'Authorization': `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ 
-                  studentId, 
-                  marksScored: marks 
-                }),
-              });
-
-              const data = await response.json();
+              const data = await testsApi.updateStudentMarks(testId, { studentId, marksScored: marks });
               console.log('Update marks response:', data);
               
-              if (response.ok && data.success) {
+              if (data.success) {
                 Alert.alert('Success', 'Marks updated successfully');
                 await loadReportData(); // Refresh all data
                 setShowStudentModal(false); // Close modal and reopen with updated data
@@ -415,12 +347,19 @@ export default function TeacherHandleReportsScreen() {
                   }
                 }, 500);
               } else {
-                const errorMessage = data.message || `HTTP ${response.status}: Failed to update marks`;
+                const errorMessage = data.message || 'Failed to update marks';
                 Alert.alert('Error', errorMessage);
               }
             } catch (error) {
               console.error('Error updating marks:', error);
-              Alert.alert('Error', 'Network error occurred while updating marks');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert(
+                  'Error',
+                  error instanceof ApiError && !error.isNetworkError
+                    ? error.message
+                    : 'Network error occurred while updating marks'
+                );
+              }
             }
           }
         }
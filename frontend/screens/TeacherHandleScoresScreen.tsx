@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,12 +18,11 @@ import {
   Platform,
   KeyboardAvoidingView,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, Test, TestAssignment, testsApi } from '../api';
 
 type TeacherHandleScoresNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type TeacherHandleScoresRouteProp = {
@@ -47,45 +46,7 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Student assignment interface (updated to match backend)
-interface StudentAssignment {
-  _id: string;
-  student: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  marksScored: number | null;
-  submittedAt: Date | null;
-  evaluatedAt: Date | null;
-}
-
-// Test interface (updated to match backend structure)
-interface Test {
-  _id: string;
-  testTitle: string;
-  fullMarks: number;
-  batch: {
-    _id: string;
-    batchName: string;
-    category: string;
-  };
-  className: string;
-  subjectName: string;
-  assignedStudents: StudentAssignment[];
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  instructions: string;
-  dueDate: Date | null;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+type StudentAssignment = TestAssignment;
 
 // Marks update interface
 interface MarksUpdate {
@@ -106,6 +67,8 @@ export default function TeacherHandleScoresScreen() {
   const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<StudentAssignment | null>(null);
   const [marksInput, setMarksInput] = useState('');
+  // Tests with sections: marks typed per question label
+  const [questionInputs, setQuestionInputs] = useState<{ [label: string]: string }>({});
   const [isUpdating, setIsUpdating] = useState(false);
   const [showBulkUpdateModal, setShowBulkUpdateModal] = useState(false);
   const [bulkMarksUpdates, setBulkMarksUpdates] = useState<{ [key: string]: string }>({});
@@ -121,61 +84,47 @@ export default function TeacherHandleScoresScreen() {
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
-    loadTestData();
     startEntranceAnimation();
   }, [testId]);
 
+  // Coming back from grading an answer sheet should show the new marks
+  useFocusEffect(
+    useCallback(() => {
+      fetchTestDetails().finally(() => setIsLoading(false));
+    }, [testId])
+  );
+
   const loadTestData = async () => {
     setIsLoading(true);
     await fetchTestDetails();
     setIsLoading(false);
   };
 
-  // Updated fetchTestDetails to fetch test from getTeacherTests and filter by ID
+  // Fetch all teacher tests and pick the one being scored
   const fetchTestDetails = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
+      const data = await testsApi.getTeacherTests();
+      const specificTest = data.data.find(t => t._id === testId);
+
+      if (!specificTest) {
+        Alert.alert('Error', 'Test not found');
         return;
       }
 
-      // Fetch all teacher tests and find the specific one
-      const response = await fetch(`${API_BASE_URL}/tests/teacher/my-tests`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-      
-      if (data.success) {
-        // Find the specific test by ID
-        const specificTest = data.data.find((t: Test) => t._id === testId);
-        
-        if (!specificTest) {
-          Alert.alert('Error', 'Test not found');
-          return;
-        }
+      setTest(specificTest);
+      setStudentsAssignments(specificTest.assignedStudents);
 
-        setTest(specificTest);
-        setStudentsAssignments(specificTest.assignedStudents);
-        
-        // Initialize bulk marks updates with current marks
-        const bulkUpdates: { [key: string]: string } = {};
-        specificTest.assignedStudents.forEach((assignment: StudentAssignment) => {
-          bulkUpdates[assignment.student._id] = assignment.marksScored?.toString() || '';
-        });
-        setBulkMarksUpdates(bulkUpdates);
-      } else {
-        Alert.alert('Error', data.message || 'Failed to fetch test details');
-      }
+      // Initialize bulk marks updates with current marks
+      const bulkUpdates: { [key: string]: string } = {};
+      specificTest.assignedStudents.forEach(assignment => {
+        bulkUpdates[assignment.student._id] = assignment.marksScored?.toString() || '';
+      });
+      setBulkMarksUpdates(bulkUpdates);
     } catch (error) {
       console.error('Error fetching test details:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     }
   };
 
@@ -235,18 +184,60 @@ export default function TeacherHandleScoresScreen() {
     }, 600);
   };
 
+  const sections = test?.sections || [];
+
   const handleUpdateMarks = (student: StudentAssignment) => {
     setSelectedStudent(student);
     setMarksInput(student.marksScored?.toString() || '');
+    const inputs: { [label: string]: string } = {};
+    student.questionMarks?.forEach(question => {
+      inputs[question.label] = question.marks.toString();
+    });
+    setQuestionInputs(inputs);
     setShowUpdateModal(true);
   };
 
   const handleCloseUpdateModal = () => {
     setSelectedStudent(null);
     setMarksInput('');
+    setQuestionInputs({});
     setShowUpdateModal(false);
   };
 
+  const getQuestionTotal = () =>
+    Math.round(
+      Object.values(questionInputs).reduce((sum, value) => sum + (parseFloat(value) || 0), 0) * 100
+    ) / 100;
+
+  // Questions left blank count as 0, like on the server
+  const validateQuestionMarks = (): boolean => {
+    for (const section of sections) {
+      for (const question of section.questions) {
+        const value = questionInputs[question.label]?.trim();
+        if (!value) continue;
+        const marks = parseFloat(value);
+        if (isNaN(marks) || marks < 0 || marks > question.maxMarks) {
+          Alert.alert('Invalid Marks', `Question ${question.label} is out of ${question.maxMarks}`);
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  // Per-section score line for a student's card, e.g. "Physics 12/20"
+  const getSectionSummary = (assignment: StudentAssignment) => {
+    if (!sections.length || !assignment.questionMarks?.length) return null;
+    const marksByLabel = new Map(assignment.questionMarks.map(question => [question.label, question.marks]));
+    return sections
+      .map(section => {
+        const scored = section.questions.reduce((sum, question) => sum + (marksByLabel.get(question.label) || 0), 0);
+        const max = section.questions.reduce((sum, question) => sum + question.maxMarks, 0);
+        return `${section.name} ${Math.round(scored * 100) / 100}/${max}`;
+      })
+      .join('  •  ');
+  };
+
   const validateMarks = (marks: string): boolean => {
     if (!marks || marks.trim() === '') {
       Alert.alert('Error', 'Please enter marks');
@@ -267,72 +258,41 @@ export default function TeacherHandleScoresScreen() {
       return;
     }
 
-    if (!validateMarks(marksInput)) {
+    if (sections.length ? !validateQuestionMarks() : !validateMarks(marksInput)) {
       return;
     }
 
     setIsUpdating(true);
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        setIsUpdating(false);
-        return;
-      }
-
-      const requestBody = {
-        studentId: selectedStudent.student._id,
-        marksScored: parseFloat(marksInput),
-      };
-
-      console.log('Making API call to update marks:');
-      console.log('URL:', `${API_BASE_URL}/tests/teacher/${testId}/marks`);
-      console.log('Request body:', JSON.stringify(requestBody));
-
-      // Using the correct teacher marks endpoint
-      const response = await fetch(`${API_BASE_URL}/tests/teacher/${testId}/marks`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      console.log('Response status:', response.status);
-      console.log('Response ok:', response.ok);
-
-      // Check if response is ok first
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('HTTP Error:', response.status, errorText);
-        Alert.alert('Error', `HTTP Error: ${response.status}. ${errorText}`);
-        setIsUpdating(false);
-        return;
-      }
-
-      const data = await response.json();
-      console.log('Response data:', data);
-      
-      if (data.success) {
-        Alert.alert('Success', 'Marks updated successfully!', [
-          {
-            text: 'OK',
-            onPress: () => {
-              handleCloseUpdateModal();
-              fetchTestDetails();
-            }
+      await testsApi.updateStudentMarks(testId, sections.length
+        ? {
+            studentId: selectedStudent.student._id,
+            questionMarks: sections.flatMap(section => section.questions.map(question => ({
+              label: question.label,
+              marks: parseFloat(questionInputs[question.label]) || 0,
+            }))),
           }
-        ]);
-      } else {
-        console.error('API Error:', data);
-        Alert.alert('Error', data.message || 'Failed to update marks');
-      }
+        : {
+            studentId: selectedStudent.student._id,
+            marksScored: parseFloat(marksInput),
+          }
+      );
+
+      Alert.alert('Success', 'Marks updated successfully!', [
+        {
+          text: 'OK',
+          onPress: () => {
+            handleCloseUpdateModal();
+            fetchTestDetails();
+          }
+        }
+      ]);
     } catch (error) {
-      console.error('Network Error updating marks:', error);
-      Alert.alert('Error', `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error updating marks:', error);
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update marks');
+      }
     } finally {
       setIsUpdating(false);
     }
@@ -378,38 +338,17 @@ export default function TeacherHandleScoresScreen() {
     setIsBulkUpdating(true);
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        setIsBulkUpdating(false);
-        return;
-      }
-
       // Update marks for each student sequentially to avoid overwhelming the server
       const results = [];
       for (const update of updates) {
         try {
-          // Using updated teacher marks endpoint
-          const response = await fetch(`${API_BASE_URL}/tests/teacher/${testId}/marks`, {
-            method: 'PUT',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(update),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`HTTP Error for student ${update.studentId}:`, response.status, errorText);
-            results.push({ success: false, studentId: update.studentId, error: errorText });
-          } else {
-            const data = await response.json();
-            results.push({ success: data.success, studentId: update.studentId, data });
-          }
+          const data = await testsApi.updateStudentMarks(testId, update);
+          results.push({ success: data.success, studentId: update.studentId, data });
         } catch (error) {
-          console.error(`Network Error for student ${update.studentId}:`, error);
+          console.error(`Error updating marks for student ${update.studentId}:`, error);
+          if (error instanceof ApiError && error.isUnauthorized) {
+            return;
+          }
           results.push({ 
             success: false, 
             studentId: update.studentId, 
@@ -453,6 +392,15 @@ export default function TeacherHandleScoresScreen() {
     }
   };
 
+  // Open a student's submitted answer sheet to mark it up and enter per-question marks
+  const handleGradeAnswerSheet = (assignment: StudentAssignment) => {
+    navigation.navigate('AnswerSheetGradingScreen', {
+      testId,
+      studentId: assignment.student._id,
+      studentName: assignment.student.name,
+    });
+  };
+
   const getFilteredStudents = () => {
     switch (filterStatus) {
       case 'submitted':
@@ -508,6 +456,10 @@ export default function TeacherHandleScoresScreen() {
           </Text>
         </View>
 
+        {getSectionSummary(item) && (
+          <Text style={styles.sectionSummary}>{getSectionSummary(item)}</Text>
+        )}
+
         {item.submittedAt && (
           <View style={styles.detailItem}>
             <Text style={styles.detailLabel}>Submitted:</Text>
@@ -528,19 +480,32 @@ export default function TeacherHandleScoresScreen() {
       </View>
 
       <View style={styles.studentActions}>
-        <TouchableOpacity
-          style={styles.updateButton}
-          onPress={() => handleUpdateMarks(item)}
-        >
-          <MaterialIcons 
-            name="edit" 
-            size={16} 
-            color="#000" 
-          />
-          <Text style={styles.updateButtonText}>
-            {item.marksScored !== null ? 'Update Marks' : 'Add Marks'}
-          </Text>
-        </TouchableOpacity>
+        <View style={styles.studentActionButtons}>
+          <TouchableOpacity
+            style={styles.updateButton}
+            onPress={() => handleUpdateMarks(item)}
+          >
+            <MaterialIcons 
+              name="edit" 
+              size={16} 
+              color="#000" 
+            />
+            <Text style={styles.updateButtonText}>
+              {item.marksScored !== null ? 'Update Marks' : 'Add Marks'}
+            </Text>
+          </TouchableOpacity>
+
+          {/* Offline tests: the answer sheet the student uploaded */}
+          {item.submittedAt && test?.testType !== 'online' && (
+            <TouchableOpacity
+              style={styles.sheetButton}
+              onPress={() => handleGradeAnswerSheet(item)}
+            >
+              <MaterialIcons name="rate-review" size={16} color={BRAND.primaryColor} />
+              <Text style={styles.sheetButtonText}>Grade Sheet</Text>
+            </TouchableOpacity>
+          )}
+        </View>
 
         {item.marksScored !== null && (
           <View style={styles.percentageContainer}>
@@ -584,21 +549,50 @@ export default function TeacherHandleScoresScreen() {
                 {selectedStudent?.student.email}
               </Text>
 
-              <View style={styles.marksInputContainer}>
-                <Text style={styles.marksLabel}>
-                  Enter marks (0 - {fullMarks}):
-                </Text>
-                <TextInput
-                  style={styles.marksInput}
-                  value={marksInput}
-                  onChangeText={setMarksInput}
-                  placeholder="0"
-                  placeholderTextColor="#666"
-                  keyboardType="numeric"
-                  maxLength={3}
-                  autoFocus={true}
-                />
-              </View>
+              {sections.length ? (
+                <View style={styles.marksInputContainer}>
+                  <ScrollView style={styles.questionMarksList} keyboardShouldPersistTaps="handled">
+                    {sections.map(section => (
+                      <View key={section.name} style={styles.questionSection}>
+                        <Text style={styles.questionSectionName}>{section.name}</Text>
+                        {section.questions.map(question => (
+                          <View key={question.label} style={styles.questionMarkRow}>
+                            <Text style={styles.questionMarkLabel}>Q{question.label}</Text>
+                            <TextInput
+                              style={styles.questionMarkInput}
+                              value={questionInputs[question.label] || ''}
+                              onChangeText={value => setQuestionInputs(prev => ({ ...prev, [question.label]: value }))}
+                              placeholder="0"
+                              placeholderTextColor="#666"
+                              keyboardType="decimal-pad"
+                            />
+                            <Text style={styles.questionMarkMax}>/ {question.maxMarks}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    ))}
+                  </ScrollView>
+                  <Text style={styles.questionMarksTotal}>
+                    Total {getQuestionTotal()} / {fullMarks}
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.marksInputContainer}>
+                  <Text style={styles.marksLabel}>
+                    Enter marks (0 - {fullMarks}):
+                  </Text>
+                  <TextInput
+                    style={styles.marksInput}
+                    value={marksInput}
+                    onChangeText={setMarksInput}
+                    placeholder="0"
+                    placeholderTextColor="#666"
+                    keyboardType="numeric"
+                    maxLength={3}
+                    autoFocus={true}
+                  />
+                </View>
+              )}
 
               <View style={styles.updateModalActions}>
                 <TouchableOpacity
@@ -1049,11 +1043,36 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '500',
   },
+  sectionSummary: {
+    fontSize: 12,
+    color: '#aaa',
+    marginBottom: 6,
+  },
   studentActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  studentActionButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sheetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: BRAND.primaryColor,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+  sheetButtonText: {
+    color: BRAND.primaryColor,
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   updateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1155,6 +1174,52 @@ const styles = StyleSheet.create({
     color: '#888',
     marginBottom: 8,
   },
+  questionMarksList: {
+    maxHeight: height * 0.4,
+  },
+  questionSection: {
+    marginBottom: 12,
+  },
+  questionSectionName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+    marginBottom: 8,
+  },
+  questionMarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  questionMarkLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  questionMarkInput: {
+    width: 70,
+    backgroundColor: '#333',
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  questionMarkMax: {
+    width: 50,
+    fontSize: 14,
+    color: '#888',
+    marginLeft: 8,
+  },
+  questionMarksTotal: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+    textAlign: 'right',
+    marginTop: 8,
+  },
   marksInput: {
     backgroundColor: '#333',
     color: '#fff',
@@ -18,13 +18,23 @@ import {
   Platform,
   KeyboardAvoidingView,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import {
+  ApiError,
+  MarkingScheme,
+  Test as ApiTest,
+  TeacherBatchSubjects,
+  TestSection,
+  TestType,
+  UserSummary,
+  testsApi,
+} from '../api';
+import { MARKING_SCHEME_OPTIONS } from '../components/QuestionEditorModal';
+import TestSectionsEditor, { SectionDraft, parseSectionDrafts, toSectionDrafts } from '../components/TestSectionsEditor';
 import { Picker } from '@react-native-picker/picker';
 
 type TeacherHandleTestNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -48,65 +58,10 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-// Updated Test interface to match backend
-interface Test {
-  _id: string;
-  testTitle: string;
-  fullMarks: number;
-  className: string;
-  subjectName: string;
-  batch: {
-    _id: string;
-    batchName: string;
-    category: string;
-  };
-  assignedStudents: {
-    student: {
-      _id: string;
-      name: string;
-      email: string;
-    };
-    marksScored: number | null;
-    submittedAt: Date | null;
-    evaluatedAt: Date | null;
-  }[];
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  instructions: string;
-  dueDate: Date | null;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-  hasQuestionPdf?: boolean;
-  hasAnswerPdf?: boolean;
-}
-
-// Student interface
-interface Student {
-  _id: string;
-  name: string;
-  email: string;
-}
-
-interface BatchInfo {
-  _id: string;
-  batchName: string;
-  category: string;
-  classes: string[];
-  subjects: {
-    name: string;
-    teacher: {
-      _id: string;
-      name: string;
-      email: string;
-    };
-  }[];
-}
+// Tests returned on create also say which PDFs were uploaded
+type Test = ApiTest & { hasQuestionPdf?: boolean; hasAnswerPdf?: boolean };
+type Student = UserSummary;
+type BatchInfo = TeacherBatchSubjects['batch'];
 
 // File interface
 interface FileUpload {
@@ -145,6 +100,10 @@ export default function TeacherHandleTestScreen() {
   const [questionPdf, setQuestionPdf] = useState<FileUpload | null>(null);
   const [answerPdf, setAnswerPdf] = useState<FileUpload | null>(null);
   const [isActive, setIsActive] = useState(true);
+  const [testType, setTestType] = useState<TestType>('offline');
+  const [durationMinutes, setDurationMinutes] = useState('');
+  const [markingScheme, setMarkingScheme] = useState<MarkingScheme>('custom');
+  const [sections, setSections] = useState<SectionDraft[]>([]);
 
 const [availableSubjects, setAvailableSubjects] = useState<{name: string}[]>([]);
 const [selectedSubject, setSelectedSubject] = useState('');
@@ -176,22 +135,8 @@ const [selectedSubject, setSelectedSubject] = useState('');
 
   const fetchBatchInfo = async () => {
   try {
-    const token = await AsyncStorage.getItem('userToken');
-    if (!token) {
-      Alert.alert('Error', 'No authentication token found');
-      return;
-    }
-
     // Fetch teacher's subjects for this batch
-    const response = await fetch(`${API_BASE_URL}/tests/teacher/batch/${batchId}/subjects`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data = await response.json();
+    const data = await testsApi.getTeacherSubjectsForBatch(batchId);
     
     if (data.success) {
       setBatchInfo(data.data.batch);
@@ -206,28 +151,15 @@ const [selectedSubject, setSelectedSubject] = useState('');
     }
   } catch (error) {
     console.error('Error fetching batch info:', error);
-    Alert.alert('Error', 'Network error. Please check your connection.');
+    if (error instanceof ApiError && !error.isUnauthorized) {
+      Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+    }
   }
 };
 
   const fetchBatchSubjectTests = async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/tests/teacher/batch/${batchId}/subject/${subjectName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
+      const data = await testsApi.getBatchSubjectTests(batchId, subjectName);
       
       if (data.success) {
         setTests(data.data);
@@ -236,36 +168,23 @@ const [selectedSubject, setSelectedSubject] = useState('');
       }
     } catch (error) {
       console.error('Error fetching batch tests:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     }
   };
 
   const fetchAvailableStudents = async (className: string, subject?: string) => {
   try {
-    const token = await AsyncStorage.getItem('userToken');
-    
-    if (!token) {
-      console.log('No token found');
-      return;
-    }
-
     const targetSubject = subject || selectedSubject;
     console.log('Fetching students for:', { batchId, className, targetSubject });
     
-    const response = await fetch(`${API_BASE_URL}/tests/batch/${batchId}/class/${className}/subject/${targetSubject}/students`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data = await response.json();
+    const data = await testsApi.getAvailableStudents(batchId, className, targetSubject);
     console.log('Students API response:', data);
     
     if (data.success) {
       console.log('Setting available students:', data.data);
-      setAvailableStudents(data.data || []);
+      setAvailableStudents(data.data);
     } else {
       console.log('API error:', data.message);
       Alert.alert('Error', data.message || 'Failed to fetch students');
@@ -353,6 +272,10 @@ const [selectedSubject, setSelectedSubject] = useState('');
     setIsActive(test.isActive);
     setQuestionPdf(null);
     setAnswerPdf(null);
+    setTestType(test.testType || 'offline');
+    setDurationMinutes(test.durationMinutes ? test.durationMinutes.toString() : '');
+    setMarkingScheme(test.markingScheme || 'custom');
+    setSections(toSectionDrafts(test.sections));
   };
 
   const resetForm = () => {
@@ -365,6 +288,10 @@ const [selectedSubject, setSelectedSubject] = useState('');
   setQuestionPdf(null);
   setAnswerPdf(null);
   setIsActive(true);
+  setTestType('offline');
+  setDurationMinutes('');
+  setMarkingScheme('custom');
+  setSections([]);
 };
 
   const handleCloseCreateModal = () => {
@@ -459,6 +386,19 @@ const [selectedSubject, setSelectedSubject] = useState('');
     return false;
   }
 
+  if (testType === 'online' && !(Number(durationMinutes) > 0)) {
+    Alert.alert('Validation Error', 'Please enter the test duration in minutes');
+    return false;
+  }
+
+  if (testType !== 'online') {
+    const scheme = parseSectionDrafts(sections, marksNumber);
+    if ('message' in scheme) {
+      Alert.alert('Validation Error', scheme.message);
+      return false;
+    }
+  }
+
   if (dueDate.trim() && !isValidDate(dueDate)) {
     Alert.alert('Validation Error', 'Please enter date in YYYY-MM-DD format');
     return false;
@@ -479,20 +419,18 @@ const [selectedSubject, setSelectedSubject] = useState('');
     return dateString === date.toISOString().split('T')[0];
   };
 
+  // The marking scheme as the server expects it; validateForm has already checked it
+  const getSchemeSections = (): TestSection[] => {
+    const scheme = parseSectionDrafts(sections, Number(fullMarks));
+    return 'sections' in scheme ? scheme.sections : [];
+  };
+
   const handleCreateTestSubmit = async () => {
   if (!validateForm()) return;
 
   setIsCreating(true);
 
   try {
-    const token = await AsyncStorage.getItem('userToken');
-    
-    if (!token) {
-      Alert.alert('Error', 'No authentication token found');
-      setIsCreating(false);
-      return;
-    }
-
     const formData = new FormData();
     formData.append('testTitle', testTitle.trim());
     formData.append('fullMarks', fullMarks.trim());
@@ -501,6 +439,14 @@ const [selectedSubject, setSelectedSubject] = useState('');
     formData.append('subjectName', selectedSubject); // Use selectedSubject instead of subjectName from params
     formData.append('assignedStudents', JSON.stringify([]));
     formData.append('isActive', isActive.toString());
+
+    if (testType === 'online') {
+      formData.append('testType', 'online');
+      formData.append('durationMinutes', durationMinutes.trim());
+      formData.append('markingScheme', markingScheme);
+    } else if (sections.length) {
+      formData.append('sections', JSON.stringify(getSchemeSections()));
+    }
     
     if (instructions.trim()) {
       formData.append('instructions', instructions.trim());
@@ -526,18 +472,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
       } as any);
     }
 
-    const response = await fetch(`${API_BASE_URL}/tests/teacher/`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'multipart/form-data',
-      },
-      body: formData,
-    });
-
-    const data = await response.json();
+    const data = await testsApi.createTest(formData);
     
-    if (response.ok && data.success) {
+    if (data.success) {
       Alert.alert('Success', 'Test created successfully! You can now assign students to this test.', [
         {
           text: 'OK',
@@ -552,7 +489,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
     }
   } catch (error) {
     console.error('Error creating test:', error);
-    Alert.alert('Error', 'Network error. Please check your connection.');
+    if (!(error instanceof ApiError && error.isUnauthorized)) {
+      Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please check your connection.');
+    }
   } finally {
     setIsCreating(false);
   }
@@ -564,20 +503,17 @@ const [selectedSubject, setSelectedSubject] = useState('');
     setIsEditing(true);
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        setIsEditing(false);
-        return;
-      }
-
       const formData = new FormData();
       formData.append('testTitle', testTitle.trim());
       formData.append('fullMarks', fullMarks.trim());
       formData.append('className', selectedClass);
       formData.append('subjectName', subjectName);
       formData.append('isActive', isActive.toString());
+
+      // Sent even when empty so removing every section clears the scheme
+      if (testType !== 'online') {
+        formData.append('sections', JSON.stringify(getSchemeSections()));
+      }
       
       if (instructions.trim()) {
         formData.append('instructions', instructions.trim());
@@ -603,18 +539,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
         } as any);
       }
 
-      const response = await fetch(`${API_BASE_URL}/tests/teacher/${selectedTestForEdit._id}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'multipart/form-data',
-        },
-        body: formData,
-      });
-
-      const data = await response.json();
+      const data = await testsApi.updateTest(selectedTestForEdit._id, formData);
       
-      if (response.ok && data.success) {
+      if (data.success) {
         Alert.alert('Success', 'Test updated successfully!', [
           {
             text: 'OK',
@@ -629,7 +556,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
       }
     } catch (error) {
       console.error('Error updating test:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please check your connection.');
+      }
     } finally {
       setIsEditing(false);
     }
@@ -641,28 +570,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
     setIsAssigning(true);
 
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        setIsAssigning(false);
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/tests/teacher/${selectedTestForAssignment._id}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          assignedStudents: selectedStudentsForAssignment
-        }),
-      });
-
-      const data = await response.json();
+      const data = await testsApi.assignStudents(selectedTestForAssignment._id, selectedStudentsForAssignment);
       
-      if (response.ok && data.success) {
+      if (data.success) {
         Alert.alert('Success', 'Students assigned successfully!', [
           {
             text: 'OK',
@@ -677,7 +587,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
       }
     } catch (error) {
       console.error('Error assigning students:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please check your connection.');
+      }
     } finally {
       setIsAssigning(false);
     }
@@ -694,16 +606,7 @@ const [selectedSubject, setSelectedSubject] = useState('');
           style: 'destructive',
           onPress: async () => {
             try {
-              const token = await AsyncStorage.getItem('userToken');
-              
-              const response = await fetch(`${API_BASE_URL}/tests/teacher/${testId}`, {
-                method: 'DELETE',
-                headers: {
-                  'Authorization': `Bearer ${token}`,
-                },
-              });
-
-              const data = await response.json();
+              const data = await testsApi.deleteTest(testId);
               
               if (data.success) {
                 Alert.alert('Success', 'Test deleted successfully!');
@@ -713,7 +616,9 @@ const [selectedSubject, setSelectedSubject] = useState('');
               }
             } catch (error) {
               console.error('Error deleting test:', error);
-              Alert.alert('Error', 'Network error. Please check your connection.');
+              if (!(error instanceof ApiError && error.isUnauthorized)) {
+                Alert.alert('Error', error instanceof ApiError && !error.isNetworkError ? error.message : 'Network error. Please check your connection.');
+              }
             }
           }
         }
@@ -762,6 +667,11 @@ const [selectedSubject, setSelectedSubject] = useState('');
           <Text style={styles.testSubtitle}>
             {item.assignedStudents.length} Students Assigned
           </Text>
+          {item.testType === 'online' && (
+            <Text style={styles.onlineTestTag}>
+              Online • {item.durationMinutes} min
+            </Text>
+          )}
           <Text style={styles.testDate}>
             Created: {new Date(item.createdAt).toLocaleDateString()}
           </Text>
@@ -773,6 +683,14 @@ const [selectedSubject, setSelectedSubject] = useState('');
           >
             <MaterialIcons name="edit" size={20} color="#ffa500" />
           </TouchableOpacity>
+          {item.testType === 'online' && (
+            <TouchableOpacity
+              style={styles.questionsButton}
+              onPress={() => navigation.navigate('TeacherOnlineTestScreen', { testId: item._id, testTitle: item.testTitle })}
+            >
+              <MaterialIcons name="quiz" size={20} color="#4fc3f7" />
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={styles.assignButton}
             onPress={() => handleAssignStudents(item)}
@@ -909,6 +827,61 @@ const [selectedSubject, setSelectedSubject] = useState('');
               />
             </View>
 
+            {!isEdit && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Test Type</Text>
+                <View style={styles.statusContainer}>
+                  {(['offline', 'online'] as TestType[]).map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.statusButton,
+                        testType === type && styles.statusButtonActive
+                      ]}
+                      onPress={() => setTestType(type)}
+                    >
+                      <Text style={[
+                        styles.statusButtonText,
+                        testType === type && styles.statusButtonTextActive
+                      ]}>{type === 'online' ? 'Online' : 'Offline'}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {testType === 'online' && !isEdit && (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Duration (minutes) *</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={durationMinutes}
+                    onChangeText={setDurationMinutes}
+                    placeholder="e.g. 180"
+                    placeholderTextColor="#888"
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Marking Scheme</Text>
+                  <View style={styles.pickerContainer}>
+                    <Picker
+                      selectedValue={markingScheme}
+                      style={styles.picker}
+                      onValueChange={(value: MarkingScheme) => setMarkingScheme(value)}
+                      dropdownIconColor="#fff"
+                    >
+                      {MARKING_SCHEME_OPTIONS.map((option) => (
+                        <Picker.Item key={option.value} label={option.label} value={option.value} />
+                      ))}
+                    </Picker>
+                  </View>
+                </View>
+              </>
+            )}
+
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Full Marks *</Text>
               <TextInput
@@ -919,6 +892,11 @@ const [selectedSubject, setSelectedSubject] = useState('');
                 placeholderTextColor="#888"
                 keyboardType="numeric"
               />
+              {testType === 'online' && (
+                <Text style={styles.inputHint}>
+                  Recalculated from the question marks once questions are added
+                </Text>
+              )}
             </View>
 
             <View style={styles.inputGroup}>
@@ -996,35 +974,49 @@ const [selectedSubject, setSelectedSubject] = useState('');
               </View>
             </View>
 
-            <View style={styles.fileSection}>
-              <Text style={styles.sectionTitle}>Files</Text>
+            {testType !== 'online' && (
+              <View style={styles.fileSection}>
+                <Text style={styles.sectionTitle}>Files</Text>
               
-              <View style={styles.fileGroup}>
-                <Text style={styles.inputLabel}>Question PDF</Text>
-                <TouchableOpacity
-                  style={styles.fileUploadButton}
-                  onPress={() => handleFileUpload('question')}
-                >
-                  <MaterialIcons name="upload-file" size={24} color={BRAND.primaryColor} />
-                  <Text style={styles.fileUploadText}>
-                    {questionPdf ? questionPdf.name : 'Upload Question PDF'}
-                  </Text>
-                </TouchableOpacity>
+                <View style={styles.fileGroup}>
+                  <Text style={styles.inputLabel}>Question PDF</Text>
+                  <TouchableOpacity
+                    style={styles.fileUploadButton}
+                    onPress={() => handleFileUpload('question')}
+                  >
+                    <MaterialIcons name="upload-file" size={24} color={BRAND.primaryColor} />
+                    <Text style={styles.fileUploadText}>
+                      {questionPdf ? questionPdf.name : 'Upload Question PDF'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.fileGroup}>
+                  <Text style={styles.inputLabel}>Answer PDF</Text>
+                  <TouchableOpacity
+                    style={styles.fileUploadButton}
+                    onPress={() => handleFileUpload('answer')}
+                  >
+                    <MaterialIcons name="upload-file" size={24} color={BRAND.primaryColor} />
+                    <Text style={styles.fileUploadText}>
+                      {answerPdf ? answerPdf.name : 'Upload Answer PDF'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
               </View>
+            )}
 
-              <View style={styles.fileGroup}>
-                <Text style={styles.inputLabel}>Answer PDF</Text>
-                <TouchableOpacity
-                  style={styles.fileUploadButton}
-                  onPress={() => handleFileUpload('answer')}
-                >
-                  <MaterialIcons name="upload-file" size={24} color={BRAND.primaryColor} />
-                  <Text style={styles.fileUploadText}>
-                    {answerPdf ? answerPdf.name : 'Upload Answer PDF'}
-                  </Text>
-                </TouchableOpacity>
+            {testType !== 'online' && (
+              <View style={styles.fileSection}>
+                <Text style={styles.sectionTitle}>Marking Scheme</Text>
+                <TestSectionsEditor
+                  sections={sections}
+                  fullMarks={fullMarks}
+                  locked={isEdit && !!selectedTestForEdit?.assignedStudents.some(s => s.questionMarks?.length)}
+                  onChange={setSections}
+                />
               </View>
-            </View>
+            )}
 
             <TouchableOpacity
               style={[
@@ -1399,6 +1391,20 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  questionsButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(79,195,247,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  onlineTestTag: {
+    fontSize: 12,
+    color: '#4fc3f7',
+    fontWeight: '600',
+    marginTop: 2,
+  },
   deleteButton: {
     width: 36,
     height: 36,
@@ -1581,6 +1587,11 @@ const styles = StyleSheet.create({
     color: '#fff',
     backgroundColor: 'transparent',
   },
+  inputHint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 6,
+  },
   statusContainer: {
     flexDirection: 'row',
     gap: 12,
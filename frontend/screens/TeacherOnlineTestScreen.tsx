@@ -0,0 +1,734 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TextInput,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { RootStackParamList } from '../App';
+import {
+  ApiError,
+  MarkingScheme,
+  MarkingSchemeDefaults,
+  TestAttempt,
+  TestQuestion,
+  TestQuestionInput,
+  UserSummary,
+  testsApi,
+} from '../api';
+import QuestionEditorModal, { MARKING_SCHEME_OPTIONS, getQuestionTypeLabel } from '../components/QuestionEditorModal';
+import QuestionBankPickerModal from '../components/QuestionBankPickerModal';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type TeacherOnlineTestRouteProp = RouteProp<RootStackParamList, 'TeacherOnlineTestScreen'>;
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+};
+
+type Tab = 'questions' | 'results';
+
+const toInput = (question: TestQuestion): TestQuestionInput => ({
+  _id: question._id,
+  questionType: question.questionType,
+  questionText: question.questionText,
+  options: question.options,
+  correctOptions: question.correctOptions || [],
+  correctAnswer: question.correctAnswer ?? null,
+  tolerance: question.tolerance || 0,
+  marks: question.marks,
+  negativeMarks: question.negativeMarks,
+  partialMarking: question.partialMarking,
+  solution: question.solution || '',
+  images: question.images,
+  bankQuestion: question.bankQuestion,
+});
+
+const getAnswerText = (question: TestQuestionInput) =>
+  question.questionType === 'single' || question.questionType === 'multiple'
+    ? question.correctOptions.map((option) => String.fromCharCode(65 + option)).join(', ')
+    : `${question.correctAnswer}${question.tolerance ? ` ± ${question.tolerance}` : ''}`;
+
+const getStudent = (attempt: TestAttempt): Partial<UserSummary> =>
+  typeof attempt.student === 'string' ? { _id: attempt.student } : attempt.student;
+
+export default function TeacherOnlineTestScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<TeacherOnlineTestRouteProp>();
+  const { testId, testTitle } = route.params;
+
+  const [activeTab, setActiveTab] = useState<Tab>('questions');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  const [questions, setQuestions] = useState<TestQuestionInput[]>([]);
+  const [markingScheme, setMarkingScheme] = useState<MarkingScheme>('custom');
+  const [markingSchemes, setMarkingSchemes] = useState<MarkingSchemeDefaults | null>(null);
+  const [durationMinutes, setDurationMinutes] = useState('');
+  const [fullMarks, setFullMarks] = useState(0);
+  const [subjectName, setSubjectName] = useState<string | undefined>(undefined);
+  const [attemptCount, setAttemptCount] = useState(0);
+  const [attempts, setAttempts] = useState<TestAttempt[]>([]);
+
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  const locked = attemptCount > 0;
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const response = await testsApi.getOnlineTestQuestions(testId);
+      const { test } = response.data;
+      setQuestions(response.data.questions.map(toInput));
+      setMarkingScheme(test.markingScheme || 'custom');
+      setMarkingSchemes(response.data.markingSchemes);
+      setDurationMinutes(test.durationMinutes ? String(test.durationMinutes) : '');
+      setFullMarks(test.fullMarks);
+      setSubjectName(test.subjectName);
+      setAttemptCount(response.data.attemptCount);
+      setDirty(false);
+    } catch (error) {
+      console.error('Error fetching test questions:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load questions');
+    }
+  }, [testId]);
+
+  const fetchAttempts = useCallback(async () => {
+    try {
+      const response = await testsApi.getTestAttempts(testId);
+      setAttempts(response.data);
+    } catch (error) {
+      console.error('Error fetching attempts:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load results');
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    Promise.all([fetchQuestions(), fetchAttempts()]).finally(() => setLoading(false));
+  }, [fetchQuestions, fetchAttempts]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await (activeTab === 'questions' ? fetchQuestions() : fetchAttempts());
+    setRefreshing(false);
+  };
+
+  const handleBack = () => {
+    if (!dirty) {
+      navigation.goBack();
+      return;
+    }
+    Alert.alert('Unsaved Changes', 'Leave without saving your questions?', [
+      { text: 'Stay', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  const changeScheme = (scheme: MarkingScheme) => {
+    if (scheme === markingScheme) return;
+    setMarkingScheme(scheme);
+    setDirty(true);
+    if (!questions.length || !markingSchemes) return;
+
+    const defaults = markingSchemes[scheme];
+    Alert.alert('Apply Marking Scheme', 'Update the marks of the existing questions to this scheme?', [
+      { text: 'Keep Marks', style: 'cancel' },
+      {
+        text: 'Apply',
+        onPress: () =>
+          setQuestions((current) =>
+            current.map((question) => ({
+              ...question,
+              ...defaults[question.questionType],
+              partialMarking: question.questionType === 'multiple' && defaults[question.questionType].partialMarking,
+            }))
+          ),
+      },
+    ]);
+  };
+
+  const openEditor = (index: number | null) => {
+    setEditingIndex(index);
+    setEditorVisible(true);
+  };
+
+  const handleSaveQuestion = (question: TestQuestionInput) => {
+    setQuestions((current) =>
+      editingIndex === null
+        ? [...current, question]
+        : current.map((item, index) => (index === editingIndex ? question : item))
+    );
+    setDirty(true);
+    setEditorVisible(false);
+  };
+
+  // The server adds bank questions to the saved test, so unsaved edits have to be saved first
+  const openPicker = () => {
+    if (dirty) {
+      Alert.alert('Unsaved Changes', 'Save your questions before adding more from the question bank.');
+      return;
+    }
+    setPickerVisible(true);
+  };
+
+  const handleAddFromBank = async (questionIds: string[]) => {
+    try {
+      const response = await testsApi.addBankQuestions(testId, questionIds);
+      setPickerVisible(false);
+      await fetchQuestions();
+      Alert.alert('Questions Added', `${response.message || 'Questions added'}. Full marks: ${response.data.fullMarks}`);
+    } catch (error) {
+      console.error('Error adding questions from the bank:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to add questions');
+    }
+  };
+
+  const handleDeleteQuestion = (index: number) => {
+    Alert.alert('Delete Question', `Delete question ${index + 1}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          setQuestions((current) => current.filter((_, i) => i !== index));
+          setDirty(true);
+        },
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!questions.length) {
+      Alert.alert('Validation Error', 'Add at least one question');
+      return;
+    }
+    if (!(Number(durationMinutes) > 0)) {
+      Alert.alert('Validation Error', 'Please enter the test duration in minutes');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await testsApi.updateOnlineTestQuestions(testId, {
+        questions,
+        markingScheme,
+        durationMinutes: Number(durationMinutes),
+      });
+      setFullMarks(response.data.fullMarks);
+      await fetchQuestions();
+      Alert.alert('Saved', `${questions.length} questions saved. Full marks: ${response.data.fullMarks}`);
+    } catch (error) {
+      console.error('Error saving questions:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to save questions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalMarks = questions.reduce((total, question) => total + question.marks, 0);
+
+  const renderQuestion = ({ item, index }: { item: TestQuestionInput; index: number }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.questionNumber}>Q{index + 1}</Text>
+        <View style={styles.typeBadge}>
+          <Text style={styles.typeBadgeText}>{getQuestionTypeLabel(item.questionType)}</Text>
+        </View>
+        <Text style={styles.marksText}>
+          +{item.marks}{item.negativeMarks ? ` / −${item.negativeMarks}` : ''}
+        </Text>
+        {!locked && (
+          <View style={styles.cardActions}>
+            <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(index)}>
+              <MaterialIcons name="edit" size={18} color="#ffa500" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteQuestion(index)}>
+              <MaterialIcons name="delete" size={18} color={BRAND.dangerColor} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+      <Text style={styles.questionText} numberOfLines={3}>{item.questionText}</Text>
+      {!!item.images?.length && (
+        <View style={styles.imageBadge}>
+          <MaterialIcons name="image" size={14} color={BRAND.textSecondary} />
+          <Text style={styles.imageBadgeText}>{item.images.length} images</Text>
+        </View>
+      )}
+      <Text style={styles.answerText}>Answer: {getAnswerText(item)}</Text>
+    </View>
+  );
+
+  const renderAttempt = ({ item }: { item: TestAttempt }) => {
+    const student = getStudent(item);
+    const submitted = item.status === 'submitted';
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.attemptInfo}>
+            <Text style={styles.studentName} numberOfLines={1}>{student.name || 'Unknown student'}</Text>
+            {!!student.email && <Text style={styles.studentEmail} numberOfLines={1}>{student.email}</Text>}
+          </View>
+          <Text style={[styles.scoreText, !submitted && styles.inProgressText]}>
+            {submitted ? `${item.score} / ${fullMarks}` : 'In progress'}
+          </Text>
+        </View>
+        <Text style={styles.attemptMeta}>
+          {submitted
+            ? `Submitted ${new Date(item.submittedAt as string).toLocaleString()}${item.autoSubmitted ? ' · time ran out' : ''}`
+            : `Started ${new Date(item.startedAt).toLocaleString()} · ends ${new Date(item.endsAt).toLocaleTimeString()}`}
+        </Text>
+      </View>
+    );
+  };
+
+  const refreshControl = (
+    <RefreshControl
+      refreshing={refreshing}
+      onRefresh={onRefresh}
+      colors={[BRAND.primaryColor]}
+      tintColor={BRAND.primaryColor}
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{testTitle}</Text>
+          <Text style={styles.headerSubtitle}>
+            {questions.length} questions · {totalMarks || fullMarks} marks
+          </Text>
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Tabs */}
+      <View style={styles.tabs}>
+        {(['questions', 'results'] as Tab[]).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.tabActive]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+              {tab === 'questions' ? 'Questions' : `Results (${attempts.length})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        </View>
+      ) : activeTab === 'questions' ? (
+        <>
+          <FlatList
+            data={questions}
+            keyExtractor={(item, index) => item._id || `new-${index}`}
+            renderItem={renderQuestion}
+            contentContainerStyle={styles.listContent}
+            refreshControl={refreshControl}
+            ListHeaderComponent={
+              <View style={styles.settings}>
+                {locked && (
+                  <View style={styles.lockedBanner}>
+                    <MaterialIcons name="lock" size={18} color="#ffa500" />
+                    <Text style={styles.lockedText}>
+                      {attemptCount} students have started this test, so its questions can no longer change.
+                    </Text>
+                  </View>
+                )}
+
+                <Text style={styles.label}>Marking Scheme</Text>
+                <View style={styles.chipRow}>
+                  {MARKING_SCHEME_OPTIONS.map((option) => {
+                    const selected = markingScheme === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => changeScheme(option.value)}
+                        disabled={locked}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.label}>Duration (minutes)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={durationMinutes}
+                  onChangeText={(value) => {
+                    setDurationMinutes(value);
+                    setDirty(true);
+                  }}
+                  keyboardType="numeric"
+                  editable={!locked}
+                />
+              </View>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <MaterialIcons name="quiz" size={56} color="#666" />
+                <Text style={styles.emptyText}>No questions yet</Text>
+              </View>
+            }
+          />
+
+          {!locked && (
+            <View style={styles.footer}>
+              <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)} disabled={!markingSchemes}>
+                <MaterialIcons name="add" size={20} color={BRAND.primaryColor} />
+                <Text style={styles.addButtonText}>Add Question</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addButton} onPress={openPicker}>
+                <MaterialIcons name="library-books" size={20} color={BRAND.primaryColor} />
+                <Text style={styles.addButtonText}>From Bank</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, (!dirty || saving) && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!dirty || saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#000" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      ) : (
+        <FlatList
+          data={attempts}
+          keyExtractor={(item) => item._id}
+          renderItem={renderAttempt}
+          contentContainerStyle={styles.listContent}
+          refreshControl={refreshControl}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="assignment" size={56} color="#666" />
+              <Text style={styles.emptyText}>No student has started this test yet</Text>
+            </View>
+          }
+        />
+      )}
+
+      {markingSchemes && (
+        <QuestionEditorModal
+          visible={editorVisible}
+          question={editingIndex === null ? null : questions[editingIndex]}
+          defaults={markingSchemes[markingScheme]}
+          getImageUrl={(questionId, imageId) => testsApi.getTeacherQuestionImageUrl(testId, questionId, imageId)}
+          onSave={handleSaveQuestion}
+          onClose={() => setEditorVisible(false)}
+        />
+      )}
+
+      <QuestionBankPickerModal
+        visible={pickerVisible}
+        subjectName={subjectName}
+        addedIds={questions.map((question) => question.bankQuestion).filter((id): id is string => !!id)}
+        onAdd={handleAddFromBank}
+        onClose={() => setPickerVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: BRAND.primaryColor,
+  },
+  tabText: {
+    color: BRAND.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  tabTextActive: {
+    color: BRAND.primaryColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  settings: {
+    marginBottom: 12,
+  },
+  lockedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 165, 0, 0.12)',
+    borderRadius: 8,
+    padding: 12,
+  },
+  lockedText: {
+    flex: 1,
+    color: '#ffa500',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: BRAND.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  chipText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: BRAND.primaryColor,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+  },
+  card: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: BRAND.accentColor,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  questionNumber: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  typeBadge: {
+    backgroundColor: BRAND.accentColor,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  typeBadgeText: {
+    color: BRAND.textSecondary,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  marksText: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+  cardActions: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  questionText: {
+    color: BRAND.textPrimary,
+    fontSize: 15,
+    marginTop: 8,
+  },
+  answerText: {
+    color: BRAND.primaryColor,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  imageBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  imageBadgeText: {
+    color: BRAND.textSecondary,
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  attemptInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  studentName: {
+    color: BRAND.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  studentEmail: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+  },
+  scoreText: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  inProgressText: {
+    color: '#ffa500',
+    fontSize: 13,
+  },
+  attemptMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: BRAND.primaryColor,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  addButtonText: {
+    color: BRAND.primaryColor,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#000',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -14,12 +14,11 @@ import {
   RefreshControl,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import { RootStackParamList } from '../App';
-import { API_BASE } from '../config/api';
+import { ApiError, ApiResponse, Test as ApiTest, testsApi } from '../api';
 
 type TeacherTestListNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type TeacherTestListRouteProp = {
@@ -42,49 +41,8 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
-const API_BASE_URL = API_BASE;
-
-interface Test {
-  _id: string;
-  testTitle: string;
-  fullMarks: number;
-  instructions: string;
-  dueDate: Date | null;
-  isActive: boolean;
-  className: string; // Added className field
-  subjectName: string; // Added subjectName field
-  batch: {
-    _id: string;
-    batchName: string;
-    category: string;
-  };
-  assignedStudents: Array<{
-    student: {
-      _id: string;
-      name: string;
-      email: string;
-    };
-    marksScored: number | null;
-    submittedAt: Date | null;
-    evaluatedAt: Date | null;
-  }>;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-  hasQuestionPdf?: boolean;
-  hasAnswerPdf?: boolean;
-}
-
-interface TestListResponse {
-  success: boolean;
-  data: Test[];
-  message: string;
-  count: number; // Added count field
-}
+// Tests returned on create also say which PDFs were uploaded
+type Test = ApiTest & { hasQuestionPdf?: boolean; hasAnswerPdf?: boolean };
 
 export default function TeacherTestListScreen() {
   const navigation = useNavigation<TeacherTestListNavigationProp>();
@@ -113,33 +71,12 @@ export default function TeacherTestListScreen() {
   const fetchTests = async () => {
     try {
       setIsLoading(true);
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        Alert.alert('Error', 'No authentication token found');
-        return;
-      }
-
-      let url: string;
-      
       // Fix: Check if subjectName actually exists and is not undefined
-      if (subjectName && subjectName !== 'undefined') {
+      const data: ApiResponse<Test[]> = subjectName && subjectName !== 'undefined'
         // Fetch tests for specific batch and subject
-        url = `${API_BASE_URL}/tests/batch/${batchId}/subject/${encodeURIComponent(subjectName)}`;
-      } else {
+        ? await testsApi.getBatchSubjectTests(batchId, subjectName)
         // Fetch all teacher's tests - you might want to filter by batch on frontend
-        url = `${API_BASE_URL}/tests/my-tests`;
-      }
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: TestListResponse = await response.json();
+        : await testsApi.getTeacherTests();
       
       if (data.success) {
         let filteredTests = data.data;
@@ -162,7 +99,9 @@ export default function TeacherTestListScreen() {
       }
     } catch (error) {
       console.error('Error fetching tests:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (error instanceof ApiError && !error.isUnauthorized) {
+        Alert.alert('Error', error.isNetworkError ? 'Network error. Please check your connection.' : error.message);
+      }
     } finally {
       setIsLoading(false);
     }
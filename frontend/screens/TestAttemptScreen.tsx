@@ -0,0 +1,819 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  StyleSheet,
+  StatusBar,
+  SafeAreaView,
+  Alert,
+  AppState,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { RootStackParamList } from '../App';
+import {
+  ApiError,
+  AttemptAnswer,
+  AttemptSession,
+  QuestionResult,
+  QuestionResultStatus,
+  TestQuestion,
+  testsApi,
+} from '../api';
+import { getQuestionTypeLabel } from '../components/QuestionEditorModal';
+import QuestionImages from '../components/QuestionImages';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type TestAttemptRouteProp = RouteProp<RootStackParamList, 'TestAttempt'>;
+
+const BRAND = {
+  primaryColor: '#00ff88',
+  backgroundColor: '#0a1a0a',
+  accentColor: '#1a2e1a',
+  cardBackground: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: '#ffffff',
+  textSecondary: '#cccccc',
+  dangerColor: '#ff6b6b',
+  reviewColor: '#b388ff',
+};
+
+// Changes are sent this long after the last edit
+const AUTOSAVE_DELAY_MS = 2000;
+
+const RESULT_DETAILS: Record<QuestionResultStatus, { label: string; color: string }> = {
+  correct: { label: 'Correct', color: BRAND.primaryColor },
+  partial: { label: 'Partially correct', color: '#ffa500' },
+  incorrect: { label: 'Incorrect', color: BRAND.dangerColor },
+  unattempted: { label: 'Not attempted', color: '#888' },
+};
+
+const isChoiceQuestion = (question: TestQuestion) =>
+  question.questionType === 'single' || question.questionType === 'multiple';
+
+const isAnswered = (answer?: AttemptAnswer) =>
+  !!answer && (answer.selectedOptions.length > 0 || answer.value !== null);
+
+const emptyAnswer = (questionId: string): AttemptAnswer => ({
+  questionId,
+  selectedOptions: [],
+  value: null,
+  markedForReview: false,
+});
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+const formatMarks = (marks: number) => (marks > 0 ? `+${marks}` : String(marks));
+
+export default function TestAttemptScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<TestAttemptRouteProp>();
+  const { testId, testTitle } = route.params;
+
+  const [session, setSession] = useState<AttemptSession | null>(null);
+  const [answers, setAnswers] = useState<Record<string, AttemptAnswer>>({});
+  // Raw text of integer/numerical inputs, so "2." or "-" survive while typing
+  const [numericText, setNumericText] = useState<Record<string, string>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Server time minus device time, so a wrong device clock doesn't change the countdown
+  const clockOffsetRef = useRef(0);
+  const pendingRef = useRef<Set<string>>(new Set());
+  const answersRef = useRef(answers);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const autoSubmittingRef = useRef(false);
+
+  answersRef.current = answers;
+
+  const inProgress = session?.attempt.status === 'in_progress';
+  const showAnswerKey = !inProgress && !!session?.answerKeyReleased;
+
+  const applySession = (data: AttemptSession) => {
+    clockOffsetRef.current = new Date(data.serverTime).getTime() - Date.now();
+    setSession(data);
+    setAnswers(
+      Object.fromEntries((data.attempt.answers || []).map((answer) => [answer.questionId, answer]))
+    );
+    setNumericText(
+      Object.fromEntries(
+        (data.attempt.answers || [])
+          .filter((answer) => answer.value !== null)
+          .map((answer) => [answer.questionId, String(answer.value)])
+      )
+    );
+    pendingRef.current.clear();
+  };
+
+  const handleLoadError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    if (error instanceof ApiError && error.isUnauthorized) return;
+    Alert.alert('Error', error instanceof ApiError ? error.message : fallback, [
+      { text: 'OK', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  // Starts the attempt, or picks up the one already running or submitted
+  useEffect(() => {
+    testsApi
+      .startAttempt(testId)
+      .then((response) => applySession(response.data))
+      .catch((error) => handleLoadError(error, 'Failed to open the test'))
+      .finally(() => setLoading(false));
+  }, [testId]);
+
+  const reloadAttempt = async () => {
+    try {
+      const response = await testsApi.getAttempt(testId);
+      applySession(response.data);
+    } catch (error) {
+      handleLoadError(error, 'Failed to load the test');
+    }
+  };
+
+  const flushAnswers = useCallback(async () => {
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+    const questionIds = [...pendingRef.current];
+    if (!questionIds.length) return;
+
+    pendingRef.current.clear();
+    setSaving(true);
+    try {
+      await testsApi.saveAttemptAnswers(
+        testId,
+        questionIds.map((questionId) => answersRef.current[questionId]).filter(Boolean)
+      );
+    } catch (error) {
+      console.error('Error saving answers:', error);
+      if (error instanceof ApiError && error.status === 400) {
+        // Time ran out or the attempt was already submitted; show what the server has
+        await reloadAttempt();
+      } else {
+        questionIds.forEach((questionId) => pendingRef.current.add(questionId));
+      }
+    } finally {
+      setSaving(false);
+    }
+  }, [testId]);
+
+  const scheduleAutosave = (questionId: string) => {
+    pendingRef.current.add(questionId);
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = setTimeout(flushAnswers, AUTOSAVE_DELAY_MS);
+  };
+
+  // Save straight away when the app is sent to the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') flushAnswers();
+    });
+    return () => {
+      subscription.remove();
+      flushAnswers();
+    };
+  }, [flushAnswers]);
+
+  const submit = async (auto: boolean) => {
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    setSubmitting(true);
+    try {
+      const response = await testsApi.submitAttempt(testId, Object.values(answersRef.current));
+      applySession(response.data);
+      setCurrentIndex(0);
+      if (auto) Alert.alert("Time's Up", 'Your answers have been submitted.');
+    } catch (error) {
+      console.error('Error submitting test:', error);
+      if (error instanceof ApiError && error.status === 400) {
+        await reloadAttempt();
+      } else if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to submit the test');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Countdown against the server's clock; submits once it reaches zero
+  useEffect(() => {
+    if (!session || session.attempt.status !== 'in_progress') return;
+
+    const endsAt = new Date(session.attempt.endsAt).getTime();
+    const tick = () => {
+      const remaining = endsAt - (Date.now() + clockOffsetRef.current);
+      setRemainingMs(remaining);
+      if (remaining <= 0 && !autoSubmittingRef.current) {
+        autoSubmittingRef.current = true;
+        submit(true);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const updateAnswer = (questionId: string, changes: Partial<AttemptAnswer>) => {
+    setAnswers((current) => ({
+      ...current,
+      [questionId]: { ...(current[questionId] || emptyAnswer(questionId)), ...changes },
+    }));
+    scheduleAutosave(questionId);
+  };
+
+  const toggleOption = (question: TestQuestion, option: number) => {
+    const selected = answers[question._id]?.selectedOptions || [];
+    if (question.questionType === 'single') {
+      updateAnswer(question._id, { selectedOptions: selected[0] === option ? [] : [option] });
+      return;
+    }
+    updateAnswer(question._id, {
+      selectedOptions: selected.includes(option)
+        ? selected.filter((item) => item !== option)
+        : [...selected, option].sort((a, b) => a - b),
+    });
+  };
+
+  const changeNumeric = (questionId: string, text: string) => {
+    setNumericText((current) => ({ ...current, [questionId]: text }));
+    const value = Number(text);
+    updateAnswer(questionId, { value: text.trim() !== '' && Number.isFinite(value) ? value : null });
+  };
+
+  const clearAnswer = (questionId: string) => {
+    setNumericText((current) => ({ ...current, [questionId]: '' }));
+    updateAnswer(questionId, { selectedOptions: [], value: null });
+  };
+
+  const confirmSubmit = () => {
+    if (!session) return;
+    const answered = session.questions.filter((question) => isAnswered(answers[question._id])).length;
+    const review = session.questions.filter((question) => answers[question._id]?.markedForReview).length;
+
+    Alert.alert(
+      'Submit Test',
+      `Answered: ${answered} of ${session.questions.length}` +
+        (review ? `\nMarked for review: ${review}` : '') +
+        '\n\nYou cannot change your answers after submitting.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Submit', style: 'destructive', onPress: () => submit(false) },
+      ]
+    );
+  };
+
+  const handleBack = () => {
+    if (!inProgress) {
+      navigation.goBack();
+      return;
+    }
+    Alert.alert('Leave Test', 'Your answers are saved, but the timer keeps running while you are away.', [
+      { text: 'Stay', style: 'cancel' },
+      {
+        text: 'Leave',
+        onPress: async () => {
+          await flushAnswers();
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  if (loading || !session) {
+    return (
+      <View style={styles.loadingContainer}>
+        <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+        <ActivityIndicator size="large" color={BRAND.primaryColor} />
+        <Text style={styles.loadingText}>Loading test...</Text>
+      </View>
+    );
+  }
+
+  const { attempt, test, questions } = session;
+  const question = questions[currentIndex];
+  const answer = answers[question._id];
+  const resultsById: Record<string, QuestionResult> = Object.fromEntries(
+    (attempt.results || []).map((result) => [result.questionId, result])
+  );
+  const result = resultsById[question._id];
+
+  const getPaletteColor = (item: TestQuestion) => {
+    if (showAnswerKey) return RESULT_DETAILS[resultsById[item._id]?.status || 'unattempted'].color;
+    if (answers[item._id]?.markedForReview) return BRAND.reviewColor;
+    return isAnswered(answers[item._id]) ? BRAND.primaryColor : '#444';
+  };
+
+  const renderOptions = () =>
+    question.options.map((option, index) => {
+      const selected = !!answer?.selectedOptions.includes(index);
+      const correct = showAnswerKey && !!question.correctOptions?.includes(index);
+      const icon = question.questionType === 'single'
+        ? (selected ? 'radio-button-checked' : 'radio-button-unchecked')
+        : (selected ? 'check-box' : 'check-box-outline-blank');
+
+      return (
+        <TouchableOpacity
+          key={index}
+          style={[
+            styles.option,
+            selected && styles.optionSelected,
+            correct && styles.optionCorrect,
+            showAnswerKey && selected && !correct && styles.optionWrong,
+          ]}
+          onPress={() => toggleOption(question, index)}
+          disabled={!inProgress}
+          activeOpacity={0.8}
+        >
+          <MaterialIcons name={icon} size={22} color={selected ? BRAND.primaryColor : '#888'} />
+          <Text style={styles.optionLetter}>{String.fromCharCode(65 + index)}.</Text>
+          <Text style={styles.optionText}>{option}</Text>
+          {correct && <MaterialIcons name="check" size={20} color={BRAND.primaryColor} />}
+        </TouchableOpacity>
+      );
+    });
+
+  const renderNumericAnswer = () => (
+    <View>
+      <TextInput
+        style={styles.numericInput}
+        value={numericText[question._id] ?? ''}
+        onChangeText={(text) => changeNumeric(question._id, text)}
+        placeholder={question.questionType === 'integer' ? 'Enter an integer' : 'Enter your answer'}
+        placeholderTextColor="#666"
+        keyboardType="numeric"
+        editable={inProgress}
+      />
+      {showAnswerKey && (
+        <Text style={styles.correctAnswerText}>
+          Correct answer: {question.correctAnswer}
+          {question.tolerance ? ` (± ${question.tolerance})` : ''}
+        </Text>
+      )}
+    </View>
+  );
+
+  const resultSummary = () => {
+    const counts = (attempt.results || []).reduce<Record<QuestionResultStatus, number>>(
+      (total, item) => ({ ...total, [item.status]: total[item.status] + 1 }),
+      { correct: 0, partial: 0, incorrect: 0, unattempted: 0 }
+    );
+
+    return (
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryScore}>
+          {attempt.score} <Text style={styles.summaryTotal}>/ {test.fullMarks}</Text>
+        </Text>
+        {attempt.autoSubmitted && <Text style={styles.autoSubmittedText}>Submitted automatically when time ran out</Text>}
+        {session.answerKeyReleased ? (
+          <View style={styles.summaryRow}>
+            {(Object.keys(RESULT_DETAILS) as QuestionResultStatus[]).map((status) => (
+              <View key={status} style={styles.summaryItem}>
+                <Text style={[styles.summaryCount, { color: RESULT_DETAILS[status].color }]}>{counts[status]}</Text>
+                <Text style={styles.summaryLabel}>{RESULT_DETAILS[status].label}</Text>
+              </View>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.answerKeyNote}>
+            Answers and solutions are shown after the due date, or once everyone has submitted
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={BRAND.backgroundColor} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <MaterialIcons name="arrow-back" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{testTitle}</Text>
+          <Text style={styles.headerSubtitle}>
+            {inProgress ? (saving ? 'Saving...' : 'All answers saved') : 'Result'}
+          </Text>
+        </View>
+        {inProgress ? (
+          <View style={[styles.timer, remainingMs < 5 * 60 * 1000 && styles.timerLow]}>
+            <MaterialIcons name="timer" size={16} color={remainingMs < 5 * 60 * 1000 ? BRAND.dangerColor : BRAND.primaryColor} />
+            <Text style={[styles.timerText, remainingMs < 5 * 60 * 1000 && styles.timerTextLow]}>
+              {formatTime(remainingMs)}
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.placeholder} />
+        )}
+      </View>
+
+      {/* Question palette */}
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.palette}>
+          {questions.map((item, index) => (
+            <TouchableOpacity
+              key={item._id}
+              style={[
+                styles.paletteItem,
+                { borderColor: getPaletteColor(item) },
+                index === currentIndex && { backgroundColor: getPaletteColor(item) },
+              ]}
+              onPress={() => setCurrentIndex(index)}
+            >
+              <Text style={[styles.paletteText, index === currentIndex && styles.paletteTextCurrent]}>{index + 1}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {!inProgress && currentIndex === 0 && resultSummary()}
+
+        <View style={styles.questionHeader}>
+          <Text style={styles.questionNumber}>Question {currentIndex + 1} of {questions.length}</Text>
+          <Text style={styles.questionMarks}>
+            +{question.marks}{question.negativeMarks ? ` / −${question.negativeMarks}` : ''}
+          </Text>
+        </View>
+        <Text style={styles.questionType}>
+          {getQuestionTypeLabel(question.questionType)}
+          {question.partialMarking ? ' · partial marking' : ''}
+        </Text>
+        <Text style={styles.questionText}>{question.questionText}</Text>
+        <QuestionImages
+          images={question.images}
+          getImageUrl={(imageId) => testsApi.getStudentQuestionImageUrl(testId, question._id, imageId)}
+          size={220}
+        />
+
+        {isChoiceQuestion(question) ? renderOptions() : renderNumericAnswer()}
+
+        {showAnswerKey && result && (
+          <View style={styles.resultCard}>
+            <Text style={[styles.resultStatus, { color: RESULT_DETAILS[result.status].color }]}>
+              {RESULT_DETAILS[result.status].label} · {formatMarks(result.marksAwarded)}
+            </Text>
+            {!!question.solution && (
+              <>
+                <Text style={styles.solutionLabel}>Solution</Text>
+                <Text style={styles.solutionText}>{question.solution}</Text>
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.navButton, currentIndex === 0 && styles.navButtonDisabled]}
+          onPress={() => setCurrentIndex(currentIndex - 1)}
+          disabled={currentIndex === 0}
+        >
+          <MaterialIcons name="chevron-left" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+
+        {inProgress && (
+          <>
+            <TouchableOpacity
+              style={styles.footerAction}
+              onPress={() => updateAnswer(question._id, { markedForReview: !answer?.markedForReview })}
+            >
+              <MaterialIcons
+                name={answer?.markedForReview ? 'bookmark' : 'bookmark-border'}
+                size={20}
+                color={BRAND.reviewColor}
+              />
+              <Text style={[styles.footerActionText, { color: BRAND.reviewColor }]}>Review</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.footerAction}
+              onPress={() => clearAnswer(question._id)}
+              disabled={!isAnswered(answer)}
+            >
+              <MaterialIcons name="backspace" size={20} color={isAnswered(answer) ? BRAND.textSecondary : '#555'} />
+              <Text style={[styles.footerActionText, !isAnswered(answer) && styles.footerActionDisabled]}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, submitting && styles.navButtonDisabled]}
+              onPress={confirmSubmit}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={styles.submitButtonText}>Submit</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.navButton, currentIndex === questions.length - 1 && styles.navButtonDisabled]}
+          onPress={() => setCurrentIndex(currentIndex + 1)}
+          disabled={currentIndex === questions.length - 1}
+        >
+          <MaterialIcons name="chevron-right" size={24} color={BRAND.textPrimary} />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BRAND.backgroundColor,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: BRAND.backgroundColor,
+  },
+  loadingText: {
+    color: BRAND.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: BRAND.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: BRAND.textSecondary,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  timer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: BRAND.primaryColor,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  timerLow: {
+    borderColor: BRAND.dangerColor,
+  },
+  timerText: {
+    color: BRAND.primaryColor,
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginLeft: 4,
+    fontVariant: ['tabular-nums'],
+  },
+  timerTextLow: {
+    color: BRAND.dangerColor,
+  },
+  palette: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  paletteItem: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  paletteText: {
+    color: BRAND.textPrimary,
+    fontWeight: '600',
+  },
+  paletteTextCurrent: {
+    color: '#000',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryCard: {
+    backgroundColor: BRAND.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: BRAND.accentColor,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  summaryScore: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+  },
+  summaryTotal: {
+    fontSize: 20,
+    color: BRAND.textSecondary,
+  },
+  autoSubmittedText: {
+    color: '#ffa500',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  answerKeyNote: {
+    color: '#aaa',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryCount: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    color: '#888',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  questionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  questionNumber: {
+    color: BRAND.primaryColor,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  questionMarks: {
+    color: BRAND.textSecondary,
+    fontSize: 14,
+  },
+  questionType: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  questionText: {
+    color: BRAND.textPrimary,
+    fontSize: 17,
+    lineHeight: 24,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  optionSelected: {
+    borderColor: BRAND.primaryColor,
+    backgroundColor: 'rgba(0, 255, 136, 0.08)',
+  },
+  optionCorrect: {
+    borderColor: BRAND.primaryColor,
+  },
+  optionWrong: {
+    borderColor: BRAND.dangerColor,
+    backgroundColor: 'rgba(255, 107, 107, 0.08)',
+  },
+  optionLetter: {
+    color: BRAND.textSecondary,
+    fontWeight: '600',
+    marginLeft: 8,
+    marginRight: 6,
+  },
+  optionText: {
+    flex: 1,
+    color: BRAND.textPrimary,
+    fontSize: 15,
+  },
+  numericInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: BRAND.textPrimary,
+    fontSize: 18,
+  },
+  correctAnswerText: {
+    color: BRAND.primaryColor,
+    fontSize: 14,
+    marginTop: 10,
+  },
+  resultCard: {
+    marginTop: 12,
+    padding: 14,
+    borderRadius: 10,
+    backgroundColor: BRAND.cardBackground,
+  },
+  resultStatus: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  solutionLabel: {
+    color: BRAND.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 10,
+  },
+  solutionText: {
+    color: BRAND.textPrimary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  navButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: BRAND.accentColor,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  navButtonDisabled: {
+    opacity: 0.4,
+  },
+  footerAction: {
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  footerActionText: {
+    color: BRAND.textSecondary,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  footerActionDisabled: {
+    color: '#555',
+  },
+  submitButton: {
+    backgroundColor: BRAND.primaryColor,
+    borderRadius: 22,
+    paddingHorizontal: 20,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#000',
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+});
@@ -17,8 +17,7 @@ import {
   Linking,
 } from 'react-native';
 import { NavigationProp, RouteProp } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE } from '../config/api';
+import { Notes, NotesPdf, getSession, unpaidNotesApi } from '../api';
 import SignupLoginBanner from '../components/SignupLoginBanner';
 
 // Define the route params type
@@ -36,52 +35,8 @@ interface UnpaidNotesDetailsScreenProps {
   route: RouteProp<RootStackParamList, 'UnpaidNotesDetails'>;
 }
 
-interface NotesData {
-  _id: string;
-  notesTitle: string;
-  tutor: string;
-  rating: number;
-  category: 'jee' | 'neet' | 'boards';
-  class: string;
-  notesDetails: {
-    subtitle: string;
-    description: string;
-  };
-  pdfs: Array<{
-    _id: string;
-    pdfTitle: string;
-    pdfDescription: string;
-    originalName: string;
-    fileSize: number;
-    pages: number;
-  }>;
-  thumbnail: {
-    mimeType: string;
-    originalName: string;
-    size: number;
-  };
-  viewCount: number;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface PdfItem {
-  _id: string;
-  pdfTitle: string;
-  pdfDescription: string;
-  originalName: string;
-  fileSize: number;
-  pages: number;
-}
-
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  token: string;
-  role?: string;
-}
+type NotesData = Notes;
+type PdfItem = NotesPdf;
 
 const { width, height } = Dimensions.get('window');
 
@@ -108,7 +63,6 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
   const [downloadingPdf, setDownloadingPdf] = useState<string | null>(null);
   
   // Authentication state
-  const [userData, setUserData] = useState<UserData | null>(null);
   const [showLoginBanner, setShowLoginBanner] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
 
@@ -118,62 +72,25 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
 
-  // API Base URL
-  const API_BASE_URL = API_BASE;
-
   // Authentication check function
   const checkAuthStatus = async () => {
     try {
       console.log('Checking auth status...');
       
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
-      
-      console.log('Auth data found:', { 
-        hasToken: !!token, 
-        userRole, 
-        userId, 
-        userName,
-        hasStoredData: !!storedUserData
-      });
+      const session = await getSession();
       
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        // Try to get detailed user data from storage first
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
-        // Create user data object with available information
-        const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
-        };
-        
-        console.log('Setting user data:', userDataObj);
-        setUserData(userDataObj);
+      if (session) {
         setIsLoggedIn(true);
-        return true;
+        return session;
       } else {
         console.log('No auth data found, user not logged in');
         setIsLoggedIn(false);
-        return false;
+        return null;
       }
     } catch (error) {
       console.error('Auth check error:', error);
       setIsLoggedIn(false);
-      return false;
+      return null;
     }
   };
 
@@ -210,13 +127,7 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
       setLoading(true);
       
       // Fetch notes details
-      const response = await fetch(`${API_BASE_URL}/unpaidNotes/${notesId}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch notes details');
-      }
-      
-      const data = await response.json();
+      const data = await unpaidNotesApi.getNotesById(notesId);
       
       if (data.success) {
         setNotesData(data.data);
@@ -239,9 +150,7 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
     if (!notesId) return;
     
     try {
-      await fetch(`${API_BASE_URL}/unpaidNotes/${notesId}/view`, {
-        method: 'POST',
-      });
+      await unpaidNotesApi.incrementViewCount(notesId);
     } catch (error) {
       console.error('Error incrementing view count:', error);
     }
@@ -260,10 +169,9 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
     console.log('PDF pressed, checking authentication...');
     
     // Check if user is authenticated
-    const isAuthenticated = await checkAuthStatus();
-    console.log('Authentication result:', isAuthenticated);
+    const session = await checkAuthStatus();
     
-    if (!isAuthenticated || !userData) {
+    if (!session) {
       console.log('User not authenticated, showing login banner');
       setShowLoginBanner(true);
       return;
@@ -279,9 +187,9 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
     if (!notesId) return;
     
     // Check if user is authenticated
-    const isAuthenticated = await checkAuthStatus();
+    const session = await checkAuthStatus();
     
-    if (!isAuthenticated || !userData) {
+    if (!session) {
       console.log('User not authenticated, showing login banner');
       setShowLoginBanner(true);
       return;
@@ -290,7 +198,7 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
     try {
       setDownloadingPdf(pdf._id);
       
-      const pdfUrl = `${API_BASE_URL}/unpaidNotes/${notesId}/pdfs/${pdf._id}`;
+      const pdfUrl = unpaidNotesApi.getPdfUrl(notesId, pdf._id);
       
       // Try to open PDF in default app
       const supported = await Linking.canOpenURL(pdfUrl);
@@ -336,7 +244,7 @@ const UnpaidNotesDetailsScreen: React.FC<UnpaidNotesDetailsScreenProps> = ({ nav
     if (!notesId) {
       return { uri: 'https://via.placeholder.com/400x300/1a2e1a/00ff88?text=No+Image' };
     }
-    return { uri: `${API_BASE_URL}/unpaidNotes/${notesId}/thumbnail` };
+    return { uri: unpaidNotesApi.getThumbnailUrl(notesId) };
   };
 
   // Helper functions
@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,11 +8,17 @@ import {
   SafeAreaView,
   Animated,
   Image,
+  Alert,
+  FlatList,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
-import { NavigationProp } from '@react-navigation/native';
-import { MaterialIcons, FontAwesome5 } from '@expo/vector-icons';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
 
 import BottomNavigation from '../components/BottomNavigation';
+import { ApiError, StudentOnlineTest, testsApi } from '../api';
 
 interface UpcomingTestsScreenProps {
   navigation: NavigationProp<any>;
@@ -30,23 +36,65 @@ const BRAND = {
   accentColor: '#1a2e1a',
 };
 
+type TestStatus = 'not_started' | 'in_progress' | 'submitted' | 'missed' | 'not_ready';
+
+const STATUS_DETAILS: Record<TestStatus, { label: string; color: string; action?: string }> = {
+  not_started: { label: 'Not started', color: BRAND.primaryColor, action: 'Start Test' },
+  in_progress: { label: 'In progress', color: '#ffa500', action: 'Resume' },
+  submitted: { label: 'Submitted', color: '#4fc3f7', action: 'View Result' },
+  missed: { label: 'Missed', color: '#ff6b6b' },
+  not_ready: { label: 'Not ready yet', color: '#888' },
+};
+
+const getTestStatus = (test: StudentOnlineTest): TestStatus => {
+  if (test.attempt?.status === 'submitted') return 'submitted';
+  // Expired attempts are submitted by the server before the list is sent
+  if (test.attempt) return 'in_progress';
+  if (test.isExpired) return 'missed';
+  if (!test.questionCount || !test.durationMinutes) return 'not_ready';
+  return 'not_started';
+};
+
 const UpcomingTestsScreen: React.FC<UpcomingTestsScreenProps> = ({ navigation }) => {
   // Animation refs
-  const fadeAnim = useRef(new Animated.Value(0)).current;
   const headerOpacity = useRef(new Animated.Value(0)).current;
   const headerTranslateY = useRef(new Animated.Value(-20)).current;
-  const contentOpacity = useRef(new Animated.Value(0)).current;
-  const contentScale = useRef(new Animated.Value(0.8)).current;
   const glowOpacity = useRef(new Animated.Value(0)).current;
-  const pulseScale = useRef(new Animated.Value(1)).current;
-  const iconRotate = useRef(new Animated.Value(0)).current;
+
+  const [tests, setTests] = useState<StudentOnlineTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     startEntranceAnimation();
-    startPulseAnimation();
-    startIconRotation();
   }, []);
 
+  const fetchTests = useCallback(async () => {
+    try {
+      const response = await testsApi.getStudentOnlineTests();
+      setTests(response.data);
+    } catch (error) {
+      console.error('Error fetching online tests:', error);
+      if (error instanceof ApiError && error.isUnauthorized) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to load tests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Coming back from a test should show its new status
+  useFocusEffect(
+    useCallback(() => {
+      fetchTests();
+    }, [fetchTests])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchTests();
+    setRefreshing(false);
+  };
+
   const startEntranceAnimation = () => {
     // Background glow
     Animated.timing(glowOpacity, {
@@ -70,67 +118,83 @@ const UpcomingTestsScreen: React.FC<UpcomingTestsScreenProps> = ({ navigation })
         }),
       ]).start();
     }, 200);
+  };
 
-    // Content animation
-    setTimeout(() => {
-      Animated.parallel([
-        Animated.timing(contentOpacity, {
-          toValue: 1,
-          duration: 600,
-          useNativeDriver: true,
-        }),
-        Animated.timing(contentScale, {
-          toValue: 1,
-          duration: 600,
-          useNativeDriver: true,
-        }),
-      ]).start();
-    }, 600);
+  const openTest = (test: StudentOnlineTest) => {
+    const status = getTestStatus(test);
+    if (status === 'submitted' || status === 'in_progress') {
+      navigation.navigate('TestAttempt', { testId: test._id, testTitle: test.testTitle });
+      return;
+    }
+    if (status !== 'not_started') return;
 
-    // Fade in animation
-    setTimeout(() => {
-      Animated.timing(fadeAnim, {
-        toValue: 1,
-        duration: 800,
-        useNativeDriver: true,
-      }).start();
-    }, 1000);
+    Alert.alert(
+      'Start Test',
+      `"${test.testTitle}" has ${test.questionCount} questions and runs for ${test.durationMinutes} minutes. The timer keeps running if you leave the app.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Start',
+          onPress: () => navigation.navigate('TestAttempt', { testId: test._id, testTitle: test.testTitle }),
+        },
+      ]
+    );
   };
 
-  const startPulseAnimation = () => {
-    const pulse = () => {
-      Animated.sequence([
-        Animated.timing(pulseScale, {
-          toValue: 1.02,
-          duration: 3000,
-          useNativeDriver: true,
-        }),
-        Animated.timing(pulseScale, {
-          toValue: 1,
-          duration: 3000,
-          useNativeDriver: true,
-        }),
-      ]).start(() => pulse());
-    };
-    pulse();
-  };
+  const renderTest = ({ item }: { item: StudentOnlineTest }) => {
+    const status = getTestStatus(item);
+    const details = STATUS_DETAILS[status];
 
-  const startIconRotation = () => {
-    const rotate = () => {
-      iconRotate.setValue(0);
-      Animated.timing(iconRotate, {
-        toValue: 1,
-        duration: 4000,
-        useNativeDriver: true,
-      }).start(() => rotate());
-    };
-    rotate();
-  };
+    return (
+      <TouchableOpacity
+        style={styles.testCard}
+        onPress={() => openTest(item)}
+        activeOpacity={details.action ? 0.8 : 1}
+      >
+        <View style={styles.testCardHeader}>
+          <Text style={styles.testTitle} numberOfLines={2}>{item.testTitle}</Text>
+          <View style={[styles.statusBadge, { borderColor: details.color }]}>
+            <Text style={[styles.statusBadgeText, { color: details.color }]}>{details.label}</Text>
+          </View>
+        </View>
+        <Text style={styles.testSubtitle}>
+          {item.subjectName} • {item.createdBy?.name || 'Teacher'}
+        </Text>
+
+        <View style={styles.testMeta}>
+          <View style={styles.metaItem}>
+            <MaterialIcons name="timer" size={16} color="#888" />
+            <Text style={styles.metaText}>{item.durationMinutes ? `${item.durationMinutes} min` : '—'}</Text>
+          </View>
+          <View style={styles.metaItem}>
+            <MaterialIcons name="help-outline" size={16} color="#888" />
+            <Text style={styles.metaText}>{item.questionCount} questions</Text>
+          </View>
+          <View style={styles.metaItem}>
+            <MaterialIcons name="grade" size={16} color="#888" />
+            <Text style={styles.metaText}>{item.fullMarks} marks</Text>
+          </View>
+        </View>
+
+        {item.dueDate && status !== 'submitted' && (
+          <Text style={styles.dueText}>Due {new Date(item.dueDate).toLocaleString()}</Text>
+        )}
 
-  const rotateInterpolate = iconRotate.interpolate({
-    inputRange: [0, 1],
-    outputRange: ['0deg', '360deg'],
-  });
+        {status === 'submitted' && item.attempt && (
+          <Text style={styles.scoreText}>
+            Score: {item.attempt.score} / {item.fullMarks}
+          </Text>
+        )}
+
+        {details.action && (
+          <View style={styles.actionRow}>
+            <Text style={styles.actionText}>{details.action}</Text>
+            <MaterialIcons name="chevron-right" size={20} color={BRAND.primaryColor} />
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -181,92 +245,35 @@ const UpcomingTestsScreen: React.FC<UpcomingTestsScreenProps> = ({ navigation })
         </View>
       </Animated.View>
 
-      {/* Content Container */}
-      <View style={styles.contentContainer}>
-        <Animated.View
-          style={[
-            styles.developmentContainer,
-            {
-              opacity: contentOpacity,
-              transform: [
-                { scale: Animated.multiply(contentScale, pulseScale) }
-              ],
-            },
-          ]}
-        >
-          {/* Main Icon with Animation */}
-          <Animated.View
-            style={[
-              styles.iconContainer,
-              {
-                transform: [{ rotate: rotateInterpolate }],
-              },
-            ]}
-          >
-            <Animated.View
-              style={[
-                { opacity: Animated.multiply(glowOpacity, 0.3) }
-              ]}
+      {/* Tests */}
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BRAND.primaryColor} />
+          <Text style={styles.loadingText}>Loading tests...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tests}
+          keyExtractor={(item) => item._id}
+          renderItem={renderTest}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={[BRAND.primaryColor]}
+              tintColor={BRAND.primaryColor}
             />
-            <FontAwesome5 name="tools" size={80} color={BRAND.primaryColor} />
-          </Animated.View>
-
-          {/* Development Message */}
-          <Animated.View
-            style={[
-              styles.messageContainer,
-              { opacity: fadeAnim }
-            ]}
-          >
-            <Text style={styles.developmentTitle}>Under Development</Text>
-            <Text style={styles.developmentSubtitle}>
-              We're working hard to bring you an amazing test experience!
-            </Text>
-            <Text style={styles.developmentDescription}>
-              The Upcoming Tests feature will allow you to:
-            </Text>
-          </Animated.View>
-
-          {/* Features List */}
-          <Animated.View
-            style={[
-              styles.featuresList,
-              { opacity: fadeAnim }
-            ]}
-          >
-            <View style={styles.featureItem}>
-              <MaterialIcons name="quiz" size={24} color={BRAND.primaryColor} />
-              <Text style={styles.featureText}>View upcoming test schedules</Text>
-            </View>
-            
-            <View style={styles.featureItem}>
-              <MaterialIcons name="notifications" size={24} color={BRAND.primaryColor} />
-              <Text style={styles.featureText}>Get test reminders</Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="quiz" size={64} color="#666" />
+              <Text style={styles.emptyTitle}>No online tests</Text>
+              <Text style={styles.emptyText}>Tests your teachers assign to you will appear here.</Text>
             </View>
-            
-            <View style={styles.featureItem}>
-              <MaterialIcons name="analytics" size={24} color={BRAND.primaryColor} />
-              <Text style={styles.featureText}>Track your test performance</Text>
-            </View>
-            
-            <View style={styles.featureItem}>
-              <MaterialIcons name="workspace-premium" size={24} color={BRAND.primaryColor} />
-              <Text style={styles.featureText}>Access practice tests</Text>
-            </View>
-          </Animated.View>
-
-          {/* Status Message */}
-          <Animated.View
-            style={[
-              styles.statusContainer,
-              { opacity: fadeAnim }
-            ]}
-          >
-            <MaterialIcons name="schedule" size={20} color="#888" />
-            <Text style={styles.statusText}>Coming Soon...</Text>
-          </Animated.View>
-        </Animated.View>
-      </View>
+          }
+        />
+      )}
 
       {/* Bottom Navigation */}
       <BottomNavigation navigation={navigation} activeTab="tests" />
@@ -330,90 +337,108 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: BRAND.primaryColor,
   },
-  contentContainer: {
+  loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    paddingHorizontal: 20,
   },
-  developmentContainer: {
-    alignItems: 'center',
-    maxWidth: 350,
+  loadingText: {
+    color: '#ccc',
+    fontSize: 16,
+    marginTop: 12,
   },
-  iconContainer: {
-    position: 'relative',
-    marginBottom: 40,
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
   },
-  iconGlow: {
-    position: 'absolute',
-    width: 160,
-    height: 160,
-    borderRadius: 80,
-    backgroundColor: BRAND.primaryColor,
-    top: -40,
-    left: -40,
+  testCard: {
+    backgroundColor: '#0f1f0f',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#1a2e1a',
   },
-  messageContainer: {
-    alignItems: 'center',
-    marginBottom: 40,
+  testCardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
   },
-  developmentTitle: {
-    fontSize: 32,
+  testTitle: {
+    flex: 1,
+    fontSize: 18,
     fontWeight: 'bold',
     color: '#fff',
-    textAlign: 'center',
-    marginBottom: 15,
+    marginRight: 10,
   },
-  developmentSubtitle: {
-    fontSize: 18,
-    color: BRAND.primaryColor,
-    textAlign: 'center',
-    marginBottom: 20,
-    fontWeight: '500',
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
   },
-  developmentDescription: {
-    fontSize: 16,
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  testSubtitle: {
+    fontSize: 14,
     color: '#ccc',
-    textAlign: 'center',
-    lineHeight: 22,
+    marginTop: 4,
   },
-  featuresList: {
-    alignSelf: 'stretch',
-    marginBottom: 40,
+  testMeta: {
+    flexDirection: 'row',
+    marginTop: 12,
   },
-  featureItem: {
+  metaItem: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingVertical: 12,
-    paddingHorizontal: 20,
-    backgroundColor: '#0f1f0f',
-    borderRadius: 12,
-    marginBottom: 10,
-    borderWidth: 1,
-    borderColor: '#1a2e1a',
+    marginRight: 16,
   },
-  featureText: {
+  metaText: {
+    fontSize: 13,
+    color: '#888',
+    marginLeft: 4,
+  },
+  dueText: {
+    fontSize: 13,
+    color: '#ffa500',
+    marginTop: 10,
+  },
+  scoreText: {
     fontSize: 16,
-    color: '#fff',
-    marginLeft: 15,
-    flex: 1,
+    fontWeight: 'bold',
+    color: BRAND.primaryColor,
+    marginTop: 10,
   },
-  statusContainer: {
+  actionRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#1a2e1a',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: BRAND.primaryColor,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
     paddingHorizontal: 20,
-    paddingVertical: 15,
-    borderRadius: 25,
-    borderWidth: 1,
-    borderColor: '#2a3e2a',
   },
-  statusText: {
-    fontSize: 16,
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 15,
     color: '#888',
-    marginLeft: 10,
-    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: 8,
   },
 });
 
-export default UpcomingTestsScreen;
\ No newline at end of file
+export default UpcomingTestsScreen;
@@ -17,7 +17,6 @@ import {
 import { NavigationProp } from "@react-navigation/native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import NetInfo from "@react-native-community/netinfo";
-import axios from "axios";
 import {
   Feather,
   FontAwesome5,
@@ -25,9 +24,13 @@ import {
   MaterialIcons,
 } from "@expo/vector-icons";
 
-import { API_BASE_URL, API_TIMEOUT } from "../config/api";
+import { ApiError, Category, User, authApi, getSession } from "../api";
+import { useAuth } from "../context/AuthContext";
 import BottomNavigation from "../components/BottomNavigation";
 import SignupLoginBanner from "../components/SignupLoginBanner";
+import EditProfileModal, { getAvatarUri } from "../components/EditProfileModal";
+import ChangePasswordModal from "../components/ChangePasswordModal";
+import ReceiptsModal from "../components/ReceiptsModal";
 
 interface UserProfileScreenProps {
   navigation: NavigationProp<any>;
@@ -44,6 +47,8 @@ interface UserData {
   achievements: number;
   role: string;
   phone?: string;
+  class?: string;
+  examCategory?: Category | null;
   bio?: string;
   lastActive?: string;
 }
@@ -61,59 +66,11 @@ const BRAND = {
   accentColor: "#1a2e1a",
 };
 
-// Simplified API Configuration - removed unnecessary endpoints
-const API_CONFIG = {
-  baseURL: API_BASE_URL || "http://localhost:3000/api",
-  timeout: API_TIMEOUT || 15000,
-  endpoints: {
-    currentUser: "/auth/me",
-  },
-};
-
-// Create an axios instance with timeout configuration
-const apiClient = axios.create({
-  baseURL: API_CONFIG.baseURL,
-  timeout: API_CONFIG.timeout,
-});
-
-// Add request interceptor to include auth token
-apiClient.interceptors.request.use(
-  async (config) => {
-    // Updated to use 'userToken' instead of 'authToken' to match SignIn screen
-    const token = await AsyncStorage.getItem("userToken");
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    console.log(config);
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  },
-);
-
-// Add response interceptor to handle token expiration
-apiClient.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid - Updated keys to match SignIn screen
-      await AsyncStorage.multiRemove([
-        "userToken",
-        "userRole",
-        "userId",
-        "userName",
-        "userData",
-      ]);
-      // Don't navigate here, let the component handle it
-    }
-    return Promise.reject(error);
-  },
-);
-
 const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
   navigation,
 }) => {
+  const { signOut, updateProfile } = useAuth();
+
   // State
   const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
@@ -122,6 +79,9 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
+  const [showEditProfile, setShowEditProfile] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showReceipts, setShowReceipts] = useState(false);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -173,26 +133,22 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
       setIsLoading(true);
       console.log("Checking auth status...");
 
-      // Updated to use storage keys from SignIn screen
-      const token = await AsyncStorage.getItem("userToken");
-      const userRole = await AsyncStorage.getItem("userRole");
-      const userId = await AsyncStorage.getItem("userId");
-      const userName = await AsyncStorage.getItem("userName");
+      const session = await getSession();
 
       console.log("Auth data found:", {
-        hasToken: !!token,
-        userRole,
-        userId,
-        userName,
+        hasToken: !!session,
+        userRole: session?.role,
+        userId: session?.userId,
+        userName: session?.userName,
       });
 
-      if (token && userId && userName) {
+      if (session) {
         // Create basic user data from stored values
         const basicUserData: UserData = {
-          id: userId,
-          name: userName,
+          id: session.userId,
+          name: session.userName,
           email: "", // Will be fetched from API
-          role: userRole || "user",
+          role: session.role || "user",
           joinedDate: "Recently",
           totalCourses: 0,
           completedCourses: 0,
@@ -221,10 +177,9 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
   const fetchUserProfile = async () => {
     try {
       console.log("Fetching user profile from API...");
-      const response = await apiClient.get(API_CONFIG.endpoints.currentUser);
+      const apiUser = await authApi.getCurrentUser();
 
-      if (response.data) {
-        const apiUser = response.data;
+      if (apiUser) {
         const updatedUser: UserData = {
           id: apiUser._id,
           name: apiUser.name,
@@ -232,18 +187,17 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
           avatar: apiUser.avatar,
           role: apiUser.role,
           phone: apiUser.phone,
-          bio: apiUser.bio,
-          joinedDate:
-            apiUser.joinedDate ||
-            (apiUser.createdAt
-              ? new Date(apiUser.createdAt).toLocaleDateString("en-US", {
-                  year: "numeric",
-                  month: "long",
-                })
-              : "Recently"),
-          totalCourses: apiUser.totalCourses || 0,
-          completedCourses: apiUser.completedCourses || 0,
-          achievements: apiUser.achievements || 0,
+          class: apiUser.class,
+          examCategory: apiUser.examCategory,
+          joinedDate: apiUser.createdAt
+            ? new Date(apiUser.createdAt).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "long",
+              })
+            : "Recently",
+          totalCourses: 0,
+          completedCourses: 0,
+          achievements: 0,
           lastActive: new Date().toISOString(),
         };
 
@@ -251,6 +205,8 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
 
         // Store updated user data
         await AsyncStorage.setItem("userData", JSON.stringify(updatedUser));
+        // Keeps userPhone current for the payment screen
+        await updateProfile({ name: updatedUser.name, phone: updatedUser.phone || "" });
         setUserData(updatedUser);
         setLastSyncTime(new Date().toLocaleTimeString());
       }
@@ -279,27 +235,10 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
     }
   };
 
-  const handleAuthError = async (error: any) => {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        // Token expired or invalid - Updated keys to match SignIn screen
-        await AsyncStorage.multiRemove([
-          "userToken",
-          "userRole",
-          "userId",
-          "userName",
-          "userData",
-        ]);
-        setIsLoggedIn(false);
-        setUserData(null);
-        setShowBanner(true);
-        Alert.alert(
-          "Session Expired",
-          "Your session has expired. Please sign in again.",
-          [{ text: "OK" }],
-        );
-        return;
-      }
+  const handleAuthError = async (error: unknown) => {
+    if (error instanceof ApiError && error.isUnauthorized) {
+      // The API client has already refreshed the token or signed the user out
+      return;
     }
 
     // Handle other errors
@@ -397,23 +336,8 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
           try {
             setIsLoading(true);
 
-            // Clear local storage - Updated to match SignIn screen keys
-            await AsyncStorage.multiRemove([
-              "userToken",
-              "userRole",
-              "userId",
-              "userName",
-              "userData",
-            ]);
-            setIsLoggedIn(false);
-            setUserData(null);
-            setShowBanner(true);
-
-            // Navigate to home or login screen
-            navigation.reset({
-              index: 0,
-              routes: [{ name: "Home" }],
-            });
+            // Clearing the session returns the app to the guest screens
+            await signOut();
           } catch (error) {
             console.error("Error during logout:", error);
             Alert.alert("Error", "Failed to sign out. Please try again.");
@@ -426,13 +350,34 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
   };
 
   const handleEditProfile = () => {
-    //navigation.navigate('EditProfile', { userData });
-    alert("Edit Profile feature is under development");
+    if (!userData) return;
+    setShowEditProfile(true);
   };
 
-  const handleSettings = () => {
-    //navigation.navigate('Settings');
-    alert("Settings feature is under development");
+  const handleProfileSaved = async (user: User) => {
+    setShowEditProfile(false);
+    if (!userData) return;
+
+    const updatedUser: UserData = {
+      ...userData,
+      name: user.name,
+      phone: user.phone,
+      class: user.class,
+      examCategory: user.examCategory,
+      avatar: user.avatar,
+    };
+    await AsyncStorage.setItem("userData", JSON.stringify(updatedUser));
+    await updateProfile({ name: user.name, phone: user.phone || "" });
+    setUserData(updatedUser);
+    Alert.alert("Profile Updated", "Your profile has been saved.");
+  };
+
+  const handleChangePassword = () => {
+    setShowChangePassword(true);
+  };
+
+  const handleReceipts = () => {
+    setShowReceipts(true);
   };
 
   const handleNotifications = () => {
@@ -515,7 +460,10 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
           onPress={handleEditProfile}
         >
           {userData?.avatar ? (
-            <Image source={{ uri: userData.avatar }} style={styles.avatar} />
+            <Image
+              source={{ uri: getAvatarUri(userData.avatar) || undefined }}
+              style={styles.avatar}
+            />
           ) : (
             <View style={styles.defaultAvatar}>
               <Text style={styles.avatarText}>
@@ -535,6 +483,13 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
         <Text style={styles.joinedDate}>
           Joined {userData?.joinedDate || "Recently"}
         </Text>
+        {(userData?.class || userData?.examCategory) && (
+          <Text style={styles.joinedDate}>
+            {[userData.class, userData.examCategory?.toUpperCase()]
+              .filter(Boolean)
+              .join(" • ")}
+          </Text>
+        )}
         {userData?.role && (
           <View style={styles.roleBadge}>
             <Text style={styles.roleText}>{userData.role.toUpperCase()}</Text>
@@ -579,14 +534,25 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
           <MaterialIcons name="chevron-right" size={20} color="#cccccc" />
         </TouchableOpacity>
 
-        <TouchableOpacity style={styles.optionItem} onPress={handleSettings}>
+        <TouchableOpacity
+          style={styles.optionItem}
+          onPress={handleChangePassword}
+        >
+          <View style={styles.optionLeft}>
+            <MaterialIcons name="lock" size={18} color={BRAND.primaryColor} />
+            <Text style={styles.optionText}> Change Password</Text>
+          </View>
+          <MaterialIcons name="chevron-right" size={20} color="#cccccc" />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.optionItem} onPress={handleReceipts}>
           <View style={styles.optionLeft}>
             <MaterialIcons
-              name="settings"
+              name="receipt-long"
               size={18}
               color={BRAND.primaryColor}
             />
-            <Text style={styles.optionText}> Settings</Text>
+            <Text style={styles.optionText}> Receipts</Text>
           </View>
           <MaterialIcons name="chevron-right" size={20} color="#cccccc" />
         </TouchableOpacity>
@@ -787,6 +753,25 @@ const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
         />
       )}
 
+      {isLoggedIn && (
+        <>
+          <EditProfileModal
+            visible={showEditProfile}
+            profile={userData}
+            onClose={() => setShowEditProfile(false)}
+            onSaved={handleProfileSaved}
+          />
+          <ChangePasswordModal
+            visible={showChangePassword}
+            onClose={() => setShowChangePassword(false)}
+          />
+          <ReceiptsModal
+            visible={showReceipts}
+            onClose={() => setShowReceipts(false)}
+          />
+        </>
+      )}
+
       {/* Bottom Navigation */}
       <BottomNavigation navigation={navigation} activeTab="profile" />
     </SafeAreaView>
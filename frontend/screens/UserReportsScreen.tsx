@@ -17,16 +17,17 @@ import {
   Image,
   FlatList,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { NavigationProp } from '@react-navigation/native';
-import { API_BASE } from '../config/api';
-import * as FileSystem from 'expo-file-system';
+import { RootStackParamList } from '../App';
+import { API_BASE, AnswerSheetSubmission, ApiError, TestType, getSession, testsApi } from '../api';
+import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import * as MediaLibrary from 'expo-media-library';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import BottomNavigation from '../components/BottomNavigation';
 import SignupLoginBanner from '../components/SignupLoginBanner';
 import UserProfileQuickActions from '../components/UserProfileQuickActions';
+import AnswerSheetUploadModal from '../components/AnswerSheetUploadModal';
 
 // Brand configuration
 const BRAND = {
@@ -48,7 +49,7 @@ const BRAND = {
 const { width, height } = Dimensions.get('window');
 
 interface UserReportsScreenProps {
-  navigation: NavigationProp<any>;
+  navigation: NavigationProp<RootStackParamList>;
 }
 
 interface UserData {
@@ -101,9 +102,12 @@ interface TestReport {
     name?: string;
     email?: string;
   };
-  instructions: string;
   percentage: string | null;
   status: 'pending' | 'submitted' | 'evaluated';
+  testType?: TestType;
+  isLate?: boolean;
+  // The teacher graded the submitted sheet in the app, so a marked-up copy exists
+  hasCheckedSheet?: boolean;
   hasQuestionPdf?: boolean;
   hasAnswerPdf?: boolean;
 }
@@ -138,6 +142,7 @@ const UserReportsScreen: React.FC<UserReportsScreenProps> = ({ navigation }) =>
   const [showBanner, setShowBanner] = useState<boolean>(false);
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'pending' | 'evaluated'>('all');
   const [downloadingPdf, setDownloadingPdf] = useState<string | null>(null);
+  const [uploadTarget, setUploadTarget] = useState<TestReport | null>(null);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -152,29 +157,15 @@ const UserReportsScreen: React.FC<UserReportsScreenProps> = ({ navigation }) =>
   // Check authentication status
   const checkAuthStatus = async (): Promise<UserData | null> => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userRole = await AsyncStorage.getItem('userRole');
-      const userId = await AsyncStorage.getItem('userId');
-      const userName = await AsyncStorage.getItem('userName');
-      const storedUserData = await AsyncStorage.getItem('userData');
+      const session = await getSession();
       
-      if (token && userId && userName) {
-        let parsedUserData = null;
-        
-        if (storedUserData) {
-          try {
-            parsedUserData = JSON.parse(storedUserData);
-          } catch (e) {
-            console.error('Error parsing stored user data:', e);
-          }
-        }
-        
+      if (session) {
         const userDataObj: UserData = {
-          id: userId,
-          name: userName,
-          email: parsedUserData?.email || '',
-          token: token,
-          role: userRole || 'user'
+          id: session.userId,
+          name: session.userName,
+          email: session.email || '',
+          token: session.token,
+          role: session.role
         };
         
         setUserData(userDataObj);
@@ -339,6 +330,60 @@ const UserReportsScreen: React.FC<UserReportsScreenProps> = ({ navigation }) =>
     }
   };
 
+  // Download the answer sheet the student submitted, or the teacher's checked copy of it
+  const downloadSubmittedSheet = async (testId: string, testTitle: string, checked = false) => {
+    try {
+      if (!userData) {
+        Alert.alert('Error', 'Please log in to download files');
+        return;
+      }
+
+      setDownloadingPdf(testId + (checked ? '_checked' : '_sheet'));
+
+      const sanitizedTitle = testTitle.replace(/[^a-zA-Z0-9]/g, '_');
+      const downloadResult = await FileSystem.downloadAsync(
+        checked ? testsApi.getOwnAnnotatedSheetUrl(testId) : testsApi.getOwnAnswerSheetUrl(testId),
+        FileSystem.documentDirectory + `${sanitizedTitle}_${checked ? 'Checked' : 'My'}_Answer_Sheet.pdf`,
+        { headers: { Authorization: `Bearer ${userData.token}` } }
+      );
+
+      if (downloadResult.status !== 200) {
+        Alert.alert('Error', 'Could not download your answer sheet. Please try again.');
+        return;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(downloadResult.uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: 'Save or Open Answer Sheet',
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Success', 'Answer sheet downloaded successfully');
+      }
+    } catch (error) {
+      console.error('Download error:', error);
+      Alert.alert('Error', 'Could not download your answer sheet. Please try again.');
+    } finally {
+      setDownloadingPdf(null);
+    }
+  };
+
+  const handleAnswerSheetSubmitted = (submission: AnswerSheetSubmission) => {
+    const target = uploadTarget;
+    setUploadTarget(null);
+    if (!target) return;
+
+    setReportsData((current) => current && {
+      ...current,
+      tests: current.tests.map((test) =>
+        test.testId === target.testId
+          ? { ...test, submittedAt: submission.submittedAt, isLate: submission.isLate, status: 'submitted', hasCheckedSheet: false }
+          : test
+      ),
+    });
+  };
+
   // Fetch user reports using new endpoint structure
   const fetchUserReports = async () => {
     try {
@@ -350,84 +395,73 @@ const UserReportsScreen: React.FC<UserReportsScreenProps> = ({ navigation }) =>
         return;
       }
 
-      const response = await fetch(`${API_BASE}/tests/user/comprehensive-reports`, {
-        headers: {
-          'Authorization': `Bearer ${currentUserData.token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const data = await testsApi.getComprehensiveReports();
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log('User reports response:', data);
+      if (data.success) {
+        setIsAssignedToBatch(data.isAssigned);
         
-        if (data.success) {
-          setIsAssignedToBatch(data.isAssigned);
-          
-          if (data.isAssigned) {
-            const transformedData = {
-              batches: (data.data?.batches || []).map((batch: any) => ({
-                ...batch,
-                batchName: batch?.batchName || 'Unknown Batch',
-                category: batch?.category || 'Unknown Category',
-                classes: batch?.classes || [],
-                subjects: (batch?.subjects || []).map((subject: any) => ({
-                  name: subject?.name || 'Unknown Subject',
-                  teacher: {
-                    _id: subject?.teacher?._id || '',
-                    name: subject?.teacher?.name || 'Unknown Teacher',
-                    email: subject?.teacher?.email || '',
-                  }
-                })),
-                userAssignment: batch?.userAssignment ? {
-                  assignedClasses: batch.userAssignment.assignedClasses || [],
-                  assignedSubjects: (batch.userAssignment.assignedSubjects || []).map((s: any) => ({
-                    subjectName: s?.subjectName || 'Unknown Subject'
-                  }))
-                } : undefined
-              })),
-              tests: (data.data?.tests || []).map((test: any) => ({
-                ...test,
-                testTitle: test?.testTitle || 'Untitled Test',
-                batch: {
-                  _id: test?.batch?._id || '',
-                  batchName: test?.batch?.batchName || 'Unknown Batch',
-                  category: test?.batch?.category || 'Unknown Category',
-                },
-                createdBy: {
-                  _id: test?.createdBy?._id || '',
-                  name: test?.createdBy?.name || 'Unknown Teacher',
-                  email: test?.createdBy?.email || '',
-                },
-                className: test?.className || 'Unknown Class',
-                subjectName: test?.subjectName || 'Unknown Subject',
-                percentage: test?.percentage || null,
+        if (data.isAssigned) {
+          const transformedData = {
+            batches: (data.data?.batches || []).map((batch) => ({
+              ...batch,
+              batchName: batch?.batchName || 'Unknown Batch',
+              category: batch?.category || 'Unknown Category',
+              classes: batch?.classes || [],
+              subjects: (batch?.subjects || []).map((subject) => ({
+                name: subject?.name || 'Unknown Subject',
+                teacher: {
+                  _id: subject?.teacher?._id || '',
+                  name: subject?.teacher?.name || 'Unknown Teacher',
+                  email: subject?.teacher?.email || '',
+                }
               })),
-              userAssignments: data.data?.userAssignments || [],
-              statistics: {
-                totalTests: data.data?.statistics?.totalTests || 0,
-                evaluatedTests: data.data?.statistics?.evaluatedTests || 0,
-                pendingTests: data.data?.statistics?.pendingTests || 0,
-                averagePercentage: parseFloat(data.data?.statistics?.averagePercentage || '0'),
-                totalMarksScored: data.data?.statistics?.totalMarksScored || 0,
-                totalFullMarks: data.data?.statistics?.totalFullMarks || 0,
-              }
-            };
-            setReportsData(transformedData);
-          } else {
-            setReportsData(null);
-          }
+              userAssignment: batch?.userAssignment ? {
+                assignedClasses: batch.userAssignment.assignedClasses || [],
+                assignedSubjects: (batch.userAssignment.assignedSubjects || []).map((s) => ({
+                  subjectName: s?.subjectName || 'Unknown Subject'
+                }))
+              } : undefined
+            })),
+            tests: (data.data?.tests || []).map((test) => ({
+              ...test,
+              testTitle: test?.testTitle || 'Untitled Test',
+              batch: {
+                _id: test?.batch?._id || '',
+                batchName: test?.batch?.batchName || 'Unknown Batch',
+                category: test?.batch?.category || 'Unknown Category',
+              },
+              createdBy: {
+                _id: test?.createdBy?._id || '',
+                name: test?.createdBy?.name || 'Unknown Teacher',
+                email: test?.createdBy?.email || '',
+              },
+              className: test?.className || 'Unknown Class',
+              subjectName: test?.subjectName || 'Unknown Subject',
+              percentage: test?.percentage || null,
+            })),
+            userAssignments: data.data?.userAssignments || [],
+            statistics: {
+              totalTests: data.data?.statistics?.totalTests || 0,
+              evaluatedTests: data.data?.statistics?.evaluatedTests || 0,
+              pendingTests: data.data?.statistics?.pendingTests || 0,
+              averagePercentage: parseFloat(data.data?.statistics?.averagePercentage || '0'),
+              totalMarksScored: data.data?.statistics?.totalMarksScored || 0,
+              totalFullMarks: data.data?.statistics?.totalFullMarks || 0,
+            }
+          };
+          setReportsData(transformedData);
         } else {
-          console.error('Failed to fetch user reports:', data.message);
-          Alert.alert('Error', data.message || 'Failed to fetch reports');
+          setReportsData(null);
         }
       } else {
-        console.error('Failed to fetch user reports:', response.status);
-        Alert.alert('Error', 'Failed to fetch reports. Please try again.');
+        console.error('Failed to fetch user reports:', data.message);
+        Alert.alert('Error', data.message || 'Failed to fetch reports');
       }
     } catch (error) {
       console.error('Error fetching user reports:', error);
-      Alert.alert('Error', 'Network error. Please check your connection.');
+      if (!(error instanceof ApiError && error.isUnauthorized)) {
+        Alert.alert('Error', 'Failed to fetch reports. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -545,7 +579,7 @@ const startPulseAnimation = () => {
     
     switch (selectedFilter) {
       case 'pending':
-        return reportsData.tests.filter(test => test.status === 'pending');
+        return reportsData.tests.filter(test => test.status !== 'evaluated');
       case 'evaluated':
         return reportsData.tests.filter(test => test.status === 'evaluated');
       default:
@@ -828,15 +862,15 @@ const renderAuthenticatedContent = () => {
 };
 
   // Safe data access helpers
-  const safeGetTeacherName = (teacher: any): string => {
+  const safeGetTeacherName = (teacher?: { name?: string }): string => {
     return teacher?.name || 'Unknown Teacher';
   };
 
-  const safeGetBatchName = (batch: any): string => {
+  const safeGetBatchName = (batch?: { batchName?: string }): string => {
     return batch?.batchName || 'Unknown Batch';
   };
 
-  const safeGetCreatorName = (creator: any): string => {
+  const safeGetCreatorName = (creator?: { name?: string }): string => {
     return creator?.name || 'Unknown Creator';
   };
 
@@ -947,7 +981,7 @@ const EmptyState = () => (
 );
 
   // Statistics Card Component - Updated to match MyContent style
-  const StatisticsCard = ({ statistics }: { statistics: any }) => (
+  const StatisticsCard = ({ statistics }: { statistics: UserReportsData['statistics'] }) => (
     <Animated.View style={[styles.statisticsCard, { 
       opacity: fadeAnim,
       transform: [{ scale: Animated.multiply(contentScale, pulseScale) }],
@@ -1053,6 +1087,18 @@ const EmptyState = () => (
               </View>
             )}
             
+            {item.submittedAt && (
+              <View style={styles.testInfoItem}>
+                <MaterialIcons name="upload-file" size={16} color={item.isLate ? BRAND.dangerColor : BRAND.textSecondary} />
+                <Text style={[styles.testInfoLabel, item.isLate && { color: BRAND.dangerColor }]}>
+                  {item.isLate ? 'Submitted Late' : 'Submitted'}
+                </Text>
+                <Text style={[styles.testInfoValue, item.isLate && { color: BRAND.dangerColor }]}>
+                  {new Date(item.submittedAt).toLocaleDateString()}
+                </Text>
+              </View>
+            )}
+
             {item.evaluatedAt && (
               <View style={styles.testInfoItem}>
                 <MaterialIcons name="check-circle" size={16} color={BRAND.successColor} />
@@ -1137,6 +1183,64 @@ const EmptyState = () => (
             </TouchableOpacity>
           )}
         </View>
+
+        {/* Answer sheet submission (offline tests) */}
+        {item.testType !== 'online' && (item.status !== 'evaluated' || item.submittedAt) && (
+          <View style={[styles.actionButtons, styles.submissionButtons]}>
+            {item.status !== 'evaluated' && (
+              <TouchableOpacity
+                style={[styles.downloadButton, styles.answerButton]}
+                onPress={() => setUploadTarget(item)}
+                activeOpacity={0.8}
+              >
+                <MaterialIcons name="cloud-upload" size={18} color={BRAND.primaryColor} />
+                <Text style={styles.downloadButtonText}>{item.submittedAt ? 'Resubmit Answers' : 'Submit Answers'}</Text>
+              </TouchableOpacity>
+            )}
+
+            {item.submittedAt && (
+              <TouchableOpacity
+                style={[
+                  styles.downloadButton,
+                  downloadingPdf === item.testId + '_sheet' && styles.downloadButtonDisabled
+                ]}
+                onPress={() => downloadSubmittedSheet(item.testId, item.testTitle || 'test')}
+                disabled={downloadingPdf === item.testId + '_sheet'}
+                activeOpacity={0.8}
+              >
+                {downloadingPdf === item.testId + '_sheet' ? (
+                  <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+                ) : (
+                  <>
+                    <MaterialIcons name="description" size={18} color={BRAND.backgroundColor} />
+                    <Text style={styles.downloadButtonText}>My Submission</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {item.hasCheckedSheet && (
+              <TouchableOpacity
+                style={[
+                  styles.downloadButton,
+                  downloadingPdf === item.testId + '_checked' && styles.downloadButtonDisabled
+                ]}
+                onPress={() => downloadSubmittedSheet(item.testId, item.testTitle || 'test', true)}
+                disabled={downloadingPdf === item.testId + '_checked'}
+                activeOpacity={0.8}
+              >
+                {downloadingPdf === item.testId + '_checked' ? (
+                  <ActivityIndicator size="small" color={BRAND.backgroundColor} />
+                ) : (
+                  <>
+                    <MaterialIcons name="fact-check" size={18} color={BRAND.backgroundColor} />
+                    <Text style={styles.downloadButtonText}>Checked Copy</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
     </Animated.View>
   );
@@ -1244,6 +1348,15 @@ const EmptyState = () => (
 
       {/* Bottom Navigation */}
       <BottomNavigation navigation={navigation} activeTab="Reports" />
+
+      <AnswerSheetUploadModal
+        visible={!!uploadTarget}
+        testId={uploadTarget?.testId || ''}
+        testTitle={uploadTarget?.testTitle || ''}
+        alreadySubmitted={!!uploadTarget?.submittedAt}
+        onSubmitted={handleAnswerSheetSubmitted}
+        onClose={() => setUploadTarget(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -1709,6 +1822,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 10,
   },
+  submissionButtons: {
+    marginTop: 10,
+  },
   downloadButton: {
     backgroundColor: '#1a2e1a',
     flexDirection: 'row',